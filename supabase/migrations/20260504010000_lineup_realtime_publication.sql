@@ -0,0 +1,44 @@
+-- Realtime lineup push for TV display + lineup control pages
+--
+-- /events/[id]/display and /events/[id]/lineup used to poll
+-- event_lineup_state and timeslot_claims every 5–10s from every TV and
+-- phone in the room. They now subscribe to Supabase Realtime
+-- postgres_changes (see web/src/hooks/useLineupRealtime.ts) and keep only
+-- a slow safety poll plus a backfill fetch on reconnect.
+--
+-- This migration only adds the three lineup tables to the
+-- supabase_realtime publication. Realtime delivers postgres_changes through
+-- each subscriber's existing RLS SELECT policies, so no policy changes are
+-- needed: anon viewers see exactly the rows the polling queries returned.
+--
+-- - event_lineup_state: now_playing_timeslot_id changes (Go Live, Next, Stop)
+-- - timeslot_claims: claim inserts, releases/cancellations, waitlist
+--   promotions (status transitions), performed/no-show marks
+-- - event_timeslots: slot regeneration when a host changes slot config
+--
+-- Connected-display counts use Realtime Presence on the same channel and
+-- need no schema.
+
+DO $$
+DECLARE
+  lineup_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    RAISE NOTICE 'supabase_realtime publication not found; skipping';
+    RETURN;
+  END IF;
+
+  FOREACH lineup_table IN ARRAY ARRAY['event_lineup_state', 'timeslot_claims', 'event_timeslots']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = lineup_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', lineup_table);
+    END IF;
+  END LOOP;
+END;
+$$;
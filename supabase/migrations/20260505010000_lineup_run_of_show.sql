@@ -0,0 +1,224 @@
+-- Run-of-show console: per-performer timers, actual start/end times, co-host
+-- access to the performed / no-show RPCs.
+--
+-- 1. event_lineup_state.now_playing_started_at — when the current slot went
+--    live. The host console and the TV display both count down from it.
+-- 2. event_lineup_state.warning_seconds — how long before the end of a slot
+--    the countdown turns to the warning color (host-configurable per night).
+-- 3. timeslot_claims.performance_started_at / performance_ended_at — the
+--    night's actual times per performer, used for schedule drift.
+-- 4. A BEFORE INSERT/UPDATE trigger on event_lineup_state stamps those times
+--    whenever now_playing_timeslot_id changes, so every path that moves the
+--    lineup (run-of-show API, lineup page Next/Prev/Go Live, Stop) records
+--    them consistently.
+-- 5. mark_timeslot_performed / mark_timeslot_no_show now also accept
+--    accepted co-hosts (event_hosts.invitation_status = 'accepted'), matching
+--    canManageEvent() in web/src/lib/events/eventManageAuth.ts. EXECUTE
+--    grants (service_role only) are unchanged.
+--
+-- No RLS policy changes.
+
+-- =====================================================
+-- STEP 1: Columns
+-- =====================================================
+
+ALTER TABLE public.event_lineup_state
+ADD COLUMN IF NOT EXISTS now_playing_started_at timestamptz;
+
+ALTER TABLE public.event_lineup_state
+ADD COLUMN IF NOT EXISTS warning_seconds integer NOT NULL DEFAULT 120
+  CHECK (warning_seconds >= 0 AND warning_seconds <= 1800);
+
+COMMENT ON COLUMN public.event_lineup_state.now_playing_started_at IS 'When the current now-playing slot went live (set by trigger)';
+COMMENT ON COLUMN public.event_lineup_state.warning_seconds IS 'Seconds before slot end when the run-of-show timer shows a warning';
+
+ALTER TABLE public.timeslot_claims
+ADD COLUMN IF NOT EXISTS performance_started_at timestamptz;
+
+ALTER TABLE public.timeslot_claims
+ADD COLUMN IF NOT EXISTS performance_ended_at timestamptz;
+
+COMMENT ON COLUMN public.timeslot_claims.performance_started_at IS 'Actual time this performer went on (first time their slot was now playing)';
+COMMENT ON COLUMN public.timeslot_claims.performance_ended_at IS 'Actual time the lineup moved off this performer';
+
+-- =====================================================
+-- STEP 2: Record actual performance times
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.record_lineup_performance_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.now_playing_timeslot_id IS NOT DISTINCT FROM OLD.now_playing_timeslot_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Close out the performer we are moving away from
+  IF TG_OP = 'UPDATE' AND OLD.now_playing_timeslot_id IS NOT NULL THEN
+    UPDATE public.timeslot_claims
+    SET performance_ended_at = now()
+    WHERE timeslot_id = OLD.now_playing_timeslot_id
+      AND status IN ('confirmed', 'performed')
+      AND performance_started_at IS NOT NULL
+      AND performance_ended_at IS NULL;
+  END IF;
+
+  IF NEW.now_playing_timeslot_id IS NULL THEN
+    NEW.now_playing_started_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.now_playing_started_at := now();
+
+  -- Keep the first start time if the host steps back to this performer
+  UPDATE public.timeslot_claims
+  SET
+    performance_started_at = COALESCE(performance_started_at, now()),
+    performance_ended_at = NULL
+  WHERE timeslot_id = NEW.now_playing_timeslot_id
+    AND status IN ('confirmed', 'performed');
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_lineup_performance_times() FROM anon, public;
+
+DROP TRIGGER IF EXISTS trg_record_lineup_performance_times ON public.event_lineup_state;
+CREATE TRIGGER trg_record_lineup_performance_times
+  BEFORE INSERT OR UPDATE OF now_playing_timeslot_id ON public.event_lineup_state
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_lineup_performance_times();
+
+-- =====================================================
+-- STEP 3: Co-host access to performed / no-show RPCs
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.mark_timeslot_no_show(
+  p_claim_id uuid,
+  p_updated_by uuid
+)
+RETURNS public.timeslot_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+BEGIN
+  -- Get the claim with event info
+  SELECT c.*, e.id AS event_id, e.host_id, e.slot_offer_window_minutes
+  INTO v_claim
+  FROM public.timeslot_claims c
+  JOIN public.event_timeslots t ON t.id = c.timeslot_id
+  JOIN public.events e ON e.id = t.event_id
+  WHERE c.id = p_claim_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status NOT IN ('confirmed', 'performed') THEN
+    RAISE EXCEPTION 'Can only mark confirmed or performed claims as no-show';
+  END IF;
+
+  -- Check permission: must be host, accepted co-host, or admin
+  IF v_claim.host_id IS DISTINCT FROM p_updated_by
+     AND NOT EXISTS (
+       SELECT 1 FROM public.event_hosts
+       WHERE event_id = v_claim.event_id
+         AND user_id = p_updated_by
+         AND invitation_status = 'accepted'
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM public.profiles
+       WHERE id = p_updated_by AND role = 'admin'
+     ) THEN
+    RAISE EXCEPTION 'Only host or admin can mark no-show';
+  END IF;
+
+  -- Update claim to no_show (a no-show never performed)
+  UPDATE public.timeslot_claims
+  SET
+    status = 'no_show',
+    performance_started_at = NULL,
+    performance_ended_at = NULL,
+    updated_at = now(),
+    updated_by = p_updated_by
+  WHERE id = p_claim_id;
+
+  -- Increment no-show count on profile if member claim
+  IF v_claim.member_id IS NOT NULL THEN
+    UPDATE public.profiles
+    SET no_show_count = COALESCE(no_show_count, 0) + 1
+    WHERE id = v_claim.member_id;
+  END IF;
+
+  -- Promote next in waitlist for this slot
+  PERFORM public.promote_timeslot_waitlist(
+    v_claim.timeslot_id,
+    COALESCE(v_claim.slot_offer_window_minutes, 120)
+  );
+
+  RETURN (SELECT tc FROM public.timeslot_claims tc WHERE tc.id = p_claim_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_timeslot_performed(
+  p_claim_id uuid,
+  p_updated_by uuid
+)
+RETURNS public.timeslot_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim RECORD;
+BEGIN
+  -- Get the claim with event info
+  SELECT c.*, e.id AS event_id, e.host_id
+  INTO v_claim
+  FROM public.timeslot_claims c
+  JOIN public.event_timeslots t ON t.id = c.timeslot_id
+  JOIN public.events e ON e.id = t.event_id
+  WHERE c.id = p_claim_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status != 'confirmed' THEN
+    RAISE EXCEPTION 'Can only mark confirmed claims as performed';
+  END IF;
+
+  -- Check permission: must be host, accepted co-host, or admin
+  IF v_claim.host_id IS DISTINCT FROM p_updated_by
+     AND NOT EXISTS (
+       SELECT 1 FROM public.event_hosts
+       WHERE event_id = v_claim.event_id
+         AND user_id = p_updated_by
+         AND invitation_status = 'accepted'
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM public.profiles
+       WHERE id = p_updated_by AND role = 'admin'
+     ) THEN
+    RAISE EXCEPTION 'Only host or admin can mark performed';
+  END IF;
+
+  -- Update claim
+  UPDATE public.timeslot_claims
+  SET
+    status = 'performed',
+    updated_at = now(),
+    updated_by = p_updated_by
+  WHERE id = p_claim_id;
+
+  RETURN (SELECT tc FROM public.timeslot_claims tc WHERE tc.id = p_claim_id);
+END;
+$$;
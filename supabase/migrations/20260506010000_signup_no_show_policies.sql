@@ -0,0 +1,268 @@
+-- Per-event signup policies backed by no-show history
+--
+-- profiles.no_show_count is incremented by mark_timeslot_no_show but never
+-- decays and never gated anything. Hosts can now set a per-event policy in
+-- events.signup_policy (jsonb, NULL = no policy):
+--
+--   {
+--     "waitlist_after_no_shows": 2,        -- members with >= N recent no-shows
+--                                          -- land on the slot's waitlist for
+--                                          -- host approval instead of confirmed
+--     "guest_slots_per_month": 1,          -- guest claims per email per calendar
+--                                          -- month (by occurrence date) for this event
+--     "require_verified_after_no_show": true,
+--                                          -- anyone with a recent no-show must
+--                                          -- sign in with a verified-email account
+--                                          -- (no guest claims)
+--     "no_show_decay_days": 90             -- "recent" window; older no-shows expire
+--   }
+--
+-- Recent no-shows are counted from timeslot_claims history (status =
+-- 'no_show', updated_at inside the decay window) across all events, by
+-- member_id for members and by lower(guest_email) for guests.
+--
+-- Enforcement:
+-- - BEFORE INSERT trigger on timeslot_claims covers the member client
+--   insert (TimeslotSection) and the guest verify-code route (service role).
+--   Violations raise with a 'Signup policy: ' message prefix that the app
+--   surfaces verbatim.
+-- - BEFORE UPDATE on the same trigger blocks a member from promoting their
+--   own waitlisted claim straight to confirmed.
+-- - rpc_claim_open_mic_slot (legacy event_slots) applies the waitlist
+--   threshold as a hard block since event_slots has no waitlist.
+--
+-- The active-slot unique index now ignores 'waitlist' rows so a policy
+-- waitlisted claim does not block other performers from the open slot.
+--
+-- No RLS policy changes.
+
+-- =====================================================
+-- STEP 1: Policy column
+-- =====================================================
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS signup_policy jsonb
+  CHECK (signup_policy IS NULL OR jsonb_typeof(signup_policy) = 'object');
+
+COMMENT ON COLUMN public.events.signup_policy IS 'Per-event performer signup policy (no-show waitlisting, guest monthly limit, verification after no-show, decay window)';
+
+-- =====================================================
+-- STEP 2: Waitlist rows no longer occupy the slot
+-- =====================================================
+
+DROP INDEX IF EXISTS public.idx_timeslot_claims_active_slot;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timeslot_claims_active_slot
+  ON public.timeslot_claims(timeslot_id)
+  WHERE status NOT IN ('cancelled', 'no_show', 'waitlist');
+
+-- Recent no-show lookups by guest email
+CREATE INDEX IF NOT EXISTS idx_timeslot_claims_guest_email_no_show
+  ON public.timeslot_claims(lower(guest_email), updated_at)
+  WHERE status = 'no_show' AND guest_email IS NOT NULL;
+
+-- =====================================================
+-- STEP 3: Recent no-show count (decays)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.count_recent_no_shows(
+  p_member_id uuid,
+  p_guest_email text,
+  p_decay_days integer
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+  SELECT COUNT(*)::integer
+  FROM public.timeslot_claims c
+  WHERE c.status = 'no_show'
+    AND c.updated_at >= now() - make_interval(days => GREATEST(p_decay_days, 0))
+    AND (
+      (p_member_id IS NOT NULL AND c.member_id = p_member_id)
+      OR (p_guest_email IS NOT NULL AND lower(c.guest_email) = lower(p_guest_email))
+    );
+$$;
+
+-- Takes any member or email, so only the trigger below and service-role
+-- routes may call it; signed-in callers use count_my_recent_no_shows().
+REVOKE EXECUTE ON FUNCTION public.count_recent_no_shows(uuid, text, integer) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.count_recent_no_shows(uuid, text, integer) TO service_role;
+
+COMMENT ON FUNCTION public.count_recent_no_shows IS 'No-shows inside the decay window for a member or guest email (signup policies)';
+
+CREATE OR REPLACE FUNCTION public.count_my_recent_no_shows(p_decay_days integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN 0
+    ELSE public.count_recent_no_shows(auth.uid(), NULL, p_decay_days)
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_my_recent_no_shows(integer) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.count_my_recent_no_shows(integer) TO authenticated;
+
+COMMENT ON FUNCTION public.count_my_recent_no_shows IS 'Caller''s own recent no-shows (auth.uid()); used by rpc_claim_open_mic_slot';
+
+-- =====================================================
+-- STEP 4: Enforce policy on timeslot claims
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_timeslot_signup_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_date_key text;
+  v_policy jsonb;
+  v_decay_days integer;
+  v_recent_no_shows integer;
+  v_threshold integer;
+  v_guest_limit integer;
+  v_month_claims integer;
+BEGIN
+  -- Members may not confirm their own policy-waitlisted claim
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'waitlist'
+       AND NEW.status = 'confirmed'
+       AND auth.uid() IS NOT NULL
+       AND auth.uid() = OLD.member_id THEN
+      RAISE EXCEPTION 'Signup policy: the host needs to confirm your waitlisted slot';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'confirmed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.event_id, t.date_key, e.signup_policy
+  INTO v_event_id, v_date_key, v_policy
+  FROM public.event_timeslots t
+  JOIN public.events e ON e.id = t.event_id
+  WHERE t.id = NEW.timeslot_id;
+
+  IF v_policy IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_decay_days := COALESCE((v_policy->>'no_show_decay_days')::integer, 90);
+  v_recent_no_shows := public.count_recent_no_shows(NEW.member_id, NEW.guest_email, v_decay_days);
+
+  IF COALESCE((v_policy->>'require_verified_after_no_show')::boolean, false)
+     AND v_recent_no_shows > 0 THEN
+    IF NEW.member_id IS NULL THEN
+      RAISE EXCEPTION 'Signup policy: after a recent no-show, please sign in with a verified account to claim a slot';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      WHERE u.id = NEW.member_id AND u.email_confirmed_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Signup policy: after a recent no-show, please verify your email before claiming a slot';
+    END IF;
+  END IF;
+
+  v_guest_limit := (v_policy->>'guest_slots_per_month')::integer;
+  IF NEW.member_id IS NULL AND NEW.guest_email IS NOT NULL AND v_guest_limit IS NOT NULL THEN
+    SELECT COUNT(*)::integer
+    INTO v_month_claims
+    FROM public.timeslot_claims c
+    JOIN public.event_timeslots t ON t.id = c.timeslot_id
+    WHERE t.event_id = v_event_id
+      AND left(t.date_key, 7) = left(v_date_key, 7)
+      AND lower(c.guest_email) = lower(NEW.guest_email)
+      AND c.status <> 'cancelled';
+
+    IF v_month_claims >= v_guest_limit THEN
+      RAISE EXCEPTION 'Signup policy: guests can claim % slot(s) per month at this event', v_guest_limit;
+    END IF;
+  END IF;
+
+  v_threshold := (v_policy->>'waitlist_after_no_shows')::integer;
+  IF NEW.member_id IS NOT NULL AND v_threshold IS NOT NULL AND v_recent_no_shows >= v_threshold THEN
+    NEW.status := 'waitlist';
+    NEW.waitlist_position := COALESCE((
+      SELECT MAX(c.waitlist_position)
+      FROM public.timeslot_claims c
+      WHERE c.timeslot_id = NEW.timeslot_id AND c.status = 'waitlist'
+    ), 0) + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_timeslot_signup_policy() FROM anon, public;
+
+DROP TRIGGER IF EXISTS trg_enforce_timeslot_signup_policy ON public.timeslot_claims;
+CREATE TRIGGER trg_enforce_timeslot_signup_policy
+  BEFORE INSERT OR UPDATE OF status ON public.timeslot_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_timeslot_signup_policy();
+
+-- =====================================================
+-- STEP 5: Legacy open mic slot claims
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION rpc_claim_open_mic_slot(slot_id UUID)
+RETURNS event_slots
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  result event_slots;
+  v_policy jsonb;
+BEGIN
+  -- CRITICAL FIX: Lock parent event to prevent slot-hoarding race condition
+  -- We lock the Event row associated with this slot.
+  -- This forces concurrent claims for the SAME event to process sequentially.
+  -- If slot_id is invalid, the subquery returns null and no lock is taken (safe).
+  SELECT signup_policy INTO v_policy
+  FROM events
+  WHERE id = (SELECT event_id FROM event_slots WHERE id = slot_id)
+  FOR UPDATE;
+
+  -- Signup policy: event_slots has no waitlist, so the threshold blocks
+  IF v_policy ? 'waitlist_after_no_shows'
+     AND public.count_my_recent_no_shows(
+       COALESCE((v_policy->>'no_show_decay_days')::integer, 90)
+     ) >= (v_policy->>'waitlist_after_no_shows')::integer THEN
+    RAISE EXCEPTION 'Signup policy: too many recent no-shows to claim a slot at this event';
+  END IF;
+
+  -- Atomic UPDATE with business rule enforcement
+  UPDATE event_slots
+  SET
+    performer_id = auth.uid(),
+    updated_at = NOW()
+  WHERE id = slot_id
+    AND performer_id IS NULL  -- Must be unclaimed
+    AND NOT EXISTS (
+      -- Prevent multiple slots per performer per event
+      -- Because of the Lock above, this check is now concurrency-safe
+      SELECT 1
+      FROM event_slots es2
+      WHERE es2.event_id = event_slots.event_id
+        AND es2.performer_id = auth.uid()
+    )
+  RETURNING * INTO result;
+
+  -- Check if update succeeded
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Slot not available or you already have a slot in this event';
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Lottery ("hat draw") signup mode for performer slots
+-- REVIEWED: policy change acknowledged
+--
+-- signup_mode = 'lottery': members enter a per-occurrence entry pool until
+-- the cutoff (signup_time, or start_time when unset, plus
+-- events.lottery_cutoff_offset_minutes on the occurrence date, Denver time).
+-- At the cutoff the app runs a seeded draw (lib/events/lottery.ts):
+-- winners get confirmed timeslot_claims in draw order, everyone else is
+-- waitlisted by draw order. The seed, entrant list and order are stored in
+-- timeslot_lottery_draws so anyone can re-run the draw and verify it.
+--
+-- Dropouts after the draw offer the freed slot to the next waitlisted
+-- entrant (lib/waitlistOffer.ts, offered claim with an expiry window).
+--
+-- Both tables are written only by the service role through
+-- /api/events/[id]/lottery and the lottery cron. Members can read their own
+-- entries; draw records are served by the API.
+
+-- =====================================================
+-- STEP 1: Signup mode + cutoff offset
+-- =====================================================
+
+ALTER TABLE public.events DROP CONSTRAINT IF EXISTS events_signup_mode_check;
+ALTER TABLE public.events ADD CONSTRAINT events_signup_mode_check
+  CHECK (signup_mode IS NULL OR signup_mode IN ('in_person', 'online', 'both', 'walk_in', 'lottery'));
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS lottery_cutoff_offset_minutes integer NOT NULL DEFAULT 0
+  CHECK (lottery_cutoff_offset_minutes BETWEEN -720 AND 720);
+
+COMMENT ON COLUMN public.events.lottery_cutoff_offset_minutes IS 'Lottery draw time relative to signup_time (or start_time) on each occurrence date, in minutes';
+
+-- =====================================================
+-- STEP 2: Entry pool
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.timeslot_lottery_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  date_key text NOT NULL,
+  member_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'entered'
+    CHECK (status IN ('entered', 'won', 'waitlist', 'offered', 'withdrawn', 'expired')),
+  waitlist_position integer,
+  claim_id uuid REFERENCES public.timeslot_claims(id) ON DELETE SET NULL,
+  offer_expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT timeslot_lottery_entries_one_per_member UNIQUE (event_id, date_key, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timeslot_lottery_entries_occurrence
+  ON public.timeslot_lottery_entries(event_id, date_key, status);
+
+COMMENT ON TABLE public.timeslot_lottery_entries IS 'Lottery signup entries per event occurrence; status follows the draw (won / waitlist / offered after a dropout)';
+
+-- =====================================================
+-- STEP 3: Draw record (one per occurrence)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.timeslot_lottery_draws (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  date_key text NOT NULL,
+  seed text NOT NULL,
+  algorithm text NOT NULL,
+  entrant_count integer NOT NULL,
+  slot_count integer NOT NULL,
+  result jsonb NOT NULL,
+  drawn_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT timeslot_lottery_draws_one_per_occurrence UNIQUE (event_id, date_key)
+);
+
+COMMENT ON TABLE public.timeslot_lottery_draws IS 'Seeded lottery draw per occurrence. result holds the sorted entrant list, draw order and slot assignments for verification';
+
+-- =====================================================
+-- STEP 4: RLS
+-- =====================================================
+
+ALTER TABLE public.timeslot_lottery_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timeslot_lottery_draws ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view own lottery entries" ON public.timeslot_lottery_entries;
+CREATE POLICY "Members can view own lottery entries"
+  ON public.timeslot_lottery_entries
+  FOR SELECT
+  TO authenticated
+  USING (member_id = auth.uid());
+
+-- No insert/update/delete policies: writes go through the service role.
+-- No policies on timeslot_lottery_draws: served by /api/events/[id]/lottery.
+
+-- =====================================================
+-- STEP 5: No first-come claims before the draw
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_timeslot_lottery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_event_id uuid;
+  v_date_key text;
+  v_signup_mode text;
+BEGIN
+  IF NEW.status NOT IN ('confirmed', 'offered') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.event_id, t.date_key, e.signup_mode
+  INTO v_event_id, v_date_key, v_signup_mode
+  FROM public.event_timeslots t
+  JOIN public.events e ON e.id = t.event_id
+  WHERE t.id = NEW.timeslot_id;
+
+  IF v_signup_mode IS DISTINCT FROM 'lottery' THEN
+    RETURN NEW;
+  END IF;
+
+  -- After the draw, leftover open slots are first come, first served
+  IF NOT EXISTS (
+    SELECT 1 FROM public.timeslot_lottery_draws d
+    WHERE d.event_id = v_event_id AND d.date_key = v_date_key
+  ) THEN
+    RAISE EXCEPTION 'Signup policy: this lineup is drawn by lottery, so enter the draw instead of claiming a slot';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_timeslot_lottery() FROM anon, public;
+
+DROP TRIGGER IF EXISTS trg_enforce_timeslot_lottery ON public.timeslot_claims;
+CREATE TRIGGER trg_enforce_timeslot_lottery
+  BEFORE INSERT ON public.timeslot_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_timeslot_lottery();
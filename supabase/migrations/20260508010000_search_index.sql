@@ -0,0 +1,465 @@
+-- Site search index
+-- REVIEWED: policy change acknowledged
+--
+-- Replaces the five ad-hoc ilike queries in /api/search with one ranked
+-- index over every public entity:
+--   events (open mics split out as result_type 'open_mic'), venues,
+--   member profiles, blog posts, gallery albums, organizations.
+--
+-- search_source is the single definition of what is searchable. It applies
+-- the same visibility rules as the public pages (published + public +
+-- active events, approved blog posts, public profiles, ...). Rows are
+-- copied into search_documents by AFTER triggers on each source table, so
+-- the index never holds anything a signed-out visitor could not see.
+--
+-- Matching (search_documents_query):
+--   * full text, every word prefix-matched ("song wri" finds "Songwriter")
+--   * trigram word similarity on title + keywords for typos ("opne mic")
+-- Ranking: ts_rank_cd + title similarity, with exact / prefix title boosts.
+-- Facets (search_documents_facets): type, day, city, cost. Each facet is
+-- counted with every other active filter applied (disjunctive faceting).
+-- Distance filtering passes venue ids resolved by lib/happenings/locationFilter.
+
+-- =====================================================
+-- STEP 1: Index table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.search_documents (
+  entity_type text NOT NULL
+    CHECK (entity_type IN ('event', 'venue', 'member', 'blog', 'gallery', 'organization')),
+  entity_id uuid NOT NULL,
+  result_type text NOT NULL
+    CHECK (result_type IN ('open_mic', 'event', 'venue', 'member', 'blog', 'gallery', 'organization')),
+  title text NOT NULL,
+  subtitle text,
+  url text NOT NULL,
+  image_url text,
+  city text,
+  venue_id uuid,
+  days text[] NOT NULL DEFAULT '{}',
+  cost text CHECK (cost IN ('free', 'paid', 'unknown')),
+  occurrence jsonb,
+  search_text text NOT NULL,
+  search_vector tsvector NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_vector
+  ON public.search_documents USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_search_documents_trgm
+  ON public.search_documents USING gin (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_search_documents_venue
+  ON public.search_documents (venue_id) WHERE venue_id IS NOT NULL;
+
+COMMENT ON TABLE public.search_documents IS 'Public site search index, maintained by triggers from search_source. Read-only for clients.';
+COMMENT ON COLUMN public.search_documents.days IS 'Lowercase day keys (mon..sun) an event happens on';
+COMMENT ON COLUMN public.search_documents.occurrence IS 'Event timing fields (event_date, day_of_week, recurrence_rule, ...) for next-occurrence display';
+
+-- =====================================================
+-- STEP 2: What is searchable
+-- =====================================================
+
+CREATE OR REPLACE VIEW public.search_source AS
+-- Events (published, public, active)
+SELECT
+  'event'::text AS entity_type,
+  e.id AS entity_id,
+  CASE WHEN 'open_mic' = ANY(e.event_type) THEN 'open_mic' ELSE 'event' END AS result_type,
+  e.title,
+  NULLIF(concat_ws(', ',
+    COALESCE(v.name, e.venue_name, e.custom_location_name),
+    COALESCE(v.city, e.custom_city)
+  ), '') AS subtitle,
+  '/events/' || COALESCE(e.slug, e.id::text) AS url,
+  e.cover_image_url AS image_url,
+  COALESCE(v.city, e.custom_city) AS city,
+  e.venue_id,
+  CASE
+    WHEN e.day_of_week IS NOT NULL THEN ARRAY[lower(left(trim(e.day_of_week), 3))]
+    WHEN e.event_date IS NOT NULL THEN ARRAY[lower(to_char(e.event_date, 'Dy'))]
+    ELSE '{}'::text[]
+  END AS days,
+  CASE WHEN e.is_free IS TRUE THEN 'free' WHEN e.is_free IS FALSE THEN 'paid' ELSE 'unknown' END AS cost,
+  jsonb_build_object(
+    'event_date', e.event_date,
+    'day_of_week', e.day_of_week,
+    'recurrence_rule', e.recurrence_rule,
+    'start_time', e.start_time,
+    'max_occurrences', e.max_occurrences,
+    'custom_dates', e.custom_dates
+  ) AS occurrence,
+  lower(concat_ws(' ', e.title, v.name, e.venue_name, v.city, e.custom_city)) AS search_text,
+  setweight(to_tsvector('simple', coalesce(e.title, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', v.name, e.venue_name, e.custom_location_name, v.city, e.custom_city, array_to_string(e.event_type, ' '))), 'B')
+    || setweight(to_tsvector('simple', coalesce(e.description, '')), 'C') AS search_vector
+FROM public.events e
+LEFT JOIN public.venues v ON v.id = e.venue_id
+WHERE e.is_published = true
+  AND e.visibility = 'public'
+  AND e.status = 'active'
+
+UNION ALL
+
+-- Venues
+SELECT
+  'venue', v.id, 'venue',
+  v.name,
+  NULLIF(concat_ws(', ', v.neighborhood, v.city, v.state), ''),
+  '/venues/' || COALESCE(v.slug, v.id::text),
+  v.cover_image_url,
+  v.city,
+  v.id,
+  '{}'::text[],
+  NULL,
+  NULL,
+  lower(concat_ws(' ', v.name, v.neighborhood, v.city)),
+  setweight(to_tsvector('simple', coalesce(v.name, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', v.neighborhood, v.city, v.state, v.address)), 'B')
+FROM public.venues v
+
+UNION ALL
+
+-- Member profiles (public only)
+SELECT
+  'member', p.id, 'member',
+  COALESCE(p.full_name, 'Member'),
+  NULLIF(concat_ws(' • ',
+    NULLIF(concat_ws(', ',
+      CASE WHEN p.is_songwriter THEN 'Songwriter' END,
+      CASE WHEN p.is_host THEN 'Host' END,
+      CASE WHEN p.is_studio THEN 'Studio' END
+    ), ''),
+    p.city
+  ), ''),
+  '/songwriters/' || COALESCE(p.slug, p.id::text),
+  p.avatar_url,
+  p.city,
+  NULL,
+  '{}'::text[],
+  NULL,
+  NULL,
+  lower(concat_ws(' ', p.full_name, array_to_string(p.genres, ' '), array_to_string(p.instruments, ' '), p.city)),
+  setweight(to_tsvector('simple', coalesce(p.full_name, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', array_to_string(p.genres, ' '), array_to_string(p.instruments, ' '), p.city)), 'B')
+    || setweight(to_tsvector('simple', coalesce(p.bio, '')), 'C')
+FROM public.profiles p
+WHERE p.is_public = true
+  AND p.full_name IS NOT NULL
+
+UNION ALL
+
+-- Blog posts (published + approved)
+SELECT
+  'blog', b.id, 'blog',
+  b.title,
+  left(b.excerpt, 120),
+  '/blog/' || b.slug,
+  b.cover_image_url,
+  NULL,
+  NULL,
+  '{}'::text[],
+  NULL,
+  NULL,
+  lower(concat_ws(' ', b.title, array_to_string(b.tags, ' '))),
+  setweight(to_tsvector('simple', coalesce(b.title, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', b.excerpt, array_to_string(b.tags, ' '))), 'B')
+    || setweight(to_tsvector('simple', coalesce(b.content, '')), 'D')
+FROM public.blog_posts b
+WHERE b.is_published = true
+  AND b.is_approved = true
+
+UNION ALL
+
+-- Gallery albums (published, not hidden)
+SELECT
+  'gallery', g.id, 'gallery',
+  g.name,
+  left(g.description, 120),
+  '/gallery/' || g.slug,
+  g.cover_image_url,
+  NULL,
+  g.venue_id,
+  '{}'::text[],
+  NULL,
+  NULL,
+  lower(g.name),
+  setweight(to_tsvector('simple', coalesce(g.name, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(g.description, '')), 'C')
+FROM public.gallery_albums g
+WHERE g.is_published = true
+  AND g.is_hidden = false
+
+UNION ALL
+
+-- Organizations (Friends of the Collective, active + public)
+SELECT
+  'organization', o.id, 'organization',
+  o.name,
+  NULLIF(concat_ws(' • ', o.organization_type, o.city), ''),
+  '/friends-of-the-collective/' || o.slug,
+  o.logo_image_url,
+  o.city,
+  NULL,
+  '{}'::text[],
+  NULL,
+  NULL,
+  lower(concat_ws(' ', o.name, o.city, array_to_string(o.tags, ' '))),
+  setweight(to_tsvector('simple', coalesce(o.name, '')), 'A')
+    || setweight(to_tsvector('simple', concat_ws(' ', o.organization_type, o.city, array_to_string(o.tags, ' '))), 'B')
+    || setweight(to_tsvector('simple', concat_ws(' ', o.short_blurb, o.why_it_matters)), 'C')
+FROM public.organizations o
+WHERE o.is_active = true
+  AND o.visibility = 'public';
+
+REVOKE ALL ON public.search_source FROM anon, authenticated;
+
+-- =====================================================
+-- STEP 3: Trigger-maintained copy
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reindex_search_document(p_entity_type text, p_entity_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+BEGIN
+  DELETE FROM public.search_documents
+  WHERE entity_type = p_entity_type AND entity_id = p_entity_id;
+
+  INSERT INTO public.search_documents (
+    entity_type, entity_id, result_type, title, subtitle, url, image_url, city,
+    venue_id, days, cost, occurrence, search_text, search_vector, updated_at
+  )
+  SELECT
+    s.entity_type, s.entity_id, s.result_type, s.title, s.subtitle, s.url, s.image_url, s.city,
+    s.venue_id, s.days, s.cost, s.occurrence, s.search_text, s.search_vector, now()
+  FROM public.search_source s
+  WHERE s.entity_type = p_entity_type AND s.entity_id = p_entity_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reindex_search_document(text, uuid) FROM anon, authenticated, public;
+
+CREATE OR REPLACE FUNCTION public.sync_search_document()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_entity_type text := TG_ARGV[0];
+  v_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_id := OLD.id;
+  ELSE
+    v_id := NEW.id;
+  END IF;
+
+  PERFORM public.reindex_search_document(v_entity_type, v_id);
+
+  -- Event rows carry the venue name and city
+  IF v_entity_type = 'venue' AND TG_OP = 'UPDATE' THEN
+    PERFORM public.reindex_search_document('event', e.id)
+    FROM public.events e
+    WHERE e.venue_id = v_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_search_document() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_search_sync_events ON public.events;
+CREATE TRIGGER trg_search_sync_events
+  AFTER INSERT OR UPDATE OR DELETE ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('event');
+
+DROP TRIGGER IF EXISTS trg_search_sync_venues ON public.venues;
+CREATE TRIGGER trg_search_sync_venues
+  AFTER INSERT OR UPDATE OR DELETE ON public.venues
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('venue');
+
+DROP TRIGGER IF EXISTS trg_search_sync_profiles ON public.profiles;
+CREATE TRIGGER trg_search_sync_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('member');
+
+DROP TRIGGER IF EXISTS trg_search_sync_blog_posts ON public.blog_posts;
+CREATE TRIGGER trg_search_sync_blog_posts
+  AFTER INSERT OR UPDATE OR DELETE ON public.blog_posts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('blog');
+
+DROP TRIGGER IF EXISTS trg_search_sync_gallery_albums ON public.gallery_albums;
+CREATE TRIGGER trg_search_sync_gallery_albums
+  AFTER INSERT OR UPDATE OR DELETE ON public.gallery_albums
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('gallery');
+
+DROP TRIGGER IF EXISTS trg_search_sync_organizations ON public.organizations;
+CREATE TRIGGER trg_search_sync_organizations
+  AFTER INSERT OR UPDATE OR DELETE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document('organization');
+
+-- Backfill
+INSERT INTO public.search_documents (
+  entity_type, entity_id, result_type, title, subtitle, url, image_url, city,
+  venue_id, days, cost, occurrence, search_text, search_vector
+)
+SELECT
+  entity_type, entity_id, result_type, title, subtitle, url, image_url, city,
+  venue_id, days, cost, occurrence, search_text, search_vector
+FROM public.search_source
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+-- =====================================================
+-- STEP 4: RLS (public read, trigger-only writes)
+-- =====================================================
+
+ALTER TABLE public.search_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Search index is publicly readable" ON public.search_documents;
+CREATE POLICY "Search index is publicly readable"
+  ON public.search_documents
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- =====================================================
+-- STEP 5: Query + facets
+-- =====================================================
+
+-- "song wri" -> 'song':* & 'wri':*  (NULL when the query has no words)
+CREATE OR REPLACE FUNCTION public.search_prefix_tsquery(p_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO ''
+AS $$
+  SELECT CASE WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('simple', string_agg(quote_literal(w) || ':*', ' & '))
+  END
+  FROM (
+    SELECT regexp_replace(word, '[^[:alnum:]]', '', 'g') AS w
+    FROM unnest(regexp_split_to_array(lower(trim(coalesce(p_query, ''))), '\s+')) AS word
+  ) words
+  WHERE w <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_documents_query(
+  p_query text,
+  p_types text[] DEFAULT NULL,
+  p_days text[] DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_cost text DEFAULT NULL,
+  p_venue_ids uuid[] DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  entity_type text,
+  entity_id uuid,
+  result_type text,
+  title text,
+  subtitle text,
+  url text,
+  image_url text,
+  city text,
+  days text[],
+  cost text,
+  occurrence jsonb,
+  score real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path TO public, extensions
+AS $$
+  WITH q AS (
+    SELECT public.search_prefix_tsquery(p_query) AS tsq, lower(trim(p_query)) AS raw
+  ),
+  matched AS (
+    SELECT
+      d.*,
+      (
+        COALESCE(ts_rank_cd(d.search_vector, q.tsq), 0) * 2
+        + word_similarity(q.raw, lower(d.title))
+        + CASE
+            WHEN lower(d.title) = q.raw THEN 2
+            WHEN lower(d.title) LIKE q.raw || '%' THEN 1
+            ELSE 0
+          END
+      )::real AS score
+    FROM public.search_documents d, q
+    WHERE (d.search_vector @@ q.tsq OR q.raw <% d.search_text)
+      AND (p_types IS NULL OR d.result_type = ANY(p_types))
+      AND (p_days IS NULL OR d.days && p_days)
+      AND (p_city IS NULL OR lower(d.city) = lower(p_city))
+      AND (p_cost IS NULL OR d.cost = p_cost)
+      AND (p_venue_ids IS NULL OR d.venue_id = ANY(p_venue_ids))
+  )
+  SELECT
+    m.entity_type, m.entity_id, m.result_type, m.title, m.subtitle, m.url, m.image_url,
+    m.city, m.days, m.cost, m.occurrence, m.score,
+    count(*) OVER () AS total_count
+  FROM matched m
+  ORDER BY m.score DESC, m.title ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_documents_facets(
+  p_query text,
+  p_types text[] DEFAULT NULL,
+  p_days text[] DEFAULT NULL,
+  p_city text DEFAULT NULL,
+  p_cost text DEFAULT NULL,
+  p_venue_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (facet text, value text, count bigint)
+LANGUAGE sql
+STABLE
+SET search_path TO public, extensions
+AS $$
+  WITH q AS (
+    SELECT public.search_prefix_tsquery(p_query) AS tsq, lower(trim(p_query)) AS raw
+  ),
+  base AS (
+    SELECT
+      d.result_type,
+      d.days,
+      d.city,
+      d.cost,
+      (p_types IS NULL OR d.result_type = ANY(p_types)) AS type_ok,
+      (p_days IS NULL OR d.days && p_days) AS day_ok,
+      (p_city IS NULL OR lower(d.city) = lower(p_city)) AS city_ok,
+      (p_cost IS NULL OR d.cost = p_cost) AS cost_ok
+    FROM public.search_documents d, q
+    WHERE (d.search_vector @@ q.tsq OR q.raw <% d.search_text)
+      AND (p_venue_ids IS NULL OR d.venue_id = ANY(p_venue_ids))
+  )
+  SELECT 'type', result_type, count(*)
+  FROM base WHERE day_ok AND city_ok AND cost_ok
+  GROUP BY result_type
+  UNION ALL
+  SELECT 'day', day, count(*)
+  FROM base, unnest(days) AS day WHERE type_ok AND city_ok AND cost_ok
+  GROUP BY day
+  UNION ALL
+  (
+    SELECT 'city', min(city), count(*)
+    FROM base WHERE city IS NOT NULL AND type_ok AND day_ok AND cost_ok
+    GROUP BY lower(city)
+    ORDER BY count(*) DESC
+    LIMIT 12
+  )
+  UNION ALL
+  SELECT 'cost', cost, count(*)
+  FROM base WHERE cost IS NOT NULL AND type_ok AND day_ok AND city_ok
+  GROUP BY cost;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_documents_query(text, text[], text[], text, text, uuid[], integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_documents_facets(text, text[], text[], text, text, uuid[]) TO anon, authenticated;
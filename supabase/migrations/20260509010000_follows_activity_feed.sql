@@ -0,0 +1,400 @@
+-- Follows + activity feed
+-- REVIEWED: policy change acknowledged
+--
+-- Members can follow another member (songwriter or host), a venue, or an
+-- organization. Public activity by followed profiles is recorded once in
+-- follow_activity by AFTER triggers on the source tables:
+--   member        signed up for a slot      (timeslot_claims, confirmed)
+--   member        hosts a new happening     (events, first published)
+--   member        published a gallery album (gallery_albums)
+--   member        published a blog post     (blog_posts, approved)
+--   venue         added a series            (events with a recurrence rule)
+--   organization  shared a post/album/series (organization_content_links)
+--
+-- Each new activity fans out to followers as a 'follow_activity' row in the
+-- existing notifications table. Muted follows keep the activity in the feed
+-- but get no notification and no digest entry. Emails are never sent per
+-- activity; the weekly happenings digest carries a "From people you follow"
+-- section gated by email_digests.
+
+-- =====================================================
+-- STEP 1: Follows
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.follows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  follower_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('member', 'venue', 'organization')),
+  target_id uuid NOT NULL,
+  muted boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (follower_id, target_type, target_id),
+  CHECK (target_type <> 'member' OR target_id <> follower_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_target
+  ON public.follows (target_type, target_id);
+
+COMMENT ON TABLE public.follows IS 'Members following a member, venue or organization';
+COMMENT ON COLUMN public.follows.muted IS 'Muted follows stay in the feed but create no notifications or digest entries';
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own follows" ON public.follows;
+CREATE POLICY "Users can view own follows"
+  ON public.follows
+  FOR SELECT
+  TO authenticated
+  USING (follower_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can follow" ON public.follows;
+CREATE POLICY "Users can follow"
+  ON public.follows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (follower_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can mute own follows" ON public.follows;
+CREATE POLICY "Users can mute own follows"
+  ON public.follows
+  FOR UPDATE
+  TO authenticated
+  USING (follower_id = auth.uid())
+  WITH CHECK (follower_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can unfollow" ON public.follows;
+CREATE POLICY "Users can unfollow"
+  ON public.follows
+  FOR DELETE
+  TO authenticated
+  USING (follower_id = auth.uid());
+
+-- Public follower counts without exposing who follows whom
+CREATE OR REPLACE FUNCTION public.get_follower_count(p_target_type text, p_target_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+  SELECT count(*)::integer
+  FROM public.follows
+  WHERE target_type = p_target_type AND target_id = p_target_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_follower_count(text, uuid) TO anon, authenticated;
+
+-- =====================================================
+-- STEP 2: Activity log
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.follow_activity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_type text NOT NULL CHECK (actor_type IN ('member', 'venue', 'organization')),
+  actor_id uuid NOT NULL,
+  verb text NOT NULL
+    CHECK (verb IN ('slot_signup', 'hosted_happening', 'gallery_album', 'blog_post', 'venue_series', 'organization_link')),
+  subject_key text NOT NULL,
+  title text NOT NULL,
+  link text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (actor_type, actor_id, verb, subject_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_activity_actor
+  ON public.follow_activity (actor_type, actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follow_activity_created
+  ON public.follow_activity (created_at DESC);
+
+COMMENT ON TABLE public.follow_activity IS 'Public activity by followable profiles, written by triggers only';
+COMMENT ON COLUMN public.follow_activity.subject_key IS 'Dedupe key (event id, event_id:date_key for slots, album/post id, link id)';
+
+ALTER TABLE public.follow_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Followers can view activity" ON public.follow_activity;
+CREATE POLICY "Followers can view activity"
+  ON public.follow_activity
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.follows f
+      WHERE f.follower_id = auth.uid()
+        AND f.target_type = follow_activity.actor_type
+        AND f.target_id = follow_activity.actor_id
+    )
+  );
+
+-- =====================================================
+-- STEP 3: Record + fan out
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.record_follow_activity(
+  p_actor_type text,
+  p_actor_id uuid,
+  p_verb text,
+  p_subject_key text,
+  p_title text,
+  p_link text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_activity_id uuid;
+BEGIN
+  IF p_actor_id IS NULL OR p_title IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.follow_activity (actor_type, actor_id, verb, subject_key, title, link)
+  VALUES (p_actor_type, p_actor_id, p_verb, p_subject_key, p_title, p_link)
+  ON CONFLICT (actor_type, actor_id, verb, subject_key) DO NOTHING
+  RETURNING id INTO v_activity_id;
+
+  -- Already recorded (re-publish, re-claim): no second notification
+  IF v_activity_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, link)
+  SELECT f.follower_id, 'follow_activity', p_title, NULL, p_link
+  FROM public.follows f
+  WHERE f.target_type = p_actor_type
+    AND f.target_id = p_actor_id
+    AND f.muted = false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_follow_activity(text, uuid, text, text, text, text) FROM anon, authenticated, public;
+
+-- Members only produce activity while their profile is public
+CREATE OR REPLACE FUNCTION public.follow_activity_member_name(p_profile_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+  SELECT COALESCE(NULLIF(trim(p.full_name), ''), 'A member')
+  FROM public.profiles p
+  WHERE p.id = p_profile_id AND p.is_public = true;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_member_name(uuid) FROM anon, authenticated, public;
+
+-- Slot signups
+CREATE OR REPLACE FUNCTION public.follow_activity_on_claim()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_event record;
+BEGIN
+  IF NEW.member_id IS NULL OR NEW.status <> 'confirmed' THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT e.id, e.slug, e.title, t.date_key INTO v_event
+  FROM public.event_timeslots t
+  JOIN public.events e ON e.id = t.event_id
+  WHERE t.id = NEW.timeslot_id
+    AND e.is_published = true
+    AND e.visibility = 'public'
+    AND e.status = 'active';
+
+  IF v_event.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_follow_activity(
+    'member',
+    NEW.member_id,
+    'slot_signup',
+    v_event.id::text || ':' || COALESCE(v_event.date_key, ''),
+    public.follow_activity_member_name(NEW.member_id) || ' signed up to play ' || v_event.title,
+    '/events/' || COALESCE(v_event.slug, v_event.id::text)
+      || CASE WHEN v_event.date_key IS NOT NULL THEN '?date=' || v_event.date_key ELSE '' END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_on_claim() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_follow_activity_claims ON public.timeslot_claims;
+CREATE TRIGGER trg_follow_activity_claims
+  AFTER INSERT OR UPDATE OF status ON public.timeslot_claims
+  FOR EACH ROW EXECUTE FUNCTION public.follow_activity_on_claim();
+
+-- New happenings (host) and new series (venue)
+CREATE OR REPLACE FUNCTION public.follow_activity_on_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_link text;
+  v_venue_name text;
+BEGIN
+  IF NOT (NEW.is_published = true AND NEW.visibility = 'public' AND NEW.status = 'active') THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE'
+    AND OLD.is_published = true AND OLD.visibility = 'public' AND OLD.status = 'active' THEN
+    RETURN NULL;
+  END IF;
+
+  v_link := '/events/' || COALESCE(NEW.slug, NEW.id::text);
+
+  IF NEW.host_id IS NOT NULL THEN
+    PERFORM public.record_follow_activity(
+      'member',
+      NEW.host_id,
+      'hosted_happening',
+      NEW.id::text,
+      public.follow_activity_member_name(NEW.host_id) || ' is hosting ' || NEW.title,
+      v_link
+    );
+  END IF;
+
+  IF NEW.venue_id IS NOT NULL AND NEW.recurrence_rule IS NOT NULL THEN
+    SELECT v.name INTO v_venue_name FROM public.venues v WHERE v.id = NEW.venue_id;
+    PERFORM public.record_follow_activity(
+      'venue',
+      NEW.venue_id,
+      'venue_series',
+      NEW.id::text,
+      COALESCE(v_venue_name, 'A venue you follow') || ' added a series: ' || NEW.title,
+      v_link
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_on_event() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_follow_activity_events ON public.events;
+CREATE TRIGGER trg_follow_activity_events
+  AFTER INSERT OR UPDATE OF is_published, visibility, status ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.follow_activity_on_event();
+
+-- Gallery albums
+CREATE OR REPLACE FUNCTION public.follow_activity_on_gallery_album()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+BEGIN
+  IF NOT (NEW.is_published = true AND NEW.is_hidden = false) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_follow_activity(
+    'member',
+    NEW.created_by,
+    'gallery_album',
+    NEW.id::text,
+    public.follow_activity_member_name(NEW.created_by) || ' posted a photo album: ' || NEW.name,
+    '/gallery/' || NEW.slug
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_on_gallery_album() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_follow_activity_gallery_albums ON public.gallery_albums;
+CREATE TRIGGER trg_follow_activity_gallery_albums
+  AFTER INSERT OR UPDATE OF is_published, is_hidden ON public.gallery_albums
+  FOR EACH ROW EXECUTE FUNCTION public.follow_activity_on_gallery_album();
+
+-- Blog posts
+CREATE OR REPLACE FUNCTION public.follow_activity_on_blog_post()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+BEGIN
+  IF NOT (NEW.is_published = true AND NEW.is_approved = true) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_follow_activity(
+    'member',
+    NEW.author_id,
+    'blog_post',
+    NEW.id::text,
+    public.follow_activity_member_name(NEW.author_id) || ' published a blog post: ' || NEW.title,
+    '/blog/' || NEW.slug
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_on_blog_post() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_follow_activity_blog_posts ON public.blog_posts;
+CREATE TRIGGER trg_follow_activity_blog_posts
+  AFTER INSERT OR UPDATE OF is_published, is_approved ON public.blog_posts
+  FOR EACH ROW EXECUTE FUNCTION public.follow_activity_on_blog_post();
+
+-- Organization content links
+CREATE OR REPLACE FUNCTION public.follow_activity_on_organization_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_org record;
+BEGIN
+  SELECT o.name, o.slug INTO v_org
+  FROM public.organizations o
+  WHERE o.id = NEW.organization_id
+    AND o.is_active = true
+    AND o.visibility = 'public';
+
+  IF v_org.name IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_follow_activity(
+    'organization',
+    NEW.organization_id,
+    'organization_link',
+    NEW.id::text,
+    v_org.name || ' shared a new '
+      || CASE NEW.link_type
+           WHEN 'blog_post' THEN 'blog post'
+           WHEN 'gallery_album' THEN 'photo album'
+           ELSE 'series'
+         END,
+    '/friends-of-the-collective/' || v_org.slug
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.follow_activity_on_organization_link() FROM anon, authenticated, public;
+
+DROP TRIGGER IF EXISTS trg_follow_activity_organization_links ON public.organization_content_links;
+CREATE TRIGGER trg_follow_activity_organization_links
+  AFTER INSERT ON public.organization_content_links
+  FOR EACH ROW EXECUTE FUNCTION public.follow_activity_on_organization_link();
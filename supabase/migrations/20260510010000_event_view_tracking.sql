@@ -0,0 +1,43 @@
+-- Event page + embed view tracking for host analytics
+-- REVIEWED: policy change acknowledged
+--
+-- One row per rendered event detail page (/events/[id]) or external embed
+-- (/embed/events/[id]), attributed to the occurrence being shown (date_key)
+-- so hosts can trend views next to RSVPs and slot fill. Referral columns hold
+-- the sanitized ?via= / ?src= tokens from lib/referrals.ts and the host part
+-- of the Referer header; no viewer identity is stored. viewer_hash is a
+-- daily-salted hash of client IP + user agent that only exists to count a
+-- viewer once per event, surface and UTC day.
+--
+-- Written only by the service role from the page/embed render. No policies:
+-- hosts read aggregates through /api/my-events/[id]/analytics after
+-- canManageEvent().
+
+CREATE TABLE IF NOT EXISTS public.event_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  date_key text,
+  surface text NOT NULL CHECK (surface IN ('page', 'embed')),
+  referral_via text,
+  referral_src text,
+  referrer_host text,
+  viewer_hash text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_views_event_date
+  ON public.event_views(event_id, date_key);
+
+-- Replayed beacons and reloads collide here; the salt rotates daily, so a
+-- returning viewer counts again the next day. NULL hashes never collide.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_views_viewer_day
+  ON public.event_views(event_id, surface, viewer_hash);
+
+COMMENT ON TABLE public.event_views IS 'Anonymous event page/embed views per occurrence for host analytics';
+COMMENT ON COLUMN public.event_views.date_key IS 'Occurrence shown when viewed (selected or next upcoming); null when the event had none';
+COMMENT ON COLUMN public.event_views.referrer_host IS 'Host of the Referer header, null for direct or same-site navigation';
+COMMENT ON COLUMN public.event_views.viewer_hash IS 'SHA-256 of client IP, user agent and UTC date; dedupes views per viewer per day';
+
+ALTER TABLE public.event_views ENABLE ROW LEVEL SECURITY;
+
+-- No policies: written and read only by the service role.
@@ -0,0 +1,37 @@
+-- Occurrence reminder emails + host briefing
+-- REVIEWED: policy change acknowledged
+--
+-- events.reminder_hours_before: how long before each occurrence RSVP'd
+-- attendees and slot claimants get the eventReminder email. NULL turns
+-- attendee reminders off for the event. Capped at 24 so the email always
+-- reads "today"/"tonight"/"tomorrow".
+--
+-- event_reminder_sends: one row per (occurrence, reminder kind, recipient).
+-- The /api/cron/event-reminders job inserts the row BEFORE sending, so the
+-- unique constraint guarantees at most one email per person per occurrence
+-- even when cron runs overlap. recipient_key is "user:<uuid>" for members
+-- and "guest:<lower-cased email>" for guests.
+--
+-- Written only by the service role from the cron. No policies.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS reminder_hours_before integer DEFAULT 24
+    CHECK (reminder_hours_before IS NULL OR reminder_hours_before BETWEEN 1 AND 24);
+
+COMMENT ON COLUMN public.events.reminder_hours_before IS 'Hours before each occurrence to email attendees a reminder; NULL disables';
+
+CREATE TABLE IF NOT EXISTS public.event_reminder_sends (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  date_key text NOT NULL,
+  reminder_type text NOT NULL CHECK (reminder_type IN ('attendee', 'host_briefing')),
+  recipient_key text NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_reminder_sends_unique UNIQUE (event_id, date_key, reminder_type, recipient_key)
+);
+
+COMMENT ON TABLE public.event_reminder_sends IS 'Idempotency log for occurrence reminder and host briefing emails';
+
+ALTER TABLE public.event_reminder_sends ENABLE ROW LEVEL SECURITY;
+
+-- No policies: written and read only by the service role.
@@ -0,0 +1,59 @@
+-- Event Audit Log — suspicion score + retention (Lane 5 PR B)
+--
+-- Follows 20260502190000_create_event_audit_log.sql and the decision memo
+-- (docs/investigation/event-audit-and-admin-alerts-decision-memo.md):
+--   * suspicion_score / suspicion_signals are written by the audit helper
+--     (web/src/lib/audit/eventAudit.ts) from the pure scorer in
+--     web/src/lib/events/auditSuspicion.ts at insert time. NULL on rows
+--     written before this migration.
+--   * cleanup_event_audit_log() applies retention by actor_role only, never
+--     by host payment tier (Trust Layer Invariant):
+--       host / cohost / admin  → kept indefinitely
+--       service / import       → 365 days
+--       anon / unknown         → 90 days
+--     Called daily by /api/cron/event-audit-retention with the service role.
+--     Same SECURITY DEFINER + service_role-only EXECUTE shape as
+--     cleanup_old_logs() (20260202000002_revoke_dangerous_function_execute.sql).
+--
+-- No policy changes: rows stay immutable from the API. The cleanup function
+-- is the only delete path.
+
+ALTER TABLE event_audit_log
+  ADD COLUMN IF NOT EXISTS suspicion_score smallint
+    CHECK (suspicion_score IS NULL OR (suspicion_score >= 0 AND suspicion_score <= 100)),
+  ADD COLUMN IF NOT EXISTS suspicion_signals text[] NOT NULL DEFAULT '{}'::text[];
+
+COMMENT ON COLUMN event_audit_log.suspicion_score IS
+  '0-100 from scoreEventEdit() at write time. NULL for rows written before scoring shipped.';
+
+COMMENT ON COLUMN event_audit_log.suspicion_signals IS
+  'Signal names that contributed to suspicion_score, e.g. {venue_swap_published}.';
+
+-- Admin browser "flagged only" filter.
+CREATE INDEX IF NOT EXISTS idx_event_audit_log_flagged_created
+  ON event_audit_log (created_at DESC)
+  WHERE suspicion_score > 0;
+
+CREATE OR REPLACE FUNCTION public.cleanup_event_audit_log()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM event_audit_log
+  WHERE (actor_role IN ('service', 'import') AND created_at < NOW() - INTERVAL '365 days')
+     OR (actor_role IN ('anon', 'unknown') AND created_at < NOW() - INTERVAL '90 days');
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.cleanup_event_audit_log() IS
+  'Retention cleanup for event_audit_log by actor_role. Service role only; run daily by /api/cron/event-audit-retention.';
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_event_audit_log() FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.cleanup_event_audit_log() TO service_role;
@@ -0,0 +1,434 @@
+-- Duplicate review queue + merge (Ops Console)
+--
+-- Replaces the one-off scripts/find-duplicates.ts + merge-duplicates.ts flow
+-- with a standing queue at /dashboard/admin/ops/duplicates:
+--   1) duplicate_dismissals — pairs an admin marked "not a duplicate" so the
+--      queue stops surfacing them. Pair ids are stored ordered (left < right).
+--   2) venue_slug_redirects — old venue slug -> surviving venue, mirroring
+--      event_slug_redirects (20260222160000_event_slug_redirect_history.sql).
+--   3) merge_events() / merge_venues() — apply the admin's winning fields to
+--      the survivor, move child rows from the loser, leave a slug redirect
+--      and delete the loser, all in one transaction.
+--
+-- All three are service-role only: the /api/admin/ops/duplicates routes
+-- check checkAdminRole() first, then call with the service-role client.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled on the two new tables with no policies — service role only.)
+
+-- ----------------------------------------------------------------------
+-- 1. Dismissed pairs
+-- ----------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.duplicate_dismissals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL CHECK (entity_type IN ('event', 'venue')),
+  left_id uuid NOT NULL,
+  right_id uuid NOT NULL,
+  dismissed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (left_id < right_id),
+  UNIQUE (entity_type, left_id, right_id)
+);
+
+COMMENT ON TABLE public.duplicate_dismissals IS
+  'Candidate duplicate pairs an admin reviewed and kept apart. Excluded from the duplicate review queue.';
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- ----------------------------------------------------------------------
+-- 2. Venue slug redirects
+-- ----------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.venue_slug_redirects (
+  old_slug text PRIMARY KEY,
+  venue_id uuid NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_slug_redirects_venue_id
+  ON public.venue_slug_redirects(venue_id);
+
+ALTER TABLE public.venue_slug_redirects ENABLE ROW LEVEL SECURITY;
+
+-- ----------------------------------------------------------------------
+-- 3. merge_events(survivor, loser, fields)
+--
+-- p_fields: { column: value } taken from the loser for the fields the admin
+-- picked. Identity columns are ignored. Child rows that would collide with
+-- the survivor's (same member RSVP for the same date, same override date,
+-- occupied slot, host already on the survivor) stay on the loser and are
+-- removed with it; counts of moved and dropped rows are returned.
+-- ----------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.merge_events(
+  p_survivor_id uuid,
+  p_loser_id uuid,
+  p_fields jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_loser_slug text;
+  v_set text;
+  v_n integer;
+  v_result jsonb := '{}'::jsonb;
+BEGIN
+  IF p_survivor_id = p_loser_id THEN
+    RAISE EXCEPTION 'survivor and loser must be different events';
+  END IF;
+
+  PERFORM 1 FROM events WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'survivor event % not found', p_survivor_id;
+  END IF;
+
+  SELECT slug INTO v_loser_slug FROM events WHERE id = p_loser_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loser event % not found', p_loser_id;
+  END IF;
+
+  -- Winning fields
+  SELECT string_agg(format('%I = r.%I', key, key), ', ')
+    INTO v_set
+    FROM jsonb_object_keys(COALESCE(p_fields, '{}'::jsonb)) AS key
+   WHERE key NOT IN ('id', 'slug', 'created_at', 'updated_at', 'host_id');
+
+  IF v_set IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE events e SET %s, updated_at = now() FROM jsonb_populate_record(NULL::events, $1) r WHERE e.id = $2',
+      v_set
+    ) USING p_fields, p_survivor_id;
+  END IF;
+
+  -- RSVPs (one per member / active guest email per date)
+  UPDATE event_rsvps r
+     SET event_id = p_survivor_id
+   WHERE r.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_rsvps s
+        WHERE s.event_id = p_survivor_id
+          AND s.date_key = r.date_key
+          AND (
+            (r.user_id IS NOT NULL AND s.user_id = r.user_id)
+            OR (
+              r.guest_email IS NOT NULL
+              AND lower(s.guest_email) = lower(r.guest_email)
+              AND s.status <> 'cancelled'
+              AND r.status <> 'cancelled'
+            )
+          )
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('rsvps', v_n);
+
+  -- Performer slots: whole slots move when the survivor has no slot at
+  -- that index/date; otherwise claims move onto the survivor's slot if
+  -- it is open.
+  UPDATE timeslot_claims c
+     SET timeslot_id = s.id
+    FROM event_timeslots t
+    JOIN event_timeslots s
+      ON s.event_id = p_survivor_id
+     AND s.slot_index = t.slot_index
+     AND s.date_key = t.date_key
+   WHERE c.timeslot_id = t.id
+     AND t.event_id = p_loser_id
+     AND (
+       c.status IN ('cancelled', 'no_show', 'waitlist')
+       OR NOT EXISTS (
+         SELECT 1 FROM timeslot_claims x
+          WHERE x.timeslot_id = s.id
+            AND x.status NOT IN ('cancelled', 'no_show', 'waitlist')
+       )
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('slot_claims', v_n);
+
+  UPDATE event_timeslots t
+     SET event_id = p_survivor_id
+   WHERE t.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_timeslots s
+        WHERE s.event_id = p_survivor_id
+          AND s.slot_index = t.slot_index
+          AND s.date_key = t.date_key
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('slots', v_n);
+
+  SELECT count(*) INTO v_n
+    FROM timeslot_claims c
+    JOIN event_timeslots t ON t.id = c.timeslot_id
+   WHERE t.event_id = p_loser_id
+     AND c.status NOT IN ('cancelled', 'no_show');
+  v_result := v_result || jsonb_build_object('dropped_slot_claims', v_n);
+
+  -- Comments, images, gallery
+  UPDATE event_comments SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('comments', v_n);
+
+  UPDATE event_images SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('images', v_n);
+
+  UPDATE gallery_albums SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  UPDATE gallery_images SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+
+  -- Ownership claims (one pending claim per requester)
+  UPDATE event_claims c
+     SET event_id = p_survivor_id
+   WHERE c.event_id = p_loser_id
+     AND NOT (
+       c.status = 'pending'
+       AND EXISTS (
+         SELECT 1 FROM event_claims s
+          WHERE s.event_id = p_survivor_id
+            AND s.requester_id = c.requester_id
+            AND s.status = 'pending'
+       )
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('claims', v_n);
+
+  -- Hosts and co-hosts (one row per user). Moved hosts join the survivor
+  -- as co-hosts; the survivor's owner stays primary.
+  UPDATE event_hosts h
+     SET event_id = p_survivor_id,
+         role = 'cohost'
+   WHERE h.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_hosts s WHERE s.event_id = p_survivor_id AND s.user_id = h.user_id
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('hosts', v_n);
+
+  SELECT count(*) INTO v_n FROM event_hosts WHERE event_id = p_loser_id;
+  v_result := v_result || jsonb_build_object('dropped_hosts', v_n);
+
+  -- Co-host invite links (tokens are globally unique)
+  UPDATE event_invites SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('host_invites', v_n);
+
+  -- Attendee invites for private events (one per member / email)
+  UPDATE event_attendee_invites i
+     SET event_id = p_survivor_id
+   WHERE i.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_attendee_invites s
+        WHERE s.event_id = p_survivor_id
+          AND (s.user_id = i.user_id OR s.email = i.email)
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('attendee_invites', v_n);
+
+  SELECT count(*) INTO v_n FROM event_attendee_invites WHERE event_id = p_loser_id;
+  v_result := v_result || jsonb_build_object('dropped_attendee_invites', v_n);
+
+  -- Lottery entries and draws (one entry per member per date, one draw per
+  -- date; the survivor's draw for a date wins)
+  UPDATE timeslot_lottery_entries l
+     SET event_id = p_survivor_id
+   WHERE l.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM timeslot_lottery_entries s
+        WHERE s.event_id = p_survivor_id
+          AND s.date_key = l.date_key
+          AND s.member_id = l.member_id
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('lottery_entries', v_n);
+
+  SELECT count(*) INTO v_n
+    FROM timeslot_lottery_entries
+   WHERE event_id = p_loser_id
+     AND status NOT IN ('withdrawn', 'expired');
+  v_result := v_result || jsonb_build_object('dropped_lottery_entries', v_n);
+
+  UPDATE timeslot_lottery_draws d
+     SET event_id = p_survivor_id
+   WHERE d.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM timeslot_lottery_draws s WHERE s.event_id = p_survivor_id AND s.date_key = d.date_key
+     );
+
+  -- Run-of-show state per date (survivor keeps its own)
+  UPDATE event_lineup_state l
+     SET event_id = p_survivor_id
+   WHERE l.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_lineup_state s WHERE s.event_id = p_survivor_id AND s.date_key = l.date_key
+     );
+
+  -- Watchers and favorites (one per user)
+  UPDATE event_watchers w
+     SET event_id = p_survivor_id
+   WHERE w.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM event_watchers s WHERE s.event_id = p_survivor_id AND s.user_id = w.user_id
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('watchers', v_n);
+
+  UPDATE favorites f
+     SET event_id = p_survivor_id
+   WHERE f.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM favorites s WHERE s.event_id = p_survivor_id AND s.user_id = f.user_id
+     );
+
+  -- Occurrence overrides (survivor keeps its own for the same date)
+  UPDATE occurrence_overrides o
+     SET event_id = p_survivor_id
+   WHERE o.event_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM occurrence_overrides s WHERE s.event_id = p_survivor_id AND s.date_key = o.date_key
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('overrides', v_n);
+
+  -- Moderation history and series links
+  UPDATE change_reports SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  UPDATE event_update_suggestions SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  UPDATE monthly_highlights SET event_id = p_survivor_id WHERE event_id = p_loser_id;
+  UPDATE events SET parent_event_id = p_survivor_id WHERE parent_event_id = p_loser_id;
+
+  -- Slug redirects: the loser's history and its current slug now point at
+  -- the survivor.
+  UPDATE event_slug_redirects SET event_id = p_survivor_id, updated_at = now() WHERE event_id = p_loser_id;
+  IF v_loser_slug IS NOT NULL AND v_loser_slug <> '' THEN
+    INSERT INTO event_slug_redirects (old_slug, event_id, updated_at)
+    VALUES (v_loser_slug, p_survivor_id, now())
+    ON CONFLICT (old_slug) DO UPDATE
+      SET event_id = EXCLUDED.event_id,
+          updated_at = now();
+  END IF;
+
+  DELETE FROM events WHERE id = p_loser_id;
+
+  RETURN v_result || jsonb_build_object('redirect_slug', v_loser_slug);
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_events(uuid, uuid, jsonb) IS
+  'Merge a duplicate event into a survivor: winning fields, child rows, slug redirect, delete loser. Service role only.';
+
+REVOKE EXECUTE ON FUNCTION public.merge_events(uuid, uuid, jsonb) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.merge_events(uuid, uuid, jsonb) TO service_role;
+
+-- ----------------------------------------------------------------------
+-- 4. merge_venues(survivor, loser, fields)
+-- ----------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.merge_venues(
+  p_survivor_id uuid,
+  p_loser_id uuid,
+  p_fields jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_loser_slug text;
+  v_survivor_name text;
+  v_set text;
+  v_n integer;
+  v_result jsonb := '{}'::jsonb;
+BEGIN
+  IF p_survivor_id = p_loser_id THEN
+    RAISE EXCEPTION 'survivor and loser must be different venues';
+  END IF;
+
+  PERFORM 1 FROM venues WHERE id = p_survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'survivor venue % not found', p_survivor_id;
+  END IF;
+
+  SELECT slug INTO v_loser_slug FROM venues WHERE id = p_loser_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'loser venue % not found', p_loser_id;
+  END IF;
+
+  SELECT string_agg(format('%I = r.%I', key, key), ', ')
+    INTO v_set
+    FROM jsonb_object_keys(COALESCE(p_fields, '{}'::jsonb)) AS key
+   WHERE key NOT IN ('id', 'slug', 'created_at', 'updated_at');
+
+  IF v_set IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE venues v SET %s, updated_at = now() FROM jsonb_populate_record(NULL::venues, $1) r WHERE v.id = $2',
+      v_set
+    ) USING p_fields, p_survivor_id;
+  END IF;
+
+  SELECT name INTO v_survivor_name FROM venues WHERE id = p_survivor_id;
+
+  -- Happenings at the loser move to the survivor (denormalized name too)
+  UPDATE events
+     SET venue_id = p_survivor_id,
+         venue_name = v_survivor_name,
+         updated_at = now()
+   WHERE venue_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('events', v_n);
+
+  UPDATE venue_images SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('images', v_n);
+
+  UPDATE gallery_albums SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+  UPDATE gallery_images SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+  UPDATE monthly_highlights SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+
+  -- Managers (one row per user per venue), claims, invites
+  UPDATE venue_managers m
+     SET venue_id = p_survivor_id
+   WHERE m.venue_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM venue_managers s WHERE s.venue_id = p_survivor_id AND s.user_id = m.user_id
+     );
+
+  UPDATE venue_claims SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('claims', v_n);
+
+  UPDATE venue_invites SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+
+  -- Followers (one follow per member per target)
+  UPDATE follows f
+     SET target_id = p_survivor_id
+   WHERE f.target_type = 'venue'
+     AND f.target_id = p_loser_id
+     AND NOT EXISTS (
+       SELECT 1 FROM follows s
+        WHERE s.target_type = 'venue'
+          AND s.target_id = p_survivor_id
+          AND s.follower_id = f.follower_id
+     );
+  GET DIAGNOSTICS v_n = ROW_COUNT;
+  v_result := v_result || jsonb_build_object('followers', v_n);
+  DELETE FROM follows WHERE target_type = 'venue' AND target_id = p_loser_id;
+
+  UPDATE venue_slug_redirects SET venue_id = p_survivor_id WHERE venue_id = p_loser_id;
+  IF v_loser_slug IS NOT NULL AND v_loser_slug <> '' THEN
+    INSERT INTO venue_slug_redirects (old_slug, venue_id)
+    VALUES (v_loser_slug, p_survivor_id)
+    ON CONFLICT (old_slug) DO UPDATE SET venue_id = EXCLUDED.venue_id;
+  END IF;
+
+  DELETE FROM venues WHERE id = p_loser_id;
+
+  RETURN v_result || jsonb_build_object('redirect_slug', v_loser_slug);
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_venues(uuid, uuid, jsonb) IS
+  'Merge a duplicate venue into a survivor: winning fields, happenings, managers, images, followers, slug redirect, delete loser. Service role only.';
+
+REVOKE EXECUTE ON FUNCTION public.merge_venues(uuid, uuid, jsonb) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.merge_venues(uuid, uuid, jsonb) TO service_role;
@@ -0,0 +1,48 @@
+-- Data health runs (Ops Console)
+--
+-- Replaces the local-only scripts/data-health.ts CLI with a scheduled,
+-- persisted check run:
+--   data_health_runs   — one row per run with per-check counts (trend source)
+--   data_health_issues — the individual rows each check flagged, per run
+--
+-- Written by /api/cron/data-health and the admin "Run now" route with the
+-- service-role client; read by /dashboard/admin/ops/data-health after an
+-- admin check. Issue rows are only kept for recent runs — the counts on
+-- data_health_runs carry the long-term trend.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled on both tables with no policies — service role only.)
+
+CREATE TABLE IF NOT EXISTS public.data_health_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger text NOT NULL CHECK (trigger IN ('cron', 'manual')),
+  triggered_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_health_runs_started_at
+  ON public.data_health_runs(started_at DESC);
+
+COMMENT ON TABLE public.data_health_runs IS
+  'Scheduled/manual data health runs. counts maps check key -> flagged row count.';
+
+CREATE TABLE IF NOT EXISTS public.data_health_issues (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.data_health_runs(id) ON DELETE CASCADE,
+  check_key text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('event', 'venue', 'override')),
+  entity_id uuid NOT NULL,
+  -- Parent event for override issues (fix link target)
+  event_id uuid,
+  label text NOT NULL,
+  detail text
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_health_issues_run_check
+  ON public.data_health_issues(run_id, check_key);
+
+ALTER TABLE public.data_health_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.data_health_issues ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,49 @@
+-- Reverification requests (stale-listing campaigns)
+--
+-- A confirmed event stays confirmed only as long as someone keeps telling us
+-- it is still happening. /api/cron/reverification picks published events
+-- whose last_verified_at is older than the stale window, emails the host (or
+-- an active venue manager) one-click "still happening / changed / ended"
+-- links, and records the request here. Answers come back through
+-- /api/reverify with a signed token:
+--   still_happening → events.last_verified_at refreshed
+--   changed         → event_update_suggestions row for admin review
+--   ended           → series cancelled
+-- Requests nobody answers (or that had no one to send to) surface in the
+-- admin verification queue.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled with no policies — service role only.)
+
+CREATE TABLE IF NOT EXISTS public.reverification_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  recipient_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient_email text,
+  recipient_role text CHECK (recipient_role IN ('host', 'venue_manager')),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'responded', 'expired', 'unreachable')),
+  -- last_verified_at at send time; a newer verification supersedes the request
+  verified_at_send timestamptz,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  responded_at timestamptz,
+  response text CHECK (response IN ('still_happening', 'changed', 'ended')),
+  response_notes text
+);
+
+-- At most one open request per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reverification_requests_one_pending
+  ON public.reverification_requests(event_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_reverification_requests_event_sent
+  ON public.reverification_requests(event_id, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reverification_requests_status_expires
+  ON public.reverification_requests(status, expires_at);
+
+COMMENT ON TABLE public.reverification_requests IS
+  'Stale-listing reverification emails sent to hosts/venue managers and their answers.';
+
+ALTER TABLE public.reverification_requests ENABLE ROW LEVEL SECURITY;
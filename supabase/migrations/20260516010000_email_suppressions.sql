@@ -0,0 +1,51 @@
+-- Email suppression list and delivery events (bounces / complaints)
+--
+-- Bounce and complaint reports (RFC 3464 DSNs and RFC 5965 ARF reports) are
+-- posted raw to /api/email/bounces by the mailbox forwarder. Every parsed
+-- report is logged in email_delivery_events; hard bounces and complaints
+-- suppress the address immediately, repeated soft bounces suppress it once
+-- they pass the limit in lib/email/suppression.ts. sendEmail and
+-- sendEmailWithPreferences skip suppressed addresses. Admins review and
+-- clear suppressions from the Ops Console.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled with no policies — service role only.)
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL UNIQUE CHECK (email = lower(email)),
+  reason text NOT NULL CHECK (reason IN ('hard_bounce', 'soft_bounce', 'complaint', 'manual')),
+  -- Enhanced status code from the report (e.g. 5.1.1), when there was one
+  status_code text,
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_event_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_last_event
+  ON public.email_suppressions (last_event_at DESC);
+
+COMMENT ON TABLE public.email_suppressions IS
+  'Addresses the mailer will not send to (bounced, complained or manually suppressed).';
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.email_delivery_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL CHECK (email = lower(email)),
+  kind text NOT NULL CHECK (kind IN ('hard_bounce', 'soft_bounce', 'complaint')),
+  status_code text,
+  diagnostic text,
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_events_email_received
+  ON public.email_delivery_events (email, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_delivery_events_received
+  ON public.email_delivery_events (received_at DESC);
+
+COMMENT ON TABLE public.email_delivery_events IS
+  'Parsed bounce and complaint reports, one row per affected recipient.';
+
+ALTER TABLE public.email_delivery_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,85 @@
+-- Email outbox
+--
+-- Bulk senders (weekly digests) enqueue one row per message instead of
+-- sending inline inside a 60-second cron. /api/cron/email-outbox drains the
+-- queue every few minutes with a concurrency cap; failed sends retry with
+-- exponential backoff until the attempt limit in lib/email/outbox.ts, and
+-- whatever doesn't fit in one invocation's time budget is picked up on the
+-- next tick. Admins see per-message delivery status on the admin email page.
+--
+-- claim_email_outbox() hands out due rows with FOR UPDATE SKIP LOCKED so
+-- overlapping drains never send the same message twice. Rows stuck in
+-- 'sending' (the invocation died mid-send) are reclaimed after 10 minutes.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled with no policies — service role only.)
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  text text NOT NULL,
+  template_name text,
+  reply_to text,
+  list_unsubscribe_url text,
+  -- Groups one send run, e.g. weekly_happenings:2026-W20
+  batch_key text,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'suppressed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+  ON public.email_outbox (next_attempt_at)
+  WHERE status IN ('queued', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_batch
+  ON public.email_outbox (batch_key, status)
+  WHERE batch_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created
+  ON public.email_outbox (created_at DESC);
+
+COMMENT ON TABLE public.email_outbox IS
+  'Queued outbound email with per-message delivery status. Drained by /api/cron/email-outbox.';
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit integer, p_batch_key text DEFAULT NULL)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_outbox AS o
+  SET status = 'sending',
+      locked_at = now(),
+      attempts = o.attempts + 1,
+      updated_at = now()
+  WHERE o.id IN (
+    SELECT id
+    FROM email_outbox
+    WHERE (
+        (status = 'queued' AND next_attempt_at <= now())
+        OR (status = 'sending' AND locked_at < now() - INTERVAL '10 minutes')
+      )
+      AND (p_batch_key IS NULL OR batch_key = p_batch_key)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+COMMENT ON FUNCTION public.claim_email_outbox(integer, text) IS
+  'Claims up to p_limit due outbox rows (optionally one batch) for sending. Service role only.';
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(integer, text) TO service_role;
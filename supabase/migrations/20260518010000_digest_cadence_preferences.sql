@@ -0,0 +1,131 @@
+-- Per-member digest cadence, sections and distance
+-- email_digests stays the on/off switch. These columns shape what a member
+-- gets when it's on:
+--   digest_cadence            daily "tonight" email, twice weekly, or weekly
+--   digest_day                weekly send day (0 = Sunday … 6 = Saturday)
+--   digest_sections           which sections to include
+--   digest_max_distance_miles radius around the member's profile ZIP (NULL = any distance)
+--
+-- Defaults (weekly on Sunday, every section, any distance) match the digest
+-- everyone received before this migration.
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS digest_cadence text NOT NULL DEFAULT 'weekly',
+  ADD COLUMN IF NOT EXISTS digest_day smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS digest_sections text[] NOT NULL
+    DEFAULT ARRAY['open_mics', 'showcases', 'blog', 'gallery', 'new_members']::text[],
+  ADD COLUMN IF NOT EXISTS digest_max_distance_miles smallint;
+
+ALTER TABLE notification_preferences
+  DROP CONSTRAINT IF EXISTS notification_preferences_digest_cadence_check,
+  ADD CONSTRAINT notification_preferences_digest_cadence_check
+    CHECK (digest_cadence IN ('daily_tonight', 'twice_weekly', 'weekly')),
+  DROP CONSTRAINT IF EXISTS notification_preferences_digest_day_check,
+  ADD CONSTRAINT notification_preferences_digest_day_check
+    CHECK (digest_day BETWEEN 0 AND 6),
+  DROP CONSTRAINT IF EXISTS notification_preferences_digest_sections_check,
+  ADD CONSTRAINT notification_preferences_digest_sections_check
+    CHECK (digest_sections <@ ARRAY['open_mics', 'showcases', 'blog', 'gallery', 'new_members']::text[]),
+  DROP CONSTRAINT IF EXISTS notification_preferences_digest_max_distance_check,
+  ADD CONSTRAINT notification_preferences_digest_max_distance_check
+    CHECK (digest_max_distance_miles IS NULL OR digest_max_distance_miles IN (5, 10, 15, 25, 50));
+
+COMMENT ON COLUMN notification_preferences.email_digests
+  IS 'Happenings and open mic digest emails (shape in digest_* columns)';
+COMMENT ON COLUMN notification_preferences.digest_cadence
+  IS 'daily_tonight, twice_weekly (Sunday + Thursday) or weekly (on digest_day)';
+COMMENT ON COLUMN notification_preferences.digest_day
+  IS 'Weekly digest send day, 0 = Sunday through 6 = Saturday (America/Denver)';
+COMMENT ON COLUMN notification_preferences.digest_sections
+  IS 'Digest sections: open_mics, showcases, blog, gallery, new_members';
+COMMENT ON COLUMN notification_preferences.digest_max_distance_miles
+  IS 'Only include happenings within this many miles of the profile ZIP; NULL = any distance';
+
+-- Per-recipient digest locks reuse digest_send_log with week_key = '<date>:<user id>'
+COMMENT ON COLUMN public.digest_send_log.digest_type IS
+  'Digest identifier: weekly_open_mics, weekly_happenings, or happenings_edition / open_mics_edition (per recipient)';
+COMMENT ON COLUMN public.digest_send_log.week_key IS
+  'ISO week key in America/Denver timezone (e.g. 2026-W05), or <YYYY-MM-DD>:<user id> for the per-recipient editions';
+
+-- Rebuild the upsert RPC with the digest columns.
+-- p_digest_max_distance_miles = 0 clears the limit (NULL means "leave unchanged").
+DROP FUNCTION IF EXISTS upsert_notification_preferences(uuid, boolean, boolean, boolean, boolean, boolean, boolean, boolean, boolean);
+
+CREATE OR REPLACE FUNCTION upsert_notification_preferences(
+  p_user_id uuid,
+  p_email_claim_updates boolean DEFAULT NULL,
+  p_email_event_updates boolean DEFAULT NULL,
+  p_email_admin_notifications boolean DEFAULT NULL,
+  p_email_enabled boolean DEFAULT NULL,
+  p_email_host_activity boolean DEFAULT NULL,
+  p_email_attendee_activity boolean DEFAULT NULL,
+  p_email_digests boolean DEFAULT NULL,
+  p_email_invitations boolean DEFAULT NULL,
+  p_digest_cadence text DEFAULT NULL,
+  p_digest_day smallint DEFAULT NULL,
+  p_digest_sections text[] DEFAULT NULL,
+  p_digest_max_distance_miles smallint DEFAULT NULL
+)
+RETURNS notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result notification_preferences;
+BEGIN
+  INSERT INTO notification_preferences (
+    user_id,
+    email_claim_updates,
+    email_event_updates,
+    email_admin_notifications,
+    email_enabled,
+    email_host_activity,
+    email_attendee_activity,
+    email_digests,
+    email_invitations,
+    digest_cadence,
+    digest_day,
+    digest_sections,
+    digest_max_distance_miles,
+    updated_at
+  )
+  VALUES (
+    p_user_id,
+    COALESCE(p_email_claim_updates, true),
+    COALESCE(p_email_event_updates, true),
+    COALESCE(p_email_admin_notifications, true),
+    COALESCE(p_email_enabled, true),
+    COALESCE(p_email_host_activity, true),
+    COALESCE(p_email_attendee_activity, true),
+    COALESCE(p_email_digests, true),
+    COALESCE(p_email_invitations, true),
+    COALESCE(p_digest_cadence, 'weekly'),
+    COALESCE(p_digest_day, 0),
+    COALESCE(p_digest_sections, ARRAY['open_mics', 'showcases', 'blog', 'gallery', 'new_members']::text[]),
+    NULLIF(p_digest_max_distance_miles, 0),
+    now()
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    email_claim_updates = COALESCE(p_email_claim_updates, notification_preferences.email_claim_updates),
+    email_event_updates = COALESCE(p_email_event_updates, notification_preferences.email_event_updates),
+    email_admin_notifications = COALESCE(p_email_admin_notifications, notification_preferences.email_admin_notifications),
+    email_enabled = COALESCE(p_email_enabled, notification_preferences.email_enabled),
+    email_host_activity = COALESCE(p_email_host_activity, notification_preferences.email_host_activity),
+    email_attendee_activity = COALESCE(p_email_attendee_activity, notification_preferences.email_attendee_activity),
+    email_digests = COALESCE(p_email_digests, notification_preferences.email_digests),
+    email_invitations = COALESCE(p_email_invitations, notification_preferences.email_invitations),
+    digest_cadence = COALESCE(p_digest_cadence, notification_preferences.digest_cadence),
+    digest_day = COALESCE(p_digest_day, notification_preferences.digest_day),
+    digest_sections = COALESCE(p_digest_sections, notification_preferences.digest_sections),
+    digest_max_distance_miles = CASE
+      WHEN p_digest_max_distance_miles IS NULL THEN notification_preferences.digest_max_distance_miles
+      ELSE NULLIF(p_digest_max_distance_miles, 0)
+    END,
+    updated_at = now()
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_notification_preferences(uuid, boolean, boolean, boolean, boolean, boolean, boolean, boolean, boolean, text, smallint, text[], smallint) TO authenticated;
@@ -0,0 +1,215 @@
+-- Regions
+-- REVIEWED: policy change acknowledged
+--
+-- First-class regions (Front Range, Boulder, Colorado Springs, …). Each
+-- region has its own timezone, default map center, digest send hour and
+-- weekly editorial. Events are assigned a region from their venue; members
+-- pick a home region that decides which happenings their digest covers.
+--
+--   regions.cities         venue cities that belong to the region
+--   venues.region_id       derived from city on insert/update (admins can override)
+--   events.region_id       derived from the venue on insert/update of venue_id
+--   profiles.home_region_id  NULL = default region
+--
+-- Regional editorial is stored in digest_editorial under digest_type
+-- 'weekly_happenings:<region slug>' and falls back to 'weekly_happenings'.
+
+-- =====================================================
+-- STEP 1: Regions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.regions (
+  id integer GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL,
+  timezone text NOT NULL DEFAULT 'America/Denver',
+  map_center_lat double precision NOT NULL,
+  map_center_lng double precision NOT NULL,
+  map_zoom smallint NOT NULL DEFAULT 10 CHECK (map_zoom BETWEEN 3 AND 18),
+  digest_send_hour smallint NOT NULL DEFAULT 16 CHECK (digest_send_hour BETWEEN 0 AND 23),
+  cities text[] NOT NULL DEFAULT '{}',
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order smallint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Exactly one default region (members without a home region, unassigned events)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_regions_single_default
+  ON public.regions (is_default)
+  WHERE is_default;
+
+COMMENT ON TABLE public.regions IS 'Regions with their own timezone, map center, digest schedule and editorial';
+COMMENT ON COLUMN public.regions.timezone IS 'IANA timezone for date keys and the digest send window';
+COMMENT ON COLUMN public.regions.digest_send_hour IS 'Local hour the happenings digest goes out (at :20)';
+COMMENT ON COLUMN public.regions.cities IS 'Venue cities assigned to this region (case-insensitive)';
+COMMENT ON COLUMN public.regions.is_default IS 'Fallback region for members with no home region and events with no region';
+
+ALTER TABLE public.regions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active regions" ON public.regions;
+CREATE POLICY "Anyone can view active regions"
+  ON public.regions
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active);
+
+CREATE OR REPLACE FUNCTION public.update_regions_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS regions_updated_at ON public.regions;
+CREATE TRIGGER regions_updated_at
+  BEFORE UPDATE ON public.regions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_regions_updated_at();
+
+INSERT INTO public.regions
+  (slug, name, timezone, map_center_lat, map_center_lng, map_zoom, digest_send_hour, cities, is_default, sort_order)
+VALUES
+  ('front-range', 'Front Range', 'America/Denver', 39.7392, -104.9903, 9, 16,
+    ARRAY['Denver', 'Aurora', 'Lakewood', 'Englewood', 'Littleton', 'Arvada', 'Westminster',
+      'Thornton', 'Northglenn', 'Wheat Ridge', 'Golden', 'Centennial', 'Parker', 'Castle Rock',
+      'Broomfield', 'Commerce City', 'Highlands Ranch', 'Lone Tree', 'Evergreen', 'Morrison',
+      'Fort Collins', 'Loveland', 'Greeley', 'Windsor', 'Estes Park'],
+    true, 0),
+  ('boulder', 'Boulder', 'America/Denver', 40.01499, -105.27055, 11, 16,
+    ARRAY['Boulder', 'Longmont', 'Louisville', 'Lafayette', 'Superior', 'Erie', 'Niwot',
+      'Lyons', 'Nederland'],
+    false, 1),
+  ('colorado-springs', 'Colorado Springs', 'America/Denver', 38.8339, -104.8214, 11, 16,
+    ARRAY['Colorado Springs', 'Manitou Springs', 'Monument', 'Fountain', 'Woodland Park',
+      'Palmer Lake', 'Pueblo'],
+    false, 2)
+ON CONFLICT (slug) DO NOTHING;
+
+-- =====================================================
+-- STEP 2: Venue and event regions
+-- =====================================================
+
+ALTER TABLE public.venues
+  ADD COLUMN IF NOT EXISTS region_id integer REFERENCES public.regions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS region_id integer;
+
+-- Existing region_id values predate the regions table; don't validate them
+ALTER TABLE public.events
+  DROP CONSTRAINT IF EXISTS events_region_id_fkey,
+  ADD CONSTRAINT events_region_id_fkey
+    FOREIGN KEY (region_id) REFERENCES public.regions(id) ON DELETE SET NULL NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_venues_region_id ON public.venues (region_id);
+CREATE INDEX IF NOT EXISTS idx_events_region_id ON public.events (region_id);
+
+CREATE OR REPLACE FUNCTION public.region_id_for_city(p_city text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $$
+  SELECT r.id
+  FROM public.regions r
+  WHERE p_city IS NOT NULL
+    AND lower(btrim(p_city)) = ANY (SELECT lower(c) FROM unnest(r.cities) AS c)
+  ORDER BY r.sort_order, r.id
+  LIMIT 1;
+$$;
+
+-- Venues: derive the region from the city unless an admin set one explicitly
+CREATE OR REPLACE FUNCTION public.set_venue_region()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.region_id IS NULL THEN
+      NEW.region_id := public.region_id_for_city(NEW.city);
+    END IF;
+  ELSIF NEW.city IS DISTINCT FROM OLD.city AND NEW.region_id IS NOT DISTINCT FROM OLD.region_id THEN
+    NEW.region_id := COALESCE(public.region_id_for_city(NEW.city), OLD.region_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS venues_set_region ON public.venues;
+CREATE TRIGGER venues_set_region
+  BEFORE INSERT OR UPDATE OF city, region_id ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_venue_region();
+
+-- Events: region follows the venue (online-only events keep whatever they had)
+CREATE OR REPLACE FUNCTION public.set_event_region()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $$
+BEGIN
+  IF NEW.venue_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.venue_id IS DISTINCT FROM OLD.venue_id) THEN
+    NEW.region_id := (SELECT v.region_id FROM public.venues v WHERE v.id = NEW.venue_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_set_region ON public.events;
+CREATE TRIGGER events_set_region
+  BEFORE INSERT OR UPDATE OF venue_id ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_event_region();
+
+-- Keep events in step when a venue moves region
+CREATE OR REPLACE FUNCTION public.sync_venue_event_regions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $$
+BEGIN
+  UPDATE public.events
+  SET region_id = NEW.region_id
+  WHERE venue_id = NEW.id
+    AND region_id IS DISTINCT FROM NEW.region_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS venues_sync_event_regions ON public.venues;
+CREATE TRIGGER venues_sync_event_regions
+  AFTER UPDATE OF region_id ON public.venues
+  FOR EACH ROW
+  WHEN (NEW.region_id IS DISTINCT FROM OLD.region_id)
+  EXECUTE FUNCTION public.sync_venue_event_regions();
+
+-- Backfill
+UPDATE public.venues
+SET region_id = public.region_id_for_city(city)
+WHERE region_id IS NULL
+  AND public.region_id_for_city(city) IS NOT NULL;
+
+UPDATE public.events e
+SET region_id = v.region_id
+FROM public.venues v
+WHERE e.venue_id = v.id
+  AND e.region_id IS DISTINCT FROM v.region_id;
+
+-- =====================================================
+-- STEP 3: Member home region
+-- =====================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS home_region_id integer REFERENCES public.regions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.profiles.home_region_id IS 'Home region for happenings and the digest; NULL = default region';
+
+COMMENT ON COLUMN public.digest_editorial.digest_type IS
+  'weekly_happenings (all regions), weekly_happenings:<region slug> (one region), or weekly_open_mics';
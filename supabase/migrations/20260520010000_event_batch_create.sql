@@ -0,0 +1,138 @@
+-- Batch create from a pasted schedule (conversational create)
+--
+-- create_event_batch() writes everything a reviewed concierge batch needs in
+-- one transaction, so a monthly lineup page either lands whole or not at all:
+--   - new event rows (one-offs, or one custom-dates series) plus the
+--     creator's accepted event_hosts row
+--   - per-date occurrence overrides (time / notes)
+--   - performer timeslots and guest claims for per-date lineups
+--
+-- Service-role only: POST /api/my-events/batch authenticates the host,
+-- builds the event rows with host_id = the session user and checks
+-- canManageEvent() for existing series before calling.
+
+-- ----------------------------------------------------------------------
+-- create_event_batch(user, entries)
+--
+-- p_entries: array of
+--   { "event": {events columns} | "event_id": uuid,
+--     "overrides": [{ date_key, override_start_time, override_notes }],
+--     "timeslots": [{ date_key, slot_index, start_offset_minutes, duration_minutes }],
+--     "claims":    [{ date_key, slot_index, guest_name }] }
+--
+-- Timeslots that already exist for a date are kept. A claim on a missing or
+-- occupied slot raises, which rolls back the whole batch.
+-- ----------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.create_event_batch(
+  p_user_id uuid,
+  p_entries jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_entry jsonb;
+  v_claim jsonb;
+  v_event events;
+  v_columns text;
+  v_slot_id uuid;
+  v_n integer;
+  v_events jsonb := '[]'::jsonb;
+  v_overrides integer := 0;
+  v_timeslots integer := 0;
+  v_claims integer := 0;
+BEGIN
+  IF jsonb_typeof(p_entries) IS DISTINCT FROM 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'batch has no entries';
+  END IF;
+
+  FOR v_entry IN SELECT value FROM jsonb_array_elements(p_entries) LOOP
+    IF v_entry ? 'event' THEN
+      SELECT string_agg(format('%I', key), ', ')
+        INTO v_columns
+        FROM jsonb_object_keys(v_entry->'event') AS key
+       WHERE key NOT IN ('id', 'slug', 'created_at', 'updated_at');
+
+      EXECUTE format(
+        'INSERT INTO events (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::events, $1) RETURNING *',
+        v_columns
+      ) INTO v_event USING v_entry->'event';
+
+      INSERT INTO event_hosts (event_id, user_id, role, invitation_status, invited_by, responded_at)
+      VALUES (v_event.id, p_user_id, 'host', 'accepted', p_user_id, now());
+    ELSE
+      SELECT * INTO v_event FROM events WHERE id = (v_entry->>'event_id')::uuid FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'event % not found', v_entry->>'event_id';
+      END IF;
+    END IF;
+
+    -- Per-date overrides; an existing override for the date keeps any field
+    -- this batch leaves empty.
+    INSERT INTO occurrence_overrides (event_id, date_key, override_start_time, override_notes, created_by)
+    SELECT v_event.id,
+           o->>'date_key',
+           (o->>'override_start_time')::time,
+           o->>'override_notes',
+           p_user_id
+      FROM jsonb_array_elements(COALESCE(v_entry->'overrides', '[]'::jsonb)) AS o
+    ON CONFLICT (event_id, date_key) DO UPDATE
+      SET override_start_time = COALESCE(EXCLUDED.override_start_time, occurrence_overrides.override_start_time),
+          override_notes = COALESCE(EXCLUDED.override_notes, occurrence_overrides.override_notes),
+          updated_at = now();
+    GET DIAGNOSTICS v_n = ROW_COUNT;
+    v_overrides := v_overrides + v_n;
+
+    INSERT INTO event_timeslots (event_id, slot_index, start_offset_minutes, duration_minutes, date_key)
+    SELECT v_event.id,
+           (s->>'slot_index')::integer,
+           (s->>'start_offset_minutes')::integer,
+           (s->>'duration_minutes')::integer,
+           s->>'date_key'
+      FROM jsonb_array_elements(COALESCE(v_entry->'timeslots', '[]'::jsonb)) AS s
+    ON CONFLICT (event_id, slot_index, date_key) DO NOTHING;
+    GET DIAGNOSTICS v_n = ROW_COUNT;
+    v_timeslots := v_timeslots + v_n;
+
+    -- Lineup claims (idx_timeslot_claims_active_slot rejects occupied slots)
+    FOR v_claim IN SELECT value FROM jsonb_array_elements(COALESCE(v_entry->'claims', '[]'::jsonb)) LOOP
+      SELECT id INTO v_slot_id
+        FROM event_timeslots
+       WHERE event_id = v_event.id
+         AND date_key = v_claim->>'date_key'
+         AND slot_index = (v_claim->>'slot_index')::integer;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'no slot % on % for %',
+          v_claim->>'slot_index', v_claim->>'date_key', v_claim->>'guest_name';
+      END IF;
+
+      INSERT INTO timeslot_claims (timeslot_id, guest_name, status, updated_by)
+      VALUES (v_slot_id, v_claim->>'guest_name', 'confirmed', p_user_id);
+      v_claims := v_claims + 1;
+    END LOOP;
+
+    v_events := v_events || jsonb_build_array(jsonb_build_object(
+      'id', v_event.id,
+      'slug', v_event.slug,
+      'event_date', v_event.event_date,
+      'updated_at', v_event.updated_at,
+      'created', v_entry ? 'event'
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'events', v_events,
+    'overrides', v_overrides,
+    'timeslots', v_timeslots,
+    'claims', v_claims
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_event_batch(uuid, jsonb) IS
+  'Create a reviewed concierge batch (events, hosts, overrides, lineup slots and claims) in one transaction. Service role only.';
+
+REVOKE EXECUTE ON FUNCTION public.create_event_batch(uuid, jsonb) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.create_event_batch(uuid, jsonb) TO service_role;
@@ -0,0 +1,78 @@
+-- Source watches (keep externally listed events in sync with their pages)
+--
+-- Many listings point at a venue calendar or link-in-bio page that the host
+-- updates instead of us. A host (or admin) opts an event in; every run of
+-- /api/cron/source-watch fetches the due pages, parses them with the
+-- deterministic schedule parser, and diffs them against the event's
+-- occurrences and overrides:
+--   shadow fields (cost, age policy)   → event_update_suggestions rows
+--   enforced fields (times, dates,
+--   cancellations)                     → pending rows here, confirmed or
+--                                        dismissed by a host or admin
+-- Every detected change is kept here with its outcome, keyed by
+-- (event_id, change_key) so reruns never re-propose the same change.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled with no policies — service role only.)
+
+CREATE TABLE IF NOT EXISTS public.event_source_watches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL UNIQUE REFERENCES public.events(id) ON DELETE CASCADE,
+  source_url text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  check_interval_hours integer NOT NULL DEFAULT 24 CHECK (check_interval_hours BETWEEN 1 AND 168),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  last_checked_at timestamptz,
+  next_check_at timestamptz NOT NULL DEFAULT now(),
+  last_status text
+    CHECK (last_status IN ('ok', 'no_schedule', 'fetch_failed', 'event_inactive', 'paused')),
+  last_error text,
+  consecutive_failures integer NOT NULL DEFAULT 0,
+  -- sha256 of the parsed page text; unchanged pages skip the diff
+  last_content_hash text,
+  last_content_changed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_source_watches_due
+  ON public.event_source_watches(next_check_at)
+  WHERE enabled = true;
+
+COMMENT ON TABLE public.event_source_watches IS
+  'Opted-in events whose source page is fetched and diffed for schedule changes.';
+
+ALTER TABLE public.event_source_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.event_source_watch_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id uuid NOT NULL REFERENCES public.event_source_watches(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- null for series-level changes
+  date_key text CHECK (date_key ~ '^\d{4}-\d{2}-\d{2}$'),
+  field text NOT NULL,
+  old_value text,
+  new_value text NOT NULL,
+  risk_tier text NOT NULL CHECK (risk_tier IN ('low', 'medium', 'high')),
+  change_key text NOT NULL,
+  status text NOT NULL
+    CHECK (status IN ('suggested', 'pending', 'confirmed', 'dismissed', 'superseded')),
+  suggestion_id bigint REFERENCES public.event_update_suggestions(id) ON DELETE SET NULL,
+  source_url text NOT NULL,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (event_id, change_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_source_watch_changes_pending
+  ON public.event_source_watch_changes(detected_at DESC)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_event_source_watch_changes_event
+  ON public.event_source_watch_changes(event_id, detected_at DESC);
+
+COMMENT ON TABLE public.event_source_watch_changes IS
+  'Schedule changes detected on watched source pages and how each was resolved.';
+
+ALTER TABLE public.event_source_watch_changes ENABLE ROW LEVEL SECURITY;
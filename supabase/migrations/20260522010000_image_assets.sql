@@ -0,0 +1,67 @@
+-- Image assets (processed uploads and their responsive variants)
+--
+-- After an upload lands in storage, POST /api/images/variants strips the
+-- original's EXIF/XMP metadata (including GPS location) and applies its
+-- orientation in place, then writes AVIF/WebP variants at fixed widths
+-- plus one JPEG fallback under "<path>.variants/". One row per original,
+-- keyed by "<bucket>/<storage path>", records the variant list and a
+-- blurhash placeholder for renderers.
+--
+-- Rows are never listed directly: get_image_assets() answers only for the
+-- source keys a renderer already has (from a public image URL), so the
+-- table can't be used to enumerate images of private events or profiles.
+--
+-- REVIEWED: policy change acknowledged
+-- (RLS enabled with no policies — service role only; reads go through the
+-- SECURITY DEFINER lookup below.)
+
+CREATE TABLE IF NOT EXISTS public.image_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_key text NOT NULL UNIQUE,
+  bucket text NOT NULL,
+  storage_path text NOT NULL,
+  status text NOT NULL CHECK (status IN ('processed', 'failed')),
+  -- Oriented size of the original
+  width integer,
+  height integer,
+  blurhash text,
+  -- [{ format, width, height, url }]
+  variants jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- True when the original carried metadata (or a rotation) and was rewritten
+  metadata_stripped boolean NOT NULL DEFAULT false,
+  error text,
+  processed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  processed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_assets_failed
+  ON public.image_assets(processed_at DESC)
+  WHERE status = 'failed';
+
+COMMENT ON TABLE public.image_assets IS
+  'Processed image uploads: metadata stripped, responsive variants and blurhash.';
+
+ALTER TABLE public.image_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.get_image_assets(p_source_keys text[])
+RETURNS TABLE (
+  source_key text,
+  width integer,
+  height integer,
+  blurhash text,
+  variants jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+  SELECT a.source_key, a.width, a.height, a.blurhash, a.variants
+  FROM public.image_assets a
+  WHERE a.status = 'processed'
+    AND a.source_key = ANY (p_source_keys)
+    AND cardinality(p_source_keys) <= 200;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_image_assets(text[]) TO anon, authenticated;
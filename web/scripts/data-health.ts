@@ -3,6 +3,10 @@
  *
  * Ops Console v1: Read-only CLI health report for venues and events.
  *
+ * The scheduled checks (with history and fix links) now run from
+ * /api/cron/data-health and are shown at /dashboard/admin/ops/data-health.
+ * This script remains for a quick local snapshot.
+ *
  * Reports:
  * 1. Venue health checks (detailed)
  * 2. Event summary checks (counts only)
@@ -0,0 +1,145 @@
+/**
+ * Track 1 Eval Runner
+ *
+ * Runs every Track 1 concierge case end to end (prompt contract → model →
+ * interpreter postprocess → concierge validator), stores the scored run,
+ * and rewrites the regression dashboard. The provider comes from the same
+ * EVENT_INTERPRETER_LLM_* variables as the interpret route, so a run can
+ * hit the live model or replay cassettes offline.
+ *
+ * Layout under --dir (default: evals/track1):
+ *   cases/         extra cases (JSON), run after the built-in fixtures
+ *   runs/          one JSON file per run
+ *   dashboard.md   pass rates, case × run grid, latest diff
+ *
+ * Usage:
+ *   cd web && npx tsx scripts/run-track1-evals.ts [--dir <dir>] [--model <model>]
+ *   cd web && npx tsx scripts/run-track1-evals.ts dashboard [--dir <dir>]
+ *   cd web && npx tsx scripts/run-track1-evals.ts add-case <recording.json> --id <case-id> \
+ *     [--scope series|occurrence|ambiguous] [--follow-up true|false] [--notes "<why>"]
+ *
+ * Exit codes:
+ *   0 = Run stored, no regressions against the previous run
+ *   1 = Regressions found, or script error
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { TRACK1_EVAL_CASES, type Track1ExpectedScope } from "../src/lib/events/evals/track1EvalCases";
+import {
+  diffTrack1EvalRuns,
+  formatTrack1EvalDashboard,
+  formatTrack1EvalDiff,
+  runTrack1Evals,
+} from "../src/lib/events/evals/track1EvalRunner";
+import {
+  buildTrack1CaseFromRecording,
+  loadTrack1EvalCaseFiles,
+  loadTrack1EvalRuns,
+  saveTrack1EvalCase,
+  saveTrack1EvalRun,
+} from "../src/lib/events/evals/track1EvalStore";
+import type { CassetteRecording } from "../src/lib/events/llm/cassetteProvider";
+import { getInterpreterLlmProvider } from "../src/lib/events/llm/interpreterLlm";
+
+// Load .env.local
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+// Same default as /api/events/interpret
+const DEFAULT_INTERPRETER_MODEL = "gpt-5.4-nano";
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function writeDashboard(dir: string): Promise<void> {
+  const runs = await loadTrack1EvalRuns(path.join(dir, "runs"));
+  const dashboardPath = path.join(dir, "dashboard.md");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(dashboardPath, formatTrack1EvalDashboard(runs), "utf-8");
+  console.log(`Dashboard: ${dashboardPath}`);
+}
+
+async function runCommand(dir: string, args: string[]): Promise<number> {
+  const selection = getInterpreterLlmProvider();
+  if ("error" in selection) {
+    console.error(selection.error);
+    return 1;
+  }
+
+  const model =
+    getFlag(args, "--model") || process.env.OPENAI_EVENT_INTERPRETER_MODEL?.trim() || DEFAULT_INTERPRETER_MODEL;
+  const cases = [...TRACK1_EVAL_CASES, ...(await loadTrack1EvalCaseFiles(path.join(dir, "cases")))];
+  const history = await loadTrack1EvalRuns(path.join(dir, "runs"));
+
+  console.log(`Running ${cases.length} cases with ${selection.provider.name} / ${model}`);
+  const run = await runTrack1Evals({
+    cases,
+    provider: selection.provider,
+    model,
+    onCase: (result) => {
+      console.log(`${result.passed ? "✅" : "❌"} ${result.id} (${result.durationMs}ms)`);
+      for (const failure of result.failures) console.log(`  - ${failure}`);
+    },
+  });
+
+  const runPath = await saveTrack1EvalRun(path.join(dir, "runs"), run);
+  console.log(`\n${run.passed}/${run.total} passed — ${runPath}`);
+  await writeDashboard(dir);
+
+  const baseline = history[history.length - 1];
+  if (!baseline) return 0;
+
+  const diff = diffTrack1EvalRuns(baseline, run);
+  console.log(`\n${formatTrack1EvalDiff(diff)}`);
+  return diff.regressed.length > 0 ? 1 : 0;
+}
+
+async function addCaseCommand(dir: string, args: string[]): Promise<number> {
+  const recordingPath = args[1];
+  const id = getFlag(args, "--id");
+  if (!recordingPath || !id) {
+    console.error("Usage: add-case <recording.json> --id <case-id> [--scope …] [--follow-up true|false] [--notes …]");
+    return 1;
+  }
+
+  const scope = getFlag(args, "--scope") as Track1ExpectedScope | undefined;
+  const followUp = getFlag(args, "--follow-up");
+  const recording = JSON.parse(fs.readFileSync(recordingPath, "utf-8")) as CassetteRecording;
+  const testCase = buildTrack1CaseFromRecording(recording, {
+    id,
+    expected: {
+      ...(scope ? { scope } : {}),
+      ...(followUp ? { expectedFollowUpQuestion: followUp === "true" } : {}),
+    },
+    notes: getFlag(args, "--notes") ?? `Recorded turn ${recording.key.slice(0, 12)} (${recording.recordedAt}).`,
+  });
+
+  const casePath = await saveTrack1EvalCase(path.join(dir, "cases"), testCase);
+  console.log(`Case written: ${casePath}`);
+  console.log("Review the scrubbed prompt and context, and tighten `expected` before committing it.");
+  return 0;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dir = path.resolve(process.cwd(), getFlag(args, "--dir") ?? "evals/track1");
+
+  if (args[0] === "dashboard") {
+    await writeDashboard(dir);
+    return 0;
+  }
+  if (args[0] === "add-case") {
+    return addCaseCommand(dir, args);
+  }
+  return runCommand(dir, args);
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error("Fatal error:", err);
+    process.exit(1);
+  });
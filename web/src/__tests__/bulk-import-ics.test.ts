@@ -0,0 +1,376 @@
+/**
+ * Bulk Import — iCalendar (.ics) Tests
+ *
+ * Coverage:
+ * - Parser: VEVENT → ImportRow mapping, timezone conversion, unfolding
+ * - Recurrence: RRULE → recurrence_rule/day_of_week, COUNT, EXDATE,
+ *   custom_dates expansion for rules our model can't store
+ * - Skips: past, cancelled, modified instances
+ * - Pipeline: rows pass validateImportRows and build insert payloads
+ * - API contracts: routes accept { ics } and run venue resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseImportIcs } from "@/lib/ops/eventIcsImportParser";
+import { validateImportRows } from "@/lib/ops/eventImportValidation";
+import { buildInsertPayloads } from "@/lib/ops/eventImportBuilder";
+
+const TODAY = "2026-10-18";
+
+function calendar(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Google Inc//Google Calendar 70.9054//EN",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+function parse(ics: string) {
+  return parseImportIcs(ics, { todayKey: TODAY });
+}
+
+// =====================================================
+// PARSER
+// =====================================================
+
+describe("parseImportIcs", () => {
+  it("rejects non-calendar input", () => {
+    const result = parse("title,event_type\nfoo,open_mic");
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("BEGIN:VCALENDAR");
+  });
+
+  it("maps a one-time event with TZID times", () => {
+    const result = parse(
+      calendar([
+        "UID:abc@google.com",
+        "DTSTART;TZID=America/Denver:20261105T193000",
+        "DTEND;TZID=America/Denver:20261105T220000",
+        "SUMMARY:Songwriter Showcase",
+        "LOCATION:Lost Lake Lounge\\, 3602 E Colfax Ave\\, Denver\\, CO",
+        "DESCRIPTION:Three acts\\nDoors at 7",
+        "URL:https://example.com/showcase",
+      ])
+    );
+
+    expect(result.success).toBe(true);
+    const row = result.rows[0];
+    expect(row.title).toBe("Songwriter Showcase");
+    expect(row.event_type).toBe("showcase");
+    expect(row.event_date).toBe("2026-11-05");
+    expect(row.start_time).toBe("19:30");
+    expect(row.end_time).toBe("22:00");
+    expect(row.recurrence_rule).toBeNull();
+    expect(row.venue_name).toBe("Lost Lake Lounge, 3602 E Colfax Ave, Denver, CO");
+    expect(row.description).toBe("Three acts\nDoors at 7");
+    expect(row.external_url).toBe("https://example.com/showcase");
+  });
+
+  it("converts UTC and other-timezone times to Denver", () => {
+    const result = parse(
+      calendar(
+        ["DTSTART:20261106T020000Z", "DURATION:PT2H", "SUMMARY:Late Open Mic", "LOCATION:Somewhere"],
+        ["DTSTART;TZID=America/New_York:20261110T210000", "SUMMARY:East Coast Stream", "LOCATION:Somewhere"]
+      )
+    );
+
+    // 02:00Z on Nov 6 = 19:00 MST on Nov 5
+    expect(result.rows[0].event_date).toBe("2026-11-05");
+    expect(result.rows[0].start_time).toBe("19:00");
+    expect(result.rows[0].end_time).toBe("21:00");
+    expect(result.rows[1].start_time).toBe("19:00");
+  });
+
+  it("unfolds continuation lines", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;VALUE=DATE:20261120",
+        "SUMMARY:A very long song circle title that a calendar app fol",
+        " ded across lines",
+        "LOCATION:Somewhere",
+      ])
+    );
+    expect(result.rows[0].title).toBe(
+      "A very long song circle title that a calendar app folded across lines"
+    );
+    expect(result.rows[0].start_time).toBeNull();
+    expect(result.rows[0].event_type).toBe("song_circle");
+  });
+
+  it("falls back to the default event type", () => {
+    const result = parseImportIcs(
+      calendar(["DTSTART;VALUE=DATE:20261120", "SUMMARY:Friday Night", "LOCATION:Somewhere"]),
+      { todayKey: TODAY, defaultEventType: "gig" }
+    );
+    expect(result.rows[0].event_type).toBe("gig");
+  });
+});
+
+// =====================================================
+// RECURRENCE
+// =====================================================
+
+describe("parseImportIcs recurrence mapping", () => {
+  it("maps weekly RRULE to weekly + day_of_week, re-anchored to the next date", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20250107T190000",
+        "RRULE:FREQ=WEEKLY;BYDAY=TU",
+        "SUMMARY:Tuesday Open Mic",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    const row = result.rows[0];
+    expect(row.recurrence_rule).toBe("weekly");
+    expect(row.day_of_week).toBe("Tuesday");
+    expect(row.event_date).toBe("2026-10-20");
+    expect(row.custom_dates).toBeNull();
+  });
+
+  it("keeps biweekly parity when re-anchoring", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261013T190000",
+        "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU",
+        "SUMMARY:Every Other Tuesday",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    expect(result.rows[0].recurrence_rule).toBe("biweekly");
+    expect(result.rows[0].event_date).toBe("2026-10-27");
+  });
+
+  it("maps monthly nth-weekday rules to ordinal recurrence", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261001T180000",
+        "RRULE:FREQ=MONTHLY;BYDAY=1TH,3TH",
+        "SUMMARY:Song Circle",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    expect(result.rows[0].recurrence_rule).toBe("1st/3rd");
+    expect(result.rows[0].day_of_week).toBe("Thursday");
+  });
+
+  it("maps COUNT to max_occurrences and keeps the original anchor", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261006T190000",
+        "RRULE:FREQ=WEEKLY;COUNT=8",
+        "SUMMARY:Eight Week Workshop",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    expect(result.rows[0].recurrence_rule).toBe("weekly");
+    expect(result.rows[0].max_occurrences).toBe(8);
+    expect(result.rows[0].event_date).toBe("2026-10-06");
+  });
+
+  it("turns upcoming EXDATEs on a series into cancelled_dates", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261006T190000",
+        "RRULE:FREQ=WEEKLY;BYDAY=TU",
+        "EXDATE;TZID=America/Denver:20261013T190000,20261103T190000",
+        "SUMMARY:Tuesday Open Mic",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    // 10-13 is already past; only 11-03 needs an override
+    expect(result.rows[0].cancelled_dates).toEqual(["2026-11-03"]);
+  });
+
+  it("treats cancelled RECURRENCE-ID instances as exclusions", () => {
+    const result = parse(
+      calendar(
+        [
+          "UID:series-1",
+          "DTSTART;TZID=America/Denver:20261006T190000",
+          "RRULE:FREQ=WEEKLY;BYDAY=TU",
+          "SUMMARY:Tuesday Open Mic",
+          "LOCATION:Lost Lake",
+        ],
+        [
+          "UID:series-1",
+          "RECURRENCE-ID;TZID=America/Denver:20261027T190000",
+          "DTSTART;TZID=America/Denver:20261027T190000",
+          "STATUS:CANCELLED",
+          "SUMMARY:Tuesday Open Mic",
+        ]
+      )
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].cancelled_dates).toEqual(["2026-10-27"]);
+  });
+
+  it("expands UNTIL-bounded rules into custom_dates minus EXDATEs", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261020T190000",
+        "RRULE:FREQ=WEEKLY;UNTIL=20261110T235959Z",
+        "EXDATE;TZID=America/Denver:20261103T190000",
+        "SUMMARY:Fall Session",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    const row = result.rows[0];
+    expect(row.recurrence_rule).toBe("custom");
+    expect(row.custom_dates).toEqual(["2026-10-20", "2026-10-27", "2026-11-10"]);
+    expect(row.event_date).toBe("2026-10-20");
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("expands multi-day weekly rules and warns about the horizon", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261019T190000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,WE",
+        "SUMMARY:Twice Weekly Jam",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    const row = result.rows[0];
+    expect(row.recurrence_rule).toBe("custom");
+    expect(row.custom_dates!.slice(0, 3)).toEqual(["2026-10-19", "2026-10-21", "2026-10-26"]);
+    expect(result.warnings[0]).toContain("custom dates");
+  });
+
+  it("shifts dates when a UTC series lands on a different Denver day", () => {
+    const result = parse(
+      calendar([
+        // 01:00Z Wednesday = 19:00 MDT/18:00 MST Tuesday in Denver
+        "DTSTART:20261021T010000Z",
+        "RRULE:FREQ=WEEKLY;BYDAY=WE;COUNT=3",
+        "SUMMARY:UTC Series",
+        "LOCATION:Lost Lake",
+      ])
+    );
+    expect(result.rows[0].recurrence_rule).toBe("custom");
+    expect(result.rows[0].custom_dates).toEqual(["2026-10-20", "2026-10-27", "2026-11-03"]);
+  });
+});
+
+// =====================================================
+// SKIPS
+// =====================================================
+
+describe("parseImportIcs skips", () => {
+  it("skips past and cancelled events with warnings", () => {
+    const result = parse(
+      calendar(
+        ["DTSTART;TZID=America/Denver:20260101T190000", "SUMMARY:Old Show", "LOCATION:X"],
+        ["DTSTART;TZID=America/Denver:20261201T190000", "STATUS:CANCELLED", "SUMMARY:Called Off", "LOCATION:X"],
+        ["DTSTART;TZID=America/Denver:20261201T190000", "SUMMARY:Still On", "LOCATION:X"]
+      )
+    );
+    expect(result.rows.map((r) => r.title)).toEqual(["Still On"]);
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it("fails when nothing upcoming remains", () => {
+    const result = parse(
+      calendar(["DTSTART;TZID=America/Denver:20260101T190000", "SUMMARY:Old Show", "LOCATION:X"])
+    );
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain("no upcoming events");
+  });
+
+  it("ignores VALARM properties nested in a VEVENT", () => {
+    const result = parse(
+      calendar([
+        "DTSTART;TZID=America/Denver:20261201T190000",
+        "SUMMARY:Show",
+        "LOCATION:X",
+        "BEGIN:VALARM",
+        "DESCRIPTION:Reminder",
+        "TRIGGER:-PT30M",
+        "END:VALARM",
+      ])
+    );
+    expect(result.rows[0].description).toBeNull();
+  });
+});
+
+// =====================================================
+// PIPELINE
+// =====================================================
+
+describe("iCalendar rows through the shared import pipeline", () => {
+  it("validates and builds payloads with custom_dates and max_occurrences", () => {
+    const result = parse(
+      calendar(
+        [
+          "DTSTART;TZID=America/Denver:20261020T190000",
+          "RRULE:FREQ=WEEKLY;UNTIL=20261103",
+          "SUMMARY:Fall Open Mic",
+          "LOCATION:Lost Lake",
+        ],
+        [
+          "DTSTART;TZID=America/Denver:20261006T190000",
+          "RRULE:FREQ=WEEKLY;COUNT=8",
+          "SUMMARY:Eight Week Workshop",
+          "LOCATION:Lost Lake",
+        ]
+      )
+    );
+
+    const { validRows, invalidRows } = validateImportRows(result.rows);
+    expect(invalidRows).toEqual([]);
+
+    const payloads = buildInsertPayloads(validRows, new Map(), "admin-1");
+    expect(payloads[0].payload.recurrence_rule).toBe("custom");
+    expect(payloads[0].payload.custom_dates).toEqual(["2026-10-20", "2026-10-27", "2026-11-03"]);
+    expect(payloads[0].payload.day_of_week).toBe("Tuesday");
+    expect(payloads[1].payload.recurrence_rule).toBe("weekly");
+    expect(payloads[1].payload.max_occurrences).toBe(8);
+    expect(payloads[1].payload.source).toBe("import");
+  });
+
+  it("flags events without a LOCATION as missing a venue", () => {
+    const result = parse(
+      calendar(["DTSTART;TZID=America/Denver:20261201T190000", "SUMMARY:Mystery Show"])
+    );
+    const { invalidRows } = validateImportRows(result.rows);
+    expect(invalidRows[0].errors[0]).toContain("venue_id or venue_name");
+  });
+});
+
+// =====================================================
+// API CONTRACTS
+// =====================================================
+
+describe("import routes accept iCalendar", () => {
+  const preview = readFileSync(
+    join(__dirname, "../app/api/admin/ops/events/import-preview/route.ts"),
+    "utf-8"
+  );
+  const apply = readFileSync(
+    join(__dirname, "../app/api/admin/ops/events/import-apply/route.ts"),
+    "utf-8"
+  );
+
+  it("parses { ics } bodies with parseImportIcs", () => {
+    for (const source of [preview, apply]) {
+      expect(source).toContain("parseImportIcs(ics");
+      expect(source).toContain("body.ics");
+    }
+  });
+
+  it("resolves iCalendar locations before dedupe", () => {
+    for (const source of [preview, apply]) {
+      const resolveIndex = source.indexOf("resolveImportVenueNames(");
+      expect(resolveIndex).toBeGreaterThan(-1);
+      expect(resolveIndex).toBeLessThan(source.indexOf("checkDuplicates("));
+    }
+  });
+
+  it("writes EXDATEs as cancelled occurrence overrides after insert", () => {
+    expect(apply).toContain('.from("occurrence_overrides")');
+    expect(apply).toContain('status: "cancelled"');
+  });
+});
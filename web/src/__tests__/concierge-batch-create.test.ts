@@ -0,0 +1,280 @@
+/**
+ * Concierge Batch Create Tests
+ *
+ * Tests for conciergeBatch.ts row review, request parsing and write
+ * planning, plus source contracts for the batch route, the
+ * create_event_batch() migration and the ConversationalCreateUI wiring.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parse } from "@/lib/events/conciergeScheduleParser";
+import {
+  buildConciergeBatchRequest,
+  buildConciergeBatchReview,
+  buildConciergeOverrides,
+  fillConciergeIrFromDraft,
+  parseConciergeBatchRequest,
+  pickConciergeSeriesTiming,
+  planConciergeLineupSlots,
+  suggestConciergeBatchShape,
+  type ConciergeBatchRow,
+} from "@/lib/events/conciergeBatch";
+
+const BATCH_ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/batch/route.ts");
+const UI_PATH = path.resolve(
+  __dirname,
+  "../app/(protected)/dashboard/my-events/_components/ConversationalCreateUI.tsx"
+);
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260520010000_event_batch_create.sql"
+);
+
+const TODAY = "2026-05-04";
+
+const MONTHLY_LINEUP = `Songwriter Night
+Buffalo Lodge
+2 El Paso Blvd., Colorado Springs, CO
+
+Wednesday, May 6: 7:00 - 10:00 pm
+7:00 - 7:30 pm — Juniper Smith
+7:30 - 8:00 pm — The Mountain Larks
+Wednesday, May 13: 7:00 - 10:00 pm
+7:00 - 7:30 pm — Ada Flores
+Wednesday, May 20: 6:30 - 9:30 pm
+Early start for the holiday`;
+
+const row = (overrides: Partial<ConciergeBatchRow> = {}): ConciergeBatchRow => ({
+  date_key: "2026-05-06",
+  start_time: "19:00",
+  end_time: "22:00",
+  lineup: [],
+  notes: null,
+  ...overrides,
+});
+
+describe("buildConciergeBatchReview", () => {
+  it("turns each parsed date into a row with its lineup, time and notes", () => {
+    const ir = parse({ source_kind: "pasted_page_text", raw_text: MONTHLY_LINEUP, today_iso: TODAY });
+    const rows = buildConciergeBatchReview({ ir, rawSource: MONTHLY_LINEUP, todayIso: TODAY });
+
+    expect(rows.map((entry) => entry.date_key)).toEqual(["2026-05-06", "2026-05-13", "2026-05-20"]);
+    expect(rows[0]).toMatchObject({
+      start_time: "19:00",
+      end_time: "22:00",
+      lineup: ["Juniper Smith", "The Mountain Larks"],
+      issues: [],
+    });
+    expect(rows[1].lineup).toEqual(["Ada Flores"]);
+    expect(rows[2]).toMatchObject({ start_time: "18:30", end_time: "21:30", notes: "Early start for the holiday" });
+  });
+
+  it("flags past dates, missing times and validator halts per row", () => {
+    const ir = parse({ source_kind: "pasted_page_text", raw_text: MONTHLY_LINEUP, today_iso: TODAY });
+    ir.shared_facts.time = null;
+    ir.occurrences[0] = { ...ir.occurrences[0], date: "2026-05-01", start_time: null, end_time: null };
+    ir.occurrences[1] = { ...ir.occurrences[1], start_time: "7pm" };
+
+    const rows = buildConciergeBatchReview({ ir, rawSource: MONTHLY_LINEUP, todayIso: TODAY });
+
+    expect(rows[0].issues).toEqual([
+      "source contains a clock time but IR has none",
+      "no start time",
+      "date is in the past",
+    ]);
+    expect(rows[1].issues).toContain("bad start_time: 7pm");
+    expect(rows[2].issues).toEqual([]);
+  });
+
+  it("fills venue and time gaps from the interpreted draft", () => {
+    const ir = parse({ source_kind: "pasted_page_text", raw_text: "May 6\nMay 13", today_iso: TODAY });
+    const filled = fillConciergeIrFromDraft(ir, {
+      title: "Songwriter Night",
+      venue_name: "Buffalo Lodge",
+      start_time: "19:00:00",
+    });
+
+    expect(filled.title).toBe("Songwriter Night");
+    expect(filled.shared_facts.venue).toBe("Buffalo Lodge");
+    expect(filled.shared_facts.time).toEqual({ start: "19:00", end: null });
+    expect(ir.shared_facts.venue).toBeNull();
+  });
+});
+
+describe("suggestConciergeBatchShape", () => {
+  it("prefers overrides on an existing series, then a custom series while it fits", () => {
+    expect(suggestConciergeBatchShape(3, "event-1")).toBe("overrides");
+    expect(suggestConciergeBatchShape(12, null)).toBe("custom_series");
+    expect(suggestConciergeBatchShape(13, null)).toBe("one_offs");
+  });
+});
+
+describe("parseConciergeBatchRequest", () => {
+  const event = { title: "Songwriter Night", event_type: ["open_mic"], venue_id: "venue-1" };
+
+  it("normalizes times, trims lineups and sorts rows by date", () => {
+    const parsed = parseConciergeBatchRequest(
+      {
+        shape: "one_offs",
+        event,
+        publish: true,
+        rows: [
+          row({ date_key: "2026-05-13", start_time: "19:00:00", lineup: [" Ada Flores ", ""] }),
+          row({ date_key: "2026-05-06" }),
+        ],
+      },
+      { todayKey: TODAY }
+    );
+
+    expect(parsed).toEqual({
+      ok: true,
+      value: {
+        shape: "one_offs",
+        event_id: null,
+        event,
+        publish: true,
+        rows: [row({ date_key: "2026-05-06" }), row({ date_key: "2026-05-13", lineup: ["Ada Flores"] })],
+      },
+    });
+  });
+
+  it("rejects past, duplicate and untimed dates and oversized custom series", () => {
+    const parseRows = (rows: unknown[], shape = "one_offs") =>
+      parseConciergeBatchRequest({ shape, event, rows }, { todayKey: TODAY });
+
+    expect(parseRows([row({ date_key: "2026-05-01" })])).toEqual({ ok: false, error: "2026-05-01 is in the past" });
+    expect(parseRows([row(), row()])).toEqual({ ok: false, error: "2026-05-06 is listed twice" });
+    expect(parseRows([row({ start_time: null })])).toEqual({ ok: false, error: "2026-05-06 has no start time" });
+    expect(parseRows([row({ start_time: "7pm" })])).toEqual({ ok: false, error: "2026-05-06: times must be HH:MM" });
+
+    const thirteen = Array.from({ length: 13 }, (_, index) => row({ date_key: `2026-06-${String(index + 1).padStart(2, "0")}` }));
+    expect(parseRows(thirteen, "custom_series")).toMatchObject({ ok: false, error: expect.stringContaining("up to 12 dates") });
+    expect(parseRows(thirteen, "one_offs").ok).toBe(true);
+  });
+
+  it("requires an event id for overrides and never publishes them", () => {
+    expect(parseConciergeBatchRequest({ shape: "overrides", rows: [row()] }, { todayKey: TODAY })).toEqual({
+      ok: false,
+      error: "event_id is required for overrides",
+    });
+    expect(
+      parseConciergeBatchRequest({ shape: "overrides", event_id: "event-1", publish: true, rows: [row()] }, { todayKey: TODAY })
+    ).toMatchObject({ ok: true, value: { event_id: "event-1", event: null, publish: false } });
+  });
+});
+
+describe("batch write planning", () => {
+  it("uses the most common time as the series template and overrides the rest", () => {
+    const rows = [
+      row({ date_key: "2026-05-06" }),
+      row({ date_key: "2026-05-13", notes: "Feature: Ada Flores" }),
+      row({ date_key: "2026-05-20", start_time: "18:30", end_time: "21:30" }),
+    ];
+    const timing = pickConciergeSeriesTiming(rows, { start_time: null, end_time: null });
+
+    expect(timing).toEqual({ start_time: "19:00", end_time: "22:00" });
+    expect(buildConciergeOverrides(rows, "19:00:00")).toEqual([
+      { date_key: "2026-05-13", override_start_time: null, override_notes: "Feature: Ada Flores" },
+      { date_key: "2026-05-20", override_start_time: "18:30", override_notes: null },
+    ]);
+  });
+
+  it("creates slots for new dates and claims them in lineup order", () => {
+    const plan = planConciergeLineupSlots({
+      dateKeys: ["2026-05-06", "2026-05-13"],
+      lineups: { "2026-05-06": ["Juniper Smith", "The Mountain Larks"] },
+      totalSlots: 2,
+      slotDurationMinutes: 30,
+      hasStartTime: true,
+    });
+
+    expect(plan).toEqual({
+      ok: true,
+      timeslots: [
+        { date_key: "2026-05-06", slot_index: 0, start_offset_minutes: 0, duration_minutes: 30 },
+        { date_key: "2026-05-06", slot_index: 1, start_offset_minutes: 30, duration_minutes: 30 },
+        { date_key: "2026-05-13", slot_index: 0, start_offset_minutes: 0, duration_minutes: 30 },
+        { date_key: "2026-05-13", slot_index: 1, start_offset_minutes: 30, duration_minutes: 30 },
+      ],
+      claims: [
+        { date_key: "2026-05-06", slot_index: 0, guest_name: "Juniper Smith" },
+        { date_key: "2026-05-06", slot_index: 1, guest_name: "The Mountain Larks" },
+      ],
+    });
+  });
+
+  it("fills only open slots on an existing series and refuses an overfull lineup", () => {
+    const existingSlots = [
+      { date_key: "2026-05-06", slot_index: 0, claimed: true },
+      { date_key: "2026-05-06", slot_index: 1, claimed: false },
+      { date_key: "2026-05-06", slot_index: 2, claimed: false },
+    ];
+    const plan = (lineup: string[]) =>
+      planConciergeLineupSlots({
+        dateKeys: ["2026-05-06"],
+        lineups: { "2026-05-06": lineup },
+        totalSlots: 3,
+        slotDurationMinutes: 15,
+        hasStartTime: true,
+        existingSlots,
+      });
+
+    expect(plan(["Ada Flores"])).toEqual({
+      ok: true,
+      timeslots: [],
+      claims: [{ date_key: "2026-05-06", slot_index: 1, guest_name: "Ada Flores" }],
+    });
+    expect(plan(["A", "B", "C"])).toEqual({ ok: false, error: "2026-05-06: 3 performers but only 2 open slots" });
+  });
+
+  it("builds the request from the rows the host kept", () => {
+    const ir = parse({ source_kind: "pasted_page_text", raw_text: MONTHLY_LINEUP, today_iso: TODAY });
+    const [first, second] = buildConciergeBatchReview({ ir, rawSource: MONTHLY_LINEUP, todayIso: TODAY });
+
+    const request = buildConciergeBatchRequest({
+      shape: "custom_series",
+      rows: [first, second],
+      event: { title: "Songwriter Night" },
+      eventId: "ignored-for-creates",
+      publish: true,
+    });
+
+    expect(request).toMatchObject({ shape: "custom_series", event_id: null, publish: true });
+    expect(request.rows[0]).toEqual({
+      date_key: "2026-05-06",
+      start_time: "19:00",
+      end_time: "22:00",
+      lineup: ["Juniper Smith", "The Mountain Larks"],
+      notes: null,
+    });
+    expect(parseConciergeBatchRequest(request, { todayKey: TODAY }).ok).toBe(true);
+  });
+});
+
+describe("batch create contracts", () => {
+  it("authorizes before writing and commits through the batch RPC", () => {
+    const source = fs.readFileSync(BATCH_ROUTE_PATH, "utf-8");
+    expect(source).toContain("canManageEvent(supabase, userId, eventId)");
+    expect(source).toContain("buildEventInsert({");
+    expect(source).toContain('serviceClient.rpc("create_event_batch"');
+    expect(source.indexOf("parseConciergeBatchRequest(")).toBeLessThan(source.indexOf('rpc("create_event_batch"'));
+  });
+
+  it("keeps create_event_batch service-role only and all-or-nothing", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("REVOKE EXECUTE ON FUNCTION public.create_event_batch(uuid, jsonb) FROM anon, authenticated, public;");
+    expect(sql).toContain("GRANT EXECUTE ON FUNCTION public.create_event_batch(uuid, jsonb) TO service_role;");
+    expect(sql).toContain("INSERT INTO event_hosts");
+    expect(sql).toContain("ON CONFLICT (event_id, date_key) DO UPDATE");
+    expect(sql).toContain("RAISE EXCEPTION 'no slot % on % for %'");
+  });
+
+  it("sends pasted schedules to batch review instead of auto-creating one draft", () => {
+    const source = fs.readFileSync(UI_PATH, "utf-8");
+    expect(source).toContain("const scheduleIr = detectPastedSchedule(message, getTodayDenver());");
+    expect(source).toContain('effectiveMode === "create" && !createdEventId && !scheduleIr && !pastedSchedule');
+    expect(source).toContain("<ConciergeBatchReview");
+  });
+});
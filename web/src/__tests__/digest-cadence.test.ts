@@ -0,0 +1,449 @@
+/**
+ * Digest Cadence Tests
+ *
+ * Per-member digest settings: which edition goes out on a given day, how
+ * sections and distance narrow the happenings list, per-recipient send
+ * locks, the open mics roundup's day and distance rules, and the
+ * migration/schedule contracts that depend on them.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const { mockGetLocationFilteredVenues } = vi.hoisted(() => ({
+  mockGetLocationFilteredVenues: vi.fn(),
+}));
+
+vi.mock("@/lib/happenings/locationFilter", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/happenings/locationFilter")>()),
+  getLocationFilteredVenues: mockGetLocationFilteredVenues,
+}));
+
+import {
+  DEFAULT_DIGEST_PREFERENCES,
+  getDigestEdition,
+  matchesDigestSections,
+  toDigestPreferences,
+  type DigestPreferences,
+} from "@/lib/digest/digestCadence";
+import {
+  applyDigestPreferences,
+  getRecipientEditorial,
+  personalizeDigestRecipients,
+  sliceDigestData,
+  type DigestRecipient,
+  type HappeningOccurrence,
+  type HappeningsDigestData,
+} from "@/lib/digest/weeklyHappenings";
+import { claimRecipientDigestLocks } from "@/lib/digest/digestSendLog";
+import {
+  getDigestRecipients as getOpenMicRecipients,
+  personalizeOpenMicsRecipients,
+  type DigestData as OpenMicsDigestData,
+  type OpenMicOccurrence,
+} from "@/lib/digest/weeklyOpenMics";
+
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260518010000_digest_cadence_preferences.sql"
+);
+const VERCEL_JSON_PATH = path.resolve(__dirname, "../../vercel.json");
+
+// 2026-03-01 is a Sunday
+const SUNDAY = "2026-03-01";
+const MONDAY = "2026-03-02";
+const THURSDAY = "2026-03-05";
+
+function prefs(overrides: Partial<DigestPreferences> = {}): DigestPreferences {
+  return { ...DEFAULT_DIGEST_PREFERENCES, sections: [...DEFAULT_DIGEST_PREFERENCES.sections], ...overrides };
+}
+
+function occurrence(
+  id: string,
+  dateKey: string,
+  eventType: string[],
+  venueId: string
+): HappeningOccurrence {
+  return {
+    dateKey,
+    displayDate: dateKey,
+    event: {
+      id,
+      title: `Event ${id}`,
+      slug: id,
+      event_type: eventType,
+      start_time: "19:00:00",
+      event_date: dateKey,
+      day_of_week: null,
+      recurrence_rule: null,
+      custom_dates: null,
+      max_occurrences: null,
+      is_free: true,
+      cost_label: null,
+      venue: { id: venueId, name: `Venue ${venueId}`, city: "Denver", state: "CO", zip: "80202", latitude: null, longitude: null },
+    },
+  } as HappeningOccurrence;
+}
+
+function buildWeek(): HappeningsDigestData {
+  return {
+    byDate: new Map([
+      [SUNDAY, [occurrence("open-sun", SUNDAY, ["open_mic"], "near"), occurrence("show-sun", SUNDAY, ["showcase"], "far")]],
+      [MONDAY, [occurrence("open-mon", MONDAY, ["open_mic"], "far")]],
+      [THURSDAY, [occurrence("gig-thu", THURSDAY, ["gig"], "near")]],
+    ]),
+    totalCount: 4,
+    venueCount: 2,
+    dateRange: { start: SUNDAY, end: "2026-03-07" },
+  };
+}
+
+describe("getDigestEdition", () => {
+  it("sends weekly members only on their chosen day, covering 7 days with editorial", () => {
+    expect(getDigestEdition(prefs({ day: 1 }), SUNDAY)).toBeNull();
+    expect(getDigestEdition(prefs({ day: 1 }), MONDAY)).toEqual({
+      cadence: "weekly",
+      dateRange: { start: MONDAY, end: "2026-03-08" },
+      includesEditorial: true,
+      sinceKey: "2026-02-23",
+    });
+  });
+
+  it("sends twice-weekly members Sunday (Sun–Wed) and Thursday (Thu–Sat)", () => {
+    const twice = prefs({ cadence: "twice_weekly" });
+    expect(getDigestEdition(twice, SUNDAY)).toMatchObject({
+      dateRange: { start: SUNDAY, end: "2026-03-04" },
+      includesEditorial: true,
+      sinceKey: "2026-02-26",
+    });
+    expect(getDigestEdition(twice, THURSDAY)).toMatchObject({
+      dateRange: { start: THURSDAY, end: "2026-03-07" },
+      includesEditorial: false,
+      sinceKey: SUNDAY,
+    });
+    expect(getDigestEdition(twice, MONDAY)).toBeNull();
+  });
+
+  it("sends daily members tonight only, with editorial on Sundays", () => {
+    const daily = prefs({ cadence: "daily_tonight" });
+    expect(getDigestEdition(daily, MONDAY)).toEqual({
+      cadence: "daily_tonight",
+      dateRange: { start: MONDAY, end: MONDAY },
+      includesEditorial: false,
+      sinceKey: SUNDAY,
+    });
+    expect(getDigestEdition(daily, SUNDAY)?.includesEditorial).toBe(true);
+  });
+});
+
+describe("toDigestPreferences", () => {
+  it("falls back to the defaults for missing rows and unknown values", () => {
+    expect(toDigestPreferences(null)).toEqual(DEFAULT_DIGEST_PREFERENCES);
+    expect(
+      toDigestPreferences({
+        digest_cadence: "hourly",
+        digest_day: 9,
+        digest_sections: null,
+        digest_max_distance_miles: 7,
+      })
+    ).toEqual(DEFAULT_DIGEST_PREFERENCES);
+  });
+
+  it("keeps valid values and drops unknown sections", () => {
+    expect(
+      toDigestPreferences({
+        digest_cadence: "daily_tonight",
+        digest_day: 3,
+        digest_sections: ["blog", "karaoke", "open_mics"],
+        digest_max_distance_miles: 25,
+      })
+    ).toEqual({ cadence: "daily_tonight", day: 3, sections: ["open_mics", "blog"], maxDistanceMiles: 25 });
+  });
+});
+
+describe("matchesDigestSections", () => {
+  it("files open mics under open_mics and everything else under showcases", () => {
+    expect(matchesDigestSections(["open_mic"], ["open_mics"])).toBe(true);
+    expect(matchesDigestSections(["open_mic"], ["showcases"])).toBe(false);
+    expect(matchesDigestSections(["gig"], ["showcases"])).toBe(true);
+    expect(matchesDigestSections(["open_mic", "showcase"], ["showcases"])).toBe(true);
+    expect(matchesDigestSections(["gig"], ["blog"])).toBe(false);
+  });
+});
+
+describe("digest data narrowing", () => {
+  it("slices the week to an edition's date range", () => {
+    const sliced = sliceDigestData(buildWeek(), { start: SUNDAY, end: SUNDAY });
+    expect([...sliced.byDate.keys()]).toEqual([SUNDAY]);
+    expect(sliced.totalCount).toBe(2);
+  });
+
+  it("returns the data unchanged when sections and distance don't narrow it", () => {
+    const week = buildWeek();
+    expect(applyDigestPreferences(week, prefs())).toBe(week);
+  });
+
+  it("filters by section and nearby venues", () => {
+    const openMicsOnly = applyDigestPreferences(buildWeek(), prefs({ sections: ["open_mics", "blog"] }));
+    expect(openMicsOnly.totalCount).toBe(2);
+
+    const nearby = applyDigestPreferences(buildWeek(), prefs(), new Set(["near"]));
+    expect([...nearby.byDate.values()].flat().map((o) => o.event.id)).toEqual(["open-sun", "gig-thu"]);
+  });
+});
+
+describe("getRecipientEditorial", () => {
+  const editorial = {
+    introNote: "Hi",
+    blogFeature: { title: "Post", url: "/blog/post" },
+    galleryFeature: { title: "Album", url: "/gallery/album" },
+    memberSpotlight: { name: "Sam", url: "/songwriters/sam" },
+    featuredHappenings: [{ title: "Show", url: "/events/show" }],
+  };
+
+  it("drops features for sections the member turned off", () => {
+    const result = getRecipientEditorial(editorial, prefs({ sections: ["blog"] }));
+    expect(result?.introNote).toBe("Hi");
+    expect(result?.blogFeature).toBeDefined();
+    expect(result?.galleryFeature).toBeUndefined();
+    expect(result?.memberSpotlight).toBeUndefined();
+    expect(result?.featuredHappenings).toBeUndefined();
+  });
+
+  it("omits editorial from editions that don't carry it", () => {
+    const thursday = getDigestEdition(prefs({ cadence: "twice_weekly" }), THURSDAY)!;
+    expect(getRecipientEditorial(editorial, prefs(), thursday)).toBeUndefined();
+  });
+});
+
+describe("personalizeDigestRecipients with a send date", () => {
+  beforeEach(() => {
+    mockGetLocationFilteredVenues.mockReset();
+  });
+
+  const recipient = (userId: string, digest: DigestPreferences, homeZip: string | null = null): DigestRecipient => ({
+    userId,
+    email: `${userId}@example.com`,
+    firstName: userId,
+    digest,
+    homeZip,
+  });
+
+  it("sends each member the edition due today and counts the rest as not due", async () => {
+    const result = await personalizeDigestRecipients(
+      {} as never,
+      [
+        recipient("weekly-sun", prefs()),
+        recipient("weekly-mon", prefs({ day: 1 })),
+        recipient("daily", prefs({ cadence: "daily_tonight" })),
+      ],
+      buildWeek(),
+      { enabled: false, todayKey: SUNDAY }
+    );
+
+    expect(result.recipients.map((r) => r.userId)).toEqual(["weekly-sun", "daily"]);
+    expect(result.notDueCount).toBe(1);
+    expect(result.digestByUserId.has("weekly-sun")).toBe(false);
+    expect(result.digestByUserId.get("daily")?.totalCount).toBe(2);
+    expect(result.editionByUserId.get("daily")?.cadence).toBe("daily_tonight");
+  });
+
+  it("skips members left with no happenings unless they only want editorial sections", async () => {
+    const result = await personalizeDigestRecipients(
+      {} as never,
+      [
+        recipient("open-mics", prefs({ cadence: "daily_tonight", sections: ["open_mics"] })),
+        recipient("blog-only", prefs({ cadence: "daily_tonight", sections: ["blog"] })),
+      ],
+      buildWeek(),
+      { enabled: false, todayKey: THURSDAY }
+    );
+
+    expect(result.recipients.map((r) => r.userId)).toEqual(["blog-only"]);
+    expect(result.skippedCount).toBe(1);
+  });
+
+  it("limits happenings to venues near the profile ZIP and ignores ZIPs it can't place", async () => {
+    mockGetLocationFilteredVenues.mockImplementation(async (_supabase: unknown, { zip }: { zip: string }) =>
+      zip === "80202"
+        ? { includedVenueIds: ["near"], emptyReason: null }
+        : { includedVenueIds: [], emptyReason: "zip_lookup_failed" }
+    );
+
+    const result = await personalizeDigestRecipients(
+      {} as never,
+      [
+        recipient("denver", prefs({ maxDistanceMiles: 10 }), "80202"),
+        recipient("unknown-zip", prefs({ maxDistanceMiles: 10 }), "99999"),
+      ],
+      buildWeek(),
+      { enabled: false, todayKey: SUNDAY }
+    );
+
+    expect(mockGetLocationFilteredVenues).toHaveBeenCalledTimes(2);
+    expect(result.digestByUserId.get("denver")?.totalCount).toBe(2);
+    expect(result.digestByUserId.has("unknown-zip")).toBe(false);
+  });
+});
+
+describe("claimRecipientDigestLocks", () => {
+  function lockClient(result: { data: unknown; error: unknown }) {
+    const upsert = vi.fn(() => ({ select: vi.fn(async () => result) }));
+    return { client: { from: vi.fn(() => ({ upsert })) } as never, upsert };
+  }
+
+  it("returns only the recipients whose lock rows were inserted", async () => {
+    const { client, upsert } = lockClient({
+      data: [{ week_key: `${SUNDAY}:u1` }],
+      error: null,
+    });
+
+    const result = await claimRecipientDigestLocks(client, "happenings_edition", SUNDAY, ["u1", "u2"]);
+
+    expect(upsert).toHaveBeenCalledWith(
+      [
+        { digest_type: "happenings_edition", week_key: `${SUNDAY}:u1`, recipient_count: 1 },
+        { digest_type: "happenings_edition", week_key: `${SUNDAY}:u2`, recipient_count: 1 },
+      ],
+      { onConflict: "digest_type,week_key", ignoreDuplicates: true }
+    );
+    expect([...result.acquiredUserIds]).toEqual(["u1"]);
+    expect(result.reason).toBe("acquired");
+  });
+
+  it("fails closed on a lock error", async () => {
+    const { client } = lockClient({ data: null, error: { message: "boom" } });
+    const result = await claimRecipientDigestLocks(client, "happenings_edition", SUNDAY, ["u1"]);
+    expect(result.acquiredUserIds.size).toBe(0);
+    expect(result.reason).toBe("lock_error");
+  });
+});
+
+describe("weekly open mics roundup recipients", () => {
+  it("only includes weekly members who keep the open mics section", async () => {
+    const preferences = [
+      { user_id: "daily", email_enabled: true, email_digests: true, digest_cadence: "daily_tonight", digest_sections: ["open_mics"] },
+      { user_id: "no-mics", email_enabled: true, email_digests: true, digest_cadence: "weekly", digest_sections: ["blog"] },
+      {
+        user_id: "weekly",
+        email_enabled: true,
+        email_digests: true,
+        digest_cadence: "weekly",
+        digest_day: 3,
+        digest_sections: ["open_mics"],
+        digest_max_distance_miles: 10,
+      },
+    ];
+    const profiles = ["daily", "no-mics", "weekly", "no-row"].map((id) => ({
+      id,
+      email: `${id}@example.com`,
+      full_name: id,
+      zip_code: "80202",
+    }));
+    const supabase = {
+      from: (table: string) =>
+        table === "profiles"
+          ? { select: () => ({ not: async () => ({ data: profiles, error: null }) }) }
+          : { select: async () => ({ data: preferences, error: null }) },
+    } as never;
+
+    const recipients = await getOpenMicRecipients(supabase);
+    expect(recipients.map((r) => r.userId).sort()).toEqual(["no-row", "weekly"]);
+    expect(recipients.find((r) => r.userId === "weekly")).toMatchObject({
+      digest: { day: 3, maxDistanceMiles: 10 },
+      homeZip: "80202",
+    });
+  });
+});
+
+describe("weekly open mics roundup editions", () => {
+  beforeEach(() => {
+    mockGetLocationFilteredVenues.mockReset();
+  });
+
+  const openMic = (id: string, dateKey: string, venueId: string): OpenMicOccurrence =>
+    ({
+      dateKey,
+      displayDate: dateKey,
+      event: { id, title: `Open mic ${id}`, slug: id, start_time: "19:00:00", venue: { id: venueId, name: venueId } },
+    }) as OpenMicOccurrence;
+
+  const openMicsWeek = (): OpenMicsDigestData => ({
+    byDate: new Map([
+      [SUNDAY, [openMic("near-sun", SUNDAY, "near"), openMic("far-sun", SUNDAY, "far")]],
+      [MONDAY, [openMic("far-mon", MONDAY, "far")]],
+    ]),
+    totalCount: 3,
+    venueCount: 2,
+    dateRange: { start: SUNDAY, end: "2026-03-07" },
+  });
+
+  const member = (userId: string, digest: DigestPreferences, homeZip: string | null = null) => ({
+    userId,
+    email: `${userId}@example.com`,
+    firstName: userId,
+    digest,
+    homeZip,
+  });
+
+  it("only sends on each member's digest day", async () => {
+    const result = await personalizeOpenMicsRecipients(
+      {} as never,
+      [member("sunday", prefs()), member("monday", prefs({ day: 1 }))],
+      openMicsWeek(),
+      { todayKey: SUNDAY }
+    );
+
+    expect(result.recipients.map((r) => r.userId)).toEqual(["sunday"]);
+    expect(result.notDueCount).toBe(1);
+    expect(result.digestByUserId.size).toBe(0);
+  });
+
+  it("limits open mics to venues near the profile ZIP and skips members left with none", async () => {
+    mockGetLocationFilteredVenues.mockImplementation(async (_supabase: unknown, { zip }: { zip: string }) =>
+      zip === "80202"
+        ? { includedVenueIds: ["near"], emptyReason: null }
+        : { includedVenueIds: [], emptyReason: null }
+    );
+
+    const result = await personalizeOpenMicsRecipients(
+      {} as never,
+      [
+        member("denver", prefs({ maxDistanceMiles: 10 }), "80202"),
+        member("remote", prefs({ maxDistanceMiles: 10 }), "81611"),
+        member("anywhere", prefs(), "81611"),
+      ],
+      openMicsWeek(),
+      { todayKey: SUNDAY }
+    );
+
+    expect(result.recipients.map((r) => r.userId)).toEqual(["denver", "anywhere"]);
+    expect(result.skippedCount).toBe(1);
+    expect(result.digestByUserId.get("denver")).toMatchObject({ totalCount: 1, venueCount: 1 });
+    expect(result.digestByUserId.has("anywhere")).toBe(false);
+  });
+
+  it("runs daily so every digest day gets a send", () => {
+    const config = JSON.parse(fs.readFileSync(VERCEL_JSON_PATH, "utf-8"));
+    const cron = config.crons.find((c: { path: string }) => c.path === "/api/cron/weekly-open-mics");
+    expect(cron.schedule).toBe("0 3 * * *");
+  });
+});
+
+describe("digest cadence migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("adds constrained digest columns with backward-compatible defaults", () => {
+    expect(sql).toContain("digest_cadence text NOT NULL DEFAULT 'weekly'");
+    expect(sql).toContain("digest_day smallint NOT NULL DEFAULT 0");
+    expect(sql).toContain("CHECK (digest_cadence IN ('daily_tonight', 'twice_weekly', 'weekly'))");
+    expect(sql).toContain("digest_max_distance_miles IN (5, 10, 15, 25, 50)");
+  });
+
+  it("rebuilds the upsert RPC for authenticated users with the digest params", () => {
+    expect(sql).toContain("p_digest_sections text[] DEFAULT NULL");
+    expect(sql).toContain("NULLIF(p_digest_max_distance_miles, 0)");
+    expect(sql).toMatch(/GRANT EXECUTE ON FUNCTION upsert_notification_preferences\([^)]*smallint\) TO authenticated/);
+  });
+});
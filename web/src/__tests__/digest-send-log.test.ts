@@ -116,27 +116,28 @@ describe("DigestType", () => {
 // ============================================================
 
 describe("Cron route guard integration", () => {
-  it("weekly-open-mics route imports digestSendLog", async () => {
-    // Read the route file and verify it imports the guard
+  it("weekly-open-mics route sends through the per-recipient editions module", async () => {
     const fs = await import("fs");
-    const routePath = "src/app/api/cron/weekly-open-mics/route.ts";
-    const content = fs.readFileSync(routePath, "utf-8");
-
-    expect(content).toContain('import { claimDigestSendLock, computeWeekKey } from "@/lib/digest/digestSendLog"');
-    expect(content).toContain("claimDigestSendLock(");
-    expect(content).toContain("computeWeekKey()");
-    expect(content).toContain('"weekly_open_mics"');
+    const routeContent = fs.readFileSync("src/app/api/cron/weekly-open-mics/route.ts", "utf-8");
+    const editionsContent = fs.readFileSync("src/lib/digest/openMicsEditions.ts", "utf-8");
+
+    expect(routeContent).toContain("sendOpenMicsEditions(");
+    expect(routeContent).not.toContain("claimDigestSendLock(");
+    expect(editionsContent).toContain('import { claimRecipientDigestLocks } from "@/lib/digest/digestSendLog"');
+    expect(editionsContent).toContain("claimRecipientDigestLocks(");
+    expect(editionsContent).toContain('"open_mics_edition"');
   });
 
-  it("weekly-happenings route imports digestSendLog", async () => {
+  it("weekly-happenings route sends through the per-region editions module", async () => {
     const fs = await import("fs");
-    const routePath = "src/app/api/cron/weekly-happenings/route.ts";
-    const content = fs.readFileSync(routePath, "utf-8");
-
-    expect(content).toContain('import { claimDigestSendLock, computeWeekKey } from "@/lib/digest/digestSendLog"');
-    expect(content).toContain("claimDigestSendLock(");
-    expect(content).toContain("computeWeekKey()");
-    expect(content).toContain('"weekly_happenings"');
+    const routeContent = fs.readFileSync("src/app/api/cron/weekly-happenings/route.ts", "utf-8");
+    const editionsContent = fs.readFileSync("src/lib/digest/happeningsEditions.ts", "utf-8");
+
+    expect(routeContent).toContain("sendRegionHappeningsEditions(");
+    expect(editionsContent).toContain('import { claimRecipientDigestLocks, computeWeekKey } from "@/lib/digest/digestSendLog"');
+    expect(editionsContent).toContain("claimRecipientDigestLocks(");
+    expect(editionsContent).toContain("computeWeekKey(now)");
+    expect(editionsContent).toContain('"happenings_edition"');
   });
 
   it("both routes return skipped:true when lock not acquired", async () => {
@@ -145,10 +146,13 @@ describe("Cron route guard integration", () => {
     const openMicsRoute = fs.readFileSync("src/app/api/cron/weekly-open-mics/route.ts", "utf-8");
     const happeningsRoute = fs.readFileSync("src/app/api/cron/weekly-happenings/route.ts", "utf-8");
 
-    // Both routes check lock.acquired and return early if false
-    expect(openMicsRoute).toContain("if (!lock.acquired)");
+    // Both editions modules return early when no lock was acquired
+    for (const modulePath of ["src/lib/digest/happeningsEditions.ts", "src/lib/digest/openMicsEditions.ts"]) {
+      const editionsContent = fs.readFileSync(modulePath, "utf-8");
+      expect(editionsContent).toContain("if (lockedRecipients.length === 0)");
+      expect(editionsContent).toContain('status: "already_sent"');
+    }
     expect(openMicsRoute).toContain("skipped: true");
-    expect(happeningsRoute).toContain("if (!lock.acquired)");
     expect(happeningsRoute).toContain("skipped: true");
   });
 
@@ -156,17 +160,19 @@ describe("Cron route guard integration", () => {
     const fs = await import("fs");
     const content = fs.readFileSync("src/app/api/cron/weekly-open-mics/route.ts", "utf-8");
 
-    // Find positions of key sections
-    const authCheckPos = content.indexOf('authHeader !== `Bearer ${cronSecret}`');
-    const lockClaimPos = content.indexOf("claimDigestSendLock(");
-    // GTM-2: inline send loop replaced with sendDigestEmails() shared function
-    const emailSendPos = content.indexOf("sendDigestEmails(");
+    const editionsContent = fs.readFileSync("src/lib/digest/openMicsEditions.ts", "utf-8");
 
-    // Guard must be AFTER auth and BEFORE email send
+    // The editions send (which claims the locks) runs only after auth
+    const authCheckPos = content.indexOf('authHeader !== `Bearer ${cronSecret}`');
+    const editionsSendPos = content.indexOf("sendOpenMicsEditions(supabase");
     expect(authCheckPos).toBeGreaterThan(-1);
+    expect(editionsSendPos).toBeGreaterThan(authCheckPos);
+
+    // Inside the module, locks are claimed BEFORE the email send
+    // GTM-2: inline send loop replaced with sendDigestEmails() shared function
+    const lockClaimPos = editionsContent.indexOf("claimRecipientDigestLocks(");
+    const emailSendPos = editionsContent.indexOf("sendDigestEmails(");
     expect(lockClaimPos).toBeGreaterThan(-1);
-    expect(emailSendPos).toBeGreaterThan(-1);
-    expect(lockClaimPos).toBeGreaterThan(authCheckPos);
     expect(emailSendPos).toBeGreaterThan(lockClaimPos);
   });
 });
@@ -192,9 +198,12 @@ describe("Fail-closed behavior", () => {
     const openMicsRoute = fs.readFileSync("src/app/api/cron/weekly-open-mics/route.ts", "utf-8");
     const happeningsRoute = fs.readFileSync("src/app/api/cron/weekly-happenings/route.ts", "utf-8");
 
+    // Per-recipient editions report lock errors as a status
+    expect(happeningsRoute).toContain('result.status === "lock_error"');
+    expect(openMicsRoute).toContain('result.status === "lock_error"');
+
     for (const content of [openMicsRoute, happeningsRoute]) {
       // lock_error branch returns 500
-      expect(content).toContain('reason === "lock_error"');
       expect(content).toContain('reason: "lock_error"');
       expect(content).toContain("{ status: 500 }");
       // already_sent branch returns 200
@@ -223,12 +232,12 @@ describe("Fail-closed behavior", () => {
 
   it("no email sending occurs after lock_error — routes return before email send", async () => {
     const fs = await import("fs");
-    const openMicsRoute = fs.readFileSync("src/app/api/cron/weekly-open-mics/route.ts", "utf-8");
+    const editionsContent = fs.readFileSync("src/lib/digest/openMicsEditions.ts", "utf-8");
 
     // The lock_error return statement must come BEFORE the email sending call
-    const lockErrorReturnPos = openMicsRoute.indexOf('reason: "lock_error"');
+    const lockErrorReturnPos = editionsContent.indexOf('status: "lock_error"');
     // GTM-2: inline send loop replaced with sendDigestEmails() shared function
-    const emailSendPos = openMicsRoute.indexOf("sendDigestEmails(");
+    const emailSendPos = editionsContent.indexOf("sendDigestEmails(");
 
     expect(lockErrorReturnPos).toBeGreaterThan(-1);
     expect(emailSendPos).toBeGreaterThan(-1);
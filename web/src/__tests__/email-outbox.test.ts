@@ -0,0 +1,357 @@
+/**
+ * Email Outbox Tests
+ *
+ * Tests for retry backoff, delivery outcomes, the drain budget and loop,
+ * single-message queueing and the digest full-send path, plus source
+ * contracts for the cron route, schedule and migration.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const mocks = vi.hoisted(() => ({
+  deliverEmail: vi.fn(),
+  sendEmail: vi.fn(),
+  serviceClient: { current: null as unknown },
+}));
+
+vi.mock("@/lib/email/mailer", () => ({
+  deliverEmail: mocks.deliverEmail,
+  sendEmail: mocks.sendEmail,
+}));
+
+vi.mock("@/lib/supabase/serviceRoleClient", () => ({
+  getServiceRoleClient: () => mocks.serviceClient.current,
+}));
+
+import {
+  drainOutbox,
+  enqueueEmails,
+  getDrainBudgetMs,
+  getRetryDelayMs,
+  OUTBOX_CONFIG,
+  queueEmail,
+  resolveDeliveryOutcome,
+  type OutboxRow,
+} from "@/lib/email/outbox";
+import { getDigestBatchKey, sendDigestEmails } from "@/lib/digest/sendDigest";
+
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/email-outbox/route.ts");
+const VERCEL_JSON_PATH = path.resolve(__dirname, "../../vercel.json");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260517010000_email_outbox.sql"
+);
+
+const NOW = new Date("2026-06-01T18:00:00Z");
+const MINUTE = 60 * 1000;
+
+const makeRow = (overrides: Partial<OutboxRow> = {}): OutboxRow => ({
+  id: "row-1",
+  to_email: "member@example.com",
+  subject: "This week",
+  html: "<p>Hi</p>",
+  text: "Hi",
+  template_name: "weeklyHappeningsDigest",
+  reply_to: null,
+  list_unsubscribe_url: "https://example.com/api/digest/unsubscribe?uid=u&sig=s",
+  batch_key: "weekly_happenings:2026-W23",
+  status: "sending",
+  attempts: 1,
+  next_attempt_at: NOW.toISOString(),
+  locked_at: NOW.toISOString(),
+  last_error: null,
+  sent_at: null,
+  created_at: NOW.toISOString(),
+  updated_at: NOW.toISOString(),
+  ...overrides,
+});
+
+/**
+ * Minimal email_outbox client: rpc hands out queued rows in claim order,
+ * update/insert are recorded.
+ */
+function makeOutboxClient(queued: OutboxRow[]) {
+  const pending = [...queued];
+  const updates: Array<{ id: string; update: Record<string, unknown> }> = [];
+  const inserts: unknown[][] = [];
+  const rpcArgs: Array<Record<string, unknown>> = [];
+
+  const client = {
+    rpc: vi.fn(async (_name: string, args: Record<string, unknown>) => {
+      rpcArgs.push(args);
+      const batch = pending.splice(0, args.p_limit as number);
+      return { data: batch, error: null };
+    }),
+    from: vi.fn(() => ({
+      insert: async (rows: unknown[]) => {
+        inserts.push(rows);
+        pending.push(
+          ...rows.map((row, index) =>
+            makeRow({ ...(row as Partial<OutboxRow>), id: `new-${pending.length + index}` })
+          )
+        );
+        return { error: null };
+      },
+      update: (update: Record<string, unknown>) => ({
+        eq: async (_column: string, id: string) => {
+          updates.push({ id, update });
+          return { error: null };
+        },
+      }),
+    })),
+  };
+
+  return { client, updates, inserts, rpcArgs };
+}
+
+describe("getRetryDelayMs", () => {
+  it("doubles from two minutes", () => {
+    expect(getRetryDelayMs(1)).toBe(2 * MINUTE);
+    expect(getRetryDelayMs(2)).toBe(4 * MINUTE);
+    expect(getRetryDelayMs(3)).toBe(8 * MINUTE);
+  });
+
+  it("caps at the maximum delay", () => {
+    expect(getRetryDelayMs(20)).toBe(OUTBOX_CONFIG.MAX_RETRY_MS);
+  });
+});
+
+describe("getDrainBudgetMs", () => {
+  const startedAt = NOW.getTime();
+
+  it("leaves the invocation limit minus the safety margin at the start", () => {
+    expect(getDrainBudgetMs(startedAt, startedAt)).toBe(
+      OUTBOX_CONFIG.INVOCATION_LIMIT_MS - OUTBOX_CONFIG.DRAIN_SAFETY_MARGIN_MS
+    );
+  });
+
+  it("subtracts time already spent in the invocation", () => {
+    expect(getDrainBudgetMs(startedAt, startedAt + 20 * 1000)).toBe(25 * 1000);
+  });
+
+  it("is never negative", () => {
+    expect(getDrainBudgetMs(startedAt, startedAt + 2 * MINUTE)).toBe(0);
+  });
+});
+
+describe("resolveDeliveryOutcome", () => {
+  it("marks sent and suppressed messages final", () => {
+    const sent = resolveDeliveryOutcome({ status: "sent" }, 1, NOW);
+    expect(sent).toMatchObject({ status: "sent", sent_at: NOW.toISOString(), locked_at: null });
+
+    const suppressed = resolveDeliveryOutcome({ status: "suppressed" }, 1, NOW);
+    expect(suppressed.status).toBe("suppressed");
+  });
+
+  it("requeues failures with backoff", () => {
+    const update = resolveDeliveryOutcome({ status: "failed", error: "Greeting never received" }, 2, NOW);
+    expect(update.status).toBe("queued");
+    expect(update.last_error).toBe("Greeting never received");
+    expect(update.next_attempt_at).toBe(new Date(NOW.getTime() + 4 * MINUTE).toISOString());
+  });
+
+  it("retries missing SMTP config and rate limits", () => {
+    expect(resolveDeliveryOutcome({ status: "not_configured" }, 1, NOW).status).toBe("queued");
+    expect(resolveDeliveryOutcome({ status: "rate_limited" }, 1, NOW).last_error).toBe("rate_limited");
+  });
+
+  it("fails after the attempt limit", () => {
+    const update = resolveDeliveryOutcome({ status: "failed", error: "boom" }, OUTBOX_CONFIG.MAX_ATTEMPTS, NOW);
+    expect(update.status).toBe("failed");
+    expect(update.next_attempt_at).toBeUndefined();
+  });
+
+  it("truncates long errors", () => {
+    const update = resolveDeliveryOutcome({ status: "failed", error: "x".repeat(2000) }, 1, NOW);
+    expect(update.last_error).toHaveLength(OUTBOX_CONFIG.MAX_ERROR_LENGTH);
+  });
+});
+
+describe("drainOutbox", () => {
+  beforeEach(() => {
+    mocks.deliverEmail.mockReset();
+  });
+
+  it("claims in rounds of the concurrency cap until the queue is empty", async () => {
+    const rows = Array.from({ length: 7 }, (_, i) => makeRow({ id: `row-${i}` }));
+    const { client, updates, rpcArgs } = makeOutboxClient(rows);
+    mocks.deliverEmail.mockResolvedValue({ status: "sent" });
+
+    const result = await drainOutbox(client as never, { concurrency: 3, batchKey: "weekly_happenings:2026-W23" });
+
+    expect(rpcArgs).toHaveLength(4);
+    expect(rpcArgs[0]).toEqual({ p_limit: 3, p_batch_key: "weekly_happenings:2026-W23" });
+    expect(result).toMatchObject({ claimed: 7, sent: 7, timedOut: false });
+    expect(updates).toHaveLength(7);
+  });
+
+  it("counts each outcome", async () => {
+    const rows = [
+      makeRow({ id: "ok" }),
+      makeRow({ id: "bounced" }),
+      makeRow({ id: "flaky", attempts: 1 }),
+      makeRow({ id: "dead", attempts: OUTBOX_CONFIG.MAX_ATTEMPTS }),
+    ];
+    const { client } = makeOutboxClient(rows);
+    mocks.deliverEmail
+      .mockResolvedValueOnce({ status: "sent" })
+      .mockResolvedValueOnce({ status: "suppressed" })
+      .mockResolvedValueOnce({ status: "failed", error: "timeout" })
+      .mockResolvedValueOnce({ status: "failed", error: "timeout" });
+
+    const result = await drainOutbox(client as never, { concurrency: 10 });
+    expect(result).toMatchObject({ claimed: 4, sent: 1, suppressed: 1, retrying: 1, failed: 1 });
+  });
+
+  it("passes the stored message to the mailer", async () => {
+    const { client } = makeOutboxClient([makeRow()]);
+    mocks.deliverEmail.mockResolvedValue({ status: "sent" });
+
+    await drainOutbox(client as never);
+    expect(mocks.deliverEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "member@example.com",
+        templateName: "weeklyHappeningsDigest",
+        listUnsubscribeUrl: "https://example.com/api/digest/unsubscribe?uid=u&sig=s",
+      })
+    );
+  });
+
+  it("stops claiming once the budget is spent", async () => {
+    const { client } = makeOutboxClient([makeRow()]);
+    const result = await drainOutbox(client as never, { budgetMs: 0 });
+    expect(result).toMatchObject({ claimed: 0, timedOut: true });
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe("enqueueEmails", () => {
+  it("inserts one row per message under the batch key", async () => {
+    const { client, inserts } = makeOutboxClient([]);
+    const count = await enqueueEmails(
+      client as never,
+      [
+        { to: "a@example.com", subject: "S", html: "<p>A</p>", text: "A", templateName: "t" },
+        { to: "b@example.com", subject: "S", html: "<p>B</p>", text: "B" },
+      ],
+      { batchKey: "weekly_open_mics:2026-W23" }
+    );
+
+    expect(count).toBe(2);
+    expect(inserts[0]).toEqual([
+      expect.objectContaining({ to_email: "a@example.com", template_name: "t", batch_key: "weekly_open_mics:2026-W23" }),
+      expect.objectContaining({ to_email: "b@example.com", template_name: null, reply_to: null }),
+    ]);
+  });
+});
+
+describe("queueEmail", () => {
+  beforeEach(() => {
+    mocks.sendEmail.mockReset();
+  });
+
+  const message = { to: "admin@example.com", subject: "Alert", html: "<p>A</p>", text: "A", templateName: "adminAlert" };
+
+  it("enqueues instead of sending", async () => {
+    const outbox = makeOutboxClient([]);
+    mocks.serviceClient.current = outbox.client;
+
+    await expect(queueEmail(message)).resolves.toBe(true);
+    expect(outbox.inserts[0]).toEqual([expect.objectContaining({ to_email: "admin@example.com", batch_key: null })]);
+    expect(mocks.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("sends inline when the outbox insert fails", async () => {
+    mocks.serviceClient.current = {
+      from: () => ({ insert: async () => ({ error: { message: "relation does not exist" } }) }),
+    };
+    mocks.sendEmail.mockResolvedValue(true);
+
+    await expect(queueEmail(message)).resolves.toBe(true);
+    expect(mocks.sendEmail).toHaveBeenCalledWith(message);
+  });
+});
+
+describe("sendDigestEmails full mode", () => {
+  beforeEach(() => {
+    mocks.deliverEmail.mockReset();
+    mocks.sendEmail.mockReset();
+  });
+
+  const recipients = [
+    { userId: "u1", email: "one@example.com", firstName: "One" },
+    { userId: "u2", email: "two@example.com", firstName: "Two" },
+  ];
+
+  it("enqueues every recipient and drains its own batch", async () => {
+    const outbox = makeOutboxClient([]);
+    mocks.serviceClient.current = outbox.client;
+    mocks.deliverEmail.mockResolvedValueOnce({ status: "sent" }).mockResolvedValueOnce({ status: "failed" });
+
+    const result = await sendDigestEmails({
+      mode: "full",
+      recipients,
+      buildEmail: (recipient) => ({ subject: "Digest", html: `<p>${recipient.email}</p>`, text: "Digest" }),
+      templateName: "weeklyHappeningsDigest",
+      logPrefix: "[Test]",
+      batchKey: getDigestBatchKey("weekly_happenings", "2026-W23"),
+    });
+
+    expect(mocks.sendEmail).not.toHaveBeenCalled();
+    expect(outbox.inserts[0]).toHaveLength(2);
+    expect(outbox.rpcArgs[0].p_batch_key).toBe("weekly_happenings:2026-W23");
+    // The failed send is backing off in the outbox, not dropped
+    expect(result).toEqual({ sent: 1, failed: 0, total: 2, queued: 1 });
+  });
+
+  it("leaves the batch to the outbox cron when the invocation has no time left", async () => {
+    const outbox = makeOutboxClient([]);
+    mocks.serviceClient.current = outbox.client;
+
+    const result = await sendDigestEmails({
+      mode: "full",
+      recipients,
+      buildEmail: () => ({ subject: "Digest", html: "<p>Hi</p>", text: "Digest" }),
+      templateName: "weeklyHappeningsDigest",
+      logPrefix: "[Test]",
+      batchKey: getDigestBatchKey("weekly_happenings", "2026-W23"),
+      invocationStartedAt: Date.now() - OUTBOX_CONFIG.INVOCATION_LIMIT_MS,
+    });
+
+    expect(outbox.client.rpc).not.toHaveBeenCalled();
+    expect(mocks.deliverEmail).not.toHaveBeenCalled();
+    expect(result).toEqual({ sent: 0, failed: 0, total: 2, queued: 2 });
+  });
+});
+
+describe("email outbox source contracts", () => {
+  it("cron route checks CRON_SECRET before creating the service client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    const secretIdx = source.indexOf("Bearer ${cronSecret}");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(secretIdx).toBeGreaterThan(-1);
+    expect(clientIdx).toBeGreaterThan(secretIdx);
+  });
+
+  it("cron route drains within the invocation's remaining time", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    expect(source).toContain("getDrainBudgetMs(invocationStartedAt)");
+  });
+
+  it("is scheduled in vercel.json", () => {
+    const config = JSON.parse(fs.readFileSync(VERCEL_JSON_PATH, "utf-8"));
+    expect(config.crons.map((c: { path: string }) => c.path)).toContain("/api/cron/email-outbox");
+  });
+
+  it("migration keeps the outbox service-role only and claims with SKIP LOCKED", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("ENABLE ROW LEVEL SECURITY");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+    expect(sql).toContain("FOR UPDATE SKIP LOCKED");
+    expect(sql).toContain(
+      "REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(integer, text) FROM anon, authenticated, public;"
+    );
+  });
+});
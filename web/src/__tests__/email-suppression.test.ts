@@ -0,0 +1,335 @@
+/**
+ * Email Suppression & One-Click Unsubscribe Tests
+ *
+ * Tests for the DSN/ARF parser, the suppression rule, List-Unsubscribe
+ * headers, category unsubscribe tokens, and the sendEmailWithPreferences
+ * suppression/unsubscribe path, plus source contracts for the webhook,
+ * unsubscribe and admin routes and the migration.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  classifyDeliveryStatus,
+  extractAddress,
+  parseDeliveryReport,
+} from "@/lib/email/bounces";
+
+const { sendEmailMock, getSuppressedEmailsMock } = vi.hoisted(() => ({
+  sendEmailMock: vi.fn(),
+  getSuppressedEmailsMock: vi.fn(),
+}));
+
+vi.mock("@/lib/email/mailer", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/email/mailer")>()),
+  sendEmail: sendEmailMock,
+}));
+
+vi.mock("@/lib/email/suppression", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/email/suppression")>()),
+  getSuppressedEmails: getSuppressedEmailsMock,
+}));
+
+vi.mock("@/lib/appLogger", () => ({
+  appLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const SRC_DIR = path.resolve(__dirname, "..");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260516010000_email_suppressions.sql"
+);
+
+const HARD_BOUNCE = [
+  "From: MAILER-DAEMON@mx.example.net",
+  "To: bounces@coloradosongwriterscollective.org",
+  "Subject: Undelivered Mail Returned to Sender",
+  'Content-Type: multipart/report; report-type=delivery-status; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/plain",
+  "",
+  "This is the mail system. Your message could not be delivered.",
+  "",
+  "--b1",
+  "Content-Type: message/delivery-status",
+  "",
+  "Reporting-MTA: dns; mx.example.net",
+  "Arrival-Date: Mon, 1 Jun 2026 10:00:00 -0600",
+  "",
+  "Final-Recipient: rfc822; Gone.User@Example.com",
+  "Original-Recipient: rfc822;gone.user@example.com",
+  "Action: failed",
+  "Status: 5.1.1",
+  "Diagnostic-Code: smtp; 550 5.1.1 <gone.user@example.com>: Recipient address",
+  "    rejected: User unknown",
+  "",
+  "Final-Recipient: rfc822; full@example.com",
+  "Action: failed",
+  "Status: 5.2.2",
+  "",
+  "Final-Recipient: rfc822; ok@example.com",
+  "Action: delivered",
+  "Status: 2.0.0",
+  "--b1--",
+].join("\r\n");
+
+const COMPLAINT = [
+  "From: feedback@isp.example",
+  "To: bounces@coloradosongwriterscollective.org",
+  'Content-Type: multipart/report; report-type=feedback-report; boundary="b2"',
+  "",
+  "--b2",
+  "Content-Type: message/feedback-report",
+  "",
+  "Feedback-Type: abuse",
+  "User-Agent: SomeGenerator/1.0",
+  "Version: 1",
+  "",
+  "--b2",
+  "Content-Type: message/rfc822",
+  "",
+  "From: The Colorado Songwriters Collective <hello@coloradosongwriterscollective.org>",
+  "To: Sam Example <sam@example.org>",
+  "Subject: Weekly Happenings",
+  "",
+  "Body",
+  "--b2--",
+].join("\n");
+
+describe("parseDeliveryReport", () => {
+  it("extracts hard and soft bounces from a DSN and ignores delivered recipients", () => {
+    expect(parseDeliveryReport(HARD_BOUNCE)).toEqual([
+      {
+        email: "gone.user@example.com",
+        kind: "hard_bounce",
+        statusCode: "5.1.1",
+        diagnostic: "550 5.1.1 <gone.user@example.com>: Recipient address rejected: User unknown",
+      },
+      { email: "full@example.com", kind: "soft_bounce", statusCode: "5.2.2", diagnostic: null },
+    ]);
+  });
+
+  it("treats delayed delivery as a soft bounce", () => {
+    const report = "Final-Recipient: rfc822; slow@example.com\nAction: delayed\nStatus: 4.4.7\n";
+    expect(parseDeliveryReport(report)).toEqual([
+      { email: "slow@example.com", kind: "soft_bounce", statusCode: "4.4.7", diagnostic: null },
+    ]);
+  });
+
+  it("falls back to the returned message's To header for complaints", () => {
+    expect(parseDeliveryReport(COMPLAINT)).toEqual([
+      { email: "sam@example.org", kind: "complaint", statusCode: null, diagnostic: "Feedback-Type: abuse" },
+    ]);
+  });
+
+  it("prefers Original-Rcpt-To on complaints and skips not-spam reports", () => {
+    const withRcpt = COMPLAINT.replace("Version: 1", "Version: 1\nOriginal-Rcpt-To: <rcpt@example.org>");
+    expect(parseDeliveryReport(withRcpt).map((e) => e.email)).toEqual(["rcpt@example.org"]);
+    expect(parseDeliveryReport(COMPLAINT.replace("Feedback-Type: abuse", "Feedback-Type: not-spam"))).toEqual([]);
+  });
+
+  it("returns nothing for ordinary mail", () => {
+    expect(parseDeliveryReport("From: someone@example.com\nSubject: Out of office\n\nBack Monday.")).toEqual([]);
+  });
+});
+
+describe("bounce helpers", () => {
+  it("extracts addresses from typed, angled and named forms", () => {
+    expect(extractAddress("rfc822; A@B.example")).toBe("a@b.example");
+    expect(extractAddress("Sam <sam@example.org>")).toBe("sam@example.org");
+    expect(extractAddress("rfc822; not-an-address")).toBeNull();
+    expect(extractAddress(undefined)).toBeNull();
+  });
+
+  it("classifies delivery status", () => {
+    expect(classifyDeliveryStatus("failed", "5.1.1")).toBe("hard_bounce");
+    expect(classifyDeliveryStatus("failed", "4.2.0")).toBe("soft_bounce");
+    expect(classifyDeliveryStatus("failed", null)).toBe("hard_bounce");
+    expect(classifyDeliveryStatus("relayed", "2.0.0")).toBeNull();
+  });
+});
+
+describe("suppression rule", () => {
+  it("suppresses hard bounces and complaints at once, soft bounces at the limit", async () => {
+    const { shouldSuppress, SUPPRESSION_CONFIG } = await import("@/lib/email/suppression");
+    expect(shouldSuppress("hard_bounce", 0)).toBe(true);
+    expect(shouldSuppress("complaint", 0)).toBe(true);
+    expect(shouldSuppress("soft_bounce", SUPPRESSION_CONFIG.SOFT_BOUNCE_LIMIT - 1)).toBe(false);
+    expect(shouldSuppress("soft_bounce", SUPPRESSION_CONFIG.SOFT_BOUNCE_LIMIT)).toBe(true);
+  });
+
+  it("lets essential mail through soft-bounce suppressions only", async () => {
+    const { isSuppressionBlocking } = await import("@/lib/email/suppression");
+    expect(isSuppressionBlocking("soft_bounce")).toBe(true);
+    expect(isSuppressionBlocking("soft_bounce", { essential: true })).toBe(false);
+    for (const reason of ["hard_bounce", "complaint", "manual"]) {
+      expect(isSuppressionBlocking(reason, { essential: true })).toBe(true);
+    }
+  });
+});
+
+describe("List-Unsubscribe headers", () => {
+  it("builds RFC 8058 one-click headers", async () => {
+    const { buildListUnsubscribeHeaders } = await import("@/lib/email/mailer");
+    expect(buildListUnsubscribeHeaders("https://example.com/u?sig=1")).toEqual({
+      "List-Unsubscribe": "<https://example.com/u?sig=1>",
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+    expect(buildListUnsubscribeHeaders(null)).toBeUndefined();
+  });
+});
+
+describe("category unsubscribe tokens", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("UNSUBSCRIBE_SECRET", "test-unsubscribe-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips and can't be reused for another category or the digest", async () => {
+    const tokens = await import("@/lib/digest/unsubscribeToken");
+    const token = tokens.generateCategoryUnsubscribeToken("user-1", "host_activity");
+    expect(token).toBeTruthy();
+    expect(tokens.validateCategoryUnsubscribeToken("user-1", "host_activity", token!)).toBe(true);
+    expect(tokens.validateCategoryUnsubscribeToken("user-1", "invitations", token!)).toBe(false);
+    expect(tokens.validateCategoryUnsubscribeToken("user-2", "host_activity", token!)).toBe(false);
+    expect(tokens.validateUnsubscribeToken("user-1", token!)).toBe(false);
+  });
+
+  it("builds category URLs and reuses the digest link for digests", async () => {
+    const tokens = await import("@/lib/digest/unsubscribeToken");
+    expect(tokens.buildCategoryUnsubscribeUrl("user-1", "attendee_activity")).toContain(
+      "/api/email/unsubscribe?uid=user-1&category=attendee_activity&sig="
+    );
+    expect(tokens.buildCategoryUnsubscribeUrl("user-1", "digests")).toBe(tokens.buildUnsubscribeUrl("user-1"));
+  });
+});
+
+describe("sendEmailWithPreferences suppression and unsubscribe", () => {
+  const supabase = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: null, error: null }) }),
+      }),
+    }),
+    rpc: async () => ({ error: null }),
+  };
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("UNSUBSCRIBE_SECRET", "test-unsubscribe-secret");
+    sendEmailMock.mockReset().mockResolvedValue(true);
+    getSuppressedEmailsMock.mockReset().mockResolvedValue(new Set());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const send = async (templateKey: string) => {
+    const { sendEmailWithPreferences } = await import("@/lib/email/sendWithPreferences");
+    return sendEmailWithPreferences({
+      supabase: supabase as never,
+      userId: "user-1",
+      templateKey,
+      payload: { to: "host@example.com", subject: "s", html: "h", text: "t", templateName: templateKey },
+    });
+  };
+
+  it("skips suppressed addresses, even for essential mail", async () => {
+    getSuppressedEmailsMock.mockResolvedValue(new Set(["host@example.com"]));
+    expect(await send("rsvpHostNotification")).toMatchObject({ emailSent: false, skipReason: "suppressed" });
+    expect(await send("verificationCode")).toMatchObject({ emailSent: false, skipReason: "suppressed" });
+    expect(sendEmailMock).not.toHaveBeenCalled();
+  });
+
+  it("checks essential mail against blocking suppressions only and flags it for the mailer", async () => {
+    await send("verificationCode");
+    expect(getSuppressedEmailsMock).toHaveBeenCalledWith(["host@example.com"], { essential: true });
+    expect(sendEmailMock.mock.calls[0][0].essential).toBe(true);
+
+    await send("rsvpHostNotification");
+    expect(getSuppressedEmailsMock).toHaveBeenLastCalledWith(["host@example.com"], { essential: false });
+    expect(sendEmailMock.mock.calls[1][0].essential).toBeUndefined();
+  });
+
+  it("adds a category unsubscribe URL to non-essential mail", async () => {
+    expect(await send("rsvpHostNotification")).toMatchObject({ emailSent: true });
+    expect(sendEmailMock.mock.calls[0][0].listUnsubscribeUrl).toContain("category=host_activity");
+  });
+
+  it("leaves essential mail without an unsubscribe URL", async () => {
+    await send("verificationCode");
+    expect(sendEmailMock.mock.calls[0][0].listUnsubscribeUrl).toBeUndefined();
+  });
+});
+
+describe("email suppression source contracts", () => {
+  const read = (relative: string) => fs.readFileSync(path.join(SRC_DIR, relative), "utf-8");
+
+  it("bounce webhook checks its secret before reading the body or creating the service client", () => {
+    const source = read("app/api/email/bounces/route.ts");
+    const secretIdx = source.indexOf("Bearer ${webhookSecret}");
+    expect(secretIdx).toBeGreaterThan(-1);
+    expect(source.indexOf("request.text()")).toBeGreaterThan(secretIdx);
+    expect(source.indexOf("createServiceRoleClient()")).toBeGreaterThan(secretIdx);
+  });
+
+  it("category unsubscribe validates the signature before the service client", () => {
+    const source = read("app/api/email/unsubscribe/route.ts");
+    const validateIdx = source.indexOf("validateCategoryUnsubscribeToken(uid, category, sig)");
+    expect(validateIdx).toBeGreaterThan(-1);
+    expect(source.indexOf("createServiceRoleClient()")).toBeGreaterThan(validateIdx);
+    expect(source).toContain("export async function POST(");
+  });
+
+  it("digest and newsletter unsubscribe accept one-click POSTs", () => {
+    expect(read("app/api/digest/unsubscribe/route.ts")).toContain("export async function POST(");
+    expect(read("app/api/newsletter/unsubscribe/route.ts")).toContain("export async function POST(");
+  });
+
+  it("digests carry the recipient's unsubscribe header", () => {
+    expect(read("lib/digest/sendDigest.ts")).toContain("listUnsubscribeUrl: buildUnsubscribeUrl(recipient.userId)");
+  });
+
+  it("admin suppression routes check admin before the service client", () => {
+    for (const relative of [
+      "app/api/admin/ops/email-suppressions/route.ts",
+      "app/api/admin/ops/email-suppressions/[id]/route.ts",
+    ]) {
+      const source = read(relative);
+      const adminIdx = source.indexOf("checkAdminRole(");
+      expect(adminIdx).toBeGreaterThan(-1);
+      expect(source.indexOf("createServiceRoleClient()")).toBeGreaterThan(adminIdx);
+    }
+  });
+
+  it("guest verification codes are sent as essential mail", () => {
+    const routes = [
+      "blog-comment",
+      "comment-delete",
+      "event-comment",
+      "gallery-album-comment",
+      "gallery-photo-comment",
+      "profile-comment",
+      "rsvp",
+      "timeslot-claim",
+    ].map((dir) => `../app/api/guest/${dir}/request-code/route.ts`);
+    for (const route of [...routes, "../app/api/guest/request-code/route.ts"]) {
+      const source = fs.readFileSync(path.resolve(__dirname, route), "utf-8");
+      expect(source, route).toMatch(/await sendEmail\(\{[^}]*essential: true,/);
+    }
+  });
+
+  it("migration keeps both tables service-role only", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("email_suppressions ENABLE ROW LEVEL SECURITY");
+    expect(sql).toContain("email_delivery_events ENABLE ROW LEVEL SECURITY");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+  });
+});
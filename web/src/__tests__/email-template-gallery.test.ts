@@ -0,0 +1,111 @@
+/**
+ * Email Template Gallery Tests
+ *
+ * Tests that every registry template has a fixture that survives the JSON
+ * round trip through the admin editor, the output checks (size, alt text,
+ * plain text), and source contracts for the preview/test-send routes.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getAllTemplateKeys, isEmailTemplateKey } from "@/lib/email/registry";
+import {
+  getTemplateFixtureJson,
+  hydrateTemplateParams,
+  renderTemplateFromJson,
+} from "@/lib/email/templateFixtures";
+import { checkEmailOutput, TEMPLATE_CHECK_LIMITS } from "@/lib/email/templateChecks";
+
+const TEST_SEND_ROUTE_PATH = path.resolve(
+  __dirname,
+  "../app/api/admin/email-templates/test-send/route.ts"
+);
+const PREVIEW_ROUTE_PATH = path.resolve(
+  __dirname,
+  "../app/api/admin/email-templates/preview/route.ts"
+);
+
+const output = (html: string, text = "Hello") => ({ subject: "Subject", html, text });
+
+describe("template fixtures", () => {
+  it.each(getAllTemplateKeys())("%s renders from its JSON fixture without check errors", (key) => {
+    const json = JSON.parse(JSON.stringify(getTemplateFixtureJson(key)));
+    const email = renderTemplateFromJson(key, json);
+
+    expect(email.subject).toBeTruthy();
+    expect(email.html).toContain("<html");
+    expect(email.text.trim()).toBeTruthy();
+    expect(checkEmailOutput(email).filter((issue) => issue.severity === "error")).toEqual([]);
+  });
+
+  it("serializes digest byDate maps as objects keyed by date", () => {
+    const json = getTemplateFixtureJson("weeklyOpenMicsDigest") as { byDate: Record<string, unknown[]> };
+    expect(Object.keys(json.byDate)).toEqual(["2026-06-01", "2026-06-03"]);
+
+    const params = hydrateTemplateParams("weeklyOpenMicsDigest", json);
+    expect(params.byDate).toBeInstanceOf(Map);
+    expect(params.byDate.get("2026-06-01")).toHaveLength(1);
+  });
+
+  it("rejects params that aren't an object", () => {
+    expect(() => hydrateTemplateParams("hostApproval", null)).toThrow("JSON object");
+    expect(() => hydrateTemplateParams("hostApproval", ["Jordan"])).toThrow("JSON object");
+    expect(() => hydrateTemplateParams("weeklyHappeningsDigest", { byDate: [] })).toThrow("byDate");
+  });
+
+  it("only accepts registry keys", () => {
+    expect(isEmailTemplateKey("eventReminder")).toBe(true);
+    expect(isEmailTemplateKey("toString")).toBe(false);
+    expect(isEmailTemplateKey(undefined)).toBe(false);
+  });
+});
+
+describe("checkEmailOutput", () => {
+  it("flags HTML over the Gmail clipping limit", () => {
+    const html = `<html>${"x".repeat(TEMPLATE_CHECK_LIMITS.GMAIL_CLIP_BYTES + 1)}</html>`;
+    expect(checkEmailOutput(output(html)).map((i) => i.code)).toEqual(["html_oversized"]);
+  });
+
+  it("warns when HTML is close to the limit", () => {
+    const html = "x".repeat(Math.ceil(TEMPLATE_CHECK_LIMITS.GMAIL_CLIP_BYTES * 0.9));
+    const [issue] = checkEmailOutput(output(html));
+    expect(issue).toMatchObject({ code: "html_near_limit", severity: "warning" });
+  });
+
+  it("counts bytes, not characters", () => {
+    const html = "é".repeat(Math.ceil(TEMPLATE_CHECK_LIMITS.GMAIL_CLIP_BYTES / 2) + 1);
+    expect(checkEmailOutput(output(html))[0].code).toBe("html_oversized");
+  });
+
+  it("flags missing and empty alt text", () => {
+    const html =
+      '<img src="https://example.com/images/cover.png?v=2"><img src="/spacer.gif" alt=""><img src="/logo.png" alt="Logo">';
+    const issues = checkEmailOutput(output(html));
+    expect(issues).toEqual([
+      expect.objectContaining({ code: "img_missing_alt", severity: "error", message: expect.stringContaining("cover.png") }),
+      expect.objectContaining({ code: "img_empty_alt", severity: "warning" }),
+    ]);
+  });
+
+  it("flags an empty plain-text version", () => {
+    expect(checkEmailOutput(output("<p>Hi</p>", "  \n")).map((i) => i.code)).toEqual(["text_empty"]);
+  });
+});
+
+describe("template gallery route contracts", () => {
+  it("test send goes to the signed-in admin, never a request address", () => {
+    const source = fs.readFileSync(TEST_SEND_ROUTE_PATH, "utf-8");
+    expect(source).toContain("to: user.email");
+    expect(source).not.toMatch(/body\.(to|email)/);
+    expect(source).toContain("deliverEmail(");
+  });
+
+  it.each([PREVIEW_ROUTE_PATH, TEST_SEND_ROUTE_PATH])("checks admin role before rendering (%s)", (routePath) => {
+    const source = fs.readFileSync(routePath, "utf-8");
+    const adminIdx = source.indexOf("checkAdminRole(supabase, user.id)");
+    const renderIdx = source.indexOf("renderTemplateFromJson(body.templateKey");
+    expect(adminIdx).toBeGreaterThan(-1);
+    expect(renderIdx).toBeGreaterThan(adminIdx);
+  });
+});
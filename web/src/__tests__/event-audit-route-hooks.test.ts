@@ -255,17 +255,17 @@ describe("event_audit_log migration", () => {
   });
 });
 
-// ─── 6) Anti-creep — PR A boundaries ────────────────────────────────────────
-describe("PR A — anti-creep", () => {
-  it("does NOT introduce admin UI, email behavior, suspicion scorer, or public surface code in this PR", () => {
-    // No PR B/C symbols should be referenced from PR A files.
-    expect(helperSource).not.toMatch(/\bauditSuspicion\b/);
-    expect(helperSource).not.toMatch(/sendAdminEventAlert/);
-    expect(helperSource).not.toMatch(/cron/i);
-    // Routes should not gain any new admin/email/scorer wiring around
-    // the audit hook.
+// ─── 6) Boundaries — scoring stays inside the helper ────────────────────────
+describe("PR A/B — boundaries", () => {
+  it("scores and alerts inside the helper, never in the route hooks", () => {
+    // PR B wires the scorer + admin alert into logEventAudit itself so
+    // every route gets it through the one fire-and-forget call.
+    expect(helperSource).toContain('from "@/lib/events/auditSuspicion"');
+    expect(helperSource).toContain("sendEventAuditSuspicionAlert");
+    expect(helperSource).not.toMatch(/sendAdminEventAlert\(/);
     for (const src of [postRouteSource, eventIdRouteSource, overridesRouteSource]) {
       expect(src).not.toMatch(/auditSuspicion/);
+      expect(src).not.toMatch(/sendEventAuditSuspicionAlert/);
     }
   });
 
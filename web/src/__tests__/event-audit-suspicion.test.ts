@@ -0,0 +1,225 @@
+/**
+ * Lane 5 PR B/C — suspicion scorer, admin browser filters, retention.
+ *
+ * The scorer and filter helpers are pure; the retention cron and
+ * migration are covered by source contracts.
+ */
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  ALERT_SCORE_THRESHOLD,
+  scoreEventEdit,
+  touchesDateFields,
+  type ScoreEventEditInput,
+} from "../lib/events/auditSuspicion";
+import type { FieldChange } from "../lib/events/computePatchDiff";
+import {
+  buildEventAuditHref,
+  getEventAuditTimeRange,
+  parseEventAuditFilters,
+} from "../lib/audit/eventAuditBrowser";
+
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/event-audit-retention/route.ts");
+const VERCEL_CONFIG_PATH = path.resolve(__dirname, "../../vercel.json");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260512010000_event_audit_suspicion_and_retention.sql"
+);
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111";
+const ACTOR_ID = "22222222-2222-4222-8222-222222222222";
+const NOW = new Date("2026-06-10T18:00:00Z");
+
+function scalar(field: string, before: string | null, after: string | null): FieldChange {
+  return {
+    field,
+    kind: "scalar",
+    before,
+    after,
+    risk_tier: "high",
+    enforcement_mode: "enforced",
+    scope: "both",
+  } as FieldChange;
+}
+
+function baseInput(overrides: Partial<ScoreEventEditInput> = {}): ScoreEventEditInput {
+  return {
+    eventId: EVENT_ID,
+    action: "update",
+    actorRole: "host",
+    userAgentClass: "browser",
+    changedFields: [],
+    eventIsPublished: true,
+    actorCreatedAt: "2025-01-01T00:00:00Z",
+    recentActorWrites: [],
+    now: NOW,
+    ...overrides,
+  };
+}
+
+describe("scoreEventEdit", () => {
+  it("scores an ordinary host edit at zero", () => {
+    const result = scoreEventEdit(baseInput({ changedFields: [scalar("title", "Old", "New")] }));
+    expect(result).toEqual({ score: 0, signals: [], shouldAlertImmediately: false });
+  });
+
+  it("flags a venue swap on a published event but not on a draft", () => {
+    const changedFields = [scalar("venue_id", "venue-a", "venue-b")];
+    const published = scoreEventEdit(baseInput({ changedFields }));
+    expect(published.signals).toEqual(["venue_swap_published"]);
+    expect(published.shouldAlertImmediately).toBe(true);
+
+    const draft = scoreEventEdit(baseInput({ changedFields, eventIsPublished: false }));
+    expect(draft.signals).toEqual([]);
+  });
+
+  it("does not treat setting a first venue as a swap", () => {
+    const result = scoreEventEdit(baseInput({ changedFields: [scalar("venue_id", null, "venue-b")] }));
+    expect(result.signals).toEqual([]);
+  });
+
+  it("flags edits to published events by accounts younger than 7 days", () => {
+    const changedFields = [scalar("title", "Old", "New")];
+    const fresh = scoreEventEdit(baseInput({ changedFields, actorCreatedAt: "2026-06-08T18:00:00Z" }));
+    expect(fresh.signals).toEqual(["new_account_published_edit"]);
+    expect(fresh.shouldAlertImmediately).toBe(true);
+
+    const creating = scoreEventEdit(baseInput({ action: "create", actorCreatedAt: "2026-06-08T18:00:00Z" }));
+    expect(creating.signals).toEqual([]);
+  });
+
+  it("flags cancellations by co-hosts but not by the owner", () => {
+    expect(scoreEventEdit(baseInput({ action: "cancel", actorRole: "cohost" })).signals).toEqual([
+      "cohost_cancellation",
+    ]);
+    expect(
+      scoreEventEdit(baseInput({ actorRole: "cohost", changedFields: [scalar("status", "active", "cancelled")] }))
+        .signals
+    ).toEqual(["cohost_cancellation"]);
+    expect(scoreEventEdit(baseInput({ action: "cancel", actorRole: "host" })).signals).toEqual([]);
+  });
+
+  it("flags date changes across three events by one actor within the hour", () => {
+    const dateChange = [scalar("event_date", "2026-06-12", "2026-06-13")];
+    const recentActorWrites = [
+      { event_id_at_observation: "evt-2", changed_fields: dateChange, created_at: "2026-06-10T17:30:00Z" },
+      { event_id_at_observation: "evt-3", changed_fields: dateChange, created_at: "2026-06-10T17:10:00Z" },
+    ];
+    const result = scoreEventEdit(baseInput({ changedFields: dateChange, recentActorWrites }));
+    expect(result.signals).toEqual(["mass_date_change"]);
+
+    const stale = recentActorWrites.map((w, i) =>
+      i === 1 ? { ...w, created_at: "2026-06-10T16:30:00Z" } : w
+    );
+    expect(scoreEventEdit(baseInput({ changedFields: dateChange, recentActorWrites: stale })).signals).toEqual([]);
+  });
+
+  it("flags dropping many custom dates from one series in a single write", () => {
+    const change = {
+      field: "custom_dates",
+      kind: "array",
+      before: ["a", "b", "c", "d", "e"],
+      after: [],
+      added: [],
+      removed: ["a", "b", "c", "d", "e"],
+      risk_tier: "high",
+      enforcement_mode: "enforced",
+      scope: "series",
+    } as FieldChange;
+    expect(scoreEventEdit(baseInput({ changedFields: [change] })).signals).toEqual(["mass_date_change"]);
+  });
+
+  it("never alerts on a scripted client alone and caps the score at 100", () => {
+    const bot = scoreEventEdit(baseInput({ userAgentClass: "bot" }));
+    expect(bot.signals).toEqual(["bot_user_agent"]);
+    expect(bot.score).toBeLessThan(ALERT_SCORE_THRESHOLD);
+
+    const stacked = scoreEventEdit(
+      baseInput({
+        action: "cancel",
+        actorRole: "cohost",
+        userAgentClass: "bot",
+        actorCreatedAt: "2026-06-09T00:00:00Z",
+        changedFields: [scalar("venue_id", "venue-a", "venue-b")],
+      })
+    );
+    expect(stacked.score).toBe(100);
+  });
+
+  it("never scores admin writes", () => {
+    const result = scoreEventEdit(
+      baseInput({ actorRole: "admin", changedFields: [scalar("venue_id", "venue-a", "venue-b")] })
+    );
+    expect(result).toEqual({ score: 0, signals: [], shouldAlertImmediately: false });
+  });
+
+  it("reads date fields out of stored jsonb payloads", () => {
+    expect(touchesDateFields([{ field: "recurrence_rule" }])).toBe(true);
+    expect(touchesDateFields([{ field: "title" }])).toBe(false);
+    expect(touchesDateFields(null)).toBe(false);
+  });
+});
+
+describe("event audit browser filters", () => {
+  it("keeps valid filters and drops malformed ones", () => {
+    const filters = parseEventAuditFilters({
+      event_id: EVENT_ID,
+      actor_id: "not-a-uuid",
+      field: "venue_id",
+      from: "2026-06-01",
+      to: "June 5",
+      flagged: "1",
+      page: "3",
+    });
+    expect(filters).toEqual({
+      eventId: EVENT_ID,
+      actorId: null,
+      field: "venue_id",
+      from: "2026-06-01",
+      to: null,
+      flaggedOnly: true,
+      page: 3,
+    });
+    expect(parseEventAuditFilters({ field: "drop table", page: "-2" })).toMatchObject({ field: null, page: 1 });
+  });
+
+  it("maps Denver date keys to an inclusive created_at range", () => {
+    const range = getEventAuditTimeRange({ from: "2026-06-01", to: "2026-06-05" });
+    expect(range.gte).toBe("2026-06-01T06:00:00.000Z");
+    expect(range.lt).toBe("2026-06-06T06:00:00.000Z");
+  });
+
+  it("round-trips filters through the href and omits defaults", () => {
+    const filters = parseEventAuditFilters({ event_id: EVENT_ID, actor_id: ACTOR_ID });
+    expect(buildEventAuditHref(filters, { page: 2 })).toBe(
+      `/dashboard/admin/event-audit?event_id=${EVENT_ID}&actor_id=${ACTOR_ID}&page=2`
+    );
+    expect(buildEventAuditHref(parseEventAuditFilters({}))).toBe("/dashboard/admin/event-audit");
+  });
+});
+
+describe("event audit retention", () => {
+  it("checks CRON_SECRET before creating the service-role client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    expect(source.indexOf("Bearer ${cronSecret}")).toBeLessThan(source.indexOf("createServiceRoleClient()"));
+    expect(source).toContain('rpc("cleanup_event_audit_log")');
+  });
+
+  it("is scheduled daily", () => {
+    const vercel = JSON.parse(fs.readFileSync(VERCEL_CONFIG_PATH, "utf-8"));
+    const paths = vercel.crons.map((c: { path: string }) => c.path);
+    expect(paths).toContain("/api/cron/event-audit-retention");
+  });
+
+  it("purges by actor_role only and is callable by the service role only", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toMatch(/actor_role IN \('service', 'import'\) AND created_at < NOW\(\) - INTERVAL '365 days'/);
+    expect(sql).toMatch(/actor_role IN \('anon', 'unknown'\) AND created_at < NOW\(\) - INTERVAL '90 days'/);
+    expect(sql).not.toMatch(/actor_role IN \([^)]*'host'/);
+    expect(sql).toContain(
+      "REVOKE EXECUTE ON FUNCTION public.cleanup_event_audit_log() FROM anon, authenticated, public;"
+    );
+    expect(sql).toContain("GRANT EXECUTE ON FUNCTION public.cleanup_event_audit_log() TO service_role;");
+  });
+});
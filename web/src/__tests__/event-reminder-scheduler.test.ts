@@ -0,0 +1,350 @@
+/**
+ * Event reminder scheduler
+ *
+ * Timing/recipient rules (eventReminders.ts), the cron sweep against a fake
+ * service client (eventRemindersServer.ts), the host briefing template and
+ * the cron route contract.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+
+const sendEmailMock = vi.fn(async () => true);
+const sendWithPreferencesMock = vi.fn<(opts: { userId: string; templateKey: string }) => Promise<{
+  notificationCreated: boolean;
+  emailSent: boolean;
+}>>(async () => ({ notificationCreated: true, emailSent: true }));
+
+vi.mock("@/lib/email/mailer", () => ({
+  sendEmail: (...args: unknown[]) => sendEmailMock(...(args as [])),
+}));
+vi.mock("@/lib/email/sendWithPreferences", () => ({
+  sendEmailWithPreferences: (opts: { userId: string; templateKey: string }) => sendWithPreferencesMock(opts),
+}));
+
+import {
+  buildReminderRecipients,
+  getReminderTiming,
+  isReminderDue,
+  resolveReminderOccurrence,
+  validateReminderHours,
+} from "@/lib/events/eventReminders";
+import { runDueEventReminders } from "@/lib/events/eventRemindersServer";
+import { getHostEventBriefingEmail } from "@/lib/email/templates/hostEventBriefing";
+import { getTodayDenver, addDaysDenver } from "@/lib/events/nextOccurrence";
+import { denverWallTimeToDate } from "@/lib/events/lottery";
+
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/event-reminders/route.ts");
+const VERCEL_CONFIG_PATH = path.resolve(__dirname, "../../vercel.json");
+
+describe("resolveReminderOccurrence", () => {
+  const event = { start_time: "19:00:00" };
+
+  it("uses the series start time in Denver", () => {
+    const occ = resolveReminderOccurrence(event, "2026-03-03", null)!;
+    expect(occ.startsAt.toISOString()).toBe("2026-03-04T02:00:00.000Z");
+    expect(occ.occurrenceDate).toBe("2026-03-03");
+  });
+
+  it("skips cancelled occurrences and events without a start time", () => {
+    expect(
+      resolveReminderOccurrence(event, "2026-03-03", { event_id: "e", date_key: "2026-03-03", status: "cancelled" })
+    ).toBeNull();
+    expect(resolveReminderOccurrence({ start_time: null }, "2026-03-03", null)).toBeNull();
+  });
+
+  it("applies time overrides and reschedules", () => {
+    const legacy = resolveReminderOccurrence(event, "2026-03-03", {
+      event_id: "e",
+      date_key: "2026-03-03",
+      status: "normal",
+      override_start_time: "18:00:00",
+    })!;
+    expect(legacy.startTime).toBe("18:00:00");
+
+    const moved = resolveReminderOccurrence(event, "2026-03-03", {
+      event_id: "e",
+      date_key: "2026-03-03",
+      status: "normal",
+      override_patch: { event_date: "2026-03-05", start_time: "20:30:00" },
+    })!;
+    expect(moved.dateKey).toBe("2026-03-03");
+    expect(moved.occurrenceDate).toBe("2026-03-05");
+    expect(moved.startsAt.toISOString()).toBe("2026-03-06T03:30:00.000Z");
+  });
+
+  it("skips occurrences unpublished via override_patch", () => {
+    expect(
+      resolveReminderOccurrence(event, "2026-03-03", {
+        event_id: "e",
+        date_key: "2026-03-03",
+        status: "normal",
+        override_patch: { is_published: false },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("isReminderDue / getReminderTiming", () => {
+  const startsAt = new Date("2026-03-04T02:00:00Z"); // 7pm Denver on 03-03
+
+  it("opens hoursBefore ahead and closes at the start", () => {
+    expect(isReminderDue(startsAt, 24, new Date("2026-03-03T01:59:00Z"))).toBe(false);
+    expect(isReminderDue(startsAt, 24, new Date("2026-03-03T02:00:00Z"))).toBe(true);
+    expect(isReminderDue(startsAt, 3, new Date("2026-03-04T01:59:00Z"))).toBe(true);
+    expect(isReminderDue(startsAt, 3, new Date("2026-03-04T02:00:00Z"))).toBe(false);
+  });
+
+  it("words the reminder by Denver day and start hour", () => {
+    const evening = resolveReminderOccurrence({ start_time: "19:00" }, "2026-03-03", null)!;
+    const morning = resolveReminderOccurrence({ start_time: "10:00" }, "2026-03-03", null)!;
+    expect(getReminderTiming(evening, new Date("2026-03-03T20:00:00Z"))).toBe("tonight");
+    expect(getReminderTiming(morning, new Date("2026-03-03T14:00:00Z"))).toBe("today");
+    // 8pm Denver the night before
+    expect(getReminderTiming(evening, new Date("2026-03-03T03:00:00Z"))).toBe("tomorrow");
+  });
+});
+
+describe("validateReminderHours", () => {
+  it("accepts 1-24 whole hours or null", () => {
+    expect(validateReminderHours(null)).toEqual({ hours: null });
+    expect(validateReminderHours(4)).toEqual({ hours: 4 });
+    expect(validateReminderHours(0)).toHaveProperty("error");
+    expect(validateReminderHours(25)).toHaveProperty("error");
+    expect(validateReminderHours(2.5)).toHaveProperty("error");
+    expect(validateReminderHours("24")).toHaveProperty("error");
+  });
+});
+
+describe("buildReminderRecipients", () => {
+  it("dedupes members who RSVP'd and claimed, keeping the slot number", () => {
+    const recipients = buildReminderRecipients(
+      [
+        { user_id: "u1", guest_name: null, guest_email: null, guest_verified: null },
+        { user_id: "u2", guest_name: null, guest_email: null, guest_verified: null },
+      ],
+      [{ member_id: "u1", guest_name: null, guest_email: null, guest_verified: null, slot_index: 2 }]
+    );
+    expect(recipients).toEqual([
+      { key: "user:u1", userId: "u1", guestEmail: null, guestName: null, slotNumber: 3 },
+      { key: "user:u2", userId: "u2", guestEmail: null, guestName: null, slotNumber: undefined },
+    ]);
+  });
+
+  it("only reminds guests at a verified email, case-insensitively deduped", () => {
+    const recipients = buildReminderRecipients(
+      [
+        { user_id: null, guest_name: "Ann", guest_email: "Ann@Example.com", guest_verified: true },
+        { user_id: null, guest_name: "Bo", guest_email: "bo@example.com", guest_verified: false },
+      ],
+      [{ member_id: null, guest_name: "Ann", guest_email: "ann@example.com", guest_verified: true, slot_index: 0 }]
+    );
+    expect(recipients.map((r) => [r.key, r.slotNumber])).toEqual([["guest:ann@example.com", 1]]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cron sweep against a fake service client
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Row = Record<string, unknown>;
+
+function fieldValue(row: Row, column: string): unknown {
+  const [head, tail] = column.split(".");
+  if (!tail) return row[head];
+  return (row[head] as Row | undefined)?.[tail];
+}
+
+function createFakeClient(tables: Record<string, Row[]>) {
+  const sends = new Set<string>();
+
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => fieldValue(row, column) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(fieldValue(row, column)));
+        return builder;
+      },
+      gte: (column: string, value: string) => {
+        filters.push((row) => String(fieldValue(row, column)) >= value);
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => String(fieldValue(row, column)) <= value);
+        return builder;
+      },
+      not: (column: string) => {
+        filters.push((row) => fieldValue(row, column) !== null);
+        return builder;
+      },
+      insert: async (row: Row) => {
+        const key = [row.event_id, row.date_key, row.reminder_type, row.recipient_key].join("|");
+        if (sends.has(key)) return { error: { code: "23505", message: "duplicate" } };
+        sends.add(key);
+        return { error: null };
+      },
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) =>
+        resolve({ data: (tables[table] || []).filter((row) => filters.every((f) => f(row))), error: null }),
+    };
+    return builder;
+  };
+
+  return { client: { from } as never, sends };
+}
+
+describe("runDueEventReminders", () => {
+  const today = getTodayDenver();
+  const tomorrow = addDaysDenver(today, 1);
+
+  const baseEvent = {
+    title: "Tuesday Songwriter Night",
+    slug: "tuesday-night",
+    host_id: "host-1",
+    start_time: "19:00:00",
+    day_of_week: null,
+    recurrence_rule: null,
+    custom_dates: null,
+    max_occurrences: null,
+    reminder_hours_before: 24,
+    venue_name: "The Walnut Room",
+    venue_address: "3131 Walnut St",
+    is_published: true,
+    status: "active",
+  };
+
+  function fixtures(overrides: Partial<Record<string, Row[]>> = {}) {
+    return {
+      events: [{ ...baseEvent, id: "ev-1", event_date: tomorrow }],
+      occurrence_overrides: [],
+      event_rsvps: [
+        { event_id: "ev-1", date_key: tomorrow, status: "confirmed", user_id: "u1", guest_name: null, guest_email: null, guest_verified: null },
+        { event_id: "ev-1", date_key: tomorrow, status: "confirmed", user_id: null, guest_name: "Gus", guest_email: "gus@example.com", guest_verified: true },
+      ],
+      timeslot_claims: [
+        {
+          timeslot_id: "slot-1",
+          status: "confirmed",
+          member_id: "u1",
+          guest_name: null,
+          guest_email: null,
+          guest_verified: null,
+          waitlist_position: null,
+          event_timeslots: { event_id: "ev-1", date_key: tomorrow, slot_index: 0 },
+        },
+      ],
+      event_timeslots: [{ id: "slot-1", event_id: "ev-1", date_key: tomorrow, slot_index: 0, start_offset_minutes: 0 }],
+      event_hosts: [],
+      profiles: [
+        { id: "u1", email: "u1@example.com", full_name: "Uma" },
+        { id: "host-1", email: "host@example.com", full_name: "Hal" },
+      ],
+      ...overrides,
+    } as Record<string, Row[]>;
+  }
+
+  beforeEach(() => {
+    sendEmailMock.mockClear();
+    sendWithPreferencesMock.mockClear();
+  });
+
+  it("reminds each attendee once per occurrence across overlapping runs", async () => {
+    const { client, sends } = createFakeClient(fixtures());
+    const now = new Date(denverWallTimeToDate(tomorrow, "19:00").getTime() - 20 * 60 * 60 * 1000);
+
+    const first = await runDueEventReminders(client, now);
+    expect(first.remindersSent).toBe(2);
+    expect(first.briefingsSent).toBe(0);
+    expect(sendWithPreferencesMock).toHaveBeenCalledTimes(1);
+    expect(sendWithPreferencesMock.mock.calls[0][0]).toMatchObject({ userId: "u1", templateKey: "eventReminder" });
+    expect(sendEmailMock).toHaveBeenCalledTimes(1);
+    expect([...sends].sort()).toEqual([
+      `ev-1|${tomorrow}|attendee|guest:gus@example.com`,
+      `ev-1|${tomorrow}|attendee|user:u1`,
+    ]);
+
+    const second = await runDueEventReminders(client, new Date(now.getTime() + 15 * 60 * 1000));
+    expect(second.remindersSent).toBe(0);
+    expect(sendWithPreferencesMock).toHaveBeenCalledTimes(1);
+    expect(sendEmailMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends the host briefing inside its window through host preferences", async () => {
+    const { client } = createFakeClient(fixtures());
+    const now = new Date(denverWallTimeToDate(tomorrow, "19:00").getTime() - 2 * 60 * 60 * 1000);
+
+    const result = await runDueEventReminders(client, now);
+    expect(result.briefingsSent).toBe(1);
+    expect(sendWithPreferencesMock.mock.calls.map((c) => [c[0].userId, c[0].templateKey])).toContainEqual([
+      "host-1",
+      "hostEventBriefing",
+    ]);
+  });
+
+  it("skips cancelled occurrences and events with reminders turned off", async () => {
+    const now = new Date(denverWallTimeToDate(tomorrow, "19:00").getTime() - 20 * 60 * 60 * 1000);
+
+    const cancelled = createFakeClient(
+      fixtures({ occurrence_overrides: [{ event_id: "ev-1", date_key: tomorrow, status: "cancelled" }] })
+    );
+    expect(await runDueEventReminders(cancelled.client, now)).toEqual({ occurrences: 0, remindersSent: 0, briefingsSent: 0 });
+
+    const off = createFakeClient(
+      fixtures({ events: [{ ...baseEvent, id: "ev-1", event_date: tomorrow, reminder_hours_before: null }] })
+    );
+    expect((await runDueEventReminders(off.client, now)).remindersSent).toBe(0);
+    expect(sendEmailMock).not.toHaveBeenCalled();
+    expect(sendWithPreferencesMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("getHostEventBriefingEmail", () => {
+  it("lists the lineup and waitlist with guest contact status", () => {
+    const email = getHostEventBriefingEmail({
+      recipientName: "Hal",
+      eventTitle: "Open <Mic>",
+      eventDate: "Tuesday, March 3, 2026",
+      eventTime: "7:00 PM",
+      venueName: "The Walnut Room",
+      eventUrl: "https://example.com/events/open-mic?date=2026-03-03",
+      manageUrl: "https://example.com/dashboard/my-events/ev-1",
+      timing: "tonight",
+      lineup: [
+        { slotNumber: 1, slotTime: "7:00 PM", performerName: "Uma", isGuest: false },
+        { slotNumber: 2, slotTime: "7:10 PM", performerName: "Gus", isGuest: true, guestContactVerified: false },
+      ],
+      openSlots: 3,
+      waitlist: [{ position: 1, name: "Wren", isGuest: true, guestContactVerified: true }],
+      rsvpCount: 12,
+      rsvpWaitlistCount: 0,
+    });
+
+    expect(email.subject).toContain("Tonight's briefing: Open <Mic>");
+    expect(email.html).toContain("Open &lt;Mic&gt;");
+    expect(email.html).not.toContain("Open <Mic>");
+    expect(email.text).toContain("12 RSVPs · 2 performers signed up · 3 open slots");
+    expect(email.text).toContain("#2 7:10 PM — Gus (guest · no verified email)");
+    expect(email.text).toContain("1. Wren (guest · email on file)");
+    expect(email.text).toContain("1 guest has no verified email");
+  });
+});
+
+describe("event-reminders cron route", () => {
+  it("checks CRON_SECRET before creating the service-role client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    const secretIndex = source.indexOf("authHeader !== `Bearer ${cronSecret}`");
+    const serviceIndex = source.indexOf("createServiceRoleClient()");
+    expect(secretIndex).toBeGreaterThan(-1);
+    expect(serviceIndex).toBeGreaterThan(secretIndex);
+  });
+
+  it("is scheduled every 15 minutes", () => {
+    const vercel = JSON.parse(fs.readFileSync(VERCEL_CONFIG_PATH, "utf-8"));
+    expect(vercel.crons).toContainEqual({ path: "/api/cron/event-reminders", schedule: "*/15 * * * *" });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Follows + activity feed
+ *
+ * Contract helpers, trigger/RLS coverage in the migration, the followed-going
+ * "For You" signal, digest activity collection and the digest section.
+ */
+import { describe, expect, it } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  followTargetHref,
+  isFollowTargetType,
+} from "@/lib/follows/followContract";
+import {
+  getFollowActivityForUsers,
+  getFollowedGoingCounts,
+} from "@/lib/follows/followsServer";
+import { getWeeklyHappeningsDigestEmail } from "@/lib/email/templates/weeklyHappeningsDigest";
+
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260509010000_follows_activity_feed.sql"
+);
+
+function createSupabaseMock(rows: Record<string, unknown[]>) {
+  const calls: Array<{ table: string; filters: Array<[string, string, unknown]> }> = [];
+  return {
+    calls,
+    client: {
+      from: (table: string) => {
+        const call = { table, filters: [] as Array<[string, string, unknown]> };
+        calls.push(call);
+        const result = { data: rows[table] ?? [], error: null };
+        const builder = {
+          select: () => builder,
+          order: () => builder,
+          in: (column: string, value: unknown) => {
+            call.filters.push(["in", column, value]);
+            return builder;
+          },
+          eq: (column: string, value: unknown) => {
+            call.filters.push(["eq", column, value]);
+            return builder;
+          },
+          gte: (column: string, value: unknown) => {
+            call.filters.push(["gte", column, value]);
+            return builder;
+          },
+          then: (resolve: (value: typeof result) => unknown) => resolve(result),
+        };
+        return builder;
+      },
+    } as any,
+  };
+}
+
+describe("followContract", () => {
+  it("validates target types", () => {
+    expect(isFollowTargetType("member")).toBe(true);
+    expect(isFollowTargetType("venue")).toBe(true);
+    expect(isFollowTargetType("organization")).toBe(true);
+    expect(isFollowTargetType("event")).toBe(false);
+    expect(isFollowTargetType(null)).toBe(false);
+  });
+
+  it("links to the public profile pages", () => {
+    expect(followTargetHref("member", "sam")).toBe("/songwriters/sam");
+    expect(followTargetHref("venue", "mercury-cafe")).toBe("/venues/mercury-cafe");
+    expect(followTargetHref("organization", "swallow-hill")).toBe(
+      "/friends-of-the-collective/swallow-hill"
+    );
+  });
+});
+
+describe("follows migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("acknowledges the policy change and enables RLS on both tables", () => {
+    expect(sql).toContain("-- REVIEWED: policy change acknowledged");
+    expect(sql).toContain("ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;");
+    expect(sql).toContain("ALTER TABLE public.follow_activity ENABLE ROW LEVEL SECURITY;");
+  });
+
+  it("only fans out to unmuted followers", () => {
+    const fanOut = sql.slice(sql.indexOf("CREATE OR REPLACE FUNCTION public.record_follow_activity"));
+    expect(fanOut).toContain("f.muted = false");
+    expect(fanOut).toContain("'follow_activity'");
+  });
+
+  it("records activity from every source table", () => {
+    for (const table of [
+      "timeslot_claims",
+      "events",
+      "gallery_albums",
+      "blog_posts",
+      "organization_content_links",
+    ]) {
+      expect(sql).toMatch(new RegExp(`ON public\\.${table}\\b`));
+    }
+  });
+});
+
+describe("getFollowedGoingCounts", () => {
+  it("counts distinct followed members per upcoming occurrence", async () => {
+    const { client } = createSupabaseMock({
+      follows: [
+        { follower_id: "u1", target_id: "m1" },
+        { follower_id: "u1", target_id: "m2" },
+        { follower_id: "u2", target_id: "m2" },
+      ],
+      event_rsvps: [
+        { user_id: "m1", event_id: "e1", date_key: "2026-03-05" },
+        { user_id: "m2", event_id: "e1", date_key: "2026-03-05" },
+        { user_id: "m1", event_id: "e2", date_key: "2026-02-01" },
+      ],
+      timeslot_claims: [
+        // Same person with an RSVP and a slot counts once
+        { member_id: "m1", event_timeslots: { event_id: "e1", date_key: "2026-03-05" } },
+        { member_id: "m2", event_timeslots: { event_id: "e3", date_key: "2026-03-07" } },
+      ],
+    });
+
+    const counts = await getFollowedGoingCounts(client, ["u1", "u2", "u3"], {
+      todayKey: "2026-03-02",
+    });
+
+    expect(Object.fromEntries(counts.get("u1")!)).toEqual({
+      "e1:2026-03-05": 2,
+      "e3:2026-03-07": 1,
+    });
+    expect(Object.fromEntries(counts.get("u2")!)).toEqual({
+      "e1:2026-03-05": 1,
+      "e3:2026-03-07": 1,
+    });
+    expect(counts.has("u3")).toBe(false);
+  });
+});
+
+describe("getFollowActivityForUsers", () => {
+  it("reads unmuted follows only and maps activity to each follower", async () => {
+    const { client, calls } = createSupabaseMock({
+      follows: [
+        { follower_id: "u1", target_type: "member", target_id: "m1" },
+        { follower_id: "u2", target_type: "venue", target_id: "v1" },
+      ],
+      follow_activity: [
+        { actor_type: "member", actor_id: "m1", title: "Sam posted a blog post", link: "/blog/x", created_at: "2026-03-01T00:00:00Z" },
+        { actor_type: "venue", actor_id: "v1", title: "Mercury Cafe added a series", link: "/events/y", created_at: "2026-02-28T00:00:00Z" },
+        // Same id, different actor type: not followed by anyone
+        { actor_type: "organization", actor_id: "m1", title: "ignored", link: null, created_at: "2026-02-27T00:00:00Z" },
+      ],
+    });
+
+    const byUser = await getFollowActivityForUsers(client, ["u1", "u2"], {
+      since: "2026-02-22T00:00:00Z",
+    });
+
+    expect(calls[0].filters).toContainEqual(["eq", "muted", false]);
+    expect(byUser.get("u1")).toEqual([{ title: "Sam posted a blog post", link: "/blog/x" }]);
+    expect(byUser.get("u2")).toEqual([{ title: "Mercury Cafe added a series", link: "/events/y" }]);
+  });
+});
+
+describe("weekly digest From people you follow section", () => {
+  const baseParams = {
+    firstName: "Sam",
+    userId: "u1",
+    byDate: new Map(),
+    totalCount: 0,
+    venueCount: 0,
+  };
+
+  it("renders activity with absolute links", () => {
+    const email = getWeeklyHappeningsDigestEmail({
+      ...baseParams,
+      followActivity: [
+        { title: "Alex signed up to play Open Mic <Night>", link: "/events/open-mic?date=2026-03-05" },
+        { title: "Mercury Cafe added a series", link: null },
+      ],
+    });
+
+    expect(email.html).toContain("FROM PEOPLE YOU FOLLOW");
+    expect(email.html).toContain("Open Mic &lt;Night&gt;");
+    expect(email.html).toContain("/events/open-mic?date=2026-03-05");
+    expect(email.text).toContain("• Mercury Cafe added a series");
+    expect(email.text).toMatch(/• Alex signed up to play Open Mic <Night> — https?:\/\/\S+\/events\/open-mic\?date=2026-03-05/);
+  });
+
+  it("omits the section without activity", () => {
+    const email = getWeeklyHappeningsDigestEmail(baseParams);
+    expect(email.html).not.toContain("FROM PEOPLE YOU FOLLOW");
+    expect(email.text).not.toContain("FROM PEOPLE YOU FOLLOW");
+  });
+});
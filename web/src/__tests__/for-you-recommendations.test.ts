@@ -0,0 +1,252 @@
+/**
+ * "For You" recommendations
+ *
+ * Scoring and reasons (recommendations.ts), batch signal loading
+ * (recommendationsServer.ts) and the digest "Picked for you" section.
+ */
+import { describe, expect, it } from "vitest";
+import {
+  emptyRecommendationSignals,
+  profileKeywords,
+  recommendOccurrences,
+  scoreRecommendation,
+  type RecommendationCandidate,
+  type RecommendationSignals,
+} from "@/lib/happenings/recommendations";
+import { loadRecommendationSignals } from "@/lib/happenings/recommendationsServer";
+import { getWeeklyHappeningsDigestEmail } from "@/lib/email/templates/weeklyHappeningsDigest";
+import type { HappeningOccurrence } from "@/lib/digest/weeklyHappenings";
+
+const TODAY = "2026-03-02"; // Monday
+
+function candidate(
+  id: string,
+  dateKey: string,
+  overrides: Partial<RecommendationCandidate["event"]> = {}
+): RecommendationCandidate {
+  return {
+    dateKey,
+    event: {
+      id,
+      title: `Event ${id}`,
+      event_type: ["open_mic"],
+      venue_id: `venue-${id}`,
+      venue: { id: `venue-${id}`, name: `Venue ${id}`, city: "Denver" },
+      ...overrides,
+    },
+  };
+}
+
+function signals(overrides: Partial<RecommendationSignals> = {}): RecommendationSignals {
+  return { ...emptyRecommendationSignals(), ...overrides };
+}
+
+describe("scoreRecommendation", () => {
+  it("explains performance history at the venue", () => {
+    const result = scoreRecommendation(
+      candidate("a", "2026-03-10"),
+      signals({ performedVenueCounts: new Map([["venue-a", 3]]) }),
+      { todayKey: TODAY }
+    );
+    expect(result.reasons.map((r) => r.label)).toEqual(["You've played here 3 times"]);
+    expect(result.score).toBeGreaterThan(0);
+  });
+
+  it("matches saved day filters by the occurrence weekday", () => {
+    const result = scoreRecommendation(
+      candidate("a", "2026-03-03"),
+      signals({ savedFilters: { days: ["tue"], type: "open_mic" } }),
+      { todayKey: TODAY }
+    );
+    expect(result.reasons.map((r) => r.label)).toEqual([
+      "Matches your Tuesday filter",
+      "Matches your Open Mics filter",
+    ]);
+  });
+
+  it("counts followed members going to the occurrence", () => {
+    const result = scoreRecommendation(
+      candidate("a", "2026-03-05"),
+      signals({ followedGoingCounts: new Map([["a:2026-03-05", 2]]) }),
+      { todayKey: TODAY }
+    );
+    expect(result.reasons[0].label).toBe("2 people you follow are going");
+  });
+
+  it("maps profile genres and instruments to event types and text", () => {
+    const blues = scoreRecommendation(
+      candidate("a", "2026-03-05", { event_type: ["blues", "jam_session"] }),
+      signals({ genres: ["Blues"] }),
+      { todayKey: TODAY }
+    );
+    expect(blues.reasons.map((r) => r.kind)).toEqual(["genre"]);
+
+    const poetry = scoreRecommendation(
+      candidate("b", "2026-03-05", { event_type: ["poetry"] }),
+      signals({ instruments: ["Poet / Spoken Word"] }),
+      { todayKey: TODAY }
+    );
+    expect(poetry.reasons.map((r) => r.kind)).toEqual(["instrument"]);
+
+    const banjo = scoreRecommendation(
+      candidate("c", "2026-03-05", { description: "Bring your banjo!" }),
+      signals({ instruments: ["Banjo"] }),
+      { todayKey: TODAY }
+    );
+    expect(banjo.reasons[0].label).toBe("Good fit for banjo");
+  });
+
+  it("returns no score without a personal reason", () => {
+    const result = scoreRecommendation(candidate("a", TODAY), signals(), { todayKey: TODAY });
+    expect(result).toEqual({ score: 0, reasons: [] });
+  });
+});
+
+describe("recommendOccurrences", () => {
+  it("ranks by score, keeps one occurrence per event and skips occurrences already joined", () => {
+    const picks = recommendOccurrences(
+      [
+        candidate("fav", "2026-03-04"),
+        candidate("fav", "2026-03-11"),
+        candidate("city", "2026-03-03"),
+        candidate("going", "2026-03-05"),
+        candidate("none", "2026-03-05", { venue: { city: "Boulder" } }),
+        candidate("past", "2026-03-01"),
+      ],
+      signals({
+        favoriteEventIds: new Set(["fav", "going", "past"]),
+        goingOccurrenceKeys: new Set(["going:2026-03-05"]),
+        city: "Denver, CO",
+      }),
+      { todayKey: TODAY }
+    );
+
+    expect(picks.map((p) => [p.candidate.event.id, p.candidate.dateKey])).toEqual([
+      ["fav", "2026-03-04"],
+      ["city", "2026-03-03"],
+    ]);
+    expect(picks[0].reasons.map((r) => r.label)).toEqual(["In your favorites", "In Denver"]);
+  });
+
+  it("respects the limit", () => {
+    const candidates = ["a", "b", "c"].map((id) => candidate(id, "2026-03-10"));
+    const picks = recommendOccurrences(
+      candidates,
+      signals({ watchedEventIds: new Set(["a", "b", "c"]) }),
+      { todayKey: TODAY, limit: 2 }
+    );
+    expect(picks).toHaveLength(2);
+  });
+});
+
+describe("profileKeywords", () => {
+  it("splits slash-separated options", () => {
+    expect(profileKeywords(["Vocals / Singing", "R&B / Soul", "DJ"])).toEqual([
+      "vocals",
+      "singing",
+      "r&b",
+      "soul",
+    ]);
+  });
+});
+
+describe("loadRecommendationSignals", () => {
+  function createSupabaseMock(rows: Record<string, unknown[]>) {
+    return {
+      from: (table: string) => {
+        const result = { data: rows[table] ?? [], error: null };
+        const builder = {
+          select: () => builder,
+          in: () => builder,
+          eq: () => builder,
+          then: (resolve: (value: typeof result) => unknown) => resolve(result),
+        };
+        return builder;
+      },
+    } as any;
+  }
+
+  it("splits RSVPs and claims into history and upcoming occurrences", async () => {
+    const supabase = createSupabaseMock({
+      favorites: [{ user_id: "u1", event_id: "e-fav" }],
+      event_watchers: [{ user_id: "u2", event_id: "e-watch" }],
+      event_rsvps: [
+        { user_id: "u1", event_id: "e1", date_key: "2026-02-01", status: "confirmed", event: { venue_id: "v1" } },
+        { user_id: "u1", event_id: "e1", date_key: "2026-02-08", status: "waitlist", event: { venue_id: "v1" } },
+        { user_id: "u1", event_id: "e2", date_key: "2026-03-05", status: "confirmed", event: { venue_id: "v2" } },
+      ],
+      timeslot_claims: [
+        { member_id: "u1", status: "performed", event_timeslots: { event_id: "e3", date_key: "2026-01-10", event: { venue_id: "v3" } } },
+        { member_id: "u1", status: "confirmed", event_timeslots: { event_id: "e3", date_key: "2026-02-10", event: { venue_id: "v3" } } },
+        { member_id: "u1", status: "confirmed", event_timeslots: { event_id: "e3", date_key: "2026-03-10", event: { venue_id: "v3" } } },
+      ],
+      profiles: [{ id: "u1", genres: ["Folk"], instruments: null, city: "Denver" }],
+      happenings_saved_filters: [{ user_id: "u1", auto_apply: true, filters: { days: ["tue"], csc: true } }],
+    });
+
+    const byUser = await loadRecommendationSignals(supabase, ["u1", "u2"], { todayKey: TODAY });
+    const u1 = byUser.get("u1")!;
+
+    expect([...u1.favoriteEventIds]).toEqual(["e-fav"]);
+    expect(u1.attendedEventCounts.get("e1")).toBe(1);
+    expect(u1.attendedVenueCounts.get("v1")).toBe(1);
+    expect(u1.performedEventCounts.get("e3")).toBe(2);
+    expect(u1.performedVenueCounts.get("v3")).toBe(2);
+    expect([...u1.goingOccurrenceKeys].sort()).toEqual(["e2:2026-03-05", "e3:2026-03-10"]);
+    expect(u1.genres).toEqual(["Folk"]);
+    expect(u1.instruments).toEqual([]);
+    expect(u1.savedFilters).toEqual({ days: ["tue"] });
+
+    const u2 = byUser.get("u2")!;
+    expect([...u2.watchedEventIds]).toEqual(["e-watch"]);
+    expect(u2.savedFilters).toBeNull();
+  });
+});
+
+describe("weekly digest Picked for you section", () => {
+  const occurrence: HappeningOccurrence = {
+    dateKey: "2026-03-03",
+    displayDate: "TUESDAY, MARCH 3",
+    event: {
+      id: "e1",
+      title: "Tuesday Songwriter Night",
+      slug: "tuesday-songwriter-night",
+      event_type: ["open_mic"],
+      start_time: "19:00:00",
+      event_date: null,
+      day_of_week: "Tuesday",
+      recurrence_rule: "weekly",
+      custom_dates: null,
+      max_occurrences: null,
+      is_free: true,
+      cost_label: null,
+      venue: { id: "v1", name: "Mercury Cafe", city: "Denver", state: "CO" },
+    },
+  };
+
+  const baseParams = {
+    firstName: "Sam",
+    userId: "u1",
+    byDate: new Map([["2026-03-03", [occurrence]]]),
+    totalCount: 1,
+    venueCount: 1,
+  };
+
+  it("renders picks with their reasons in html and text", () => {
+    const email = getWeeklyHappeningsDigestEmail({
+      ...baseParams,
+      forYou: [{ occurrence, reasons: ["You've played here 3 times", "Matches your Tuesday filter"] }],
+    });
+
+    expect(email.html).toContain("PICKED FOR YOU");
+    expect(email.html).toContain("You&#039;ve played here 3 times · Matches your Tuesday filter");
+    expect(email.text).toContain("✨ PICKED FOR YOU");
+    expect(email.text).toContain("Why: You've played here 3 times · Matches your Tuesday filter");
+  });
+
+  it("omits the section without picks", () => {
+    const email = getWeeklyHappeningsDigestEmail(baseParams);
+    expect(email.html).not.toContain("PICKED FOR YOU");
+    expect(email.text).not.toContain("PICKED FOR YOU");
+  });
+});
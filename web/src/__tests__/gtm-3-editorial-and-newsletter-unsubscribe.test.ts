@@ -546,9 +546,9 @@ describe("Part B: Editorial Layer", () => {
     });
 
     it("subject should use editorial subjectOverride when present", () => {
-      expect(templateSource).toContain(
-        'editorial?.subjectOverride || "Songwriter Happenings This Week in Colorado"'
-      );
+      expect(templateSource).toContain("editorial?.subjectOverride || copy.subject");
+      expect(templateSource).toContain("subject: (place) => `Songwriter Happenings This Week in ${place}`");
+      expect(templateSource).toContain('regionName = "Colorado"');
     });
 
     it("should have HTML helper for intro note", () => {
@@ -662,13 +662,22 @@ describe("Part B: Editorial Layer", () => {
   });
 
   describe("B5: Cron handler — editorial AFTER lock (Delta 1)", () => {
-    const cronSource = fs.readFileSync(
+    // The cron sends each due region through the shared editions module
+    const cronRouteSource = fs.readFileSync(
       path.join(
         SRC_DIR,
         "app/api/cron/weekly-happenings/route.ts"
       ),
       "utf-8"
     );
+    const cronSource = fs.readFileSync(
+      path.join(SRC_DIR, "lib/digest/happeningsEditions.ts"),
+      "utf-8"
+    );
+
+    it("cron route sends through sendRegionHappeningsEditions", () => {
+      expect(cronRouteSource).toContain("sendRegionHappeningsEditions(supabase, {");
+    });
 
     it("should import getEditorial and resolveEditorial", () => {
       expect(cronSource).toContain("getEditorial");
@@ -676,7 +685,7 @@ describe("Part B: Editorial Layer", () => {
     });
 
     it("editorial resolution MUST happen AFTER lock acquisition (Delta 1)", () => {
-      const lockPos = cronSource.indexOf("claimDigestSendLock(");
+      const lockPos = cronSource.indexOf("claimRecipientDigestLocks(");
       const editorialPos = cronSource.indexOf("getEditorial(");
       expect(lockPos).toBeGreaterThan(-1);
       expect(editorialPos).toBeGreaterThan(-1);
@@ -684,8 +693,8 @@ describe("Part B: Editorial Layer", () => {
     });
 
     it("editorial resolution MUST happen AFTER lock check succeeds", () => {
-      // The lock check (if (!lock.acquired)) must come before editorial fetch
-      const lockCheckPos = cronSource.indexOf("if (!lock.acquired)");
+      // The lock check (no recipient locks acquired) must come before editorial fetch
+      const lockCheckPos = cronSource.indexOf("if (lockedRecipients.length === 0)");
       const editorialPos = cronSource.indexOf("getEditorial(");
       expect(lockCheckPos).toBeGreaterThan(-1);
       expect(editorialPos).toBeGreaterThan(lockCheckPos);
@@ -699,8 +708,9 @@ describe("Part B: Editorial Layer", () => {
       expect(cronSource).toContain("Editorial resolution failed");
     });
 
-    it("should pass resolvedEditorial to getWeeklyHappeningsDigestEmail", () => {
-      expect(cronSource).toContain("editorial: resolvedEditorial");
+    it("should pass each recipient's view of resolvedEditorial to getWeeklyHappeningsDigestEmail", () => {
+      expect(cronSource).toContain("getRecipientEditorial(\n      resolvedEditorial,");
+      expect(cronSource).toContain("editorial: editorialByUserId.get(recipient.userId)");
     });
 
     it("should log when editorial found and when missing", () => {
@@ -762,6 +772,10 @@ describe("Part B: Editorial Layer", () => {
       ),
       "utf-8"
     );
+    const editionsSource = fs.readFileSync(
+      path.join(SRC_DIR, "lib/digest/happeningsEditions.ts"),
+      "utf-8"
+    );
 
     it("should import getEditorial and resolveEditorial", () => {
       expect(sendSource).toContain("getEditorial");
@@ -779,10 +793,11 @@ describe("Part B: Editorial Layer", () => {
       );
     });
 
-    it("resolveEditorial in test mode should use (serviceClient, editorial) — two args", () => {
-      expect(sendSource).toContain(
-        "resolveEditorial(serviceClient, editorial)"
-      );
+    it("full mode sends every region through the shared editions module", () => {
+      expect(sendSource).toContain("sendRegionHappeningsEditions(serviceClient, {");
+      expect(sendSource).toContain("editorialWeekKey: fullEditorialWeekKey");
+      expect(sendSource).toContain('logPrefix: "[AdminFullSend]"');
+      expect(editionsSource).toContain("resolveEditorial(supabase, editorial)");
     });
 
     it("should return hasEditorial boolean for weekly_happenings test send", () => {
@@ -791,15 +806,18 @@ describe("Part B: Editorial Layer", () => {
 
     it("should pass editorial to template in both modes", () => {
       // Check that editorial is passed in buildEmail callbacks
-      const editorialPassCount = (sendSource.match(/editorial: resolvedEditorial/g) || []).length;
-      // At least 2: test mode + full mode
-      expect(editorialPassCount).toBeGreaterThanOrEqual(2);
+      const editorialPassCount = (
+        sendSource.match(/editorial: (resolvedEditorial|getRecipientEditorial\(\s*resolvedEditorial)/g) || []
+      ).length;
+      // Test mode here; full mode in the shared editions module
+      expect(editorialPassCount).toBeGreaterThanOrEqual(1);
+      expect(editionsSource).toContain("editorial: editorialByUserId.get(recipient.userId)");
     });
 
     it("editorial failure should be non-fatal in both modes", () => {
       // Both test and full mode wrap editorial in try/catch
       expect(sendSource).toContain("[AdminTestSend] Editorial resolution failed");
-      expect(sendSource).toContain("[AdminFullSend] Editorial resolution failed");
+      expect(editionsSource).toContain("${logPrefix} Editorial resolution failed");
     });
   });
 
@@ -941,29 +959,26 @@ describe("Part B: Editorial Layer", () => {
       "utf-8"
     );
 
-    it("vercel.json schedules weekly-happenings at both 20 22 * * 0 and 20 23 * * 0", () => {
+    it("vercel.json schedules weekly-happenings hourly at 20 * * * *", () => {
       const config = JSON.parse(vercelConfig);
       const happeningsCrons = config.crons?.filter(
         (c: { path: string }) => c.path === "/api/cron/weekly-happenings"
       );
       expect(happeningsCrons).toBeDefined();
-      expect(happeningsCrons).toEqual(
-        expect.arrayContaining([
-          expect.objectContaining({ schedule: "20 22 * * 0" }),
-          expect.objectContaining({ schedule: "20 23 * * 0" }),
-        ])
-      );
+      expect(happeningsCrons).toEqual([
+        expect.objectContaining({ schedule: "20 * * * *" }),
+      ]);
     });
 
-    it("cron route documents dual schedule and Denver local-time behavior", () => {
-      expect(cronSource).toContain("20 22 * * 0");
-      expect(cronSource).toContain("20 23 * * 0");
-      expect(cronSource).toContain("Denver 4:20 PM window");
+    it("cron route documents hourly schedule and per-region local-time behavior", () => {
+      expect(cronSource).toContain("20 * * * *");
+      expect(cronSource).toContain("regions.digest_send_hour");
     });
 
     it("cron route enforces a local-time guard before sending", () => {
-      expect(cronSource).toContain("Local Time Guard — only send during 4:20 PM Denver window");
-      expect(cronSource).toContain("Outside 4:20 PM Denver send window");
+      expect(cronSource).toContain("Local Time Guard — only send regions inside their digest window");
+      expect(cronSource).toContain("isInRegionDigestWindow(");
+      expect(cronSource).toContain("Outside every region's digest send window");
     });
   });
 
@@ -1215,8 +1230,9 @@ describe("Part B: Editorial Layer", () => {
       path.join(SRC_DIR, "app/api/admin/digest/send/route.ts"),
       "utf-8"
     );
-    const cronRoute = fs.readFileSync(
-      path.join(SRC_DIR, "app/api/cron/weekly-happenings/route.ts"),
+    // Cron and admin full sends resolve editorial in the shared editions module
+    const editionsModule = fs.readFileSync(
+      path.join(SRC_DIR, "lib/digest/happeningsEditions.ts"),
       "utf-8"
     );
 
@@ -1228,25 +1244,25 @@ describe("Part B: Editorial Layer", () => {
       expect(sendRoute).toContain("resolveEditorial");
     });
 
-    it("cron route imports resolveEditorial", () => {
-      expect(cronRoute).toContain("resolveEditorial");
+    it("happenings editions module imports resolveEditorial", () => {
+      expect(editionsModule).toContain("resolveEditorial");
     });
 
     it("all routes import from digestEditorial module", () => {
       expect(previewRoute).toContain("from \"@/lib/digest/digestEditorial\"");
       expect(sendRoute).toContain("from \"@/lib/digest/digestEditorial\"");
-      expect(cronRoute).toContain("from \"@/lib/digest/digestEditorial\"");
+      expect(editionsModule).toContain("from \"@/lib/digest/digestEditorial\"");
     });
   });
 
   describe("GTM-3.1: Idempotency guard comes before editorial resolution", () => {
     const cronSource = fs.readFileSync(
-      path.join(SRC_DIR, "app/api/cron/weekly-happenings/route.ts"),
+      path.join(SRC_DIR, "lib/digest/happeningsEditions.ts"),
       "utf-8"
     );
 
-    it("claimDigestSendLock is called before resolveEditorial", () => {
-      const lockIndex = cronSource.indexOf("claimDigestSendLock");
+    it("claimRecipientDigestLocks is called before resolveEditorial", () => {
+      const lockIndex = cronSource.indexOf("claimRecipientDigestLocks(");
       const resolveIndex = cronSource.indexOf("resolveEditorial(supabase");
       expect(lockIndex).toBeGreaterThan(-1);
       expect(resolveIndex).toBeGreaterThan(-1);
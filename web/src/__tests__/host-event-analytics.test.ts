@@ -0,0 +1,322 @@
+/**
+ * Host event analytics
+ *
+ * Per-occurrence aggregation and CSV (hostAnalytics.ts), view tracking
+ * helpers (eventViews.ts) and the analytics route's auth ordering.
+ */
+import { describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+
+vi.mock("@/lib/supabase/serviceRoleClient", () => ({
+  createServiceRoleClient: vi.fn(),
+}));
+
+import {
+  buildEventAnalytics,
+  referralSourceLabel,
+  serializeEventAnalyticsCsv,
+  type EventAnalyticsInput,
+} from "@/lib/events/hostAnalytics";
+import {
+  clientIpFromHeaders,
+  eventViewerHash,
+  externalReferrerHost,
+  isLikelyBot,
+} from "@/lib/events/eventViews";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { POST as postEventView } from "@/app/api/events/[id]/view/route";
+
+const ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/analytics/route.ts");
+const VIEW_ROUTE_PATH = path.resolve(__dirname, "../app/api/events/[id]/view/route.ts");
+const EVENT_PAGE_PATH = path.resolve(__dirname, "../app/events/[id]/page.tsx");
+
+function baseInput(overrides: Partial<EventAnalyticsInput> = {}): EventAnalyticsInput {
+  return {
+    signupTime: "18:30:00",
+    rsvps: [],
+    timeslots: [],
+    claims: [],
+    views: [],
+    fromKey: "2026-03-01",
+    toKey: "2026-03-31",
+    ...overrides,
+  };
+}
+
+describe("buildEventAnalytics", () => {
+  it("counts RSVPs and waitlist per occurrence inside the window", () => {
+    const { occurrences, totals } = buildEventAnalytics(
+      baseInput({
+        rsvps: [
+          { date_key: "2026-03-03", status: "confirmed" },
+          { date_key: "2026-03-03", status: "confirmed" },
+          { date_key: "2026-03-03", status: "waitlist" },
+          { date_key: "2026-03-10", status: "offered" },
+          { date_key: "2026-03-10", status: "cancelled" },
+          { date_key: "2026-02-01", status: "confirmed" },
+        ],
+      })
+    );
+
+    expect(occurrences.map((o) => [o.dateKey, o.rsvps, o.waitlist])).toEqual([
+      ["2026-03-03", 2, 1],
+      ["2026-03-10", 0, 1],
+    ]);
+    expect(totals.rsvps).toBe(2);
+    expect(totals.waitlist).toBe(2);
+  });
+
+  it("computes fill rate, no-show rate and fill speed from signup_time", () => {
+    // 2026-03-03 is MST (UTC-7): signup opens 01:30Z on 03-04
+    const { occurrences, totals } = buildEventAnalytics(
+      baseInput({
+        timeslots: [
+          { id: "s1", date_key: "2026-03-03" },
+          { id: "s2", date_key: "2026-03-03" },
+          { id: "s3", date_key: "2026-03-10" },
+          { id: "s4", date_key: "2026-03-10" },
+        ],
+        claims: [
+          { timeslot_id: "s1", status: "performed", member_id: "m1", guest_email: null, claimed_at: "2026-03-04T01:20:00Z" },
+          { timeslot_id: "s2", status: "no_show", member_id: "m2", guest_email: null, claimed_at: "2026-03-04T01:45:00Z" },
+          { timeslot_id: "s3", status: "confirmed", member_id: "m1", guest_email: null, claimed_at: null },
+          { timeslot_id: "s4", status: "cancelled", member_id: "m3", guest_email: null, claimed_at: null },
+          { timeslot_id: "s4", status: "waitlist", member_id: "m4", guest_email: null, claimed_at: null },
+        ],
+      })
+    );
+
+    const first = occurrences[0];
+    expect(first.slots).toBe(2);
+    expect(first.slotsFilled).toBe(2);
+    expect(first.fillRate).toBe(1);
+    expect(first.noShows).toBe(1);
+    expect(first.noShowRate).toBe(0.5);
+    // Early claim counts as 0; median of [0, 15]
+    expect(first.medianMinutesToClaim).toBe(8);
+    expect(first.minutesToFull).toBe(15);
+
+    const second = occurrences[1];
+    expect(second.fillRate).toBe(0.5);
+    expect(second.waitlist).toBe(1);
+    expect(second.minutesToFull).toBeNull();
+
+    expect(totals.fillRate).toBe(0.75);
+    expect(totals.noShowRate).toBeCloseTo(1 / 3);
+  });
+
+  it("leaves fill speed empty without a signup time", () => {
+    const { occurrences } = buildEventAnalytics(
+      baseInput({
+        signupTime: null,
+        timeslots: [{ id: "s1", date_key: "2026-03-03" }],
+        claims: [{ timeslot_id: "s1", status: "confirmed", member_id: "m1", guest_email: null, claimed_at: "2026-03-04T01:20:00Z" }],
+      })
+    );
+    expect(occurrences[0].medianMinutesToClaim).toBeNull();
+    expect(occurrences[0].minutesToFull).toBeNull();
+  });
+
+  it("splits new and returning performers using earlier occurrences, including before the window", () => {
+    const { occurrences, totals } = buildEventAnalytics(
+      baseInput({
+        timeslots: [
+          { id: "old", date_key: "2026-02-10" },
+          { id: "a1", date_key: "2026-03-03" },
+          { id: "a2", date_key: "2026-03-03" },
+          { id: "b1", date_key: "2026-03-10" },
+          { id: "b2", date_key: "2026-03-10" },
+        ],
+        claims: [
+          { timeslot_id: "old", status: "performed", member_id: "m1", guest_email: null, claimed_at: null },
+          { timeslot_id: "a1", status: "confirmed", member_id: "m1", guest_email: null, claimed_at: null },
+          { timeslot_id: "a2", status: "confirmed", member_id: null, guest_email: "Guest@Example.com", claimed_at: null },
+          { timeslot_id: "b1", status: "confirmed", member_id: null, guest_email: "guest@example.com", claimed_at: null },
+          { timeslot_id: "b2", status: "confirmed", member_id: "m2", guest_email: null, claimed_at: null },
+        ],
+      })
+    );
+
+    expect(occurrences.map((o) => [o.dateKey, o.newPerformers, o.returningPerformers])).toEqual([
+      ["2026-03-03", 1, 1],
+      ["2026-03-10", 1, 1],
+    ]);
+    expect(totals.newPerformers).toBe(2);
+    expect(totals.returningPerformers).toBe(2);
+  });
+
+  it("counts page/embed views and referral sources per occurrence", () => {
+    const analytics = buildEventAnalytics(
+      baseInput({
+        views: [
+          { date_key: "2026-03-03", surface: "page", referral_via: "qr", referral_src: "flyer", referrer_host: null },
+          { date_key: "2026-03-03", surface: "page", referral_via: null, referral_src: null, referrer_host: "instagram.com" },
+          { date_key: "2026-03-03", surface: "embed", referral_via: null, referral_src: null, referrer_host: "venue.example" },
+          { date_key: "2026-03-10", surface: "page", referral_via: null, referral_src: null, referrer_host: null },
+          { date_key: "2026-03-10", surface: "page", referral_via: "qr", referral_src: "flyer", referrer_host: null },
+        ],
+      })
+    );
+
+    const [first, second] = analytics.occurrences;
+    expect([first.pageViews, first.embedViews]).toEqual([2, 1]);
+    expect(second.referrals).toEqual({ Direct: 1, "qr / flyer": 1 });
+    expect(analytics.referralSources[0]).toEqual({ source: "qr / flyer", pageViews: 2, embedViews: 0, total: 2 });
+  });
+});
+
+describe("referralSourceLabel", () => {
+  it("prefers tagged referral params, then the referrer host", () => {
+    expect(referralSourceLabel({ referral_via: "share", referral_src: null, referrer_host: "x.com" })).toBe("share");
+    expect(referralSourceLabel({ referral_via: null, referral_src: null, referrer_host: "x.com" })).toBe("x.com");
+    expect(referralSourceLabel({ referral_via: null, referral_src: null, referrer_host: null })).toBe("Direct");
+  });
+});
+
+describe("serializeEventAnalyticsCsv", () => {
+  it("writes one row per occurrence with a column per referral source", () => {
+    const csv = serializeEventAnalyticsCsv(
+      buildEventAnalytics(
+        baseInput({
+          rsvps: [{ date_key: "2026-03-03", status: "confirmed" }],
+          views: [{ date_key: "2026-03-03", surface: "page", referral_via: "a,b", referral_src: null, referrer_host: null }],
+        })
+      )
+    );
+    const [header, row] = csv.split("\n");
+    expect(header).toContain("date_key,rsvps,waitlist,slots,slots_filled,fill_rate_pct");
+    expect(header.endsWith('"views_from_a,b"')).toBe(true);
+    expect(row.startsWith("2026-03-03,1,0,0,0,,0,,,,0,0,1,0,1")).toBe(true);
+  });
+});
+
+describe("event view tracking helpers", () => {
+  it("skips bots and missing user agents", () => {
+    expect(isLikelyBot(null)).toBe(true);
+    expect(isLikelyBot("Mozilla/5.0 (compatible; Googlebot/2.1)")).toBe(true);
+    expect(isLikelyBot("facebookexternalhit/1.1")).toBe(true);
+    expect(isLikelyBot("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Safari/604.1")).toBe(false);
+  });
+
+  it("keeps only external referrer hosts", () => {
+    const site = "https://coloradosongwriterscollective.org";
+    expect(externalReferrerHost("https://www.instagram.com/p/abc", site)).toBe("instagram.com");
+    expect(externalReferrerHost("https://coloradosongwriterscollective.org/happenings", site)).toBeNull();
+    expect(externalReferrerHost("not a url", site)).toBeNull();
+    expect(externalReferrerHost(null, site)).toBeNull();
+  });
+});
+
+describe("analytics route", () => {
+  it("authorizes with canManageEvent before creating the service-role client", () => {
+    const source = fs.readFileSync(ROUTE_PATH, "utf-8");
+    const authIndex = source.indexOf("canManageEvent(supabase");
+    const serviceIndex = source.indexOf("createServiceRoleClient()");
+    expect(authIndex).toBeGreaterThan(-1);
+    expect(serviceIndex).toBeGreaterThan(authIndex);
+  });
+});
+
+describe("page view beacon", () => {
+  it("keeps view recording out of the event page render", () => {
+    const source = fs.readFileSync(EVENT_PAGE_PATH, "utf-8");
+    expect(source).not.toContain("recordEventView(");
+    expect(source).not.toContain('from "next/headers"');
+    expect(source).toContain("<EventViewBeacon eventId={event.id}");
+  });
+
+  it("only records views for published events and answers 204 either way", () => {
+    const source = fs.readFileSync(VIEW_ROUTE_PATH, "utf-8");
+    const publishedIndex = source.indexOf('.eq("is_published", true)');
+    const recordIndex = source.indexOf("recordEventView(");
+    expect(source).toContain("UUID_RE.test(eventId)");
+    expect(publishedIndex).toBeGreaterThan(-1);
+    expect(recordIndex).toBeGreaterThan(publishedIndex);
+    expect(source).not.toMatch(/status: 404/);
+  });
+});
+
+describe("page view dedupe", () => {
+  const EVENT_ID = "11111111-1111-4111-8111-111111111111";
+  const BROWSER_UA = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Safari/604.1";
+
+  it("hashes a viewer per day and never without an IP", () => {
+    const day = new Date("2026-03-10T12:00:00Z");
+    const sameDay = new Date("2026-03-10T23:00:00Z");
+    const nextDay = new Date("2026-03-11T01:00:00Z");
+    expect(eventViewerHash("203.0.113.5", BROWSER_UA, day)).toBe(eventViewerHash("203.0.113.5", BROWSER_UA, sameDay));
+    expect(eventViewerHash("203.0.113.5", BROWSER_UA, day)).not.toBe(eventViewerHash("203.0.113.5", BROWSER_UA, nextDay));
+    expect(eventViewerHash("203.0.113.6", BROWSER_UA, day)).not.toBe(eventViewerHash("203.0.113.5", BROWSER_UA, day));
+    expect(eventViewerHash("203.0.113.5", BROWSER_UA, day)).not.toContain("203.0.113.5");
+    expect(eventViewerHash(null, BROWSER_UA, day)).toBeNull();
+
+    expect(clientIpFromHeaders(new Headers({ "x-forwarded-for": "203.0.113.5, 10.0.0.1" }))).toBe("203.0.113.5");
+    expect(clientIpFromHeaders(new Headers({ "x-real-ip": "203.0.113.7" }))).toBe("203.0.113.7");
+    expect(clientIpFromHeaders(new Headers())).toBeNull();
+  });
+
+  function fakeViewsClient() {
+    const rows: Array<Record<string, unknown>> = [];
+    const client = {
+      from: (table: string) => {
+        if (table === "events") {
+          const query = {
+            select: () => query,
+            eq: () => query,
+            maybeSingle: async () => ({ data: { id: EVENT_ID }, error: null }),
+          };
+          return query;
+        }
+        return {
+          insert: async (row: Record<string, unknown>) => {
+            const duplicate = rows.some(
+              (existing) =>
+                row.viewer_hash !== null &&
+                existing.event_id === row.event_id &&
+                existing.surface === row.surface &&
+                existing.viewer_hash === row.viewer_hash
+            );
+            if (duplicate) return { error: { code: "23505", message: "duplicate key" } };
+            rows.push(row);
+            return { error: null };
+          },
+        };
+      },
+    };
+    vi.mocked(createServiceRoleClient).mockReturnValue(client as never);
+    return rows;
+  }
+
+  const beacon = (ip: string, body: string = JSON.stringify({ date_key: "2026-03-10" })) =>
+    postEventView(
+      new Request(`https://example.test/api/events/${EVENT_ID}/view`, {
+        method: "POST",
+        headers: { "user-agent": BROWSER_UA, "x-forwarded-for": ip, "content-type": "application/json" },
+        body,
+      }),
+      { params: Promise.resolve({ id: EVENT_ID }) }
+    );
+
+  it("counts a replayed beacon once per viewer", async () => {
+    const rows = fakeViewsClient();
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    for (let i = 0; i < 3; i++) {
+      expect((await beacon("203.0.113.5")).status).toBe(204);
+    }
+    expect((await beacon("198.51.100.9")).status).toBe(204);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ event_id: EVENT_ID, surface: "page", date_key: "2026-03-10" });
+    expect(rows[0].viewer_hash).toEqual(expect.any(String));
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it("answers 204 to a malformed body without recording", async () => {
+    const rows = fakeViewsClient();
+    expect((await beacon("203.0.113.5", "{not json")).status).toBe(204);
+    expect(rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Image Pipeline Tests
+ *
+ * Tests for blurhash encoding, variant selection, the sharp post-processor
+ * (metadata stripping, orientation, widths, failures), storage path rules
+ * and upload authorization, processStoredImage() against an in-memory
+ * client, plus source contracts for the variants route and the migration.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import sharp from "sharp";
+
+vi.mock("@/lib/auth/adminAuth", () => ({ checkAdminRole: vi.fn(async () => false) }));
+vi.mock("@/lib/events/eventManageAuth", () => ({ canManageEvent: vi.fn(async () => false) }));
+vi.mock("@/lib/venue/managerAuth", () => ({ canEditVenue: vi.fn(async () => false) }));
+
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { canEditVenue } from "@/lib/venue/managerAuth";
+import { blurhashToDataUrl, decodeBlurhash, encodeBlurhash, isValidBlurhash } from "@/lib/images/blurhash";
+import { IMAGE_PIPELINE_CONFIG, isProcessableImageBucket } from "@/lib/images/config";
+import { processImageBuffer, variantWidthsFor } from "@/lib/images/process";
+import {
+  canProcessImage,
+  isValidUploadPath,
+  processStoredImage,
+  variantStoragePath,
+} from "@/lib/images/server";
+import {
+  fallbackImageUrl,
+  findImageAsset,
+  imageSrcSet,
+  imageVariantLoader,
+  pickImageVariant,
+  storageKeyFromUrl,
+  type ImageAsset,
+} from "@/lib/images/variants";
+
+const ROUTE_PATH = path.resolve(__dirname, "../app/api/images/variants/route.ts");
+const MIGRATION_PATH = path.resolve(__dirname, "../../../supabase/migrations/20260522010000_image_assets.sql");
+const MANIFEST_PATH = path.resolve(
+  __dirname,
+  "../../../docs/investigation/track2-2l3-service-role-admin-client-manifest.md"
+);
+
+const STORAGE = "https://abc.supabase.co/storage/v1/object/public";
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+const EVENT_ID = "22222222-2222-4222-8222-222222222222";
+const VENUE_ID = "33333333-3333-4333-8333-333333333333";
+
+function solidPixels(width: number, height: number, rgb: [number, number, number]): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) pixels.set([...rgb, 255], i * 4);
+  return pixels;
+}
+
+function photoWithLocation(width: number, height: number, orientation: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: "#c86432" } })
+    .jpeg()
+    .withExif({ IFD0: { Make: "PhoneCo", Copyright: "someone" }, IFD3: { GPSLatitudeRef: "N" } })
+    .withMetadata({ orientation })
+    .toBuffer();
+}
+
+const asset: ImageAsset = {
+  source_key: "event-images/e/cover.jpg",
+  width: 2000,
+  height: 1000,
+  blurhash: null,
+  variants: [
+    { format: "webp", width: 1024, height: 512, url: "https://cdn/w1024.webp" },
+    { format: "webp", width: 320, height: 160, url: "https://cdn/w320.webp" },
+    { format: "avif", width: 320, height: 160, url: "https://cdn/w320.avif" },
+    { format: "webp", width: 640, height: 320, url: "https://cdn/w640.webp" },
+    { format: "jpeg", width: 1200, height: 600, url: "https://cdn/w1200.jpg" },
+  ],
+};
+
+describe("blurhash", () => {
+  it("round-trips the average color", () => {
+    const hash = encodeBlurhash(solidPixels(8, 8, [200, 40, 10]), 8, 8, 4, 3);
+    expect(hash).toHaveLength(4 + 2 * 4 * 3);
+    expect(isValidBlurhash(hash)).toBe(true);
+
+    const averageOnly = encodeBlurhash(solidPixels(8, 8, [200, 40, 10]), 8, 8, 1, 1);
+    expect(Array.from(decodeBlurhash(averageOnly, 2, 1))).toEqual([200, 40, 10, 255, 200, 40, 10, 255]);
+  });
+
+  it("rejects malformed hashes and bad input", () => {
+    expect(isValidBlurhash("LEHV6n")).toBe(false);
+    expect(isValidBlurhash(null)).toBe(false);
+    expect(() => encodeBlurhash(new Uint8ClampedArray(3), 1, 1, 4, 3)).toThrow();
+    expect(() => encodeBlurhash(solidPixels(1, 1, [0, 0, 0]), 1, 1, 10, 3)).toThrow();
+  });
+
+  it("renders a tiny BMP data URL", () => {
+    const hash = encodeBlurhash(solidPixels(4, 4, [0, 128, 255]), 4, 4, 4, 3);
+    const url = blurhashToDataUrl(hash, 8, 6);
+    expect(url).toMatch(/^data:image\/bmp;base64,/);
+    const bytes = Buffer.from(url!.split(",")[1], "base64");
+    expect(bytes.subarray(0, 2).toString()).toBe("BM");
+    expect(bytes.length).toBe(54 + 24 * 6);
+    expect(blurhashToDataUrl("nope")).toBeNull();
+  });
+});
+
+describe("variant selection", () => {
+  it("maps public storage URLs to storage keys, ignoring cache busters", () => {
+    expect(storageKeyFromUrl(`${STORAGE}/avatars/${USER_ID}/profile-gallery/a.jpg?t=123`)).toBe(
+      `avatars/${USER_ID}/profile-gallery/a.jpg`
+    );
+    expect(storageKeyFromUrl(`${STORAGE}/gallery-images/u/a%20b.png`)).toBe("gallery-images/u/a b.png");
+    expect(storageKeyFromUrl("https://example.com/a.jpg")).toBeNull();
+    expect(storageKeyFromUrl("/images/hero-bg.jpg")).toBeNull();
+    expect(storageKeyFromUrl(null)).toBeNull();
+  });
+
+  it("finds assets by original URL", () => {
+    expect(findImageAsset({ [asset.source_key]: asset }, `${STORAGE}/event-images/e/cover.jpg`)).toBe(asset);
+    expect(findImageAsset({}, `${STORAGE}/event-images/e/cover.jpg`)).toBeNull();
+    expect(findImageAsset(undefined, `${STORAGE}/event-images/e/cover.jpg`)).toBeNull();
+  });
+
+  it("picks the smallest variant at least as wide, else the largest", () => {
+    expect(pickImageVariant(asset, { width: 500, format: "webp" })?.url).toBe("https://cdn/w640.webp");
+    expect(pickImageVariant(asset, { width: 3840, format: "webp" })?.url).toBe("https://cdn/w1024.webp");
+    expect(pickImageVariant(asset, { width: 100, format: "avif" })?.url).toBe("https://cdn/w320.avif");
+    expect(pickImageVariant(null, { width: 100, format: "webp" })).toBeNull();
+  });
+
+  it("builds sorted srcsets and a next/image loader", () => {
+    expect(imageSrcSet(asset, "webp")).toBe(
+      "https://cdn/w320.webp 320w, https://cdn/w640.webp 640w, https://cdn/w1024.webp 1024w"
+    );
+    expect(imageSrcSet(asset, "avif")).toBe("https://cdn/w320.avif 320w");
+    expect(imageVariantLoader(asset, "webp")({ src: "orig", width: 750 })).toBe("https://cdn/w1024.webp");
+  });
+
+  it("gives JPEG-only renderers the fallback variant or the original", () => {
+    expect(fallbackImageUrl(asset, "orig.jpg")).toBe("https://cdn/w1200.jpg");
+    expect(fallbackImageUrl({ ...asset, variants: [] }, "orig.jpg")).toBe("orig.jpg");
+    expect(fallbackImageUrl(null, "orig.jpg")).toBe("orig.jpg");
+  });
+});
+
+describe("processImageBuffer", () => {
+  it("strips EXIF/GPS and applies orientation to the original", async () => {
+    const input = await photoWithLocation(800, 600, 6);
+    const before = await sharp(input).metadata();
+    expect(before.exif).toBeDefined();
+
+    const result = await processImageBuffer(input);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { image } = result;
+    expect(image.width).toBe(600);
+    expect(image.height).toBe(800);
+    expect(image.original?.contentType).toBe("image/jpeg");
+
+    const cleaned = await sharp(image.original!.buffer).metadata();
+    expect(cleaned.exif).toBeUndefined();
+    expect(cleaned.orientation ?? 1).toBe(1);
+    expect([cleaned.width, cleaned.height]).toEqual([600, 800]);
+    expect(isValidBlurhash(image.blurhash)).toBe(true);
+  });
+
+  it("generates AVIF/WebP at each width below the original plus one JPEG fallback", async () => {
+    const result = await processImageBuffer(await photoWithLocation(800, 600, 6));
+    if (!result.ok) throw new Error(result.reason);
+
+    const summary = result.image.variants.map((variant) => `${variant.format}:${variant.width}x${variant.height}`);
+    expect(summary).toEqual([
+      "avif:320x427",
+      "webp:320x427",
+      "avif:600x800",
+      "webp:600x800",
+      "jpeg:600x800",
+    ]);
+    for (const variant of result.image.variants) {
+      const metadata = await sharp(variant.buffer).metadata();
+      expect(metadata.format === "heif" ? "avif" : metadata.format).toBe(variant.format);
+      expect(metadata.exif).toBeUndefined();
+    }
+  });
+
+  it("leaves clean originals alone", async () => {
+    const png = await sharp({ create: { width: 40, height: 30, channels: 4, background: "#00ff0080" } })
+      .png()
+      .toBuffer();
+    const result = await processImageBuffer(png);
+    expect(result.ok && result.image.original).toBeNull();
+  });
+
+  it("refuses oversized, undecodable and unsupported input", async () => {
+    expect(await processImageBuffer(Buffer.alloc(IMAGE_PIPELINE_CONFIG.MAX_INPUT_BYTES + 1))).toEqual({
+      ok: false,
+      reason: "too_large",
+    });
+    expect(await processImageBuffer(Buffer.from("not an image"))).toEqual({ ok: false, reason: "decode_failed" });
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>');
+    expect(await processImageBuffer(svg)).toEqual({ ok: false, reason: "unsupported_format" });
+  });
+
+  it("never upscales", () => {
+    expect(variantWidthsFor(200)).toEqual([200]);
+    expect(variantWidthsFor(1024)).toEqual([320, 640, 1024]);
+    expect(variantWidthsFor(4000)).toEqual([320, 640, 1024, 1600]);
+  });
+});
+
+describe("storage paths and authorization", () => {
+  beforeEach(() => {
+    vi.mocked(checkAdminRole).mockResolvedValue(false);
+    vi.mocked(canManageEvent).mockResolvedValue(false);
+    vi.mocked(canEditVenue).mockResolvedValue(false);
+  });
+
+  const supabase = {} as never;
+
+  it("names variants next to the original", () => {
+    expect(variantStoragePath(`${EVENT_ID}/a.jpg`, 640, "webp")).toBe(`${EVENT_ID}/a.jpg.variants/w640.webp`);
+    expect(variantStoragePath(`${EVENT_ID}/a.png`, 1200, "jpeg")).toBe(`${EVENT_ID}/a.png.variants/w1200.jpg`);
+  });
+
+  it("rejects traversal, bare names and variant paths", () => {
+    expect(isValidUploadPath(`${USER_ID}/photo.jpg`)).toBe(true);
+    expect(isValidUploadPath("photo.jpg")).toBe(false);
+    expect(isValidUploadPath(`${USER_ID}/../other/photo.jpg`)).toBe(false);
+    expect(isValidUploadPath(`${USER_ID}//photo.jpg`)).toBe(false);
+    expect(isValidUploadPath(`${USER_ID}/photo.jpg.variants/w320.webp`)).toBe(false);
+    expect(isValidUploadPath(42)).toBe(false);
+    expect(isProcessableImageBucket("avatars")).toBe(true);
+    expect(isProcessableImageBucket("feedback-attachments")).toBe(false);
+  });
+
+  it("allows a user's own folder without further checks", async () => {
+    expect(await canProcessImage(supabase, USER_ID, "avatars", `${USER_ID}/profile-gallery/a.jpg`)).toBe(true);
+    expect(await canProcessImage(supabase, USER_ID, "gallery-images", `${USER_ID}/photo-1.jpg`)).toBe(true);
+    expect(await canProcessImage(supabase, USER_ID, "blog-images", `${USER_ID}/cover-1.jpg`)).toBe(true);
+    expect(checkAdminRole).not.toHaveBeenCalled();
+  });
+
+  it("requires event or venue management for shared folders", async () => {
+    expect(await canProcessImage(supabase, USER_ID, "event-images", `${EVENT_ID}/a.jpg`)).toBe(false);
+    vi.mocked(canManageEvent).mockResolvedValue(true);
+    expect(await canProcessImage(supabase, USER_ID, "event-images", `${EVENT_ID}/a.jpg`)).toBe(true);
+    expect(canManageEvent).toHaveBeenCalledWith(supabase, USER_ID, EVENT_ID);
+
+    expect(await canProcessImage(supabase, USER_ID, "avatars", `venues/${VENUE_ID}/a.jpg`)).toBe(false);
+    vi.mocked(canEditVenue).mockResolvedValue(true);
+    expect(await canProcessImage(supabase, USER_ID, "gallery-images", `venue-covers/${VENUE_ID}/a.jpg`)).toBe(true);
+  });
+
+  it("allows active organization managers to process their organization's photos", async () => {
+    const ORG_ID = "55555555-5555-4555-8555-555555555555";
+    const filters: Array<[string, unknown]> = [];
+    const orgClient = (grant: { id: string } | null) =>
+      ({
+        from: (table: string) => {
+          expect(table).toBe("organization_managers");
+          const query = {
+            select: () => query,
+            eq: (column: string, value: unknown) => {
+              filters.push([column, value]);
+              return query;
+            },
+            is: (column: string, value: unknown) => {
+              filters.push([column, value]);
+              return query;
+            },
+            maybeSingle: async () => ({ data: grant, error: null }),
+          };
+          return query;
+        },
+      }) as never;
+
+    expect(await canProcessImage(orgClient({ id: "grant-1" }), USER_ID, "avatars", `organizations/${ORG_ID}/a.jpg`)).toBe(
+      true
+    );
+    expect(filters).toEqual([
+      ["organization_id", ORG_ID],
+      ["user_id", USER_ID],
+      ["revoked_at", null],
+    ]);
+    expect(await canProcessImage(orgClient(null), USER_ID, "avatars", `organizations/${ORG_ID}/a.jpg`)).toBe(false);
+    // Only the avatars bucket holds organization photos
+    expect(
+      await canProcessImage(orgClient({ id: "grant-1" }), USER_ID, "gallery-images", `organizations/${ORG_ID}/a.jpg`)
+    ).toBe(false);
+  });
+
+  it("refuses someone else's folder unless admin", async () => {
+    const otherUser = "44444444-4444-4444-8444-444444444444";
+    expect(await canProcessImage(supabase, USER_ID, "avatars", `${otherUser}/a.jpg`)).toBe(false);
+    expect(await canProcessImage(supabase, USER_ID, "blog-images", `${otherUser}/a.jpg`)).toBe(false);
+    vi.mocked(checkAdminRole).mockResolvedValue(true);
+    expect(await canProcessImage(supabase, USER_ID, "avatars", `${otherUser}/a.jpg`)).toBe(true);
+  });
+});
+
+describe("processStoredImage", () => {
+  function fakeClient(original: Buffer | null, existing: Record<string, unknown> | null = null) {
+    const uploads: Array<{ path: string; contentType?: string; upsert?: boolean }> = [];
+    const upserts: Array<Record<string, unknown>> = [];
+    const storage = {
+      download: vi.fn(async () =>
+        original
+          ? { data: { arrayBuffer: async () => new Uint8Array(original).buffer }, error: null }
+          : { data: null, error: new Error("404") }
+      ),
+      upload: vi.fn(async (p: string, _body: Buffer, options: { contentType?: string; upsert?: boolean }) => {
+        uploads.push({ path: p, contentType: options.contentType, upsert: options.upsert });
+        return { error: null };
+      }),
+      getPublicUrl: (p: string) => ({ data: { publicUrl: `${STORAGE}/gallery-images/${p}` } }),
+    };
+    const table = {
+      select: () => table,
+      eq: () => table,
+      maybeSingle: async () => ({ data: existing, error: null }),
+      upsert: (row: Record<string, unknown>) => {
+        upserts.push(row);
+        return { select: () => ({ single: async () => ({ data: row, error: null }) }) };
+      },
+    };
+    const client = { storage: { from: () => storage }, from: () => table };
+    return { client: client as never, uploads, upserts, storage };
+  }
+
+  it("rewrites the original, uploads variants and records the asset", async () => {
+    const { client, uploads, upserts } = fakeClient(await photoWithLocation(800, 600, 1));
+    const result = await processStoredImage(client, {
+      bucket: "gallery-images",
+      path: `${USER_ID}/photo.jpg`,
+      userId: USER_ID,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(uploads[0]).toEqual({ path: `${USER_ID}/photo.jpg`, contentType: "image/jpeg", upsert: true });
+    expect(uploads.slice(1).map((upload) => upload.path)).toEqual([
+      `${USER_ID}/photo.jpg.variants/w320.avif`,
+      `${USER_ID}/photo.jpg.variants/w320.webp`,
+      `${USER_ID}/photo.jpg.variants/w640.avif`,
+      `${USER_ID}/photo.jpg.variants/w640.webp`,
+      `${USER_ID}/photo.jpg.variants/w800.avif`,
+      `${USER_ID}/photo.jpg.variants/w800.webp`,
+      `${USER_ID}/photo.jpg.variants/w800.jpg`,
+    ]);
+    expect(upserts[0]).toMatchObject({
+      source_key: `gallery-images/${USER_ID}/photo.jpg`,
+      status: "processed",
+      metadata_stripped: true,
+      width: 800,
+      height: 600,
+    });
+    if (result.ok) expect(fallbackImageUrl(result.asset, "orig")).toMatch(/w800\.jpg$/);
+  });
+
+  it("returns an already processed asset without touching storage", async () => {
+    const { client, storage } = fakeClient(null, {
+      ...asset,
+      status: "processed",
+    });
+    const result = await processStoredImage(client, { bucket: "event-images", path: "e/cover.jpg", userId: null });
+    expect(result).toEqual({ ok: true, asset });
+    expect(storage.download).not.toHaveBeenCalled();
+  });
+
+  it("reports missing originals and records decode failures", async () => {
+    expect(
+      await processStoredImage(fakeClient(null).client, { bucket: "avatars", path: `${USER_ID}/a.jpg`, userId: null })
+    ).toEqual({ ok: false, reason: "not_found" });
+
+    const broken = fakeClient(Buffer.from("garbage"));
+    expect(
+      await processStoredImage(broken.client, { bucket: "avatars", path: `${USER_ID}/a.jpg`, userId: USER_ID })
+    ).toEqual({ ok: false, reason: "decode_failed" });
+    expect(broken.upserts[0]).toMatchObject({ status: "failed", error: "decode_failed" });
+    expect(broken.uploads).toHaveLength(0);
+  });
+});
+
+describe("image pipeline source contracts", () => {
+  it.each([
+    ["organization photos", "../components/organizations/OrganizationPhotosManager.tsx", '"avatars"', "storagePath"],
+    ["admin event create cover", "../app/(protected)/dashboard/admin/events/new/EventCreateForm.tsx", '"event-images"', "fileName"],
+    ["admin album cover", "../app/(protected)/dashboard/admin/gallery/GalleryAdminTabs.tsx", "'gallery-images'", "fileName"],
+    ["blog cover and gallery", "../app/(protected)/dashboard/admin/blog/BlogPostForm.tsx", "'blog-images'", "fileName"],
+  ])("%s uploads are processed after they land in storage", (_label, file, bucket, pathVar) => {
+    const source = fs.readFileSync(path.resolve(__dirname, file), "utf-8");
+    const uploadIdx = source.indexOf(".upload(");
+    const processIdx = source.indexOf(`processUploadedImage(${bucket}, ${pathVar})`);
+    expect(uploadIdx).toBeGreaterThan(-1);
+    expect(processIdx).toBeGreaterThan(uploadIdx);
+  });
+
+  it("authorizes the storage path before creating the service-role client", () => {
+    const source = fs.readFileSync(ROUTE_PATH, "utf-8");
+    const userIdx = source.indexOf("auth.getUser()");
+    const jsonIdx = source.indexOf("request.json()");
+    const authIdx = source.indexOf("canProcessImage(");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(userIdx).toBeGreaterThan(-1);
+    expect(jsonIdx).toBeGreaterThan(userIdx);
+    expect(authIdx).toBeGreaterThan(jsonIdx);
+    expect(clientIdx).toBeGreaterThan(authIdx);
+    expect(source).toContain('export const runtime = "nodejs"');
+  });
+
+  it("keeps image_assets service-role only behind a key lookup RPC", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("ALTER TABLE public.image_assets ENABLE ROW LEVEL SECURITY;");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+    expect(sql).toContain("source_key text NOT NULL UNIQUE");
+    expect(sql).toContain("AND a.source_key = ANY (p_source_keys)");
+    expect(sql).toContain(`cardinality(p_source_keys) <= ${IMAGE_PIPELINE_CONFIG.MAX_LOOKUP_KEYS}`);
+    expect(sql).toContain("GRANT EXECUTE ON FUNCTION public.get_image_assets(text[]) TO anon, authenticated;");
+  });
+
+  it("documents the route in the service-role manifest", () => {
+    const manifest = fs.readFileSync(MANIFEST_PATH, "utf-8");
+    const row = manifest.split("\n").find((line) => line.startsWith("| T2-SR-IMAGE-VARIANTS |"));
+    expect(row).toContain("web/src/app/api/images/variants/route.ts");
+    expect(row).toContain("canProcessImage()");
+  });
+});
@@ -5,16 +5,24 @@ import * as path from "node:path";
 const ROUTE_PATH = path.resolve(__dirname, "../app/api/events/interpret/route.ts");
 const routeSource = fs.readFileSync(ROUTE_PATH, "utf-8");
 
+// The base system prompt moved out of the route into a lib module.
+const SYSTEM_PROMPT_PATH = path.resolve(__dirname, "../lib/events/interpretSystemPrompt.ts");
+const systemPromptSource = fs.readFileSync(SYSTEM_PROMPT_PATH, "utf-8");
+
 describe("interpret prompt date rules", () => {
+  it("route sends the shared system prompt", () => {
+    expect(routeSource).toContain("appendAiPromptContractAdditions(buildInterpretSystemPrompt())");
+  });
+
   it("instructs the LLM that current_date is not a past date", () => {
-    expect(routeSource).toContain("current_date itself is NOT a past date");
+    expect(systemPromptSource).toContain("current_date itself is NOT a past date");
   });
 
   it("uses STRICTLY before phrasing for past-date check", () => {
-    expect(routeSource).toContain("STRICTLY before current_date");
+    expect(systemPromptSource).toContain("STRICTLY before current_date");
   });
 
   it("forbids advancing past the current year without explicit source year", () => {
-    expect(routeSource).toContain("Do not advance a flyer's month/day past the current year");
+    expect(systemPromptSource).toContain("Do not advance a flyer's month/day past the current year");
   });
 });
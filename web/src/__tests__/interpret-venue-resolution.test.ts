@@ -15,6 +15,12 @@ const ROUTE_PATH = path.resolve(
 );
 const routeSource = fs.readFileSync(ROUTE_PATH, "utf-8");
 
+const SYSTEM_PROMPT_PATH = path.resolve(
+  __dirname,
+  "../lib/events/interpretSystemPrompt.ts"
+);
+const systemPromptSource = fs.readFileSync(SYSTEM_PROMPT_PATH, "utf-8");
+
 const CONTRACT_PATH = path.resolve(
   __dirname,
   "../lib/events/interpretEventContract.ts"
@@ -88,11 +94,11 @@ describe("Phase 5 — venue catalog query", () => {
 // ---------------------------------------------------------------------------
 describe("Phase 5 — system prompt venue_name instruction", () => {
   it("instructs LLM to set venue_name when uncertain", () => {
-    expect(routeSource).toContain("set venue_name to your best guess");
+    expect(systemPromptSource).toContain("set venue_name to your best guess");
   });
 
   it("mentions server will attempt deterministic resolution", () => {
-    expect(routeSource).toContain(
+    expect(systemPromptSource).toContain(
       "The server will attempt deterministic resolution"
     );
   });
@@ -63,7 +63,7 @@ describe("Interpreter image extraction (Phase 3 route)", () => {
   it("uses fast vision extraction before GPT-5.4 nano event reasoning", () => {
     expect(routeSource).toContain('const DEFAULT_VISION_EXTRACTION_MODEL = "gpt-4.1-mini"');
     expect(routeSource).toContain("const visionModel = process.env.OPENAI_EVENT_VISION_MODEL?.trim() || DEFAULT_VISION_EXTRACTION_MODEL");
-    expect(routeSource).toContain("extractTextFromImages(openAiKey, validatedImages, visionModel)");
+    expect(routeSource).toContain("extractTextFromImages(llmProvider, validatedImages, visionModel)");
     expect(routeSource).toContain("const model = process.env.OPENAI_EVENT_INTERPRETER_MODEL?.trim() || DEFAULT_INTERPRETER_MODEL");
   });
 
@@ -32,6 +32,22 @@ const PROMPT_CONTRACT_PATH = path.resolve(
 const promptContractSource = fs.readFileSync(PROMPT_CONTRACT_PATH, "utf-8");
 const combinedInterpretSource = `${interpretRouteSource}\n${promptContractSource}`;
 
+// The Responses API wire format (web_search tool, tool_choice, include)
+// lives in the OpenAI provider adapter; the route sends neutral requests.
+const OPENAI_PROVIDER_PATH = path.resolve(
+  __dirname,
+  "../lib/events/llm/openAiProvider.ts"
+);
+const openAiProviderSource = fs.readFileSync(OPENAI_PROVIDER_PATH, "utf-8");
+
+// The base system prompt rules live in interpretSystemPrompt.ts so the
+// Track 1 eval runner can send the same prompt as the route.
+const SYSTEM_PROMPT_PATH = path.resolve(
+  __dirname,
+  "../lib/events/interpretSystemPrompt.ts"
+);
+const systemPromptSource = fs.readFileSync(SYSTEM_PROMPT_PATH, "utf-8");
+
 // ---------------------------------------------------------------------------
 // A) Creative title extraction
 // ---------------------------------------------------------------------------
@@ -157,31 +173,31 @@ describe("Phase 9B — event-type reliability", () => {
   });
 
   it("system prompt now instructs showcase/open_mic type correctness", () => {
-    expect(interpretRouteSource).toContain("if user says showcase, use showcase");
+    expect(systemPromptSource).toContain("if user says showcase, use showcase");
   });
 
   it("system prompt includes event-ops safety rules from the browser agent playbook", () => {
-    expect(interpretRouteSource).toContain("Do not invent facts");
-    expect(interpretRouteSource).toContain("Never put Google Maps links in external_url");
-    expect(interpretRouteSource).toContain("external_url is optional and can stay null");
-    expect(interpretRouteSource).toContain("Only enable performer slots when explicitly requested");
-    expect(interpretRouteSource).toContain("For gig events, do not add signup_time or performer slots unless explicitly requested");
-    expect(interpretRouteSource).toContain("Default timezone to America/Denver");
-    expect(interpretRouteSource).toContain("friendly, and lightly encouraging");
+    expect(systemPromptSource).toContain("Do not invent facts");
+    expect(systemPromptSource).toContain("Never put Google Maps links in external_url");
+    expect(systemPromptSource).toContain("external_url is optional and can stay null");
+    expect(systemPromptSource).toContain("Only enable performer slots when explicitly requested");
+    expect(systemPromptSource).toContain("For gig events, do not add signup_time or performer slots unless explicitly requested");
+    expect(systemPromptSource).toContain("Default timezone to America/Denver");
+    expect(systemPromptSource).toContain("friendly, and lightly encouraging");
   });
 
   it("system prompt requires strong event-ops judgment before asking questions", () => {
-    expect(interpretRouteSource).toContain("Work like a strong event-ops assistant");
-    expect(interpretRouteSource).toContain("Do not ask for information that can be reasonably inferred");
-    expect(interpretRouteSource).toContain("Prefer one well-reasoned draft plus a concise note about assumptions");
-    expect(interpretRouteSource).toContain("Do not claim you searched the web or verified online unless an explicit tool result");
+    expect(systemPromptSource).toContain("Work like a strong event-ops assistant");
+    expect(systemPromptSource).toContain("Do not ask for information that can be reasonably inferred");
+    expect(systemPromptSource).toContain("Prefer one well-reasoned draft plus a concise note about assumptions");
+    expect(systemPromptSource).toContain("Do not claim you searched the web or verified online unless an explicit tool result");
   });
 
   it("system prompt and route provide current-date guidance for flyer edge cases", () => {
     expect(interpretRouteSource).toContain("current_date");
     expect(interpretRouteSource).toContain("America/Denver");
-    expect(interpretRouteSource).toContain("Never draft a date strictly before current_date for a new create-mode event");
-    expect(interpretRouteSource).toContain("Flyer dates often omit a year");
+    expect(systemPromptSource).toContain("Never draft a date strictly before current_date for a new create-mode event");
+    expect(systemPromptSource).toContain("Flyer dates often omit a year");
     expect(interpretRouteSource).toContain("applyFutureDateGuard");
   });
 
@@ -205,8 +221,9 @@ describe("Phase 9B — event-type reliability", () => {
   it("runs optional online search verification before GPT-5.4 nano drafting", () => {
     expect(interpretRouteSource).toContain("Phase A2 — Optional online event verification");
     expect(interpretRouteSource).toContain("shouldAttemptEventWebSearch");
-    expect(interpretRouteSource).toContain('type: "web_search"');
-    expect(interpretRouteSource).toContain('include: ["web_search_call.action.sources"]');
+    expect(interpretRouteSource).toContain("webSearch: DENVER_WEB_SEARCH");
+    expect(openAiProviderSource).toContain('type: "web_search"');
+    expect(openAiProviderSource).toContain('include: ["web_search_call.action.sources"]');
     expect(interpretRouteSource).toContain("web_search_verification");
     expect(interpretRouteSource).toContain("OPENAI_EVENT_WEB_SEARCH_ENABLED");
     expect(interpretRouteSource).toContain('const DEFAULT_WEB_SEARCH_VERIFIER_MODEL = "gpt-5.4-nano"');
@@ -224,14 +241,14 @@ describe("Phase 9B — event-type reliability", () => {
   });
 
   it("uses venue-type titles for generic events while preserving named flyer events", () => {
-    expect(interpretRouteSource).toContain("prefer the public title format 'Venue Name - Type'");
-    expect(interpretRouteSource).toContain("Preserve distinct named events");
+    expect(systemPromptSource).toContain("prefer the public title format 'Venue Name - Type'");
+    expect(systemPromptSource).toContain("Preserve distinct named events");
     expect(interpretRouteSource).toContain("applyVenueTypeTitleDefault");
     expect(postprocessSource).toContain("applyVenueTypeTitleDefault");
   });
 
   it("keeps sign-up time separate from public performance start time", () => {
-    expect(interpretRouteSource).toContain("If a flyer separates sign-up/check-in from performances");
+    expect(systemPromptSource).toContain("If a flyer separates sign-up/check-in from performances");
     expect(postprocessSource).toContain("SIGNUP_TIME_PATTERN");
     expect(postprocessSource).toContain("PERFORMANCE_RANGE_PATTERN");
   });
@@ -253,12 +270,13 @@ describe("Phase 9B — event-type reliability", () => {
     expect(interpretRouteSource).toContain("returnNoReliableResult");
     expect(interpretRouteSource).toContain("locked_draft: input.lockedDraft ?? null");
     expect(interpretRouteSource).toContain("current_event: input.currentEvent ?? null");
-    expect(interpretRouteSource).toContain("which venue/event searches were attempted");
+    expect(systemPromptSource).toContain("which venue/event searches were attempted");
   });
 
   it("does not silently drop explicit search requests when web search cannot produce sources", () => {
     expect(interpretRouteSource).toContain("buildNoReliableWebSearchResult");
-    expect(interpretRouteSource).toContain('tool_choice: "required"');
+    expect(interpretRouteSource).toContain("required: true");
+    expect(openAiProviderSource).toContain('tool_choice: "required"');
     expect(interpretRouteSource).toContain("runWebSearchCategory");
     expect(interpretRouteSource).toContain("runFastVenueSearchCategory");
     expect(interpretRouteSource).toContain("combineWebSearchCategoryAttempts");
@@ -312,9 +330,9 @@ describe("Phase 9B — event-type reliability", () => {
   });
 
   it("gives the model a deterministic recurrence contract for unsupported schedules", () => {
-    expect(interpretRouteSource).toContain("Recurrence contract: use series_mode single");
-    expect(interpretRouteSource).toContain("custom for irregular schedules, multiple weekdays");
-    expect(interpretRouteSource).toContain("Do not output vague series_mode values like recurring");
+    expect(systemPromptSource).toContain("Recurrence contract: use series_mode single");
+    expect(systemPromptSource).toContain("custom for irregular schedules, multiple weekdays");
+    expect(systemPromptSource).toContain("Do not output vague series_mode values like recurring");
   });
 
   it("allows explicit web search during saved-draft editing loops", () => {
@@ -0,0 +1,128 @@
+/**
+ * Realtime lineup push
+ *
+ * Unit tests for the lineup realtime contract (channel naming, claim
+ * filters, presence counting, poll fallback) plus source-text contracts
+ * pinning the display, lineup control and dashboard wiring.
+ */
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  buildTimeslotClaimsFilter,
+  countConnectedDisplays,
+  getLineupChannelName,
+  getLineupPollIntervalMs,
+  isOtherOccurrence,
+  LINEUP_SAFETY_POLL_MS,
+  MAX_REALTIME_FILTER_VALUES,
+} from "@/lib/events/lineupRealtime";
+
+const DISPLAY_PATH = path.resolve(__dirname, "../app/events/[id]/display/page.tsx");
+const LINEUP_PATH = path.resolve(__dirname, "../app/events/[id]/lineup/page.tsx");
+const CONTROL_SECTION_PATH = path.resolve(
+  __dirname,
+  "../app/(protected)/dashboard/my-events/[id]/_components/LineupControlSection.tsx",
+);
+const HOOK_PATH = path.resolve(__dirname, "../hooks/useLineupRealtime.ts");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260504010000_lineup_realtime_publication.sql",
+);
+
+describe("lineupRealtime helpers", () => {
+  it("scopes the channel to one occurrence", () => {
+    expect(getLineupChannelName("evt-1", "2026-05-04")).toBe("lineup:evt-1:2026-05-04");
+  });
+
+  it("builds an in() filter for the occurrence's timeslots", () => {
+    expect(buildTimeslotClaimsFilter(["a", "b"])).toBe("timeslot_id=in.(a,b)");
+  });
+
+  it("returns null when there are no slots or too many to filter", () => {
+    expect(buildTimeslotClaimsFilter([])).toBeNull();
+    const tooMany = Array.from({ length: MAX_REALTIME_FILTER_VALUES + 1 }, (_, i) => `s${i}`);
+    expect(buildTimeslotClaimsFilter(tooMany)).toBeNull();
+  });
+
+  it("counts display presence keys, ignoring control pages and duplicate metas", () => {
+    expect(
+      countConnectedDisplays({
+        "display-a": [{ role: "display" }, { role: "display" }],
+        "display-b": [{ role: "display" }],
+        "control-a": [{ role: "control" }],
+        "observer-a": [{}],
+      })
+    ).toBe(2);
+    expect(countConnectedDisplays({})).toBe(0);
+  });
+
+  it("uses the safety poll while live and the page cadence otherwise", () => {
+    expect(getLineupPollIntervalMs("live", 5000)).toBe(LINEUP_SAFETY_POLL_MS);
+    expect(getLineupPollIntervalMs("connecting", 5000)).toBe(5000);
+    expect(getLineupPollIntervalMs("offline", 10000)).toBe(10000);
+  });
+
+  it("ignores rows from other occurrences of the same event", () => {
+    expect(isOtherOccurrence({ date_key: "2026-05-11" }, "2026-05-04")).toBe(true);
+    expect(isOtherOccurrence({ date_key: "2026-05-04" }, "2026-05-04")).toBe(false);
+    // DELETE payloads without replica identity carry no date_key: refetch
+    expect(isOtherOccurrence({}, "2026-05-04")).toBe(false);
+    expect(isOtherOccurrence(null, "2026-05-04")).toBe(false);
+  });
+});
+
+describe("useLineupRealtime hook contract", () => {
+  const source = fs.readFileSync(HOOK_PATH, "utf-8");
+
+  it("subscribes to all three lineup tables", () => {
+    expect(source).toContain('table: "event_lineup_state"');
+    expect(source).toContain('table: "event_timeslots"');
+    expect(source).toContain('table: "timeslot_claims"');
+  });
+
+  it("backfills on (re)subscribe and network recovery", () => {
+    expect(source).toMatch(/status === "SUBSCRIBED"[\s\S]*?scheduleRefetch\(\)/);
+    expect(source).toContain('addEventListener("online"');
+  });
+
+  it("removes the channel on cleanup", () => {
+    expect(source).toContain("supabase.removeChannel(channel)");
+  });
+});
+
+describe("page wiring", () => {
+  it("display page announces itself as a display and keeps a 5s fallback", () => {
+    const source = fs.readFileSync(DISPLAY_PATH, "utf-8");
+    expect(source).toContain("useLineupRealtime(");
+    expect(source).toContain('presenceRole: "display"');
+    expect(source).toContain("getLineupPollIntervalMs(realtimeStatus, 5000)");
+    expect(source).not.toContain("setInterval(fetchData, 5000)");
+  });
+
+  it("lineup page subscribes as control and shows connected displays", () => {
+    const source = fs.readFileSync(LINEUP_PATH, "utf-8");
+    expect(source).toContain("useLineupRealtime(");
+    expect(source).toContain('presenceRole: "control"');
+    expect(source).toContain("getLineupPollIntervalMs(realtimeStatus, 10000)");
+    expect(source).toContain('data-testid="connected-displays"');
+  });
+
+  it("dashboard Lineup Control section shows connected displays", () => {
+    const source = fs.readFileSync(CONTROL_SECTION_PATH, "utf-8");
+    expect(source).toContain("useConnectedDisplays(");
+    expect(source).toContain('data-testid="connected-displays"');
+  });
+});
+
+describe("realtime publication migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("adds the lineup tables to supabase_realtime without touching policies", () => {
+    expect(sql).toContain("ALTER PUBLICATION supabase_realtime ADD TABLE");
+    for (const table of ["event_lineup_state", "timeslot_claims", "event_timeslots"]) {
+      expect(sql).toContain(`'${table}'`);
+    }
+    expect(sql).not.toMatch(/\b(CREATE|ALTER|DROP)\s+POLICY\b/i);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Lottery (hat draw) signup mode
+ *
+ * Unit tests for the seeded draw and cutoff helpers plus source-text
+ * contracts for the migration, the lottery API, the cron and the
+ * dropout path through waitlistOffer.ts.
+ */
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  formatLotteryCutoffOffset,
+  getLotteryCutoff,
+  isLotteryOpen,
+  LOTTERY_ALGORITHM,
+  type LotteryDrawResult,
+} from "@/lib/events/lottery";
+import { drawLottery, seededShuffle, verifyLotteryDraw } from "@/lib/events/lotteryDraw";
+
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260507010000_lottery_signup_mode.sql",
+);
+const LOTTERY_ROUTE_PATH = path.resolve(__dirname, "../app/api/events/[id]/lottery/route.ts");
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/lottery-draws/route.ts");
+const CLAIMS_ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/claims/route.ts");
+const REQUEST_CODE_PATH = path.resolve(__dirname, "../app/api/guest/timeslot-claim/request-code/route.ts");
+const WAITLIST_OFFER_PATH = path.resolve(__dirname, "../lib/waitlistOffer.ts");
+const LOTTERY_SERVER_PATH = path.resolve(__dirname, "../lib/events/lotteryServer.ts");
+const VERCEL_CONFIG_PATH = path.resolve(__dirname, "../../vercel.json");
+
+const ENTRIES = ["e-05", "e-02", "e-04", "e-01", "e-03"];
+
+describe("seeded draw", () => {
+  it("is deterministic for a seed and independent of input order", () => {
+    const a = drawLottery({ entryIds: ENTRIES, seed: "abc123", slotCount: 3 });
+    const b = drawLottery({ entryIds: [...ENTRIES].reverse(), seed: "abc123", slotCount: 3 });
+    expect(a).toEqual(b);
+  });
+
+  it("produces a permutation of the entrants", () => {
+    const { order } = drawLottery({ entryIds: ENTRIES, seed: "seed-1", slotCount: 2 });
+    expect([...order].sort()).toEqual([...ENTRIES].sort());
+  });
+
+  it("changes with the seed", () => {
+    const orders = new Set(
+      ["s1", "s2", "s3", "s4", "s5", "s6"].map((seed) => seededShuffle(ENTRIES, seed).join(","))
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+
+  it("splits winners and waitlist by slot count", () => {
+    const outcome = drawLottery({ entryIds: ENTRIES, seed: "abc123", slotCount: 3 });
+    expect(outcome.winners).toEqual(outcome.order.slice(0, 3));
+    expect(outcome.waitlist).toEqual(outcome.order.slice(3));
+  });
+
+  it("gives everyone a slot when the pool is smaller than the lineup", () => {
+    const outcome = drawLottery({ entryIds: ["e-01", "e-02"], seed: "x", slotCount: 8 });
+    expect(outcome.winners).toHaveLength(2);
+    expect(outcome.waitlist).toEqual([]);
+  });
+
+  it("does not mutate the input", () => {
+    const input = [...ENTRIES];
+    seededShuffle(input, "abc123");
+    expect(input).toEqual(ENTRIES);
+  });
+});
+
+describe("verifyLotteryDraw", () => {
+  const seed = "0f1e2d3c4b5a69788796a5b4c3d2e1f0";
+  const outcome = drawLottery({ entryIds: ENTRIES, seed, slotCount: 2 });
+  const result: LotteryDrawResult = {
+    algorithm: LOTTERY_ALGORITHM,
+    entrants: [...ENTRIES].sort().map((id) => ({ entry_id: id, name: id })),
+    order: outcome.order,
+    assignments: outcome.winners.map((id, idx) => ({ entry_id: id, timeslot_id: `slot-${idx}`, slot_index: idx })),
+  };
+
+  it("accepts the published result", () => {
+    expect(verifyLotteryDraw(seed, result)).toBe(true);
+  });
+
+  it("rejects a tampered order or seed", () => {
+    expect(verifyLotteryDraw(seed, { ...result, order: [...result.order].reverse() })).toBe(false);
+    expect(verifyLotteryDraw("other-seed", result)).toBe(false);
+  });
+});
+
+describe("cutoff", () => {
+  it("anchors on signup_time in Denver wall time (MDT)", () => {
+    const cutoff = getLotteryCutoff({ dateKey: "2026-07-14", signupTime: "18:30:00", startTime: "19:00:00", offsetMinutes: 0 });
+    expect(cutoff?.toISOString()).toBe("2026-07-15T00:30:00.000Z");
+  });
+
+  it("falls back to start_time and applies the offset (MST)", () => {
+    const cutoff = getLotteryCutoff({ dateKey: "2026-12-01", signupTime: null, startTime: "19:00", offsetMinutes: -30 });
+    expect(cutoff?.toISOString()).toBe("2026-12-02T01:30:00.000Z");
+  });
+
+  it("has no cutoff without any time", () => {
+    expect(getLotteryCutoff({ dateKey: "2026-12-01", signupTime: null, startTime: null, offsetMinutes: 0 })).toBeNull();
+    expect(isLotteryOpen(null, new Date())).toBe(false);
+  });
+
+  it("closes entries at the cutoff", () => {
+    const cutoff = new Date("2026-07-15T00:30:00.000Z");
+    expect(isLotteryOpen(cutoff, new Date("2026-07-15T00:29:59.000Z"))).toBe(true);
+    expect(isLotteryOpen(cutoff, cutoff)).toBe(false);
+  });
+
+  it("describes the offset", () => {
+    expect(formatLotteryCutoffOffset(0)).toBe("At signup time");
+    expect(formatLotteryCutoffOffset(15)).toBe("15 min after signup time");
+    expect(formatLotteryCutoffOffset(-30)).toBe("30 min before signup time");
+  });
+});
+
+describe("lottery migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("allows the lottery signup mode", () => {
+    expect(sql).toContain("'walk_in', 'lottery'");
+  });
+
+  it("stores one draw per occurrence with its seed", () => {
+    expect(sql).toContain("UNIQUE (event_id, date_key)");
+    expect(sql).toContain("seed text NOT NULL");
+  });
+
+  it("blocks first-come claims until the draw has run", () => {
+    expect(sql).toContain("BEFORE INSERT ON public.timeslot_claims");
+    expect(sql).toContain("FROM public.timeslot_lottery_draws d");
+  });
+
+  it("acknowledges its policy changes", () => {
+    expect(sql).toContain("-- REVIEWED: policy change acknowledged");
+  });
+});
+
+describe("route contracts", () => {
+  it("lottery API reads the event with the session client before the service role", () => {
+    const source = fs.readFileSync(LOTTERY_ROUTE_PATH, "utf-8");
+    const post = source.slice(source.indexOf("export async function POST"));
+    expect(post.indexOf("loadLotteryEvent(eventId)")).toBeLessThan(post.indexOf("createServiceRoleClient()"));
+    expect(post).toContain("isLotteryOpen(cutoff, new Date())");
+  });
+
+  it("the draw row is written before any claims", () => {
+    const source = fs.readFileSync(LOTTERY_SERVER_PATH, "utf-8");
+    const drawInsert = source.indexOf('from("timeslot_lottery_draws").insert');
+    const claimInsert = source.indexOf('from("timeslot_claims")\n      .insert');
+    expect(drawInsert).toBeGreaterThan(-1);
+    expect(claimInsert).toBeGreaterThan(drawInsert);
+    expect(source).toContain("getTimeslotClaimConfirmationEmail(");
+  });
+
+  it("cron checks CRON_SECRET before creating the service client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    expect(source.indexOf("Bearer ${cronSecret}")).toBeLessThan(source.indexOf("createServiceRoleClient()"));
+    const vercel = JSON.parse(fs.readFileSync(VERCEL_CONFIG_PATH, "utf-8"));
+    expect(vercel.crons.map((c: { path: string }) => c.path)).toContain("/api/cron/lottery-draws");
+  });
+
+  it("dropouts offer the slot to the next entrant through waitlistOffer.ts", () => {
+    const source = fs.readFileSync(WAITLIST_OFFER_PATH, "utf-8");
+    expect(source).toContain("export async function promoteNextLotteryEntrant");
+    expect(source).toContain("performerSlot: true");
+    const claims = fs.readFileSync(CLAIMS_ROUTE_PATH, "utf-8");
+    expect(claims).toContain("promoteNextLotteryEntrant(serviceClient, eventId, claimDateKey, claim.timeslot_id)");
+  });
+
+  it("guests cannot claim before the draw", () => {
+    const source = fs.readFileSync(REQUEST_CODE_PATH, "utf-8");
+    expect(source).toContain("event.signup_mode === LOTTERY_SIGNUP_MODE");
+  });
+});
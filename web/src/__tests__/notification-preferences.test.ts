@@ -21,9 +21,22 @@ describe("Notification Preferences", () => {
       expect(DEFAULT_PREFERENCES.email_admin_notifications).toBe(true);
     });
 
-    it("has exactly 8 preference keys", () => {
+    it("defaults the digest to weekly on Sunday with every section and no distance limit", () => {
+      expect(DEFAULT_PREFERENCES.digest_cadence).toBe("weekly");
+      expect(DEFAULT_PREFERENCES.digest_day).toBe(0);
+      expect(DEFAULT_PREFERENCES.digest_sections).toEqual([
+        "open_mics",
+        "showcases",
+        "blog",
+        "gallery",
+        "new_members",
+      ]);
+      expect(DEFAULT_PREFERENCES.digest_max_distance_miles).toBeNull();
+    });
+
+    it("has exactly 12 preference keys", () => {
       const keys = Object.keys(DEFAULT_PREFERENCES);
-      expect(keys).toHaveLength(8);
+      expect(keys).toHaveLength(12);
       expect(keys).toContain("email_enabled");
       expect(keys).toContain("email_claim_updates");
       expect(keys).toContain("email_event_updates");
@@ -32,6 +45,10 @@ describe("Notification Preferences", () => {
       expect(keys).toContain("email_attendee_activity");
       expect(keys).toContain("email_digests");
       expect(keys).toContain("email_invitations");
+      expect(keys).toContain("digest_cadence");
+      expect(keys).toContain("digest_day");
+      expect(keys).toContain("digest_sections");
+      expect(keys).toContain("digest_max_distance_miles");
     });
   });
 
@@ -0,0 +1,266 @@
+/**
+ * Data Health Tests
+ *
+ * Tests for dataHealth.ts row checks, link checks with a stub fetcher and
+ * fix links, plus source contracts for the cron/admin routes and migration.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  DATA_HEALTH_CHECK_KEYS,
+  checkBrokenLinks,
+  countIssuesByCheck,
+  dataHealthFixHref,
+  isBrokenLinkResult,
+  runDataHealthChecks,
+  type HealthEventRow,
+  type HealthVenueRow,
+  type LinkFetcher,
+} from "@/lib/ops/dataHealth";
+import { fetchLinkStatus } from "@/lib/ops/dataHealthServer";
+
+const SERVER_PATH = path.resolve(__dirname, "../lib/ops/dataHealthServer.ts");
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/data-health/route.ts");
+const RUN_ROUTE_PATH = path.resolve(__dirname, "../app/api/admin/ops/data-health/run/route.ts");
+const VERCEL_JSON_PATH = path.resolve(__dirname, "../../vercel.json");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260514010000_data_health_runs.sql"
+);
+
+// Monday
+const TODAY = "2026-06-01";
+const NOW = new Date("2026-06-01T18:00:00Z");
+
+const makeEvent = (overrides: Partial<HealthEventRow> = {}): HealthEventRow => ({
+  id: "event-1",
+  title: "Tuesday Open Mic",
+  venue_id: "venue-1",
+  venue_name: "Mercury Cafe",
+  custom_location_name: null,
+  location_mode: "venue",
+  online_url: null,
+  age_policy: null,
+  is_dsc_event: false,
+  event_type: ["open_mic"],
+  last_verified_at: "2026-05-20T00:00:00Z",
+  event_date: "2026-01-06",
+  day_of_week: "Tuesday",
+  recurrence_rule: "weekly",
+  recurrence_end_date: null,
+  start_time: "19:00:00",
+  max_occurrences: null,
+  custom_dates: null,
+  external_url: null,
+  signup_url: null,
+  ...overrides,
+});
+
+const makeVenue = (overrides: Partial<HealthVenueRow> = {}): HealthVenueRow => ({
+  id: "venue-1",
+  name: "Mercury Cafe",
+  latitude: 39.7497,
+  longitude: -104.9865,
+  ...overrides,
+});
+
+const run = (input: Partial<Parameters<typeof runDataHealthChecks>[0]>) =>
+  runDataHealthChecks({ venues: [], events: [], overrides: [], today: TODAY, now: NOW, ...input });
+
+describe("runDataHealthChecks", () => {
+  it("flags nothing for a healthy venue and recently verified weekly event", () => {
+    expect(run({ venues: [makeVenue()], events: [makeEvent()] })).toEqual([]);
+  });
+
+  it("flags venues missing either coordinate", () => {
+    const issues = run({
+      venues: [makeVenue({ id: "v-a", latitude: null }), makeVenue({ id: "v-b", longitude: null })],
+    });
+    expect(issues.map((i) => [i.checkKey, i.entityId])).toEqual([
+      ["venue_missing_geocode", "v-a"],
+      ["venue_missing_geocode", "v-b"],
+    ]);
+  });
+
+  it("flags orphan venue_name once, not again as missing details", () => {
+    const issues = run({ events: [makeEvent({ venue_id: null, venue_name: "Somewhere Bar" })] });
+    expect(issues.map((i) => i.checkKey)).toEqual(["orphan_venue_name"]);
+    expect(issues[0].detail).toBe("Somewhere Bar");
+  });
+
+  it("flags missing details with the reasons", () => {
+    const issues = run({ events: [makeEvent({ is_dsc_event: true, age_policy: null })] });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].checkKey).toBe("missing_details");
+    expect(issues[0].detail).toContain("age policy");
+  });
+
+  it("flags stale or missing verification only for events with upcoming dates", () => {
+    const issues = run({
+      events: [
+        makeEvent({ id: "stale", last_verified_at: "2026-01-01T00:00:00Z" }),
+        makeEvent({ id: "never", last_verified_at: null }),
+        makeEvent({
+          id: "past-one-time",
+          recurrence_rule: null,
+          day_of_week: null,
+          event_date: "2026-03-01",
+          last_verified_at: null,
+        }),
+      ],
+    });
+    const stale = issues.filter((i) => i.checkKey === "stale_verification");
+    expect(stale.map((i) => i.entityId)).toEqual(["stale", "never"]);
+    expect(stale[1].detail).toBe("Never verified");
+  });
+
+  it("flags recurring series whose schedule has ended", () => {
+    const issues = run({ events: [makeEvent({ max_occurrences: 4 })] });
+    expect(issues.map((i) => i.checkKey)).toEqual(["recurring_no_future"]);
+  });
+
+  it("flags upcoming overrides on dates the series does not produce", () => {
+    const issues = run({
+      events: [makeEvent()],
+      overrides: [
+        { id: "ov-ok", event_id: "event-1", date_key: "2026-06-02" },
+        { id: "ov-bad", event_id: "event-1", date_key: "2026-06-03" },
+        { id: "ov-past", event_id: "event-1", date_key: "2026-05-20" },
+        { id: "ov-unknown", event_id: "event-missing", date_key: "2026-06-03" },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      checkKey: "override_invalid_date",
+      entityType: "override",
+      entityId: "ov-bad",
+      eventId: "event-1",
+    });
+  });
+});
+
+describe("checkBrokenLinks", () => {
+  it("treats only missing pages, server errors and failures as broken", () => {
+    expect(isBrokenLinkResult({ status: 200 })).toBe(false);
+    expect(isBrokenLinkResult({ status: 403 })).toBe(false);
+    expect(isBrokenLinkResult({ status: 429 })).toBe(false);
+    expect(isBrokenLinkResult({ status: 404 })).toBe(true);
+    expect(isBrokenLinkResult({ status: 410 })).toBe(true);
+    expect(isBrokenLinkResult({ status: 503 })).toBe(true);
+    expect(isBrokenLinkResult({ status: null, error: "TimeoutError" })).toBe(true);
+  });
+
+  it("fetches each URL once and reports every event using a broken one", async () => {
+    const statuses: Record<string, number> = {
+      "https://dead.example.com": 404,
+      "https://ok.example.com": 200,
+    };
+    const fetcher = vi.fn<LinkFetcher>(async (url) => ({ status: statuses[url] ?? 200 }));
+
+    const issues = await checkBrokenLinks(
+      [
+        makeEvent({ id: "a", external_url: "https://dead.example.com", signup_url: "https://ok.example.com" }),
+        makeEvent({ id: "b", signup_url: "https://dead.example.com" }),
+        makeEvent({ id: "c", external_url: "not a url" }),
+      ],
+      fetcher
+    );
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(issues.map((i) => [i.entityId, i.checkKey])).toEqual([
+      ["a", "broken_link"],
+      ["b", "broken_link"],
+    ]);
+    expect(issues[1].detail).toBe("signup_url: https://dead.example.com (HTTP 404)");
+  });
+
+  it("records a throwing fetcher as a failed request", async () => {
+    const fetcher: LinkFetcher = async () => {
+      throw new Error("boom");
+    };
+    const issues = await checkBrokenLinks([makeEvent({ external_url: "https://x.example.com" })], fetcher);
+    expect(issues[0].detail).toContain("(boom)");
+  });
+
+  it("caps distinct URLs per run", async () => {
+    const fetcher = vi.fn<LinkFetcher>(async () => ({ status: 200 }));
+    const events = Array.from({ length: 5 }, (_, n) =>
+      makeEvent({ id: `e${n}`, external_url: `https://site${n}.example.com` })
+    );
+    await checkBrokenLinks(events, fetcher, { limit: 3 });
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("fetchLinkStatus", () => {
+  it("refuses private and non-http links without a request", async () => {
+    expect(await fetchLinkStatus("http://169.254.169.254/latest/meta-data/")).toEqual({
+      status: null,
+      error: "blocked_address",
+    });
+    expect(await fetchLinkStatus("http://[::ffff:10.0.0.1]/")).toEqual({ status: null, error: "blocked_address" });
+    expect(await fetchLinkStatus("https://printer.local/")).toEqual({ status: null, error: "blocked_address" });
+    expect(await fetchLinkStatus("ftp://example.com/file")).toEqual({ status: null, error: "unsupported_scheme" });
+  });
+
+  it("only fetches through safeFetch", () => {
+    const source = fs.readFileSync(SERVER_PATH, "utf-8");
+    expect(source).toContain("await safeFetch(url,");
+    expect(source).not.toMatch(/\bfetch\(/);
+    expect(source).not.toContain('redirect: "follow"');
+  });
+});
+
+describe("countIssuesByCheck and fix links", () => {
+  it("includes every check key, zero when nothing was flagged", () => {
+    const counts = countIssuesByCheck(run({ venues: [makeVenue({ latitude: null })] }));
+    expect(Object.keys(counts).sort()).toEqual([...DATA_HEALTH_CHECK_KEYS].sort());
+    expect(counts.venue_missing_geocode).toBe(1);
+    expect(counts.broken_link).toBe(0);
+  });
+
+  it("links each entity type to its admin editor", () => {
+    expect(dataHealthFixHref({ entityType: "venue", entityId: "v1", eventId: null })).toBe(
+      "/dashboard/admin/venues/v1"
+    );
+    expect(dataHealthFixHref({ entityType: "event", entityId: "e1", eventId: "e1" })).toBe(
+      "/dashboard/admin/events/e1/edit"
+    );
+    expect(dataHealthFixHref({ entityType: "override", entityId: "o1", eventId: "e1" })).toBe(
+      "/dashboard/admin/events/e1/overrides"
+    );
+  });
+});
+
+describe("route and migration contracts", () => {
+  it("cron route checks CRON_SECRET before creating the service client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    const secretIdx = source.indexOf("Bearer ${cronSecret}");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(secretIdx).toBeGreaterThan(-1);
+    expect(clientIdx).toBeGreaterThan(secretIdx);
+  });
+
+  it("is scheduled in vercel.json", () => {
+    const config = JSON.parse(fs.readFileSync(VERCEL_JSON_PATH, "utf-8"));
+    expect(config.crons).toContainEqual(expect.objectContaining({ path: "/api/cron/data-health" }));
+  });
+
+  it("admin run route gates on admin role before the service client and audits", () => {
+    const source = fs.readFileSync(RUN_ROUTE_PATH, "utf-8");
+    const adminIdx = source.indexOf("checkAdminRole(");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(adminIdx).toBeGreaterThan(-1);
+    expect(clientIdx).toBeGreaterThan(adminIdx);
+    expect(source).toContain("opsAudit.dataHealthRun(");
+  });
+
+  it("keeps run tables service-role only", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("ALTER TABLE public.data_health_runs ENABLE ROW LEVEL SECURITY");
+    expect(sql).toContain("ALTER TABLE public.data_health_issues ENABLE ROW LEVEL SECURITY");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Duplicate Detection Tests
+ *
+ * Tests for duplicateDetection.ts scoring, request parsing and merge field
+ * patches, plus source contracts for the merge route and migration.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  EVENT_DUPLICATE_THRESHOLD,
+  VENUE_DUPLICATE_THRESHOLD,
+  buildMergeFieldPatch,
+  duplicatePairKey,
+  findDuplicateEventPairs,
+  findDuplicateVenuePairs,
+  parseDuplicatePairRequest,
+  scoreEventPair,
+  scoreVenuePair,
+  type DuplicateEventCandidate,
+  type DuplicateVenueCandidate,
+} from "@/lib/ops/duplicateDetection";
+
+const MERGE_ROUTE_PATH = path.resolve(__dirname, "../app/api/admin/ops/duplicates/merge/route.ts");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260513010000_duplicate_review_merge.sql"
+);
+
+const ID_A = "11111111-1111-4111-8111-111111111111";
+const ID_B = "22222222-2222-4222-8222-222222222222";
+const ID_C = "33333333-3333-4333-8333-333333333333";
+
+const makeEvent = (overrides: Partial<DuplicateEventCandidate> = {}): DuplicateEventCandidate => ({
+  id: ID_A,
+  title: "Tuesday Open Mic",
+  slug: "tuesday-open-mic",
+  venue_id: "venue-1",
+  venue_name: "Mercury Cafe",
+  custom_location_name: null,
+  day_of_week: "Tuesday",
+  event_date: null,
+  start_time: "19:00:00",
+  series_id: null,
+  status: "active",
+  is_published: true,
+  created_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+const makeVenue = (overrides: Partial<DuplicateVenueCandidate> = {}): DuplicateVenueCandidate => ({
+  id: ID_A,
+  name: "Mercury Cafe",
+  slug: "mercury-cafe",
+  address: "2199 California Street",
+  city: "Denver",
+  latitude: 39.7497,
+  longitude: -104.9865,
+  created_at: "2026-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("scoreEventPair", () => {
+  it("scores identical venue, day, time and title at 1", () => {
+    const result = scoreEventPair(makeEvent(), makeEvent({ id: ID_B }));
+    expect(result.score).toBe(1);
+    expect(result.reasons).toEqual(["Same venue", "Same day of week", "Same start time", "Same title"]);
+  });
+
+  it("gives half time credit within 30 minutes and none beyond", () => {
+    const close = scoreEventPair(makeEvent(), makeEvent({ id: ID_B, start_time: "19:30:00" }));
+    expect(close.score).toBe(0.9);
+    expect(close.reasons).toContain("Start times 30 min apart");
+
+    const far = scoreEventPair(makeEvent(), makeEvent({ id: ID_B, start_time: "20:00:00" }));
+    expect(far.score).toBe(0.8);
+  });
+
+  it("compares dates when both are one-time events", () => {
+    const a = makeEvent({ day_of_week: null, event_date: "2026-06-09" });
+    expect(scoreEventPair(a, makeEvent({ id: ID_B, day_of_week: null, event_date: "2026-06-09" })).reasons)
+      .toContain("Same date");
+    expect(scoreEventPair(a, makeEvent({ id: ID_B, day_of_week: null, event_date: "2026-06-16" })).reasons)
+      .not.toContain("Same date");
+  });
+
+  it("matches a one-off to its recurring twin by weekday", () => {
+    const oneOff = makeEvent({ day_of_week: null, event_date: "2026-06-09" }); // a Tuesday
+    expect(scoreEventPair(oneOff, makeEvent({ id: ID_B })).reasons).toContain("Same day of week");
+  });
+
+  it("falls back to the venue name when venue_id is missing", () => {
+    const a = makeEvent({ venue_id: null, venue_name: "Mercury Café" });
+    const b = makeEvent({ id: ID_B, venue_id: null, venue_name: "mercury cafe" });
+    expect(scoreEventPair(a, b).reasons).toContain("Same venue");
+  });
+});
+
+describe("findDuplicateEventPairs", () => {
+  it("returns ordered pairs above the threshold, highest score first", () => {
+    const events = [
+      makeEvent({ id: ID_C }),
+      makeEvent({ id: ID_A, title: "Open Mic Tuesdays", start_time: "19:15" }),
+      makeEvent({ id: ID_B }),
+    ];
+    const pairs = findDuplicateEventPairs(events);
+    expect(pairs[0]).toMatchObject({ left: { id: ID_B }, right: { id: ID_C }, score: 1 });
+    expect(pairs.every((pair) => pair.left.id < pair.right.id)).toBe(true);
+    expect(pairs.every((pair) => pair.score >= EVENT_DUPLICATE_THRESHOLD)).toBe(true);
+  });
+
+  it("never pairs across venues, within a series, cancelled rows or dismissed pairs", () => {
+    expect(findDuplicateEventPairs([makeEvent(), makeEvent({ id: ID_B, venue_id: "venue-2" })])).toEqual([]);
+    expect(
+      findDuplicateEventPairs([makeEvent({ series_id: "s1" }), makeEvent({ id: ID_B, series_id: "s1" })])
+    ).toEqual([]);
+    expect(findDuplicateEventPairs([makeEvent(), makeEvent({ id: ID_B, status: "cancelled" })])).toEqual([]);
+    expect(
+      findDuplicateEventPairs([makeEvent(), makeEvent({ id: ID_B })], {
+        dismissed: new Set([duplicatePairKey(ID_B, ID_A)]),
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("scoreVenuePair", () => {
+  it("treats street-suffix spellings and nearby coordinates as the same place", () => {
+    const result = scoreVenuePair(
+      makeVenue(),
+      makeVenue({ id: ID_B, name: "The Mercury Cafe", address: "2199 California St", latitude: 39.7498 })
+    );
+    expect(result.reasons).toContain("Same address");
+    expect(result.score).toBeGreaterThanOrEqual(VENUE_DUPLICATE_THRESHOLD);
+  });
+
+  it("moves the geo weight to the address when coordinates are missing", () => {
+    const withGeo = scoreVenuePair(makeVenue({ name: "A" }), makeVenue({ id: ID_B, name: "B", latitude: 40.5 }));
+    const withoutGeo = scoreVenuePair(
+      makeVenue({ name: "A", latitude: null }),
+      makeVenue({ id: ID_B, name: "B", latitude: null })
+    );
+    expect(withGeo.score).toBe(0.3);
+    expect(withoutGeo.score).toBe(0.55);
+  });
+
+  it("leaves distinct venues out of the queue", () => {
+    const pairs = findDuplicateVenuePairs([
+      makeVenue(),
+      makeVenue({ id: ID_B, name: "Swallow Hill", address: "71 E Yale Ave", latitude: 39.668, longitude: -104.986 }),
+    ]);
+    expect(pairs).toEqual([]);
+  });
+});
+
+describe("parseDuplicatePairRequest", () => {
+  it("validates type and ids", () => {
+    expect(parseDuplicatePairRequest(null)).toEqual({ ok: false, error: "Invalid JSON body" });
+    expect(parseDuplicatePairRequest({ type: "member", survivorId: ID_A, loserId: ID_B }).ok).toBe(false);
+    expect(parseDuplicatePairRequest({ type: "event", survivorId: "x", loserId: ID_B }).ok).toBe(false);
+    expect(parseDuplicatePairRequest({ type: "event", survivorId: ID_A, loserId: ID_A }).ok).toBe(false);
+  });
+
+  it("keeps only known field groups and valid choices", () => {
+    const parsed = parseDuplicatePairRequest({
+      type: "venue",
+      survivorId: ID_A,
+      loserId: ID_B,
+      choices: { name: "loser", address: "survivor", title: "loser", contact: "both" },
+    });
+    expect(parsed).toEqual({
+      ok: true,
+      value: { type: "venue", survivorId: ID_A, loserId: ID_B, choices: { name: "loser", address: "survivor" } },
+    });
+  });
+});
+
+describe("buildMergeFieldPatch", () => {
+  it("copies every column of the groups taken from the loser", () => {
+    const loser = {
+      id: ID_B,
+      title: "Better Title",
+      venue_id: "venue-2",
+      venue_name: "Other Venue",
+      venue_address: null,
+      description: "Long description",
+      host_id: "someone",
+    };
+    const patch = buildMergeFieldPatch("event", { title: "loser", location: "loser", description: "survivor" }, loser);
+    expect(patch).toEqual({
+      title: "Better Title",
+      venue_id: "venue-2",
+      venue_name: "Other Venue",
+      venue_address: null,
+    });
+  });
+
+  it("never includes identity columns", () => {
+    const patch = buildMergeFieldPatch("venue", { name: "loser", slug: "loser", id: "loser" } as never, {
+      id: ID_B,
+      slug: "loser-slug",
+      name: "Loser Name",
+    });
+    expect(patch).toEqual({ name: "Loser Name" });
+  });
+});
+
+describe("duplicate merge contracts", () => {
+  it("checks admin role before creating the service-role client", () => {
+    const source = fs.readFileSync(MERGE_ROUTE_PATH, "utf-8");
+    expect(source.indexOf("checkAdminRole(")).toBeLessThan(source.indexOf("createServiceRoleClient()"));
+    expect(source).toContain("buildMergeFieldPatch(type, choices, loser)");
+    expect(source).toContain('source: "admin_console"');
+  });
+
+  it("keeps merge functions service-role only and leaves slug redirects", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    for (const fn of ["merge_events(uuid, uuid, jsonb)", "merge_venues(uuid, uuid, jsonb)"]) {
+      expect(sql).toContain(`REVOKE EXECUTE ON FUNCTION public.${fn} FROM anon, authenticated, public;`);
+      expect(sql).toContain(`GRANT EXECUTE ON FUNCTION public.${fn} TO service_role;`);
+    }
+    expect(sql).toContain("INSERT INTO event_slug_redirects");
+    expect(sql).toContain("INSERT INTO venue_slug_redirects");
+    expect(sql).toContain("-- REVIEWED: policy change acknowledged");
+  });
+
+  it("moves hosts, invites, lottery and lineup rows to the survivor before deleting the loser", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    const mergeEvents = sql.slice(sql.indexOf("FUNCTION public.merge_events("), sql.indexOf("FUNCTION public.merge_venues("));
+    const deleteIndex = mergeEvents.indexOf("DELETE FROM events WHERE id = p_loser_id");
+    for (const table of [
+      "event_hosts",
+      "event_invites",
+      "event_attendee_invites",
+      "timeslot_lottery_entries",
+      "timeslot_lottery_draws",
+      "event_lineup_state",
+    ]) {
+      const moveIndex = mergeEvents.indexOf(`UPDATE ${table} `);
+      expect(moveIndex, table).toBeGreaterThan(-1);
+      expect(moveIndex, table).toBeLessThan(deleteIndex);
+    }
+    expect(mergeEvents).toContain("'dropped_hosts'");
+    expect(mergeEvents).toContain("'dropped_attendee_invites'");
+    expect(mergeEvents).toContain("'dropped_lottery_entries'");
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Verifies that pre-existing metadata leaks are fixed:
  * 1. OG event route must filter by is_published=true (no draft/cancelled event metadata exposure)
- * 2. Search API must filter non-open-mic events by is_published=true AND status=active
+ * 2. Search index must only hold published + active events (search_source view)
  *
  * These are source-code contract tests — they read the actual route source files
  * and verify the required filters are present. This approach catches regressions
@@ -45,59 +45,57 @@ describe("PR1: OG Event Route Leak Fix", () => {
 });
 
 describe("PR1: Search API Leak Fix", () => {
+  // Search reads public.search_documents, which is filled from the
+  // search_source view. The visibility filters live in that view.
   const searchRouteSource = readFileSync(
     join(SRC_ROOT, "app/api/search/route.ts"),
     "utf-8"
   );
+  const searchIndexSql = readFileSync(
+    join(SRC_ROOT, "../../supabase/migrations/20260508010000_search_index.sql"),
+    "utf-8"
+  );
+  const eventsSource = searchIndexSql.slice(
+    searchIndexSql.indexOf("-- Events (published, public, active)"),
+    searchIndexSql.indexOf("-- Venues")
+  );
 
-  it("must filter non-open-mic events by is_published=true", () => {
-    // The events search query (non-open-mic) must include is_published filter
-    // to prevent draft events from appearing in search results
-    expect(searchRouteSource).toContain('.eq("is_published", true)');
+  it("must filter events by is_published=true", () => {
+    // Draft events must never reach the index
+    expect(eventsSource).toContain("e.is_published = true");
   });
 
-  it("must filter non-open-mic events by status=active", () => {
-    // The events search query (non-open-mic) must include status filter
-    // to prevent cancelled/pending events from appearing in search results
-    //
-    // Count occurrences — open_mic query already has status=active,
-    // so we need at least 2 occurrences total
-    const statusActiveCount = (
-      searchRouteSource.match(/\.eq\("status",\s*"active"\)/g) || []
-    ).length;
-    expect(statusActiveCount).toBeGreaterThanOrEqual(2);
+  it("must filter events by status=active", () => {
+    // Cancelled/pending events must never reach the index
+    expect(eventsSource).toContain("e.status = 'active'");
   });
 
-  it("open_mic query must still filter by status=active", () => {
-    // Verify the existing open_mic filter hasn't been removed
-    expect(searchRouteSource).toContain('.contains("event_type", ["open_mic"])');
-    expect(searchRouteSource).toContain('.eq("status", "active")');
+  it("open mics come from the same filtered event source", () => {
+    // Open mics are events with result_type 'open_mic', not a separate query
+    expect(eventsSource).toContain("'open_mic' = ANY(e.event_type)");
   });
 
   it("blog posts must still filter by is_published=true", () => {
-    // Verify blogs are still filtered (existing correct behavior)
-    // Count occurrences — should be at least 2 (events + blog)
-    const publishedCount = (
-      searchRouteSource.match(/\.eq\("is_published",\s*true\)/g) || []
-    ).length;
-    expect(publishedCount).toBeGreaterThanOrEqual(2);
+    expect(searchIndexSql).toContain("b.is_published = true");
+    expect(searchIndexSql).toContain("b.is_approved = true");
+  });
+
+  it("route reads only through the search index", () => {
+    expect(searchRouteSource).toContain("runSearch");
+    expect(searchRouteSource).not.toContain(".from(");
   });
 });
 
 describe("PR1: No additional leak surfaces in search", () => {
-  const searchRouteSource = readFileSync(
-    join(SRC_ROOT, "app/api/search/route.ts"),
+  const searchServerSource = readFileSync(
+    join(SRC_ROOT, "lib/search/searchServer.ts"),
     "utf-8"
   );
 
-  it("venue search from matching venues must also filter by status=active", () => {
-    // The venueOpenMics secondary query should filter by status=active
-    // (it already did before — verify it hasn't been removed)
-    // This query is: .contains("event_type", ["open_mic"]).eq("status", "active")
-    const activeFilterCount = (
-      searchRouteSource.match(/\.eq\("status",\s*"active"\)/g) || []
-    ).length;
-    // At minimum: open_mic direct query + non-open-mic query + venueOpenMics query = 3
-    expect(activeFilterCount).toBeGreaterThanOrEqual(3);
+  it("search server queries only the index RPCs", () => {
+    // Venue-matched results come from the index too (venue_id filter),
+    // so there is no secondary unfiltered events query
+    expect(searchServerSource).toContain('rpc("search_documents_query"');
+    expect(searchServerSource).not.toMatch(/\.from\("events"\)/);
   });
 });
@@ -65,17 +65,19 @@ describe("PR4: Happenings discovery filters visibility='public'", () => {
 });
 
 describe("PR4: Search API filters visibility='public'", () => {
-  const source = readSource("app/api/search/route.ts");
+  const source = readSource("../../supabase/migrations/20260508010000_search_index.sql");
+  const eventsSource = source.slice(
+    source.indexOf("-- Events (published, public, active)"),
+    source.indexOf("-- Venues")
+  );
 
-  it("open mics search includes visibility filter", () => {
-    expect(source).toContain('.eq("visibility", "public")');
+  it("search index event source includes visibility filter", () => {
+    expect(eventsSource).toContain("e.visibility = 'public'");
   });
 
-  it("all 3 event search queries include visibility filter", () => {
-    // open mics direct, events non-open-mic, venue-matched open mics
-    const matches = source.match(/\.eq\("visibility",\s*"public"\)/g);
-    expect(matches).not.toBeNull();
-    expect(matches!.length).toBeGreaterThanOrEqual(3);
+  it("search route has no direct event queries", () => {
+    // Open mics, events and venue-matched events all come from search_source
+    expect(readSource("app/api/search/route.ts")).not.toContain(".from(");
   });
 });
 
@@ -568,11 +568,14 @@ describe("PR6 Negative: Discovery surfaces exclude invite-only events", () => {
     expect(matches!.length).toBeGreaterThanOrEqual(2);
   });
 
-  it("search: all 3 event queries filter visibility='public'", () => {
-    const source = readSource("app/api/search/route.ts");
-    const matches = source.match(/\.eq\("visibility",\s*"public"\)/g);
-    expect(matches).not.toBeNull();
-    expect(matches!.length).toBeGreaterThanOrEqual(3);
+  it("search: indexed events filter visibility='public'", () => {
+    const source = readSource("../../supabase/migrations/20260508010000_search_index.sql");
+    const eventsSource = source.slice(
+      source.indexOf("-- Events (published, public, active)"),
+      source.indexOf("-- Venues")
+    );
+    expect(eventsSource).toContain("e.visibility = 'public'");
+    expect(source).toContain("p.is_public = true");
   });
 
   it("digest: event query filters visibility='public'", () => {
@@ -0,0 +1,246 @@
+/**
+ * Regions Tests
+ *
+ * Region helpers (local dates, digest send windows, regional editorial
+ * types, home region fallback), recipient grouping, the region filter on
+ * digest happenings, and the regions migration contract.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  FALLBACK_REGION,
+  dateKeyInTimeZone,
+  findRegionBySlug,
+  getDefaultRegion,
+  getRegionalDigestType,
+  getRegionToday,
+  isInRegionDigestWindow,
+  resolveHomeRegion,
+  toRegion,
+  type Region,
+} from "@/lib/regions/regions";
+import { groupRecipientsByRegion } from "@/lib/digest/happeningsEditions";
+import { getUpcomingHappenings, type DigestRecipient } from "@/lib/digest/weeklyHappenings";
+
+const MIGRATION_PATH = path.join(
+  process.cwd(),
+  "../supabase/migrations/20260519010000_regions.sql"
+);
+
+const FRONT_RANGE: Region = {
+  id: 1,
+  slug: "front-range",
+  name: "Front Range",
+  timezone: "America/Denver",
+  mapCenter: { lat: 39.7392, lng: -104.9903 },
+  mapZoom: 9,
+  digestSendHour: 16,
+  isDefault: true,
+};
+
+const BOULDER: Region = {
+  ...FRONT_RANGE,
+  id: 2,
+  slug: "boulder",
+  name: "Boulder",
+  mapCenter: { lat: 40.01499, lng: -105.27055 },
+  mapZoom: 11,
+  isDefault: false,
+};
+
+const HONOLULU: Region = {
+  ...FRONT_RANGE,
+  id: 3,
+  slug: "honolulu",
+  name: "Honolulu",
+  timezone: "Pacific/Honolulu",
+  isDefault: false,
+};
+
+const REGIONS = [FRONT_RANGE, BOULDER, HONOLULU];
+
+function recipient(userId: string, homeRegionId: number | null): DigestRecipient {
+  return {
+    userId,
+    email: `${userId}@example.com`,
+    firstName: userId,
+    homeRegionId,
+  };
+}
+
+describe("region lookups", () => {
+  it("maps a regions row", () => {
+    expect(
+      toRegion({
+        id: 2,
+        slug: "boulder",
+        name: "Boulder",
+        timezone: "America/Denver",
+        map_center_lat: 40.01499,
+        map_center_lng: -105.27055,
+        map_zoom: 11,
+        digest_send_hour: 16,
+        is_default: false,
+      })
+    ).toEqual(BOULDER);
+  });
+
+  it("finds the default region, falling back when there are no regions", () => {
+    expect(getDefaultRegion(REGIONS)).toBe(FRONT_RANGE);
+    expect(getDefaultRegion([BOULDER])).toBe(BOULDER);
+    expect(getDefaultRegion([])).toBe(FALLBACK_REGION);
+  });
+
+  it("finds regions by slug, ignoring case and unknown slugs", () => {
+    expect(findRegionBySlug(REGIONS, "Boulder")).toBe(BOULDER);
+    expect(findRegionBySlug(REGIONS, "atlantis")).toBeNull();
+    expect(findRegionBySlug(REGIONS, undefined)).toBeNull();
+  });
+
+  it("resolves home regions, with missing or inactive ones going to the default", () => {
+    expect(resolveHomeRegion(REGIONS, 2)).toBe(BOULDER);
+    expect(resolveHomeRegion(REGIONS, null)).toBe(FRONT_RANGE);
+    expect(resolveHomeRegion(REGIONS, 99)).toBe(FRONT_RANGE);
+  });
+});
+
+describe("region local time", () => {
+  // 2026-03-01 05:30 UTC = Feb 28 22:30 in Denver, Feb 28 19:30 in Honolulu
+  const lateEvening = new Date("2026-03-01T05:30:00Z");
+
+  it("builds date keys in the region's timezone", () => {
+    expect(dateKeyInTimeZone(lateEvening, "UTC")).toBe("2026-03-01");
+    expect(getRegionToday(FRONT_RANGE, lateEvening)).toBe("2026-02-28");
+    expect(getRegionToday(HONOLULU, lateEvening)).toBe("2026-02-28");
+  });
+
+  it("opens the digest window at the send hour, minutes 20–29 local", () => {
+    // 4:20 PM MST = 23:20 UTC in winter, 4:20 PM MDT = 22:20 UTC in summer
+    expect(isInRegionDigestWindow(FRONT_RANGE, new Date("2026-01-15T23:20:00Z"))).toBe(true);
+    expect(isInRegionDigestWindow(FRONT_RANGE, new Date("2026-07-15T22:25:00Z"))).toBe(true);
+    expect(isInRegionDigestWindow(FRONT_RANGE, new Date("2026-01-15T22:20:00Z"))).toBe(false);
+    expect(isInRegionDigestWindow(FRONT_RANGE, new Date("2026-01-15T23:30:00Z"))).toBe(false);
+    expect(isInRegionDigestWindow(FRONT_RANGE, new Date("2026-01-15T23:19:00Z"))).toBe(false);
+  });
+
+  it("uses each region's own timezone", () => {
+    // 4:20 PM HST = 02:20 UTC the next day
+    const honoluluWindow = new Date("2026-01-16T02:20:00Z");
+    expect(isInRegionDigestWindow(HONOLULU, honoluluWindow)).toBe(true);
+    expect(isInRegionDigestWindow(FRONT_RANGE, honoluluWindow)).toBe(false);
+  });
+
+  it("honors a region's send hour", () => {
+    const morning = { ...BOULDER, digestSendHour: 8 };
+    expect(isInRegionDigestWindow(morning, new Date("2026-01-15T15:20:00Z"))).toBe(true);
+    expect(isInRegionDigestWindow(morning, new Date("2026-01-15T23:20:00Z"))).toBe(false);
+  });
+});
+
+describe("getRegionalDigestType", () => {
+  it("uses the plain type for the default region and no region", () => {
+    expect(getRegionalDigestType("weekly_happenings", FRONT_RANGE)).toBe("weekly_happenings");
+    expect(getRegionalDigestType("weekly_happenings", null)).toBe("weekly_happenings");
+  });
+
+  it("suffixes the slug for other regions", () => {
+    expect(getRegionalDigestType("weekly_happenings", BOULDER)).toBe("weekly_happenings:boulder");
+  });
+});
+
+describe("groupRecipientsByRegion", () => {
+  it("groups members by home region, defaulting unknown and missing regions", () => {
+    const groups = groupRecipientsByRegion(
+      [recipient("a", 2), recipient("b", null), recipient("c", 99), recipient("d", 3)],
+      REGIONS
+    );
+
+    expect(groups.get(BOULDER.id)?.map((r) => r.userId)).toEqual(["a"]);
+    expect(groups.get(FRONT_RANGE.id)?.map((r) => r.userId)).toEqual(["b", "c"]);
+    expect(groups.get(HONOLULU.id)?.map((r) => r.userId)).toEqual(["d"]);
+  });
+
+  it("puts everyone in the fallback region when regions are unavailable", () => {
+    const groups = groupRecipientsByRegion([recipient("a", 2)], []);
+    expect(groups.get(FALLBACK_REGION.id)?.map((r) => r.userId)).toEqual(["a"]);
+  });
+});
+
+describe("getUpcomingHappenings region filter", () => {
+  function createRecordingClient() {
+    const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+    const from = (table: string) => {
+      const builder: Record<string, unknown> = {
+        then: (resolve: (value: { data: unknown[]; error: null }) => unknown) =>
+          Promise.resolve({ data: [], error: null }).then(resolve),
+      };
+      for (const method of ["select", "eq", "or", "in", "gte", "lte", "order", "is", "not"]) {
+        builder[method] = (...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      }
+      return builder;
+    };
+    return { client: { from } as unknown as SupabaseClient<Database>, calls };
+  }
+
+  const eventFilters = (calls: Array<{ table: string; method: string; args: unknown[] }>) =>
+    calls.filter((call) => call.table === "events" && (call.method === "or" || call.args[0] === "region_id"));
+
+  it("limits a region to its own events", async () => {
+    const { client, calls } = createRecordingClient();
+    await getUpcomingHappenings(client, {
+      todayKey: "2026-03-01",
+      region: { regionId: 2, includeUnassigned: false },
+    });
+    expect(eventFilters(calls)).toEqual([{ table: "events", method: "eq", args: ["region_id", 2] }]);
+  });
+
+  it("includes unassigned events for the default region", async () => {
+    const { client, calls } = createRecordingClient();
+    await getUpcomingHappenings(client, {
+      todayKey: "2026-03-01",
+      region: { regionId: 1, includeUnassigned: true },
+    });
+    expect(eventFilters(calls)).toEqual([
+      { table: "events", method: "or", args: ["region_id.eq.1,region_id.is.null"] },
+    ]);
+  });
+
+  it("doesn't filter by region without one", async () => {
+    const { client, calls } = createRecordingClient();
+    await getUpcomingHappenings(client, { todayKey: "2026-03-01" });
+    expect(eventFilters(calls)).toEqual([]);
+  });
+});
+
+describe("regions migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("acknowledges the new RLS policy", () => {
+    expect(sql).toContain("-- REVIEWED: policy change acknowledged");
+    expect(sql).toContain("ALTER TABLE public.regions ENABLE ROW LEVEL SECURITY");
+    expect(sql).toContain('CREATE POLICY "Anyone can view active regions"');
+  });
+
+  it("allows only one default region", () => {
+    expect(sql).toMatch(/CREATE UNIQUE INDEX IF NOT EXISTS idx_regions_single_default[\s\S]*WHERE is_default/);
+  });
+
+  it("derives venue regions from the city and event regions from the venue", () => {
+    expect(sql).toContain("CREATE TRIGGER venues_set_region");
+    expect(sql).toContain("CREATE TRIGGER events_set_region");
+    expect(sql).toContain("CREATE TRIGGER venues_sync_event_regions");
+  });
+
+  it("adds the member home region, cleared when a region is deleted", () => {
+    expect(sql).toContain(
+      "ADD COLUMN IF NOT EXISTS home_region_id integer REFERENCES public.regions(id) ON DELETE SET NULL"
+    );
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Reverification Campaign Tests
+ *
+ * Tests for stale-verification selection, admin queue state, signed answer
+ * answers and the request email, plus source contracts for the cron route,
+ * migration and the suggestion-approval skip.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { isVerificationStale, VERIFICATION_STALE_AFTER_WEEKS } from "@/lib/events/verification";
+import {
+  getReverificationQueueState,
+  requestCoversCurrentVerification,
+  reverificationExpiresAt,
+  selectEventsDueForReverification,
+  type ReverificationEventRow,
+  type ReverificationRequestRow,
+} from "@/lib/reverification/campaign";
+import { isReverificationAnswer, REVERIFICATION_CONFIG } from "@/lib/reverification/config";
+import { getReverificationRequestEmail } from "@/lib/email/templates/reverificationRequest";
+
+const TOKENS_PATH = path.resolve(__dirname, "../lib/reverification/tokens.ts");
+const SERVER_PATH = path.resolve(__dirname, "../lib/reverification/server.ts");
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/reverification/route.ts");
+const SUGGESTION_ROUTE_PATH = path.resolve(
+  __dirname,
+  "../app/api/admin/event-update-suggestions/[id]/route.ts"
+);
+const VERCEL_JSON_PATH = path.resolve(__dirname, "../../vercel.json");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260515010000_reverification_requests.sql"
+);
+
+// Monday
+const TODAY = "2026-06-01";
+const NOW = new Date("2026-06-01T18:00:00Z");
+const STALE_VERIFIED_AT = "2026-01-05T00:00:00.000Z";
+
+const makeEvent = (overrides: Partial<ReverificationEventRow> = {}): ReverificationEventRow => ({
+  id: "event-1",
+  title: "Tuesday Open Mic",
+  status: "active",
+  is_published: true,
+  last_verified_at: STALE_VERIFIED_AT,
+  event_date: "2026-01-06",
+  day_of_week: "Tuesday",
+  recurrence_rule: "weekly",
+  start_time: "19:00:00",
+  max_occurrences: null,
+  custom_dates: null,
+  ...overrides,
+});
+
+const makeRequest = (overrides: Partial<ReverificationRequestRow> = {}): ReverificationRequestRow => ({
+  id: "request-1",
+  event_id: "event-1",
+  status: "pending",
+  verified_at_send: STALE_VERIFIED_AT,
+  sent_at: "2026-05-26T16:00:00.000Z",
+  expires_at: "2026-06-16T16:00:00.000Z",
+  ...overrides,
+});
+
+const select = (events: ReverificationEventRow[], requests: ReverificationRequestRow[] = []) =>
+  selectEventsDueForReverification(
+    events,
+    new Map(requests.map((r) => [r.event_id, r])),
+    { today: TODAY, now: NOW }
+  );
+
+describe("isVerificationStale", () => {
+  it("is false for unverified and cancelled events", () => {
+    expect(isVerificationStale({ last_verified_at: null }, NOW)).toBe(false);
+    expect(isVerificationStale({ status: "cancelled", last_verified_at: STALE_VERIFIED_AT }, NOW)).toBe(false);
+  });
+
+  it("flips after the stale window", () => {
+    const weekMs = 7 * 24 * 60 * 60 * 1000;
+    const justInside = new Date(NOW.getTime() - (VERIFICATION_STALE_AFTER_WEEKS * weekMs - 60_000));
+    const justOutside = new Date(NOW.getTime() - (VERIFICATION_STALE_AFTER_WEEKS * weekMs + 60_000));
+    expect(isVerificationStale({ last_verified_at: justInside.toISOString() }, NOW)).toBe(false);
+    expect(isVerificationStale({ last_verified_at: justOutside.toISOString() }, NOW)).toBe(true);
+  });
+});
+
+describe("selectEventsDueForReverification", () => {
+  it("selects a stale published recurring event", () => {
+    expect(select([makeEvent()]).map((e) => e.id)).toEqual(["event-1"]);
+  });
+
+  it("skips fresh, unverified, unpublished and cancelled events", () => {
+    const events = [
+      makeEvent({ id: "fresh", last_verified_at: "2026-05-20T00:00:00Z" }),
+      makeEvent({ id: "unverified", last_verified_at: null }),
+      makeEvent({ id: "unpublished", is_published: false }),
+      makeEvent({ id: "cancelled", status: "cancelled" }),
+    ];
+    expect(select(events)).toEqual([]);
+  });
+
+  it("skips events with no upcoming date", () => {
+    const oneOff = makeEvent({
+      id: "one-off",
+      day_of_week: null,
+      recurrence_rule: null,
+      event_date: "2026-01-10",
+    });
+    const finished = makeEvent({ id: "finished", max_occurrences: 4 });
+    expect(select([oneOff, finished])).toEqual([]);
+  });
+
+  it("skips events already asked about this verification", () => {
+    expect(select([makeEvent()], [makeRequest()])).toEqual([]);
+    expect(select([makeEvent()], [makeRequest({ status: "expired" })])).toEqual([]);
+    expect(select([makeEvent()], [makeRequest({ status: "unreachable" })])).toEqual([]);
+  });
+
+  it("asks again once a newer verification has gone stale", () => {
+    const event = makeEvent({ last_verified_at: "2026-02-01T00:00:00.000Z" });
+    expect(select([event], [makeRequest({ status: "responded" })]).map((e) => e.id)).toEqual(["event-1"]);
+  });
+
+  it("never sends while a request is pending, even for an older verification", () => {
+    const event = makeEvent({ last_verified_at: "2026-02-01T00:00:00.000Z" });
+    expect(select([event], [makeRequest({ status: "pending" })])).toEqual([]);
+  });
+});
+
+describe("getReverificationQueueState", () => {
+  it("is null when never asked, answered or re-verified", () => {
+    expect(getReverificationQueueState(makeEvent(), undefined, NOW)).toBeNull();
+    expect(getReverificationQueueState(makeEvent(), makeRequest({ status: "responded" }), NOW)).toBeNull();
+    expect(
+      getReverificationQueueState(makeEvent({ last_verified_at: "2026-05-30T00:00:00Z" }), makeRequest(), NOW)
+    ).toBeNull();
+  });
+
+  it("reports pending, no_response and unreachable", () => {
+    expect(getReverificationQueueState(makeEvent(), makeRequest(), NOW)).toBe("pending");
+    expect(getReverificationQueueState(makeEvent(), makeRequest({ status: "expired" }), NOW)).toBe("no_response");
+    expect(
+      getReverificationQueueState(makeEvent(), makeRequest({ expires_at: "2026-05-31T00:00:00Z" }), NOW)
+    ).toBe("no_response");
+    expect(getReverificationQueueState(makeEvent(), makeRequest({ status: "unreachable" }), NOW)).toBe("unreachable");
+  });
+
+  it("keeps a lapsed event in the queue after the cron un-confirms it", () => {
+    const lapsed = makeEvent({ last_verified_at: null });
+    expect(getReverificationQueueState(lapsed, makeRequest({ status: "expired" }), NOW)).toBe("no_response");
+    expect(getReverificationQueueState(lapsed, makeRequest({ status: "responded" }), NOW)).toBeNull();
+  });
+
+  it("drops cancelled events from the queue", () => {
+    expect(
+      getReverificationQueueState(makeEvent({ status: "cancelled" }), makeRequest({ status: "expired" }), NOW)
+    ).toBeNull();
+  });
+
+  it("compares verification timestamps as instants", () => {
+    expect(
+      requestCoversCurrentVerification(
+        { last_verified_at: "2026-01-05T00:00:00+00:00" },
+        { verified_at_send: "2026-01-05T00:00:00.000Z" }
+      )
+    ).toBe(true);
+  });
+});
+
+describe("reverification answers", () => {
+  it("validates answers", () => {
+    expect(isReverificationAnswer("changed")).toBe(true);
+    expect(isReverificationAnswer("confirm")).toBe(false);
+    expect(isReverificationAnswer(undefined)).toBe(false);
+  });
+
+  it("expires requests after the response window", () => {
+    const sent = new Date("2026-06-01T00:00:00Z");
+    expect(reverificationExpiresAt(sent).getTime() - sent.getTime()).toBe(
+      REVERIFICATION_CONFIG.RESPONSE_DAYS * 24 * 60 * 60 * 1000
+    );
+  });
+});
+
+describe("reverification request email", () => {
+  const email = getReverificationRequestEmail({
+    recipientName: "Sam",
+    recipientRole: "venue_manager",
+    eventTitle: "Open Mic <Night>",
+    scheduleLabel: "Every Tuesday at 7:00 PM",
+    venueName: "Mercury Cafe",
+    eventUrl: "https://example.com/events/open-mic",
+    stillHappeningUrl: "https://example.com/reverify?answer=still_happening",
+    changedUrl: "https://example.com/reverify?answer=changed",
+    endedUrl: "https://example.com/reverify?answer=ended",
+    respondByDate: "Monday, June 22",
+  });
+
+  it("includes all three answer links", () => {
+    for (const answer of ["still_happening", "changed", "ended"]) {
+      expect(email.html).toContain(`answer=${answer}`);
+      expect(email.text).toContain(`answer=${answer}`);
+    }
+  });
+
+  it("escapes the title in html and names the recipient's relation", () => {
+    expect(email.html).toContain("Open Mic &lt;Night&gt;");
+    expect(email.html).not.toContain("<Night>");
+    expect(email.text).toContain("happens at a venue you manage");
+    expect(email.text).toContain("Monday, June 22");
+  });
+});
+
+describe("reverification source contracts", () => {
+  it("cron route checks CRON_SECRET before creating the service client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    const secretIdx = source.indexOf("Bearer ${cronSecret}");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(secretIdx).toBeGreaterThan(-1);
+    expect(clientIdx).toBeGreaterThan(secretIdx);
+  });
+
+  it("signs and verifies tokens under their own audience", () => {
+    const source = fs.readFileSync(TOKENS_PATH, "utf-8");
+    expect(source).toContain('const TOKEN_AUDIENCE = "reverification"');
+    expect(source).toContain(".setAudience(TOKEN_AUDIENCE)");
+    expect(source).toContain("{ audience: TOKEN_AUDIENCE }");
+  });
+
+  it("is scheduled in vercel.json", () => {
+    const config = JSON.parse(fs.readFileSync(VERCEL_JSON_PATH, "utf-8"));
+    expect(config.crons.map((c: { path: string }) => c.path)).toContain("/api/cron/reverification");
+  });
+
+  it("migration keeps requests service-role only with one pending request per event", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("ENABLE ROW LEVEL SECURITY");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+    expect(sql).toMatch(/CREATE UNIQUE INDEX[\s\S]*WHERE status = 'pending'/);
+  });
+
+  it("un-confirms events whose request expired, only for the verification it asked about", () => {
+    const source = fs.readFileSync(SERVER_PATH, "utf-8");
+    const expireIdx = source.indexOf('.update({ status: "expired" })');
+    const lapseIdx = source.indexOf(".update({ last_verified_at: null, verified_by: null })");
+    expect(expireIdx).toBeGreaterThan(-1);
+    expect(lapseIdx).toBeGreaterThan(expireIdx);
+    expect(source.slice(lapseIdx)).toMatch(/\.eq\("last_verified_at", request\.verified_at_send\)/);
+  });
+
+  it("approving a change report never writes a _reverification column", () => {
+    const source = fs.readFileSync(SUGGESTION_ROUTE_PATH, "utf-8");
+    expect(source).toContain("currentSuggestion.field !== '_reverification'");
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Host run-of-show console
+ *
+ * Unit tests for the run-of-show contract (timers, auto-advance, bump
+ * target, schedule drift) plus source-text contracts for the API route,
+ * the lineup console wiring and the TV display timer mirror.
+ */
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  computePerformerDrift,
+  denverMinutesIntoDate,
+  findBumpTargetSlot,
+  findNextClaimedSlot,
+  formatDriftMinutes,
+  formatTimerSeconds,
+  getSlotTimer,
+  type RunOfShowSlot,
+} from "@/lib/events/runOfShow";
+
+const ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/run-of-show/route.ts");
+const LINEUP_PATH = path.resolve(__dirname, "../app/events/[id]/lineup/page.tsx");
+const DISPLAY_PATH = path.resolve(__dirname, "../app/events/[id]/display/page.tsx");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260505010000_lineup_run_of_show.sql",
+);
+
+function slot(id: string, slotIndex: number, status: string | null): RunOfShowSlot {
+  return {
+    id,
+    slot_index: slotIndex,
+    claim: status ? { id: `claim-${id}`, status } : null,
+  };
+}
+
+describe("getSlotTimer", () => {
+  const startedAt = "2026-05-04T02:00:00.000Z";
+
+  it("counts down within the slot", () => {
+    const timer = getSlotTimer({
+      startedAt,
+      durationMinutes: 10,
+      warningSeconds: 120,
+      now: new Date("2026-05-04T02:03:00.000Z"),
+    });
+    expect(timer).toEqual({ elapsedSeconds: 180, remainingSeconds: 420, phase: "on_time" });
+  });
+
+  it("warns inside the warning window", () => {
+    const timer = getSlotTimer({
+      startedAt,
+      durationMinutes: 10,
+      warningSeconds: 120,
+      now: new Date("2026-05-04T02:08:30.000Z"),
+    });
+    expect(timer.phase).toBe("warning");
+    expect(timer.remainingSeconds).toBe(90);
+  });
+
+  it("goes overtime past the slot end", () => {
+    const timer = getSlotTimer({
+      startedAt,
+      durationMinutes: 10,
+      warningSeconds: 120,
+      now: new Date("2026-05-04T02:10:45.000Z"),
+    });
+    expect(timer.phase).toBe("overtime");
+    expect(timer.remainingSeconds).toBe(-45);
+  });
+
+  it("never warns when the warning is off", () => {
+    const timer = getSlotTimer({
+      startedAt,
+      durationMinutes: 10,
+      warningSeconds: 0,
+      now: new Date("2026-05-04T02:09:59.000Z"),
+    });
+    expect(timer.phase).toBe("on_time");
+  });
+});
+
+describe("formatTimerSeconds", () => {
+  it("formats remaining and overtime", () => {
+    expect(formatTimerSeconds(425)).toBe("7:05");
+    expect(formatTimerSeconds(0)).toBe("0:00");
+    expect(formatTimerSeconds(-45)).toBe("+0:45");
+  });
+});
+
+describe("findNextClaimedSlot", () => {
+  const slots = [
+    slot("a", 0, "performed"),
+    slot("b", 1, "confirmed"),
+    slot("c", 2, null),
+    slot("d", 3, "confirmed"),
+  ];
+
+  it("skips open slots", () => {
+    expect(findNextClaimedSlot(slots, "b")?.id).toBe("d");
+  });
+
+  it("returns null at the end of the lineup", () => {
+    expect(findNextClaimedSlot(slots, "d")).toBeNull();
+  });
+
+  it("starts from the first waiting performer when nothing is playing", () => {
+    expect(findNextClaimedSlot(slots, null)?.id).toBe("b");
+  });
+});
+
+describe("findBumpTargetSlot", () => {
+  it("uses the first open slot after the last claimed slot", () => {
+    const slots = [
+      slot("a", 0, "confirmed"),
+      slot("b", 1, null),
+      slot("c", 2, "confirmed"),
+      slot("d", 3, null),
+      slot("e", 4, null),
+    ];
+    expect(findBumpTargetSlot(slots, "a")?.id).toBe("d");
+  });
+
+  it("returns null when the lineup is full at the end", () => {
+    const slots = [slot("a", 0, "confirmed"), slot("b", 1, null), slot("c", 2, "confirmed")];
+    expect(findBumpTargetSlot(slots, "a")).toBeNull();
+  });
+});
+
+describe("schedule drift", () => {
+  it("measures minutes into the occurrence date in Denver time", () => {
+    // 2026-05-04 19:42 MDT = 2026-05-05T01:42Z
+    expect(denverMinutesIntoDate(new Date("2026-05-05T01:42:00Z"), "2026-05-04")).toBe(19 * 60 + 42);
+    // 00:30 MDT the next day keeps counting past midnight
+    expect(denverMinutesIntoDate(new Date("2026-05-05T06:30:00Z"), "2026-05-04")).toBe(1440 + 30);
+  });
+
+  it("compares actual start to the scheduled slot start", () => {
+    const drift = computePerformerDrift({
+      dateKey: "2026-05-04",
+      eventStartTime: "19:00:00",
+      startOffsetMinutes: 30,
+      performanceStartedAt: "2026-05-05T01:42:00Z",
+      performanceEndedAt: "2026-05-05T01:53:00Z",
+    });
+    expect(drift).toEqual({
+      scheduledStartMinutes: 19 * 60 + 30,
+      actualStartMinutes: 19 * 60 + 42,
+      driftMinutes: 12,
+      actualDurationMinutes: 11,
+    });
+  });
+
+  it("is null until the performer has gone on", () => {
+    expect(
+      computePerformerDrift({
+        dateKey: "2026-05-04",
+        eventStartTime: "19:00",
+        startOffsetMinutes: 0,
+        performanceStartedAt: null,
+        performanceEndedAt: null,
+      })
+    ).toBeNull();
+  });
+
+  it("formats drift", () => {
+    expect(formatDriftMinutes(12)).toBe("+12 min");
+    expect(formatDriftMinutes(-3)).toBe("-3 min");
+    expect(formatDriftMinutes(0)).toBe("on time");
+  });
+});
+
+describe("run-of-show API route contract", () => {
+  const source = fs.readFileSync(ROUTE_PATH, "utf-8");
+
+  it("authorizes with canManageEvent before creating the service role client", () => {
+    const authIdx = source.indexOf("canManageEvent(supabase, user.id, eventId)");
+    const serviceIdx = source.indexOf("createServiceRoleClient()", source.indexOf("export async function POST"));
+    expect(authIdx).toBeGreaterThan(-1);
+    expect(serviceIdx).toBeGreaterThan(authIdx);
+  });
+
+  it("uses the existing performed / no-show RPCs", () => {
+    expect(source).toContain('rpc("mark_timeslot_performed"');
+    expect(source).toContain('rpc("mark_timeslot_no_show"');
+  });
+
+  it("acts on the server-side now-playing slot, not a body claim id", () => {
+    expect(source).not.toMatch(/body\.claim_id/);
+    expect(source).toContain("now_playing_timeslot_id");
+  });
+
+  it("auto-advances with findNextClaimedSlot", () => {
+    expect(source).toContain("findNextClaimedSlot(slots, currentSlotId)");
+  });
+});
+
+describe("page wiring", () => {
+  it("lineup page renders the run-of-show console and drift", () => {
+    const source = fs.readFileSync(LINEUP_PATH, "utf-8");
+    expect(source).toContain("<RunOfShowConsole");
+    expect(source).toContain("now_playing_started_at, warning_seconds");
+    expect(source).toContain("performance_started_at, performance_ended_at");
+    expect(source).toContain('data-testid="schedule-drift"');
+  });
+
+  it("TV display mirrors the slot timer", () => {
+    const source = fs.readFileSync(DISPLAY_PATH, "utf-8");
+    expect(source).toContain("<SlotCountdown");
+    expect(source).toContain("now_playing_started_at, warning_seconds");
+  });
+});
+
+describe("run-of-show migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("stamps performance times from a lineup state trigger", () => {
+    expect(sql).toContain("BEFORE INSERT OR UPDATE OF now_playing_timeslot_id ON public.event_lineup_state");
+    expect(sql).toContain("performance_started_at = COALESCE(performance_started_at, now())");
+  });
+
+  it("lets accepted co-hosts use the performed / no-show RPCs", () => {
+    expect(sql.match(/AND invitation_status = 'accepted'/g)?.length).toBe(2);
+  });
+
+  it("pins search_path on the re-created SECURITY DEFINER RPCs", () => {
+    for (const name of ["mark_timeslot_no_show", "mark_timeslot_performed"]) {
+      const fn = sql.slice(sql.indexOf(`FUNCTION public.${name}(`));
+      expect(fn.slice(0, fn.indexOf("AS $$"))).toContain("SET search_path = public");
+    }
+  });
+
+  it("makes no policy changes", () => {
+    expect(sql).not.toMatch(/\b(CREATE|ALTER|DROP)\s+POLICY\b/i);
+    expect(sql).not.toMatch(/(ENABLE|DISABLE)\s+ROW\s+LEVEL\s+SECURITY/i);
+  });
+});
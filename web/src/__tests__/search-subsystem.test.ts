@@ -0,0 +1,211 @@
+/**
+ * Site search subsystem
+ *
+ * Unit tests for URL parsing, result formatting and facet grouping plus
+ * source-text contracts for the search index migration.
+ */
+import { describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  buildSearchHref,
+  parseSearchParams,
+  SEARCH_RESULT_TYPES,
+  toggleFacetValue,
+} from "@/lib/search/searchContract";
+import { formatSearchRow, groupFacetRows, runSearch } from "@/lib/search/searchServer";
+
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260508010000_search_index.sql",
+);
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    entity_type: "event",
+    entity_id: "evt-1",
+    result_type: "open_mic",
+    title: "Tuesday Night Open Mic",
+    subtitle: "Mercury Cafe, Denver",
+    url: "/events/tuesday-night-open-mic",
+    image_url: null,
+    city: "Denver",
+    days: ["tue"],
+    cost: "free",
+    occurrence: {
+      event_date: "2026-01-06",
+      day_of_week: "Tuesday",
+      recurrence_rule: "weekly",
+      start_time: "19:00:00",
+      max_occurrences: null,
+      custom_dates: null,
+    },
+    score: 1,
+    total_count: 1,
+    ...overrides,
+  };
+}
+
+describe("parseSearchParams", () => {
+  it("parses filters and drops unknown values", () => {
+    const filters = parseSearchParams(
+      new URLSearchParams("q=  open mic &type=open_mic,bogus,venue&days=tue,xyz&cost=free&city=Denver, CO&page=3")
+    );
+    expect(filters).toMatchObject({
+      q: "open mic",
+      types: ["open_mic", "venue"],
+      days: ["tue"],
+      cost: "free",
+      city: "Denver",
+      page: 3,
+      radius: 10,
+    });
+  });
+
+  it("clamps page, radius and query length", () => {
+    const filters = parseSearchParams({ q: "x".repeat(150), page: "-2", radius: "7", zip: " 80202 " });
+    expect(filters.q).toHaveLength(100);
+    expect(filters.page).toBe(1);
+    expect(filters.radius).toBe(10);
+    expect(filters.zip).toBe("80202");
+  });
+});
+
+describe("buildSearchHref", () => {
+  const base = parseSearchParams({ q: "jazz", days: "fri", page: "4" });
+
+  it("resets to page 1 when a filter changes", () => {
+    expect(buildSearchHref(base, { cost: "free" })).toBe("/search?q=jazz&days=fri&cost=free");
+  });
+
+  it("keeps an explicit page and includes radius only with a zip", () => {
+    expect(buildSearchHref({ ...base, zip: "80202", radius: 25 }, { page: 2 })).toBe(
+      "/search?q=jazz&days=fri&zip=80202&radius=25&page=2"
+    );
+  });
+
+  it("toggles facet values", () => {
+    expect(toggleFacetValue(["mon", "tue"], "tue")).toEqual(["mon"]);
+    expect(toggleFacetValue(["mon"], "tue")).toEqual(["mon", "tue"]);
+  });
+});
+
+describe("formatSearchRow", () => {
+  it("puts the next occurrence in front of the venue subtitle", () => {
+    const result = formatSearchRow(row(), "2026-01-12");
+    expect(result.nextDate).toBe("2026-01-13");
+    expect(result.subtitle).toBe("Tomorrow • 7 PM • Mercury Cafe, Denver");
+  });
+
+  it("leaves past one-time events and non-events untouched", () => {
+    const past = formatSearchRow(
+      row({ result_type: "event", occurrence: { event_date: "2025-06-01", start_time: "19:00:00" } }),
+      "2026-01-12"
+    );
+    expect(past.nextDate).toBeUndefined();
+    expect(past.subtitle).toBe("Mercury Cafe, Denver");
+
+    const venue = formatSearchRow(row({ entity_type: "venue", result_type: "venue", occurrence: null }), "2026-01-12");
+    expect(venue).toEqual({
+      type: "venue",
+      id: "evt-1",
+      title: "Tuesday Night Open Mic",
+      subtitle: "Mercury Cafe, Denver",
+      url: "/events/tuesday-night-open-mic",
+      image: undefined,
+    });
+  });
+});
+
+describe("groupFacetRows", () => {
+  it("groups and orders facets", () => {
+    const facets = groupFacetRows([
+      { facet: "type", value: "venue", count: 2 },
+      { facet: "type", value: "open_mic", count: 5 },
+      { facet: "day", value: "sun", count: 1 },
+      { facet: "day", value: "mon", count: 3 },
+      { facet: "city", value: "Boulder", count: 1 },
+      { facet: "city", value: "Denver", count: 6 },
+      { facet: "cost", value: "paid", count: 1 },
+      { facet: "cost", value: "free", count: 4 },
+    ]);
+    expect(facets.type.map((f) => f.value)).toEqual(["open_mic", "venue"]);
+    expect(facets.day.map((f) => f.value)).toEqual(["mon", "sun"]);
+    expect(facets.city.map((f) => f.value)).toEqual(["Denver", "Boulder"]);
+    expect(facets.cost.map((f) => f.value)).toEqual(["free", "paid"]);
+  });
+});
+
+describe("runSearch", () => {
+  it("skips the database for short queries", async () => {
+    const rpc = vi.fn();
+    const result = await runSearch({ rpc } as never, parseSearchParams({ q: "a" }), { limit: 15, offset: 0 });
+    expect(rpc).not.toHaveBeenCalled();
+    expect(result.total).toBe(0);
+  });
+
+  it("passes filters to both RPCs and reads the window total", async () => {
+    const rpc = vi.fn(async (fn: string) =>
+      fn === "search_documents_query"
+        ? { data: [row({ total_count: 42 })], error: null }
+        : { data: [{ facet: "type", value: "open_mic", count: 42 }], error: null }
+    );
+    const filters = parseSearchParams({ q: "open mic", type: "open_mic", days: "tue", page: "2" });
+    const result = await runSearch({ rpc } as never, filters, {
+      limit: 20,
+      offset: 20,
+      withFacets: true,
+      todayKey: "2026-01-12",
+    });
+
+    expect(rpc).toHaveBeenCalledWith("search_documents_query", expect.objectContaining({
+      p_query: "open mic",
+      p_types: ["open_mic"],
+      p_days: ["tue"],
+      p_limit: 20,
+      p_offset: 20,
+    }));
+    expect(rpc).toHaveBeenCalledWith("search_documents_facets", expect.not.objectContaining({ p_limit: 20 }));
+    expect(result.total).toBe(42);
+    expect(result.facets?.type).toEqual([{ value: "open_mic", count: 42 }]);
+  });
+});
+
+describe("search index migration contract", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("indexes every result type", () => {
+    for (const type of SEARCH_RESULT_TYPES) {
+      expect(sql).toContain(`'${type}'`);
+    }
+  });
+
+  it("only indexes publicly visible rows", () => {
+    expect(sql).toContain("e.is_published = true");
+    expect(sql).toContain("e.visibility = 'public'");
+    expect(sql).toContain("e.status = 'active'");
+    expect(sql).toContain("p.is_public = true");
+    expect(sql).toContain("b.is_approved = true");
+    expect(sql).toContain("g.is_hidden = false");
+    expect(sql).toContain("o.visibility = 'public'");
+  });
+
+  it("keeps the index in sync with triggers on every source table", () => {
+    for (const table of ["events", "venues", "profiles", "blog_posts", "gallery_albums", "organizations"]) {
+      expect(sql).toContain(`ON public.${table}\n  FOR EACH ROW EXECUTE FUNCTION public.sync_search_document(`);
+    }
+  });
+
+  it("matches by prefix and by trigram similarity", () => {
+    expect(sql).toContain("|| ':*'");
+    expect(sql).toContain("q.raw <% d.search_text");
+    expect(sql).toContain("gin_trgm_ops");
+  });
+
+  it("is read-only for clients", () => {
+    expect(sql).toContain("-- REVIEWED: policy change acknowledged");
+    expect(sql).toContain("FOR SELECT\n  TO anon, authenticated\n  USING (true)");
+    expect(sql).not.toMatch(/FOR (INSERT|UPDATE|DELETE|ALL)/);
+    expect(sql).toContain("REVOKE EXECUTE ON FUNCTION public.reindex_search_document");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Per-event signup policies (no-show waitlisting, guest monthly limit,
+ * verification after a no-show)
+ *
+ * Unit tests for the signup policy contract plus source-text contracts for
+ * the enforcement migration, the guest claim routes, the host settings API
+ * and the TimeslotSection policy display.
+ */
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  DEFAULT_NO_SHOW_DECAY_DAYS,
+  describeSignupPolicy,
+  evaluateGuestSignupPolicy,
+  getSignupPolicyErrorMessage,
+  monthDateKeyRange,
+  parseSignupPolicy,
+  validateSignupPolicy,
+  type SignupPolicy,
+} from "@/lib/events/signupPolicy";
+
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260506010000_signup_no_show_policies.sql",
+);
+const REQUEST_CODE_PATH = path.resolve(__dirname, "../app/api/guest/timeslot-claim/request-code/route.ts");
+const VERIFY_CODE_PATH = path.resolve(__dirname, "../app/api/guest/timeslot-claim/verify-code/route.ts");
+const POLICY_ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/signup-policy/route.ts");
+const CLAIMS_ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/claims/route.ts");
+const TIMESLOT_SECTION_PATH = path.resolve(__dirname, "../components/events/TimeslotSection.tsx");
+
+const fullPolicy: SignupPolicy = {
+  waitlist_after_no_shows: 2,
+  guest_slots_per_month: 1,
+  require_verified_after_no_show: true,
+  no_show_decay_days: 90,
+};
+
+describe("validateSignupPolicy", () => {
+  it("accepts a full policy", () => {
+    expect(validateSignupPolicy(fullPolicy)).toEqual({ policy: fullPolicy });
+  });
+
+  it("defaults the decay window", () => {
+    expect(validateSignupPolicy({ waitlist_after_no_shows: 1 })).toEqual({
+      policy: {
+        waitlist_after_no_shows: 1,
+        guest_slots_per_month: null,
+        require_verified_after_no_show: false,
+        no_show_decay_days: DEFAULT_NO_SHOW_DECAY_DAYS,
+      },
+    });
+  });
+
+  it("treats null or all rules off as no policy", () => {
+    expect(validateSignupPolicy(null)).toEqual({ policy: null });
+    expect(validateSignupPolicy({ no_show_decay_days: 30 })).toEqual({ policy: null });
+  });
+
+  it("rejects out-of-range values", () => {
+    expect(validateSignupPolicy({ waitlist_after_no_shows: 0 })).toHaveProperty("error");
+    expect(validateSignupPolicy({ guest_slots_per_month: 1.5 })).toHaveProperty("error");
+    expect(validateSignupPolicy({ no_show_decay_days: 1000 })).toHaveProperty("error");
+    expect(validateSignupPolicy({ require_verified_after_no_show: "yes" })).toHaveProperty("error");
+    expect(validateSignupPolicy([])).toHaveProperty("error");
+  });
+
+  it("parses invalid stored values as no policy", () => {
+    expect(parseSignupPolicy({ waitlist_after_no_shows: -1 })).toBeNull();
+    expect(parseSignupPolicy(fullPolicy)).toEqual(fullPolicy);
+  });
+});
+
+describe("describeSignupPolicy", () => {
+  it("lists each active rule with the decay window", () => {
+    expect(describeSignupPolicy(fullPolicy)).toEqual([
+      "Performers with 2 or more no-shows in the last 90 days are waitlisted until the host confirms them.",
+      "Guests (no account) can claim 1 slot per month here.",
+      "After a no-show in the last 90 days, you'll need a verified account to sign up.",
+    ]);
+  });
+
+  it("is empty without a policy", () => {
+    expect(describeSignupPolicy(null)).toEqual([]);
+  });
+});
+
+describe("evaluateGuestSignupPolicy", () => {
+  it("allows guests within the rules", () => {
+    expect(evaluateGuestSignupPolicy(fullPolicy, { recentNoShows: 0, claimsThisMonth: 0 })).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("requires an account after a recent no-show", () => {
+    const result = evaluateGuestSignupPolicy(fullPolicy, { recentNoShows: 1, claimsThisMonth: 0 });
+    expect(result.allowed).toBe(false);
+  });
+
+  it("enforces the monthly guest limit", () => {
+    const result = evaluateGuestSignupPolicy(fullPolicy, { recentNoShows: 0, claimsThisMonth: 1 });
+    expect(result).toEqual({
+      allowed: false,
+      reason: "Guests can claim 1 slot(s) per month at this event",
+    });
+  });
+
+  it("allows everything without a policy", () => {
+    expect(evaluateGuestSignupPolicy(null, { recentNoShows: 5, claimsThisMonth: 5 }).allowed).toBe(true);
+  });
+});
+
+describe("helpers", () => {
+  it("computes calendar month date_key ranges", () => {
+    expect(monthDateKeyRange("2026-05-14")).toEqual(["2026-05-01", "2026-05-31"]);
+    expect(monthDateKeyRange("2028-02-03")).toEqual(["2028-02-01", "2028-02-29"]);
+  });
+
+  it("extracts user-facing text from policy exceptions only", () => {
+    expect(
+      getSignupPolicyErrorMessage("Signup policy: guests can claim 1 slot(s) per month at this event")
+    ).toBe("guests can claim 1 slot(s) per month at this event");
+    expect(getSignupPolicyErrorMessage("duplicate key value")).toBeNull();
+  });
+});
+
+describe("signup policy migration", () => {
+  const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+
+  it("adds events.signup_policy", () => {
+    expect(sql).toContain("ADD COLUMN IF NOT EXISTS signup_policy jsonb");
+  });
+
+  it("counts no-shows inside a decay window", () => {
+    expect(sql).toContain("FUNCTION public.count_recent_no_shows");
+    expect(sql).toContain("c.updated_at >= now() - make_interval(days =>");
+  });
+
+  it("enforces the policy in a timeslot_claims trigger", () => {
+    expect(sql).toContain("BEFORE INSERT OR UPDATE OF status ON public.timeslot_claims");
+    expect(sql).toContain("NEW.status := 'waitlist'");
+  });
+
+  it("keeps the any-identity count away from signed-in callers", () => {
+    expect(sql).toContain(
+      "REVOKE EXECUTE ON FUNCTION public.count_recent_no_shows(uuid, text, integer) FROM anon, authenticated, public;"
+    );
+    const helper = sql.slice(sql.indexOf("FUNCTION public.count_my_recent_no_shows"));
+    expect(helper.slice(0, helper.indexOf("$$;"))).toContain("public.count_recent_no_shows(auth.uid(), NULL, p_decay_days)");
+    expect(sql).toContain("GRANT EXECUTE ON FUNCTION public.count_my_recent_no_shows(integer) TO authenticated;");
+  });
+
+  it("enforces the policy in rpc_claim_open_mic_slot", () => {
+    const rpc = sql.slice(sql.indexOf("FUNCTION rpc_claim_open_mic_slot"));
+    expect(rpc).toContain("public.count_my_recent_no_shows(");
+    expect(rpc).not.toContain("count_recent_no_shows(");
+    expect(rpc.slice(0, rpc.indexOf("AS $$"))).toContain("SET search_path = public");
+  });
+
+  it("stops waitlist rows from occupying the slot", () => {
+    expect(sql).toContain("WHERE status NOT IN ('cancelled', 'no_show', 'waitlist')");
+  });
+
+  it("makes no policy changes", () => {
+    expect(sql).not.toMatch(/\b(CREATE|ALTER|DROP)\s+POLICY\b/i);
+    expect(sql).not.toMatch(/(ENABLE|DISABLE)\s+ROW\s+LEVEL\s+SECURITY/i);
+  });
+});
+
+describe("route contracts", () => {
+  it("guest request-code checks the policy before sending a code", () => {
+    const source = fs.readFileSync(REQUEST_CODE_PATH, "utf-8");
+    const checkIdx = source.indexOf("checkGuestSignupPolicy(supabase");
+    const sendIdx = source.indexOf("await sendEmail(");
+    expect(checkIdx).toBeGreaterThan(-1);
+    expect(sendIdx).toBeGreaterThan(checkIdx);
+    expect(source).toContain("signup_policy");
+  });
+
+  it("guest verify-code surfaces trigger rejections as 403", () => {
+    const source = fs.readFileSync(VERIFY_CODE_PATH, "utf-8");
+    expect(source).toContain("getSignupPolicyErrorMessage(claimError.message)");
+  });
+
+  it("host policy route authorizes with canManageEvent and validates input", () => {
+    const source = fs.readFileSync(POLICY_ROUTE_PATH, "utf-8");
+    expect(source).toContain("canManageEvent(supabase, user.id, eventId)");
+    expect(source).toContain("validateSignupPolicy(body.signup_policy)");
+  });
+
+  it("hosts can confirm waitlisted claims", () => {
+    const source = fs.readFileSync(CLAIMS_ROUTE_PATH, "utf-8");
+    expect(source).toContain("export async function PATCH");
+    expect(source).toContain('claim.status !== "waitlist"');
+  });
+});
+
+describe("TimeslotSection", () => {
+  const source = fs.readFileSync(TIMESLOT_SECTION_PATH, "utf-8");
+
+  it("shows the policy before claiming", () => {
+    expect(source).toContain("describeSignupPolicy(signupPolicy)");
+    expect(source).toContain('data-testid="signup-policy"');
+  });
+
+  it("handles claims the policy sent to the waitlist", () => {
+    expect(source).toContain('newClaim.status === "waitlist"');
+  });
+});
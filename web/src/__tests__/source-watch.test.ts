@@ -0,0 +1,381 @@
+/**
+ * Source Watch Tests
+ *
+ * Tests for the schedule diff (registry classification, per-date changes,
+ * cancellations, added dates), page text extraction, fetcher selection and
+ * backoff, plus source contracts for the cron and host routes, the schedule
+ * and the migration.
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { emptyConciergeIR, type ConciergeIR, type ConciergeOccurrence } from "@/lib/events/conciergeIR";
+import { parse } from "@/lib/events/conciergeScheduleParser";
+import type { OccurrenceOverride } from "@/lib/events/nextOccurrence";
+import { isSourceWatchChangeAction, SOURCE_WATCH_CONFIG } from "@/lib/sourceWatch/config";
+import { diffSourceSchedule, normalizeTime, type SourceWatchEventRow } from "@/lib/sourceWatch/diff";
+import {
+  createFixtureFetcher,
+  getSourceWatchFetcher,
+  pageTextFromHtml,
+  sourceFixtureKey,
+} from "@/lib/sourceWatch/fetchers";
+import { sourceWatchNextCheckAt } from "@/lib/sourceWatch/server";
+
+const CRON_ROUTE_PATH = path.resolve(__dirname, "../app/api/cron/source-watch/route.ts");
+const HOST_ROUTE_PATH = path.resolve(__dirname, "../app/api/my-events/[id]/source-watch/route.ts");
+const CHANGE_ROUTE_PATH = path.resolve(
+  __dirname,
+  "../app/api/my-events/[id]/source-watch/changes/[changeId]/route.ts"
+);
+const SERVER_PATH = path.resolve(__dirname, "../lib/sourceWatch/server.ts");
+const VERCEL_JSON_PATH = path.resolve(__dirname, "../../vercel.json");
+const MIGRATION_PATH = path.resolve(
+  __dirname,
+  "../../../supabase/migrations/20260521010000_event_source_watches.sql"
+);
+
+// Monday; the weekly series below meets on Tuesdays
+const TODAY = "2026-06-01";
+
+function weeklyEvent(overrides: Partial<SourceWatchEventRow> = {}): SourceWatchEventRow {
+  return {
+    id: "event-1",
+    event_date: "2026-05-05",
+    day_of_week: "Tuesday",
+    recurrence_rule: "weekly",
+    start_time: "19:00:00",
+    end_time: "22:00:00",
+    max_occurrences: null,
+    custom_dates: null,
+    cost_label: "Free",
+    age_policy: "21+",
+    ...overrides,
+  };
+}
+
+function occurrence(date: string, extra: Partial<ConciergeOccurrence> = {}): ConciergeOccurrence {
+  return { date, start_time: null, end_time: null, lineup: [], per_date_notes: null, ...extra };
+}
+
+function sourceIR(occurrences: ConciergeOccurrence[], facts: Partial<ConciergeIR["shared_facts"]> = {}): ConciergeIR {
+  const ir = emptyConciergeIR("webpage", "https://venue.example/calendar");
+  ir.occurrences = occurrences;
+  ir.shared_facts = { ...ir.shared_facts, time: { start: "19:00", end: "22:00" }, ...facts };
+  return ir;
+}
+
+function cancelledOverride(dateKey: string): OccurrenceOverride {
+  return { event_id: "event-1", date_key: dateKey, status: "cancelled" };
+}
+
+describe("diffSourceSchedule", () => {
+  it("proposes nothing when the page matches the series", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-09")], { cost: "Free", age_policy: "21+" }),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+    expect(diff.hasSchedule).toBe(true);
+    expect(diff.proposals).toEqual([]);
+    expect(diff.unmatchedDates).toEqual([]);
+  });
+
+  it("classifies a series time change as high-risk enforced and a cost change as shadow", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02")], { time: { start: "20:00", end: "22:00" }, cost: "$5" }),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({
+        date_key: null,
+        field: "start_time",
+        old_value: "19:00",
+        new_value: "20:00",
+        risk_tier: "high",
+        enforcement_mode: "enforced",
+        change_key: "series:start_time:20:00",
+      }),
+      expect.objectContaining({
+        date_key: null,
+        field: "cost_label",
+        old_value: "Free",
+        new_value: "$5",
+        risk_tier: "medium",
+        enforcement_mode: "shadow",
+      }),
+    ]);
+  });
+
+  it("proposes a per-date time when the page lists a different time for one date", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-09", { start_time: "18:30", end_time: "21:00" })]),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+
+    expect(diff.proposals.map((p) => [p.date_key, p.field, p.new_value])).toEqual([
+      ["2026-06-09", "start_time", "18:30"],
+      ["2026-06-09", "end_time", "21:00"],
+    ]);
+    expect(diff.proposals.every((p) => p.enforcement_mode === "enforced")).toBe(true);
+  });
+
+  it("reads an existing override so an already-moved date is not re-proposed", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-09", { start_time: "18:30" })]),
+      event: weeklyEvent(),
+      overrides: [{ event_id: "event-1", date_key: "2026-06-09", status: "normal", override_start_time: "18:30:00" }],
+      todayKey: TODAY,
+    });
+    expect(diff.proposals).toEqual([]);
+  });
+
+  it("proposes restoring a date we cancelled when the page still lists it", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-09")]),
+      event: weeklyEvent(),
+      overrides: [cancelledOverride("2026-06-09")],
+      todayKey: TODAY,
+    });
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({
+        date_key: "2026-06-09",
+        field: "status",
+        old_value: "cancelled",
+        new_value: "normal",
+        enforcement_mode: "enforced",
+      }),
+    ]);
+  });
+
+  it("proposes cancelling our dates missing from inside the span the page covers", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-09"), occurrence("2026-06-23")]),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+
+    // 06-16 is a gap; 06-30 onward is just past the end of the page
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({
+        date_key: "2026-06-16",
+        field: "status",
+        old_value: "normal",
+        new_value: "cancelled",
+        risk_tier: "high",
+        change_key: "2026-06-16:status:cancelled",
+      }),
+    ]);
+  });
+
+  it("does not re-propose cancelling a date that is already cancelled", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-23")]),
+      event: weeklyEvent(),
+      overrides: [cancelledOverride("2026-06-09"), cancelledOverride("2026-06-16")],
+      todayKey: TODAY,
+    });
+    expect(diff.proposals).toEqual([]);
+  });
+
+  it("reports dates a weekly series doesn't have as unmatched", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-02"), occurrence("2026-06-05")]),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+    expect(diff.unmatchedDates).toEqual(["2026-06-05"]);
+    expect(diff.proposals).toEqual([]);
+  });
+
+  it("proposes adding new dates to a custom-dates series", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-04"), occurrence("2026-06-18")]),
+      event: weeklyEvent({ recurrence_rule: "custom", day_of_week: null, custom_dates: ["2026-06-04"] }),
+      overrides: [],
+      todayKey: TODAY,
+    });
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({
+        date_key: null,
+        field: "custom_dates",
+        old_value: "2026-06-04",
+        new_value: "2026-06-04,2026-06-18",
+        enforcement_mode: "enforced",
+      }),
+    ]);
+  });
+
+  it("proposes a new event_date when a one-time event's page shows another date", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-06-12")]),
+      event: weeklyEvent({ recurrence_rule: null, day_of_week: null, event_date: "2026-06-10" }),
+      overrides: [],
+      todayKey: TODAY,
+    });
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({ field: "event_date", old_value: "2026-06-10", new_value: "2026-06-12" }),
+    ]);
+  });
+
+  it("ignores dates outside the watch window", () => {
+    const diff = diffSourceSchedule({
+      ir: sourceIR([occurrence("2026-05-26"), occurrence("2026-06-02"), occurrence("2026-12-01")]),
+      event: weeklyEvent(),
+      overrides: [],
+      todayKey: TODAY,
+    });
+    expect(diff.unmatchedDates).toEqual([]);
+    expect(diff.proposals).toEqual([]);
+  });
+
+  it("reports no schedule for a page with nothing to compare", () => {
+    const ir = emptyConciergeIR("webpage", null);
+    const diff = diffSourceSchedule({ ir, event: weeklyEvent(), overrides: [], todayKey: TODAY });
+    expect(diff).toEqual({ hasSchedule: false, proposals: [], unmatchedDates: [] });
+  });
+
+  it("works end to end from a venue calendar table", () => {
+    const html = `
+      <html><head><title>Calendar</title><script>var x = 1;</script></head><body>
+        <h1>Tuesday Open Mic</h1>
+        <table>
+          <tr><th>Date</th><th>Time</th><th>Performer</th></tr>
+          <tr><td>Tue Jun 2</td><td>7:00 PM - 10:00 PM</td><td>Sam Rivera</td></tr>
+          <tr><td>Tue Jun 9</td><td>8:00 PM - 10:00 PM</td><td>Jo Park</td></tr>
+          <tr><td>Tue Jun 16</td><td>7:00 PM - 10:00 PM</td><td>Ana Cruz</td></tr>
+        </table>
+      </body></html>`;
+    const ir = parse({
+      source_kind: "webpage",
+      source_url: "https://venue.example/calendar",
+      raw_text: pageTextFromHtml(html),
+      today_iso: TODAY,
+    });
+    expect(ir.occurrences.map((o) => o.date)).toEqual(["2026-06-02", "2026-06-09", "2026-06-16"]);
+
+    const diff = diffSourceSchedule({ ir, event: weeklyEvent(), overrides: [], todayKey: TODAY });
+    expect(diff.proposals).toEqual([
+      expect.objectContaining({ date_key: "2026-06-09", field: "start_time", new_value: "20:00", risk_tier: "high" }),
+    ]);
+  });
+});
+
+describe("source watch helpers", () => {
+  it("normalizes times to HH:MM", () => {
+    expect(normalizeTime("19:00:00")).toBe("19:00");
+    expect(normalizeTime("7:05")).toBe("07:05");
+    expect(normalizeTime("later")).toBeNull();
+    expect(normalizeTime(null)).toBeNull();
+  });
+
+  it("keeps table cells tab-separated and drops scripts when reading HTML", () => {
+    const text = pageTextFromHtml(
+      "<style>p{}</style><p>Open&nbsp;Mic &amp; Jam</p><table><tr><td>Jun 2</td><td>7 PM</td></tr></table>"
+    );
+    expect(text).toBe("Open Mic & Jam\nJun 2\t7 PM");
+  });
+
+  it("backs off failed checks and caps the gap", () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+    expect(sourceWatchNextCheckAt(now, 24, 0).toISOString()).toBe("2026-06-02T00:00:00.000Z");
+    expect(sourceWatchNextCheckAt(now, 24, 2).toISOString()).toBe("2026-06-05T00:00:00.000Z");
+    expect(sourceWatchNextCheckAt(now, 24, 10).getTime() - now.getTime()).toBe(
+      SOURCE_WATCH_CONFIG.MAX_BACKOFF_HOURS * 60 * 60 * 1000
+    );
+  });
+
+  it("accepts only confirm and dismiss as actions", () => {
+    expect(isSourceWatchChangeAction("confirm")).toBe(true);
+    expect(isSourceWatchChangeAction("dismiss")).toBe(true);
+    expect(isSourceWatchChangeAction("apply")).toBe(false);
+  });
+});
+
+describe("source watch fetchers", () => {
+  const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "source-watch-"));
+  afterAll(() => fs.rmSync(fixtureDir, { recursive: true, force: true }));
+
+  it("selects the direct fetcher by default and validates the fixture setup", () => {
+    const direct = getSourceWatchFetcher({});
+    expect("fetcher" in direct && direct.fetcher.name).toBe("direct");
+    expect(getSourceWatchFetcher({ SOURCE_WATCH_FETCHER: "fixture" })).toEqual({
+      error: "Missing SOURCE_WATCH_FIXTURE_DIR.",
+    });
+    expect(getSourceWatchFetcher({ SOURCE_WATCH_FETCHER: "browser" })).toEqual({
+      error: 'Unknown SOURCE_WATCH_FETCHER "browser".',
+    });
+  });
+
+  it("reads saved pages by URL key without touching the network", async () => {
+    const url = "https://venue.example/calendar";
+    fs.writeFileSync(path.join(fixtureDir, `${sourceFixtureKey(url)}.html`), "<p>Tue Jun 2 7pm</p>");
+    const fetcher = createFixtureFetcher({ dir: fixtureDir });
+
+    expect(await fetcher.fetchPage(url)).toEqual({ ok: true, url, text: "Tue Jun 2 7pm" });
+    expect(await fetcher.fetchPage("https://venue.example/other")).toEqual({ ok: false, reason: "fixture_missing" });
+  });
+});
+
+describe("source watch source contracts", () => {
+  it("cron route checks CRON_SECRET before creating the service-role client", () => {
+    const source = fs.readFileSync(CRON_ROUTE_PATH, "utf-8");
+    const secretIdx = source.indexOf("Bearer ${cronSecret}");
+    const clientIdx = source.indexOf("createServiceRoleClient()");
+    expect(secretIdx).toBeGreaterThan(-1);
+    expect(clientIdx).toBeGreaterThan(secretIdx);
+  });
+
+  it("host routes check canManageEvent before parsing the body or creating the service-role client", () => {
+    for (const routePath of [HOST_ROUTE_PATH, CHANGE_ROUTE_PATH]) {
+      const source = fs.readFileSync(routePath, "utf-8");
+      for (const handler of source.split(/export async function /).slice(1)) {
+        const authIdx = handler.indexOf("canManageEvent(");
+        expect(authIdx).toBeGreaterThan(-1);
+        const jsonIdx = handler.indexOf("request.json()");
+        if (jsonIdx > -1) expect(jsonIdx).toBeGreaterThan(authIdx);
+        expect(handler.indexOf("createServiceRoleClient()")).toBeGreaterThan(authIdx);
+      }
+    }
+  });
+
+  it("validates the source URL with the safeFetch URL check before saving", () => {
+    const source = fs.readFileSync(HOST_ROUTE_PATH, "utf-8");
+    expect(source.indexOf("checkFetchUrl(")).toBeGreaterThan(-1);
+    expect(source.indexOf("checkFetchUrl(")).toBeLessThan(source.indexOf("saveSourceWatch(serviceClient"));
+  });
+
+  it("scopes a change to the path event and claims it pending-first so it applies once", () => {
+    const source = fs.readFileSync(SERVER_PATH, "utf-8");
+    expect(source).toContain("change.event_id !== input.eventId");
+    const claimIdx = source.indexOf('.eq("status", "pending")\n    .select("*")');
+    const applyIdx = source.indexOf("await applySourceWatchChange(");
+    expect(claimIdx).toBeGreaterThan(-1);
+    expect(applyIdx).toBeGreaterThan(claimIdx);
+  });
+
+  it("is scheduled in vercel.json", () => {
+    const config = JSON.parse(fs.readFileSync(VERCEL_JSON_PATH, "utf-8"));
+    const cron = config.crons.find((c: { path: string }) => c.path === "/api/cron/source-watch");
+    expect(cron?.schedule).toBe("15 */6 * * *");
+  });
+
+  it("creates service-role-only tables with one change row per event and change key", () => {
+    const sql = fs.readFileSync(MIGRATION_PATH, "utf-8");
+    expect(sql).toContain("ALTER TABLE public.event_source_watches ENABLE ROW LEVEL SECURITY;");
+    expect(sql).toContain("ALTER TABLE public.event_source_watch_changes ENABLE ROW LEVEL SECURITY;");
+    expect(sql).not.toMatch(/CREATE POLICY/i);
+    expect(sql).toContain("UNIQUE (event_id, change_key)");
+    expect(sql).toContain("event_id uuid NOT NULL UNIQUE REFERENCES public.events(id) ON DELETE CASCADE");
+  });
+});
@@ -21,6 +21,9 @@ const guardedRouteRoots = [
   "web/src/app/api/admin/ops/events",
   "web/src/app/api/admin/ops/overrides",
   "web/src/app/api/admin/ops/venues",
+  "web/src/app/api/admin/ops/duplicates",
+  "web/src/app/api/admin/ops/data-health",
+  "web/src/app/api/admin/ops/email-suppressions",
   "web/src/app/api/admin/venues/[id]",
   "web/src/app/api/admin/organizations/[id]",
 ];
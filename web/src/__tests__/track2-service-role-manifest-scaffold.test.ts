@@ -21,12 +21,16 @@ const guardedRouteRoots = [
   "web/src/app/api/admin/ops/events",
   "web/src/app/api/admin/ops/overrides",
   "web/src/app/api/admin/ops/venues",
+  "web/src/app/api/admin/ops/duplicates",
+  "web/src/app/api/admin/ops/data-health",
+  "web/src/app/api/admin/ops/email-suppressions",
   "web/src/app/api/admin/venues/[id]",
   "web/src/app/api/admin/organizations/[id]",
 ];
 
 const explicitCurrentFiles = [
   "web/src/app/events/[id]/page.tsx",
+  "web/src/app/venues/[id]/page.tsx",
   "web/src/app/embed/events/[id]/route.ts",
   "web/src/app/og/event/[id]/route.tsx",
   "web/src/app/api/event-update-suggestions/route.ts",
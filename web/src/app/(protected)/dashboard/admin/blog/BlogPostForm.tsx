@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { createClient } from "@/lib/supabase/client";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import { X } from "lucide-react";
 import { escapeHtml } from "@/lib/highlight";
@@ -184,6 +185,9 @@ export default function BlogPostForm({ authorId, post, initialGallery = [], isAd
         return null;
       }
 
+      // Strip location metadata and build responsive variants
+      await processUploadedImage('blog-images', fileName);
+
       const { data: { publicUrl } } = supabase.storage
         .from('blog-images')
         .getPublicUrl(fileName);
@@ -222,6 +226,9 @@ export default function BlogPostForm({ authorId, post, initialGallery = [], isAd
         return null;
       }
 
+      // Strip location metadata and build responsive variants
+      await processUploadedImage('blog-images', fileName);
+
       const { data: { publicUrl } } = supabase.storage
         .from('blog-images')
         .getPublicUrl(fileName);
@@ -3,6 +3,9 @@
  *
  * Manage digest email automation, preview emails, send tests, and view history.
  * GTM-3: Editorial editor for weekly happenings digest.
+ * Regions: editorial can target one region or all of them.
+ * Delivery status of queued mail comes from the email outbox.
+ * Every registry template can be previewed at ./templates.
  *
  * Admin-only.
  *
@@ -12,7 +15,17 @@
 "use client";
 
 import React, { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
 import { escapeHtml } from "@/lib/highlight";
+import { createClient } from "@/lib/supabase/client";
+import {
+  REGION_SELECT,
+  findRegionBySlug,
+  getRegionalDigestType,
+  toRegion,
+  type Region,
+  type RegionRow,
+} from "@/lib/regions/regions";
 
 interface DigestSetting {
   id: string;
@@ -30,6 +43,27 @@ interface SendHistoryEntry {
   recipient_count: number;
 }
 
+type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "suppressed";
+
+interface OutboxMessage {
+  id: string;
+  to_email: string;
+  subject: string;
+  template_name: string | null;
+  batch_key: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface OutboxData {
+  counts: Record<OutboxStatus, number>;
+  messages: OutboxMessage[];
+}
+
 interface PreviewData {
   subject: string;
   html: string;
@@ -92,6 +126,41 @@ const DIGEST_LABELS: Record<string, string> = {
   weekly_open_mics: "Weekly Open Mics Digest",
 };
 
+const OUTBOX_STATUS_ORDER: OutboxStatus[] = ["queued", "sending", "sent", "failed", "suppressed"];
+
+const OUTBOX_STATUS_STYLES: Record<OutboxStatus, { label: string; className: string }> = {
+  queued: {
+    label: "Queued",
+    className: "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300",
+  },
+  sending: {
+    label: "Sending",
+    className: "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300",
+  },
+  sent: {
+    label: "Sent",
+    className: "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300",
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300",
+  },
+  suppressed: {
+    label: "Suppressed",
+    className: "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)]",
+  },
+};
+
+function formatDenverTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Denver",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
 function normalizeMarkdownLink(rawUrl: string): string | null {
   const trimmed = rawUrl.trim();
   if (!trimmed) return null;
@@ -160,6 +229,7 @@ export default function AdminEmailPage() {
   const currentWeekKey = computeWeekKeyClient();
   const [settings, setSettings] = useState<DigestSetting[]>([]);
   const [history, setHistory] = useState<SendHistoryEntry[]>([]);
+  const [outbox, setOutbox] = useState<OutboxData | null>(null);
   const [loading, setLoading] = useState(true);
   const [togglingType, setTogglingType] = useState<string | null>(null);
   const [sendingType, setSendingType] = useState<string | null>(null);
@@ -193,13 +263,31 @@ export default function AdminEmailPage() {
   } | null>(null);
   const isEditorialWeekCurrent = editorialWeekKey === currentWeekKey;
 
+  // Regions: "" = all regions (also the fallback for regions without their own)
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [editorialRegionSlug, setEditorialRegionSlug] = useState("");
+  const editorialRegion = findRegionBySlug(regions, editorialRegionSlug);
+  const editorialDigestType = getRegionalDigestType("weekly_happenings", editorialRegion);
+  const editorialScopeLabel = editorialRegion && !editorialRegion.isDefault
+    ? `${editorialWeekKey} (${editorialRegion.name})`
+    : editorialWeekKey;
+
+  useEffect(() => {
+    createClient()
+      .from("regions")
+      .select(REGION_SELECT)
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true })
+      .then(({ data }: { data: RegionRow[] | null }) => setRegions((data || []).map(toRegion)));
+  }, []);
+
   // GTM-3: Fetch editorial for selected week
-  const fetchEditorial = useCallback(async (weekKey: string) => {
+  const fetchEditorial = useCallback(async (weekKey: string, digestType: string) => {
     setEditorialLoading(true);
     setEditorialResult(null);
     try {
       const res = await fetch(
-        `/api/admin/digest/editorial?week_key=${weekKey}&digest_type=weekly_happenings`
+        `/api/admin/digest/editorial?week_key=${weekKey}&digest_type=${encodeURIComponent(digestType)}`
       );
       if (res.ok) {
         const data = await res.json();
@@ -232,7 +320,7 @@ export default function AdminEmailPage() {
       // Build payload — send all fields so clears persist
       const payload: Record<string, unknown> = {
         weekKey: editorialWeekKey,
-        digestType: "weekly_happenings",
+        digestType: editorialDigestType,
         subject_override: editorial.subject_override,
         intro_note: editorial.intro_note,
         member_spotlight_ref: editorial.member_spotlight_ref,
@@ -253,7 +341,7 @@ export default function AdminEmailPage() {
       });
 
       if (res.ok) {
-        setEditorialResult({ message: `Editorial saved for ${editorialWeekKey}.`, variant: "success" });
+        setEditorialResult({ message: `Editorial saved for ${editorialScopeLabel}.`, variant: "success" });
       } else {
         const data = await res.json();
         const fieldLabel = data.field
@@ -273,17 +361,17 @@ export default function AdminEmailPage() {
 
   // GTM-3: Delete editorial
   const handleEditorialDelete = async () => {
-    if (!window.confirm(`Delete editorial for ${editorialWeekKey}? This cannot be undone.`)) return;
+    if (!window.confirm(`Delete editorial for ${editorialScopeLabel}? This cannot be undone.`)) return;
     setEditorialSaving(true);
     setEditorialResult(null);
     try {
       const res = await fetch(
-        `/api/admin/digest/editorial?week_key=${editorialWeekKey}&digest_type=weekly_happenings`,
+        `/api/admin/digest/editorial?week_key=${editorialWeekKey}&digest_type=${encodeURIComponent(editorialDigestType)}`,
         { method: "DELETE" }
       );
       if (res.ok) {
         setEditorial({ ...EMPTY_EDITORIAL });
-        setEditorialResult({ message: `Editorial deleted for ${editorialWeekKey}.`, variant: "success" });
+        setEditorialResult({ message: `Editorial deleted for ${editorialScopeLabel}.`, variant: "success" });
       } else {
         const data = await res.json();
         setEditorialResult({ message: data.error || "Failed to delete editorial.", variant: "error" });
@@ -349,14 +437,15 @@ export default function AdminEmailPage() {
 
   // GTM-3: Load editorial when week key changes
   useEffect(() => {
-    fetchEditorial(editorialWeekKey);
-  }, [editorialWeekKey, fetchEditorial]);
+    fetchEditorial(editorialWeekKey, editorialDigestType);
+  }, [editorialWeekKey, editorialDigestType, fetchEditorial]);
 
   const fetchData = useCallback(async () => {
     try {
-      const [settingsRes, historyRes] = await Promise.all([
+      const [settingsRes, historyRes, outboxRes] = await Promise.all([
         fetch("/api/admin/digest/settings"),
         fetch("/api/admin/digest/history"),
+        fetch("/api/admin/digest/outbox"),
       ]);
 
       if (settingsRes.ok) {
@@ -367,6 +456,9 @@ export default function AdminEmailPage() {
         const data = await historyRes.json();
         setHistory(data.history ?? []);
       }
+      if (outboxRes.ok) {
+        setOutbox(await outboxRes.json());
+      }
     } catch {
       // Silently handle — page still usable
     } finally {
@@ -463,13 +555,14 @@ export default function AdminEmailPage() {
           });
         } else {
           const sentTo = mode === "test" ? ` to ${data.sentTo}` : "";
+          const queuedSuffix = data.queued > 0 ? `, ${data.queued} still queued` : "";
           const weekSuffix =
             digestType === "weekly_happenings" && data.weekKey
               ? ` Week: ${data.weekKey}.`
               : "";
           setSendResult({
             type: digestType,
-            message: `${mode === "test" ? "Test" : "Full"} ${actionLabel} complete: ${data.sent} sent, ${data.failed} failed${sentTo}.${weekSuffix}`,
+            message: `${mode === "test" ? "Test" : "Full"} ${actionLabel} complete: ${data.sent} sent, ${data.failed} failed${queuedSuffix}${sentTo}.${weekSuffix}`,
             variant: data.failed > 0 ? "error" : "success",
           });
           // Refresh history after successful full send
@@ -555,7 +648,13 @@ export default function AdminEmailPage() {
         Email & Digests
       </h1>
       <p className="text-[var(--color-text-secondary)] mb-8">
-        Manage weekly digest automation, preview emails, and send tests.
+        Manage weekly digest automation, preview emails, and send tests.{" "}
+        <Link
+          href="/dashboard/admin/email/templates"
+          className="text-[var(--color-text-accent)] hover:underline"
+        >
+          Browse all email templates →
+        </Link>
       </p>
 
       {/* Result banner */}
@@ -752,6 +851,32 @@ export default function AdminEmailPage() {
           </div>
         )}
 
+        {/* Region selector — regions without their own editorial use "All regions" */}
+        {regions.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-1">
+              Region
+            </label>
+            <select
+              value={editorialRegionSlug}
+              onChange={(e) => setEditorialRegionSlug(e.target.value)}
+              className="px-3 py-2 text-sm rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-primary)] text-[var(--color-text-primary)]"
+            >
+              <option value="">All regions</option>
+              {regions
+                .filter((region) => !region.isDefault)
+                .map((region) => (
+                  <option key={region.slug} value={region.slug}>
+                    {region.name} only
+                  </option>
+                ))}
+            </select>
+            <p className="mt-1 text-xs text-[var(--color-text-tertiary)]">
+              A region&apos;s own editorial replaces the all-regions editorial in that region&apos;s digest.
+            </p>
+          </div>
+        )}
+
         {/* Week key selector */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-[var(--color-text-primary)] mb-1">
@@ -994,6 +1119,110 @@ export default function AdminEmailPage() {
         </div>
       </section>
 
+      {/* Delivery Status (email outbox) */}
+      <section className="mb-10 p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">
+            Delivery Status
+          </h2>
+          <button
+            onClick={fetchData}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-[var(--color-border-default)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)] transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+        {!outbox ? (
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            Outbox status unavailable.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {OUTBOX_STATUS_ORDER.map((status) => (
+                <span
+                  key={status}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-full ${OUTBOX_STATUS_STYLES[status].className}`}
+                >
+                  {OUTBOX_STATUS_STYLES[status].label}: {outbox.counts[status] ?? 0}
+                </span>
+              ))}
+            </div>
+            {outbox.messages.length === 0 ? (
+              <p className="text-[var(--color-text-secondary)] text-sm">
+                No queued messages yet.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-[var(--color-border-default)]">
+                      <th className="text-left py-2 pr-4 text-[var(--color-text-secondary)] font-medium">
+                        Recipient
+                      </th>
+                      <th className="text-left py-2 pr-4 text-[var(--color-text-secondary)] font-medium">
+                        Subject
+                      </th>
+                      <th className="text-left py-2 pr-4 text-[var(--color-text-secondary)] font-medium">
+                        Status
+                      </th>
+                      <th className="text-left py-2 pr-4 text-[var(--color-text-secondary)] font-medium">
+                        Attempts
+                      </th>
+                      <th className="text-left py-2 text-[var(--color-text-secondary)] font-medium">
+                        Updated
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {outbox.messages.map((message) => (
+                      <tr
+                        key={message.id}
+                        className="border-b border-[var(--color-border-default)] last:border-0 align-top"
+                      >
+                        <td className="py-2 pr-4 text-[var(--color-text-primary)]">
+                          {message.to_email}
+                        </td>
+                        <td className="py-2 pr-4 text-[var(--color-text-secondary)]">
+                          {message.subject}
+                          {message.batch_key && (
+                            <div className="text-xs text-[var(--color-text-tertiary)]">
+                              {message.batch_key}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <span
+                            className={`px-2 py-0.5 text-xs font-medium rounded-full ${OUTBOX_STATUS_STYLES[message.status]?.className ?? ""}`}
+                          >
+                            {OUTBOX_STATUS_STYLES[message.status]?.label ?? message.status}
+                          </span>
+                          {message.last_error && message.status !== "sent" && (
+                            <div className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                              {message.last_error}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-[var(--color-text-secondary)]">
+                          {message.attempts}
+                        </td>
+                        <td className="py-2 text-[var(--color-text-secondary)]">
+                          {message.status === "sent" && message.sent_at
+                            ? `Sent ${formatDenverTime(message.sent_at)}`
+                            : message.status === "queued"
+                              ? `Next try ${formatDenverTime(message.next_attempt_at)}`
+                              : `Queued ${formatDenverTime(message.created_at)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
       {/* Send History */}
       <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
         <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-4">
@@ -1061,7 +1290,10 @@ export default function AdminEmailPage() {
           Digests are sent automatically when enabled. The happenings cron runs
           at Sunday 22:20 UTC and 23:20 UTC, and a Denver-time guard allows
           sending only in the Sunday 4:20 PM local window year-round. The
-          idempotency guard prevents duplicate sends for the same week. Use
+          idempotency guard prevents duplicate sends for the same week. Full
+          sends are queued in the email outbox; anything not delivered within
+          the send run (or waiting to retry) goes out on the next outbox run,
+          every 5 minutes. Use
           &quot;Send test to me&quot; to preview without affecting the weekly lock.
         </p>
       </div>
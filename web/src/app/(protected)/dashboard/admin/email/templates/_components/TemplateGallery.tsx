@@ -0,0 +1,339 @@
+"use client";
+
+/**
+ * Template Gallery
+ *
+ * Template list, JSON params editor and preview pane. Every edit is
+ * rendered server-side by /api/admin/email-templates/preview; test sends go
+ * through /api/admin/email-templates/test-send to the admin's own address.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { TemplateCheckIssue } from "@/lib/email/templateChecks";
+
+export interface GalleryTemplate {
+  key: string;
+  name: string;
+  description: string;
+  audience: "guest" | "member" | "admin" | "subscriber";
+  /** Pretty-printed fixture params */
+  sampleParams: string;
+}
+
+interface PreviewResult {
+  subject: string;
+  html: string;
+  text: string;
+  htmlBytes: number;
+  issues: TemplateCheckIssue[];
+}
+
+type PreviewView = "html" | "text";
+type PreviewTheme = "light" | "dark";
+
+const AUDIENCE_LABELS: Record<GalleryTemplate["audience"], string> = {
+  guest: "Guest",
+  member: "Member",
+  admin: "Admin",
+  subscriber: "Subscriber",
+};
+
+const SEND_STATUS_MESSAGES: Record<string, string> = {
+  sent: "Test sent",
+  suppressed: "Not sent: your address is on the suppression list",
+  rate_limited: "Not sent: this template was just sent to you, try again in a minute",
+  not_configured: "Not sent: SMTP is not configured",
+  failed: "Send failed",
+};
+
+/**
+ * Approximates mail clients that force dark mode by inverting colors
+ * (Gmail and Outlook apps); images are inverted back.
+ */
+const DARK_MODE_STYLE =
+  "<style>html{filter:invert(1) hue-rotate(180deg);background:#fff;}img{filter:invert(1) hue-rotate(180deg);}</style>";
+
+function withTheme(html: string, theme: PreviewTheme): string {
+  if (theme === "light") return html;
+  return html.includes("</head>")
+    ? html.replace("</head>", `${DARK_MODE_STYLE}</head>`)
+    : `${DARK_MODE_STYLE}${html}`;
+}
+
+function parseParams(text: string): { value: unknown } | { error: string } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `Params are not valid JSON: ${error instanceof Error ? error.message : "parse error"}` };
+  }
+}
+
+export default function TemplateGallery({ templates }: { templates: GalleryTemplate[] }) {
+  const [selectedKey, setSelectedKey] = useState(templates[0]?.key ?? "");
+  const [paramsByKey, setParamsByKey] = useState<Record<string, string>>(() =>
+    Object.fromEntries(templates.map((t) => [t.key, t.sampleParams]))
+  );
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [view, setView] = useState<PreviewView>("html");
+  const [theme, setTheme] = useState<PreviewTheme>("light");
+  const [rendering, setRendering] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sendResult, setSendResult] = useState<{ message: string; ok: boolean } | null>(null);
+
+  const selected = templates.find((t) => t.key === selectedKey);
+  const paramsText = paramsByKey[selectedKey] ?? "";
+  const isEdited = selected ? paramsText !== selected.sampleParams : false;
+
+  const render = useCallback(async (templateKey: string, text: string) => {
+    const parsed = parseParams(text);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
+    setRendering(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/email-templates/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateKey, params: parsed.value }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Render failed");
+        return;
+      }
+      setPreview(data);
+    } catch {
+      setError("Network error");
+    } finally {
+      setRendering(false);
+    }
+  }, []);
+
+  // Render the saved params whenever another template is picked
+  useEffect(() => {
+    if (!selectedKey) return;
+    setPreview(null);
+    setSendResult(null);
+    render(selectedKey, paramsByKey[selectedKey] ?? "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedKey, render]);
+
+  const handleSendTest = async () => {
+    const parsed = parseParams(paramsText);
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+
+    setSending(true);
+    setSendResult(null);
+    try {
+      const res = await fetch("/api/admin/email-templates/test-send", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateKey: selectedKey, params: parsed.value }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setSendResult({ message: data.error || "Send failed", ok: false });
+        return;
+      }
+      const message = SEND_STATUS_MESSAGES[data.status] ?? "Send failed";
+      setSendResult({
+        message: data.success ? `${message} to ${data.sentTo}` : message,
+        ok: data.success,
+      });
+    } catch {
+      setSendResult({ message: "Network error", ok: false });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!selected) return;
+    setParamsByKey((prev) => ({ ...prev, [selected.key]: selected.sampleParams }));
+    render(selected.key, selected.sampleParams);
+  };
+
+  const errorCount = preview?.issues.filter((i) => i.severity === "error").length ?? 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+      {/* Template list */}
+      <nav className="space-y-1" aria-label="Email templates">
+        {templates.map((template) => (
+          <button
+            key={template.key}
+            onClick={() => setSelectedKey(template.key)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+              template.key === selectedKey
+                ? "bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)]"
+                : "text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)]"
+            }`}
+          >
+            <span className="block font-medium">{template.name}</span>
+            <span className="block text-xs opacity-75">{AUDIENCE_LABELS[template.audience]}</span>
+          </button>
+        ))}
+      </nav>
+
+      {selected && (
+        <div className="space-y-6 min-w-0">
+          {/* Params editor */}
+          <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <div>
+                <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">
+                  {selected.name}
+                </h2>
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                  {selected.description} · <code className="text-xs">{selected.key}</code>
+                </p>
+              </div>
+            </div>
+            <label
+              htmlFor="template-params"
+              className="block text-sm font-medium text-[var(--color-text-secondary)] mb-1"
+            >
+              Sample params (JSON)
+            </label>
+            <textarea
+              id="template-params"
+              value={paramsText}
+              onChange={(e) => setParamsByKey((prev) => ({ ...prev, [selected.key]: e.target.value }))}
+              rows={12}
+              spellCheck={false}
+              className="w-full px-3 py-2 font-mono text-xs bg-[var(--color-bg-input)] border border-[var(--color-border-input)] rounded text-[var(--color-text-primary)]"
+            />
+            <div className="flex flex-wrap items-center gap-3 mt-3">
+              <button
+                onClick={() => render(selected.key, paramsText)}
+                disabled={rendering}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-[var(--color-accent-primary)] hover:bg-[var(--color-accent-hover)] text-[var(--color-text-on-accent)] disabled:opacity-50"
+              >
+                {rendering ? "Rendering..." : "Render"}
+              </button>
+              <button
+                onClick={handleReset}
+                disabled={!isEdited || rendering}
+                className="px-4 py-2 text-sm font-medium rounded-lg border border-[var(--color-border-default)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)] disabled:opacity-50"
+              >
+                Reset sample
+              </button>
+              <button
+                onClick={handleSendTest}
+                disabled={sending}
+                className="px-4 py-2 text-sm font-medium rounded-lg border border-[var(--color-border-default)] text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)] disabled:opacity-50"
+              >
+                {sending ? "Sending..." : "Send test to me"}
+              </button>
+              {sendResult && (
+                <span className={`text-sm ${sendResult.ok ? "text-green-700 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                  {sendResult.message}
+                </span>
+              )}
+            </div>
+            {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </section>
+
+          {/* Preview */}
+          {preview && (
+            <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+              <p className="text-sm text-[var(--color-text-secondary)] mb-1">Subject</p>
+              <p className="text-[var(--color-text-primary)] font-medium mb-4">{preview.subject}</p>
+
+              {/* Checks */}
+              <div className="mb-4">
+                <p className="text-sm text-[var(--color-text-secondary)] mb-2">
+                  HTML size {(preview.htmlBytes / 1024).toFixed(1)} KB ·{" "}
+                  {preview.issues.length === 0
+                    ? "No issues found"
+                    : `${errorCount} error${errorCount === 1 ? "" : "s"}, ${preview.issues.length - errorCount} warning${preview.issues.length - errorCount === 1 ? "" : "s"}`}
+                </p>
+                {preview.issues.length > 0 && (
+                  <ul className="space-y-1">
+                    {preview.issues.map((issue, index) => (
+                      <li
+                        key={`${issue.code}-${index}`}
+                        className={`text-sm px-3 py-1.5 rounded ${
+                          issue.severity === "error"
+                            ? "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300"
+                            : "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+                        }`}
+                      >
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* View controls */}
+              <div className="flex flex-wrap gap-4 mb-3">
+                <div className="inline-flex rounded-lg border border-[var(--color-border-default)] overflow-hidden" role="group" aria-label="Version">
+                  {(["html", "text"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      aria-pressed={view === option}
+                      className={`px-3 py-1.5 text-sm ${
+                        view === option
+                          ? "bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)]"
+                          : "text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)]"
+                      }`}
+                    >
+                      {option === "html" ? "HTML" : "Plain text"}
+                    </button>
+                  ))}
+                </div>
+                <div className="inline-flex rounded-lg border border-[var(--color-border-default)] overflow-hidden" role="group" aria-label="Theme">
+                  {(["light", "dark"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setTheme(option)}
+                      aria-pressed={theme === option}
+                      className={`px-3 py-1.5 text-sm ${
+                        theme === option
+                          ? "bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)]"
+                          : "text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)]"
+                      }`}
+                    >
+                      {option === "light" ? "Light" : "Dark"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {view === "html" ? (
+                <iframe
+                  title={`${selected.name} preview`}
+                  srcDoc={withTheme(preview.html, theme)}
+                  sandbox=""
+                  className="w-full h-[640px] rounded border border-[var(--color-border-default)] bg-white"
+                />
+              ) : (
+                <pre
+                  className={`w-full max-h-[640px] overflow-auto p-4 rounded border border-[var(--color-border-default)] text-xs whitespace-pre-wrap ${
+                    theme === "dark" ? "bg-neutral-900 text-neutral-100" : "bg-white text-neutral-900"
+                  }`}
+                >
+                  {preview.text}
+                </pre>
+              )}
+              {theme === "dark" && view === "html" && (
+                <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">
+                  Dark preview approximates clients that invert colors (Gmail and Outlook apps).
+                </p>
+              )}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Email Template Gallery
+ *
+ * Admin-only preview of every email template in the registry, rendered with
+ * editable sample params (lib/email/templateFixtures.ts). Shows HTML and
+ * plain-text versions, a dark-mode approximation, size/alt-text checks, and
+ * sends a test to the admin's own address through the real mailer.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { getAllTemplateKeys, TEMPLATE_REGISTRY } from "@/lib/email/registry";
+import { getTemplateFixtureJson } from "@/lib/email/templateFixtures";
+import TemplateGallery, { type GalleryTemplate } from "./_components/TemplateGallery";
+
+export const dynamic = "force-dynamic";
+
+export default async function EmailTemplateGalleryPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const templates: GalleryTemplate[] = getAllTemplateKeys()
+    .map((key) => {
+      const { name, description, audience } = TEMPLATE_REGISTRY[key];
+      return {
+        key,
+        name,
+        description,
+        audience,
+        sampleParams: JSON.stringify(getTemplateFixtureJson(key), null, 2),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-6xl mx-auto">
+      <h1 className="font-display text-2xl text-[var(--color-text-primary)] mb-2">
+        Email Templates
+      </h1>
+      <p className="text-[var(--color-text-secondary)] mb-8">
+        Every template the site sends, rendered with sample data. Edit the
+        params to try other cases, compare the HTML and plain-text versions,
+        and send a test to {user.email ?? "your address"}.
+      </p>
+
+      <TemplateGallery templates={templates} />
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href="/dashboard/admin/email"
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Email & Digests
+        </Link>
+      </div>
+    </div>
+  );
+}
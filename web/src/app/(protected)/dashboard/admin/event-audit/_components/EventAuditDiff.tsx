@@ -0,0 +1,58 @@
+import type { FieldChange } from "@/lib/events/computePatchDiff";
+import { formatAuditValue } from "@/lib/audit/eventAuditBrowser";
+
+const RISK_CLASS: Record<FieldChange["risk_tier"], string> = {
+  high: "text-red-600 dark:text-red-400",
+  medium: "text-amber-700 dark:text-amber-400",
+  low: "text-[var(--color-text-tertiary)]",
+};
+
+/**
+ * Per-write diff for one event_audit_log row. changed_fields is the
+ * computePatchDiff() output stored at write time.
+ */
+export default function EventAuditDiff({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) {
+    return (
+      <p className="text-sm text-[var(--color-text-tertiary)]">
+        No field-level diff recorded for this action.
+      </p>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-[var(--color-text-tertiary)]">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          <th className="py-1 pr-4 font-medium">Before</th>
+          <th className="py-1 pr-4 font-medium">After</th>
+          <th className="py-1 font-medium">Risk</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="align-top border-t border-[var(--color-border-default)]">
+            <td className="py-1 pr-4 font-mono text-[var(--color-text-primary)]">{change.field}</td>
+            {change.kind === "array" ? (
+              <td colSpan={2} className="py-1 pr-4 break-all">
+                {change.added.length > 0 && (
+                  <div className="text-emerald-700 dark:text-emerald-400">+ {change.added.join(", ")}</div>
+                )}
+                {change.removed.length > 0 && (
+                  <div className="text-red-600 dark:text-red-400">− {change.removed.join(", ")}</div>
+                )}
+              </td>
+            ) : (
+              <>
+                <td className="py-1 pr-4 break-all text-[var(--color-text-secondary)]">{formatAuditValue(change.before)}</td>
+                <td className="py-1 pr-4 break-all text-[var(--color-text-primary)]">{formatAuditValue(change.after)}</td>
+              </>
+            )}
+            <td className={`py-1 ${RISK_CLASS[change.risk_tier] ?? ""}`}>{change.risk_tier}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
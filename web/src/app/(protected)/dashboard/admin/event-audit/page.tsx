@@ -0,0 +1,258 @@
+import Link from "next/link";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { FieldChange } from "@/lib/events/computePatchDiff";
+import { SUSPICION_SIGNAL_LABELS, type SuspicionSignal } from "@/lib/events/auditSuspicion";
+import {
+  EVENT_AUDIT_BROWSER_PATH,
+  EVENT_AUDIT_FIELD_OPTIONS,
+  EVENT_AUDIT_PAGE_SIZE,
+  buildEventAuditHref,
+  getEventAuditTimeRange,
+  parseEventAuditFilters,
+} from "@/lib/audit/eventAuditBrowser";
+import EventAuditDiff from "./_components/EventAuditDiff";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Event Audit Log | Admin",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 text-sm bg-[var(--color-bg-tertiary)] border border-[var(--color-border-default)] rounded text-[var(--color-text-primary)]";
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Denver",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default async function AdminEventAuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const supabase = await createSupabaseServerClient();
+
+  const {
+    data: { user: sessionUser },
+  } = await supabase.auth.getUser();
+
+  const user = sessionUser ?? null;
+  if (!user) {
+    return <div className="p-8 text-red-500">You must be logged in.</div>;
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return <div className="p-8 text-red-500">Access denied — admin only.</div>;
+  }
+
+  const filters = parseEventAuditFilters(await searchParams);
+  const { gte, lt } = getEventAuditTimeRange(filters);
+  const offset = (filters.page - 1) * EVENT_AUDIT_PAGE_SIZE;
+
+  let query = supabase
+    .from("event_audit_log")
+    .select(
+      "id, event_id, event_id_at_observation, event_title_at_observation, event_slug_at_observation, actor_id, actor_role, action, source, changed_fields, summary, user_agent_class, suspicion_score, suspicion_signals, created_at"
+    );
+
+  if (filters.eventId) query = query.eq("event_id_at_observation", filters.eventId);
+  if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+  if (filters.field) query = query.contains("changed_fields", [{ field: filters.field }]);
+  if (gte) query = query.gte("created_at", gte);
+  if (lt) query = query.lt("created_at", lt);
+  if (filters.flaggedOnly) query = query.gt("suspicion_score", 0);
+
+  // One extra row tells us whether there is a next page.
+  const { data: rows, error } = await query
+    .order("created_at", { ascending: false })
+    .range(offset, offset + EVENT_AUDIT_PAGE_SIZE);
+
+  if (error) {
+    console.error("Error fetching event audit log:", error);
+  }
+
+  const hasNextPage = (rows?.length ?? 0) > EVENT_AUDIT_PAGE_SIZE;
+  const pageRows = (rows ?? []).slice(0, EVENT_AUDIT_PAGE_SIZE);
+
+  const actorIds = [...new Set(pageRows.map((row) => row.actor_id).filter((id): id is string => !!id))];
+  const { data: actors } = actorIds.length > 0
+    ? await supabase.from("profiles").select("id, full_name, email").in("id", actorIds)
+    : { data: [] };
+  const actorNames = new Map(
+    (actors ?? []).map((actor) => [actor.id, actor.full_name || actor.email || actor.id])
+  );
+
+  const hasFilters =
+    !!(filters.eventId || filters.actorId || filters.field || filters.from || filters.to || filters.flaggedOnly);
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-7xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-[var(--color-text-accent)] mb-3">
+          Event Audit Log
+        </h1>
+        <p className="text-[var(--color-text-secondary)]">
+          Every event write with its field-level diff. Flagged rows scored as suspicious are highlighted.
+        </p>
+      </div>
+
+      {/* Filters (GET form so views can be bookmarked and linked from alert emails) */}
+      <form
+        method="get"
+        className="mb-6 p-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg"
+      >
+        <label className="text-sm text-[var(--color-text-secondary)] lg:col-span-2">
+          Event ID
+          <input name="event_id" defaultValue={filters.eventId ?? ""} placeholder="uuid" className={inputClassName} />
+        </label>
+        <label className="text-sm text-[var(--color-text-secondary)] lg:col-span-2">
+          Actor ID
+          <input name="actor_id" defaultValue={filters.actorId ?? ""} placeholder="uuid" className={inputClassName} />
+        </label>
+        <label className="text-sm text-[var(--color-text-secondary)] lg:col-span-2">
+          Field
+          <select name="field" defaultValue={filters.field ?? ""} className={inputClassName}>
+            <option value="">Any field</option>
+            {EVENT_AUDIT_FIELD_OPTIONS.map((field) => (
+              <option key={field} value={field}>{field}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-[var(--color-text-secondary)] lg:col-span-2">
+          From
+          <input type="date" name="from" defaultValue={filters.from ?? ""} className={inputClassName} />
+        </label>
+        <label className="text-sm text-[var(--color-text-secondary)] lg:col-span-2">
+          To
+          <input type="date" name="to" defaultValue={filters.to ?? ""} className={inputClassName} />
+        </label>
+        <div className="flex items-end gap-3 lg:col-span-2">
+          <label className="flex items-center gap-2 text-sm text-[var(--color-text-primary)] py-2">
+            <input type="checkbox" name="flagged" value="1" defaultChecked={filters.flaggedOnly} />
+            Flagged only
+          </label>
+          <button
+            type="submit"
+            className="ml-auto px-4 py-2 text-sm rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] font-medium"
+          >
+            Filter
+          </button>
+          {hasFilters && (
+            <Link
+              href={EVENT_AUDIT_BROWSER_PATH}
+              className="px-3 py-2 text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-text-accent)]"
+            >
+              Clear
+            </Link>
+          )}
+        </div>
+      </form>
+
+      {pageRows.length === 0 ? (
+        <p className="p-6 text-center text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+          {error ? "Failed to load audit rows." : "No audit rows match these filters."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {pageRows.map((row) => {
+            const score = row.suspicion_score ?? 0;
+            const signals: string[] = row.suspicion_signals ?? [];
+            const changes = (Array.isArray(row.changed_fields) ? row.changed_fields : []) as unknown as FieldChange[];
+            const actorLabel = row.actor_id ? actorNames.get(row.actor_id) ?? row.actor_id : "(no actor)";
+            return (
+              <details
+                key={row.id}
+                className={`rounded-lg border bg-[var(--color-bg-secondary)] ${
+                  score > 0 ? "border-red-500/50" : "border-[var(--color-border-default)]"
+                }`}
+              >
+                <summary className="cursor-pointer p-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <span className="text-[var(--color-text-tertiary)] w-44 shrink-0">{formatTimestamp(row.created_at)}</span>
+                  <span className="font-medium text-[var(--color-text-primary)]">{row.action}</span>
+                  <span className="text-[var(--color-text-primary)] truncate max-w-xs">
+                    {row.event_title_at_observation || row.event_id_at_observation}
+                  </span>
+                  <span className="text-[var(--color-text-secondary)]">
+                    {actorLabel} · {row.actor_role} · {row.source}
+                  </span>
+                  {score > 0 && (
+                    <span className="px-2 py-0.5 rounded bg-red-500/10 text-red-600 dark:text-red-400 font-medium">
+                      Score {score}
+                    </span>
+                  )}
+                  <span className="basis-full text-[var(--color-text-secondary)] truncate">{row.summary}</span>
+                </summary>
+                <div className="px-3 pb-3 space-y-3">
+                  {signals.length > 0 && (
+                    <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5">
+                      {signals.map((signal) => (
+                        <li key={signal}>{SUSPICION_SIGNAL_LABELS[signal as SuspicionSignal] ?? signal}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <EventAuditDiff changes={changes} />
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <Link
+                      href={buildEventAuditHref(filters, { eventId: row.event_id_at_observation, page: 1 })}
+                      className="text-[var(--color-text-accent)] hover:underline"
+                    >
+                      All writes to this event
+                    </Link>
+                    {row.actor_id && (
+                      <Link
+                        href={buildEventAuditHref(filters, { actorId: row.actor_id, page: 1 })}
+                        className="text-[var(--color-text-accent)] hover:underline"
+                      >
+                        All writes by this actor
+                      </Link>
+                    )}
+                    {row.event_id && (
+                      <Link
+                        href={`/events/${row.event_slug_at_observation || row.event_id}`}
+                        className="text-[var(--color-text-accent)] hover:underline"
+                      >
+                        View event
+                      </Link>
+                    )}
+                    {row.user_agent_class && (
+                      <span className="text-[var(--color-text-tertiary)]">Client: {row.user_agent_class}</span>
+                    )}
+                  </div>
+                </div>
+              </details>
+            );
+          })}
+        </div>
+      )}
+
+      {(filters.page > 1 || hasNextPage) && (
+        <div className="mt-6 flex items-center justify-between text-sm">
+          {filters.page > 1 ? (
+            <Link href={buildEventAuditHref(filters, { page: filters.page - 1 })} className="text-[var(--color-text-accent)] hover:underline">
+              ← Newer
+            </Link>
+          ) : <span />}
+          <span className="text-[var(--color-text-tertiary)]">Page {filters.page}</span>
+          {hasNextPage ? (
+            <Link href={buildEventAuditHref(filters, { page: filters.page + 1 })} className="text-[var(--color-text-accent)] hover:underline">
+              Older →
+            </Link>
+          ) : <span />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import VenueSelector from "@/components/admin/VenueSelector";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import { EVENT_TYPE_CONFIG } from "@/types/events";
 
@@ -167,6 +168,9 @@ export default function EventCreateForm({ venues: initialVenues, userId }: Event
           console.error("Upload error:", uploadError);
           toast.error("Event created but image upload failed");
         } else {
+          // Strip location metadata and build responsive variants
+          await processUploadedImage("event-images", fileName);
+
           // Get public URL
           const { data: { publicUrl } } = supabase.storage
             .from("event-images")
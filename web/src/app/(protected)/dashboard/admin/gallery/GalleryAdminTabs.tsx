@@ -7,6 +7,7 @@ import { createClient } from "@/lib/supabase/client";
 import { reconcileAlbumLinks } from "@/lib/gallery/albumLinks";
 import CollaboratorSelect, { type Collaborator } from "@/components/gallery/CollaboratorSelect";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import BulkUploadGrid from "@/components/gallery/BulkUploadGrid";
 import { AlbumPhotoManager } from "@/components/gallery/AlbumPhotoManager";
@@ -247,6 +248,9 @@ export default function GalleryAdminTabs({ images, albums, venues, events, userI
       return null;
     }
 
+    // Strip location metadata and build responsive variants
+    await processUploadedImage('gallery-images', fileName);
+
     const { data: { publicUrl } } = supabase.storage
       .from('gallery-images')
       .getPublicUrl(fileName);
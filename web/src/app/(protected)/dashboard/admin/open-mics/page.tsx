@@ -1,6 +1,8 @@
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import VerificationQueueTable from "@/components/admin/VerificationQueueTable";
+import { getReverificationQueueState } from "@/lib/reverification/campaign";
+import { loadLatestReverificationRequests } from "@/lib/reverification/server";
 
 export const dynamic = "force-dynamic";
 
@@ -78,6 +80,15 @@ export default async function AdminOpenMicsPage() {
     }
   });
 
+  // Latest reverification request per event, for the non-responder filter
+  let latestRequests: Awaited<ReturnType<typeof loadLatestReverificationRequests>> = new Map();
+  try {
+    latestRequests = await loadLatestReverificationRequests(serviceClient, eventIds);
+  } catch (requestsError) {
+    console.error("Failed to fetch reverification requests:", requestsError);
+  }
+  const now = new Date();
+
   // Normalize the events - ensure venues is object or null (not array)
   const events = (rawEvents || []).map((e) => ({
     id: e.id as string,
@@ -101,6 +112,11 @@ export default async function AdminOpenMicsPage() {
     // Add counts for delete guardrails
     rsvp_count: rsvpCountMap[e.id] || 0,
     claim_count: claimCountMap[e.id] || 0,
+    reverification: (() => {
+      const latest = latestRequests.get(e.id);
+      const state = getReverificationQueueState(e, latest, now);
+      return state && latest ? { state, sent_at: latest.sent_at } : null;
+    })(),
   }));
 
   // Get unique venues for filter dropdown
@@ -112,7 +128,7 @@ export default async function AdminOpenMicsPage() {
         Event Verification Queue
       </h1>
       <p className="text-[var(--color-text-secondary)] mb-8">
-        Review and verify events. <strong>Unconfirmed</strong> events need admin verification before showing as confirmed on the public site.
+        Review and verify events. <strong>Unconfirmed</strong> events need admin verification before showing as confirmed on the public site. <strong>No response</strong> lists stale listings whose host or venue manager didn&apos;t answer the reverification email; they show as unconfirmed until re-verified.
       </p>
 
       <VerificationQueueTable events={events} venues={uniqueVenues} />
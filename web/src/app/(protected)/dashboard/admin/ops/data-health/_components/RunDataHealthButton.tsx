@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * Run Data Health Button
+ *
+ * Triggers an on-demand data health run and refreshes the dashboard.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function RunDataHealthButton() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/admin/ops/data-health/run", { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Run failed");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={loading}
+        className="px-4 py-2 bg-[var(--color-accent-primary)] hover:bg-[var(--color-accent-hover)] text-[var(--color-text-on-accent)] rounded-lg font-medium disabled:opacity-50"
+      >
+        {loading ? "Running checks..." : "Run now"}
+      </button>
+      {error && <span className="text-sm text-red-500">{error}</span>}
+    </div>
+  );
+}
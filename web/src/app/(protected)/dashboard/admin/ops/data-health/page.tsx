@@ -0,0 +1,207 @@
+/**
+ * Data Health Page
+ *
+ * Admin-only view of the scheduled data health runs: per-check counts with
+ * a trend over recent runs, and the flagged rows of the latest run with a
+ * link to where each one is fixed.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import {
+  DATA_HEALTH_CHECKS,
+  DATA_HEALTH_CHECK_KEYS,
+  dataHealthFixHref,
+  type DataHealthCheckKey,
+  type DataHealthEntityType,
+} from "@/lib/ops/dataHealth";
+import { DATA_HEALTH_TREND_RUNS } from "@/lib/ops/dataHealthServer";
+import RunDataHealthButton from "./_components/RunDataHealthButton";
+
+export const dynamic = "force-dynamic";
+
+const ISSUE_LIST_LIMIT = 200;
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Denver",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function readCount(counts: unknown, key: DataHealthCheckKey): number | null {
+  if (!counts || typeof counts !== "object") return null;
+  const value = (counts as Record<string, unknown>)[key];
+  return typeof value === "number" ? value : null;
+}
+
+export default async function DataHealthPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ check?: string }>;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const { check: checkParam } = await searchParams;
+  const selectedCheck = DATA_HEALTH_CHECK_KEYS.find((key) => key === checkParam) ?? null;
+
+  const serviceClient = createServiceRoleClient();
+  const { data: runs } = await serviceClient
+    .from("data_health_runs")
+    .select("id, trigger, started_at, finished_at, counts, error")
+    .order("started_at", { ascending: false })
+    .limit(DATA_HEALTH_TREND_RUNS);
+
+  const completedRuns = (runs ?? []).filter((run) => run.finished_at && !run.error);
+  const latest = completedRuns[0] ?? null;
+  const previous = completedRuns[1] ?? null;
+  const lastFailure = runs?.[0]?.error ? runs[0] : null;
+  // Oldest first for the trend bars
+  const trendRuns = [...completedRuns].reverse();
+
+  const { data: issues } = latest && selectedCheck
+    ? await serviceClient
+        .from("data_health_issues")
+        .select("id, entity_type, entity_id, event_id, label, detail")
+        .eq("run_id", latest.id)
+        .eq("check_key", selectedCheck)
+        .order("label")
+        .limit(ISSUE_LIST_LIMIT)
+    : { data: null };
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-5xl mx-auto">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-[var(--color-accent-primary)] mb-2">
+            Data Health
+          </h1>
+          <p className="text-[var(--color-text-secondary)]">
+            {latest
+              ? `Last run ${formatTimestamp(latest.started_at)} (${latest.trigger}). Checks run daily.`
+              : "No completed runs yet. Checks run daily."}
+          </p>
+        </div>
+        <RunDataHealthButton />
+      </div>
+
+      {lastFailure && (
+        <div className="mb-6 p-3 bg-red-500/10 border border-red-500/30 rounded text-red-600 dark:text-red-400 text-sm">
+          Latest run ({formatTimestamp(lastFailure.started_at)}) failed: {lastFailure.error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {DATA_HEALTH_CHECK_KEYS.map((key) => {
+          const count = latest ? readCount(latest.counts, key) : null;
+          const prior = previous ? readCount(previous.counts, key) : null;
+          const delta = count !== null && prior !== null ? count - prior : null;
+          const series = trendRuns.map((run) => readCount(run.counts, key) ?? 0);
+          const max = Math.max(1, ...series);
+          const selected = selectedCheck === key;
+
+          return (
+            <Link
+              key={key}
+              href={selected ? "/dashboard/admin/ops/data-health" : `/dashboard/admin/ops/data-health?check=${key}`}
+              className={`block p-4 bg-[var(--color-bg-secondary)] border rounded-lg transition-colors ${
+                selected
+                  ? "border-[var(--color-accent-primary)]"
+                  : "border-[var(--color-border-default)] hover:border-[var(--color-accent-primary)]"
+              }`}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <h2 className="font-semibold text-[var(--color-text-primary)]">{DATA_HEALTH_CHECKS[key].label}</h2>
+                <span className={`text-2xl font-bold ${count ? "text-amber-600 dark:text-amber-400" : "text-[var(--color-text-primary)]"}`}>
+                  {count ?? "—"}
+                </span>
+              </div>
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-1">{DATA_HEALTH_CHECKS[key].description}</p>
+              <div className="flex items-end gap-0.5 h-8 mt-3" aria-hidden="true">
+                {series.map((value, index) => (
+                  <span
+                    key={index}
+                    className="flex-1 bg-[var(--color-accent-primary)]/40 rounded-sm"
+                    style={{ height: `${Math.max(4, (value / max) * 100)}%` }}
+                  />
+                ))}
+              </div>
+              {delta !== null && delta !== 0 && (
+                <p className={`text-xs mt-1 ${delta > 0 ? "text-red-600 dark:text-red-400" : "text-emerald-700 dark:text-emerald-400"}`}>
+                  {delta > 0 ? `+${delta}` : delta} since previous run
+                </p>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+
+      {selectedCheck && (
+        <section className="mt-8">
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-3">
+            {DATA_HEALTH_CHECKS[selectedCheck].label}
+          </h2>
+          {!issues || issues.length === 0 ? (
+            <p className="p-6 text-center text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+              Nothing flagged in the latest run.
+            </p>
+          ) : (
+            <ul className="divide-y divide-[var(--color-border-default)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+              {issues.map((issue) => (
+                <li key={issue.id} className="p-3 flex items-center gap-4 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-[var(--color-text-primary)] truncate">{issue.label}</p>
+                    {issue.detail && (
+                      <p className="text-[var(--color-text-tertiary)] truncate">{issue.detail}</p>
+                    )}
+                  </div>
+                  <Link
+                    href={dataHealthFixHref({
+                      entityType: issue.entity_type as DataHealthEntityType,
+                      entityId: issue.entity_id,
+                      eventId: issue.event_id,
+                    })}
+                    className="shrink-0 text-[var(--color-accent-primary)] font-medium hover:underline"
+                  >
+                    Fix →
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+          {issues && issues.length === ISSUE_LIST_LIMIT && (
+            <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">Showing the first {ISSUE_LIST_LIMIT}.</p>
+          )}
+        </section>
+      )}
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href="/dashboard/admin/ops"
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Ops Console
+        </Link>
+      </div>
+    </div>
+  );
+}
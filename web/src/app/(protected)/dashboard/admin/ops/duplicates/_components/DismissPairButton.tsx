@@ -0,0 +1,61 @@
+"use client";
+
+/**
+ * Dismiss Pair Button
+ *
+ * Marks a queue pair as "not a duplicate" and refreshes the queue.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { DuplicateEntityType } from "@/lib/ops/duplicateDetection";
+
+interface DismissPairButtonProps {
+  type: DuplicateEntityType;
+  leftId: string;
+  rightId: string;
+}
+
+export default function DismissPairButton({ type, leftId, rightId }: DismissPairButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDismiss = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/admin/ops/duplicates/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, survivorId: leftId, loserId: rightId }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Dismiss failed");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleDismiss}
+        disabled={loading}
+        className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] disabled:opacity-50"
+      >
+        {loading ? "Dismissing..." : "Not a duplicate"}
+      </button>
+      {error && <span className="text-red-500">{error}</span>}
+    </>
+  );
+}
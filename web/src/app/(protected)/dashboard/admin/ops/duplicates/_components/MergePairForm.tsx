@@ -0,0 +1,212 @@
+"use client";
+
+/**
+ * Merge Pair Form
+ *
+ * Side-by-side field picker for a duplicate pair. Columns are the two
+ * records; each field group row picks the side whose values the survivor
+ * keeps. Child-row counts show what moves with the merge.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import type { DuplicateEntityType, MergeFieldChoice } from "@/lib/ops/duplicateDetection";
+
+export interface MergeFormSide {
+  id: string;
+  title: string;
+  href: string;
+  slug: string | null;
+  createdAt: string | null;
+  counts: Record<string, number>;
+}
+
+export interface MergeFormGroup {
+  key: string;
+  label: string;
+  values: [string, string];
+}
+
+interface MergePairFormProps {
+  type: DuplicateEntityType;
+  sides: [MergeFormSide, MergeFormSide];
+  groups: MergeFormGroup[];
+  queueHref: string;
+}
+
+type SideIndex = 0 | 1;
+
+export default function MergePairForm({ type, sides, groups, queueHref }: MergePairFormProps) {
+  const router = useRouter();
+  const [survivor, setSurvivor] = useState<SideIndex>(0);
+  const [picks, setPicks] = useState<Record<string, SideIndex>>({});
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loser: SideIndex = survivor === 0 ? 1 : 0;
+  const pickFor = (key: string): SideIndex => picks[key] ?? survivor;
+
+  const handleMerge = async () => {
+    setLoading(true);
+    setError(null);
+
+    const choices: Record<string, MergeFieldChoice> = {};
+    for (const group of groups) {
+      choices[group.key] = pickFor(group.key) === survivor ? "survivor" : "loser";
+    }
+
+    try {
+      const res = await fetch("/api/admin/ops/duplicates/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          survivorId: sides[survivor].id,
+          loserId: sides[loser].id,
+          choices,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Merge failed");
+        return;
+      }
+      router.push(queueHref);
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+      setShowConfirm(false);
+    }
+  };
+
+  const cellClass = (selected: boolean) =>
+    `p-3 text-sm align-top cursor-pointer break-words ${
+      selected
+        ? "bg-[var(--color-accent-primary)]/10 text-[var(--color-text-primary)]"
+        : "text-[var(--color-text-secondary)]"
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+        <table className="w-full table-fixed">
+          <thead>
+            <tr className="border-b border-[var(--color-border-default)]">
+              <th className="w-36 p-3 text-left text-sm font-medium text-[var(--color-text-tertiary)]">Survivor</th>
+              {sides.map((side, index) => (
+                <th key={side.id} className="p-3 text-left align-top">
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="survivor"
+                      checked={survivor === index}
+                      onChange={() => {
+                        setSurvivor(index as SideIndex);
+                        setPicks({});
+                      }}
+                      className="mt-1"
+                    />
+                    <span className="min-w-0">
+                      <Link
+                        href={side.href}
+                        className="block font-semibold text-[var(--color-text-primary)] hover:text-[var(--color-text-accent)] truncate"
+                      >
+                        {side.title}
+                      </Link>
+                      <span className="block text-xs font-normal text-[var(--color-text-tertiary)]">
+                        {side.slug ?? side.id}
+                        {side.createdAt ? ` · created ${side.createdAt.slice(0, 10)}` : ""}
+                      </span>
+                    </span>
+                  </label>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group.key} className="border-t border-[var(--color-border-default)]">
+                <td className="p-3 text-sm font-medium text-[var(--color-text-primary)] align-top">{group.label}</td>
+                {group.values.map((value, index) => (
+                  <td
+                    key={index}
+                    className={cellClass(pickFor(group.key) === index)}
+                    onClick={() => setPicks((prev) => ({ ...prev, [group.key]: index as SideIndex }))}
+                  >
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`field-${group.key}`}
+                        checked={pickFor(group.key) === index}
+                        onChange={() => setPicks((prev) => ({ ...prev, [group.key]: index as SideIndex }))}
+                        className="mt-1"
+                      />
+                      <span className="line-clamp-4">{value || "∅"}</span>
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t border-[var(--color-border-default)]">
+              <td className="p-3 text-sm font-medium text-[var(--color-text-primary)] align-top">Attached</td>
+              {sides.map((side) => (
+                <td key={side.id} className="p-3 text-sm text-[var(--color-text-secondary)] align-top">
+                  {Object.entries(side.counts)
+                    .map(([label, count]) => `${count} ${label.toLowerCase()}`)
+                    .join(" · ")}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-sm text-[var(--color-text-secondary)]">
+        <strong className="text-[var(--color-text-primary)]">{sides[loser].title}</strong> will be deleted.
+        Its attachments move to <strong className="text-[var(--color-text-primary)]">{sides[survivor].title}</strong>;
+        its hosts join as co-hosts. Rows that would clash with the survivor&apos;s own (same member, same date) are
+        dropped.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded text-red-600 dark:text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {showConfirm ? (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={loading}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium disabled:opacity-50"
+          >
+            {loading ? "Merging..." : "Confirm merge"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowConfirm(false)}
+            disabled={loading}
+            className="px-4 py-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowConfirm(true)}
+          className="px-4 py-2 bg-[var(--color-accent-primary)] hover:bg-[var(--color-accent-hover)] text-[var(--color-text-on-accent)] rounded-lg font-medium"
+        >
+          Merge into survivor
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Duplicate Merge Page
+ *
+ * Side-by-side view of a candidate pair. The admin picks the survivor and,
+ * per field group, which side's values it keeps.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { loadMergePair } from "@/lib/ops/duplicateReviewServer";
+import { getMergeFieldGroups, type DuplicateEntityType } from "@/lib/ops/duplicateDetection";
+import { formatAuditValue } from "@/lib/audit/eventAuditBrowser";
+import MergePairForm, { type MergeFormSide } from "../_components/MergePairForm";
+
+export const dynamic = "force-dynamic";
+
+export default async function DuplicateMergePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string; a?: string; b?: string }>;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const { type: typeParam, a, b } = await searchParams;
+  const type: DuplicateEntityType = typeParam === "venue" ? "venue" : "event";
+  const queueHref = `/dashboard/admin/ops/duplicates?type=${type}`;
+
+  const pair = a && b && a !== b
+    ? await loadMergePair(createServiceRoleClient(), type, a, b)
+    : null;
+
+  if (!pair) {
+    return (
+      <div className="min-h-screen w-full px-6 py-12 max-w-5xl mx-auto">
+        <p className="text-[var(--color-text-secondary)] mb-4">
+          One of these records no longer exists — it may already have been merged.
+        </p>
+        <Link href={queueHref} className="text-[var(--color-accent-primary)] text-sm">
+          ← Back to Duplicate Review
+        </Link>
+      </div>
+    );
+  }
+
+  const groups = getMergeFieldGroups(type).map((group) => ({
+    key: group.key,
+    label: group.label,
+    values: pair.map((side) =>
+      group.columns
+        .map((column) => side.row[column])
+        .filter((value) => value !== null && value !== undefined && value !== "")
+        .map(formatAuditValue)
+        .join(" · ")
+    ) as [string, string],
+  }));
+
+  const sides = pair.map((side): MergeFormSide => {
+    const id = String(side.row.id);
+    const slug = side.row.slug ? String(side.row.slug) : null;
+    return {
+      id,
+      title: String((type === "event" ? side.row.title : side.row.name) ?? id),
+      href: `/${type === "event" ? "events" : "venues"}/${slug || id}`,
+      slug,
+      createdAt: side.row.created_at ? String(side.row.created_at) : null,
+      counts: side.counts,
+    };
+  }) as [MergeFormSide, MergeFormSide];
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-6xl mx-auto">
+      <h1 className="text-4xl font-bold text-[var(--color-accent-primary)] mb-2">
+        Merge {type === "event" ? "Happenings" : "Venues"}
+      </h1>
+      <p className="text-[var(--color-text-secondary)] mb-8">
+        The survivor keeps its ID and URL. The other record is deleted after its
+        attendees, claims and history move over; its slug redirects to the survivor.
+      </p>
+
+      <MergePairForm type={type} sides={sides} groups={groups} queueHref={queueHref} />
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href={queueHref}
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Duplicate Review
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Duplicate Review Page
+ *
+ * Admin-only queue of likely duplicate happenings and venues, scored by
+ * lib/ops/duplicateDetection. Each pair links to the side-by-side merge
+ * screen or can be dismissed as a false match.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { loadDuplicateQueue } from "@/lib/ops/duplicateReviewServer";
+import type {
+  DuplicateEntityType,
+  DuplicateEventCandidate,
+  DuplicateVenueCandidate,
+} from "@/lib/ops/duplicateDetection";
+import DismissPairButton from "./_components/DismissPairButton";
+
+export const dynamic = "force-dynamic";
+
+function describeEvent(event: DuplicateEventCandidate): string {
+  const when = event.event_date ?? event.day_of_week ?? "no date";
+  const time = event.start_time ? event.start_time.slice(0, 5) : "no time";
+  const draft = event.is_published ? "" : " · draft";
+  return `${event.venue_name ?? event.custom_location_name ?? "No venue"} · ${when} · ${time}${draft}`;
+}
+
+function describeVenue(venue: DuplicateVenueCandidate): string {
+  return [venue.address, venue.city].filter(Boolean).join(", ") || "No address";
+}
+
+export default async function DuplicateReviewPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string }>;
+}) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const { type: typeParam } = await searchParams;
+  const type: DuplicateEntityType = typeParam === "venue" ? "venue" : "event";
+
+  const serviceClient = createServiceRoleClient();
+  const queue = await loadDuplicateQueue(serviceClient, type);
+
+  const rows =
+    queue.type === "event"
+      ? queue.pairs.map((pair) => ({
+          key: `${pair.left.id}:${pair.right.id}`,
+          score: pair.score,
+          reasons: pair.reasons,
+          sides: [pair.left, pair.right].map((event) => ({
+            id: event.id,
+            title: event.title,
+            href: `/events/${event.slug || event.id}`,
+            detail: describeEvent(event),
+          })),
+        }))
+      : queue.pairs.map((pair) => ({
+          key: `${pair.left.id}:${pair.right.id}`,
+          score: pair.score,
+          reasons: pair.reasons,
+          sides: [pair.left, pair.right].map((venue) => ({
+            id: venue.id,
+            title: venue.name,
+            href: `/venues/${venue.slug || venue.id}`,
+            detail: describeVenue(venue),
+          })),
+        }));
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 text-sm rounded-lg border ${
+      active
+        ? "border-[var(--color-accent-primary)] text-[var(--color-text-accent)]"
+        : "border-[var(--color-border-default)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+    }`;
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-5xl mx-auto">
+      <h1 className="text-4xl font-bold text-[var(--color-accent-primary)] mb-2">
+        Duplicate Review
+      </h1>
+      <p className="text-[var(--color-text-secondary)] mb-6">
+        Likely duplicates, highest score first. Merging keeps the survivor&apos;s
+        URL, moves attendees and history over, and redirects the old slug.
+      </p>
+
+      <div className="flex gap-3 mb-6">
+        <Link href="/dashboard/admin/ops/duplicates?type=event" className={tabClass(type === "event")}>
+          Happenings
+        </Link>
+        <Link href="/dashboard/admin/ops/duplicates?type=venue" className={tabClass(type === "venue")}>
+          Venues
+        </Link>
+        <span className="ml-auto self-center text-sm text-[var(--color-text-tertiary)]">
+          {queue.total} candidate {queue.total === 1 ? "pair" : "pairs"}
+          {queue.total > rows.length ? ` (showing ${rows.length})` : ""}
+        </span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="p-6 text-center text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+          No likely duplicates. Nice.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((row) => (
+            <div
+              key={row.key}
+              className="p-4 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg"
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                <span className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-700 dark:text-amber-400 font-medium">
+                  {Math.round(row.score * 100)}%
+                </span>
+                <span className="text-[var(--color-text-secondary)]">{row.reasons.join(" · ")}</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                {row.sides.map((side) => (
+                  <div key={side.id} className="min-w-0">
+                    <Link
+                      href={side.href}
+                      className="font-medium text-[var(--color-text-primary)] hover:text-[var(--color-text-accent)] truncate block"
+                    >
+                      {side.title}
+                    </Link>
+                    <p className="text-sm text-[var(--color-text-tertiary)] truncate">{side.detail}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-4 text-sm">
+                <Link
+                  href={`/dashboard/admin/ops/duplicates/merge?type=${type}&a=${row.sides[0].id}&b=${row.sides[1].id}`}
+                  className="text-[var(--color-accent-primary)] font-medium hover:underline"
+                >
+                  Review &amp; merge →
+                </Link>
+                <DismissPairButton type={type} leftId={row.sides[0].id} rightId={row.sides[1].id} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href="/dashboard/admin/ops"
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Ops Console
+        </Link>
+      </div>
+    </div>
+  );
+}
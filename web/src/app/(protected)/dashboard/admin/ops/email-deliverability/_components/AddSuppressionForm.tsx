@@ -0,0 +1,64 @@
+"use client";
+
+/**
+ * Add Suppression Form
+ *
+ * Manually suppresses an address and refreshes the list.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function AddSuppressionForm() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/admin/ops/email-suppressions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Suppress failed");
+        return;
+      }
+      setEmail("");
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="address@example.com"
+        required
+        className="px-3 py-1.5 bg-[var(--color-bg-input)] border border-[var(--color-border-input)] rounded text-sm text-[var(--color-text-primary)] placeholder:text-[var(--color-placeholder)]"
+      />
+      <button
+        type="submit"
+        disabled={loading || !email.trim()}
+        className="px-3 py-1.5 bg-[var(--color-accent-primary)] hover:bg-[var(--color-accent-hover)] text-[var(--color-text-on-accent)] rounded text-sm font-medium disabled:opacity-50"
+      >
+        {loading ? "Adding..." : "Suppress"}
+      </button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+/**
+ * Suppression Actions
+ *
+ * Lifts a suppression after confirmation and refreshes the list.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+interface Props {
+  id: string;
+  email: string;
+}
+
+export default function SuppressionActions({ id, email }: Props) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRemove = async () => {
+    if (!confirm(`Start sending email to ${email} again?`)) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/admin/ops/email-suppressions/${id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Remove failed");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={handleRemove}
+        disabled={loading}
+        className="px-2.5 py-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 rounded text-white text-xs font-medium"
+      >
+        {loading ? "..." : "Remove"}
+      </button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+}
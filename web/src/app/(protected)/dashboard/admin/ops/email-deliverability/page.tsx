@@ -0,0 +1,179 @@
+/**
+ * Email Deliverability Page
+ *
+ * Admin-only view of the suppression list (addresses the mailer skips
+ * because they bounced, complained or were suppressed by hand) and the most
+ * recent bounce/complaint reports from /api/email/bounces.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import {
+  SUPPRESSION_CONFIG,
+  SUPPRESSION_REASON_LABELS,
+  type SuppressionReason,
+} from "@/lib/email/suppression";
+import SuppressionActions from "./_components/SuppressionActions";
+import AddSuppressionForm from "./_components/AddSuppressionForm";
+
+export const dynamic = "force-dynamic";
+
+const SUPPRESSION_LIST_LIMIT = 500;
+const RECENT_EVENTS_LIMIT = 50;
+
+const KIND_LABELS: Record<string, string> = {
+  hard_bounce: "Hard bounce",
+  soft_bounce: "Soft bounce",
+  complaint: "Complaint",
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Denver",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default async function EmailDeliverabilityPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const [{ data: suppressions }, { data: recentEvents }] = await Promise.all([
+    serviceClient
+      .from("email_suppressions")
+      .select("id, email, reason, status_code, detail, created_at, last_event_at")
+      .order("last_event_at", { ascending: false })
+      .limit(SUPPRESSION_LIST_LIMIT),
+    serviceClient
+      .from("email_delivery_events")
+      .select("id, email, kind, status_code, diagnostic, received_at")
+      .order("received_at", { ascending: false })
+      .limit(RECENT_EVENTS_LIMIT),
+  ]);
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-5xl mx-auto">
+      <h1 className="text-4xl font-bold text-[var(--color-accent-primary)] mb-2">
+        Email Deliverability
+      </h1>
+      <p className="text-[var(--color-text-secondary)] mb-8">
+        Addresses on this list get no email at all. Hard bounces and spam complaints are
+        suppressed on the first report; soft bounces after {SUPPRESSION_CONFIG.SOFT_BOUNCE_LIMIT} in{" "}
+        {SUPPRESSION_CONFIG.SOFT_BOUNCE_WINDOW_DAYS} days.
+      </p>
+
+      <section className="mb-10">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)]">
+            Suppressed addresses ({suppressions?.length ?? 0})
+          </h2>
+          <AddSuppressionForm />
+        </div>
+
+        {!suppressions || suppressions.length === 0 ? (
+          <p className="text-[var(--color-text-tertiary)] py-6 text-center">
+            No suppressed addresses.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead>
+                <tr className="text-[var(--color-text-tertiary)] border-b border-[var(--color-border-default)]">
+                  <th className="px-3 py-2">Address</th>
+                  <th className="px-3 py-2">Reason</th>
+                  <th className="px-3 py-2">Detail</th>
+                  <th className="px-3 py-2">Last report</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {suppressions.map((row) => (
+                  <tr key={row.id} className="border-t border-[var(--color-border-subtle)] align-top">
+                    <td className="px-3 py-2 text-[var(--color-text-primary)] break-all">{row.email}</td>
+                    <td className="px-3 py-2 text-[var(--color-text-secondary)] whitespace-nowrap">
+                      {SUPPRESSION_REASON_LABELS[row.reason as SuppressionReason] ?? row.reason}
+                      {row.status_code && (
+                        <span className="ml-1 text-xs text-[var(--color-text-tertiary)]">({row.status_code})</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-[var(--color-text-tertiary)] max-w-xs">
+                      {row.detail || "—"}
+                    </td>
+                    <td className="px-3 py-2 text-[var(--color-text-secondary)] whitespace-nowrap">
+                      {formatTimestamp(row.last_event_at)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <SuppressionActions id={row.id} email={row.email} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {suppressions.length === SUPPRESSION_LIST_LIMIT && (
+              <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">
+                Showing the {SUPPRESSION_LIST_LIMIT} most recent.
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-3">
+          Recent bounce &amp; complaint reports
+        </h2>
+        {!recentEvents || recentEvents.length === 0 ? (
+          <p className="text-[var(--color-text-tertiary)] py-6 text-center">
+            No reports received yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[var(--color-border-subtle)] border border-[var(--color-border-default)] rounded-lg">
+            {recentEvents.map((event) => (
+              <li key={event.id} className="px-4 py-3 text-sm">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span className="text-[var(--color-text-primary)] break-all">{event.email}</span>
+                  <span className="text-xs text-[var(--color-text-tertiary)]">
+                    {KIND_LABELS[event.kind] ?? event.kind}
+                    {event.status_code ? ` · ${event.status_code}` : ""} · {formatTimestamp(event.received_at)}
+                  </span>
+                </div>
+                {event.diagnostic && (
+                  <p className="mt-1 text-xs text-[var(--color-text-tertiary)]">{event.diagnostic}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href="/dashboard/admin/ops"
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Ops Console
+        </Link>
+      </div>
+    </div>
+  );
+}
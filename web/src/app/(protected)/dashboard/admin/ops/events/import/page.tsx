@@ -3,13 +3,14 @@
 /**
  * Happenings Import Page
  *
- * Admin UI for bulk importing events via CSV.
- * Flow: Upload CSV → Preview → Confirm → Apply
+ * Admin UI for bulk importing events via CSV or an iCalendar (.ics) export.
+ * Flow: Upload file → Preview → Confirm → Apply
  */
 
 import { useState, useCallback } from "react";
 import Link from "next/link";
 import { generateImportTemplate, IMPORT_CSV_HEADERS } from "@/lib/ops/eventImportParser";
+import { VALID_EVENT_TYPES } from "@/lib/ops/eventImportValidation";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -30,6 +31,9 @@ interface PreviewResponse {
     event_date: string;
     day_of_week: string | null;
     recurrence_rule: string | null;
+    custom_dates: string[] | null;
+    max_occurrences: number | null;
+    cancelled_dates: string[];
     venue_id: string | null;
     venue_name: string | null;
     pre_verified: boolean;
@@ -50,6 +54,7 @@ interface PreviewResponse {
     warning: string;
   }>;
   parseErrors?: string[];
+  parseWarnings?: string[];
 }
 
 interface ApplyResponse {
@@ -81,14 +86,18 @@ interface ApplyResponse {
 
 type Step = "upload" | "preview" | "applying" | "results";
 
+type FileFormat = "csv" | "ics";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Component
 // ─────────────────────────────────────────────────────────────────────────────
 
 export default function EventImportPage() {
   const [step, setStep] = useState<Step>("upload");
-  const [csvContent, setCsvContent] = useState<string>("");
+  const [fileContent, setFileContent] = useState<string>("");
   const [fileName, setFileName] = useState<string>("");
+  const [fileFormat, setFileFormat] = useState<FileFormat>("csv");
+  const [defaultEventType, setDefaultEventType] = useState<string>("open_mic");
   const [previewData, setPreviewData] = useState<PreviewResponse | null>(null);
   const [applyData, setApplyData] = useState<ApplyResponse | null>(null);
   const [error, setError] = useState<string>("");
@@ -100,6 +109,7 @@ export default function EventImportPage() {
   const [showInvalid, setShowInvalid] = useState(true);
   const [showDuplicates, setShowDuplicates] = useState(true);
   const [showWarnings, setShowWarnings] = useState(true);
+  const [showParseWarnings, setShowParseWarnings] = useState(true);
 
   // Handle file upload
   const handleFileUpload = useCallback(
@@ -107,16 +117,18 @@ export default function EventImportPage() {
       const file = event.target.files?.[0];
       if (!file) return;
 
-      if (!file.name.endsWith(".csv")) {
-        setError("Please upload a CSV file");
+      const lowerName = file.name.toLowerCase();
+      if (!lowerName.endsWith(".csv") && !lowerName.endsWith(".ics")) {
+        setError("Please upload a CSV or .ics file");
         return;
       }
 
       const reader = new FileReader();
       reader.onload = (e) => {
         const content = e.target?.result as string;
-        setCsvContent(content);
+        setFileContent(content);
         setFileName(file.name);
+        setFileFormat(lowerName.endsWith(".ics") ? "ics" : "csv");
         setError("");
       };
       reader.onerror = () => {
@@ -127,10 +139,21 @@ export default function EventImportPage() {
     []
   );
 
+  // Request body for preview/apply
+  const buildRequestBody = useCallback(
+    () =>
+      JSON.stringify(
+        fileFormat === "ics"
+          ? { ics: fileContent, default_event_type: defaultEventType }
+          : { csv: fileContent }
+      ),
+    [fileContent, fileFormat, defaultEventType]
+  );
+
   // Handle preview
   const handlePreview = useCallback(async () => {
-    if (!csvContent) {
-      setError("Please upload a CSV file first");
+    if (!fileContent) {
+      setError("Please upload a CSV or .ics file first");
       return;
     }
 
@@ -141,7 +164,7 @@ export default function EventImportPage() {
       const response = await fetch("/api/admin/ops/events/import-preview", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ csv: csvContent }),
+        body: buildRequestBody(),
       });
 
       const data: PreviewResponse = await response.json();
@@ -163,7 +186,7 @@ export default function EventImportPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [csvContent]);
+  }, [fileContent, buildRequestBody]);
 
   // Handle apply
   const handleApply = useCallback(async () => {
@@ -180,7 +203,7 @@ export default function EventImportPage() {
       const response = await fetch("/api/admin/ops/events/import-apply", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ csv: csvContent }),
+        body: buildRequestBody(),
       });
 
       const data: ApplyResponse = await response.json();
@@ -197,7 +220,7 @@ export default function EventImportPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [csvContent, confirmed]);
+  }, [buildRequestBody, confirmed]);
 
   // Download template
   const handleDownloadTemplate = useCallback(() => {
@@ -228,8 +251,9 @@ export default function EventImportPage() {
   // Reset to start
   const handleReset = useCallback(() => {
     setStep("upload");
-    setCsvContent("");
+    setFileContent("");
     setFileName("");
+    setFileFormat("csv");
     setPreviewData(null);
     setApplyData(null);
     setError("");
@@ -241,9 +265,9 @@ export default function EventImportPage() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold">Happenings Import (CSV v1)</h1>
+          <h1 className="text-2xl font-bold">Happenings Import (CSV / iCalendar)</h1>
           <p className="text-[var(--color-text-secondary)] mt-1">
-            Bulk import events from CSV. INSERT-only (no updates to existing events).
+            Bulk import events from CSV or a venue&apos;s .ics calendar export. INSERT-only (no updates to existing events).
           </p>
         </div>
         <Link
@@ -264,12 +288,12 @@ export default function EventImportPage() {
       {/* Step 1: Upload */}
       {step === "upload" && (
         <div className="card-spotlight p-6 space-y-6">
-          <h2 className="text-lg font-semibold">Step 1: Upload CSV</h2>
+          <h2 className="text-lg font-semibold">Step 1: Upload CSV or .ics</h2>
 
           <div className="border-2 border-dashed border-[var(--color-border)] rounded-lg p-8 text-center">
             <input
               type="file"
-              accept=".csv"
+              accept=".csv,.ics,text/calendar"
               onChange={handleFileUpload}
               className="hidden"
               id="csv-upload"
@@ -285,7 +309,7 @@ export default function EventImportPage() {
                     {fileName}
                   </span>
                 ) : (
-                  "Drag & drop CSV file here, or click to upload"
+                  "Drag & drop a CSV or .ics file here, or click to upload"
                 )}
               </div>
             </label>
@@ -298,12 +322,32 @@ export default function EventImportPage() {
             Download Template CSV
           </button>
 
+          {fileFormat === "ics" && (
+            <label className="block text-sm space-y-1">
+              <span className="font-medium">Event type when it can&apos;t be inferred</span>
+              <select
+                value={defaultEventType}
+                onChange={(e) => setDefaultEventType(e.target.value)}
+                className="block w-full md:w-64 px-3 py-2 rounded border border-[var(--color-border)] bg-[var(--color-bg-secondary)]"
+              >
+                {Array.from(VALID_EVENT_TYPES).map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <span className="block text-[var(--color-text-secondary)]">
+                Types are taken from the event&apos;s CATEGORIES or title (&quot;Open Mic&quot;, &quot;Song Circle&quot;, …) when possible.
+              </span>
+            </label>
+          )}
+
           {/* Column reference (self-contained collapsible) */}
           <ColumnReference />
 
           <button
             onClick={handlePreview}
-            disabled={!csvContent || isLoading}
+            disabled={!fileContent || isLoading}
             className="w-full py-3 bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded font-medium disabled:opacity-50"
           >
             {isLoading ? "Processing..." : "Preview Import"}
@@ -372,7 +416,9 @@ export default function EventImportPage() {
                           <td className="py-2 px-2">{row.event_type}</td>
                           <td className="py-2 px-2">{row.event_date}</td>
                           <td className="py-2 px-2">{row.day_of_week || "-"}</td>
-                          <td className="py-2 px-2">{row.recurrence_rule || "one-time"}</td>
+                          <td className="py-2 px-2">
+                            {formatRecurrence(row)}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -421,6 +467,24 @@ export default function EventImportPage() {
               </ExpandableSection>
             )}
 
+            {/* iCalendar notes (skipped past/cancelled events, expanded series) */}
+            {previewData.parseWarnings && previewData.parseWarnings.length > 0 && (
+              <ExpandableSection
+                title={`Import Notes (${previewData.parseWarnings.length})`}
+                expanded={showParseWarnings}
+                onToggle={() => setShowParseWarnings(!showParseWarnings)}
+                variant="warning"
+              >
+                <ul className="space-y-2">
+                  {previewData.parseWarnings.map((note, i) => (
+                    <li key={i} className="text-sm">
+                      {note}
+                    </li>
+                  ))}
+                </ul>
+              </ExpandableSection>
+            )}
+
             {/* Venue Warnings */}
             {previewData.venueWarnings.length > 0 && (
               <ExpandableSection
@@ -609,6 +673,22 @@ export default function EventImportPage() {
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatRecurrence(row: PreviewResponse["validRows"][number]): string {
+  if (row.recurrence_rule === "custom" && row.custom_dates) {
+    return `${row.custom_dates.length} dates`;
+  }
+  const parts = [row.recurrence_rule || "one-time"];
+  if (row.max_occurrences) parts.push(`×${row.max_occurrences}`);
+  if (row.cancelled_dates.length > 0) {
+    parts.push(`(${row.cancelled_dates.length} skipped)`);
+  }
+  return parts.join(" ");
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper Components
 // ─────────────────────────────────────────────────────────────────────────────
@@ -716,6 +796,14 @@ function ColumnReference() {
           <p className="mt-3 text-[var(--color-text-secondary)]">
             Header order: {IMPORT_CSV_HEADERS.join(", ")}
           </p>
+          <p className="font-medium mt-3">.ics files:</p>
+          <ul className="list-disc ml-6 space-y-1">
+            <li><code>SUMMARY</code> → title, <code>DESCRIPTION</code> → description, <code>URL</code> → external_url</li>
+            <li><code>DTSTART</code>/<code>DTEND</code> → date and times, converted to Denver time</li>
+            <li><code>RRULE</code>/<code>EXDATE</code> → weekly, biweekly or nth-weekday series with skipped dates; other patterns become custom dates for the next year</li>
+            <li><code>LOCATION</code> → matched against existing venues</li>
+            <li>Past, cancelled and already-listed events are skipped</li>
+          </ul>
         </div>
       )}
     </div>
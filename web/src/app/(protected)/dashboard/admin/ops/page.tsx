@@ -87,6 +87,74 @@ export default async function OpsConsolePage() {
           </span>
         </Link>
 
+        {/* Duplicate Review */}
+        <Link
+          href="/dashboard/admin/ops/duplicates"
+          className="block p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg hover:border-[var(--color-accent-primary)] transition-colors"
+        >
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">
+            Duplicate Review
+          </h2>
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            Review likely duplicate happenings and venues. Merge side-by-side,
+            keeping RSVPs, claims and followers, or dismiss false matches.
+          </p>
+          <span className="inline-block mt-4 text-[var(--color-accent-primary)] text-sm font-medium">
+            Open →
+          </span>
+        </Link>
+
+        {/* Data Health */}
+        <Link
+          href="/dashboard/admin/ops/data-health"
+          className="block p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg hover:border-[var(--color-accent-primary)] transition-colors"
+        >
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">
+            Data Health
+          </h2>
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            Daily checks for missing geocodes, stale verification, broken links
+            and invalid overrides, with trends and direct links to fix each row.
+          </p>
+          <span className="inline-block mt-4 text-[var(--color-accent-primary)] text-sm font-medium">
+            Open →
+          </span>
+        </Link>
+
+        {/* Source Watch */}
+        <Link
+          href="/dashboard/admin/ops/source-watch"
+          className="block p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg hover:border-[var(--color-accent-primary)] transition-colors"
+        >
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">
+            Source Watch
+          </h2>
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            Schedule changes found on watched venue and event pages that need
+            a confirm, and watched pages that stopped loading.
+          </p>
+          <span className="inline-block mt-4 text-[var(--color-accent-primary)] text-sm font-medium">
+            Open →
+          </span>
+        </Link>
+
+        {/* Email Deliverability */}
+        <Link
+          href="/dashboard/admin/ops/email-deliverability"
+          className="block p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg hover:border-[var(--color-accent-primary)] transition-colors"
+        >
+          <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">
+            Email Deliverability
+          </h2>
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            Bounced and complaining addresses the mailer skips, recent bounce
+            reports, and manual suppressions.
+          </p>
+          <span className="inline-block mt-4 text-[var(--color-accent-primary)] text-sm font-medium">
+            Open →
+          </span>
+        </Link>
+
         {/* Members Bulk Management - Coming Soon */}
         <div className="p-6 bg-[var(--color-bg-tertiary)] border border-[var(--color-border-subtle)] rounded-lg opacity-60 cursor-not-allowed">
           <h2 className="text-xl font-semibold text-[var(--color-text-tertiary)] mb-2">
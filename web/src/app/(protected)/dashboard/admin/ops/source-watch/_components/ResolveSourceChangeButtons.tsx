@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * Resolve Source Change Buttons
+ *
+ * Applies or dismisses one pending source watch change through the host
+ * route (admins pass its canManageEvent check) and refreshes the queue.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function ResolveSourceChangeButtons({ eventId, changeId }: { eventId: string; changeId: string }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResolve = async (action: "confirm" | "dismiss") => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/source-watch/changes/${changeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Update failed");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex shrink-0 items-center gap-2">
+      <button
+        type="button"
+        onClick={() => handleResolve("confirm")}
+        disabled={loading}
+        className="px-3 py-1 text-xs bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50"
+      >
+        Apply
+      </button>
+      <button
+        type="button"
+        onClick={() => handleResolve("dismiss")}
+        disabled={loading}
+        className="px-3 py-1 text-xs border border-[var(--color-border-default)] text-[var(--color-text-secondary)] rounded font-medium disabled:opacity-50"
+      >
+        Dismiss
+      </button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+}
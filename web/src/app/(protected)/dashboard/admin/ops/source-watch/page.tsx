@@ -0,0 +1,136 @@
+/**
+ * Source Watch Page
+ *
+ * Admin-only queue for watched source pages: time, date and cancellation
+ * changes waiting for confirmation across all events, and watches whose
+ * page can't be read. Smaller changes go to the event update suggestions
+ * queue instead.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { listSourceWatchQueue } from "@/lib/sourceWatch/server";
+import ResolveSourceChangeButtons from "./_components/ResolveSourceChangeButtons";
+
+export const dynamic = "force-dynamic";
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Denver",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default async function SourceWatchPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const { pending, failing } = await listSourceWatchQueue(createServiceRoleClient());
+
+  return (
+    <div className="min-h-screen w-full px-6 py-12 max-w-5xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-[var(--color-accent-primary)] mb-2">
+          Source Watch
+        </h1>
+        <p className="text-[var(--color-text-secondary)]">
+          Changes found on watched event pages. Pages are checked every 6 hours.
+        </p>
+      </div>
+
+      <section>
+        <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-3">
+          Waiting for confirmation ({pending.length})
+        </h2>
+        {pending.length === 0 ? (
+          <p className="p-6 text-center text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+            Nothing to confirm.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[var(--color-border-default)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+            {pending.map((change) => (
+              <li key={change.id} className="p-3 flex items-center gap-4 text-sm">
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/dashboard/my-events/${change.event_id}`}
+                    className="font-medium text-[var(--color-text-primary)] hover:underline truncate block"
+                  >
+                    {change.event?.title ?? change.event_id}
+                  </Link>
+                  <p className="text-[var(--color-text-secondary)]">
+                    {change.date_key ? `${change.date_key} · ` : "Series · "}
+                    {change.field}: {change.old_value ?? "—"} → {change.new_value}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-tertiary)] truncate">
+                    Found {formatTimestamp(change.detected_at)} on {change.source_url}
+                  </p>
+                </div>
+                <ResolveSourceChangeButtons eventId={change.event_id} changeId={change.id} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="mt-8">
+        <h2 className="text-xl font-semibold text-[var(--color-text-primary)] mb-3">
+          Pages that can&apos;t be read ({failing.length})
+        </h2>
+        {failing.length === 0 ? (
+          <p className="p-6 text-center text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+            Every watched page read fine on its last check.
+          </p>
+        ) : (
+          <ul className="divide-y divide-[var(--color-border-default)] bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg">
+            {failing.map((watch) => (
+              <li key={watch.id} className="p-3 flex items-center gap-4 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium text-[var(--color-text-primary)] truncate">
+                    {watch.event?.title ?? watch.event_id}
+                  </p>
+                  <p className="text-[var(--color-text-tertiary)] truncate">
+                    {watch.last_status === "paused" ? "Paused" : "Failing"} · {watch.consecutive_failures} in a row
+                    {watch.last_error ? ` · ${watch.last_error}` : ""} · {watch.source_url}
+                  </p>
+                </div>
+                <Link
+                  href={`/dashboard/my-events/${watch.event_id}`}
+                  className="shrink-0 text-[var(--color-accent-primary)] font-medium hover:underline"
+                >
+                  Fix →
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Back link */}
+      <div className="mt-8">
+        <Link
+          href="/dashboard/admin/ops"
+          className="text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] text-sm"
+        >
+          ← Back to Ops Console
+        </Link>
+      </div>
+    </div>
+  );
+}
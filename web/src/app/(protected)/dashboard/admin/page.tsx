@@ -439,6 +439,16 @@ export default async function AdminDashboardPage() {
               </div>
               <span className="text-[var(--color-text-secondary)] group-hover:text-[var(--color-text-accent)]">→</span>
             </Link>
+            <Link
+              href="/dashboard/admin/event-audit"
+              className="flex items-center justify-between p-3 rounded-lg hover:bg-[var(--color-bg-tertiary)] transition-colors group"
+            >
+              <div>
+                <span className="text-[var(--color-text-primary)] font-medium">Event Audit Log</span>
+                <p className="text-sm text-[var(--color-text-secondary)]">Browse event edits and review flagged changes</p>
+              </div>
+              <span className="text-[var(--color-text-secondary)] group-hover:text-[var(--color-text-accent)]">→</span>
+            </Link>
           </div>
         </section>
       </div>
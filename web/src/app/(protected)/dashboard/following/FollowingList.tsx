@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  FOLLOW_TARGET_LABELS,
+  FOLLOW_TARGET_TYPES,
+  type FollowedTarget,
+} from "@/lib/follows/followContract";
+
+interface FollowingListProps {
+  initialFollows: FollowedTarget[];
+}
+
+export default function FollowingList({ initialFollows }: FollowingListProps) {
+  const [follows, setFollows] = useState(initialFollows);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const toggleMute = async (follow: FollowedTarget) => {
+    setPendingId(follow.id);
+    try {
+      const res = await fetch("/api/follows", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          target_type: follow.targetType,
+          target_id: follow.targetId,
+          muted: !follow.muted,
+        }),
+      });
+      if (res.ok) {
+        setFollows((prev) =>
+          prev.map((f) => (f.id === follow.id ? { ...f, muted: !follow.muted } : f))
+        );
+      }
+    } catch (err) {
+      console.error("Failed to update follow:", err);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const unfollow = async (follow: FollowedTarget) => {
+    setPendingId(follow.id);
+    try {
+      const res = await fetch(
+        `/api/follows?type=${follow.targetType}&id=${encodeURIComponent(follow.targetId)}`,
+        { method: "DELETE" }
+      );
+      if (res.ok) {
+        setFollows((prev) => prev.filter((f) => f.id !== follow.id));
+      }
+    } catch (err) {
+      console.error("Failed to unfollow:", err);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (follows.length === 0) {
+    return (
+      <p className="text-[var(--color-text-secondary)]">
+        You&apos;re not following anyone yet. Look for the Follow button on songwriter, venue and
+        organization pages.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {FOLLOW_TARGET_TYPES.map((targetType) => {
+        const group = follows.filter((f) => f.targetType === targetType);
+        if (group.length === 0) return null;
+        return (
+          <div key={targetType}>
+            <h3 className="text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+              {FOLLOW_TARGET_LABELS[targetType]}
+            </h3>
+            <ul className="space-y-2">
+              {group.map((follow) => (
+                <li
+                  key={follow.id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)]"
+                >
+                  <Link
+                    href={follow.href}
+                    className="flex-1 text-[var(--color-text-primary)] hover:text-[var(--color-text-accent)]"
+                  >
+                    {follow.name}
+                  </Link>
+                  {follow.muted && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-[var(--color-bg-tertiary)] text-[var(--color-text-tertiary)]">
+                      Muted
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => toggleMute(follow)}
+                    disabled={pendingId === follow.id}
+                    className="text-sm text-[var(--color-text-accent)] hover:text-[var(--color-accent-hover)] disabled:opacity-50"
+                  >
+                    {follow.muted ? "Unmute" : "Mute"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => unfollow(follow)}
+                    disabled={pendingId === follow.id}
+                    className="text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] disabled:opacity-50"
+                  >
+                    Unfollow
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
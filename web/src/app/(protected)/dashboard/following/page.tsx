@@ -0,0 +1,89 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { FOLLOW_ACTIVITY_ICONS } from "@/lib/follows/followContract";
+import { getFollowActivityFeed, getUserFollows } from "@/lib/follows/followsServer";
+import FollowingList from "./FollowingList";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Following | CSC"
+};
+
+function formatActivityTime(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "America/Denver",
+  });
+}
+
+export default async function FollowingPage() {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user: sessionUser }, error: sessionUserError } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) redirect("/login");
+
+  const [follows, activity] = await Promise.all([
+    getUserFollows(supabase, sessionUser.id),
+    getFollowActivityFeed(supabase),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-[var(--color-background)] py-12 px-6">
+      <div className="max-w-2xl mx-auto space-y-10">
+        <h1 className="font-[var(--font-family-serif)] text-3xl text-[var(--color-text-primary)]">Following</h1>
+
+        <section>
+          <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-4">Recent activity</h2>
+          {activity.length === 0 ? (
+            <p className="text-[var(--color-text-secondary)]">
+              {follows.length === 0
+                ? "Follow songwriters, hosts, venues or organizations to see what they're up to."
+                : "Nothing new from the people and places you follow yet."}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {activity.map((item) => {
+                const body = (
+                  <>
+                    <span className="text-xl" aria-hidden="true">{FOLLOW_ACTIVITY_ICONS[item.verb] ?? "🔔"}</span>
+                    <span className="flex-1 text-[var(--color-text-primary)]">{item.title}</span>
+                    <span className="text-xs text-[var(--color-text-tertiary)] whitespace-nowrap">
+                      {formatActivityTime(item.createdAt)}
+                    </span>
+                  </>
+                );
+                return (
+                  <li key={item.id}>
+                    {item.link ? (
+                      <Link
+                        href={item.link}
+                        className="flex items-start gap-3 p-3 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] hover:border-[var(--color-border-accent)] transition-colors"
+                      >
+                        {body}
+                      </Link>
+                    ) : (
+                      <div className="flex items-start gap-3 p-3 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)]">
+                        {body}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">You follow</h2>
+          <p className="text-sm text-[var(--color-text-tertiary)] mb-4">
+            Muted follows stay in your feed but don&apos;t send notifications or appear in your weekly digest.
+          </p>
+          <FollowingList initialFollows={follows} />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { createClient } from "@/lib/supabase/client";
 import { reconcileAlbumLinks } from "@/lib/gallery/albumLinks";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import { Star, Check, X, MessageSquare, GripVertical, Trash2, Upload } from "lucide-react";
 import { MediaEmbedsEditor } from "@/components/media";
@@ -423,6 +424,9 @@ export default function AlbumManager({
           });
         if (insertError) throw insertError;
 
+        // Strip location metadata and build responsive variants
+        await processUploadedImage("gallery-images", fileName);
+
         nextSortOrder++;
         success++;
       } catch (err) {
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { EventAnalyticsResult } from "@/lib/events/hostAnalyticsServer";
+
+interface AnalyticsTabProps {
+  eventId: string;
+  hasTimeslots: boolean;
+}
+
+function formatShortDate(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "America/Denver",
+  });
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatMinutes(value: number | null): string {
+  if (value === null) return "—";
+  if (value < 1) return "<1 min";
+  if (value < 60) return `${value} min`;
+  if (value < 60 * 24) {
+    const hours = Math.floor(value / 60);
+    const minutes = value % 60;
+    return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  const days = Math.round(value / (60 * 24));
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="p-4 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)]">
+      <p className="text-xs uppercase tracking-wide text-[var(--color-text-tertiary)]">{label}</p>
+      <p className="text-2xl font-semibold text-[var(--color-text-primary)] mt-1">{value}</p>
+      {detail && <p className="text-xs text-[var(--color-text-secondary)] mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+/**
+ * Host analytics: per-occurrence trend of RSVPs, slot fill, no-shows, fill
+ * speed, new vs returning performers, views and referral sources, with a
+ * CSV export for sharing with venue owners.
+ */
+export default function AnalyticsTab({ eventId, hasTimeslots }: AnalyticsTabProps) {
+  const [result, setResult] = useState<EventAnalyticsResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/my-events/${eventId}/analytics`);
+        const data = await res.json();
+        if (res.ok) {
+          setResult(data);
+        } else {
+          setError(data.error || "Failed to load analytics");
+        }
+      } catch (err) {
+        console.error("Failed to fetch analytics:", err);
+        setError("Failed to load analytics");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAnalytics();
+  }, [eventId]);
+
+  if (loading) {
+    return <p className="text-[var(--color-text-secondary)]">Loading analytics…</p>;
+  }
+
+  if (error || !result) {
+    return <p className="text-red-800 dark:text-red-400">{error || "Failed to load analytics"}</p>;
+  }
+
+  const { analytics, fromKey, toKey, signupTime } = result;
+  const { totals } = analytics;
+  const hasSignupTime = !!signupTime;
+  const referredViews = analytics.referralSources.reduce((sum, s) => sum + s.total, 0);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[var(--color-text-secondary)]">
+          {formatShortDate(fromKey)} – {formatShortDate(toKey)}
+        </p>
+        <a
+          href={`/api/my-events/${eventId}/analytics?format=csv`}
+          download
+          className="px-4 py-2 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] text-sm font-medium text-[var(--color-text-primary)] hover:border-[var(--color-border-accent)] transition-colors"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="RSVPs" value={String(totals.rsvps)} detail={`${totals.waitlist} waitlisted`} />
+        {hasTimeslots && (
+          <>
+            <StatCard
+              label="Slot fill rate"
+              value={formatRate(totals.fillRate)}
+              detail={`${totals.slotsFilled} of ${totals.slots} slots`}
+            />
+            <StatCard
+              label="No-show rate"
+              value={formatRate(totals.noShowRate)}
+              detail={`${totals.noShows} no-show${totals.noShows === 1 ? "" : "s"}`}
+            />
+            <StatCard
+              label="Typical time to claim"
+              value={hasSignupTime ? formatMinutes(totals.medianMinutesToClaim) : "—"}
+              detail={hasSignupTime ? "after signup opens" : "Set a signup time to track this"}
+            />
+            <StatCard label="New performers" value={String(totals.newPerformers)} />
+            <StatCard label="Returning performers" value={String(totals.returningPerformers)} />
+          </>
+        )}
+        <StatCard label="Page views" value={String(totals.pageViews)} />
+        <StatCard label="Embed views" value={String(totals.embedViews)} />
+      </div>
+
+      <section>
+        <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-3">By occurrence</h3>
+        {analytics.occurrences.length === 0 ? (
+          <p className="text-[var(--color-text-secondary)]">No activity in this window yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-[var(--color-border-default)]">
+            <table className="w-full text-sm">
+              <thead className="bg-[var(--color-bg-secondary)] text-left text-[var(--color-text-secondary)]">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Date</th>
+                  <th className="px-3 py-2 font-medium">RSVPs</th>
+                  <th className="px-3 py-2 font-medium">Waitlist</th>
+                  {hasTimeslots && (
+                    <>
+                      <th className="px-3 py-2 font-medium">Slots filled</th>
+                      <th className="px-3 py-2 font-medium">No-shows</th>
+                      <th className="px-3 py-2 font-medium">Time to full</th>
+                      <th className="px-3 py-2 font-medium">New / returning</th>
+                    </>
+                  )}
+                  <th className="px-3 py-2 font-medium">Views</th>
+                  <th className="px-3 py-2 font-medium">Embed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.occurrences.map((row) => (
+                  <tr key={row.dateKey} className="border-t border-[var(--color-border-default)] text-[var(--color-text-primary)]">
+                    <td className="px-3 py-2 whitespace-nowrap">{formatShortDate(row.dateKey)}</td>
+                    <td className="px-3 py-2">{row.rsvps}</td>
+                    <td className="px-3 py-2">{row.waitlist}</td>
+                    {hasTimeslots && (
+                      <>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.slots > 0 ? `${row.slotsFilled}/${row.slots} (${formatRate(row.fillRate)})` : "—"}
+                        </td>
+                        <td className="px-3 py-2">{row.noShows}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">{formatMinutes(row.minutesToFull)}</td>
+                        <td className="px-3 py-2">{row.newPerformers} / {row.returningPerformers}</td>
+                      </>
+                    )}
+                    <td className="px-3 py-2">{row.pageViews}</td>
+                    <td className="px-3 py-2">{row.embedViews}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-semibold text-[var(--color-text-primary)] mb-3">Where views come from</h3>
+        {analytics.referralSources.length === 0 ? (
+          <p className="text-[var(--color-text-secondary)]">No views recorded yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {analytics.referralSources.map((source) => {
+              const share = referredViews > 0 ? source.total / referredViews : 0;
+              return (
+                <li key={source.source} className="flex items-center gap-3 text-sm">
+                  <span className="w-40 truncate text-[var(--color-text-primary)]" title={source.source}>
+                    {source.source}
+                  </span>
+                  <span className="flex-1 h-2 rounded-full bg-[var(--color-bg-tertiary)] overflow-hidden">
+                    <span
+                      className="block h-full bg-[var(--color-accent-primary)]"
+                      style={{ width: `${Math.max(2, Math.round(share * 100))}%` }}
+                    />
+                  </span>
+                  <span className="w-28 text-right text-[var(--color-text-secondary)]">
+                    {source.pageViews} page · {source.embedViews} embed
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import EventManagementTabs, { TabId } from "./EventManagementTabs";
 import AttendeesTab from "./AttendeesTab";
 import LineupTab from "./LineupTab";
+import AnalyticsTab from "./AnalyticsTab";
 import PrivacyTab from "./PrivacyTab";
 import SettingsTab from "./SettingsTab";
 
@@ -46,6 +47,9 @@ interface EventManagementClientProps {
   PhotosContent: React.ReactNode;
   EventInviteSection: React.ReactNode;
   LineupControlSection: React.ReactNode;
+  SignupPolicySection?: React.ReactNode;
+  ReminderSettingsSection?: React.ReactNode;
+  SourceWatchSection?: React.ReactNode;
   SeriesEditingNotice: React.ReactNode;
 }
 
@@ -77,6 +81,9 @@ export default function EventManagementClient({
   PhotosContent,
   EventInviteSection,
   LineupControlSection,
+  SignupPolicySection,
+  ReminderSettingsSection,
+  SourceWatchSection,
   SeriesEditingNotice,
 }: EventManagementClientProps) {
   const [activeTab, setActiveTab] = useState<TabId>("details");
@@ -124,6 +131,9 @@ export default function EventManagementClient({
             </section>
             {/* Lineup Control in Details tab for quick access */}
             {(hasTimeslots || hasActiveClaims) && LineupControlSection}
+            {(hasTimeslots || hasActiveClaims) && SignupPolicySection}
+            {ReminderSettingsSection}
+            {SourceWatchSection}
           </div>
         )}
 
@@ -150,6 +160,10 @@ export default function EventManagementClient({
           />
         )}
 
+        {activeTab === "analytics" && (
+          <AnalyticsTab eventId={eventId} hasTimeslots={hasTimeslots || hasActiveClaims} />
+        )}
+
         {activeTab === "privacy" && (
           <PrivacyTab
             eventId={eventId}
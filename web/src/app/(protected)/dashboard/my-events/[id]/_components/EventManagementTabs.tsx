@@ -1,6 +1,6 @@
 "use client";
 
-export type TabId = "details" | "photos" | "attendees" | "lineup" | "privacy" | "settings";
+export type TabId = "details" | "photos" | "attendees" | "lineup" | "analytics" | "privacy" | "settings";
 
 interface Tab {
   id: TabId;
@@ -13,6 +13,7 @@ const TABS: Tab[] = [
   { id: "photos", label: "Photos", icon: "📷" },
   { id: "attendees", label: "Attendees", icon: "👥" },
   { id: "lineup", label: "Lineup", icon: "🎤" },
+  { id: "analytics", label: "Analytics", icon: "📊" },
   { id: "privacy", label: "Private & Invites", icon: "🔒" },
   { id: "settings", label: "Host & Co-Host Settings", icon: "⚙️" },
 ];
@@ -32,6 +33,7 @@ interface EventManagementTabsProps {
  * - Details: Event form (title, schedule, location, etc.)
  * - Attendees: RSVPs with full profile cards and management
  * - Lineup: Performer signups with full details
+ * - Analytics: Per-occurrence trends and CSV export
  * - Private & Invites: Visibility mode + invite tooling
  * - Settings: Co-hosts and danger zone
  */
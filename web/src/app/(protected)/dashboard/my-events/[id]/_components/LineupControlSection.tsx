@@ -3,6 +3,8 @@
 import * as React from "react";
 import Link from "next/link";
 import { getEventDisplayUrl, getEventLineupUrl } from "@/lib/events/urls";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { useConnectedDisplays } from "@/hooks/useLineupRealtime";
 
 interface LineupControlSectionProps {
   eventId: string;
@@ -29,6 +31,9 @@ export default function LineupControlSection({
     nextOccurrenceDate || availableDates[0] || ""
   );
   const [copied, setCopied] = React.useState(false);
+  const supabase = React.useMemo(() => createSupabaseBrowserClient(), []);
+  // Presence count of TV displays open for the selected occurrence
+  const connectedDisplays = useConnectedDisplays(supabase, eventId, selectedDate || null);
 
   const eventIdentifier = eventSlug || eventId;
 
@@ -156,6 +161,11 @@ export default function LineupControlSection({
         <p className="text-xs text-[var(--color-text-tertiary)] mt-2">
           Opens in a new tab for projector / TV
         </p>
+        <p className="text-xs text-[var(--color-text-secondary)] mt-1" data-testid="connected-displays">
+          {connectedDisplays > 0
+            ? `📺 ${connectedDisplays} display${connectedDisplays === 1 ? "" : "s"} connected`
+            : "No displays connected"}
+        </p>
       </div>
     </section>
   );
@@ -19,6 +19,9 @@ interface ClaimData {
   created_at: string;
   guest_name: string | null;
   guest_email: string | null;
+  /** Run of show: actual times recorded on the night */
+  performance_started_at?: string | null;
+  performance_ended_at?: string | null;
   user: {
     id: string;
     full_name: string | null;
@@ -46,6 +49,20 @@ function formatDateKeyLong(dateKey: string): string {
   });
 }
 
+/**
+ * Actual set time for a performed claim, e.g. "Went on 7:42 PM · played 11 min".
+ */
+function formatActualSet(startedAt: string, endedAt: string | null | undefined): string {
+  const wentOn = new Date(startedAt).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "America/Denver",
+  });
+  if (!endedAt) return `Went on ${wentOn}`;
+  const playedMinutes = Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 60000);
+  return `Went on ${wentOn} · played ${playedMinutes} min`;
+}
+
 /**
  * Phase 5.14: Full-width Lineup tab with performer cards
  *
@@ -115,6 +132,24 @@ export default function LineupTab({
     }
   };
 
+  const handleConfirm = async (claimId: string) => {
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/claims`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ claim_id: claimId, status: "confirmed" }),
+      });
+      if (res.ok) {
+        setClaims((prev) => prev.map((c) => (c.id === claimId ? { ...c, status: "confirmed" } : c)));
+      } else {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || "Failed to confirm performer");
+      }
+    } catch {
+      alert("Failed to confirm performer");
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -212,7 +247,13 @@ export default function LineupTab({
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {waitlist.map((claim, index) => (
-              <PerformerCard key={claim.id} claim={claim} position={index + 1} onRemove={handleRemove} />
+              <PerformerCard
+                key={claim.id}
+                claim={claim}
+                position={index + 1}
+                onRemove={handleRemove}
+                onConfirm={handleConfirm}
+              />
             ))}
           </div>
         </div>
@@ -250,9 +291,11 @@ interface PerformerCardProps {
   claim: ClaimData;
   position?: number;
   onRemove: (claimId: string) => void;
+  /** Waitlist only: host approval for policy-waitlisted performers */
+  onConfirm?: (claimId: string) => void;
 }
 
-function PerformerCard({ claim, position, onRemove }: PerformerCardProps) {
+function PerformerCard({ claim, position, onRemove, onConfirm }: PerformerCardProps) {
   const isGuest = !claim.user && claim.guest_name;
   const displayName = claim.user?.full_name || claim.guest_name || "Anonymous";
   const initial = displayName[0]?.toUpperCase() || "?";
@@ -340,8 +383,23 @@ function PerformerCard({ claim, position, onRemove }: PerformerCardProps) {
             <span className="font-medium">{slotLabel}</span>
             {slotTime && <span>• {slotTime}</span>}
           </div>
+          {claim.performance_started_at && (
+            <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+              {formatActualSet(claim.performance_started_at, claim.performance_ended_at)}
+            </p>
+          )}
         </div>
 
+        {onConfirm && claim.status === "waitlist" && (
+          <button
+            onClick={() => onConfirm(claim.id)}
+            className="text-xs px-2 py-1 rounded border border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/10 transition-colors"
+            title="Confirm this performer for their slot"
+          >
+            Confirm
+          </button>
+        )}
+
         {/* Remove button */}
         {claim.status !== "performed" && (
           <button
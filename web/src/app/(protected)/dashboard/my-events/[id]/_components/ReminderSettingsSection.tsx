@@ -0,0 +1,93 @@
+"use client";
+
+import * as React from "react";
+import {
+  HOST_BRIEFING_HOURS_BEFORE,
+  REMINDER_HOURS_OPTIONS,
+} from "@/lib/events/eventReminders";
+
+interface ReminderSettingsSectionProps {
+  eventId: string;
+  initialHoursBefore: number | null;
+}
+
+const selectClassName =
+  "text-sm bg-[var(--color-bg-tertiary)] border border-[var(--color-border-default)] rounded px-2 py-1.5 text-[var(--color-text-primary)]";
+
+/**
+ * Reminder settings section for dashboard/my-events/[id] page.
+ *
+ * Lead time for the attendee reminder email (RSVPs + slot claimants). Hosts
+ * always get the day-of briefing; it follows their host activity email
+ * preference.
+ */
+export default function ReminderSettingsSection({ eventId, initialHoursBefore }: ReminderSettingsSectionProps) {
+  const [hoursBefore, setHoursBefore] = React.useState<number | null>(initialHoursBefore);
+  const [saving, setSaving] = React.useState(false);
+  const [message, setMessage] = React.useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/reminders`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reminder_hours_before: hoursBefore }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setMessage({ type: "success", text: data.reminder_hours_before ? "Reminders saved" : "Reminders turned off" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save reminders" });
+      }
+    } catch (err) {
+      console.error("Reminder settings save failed:", err);
+      setMessage({ type: "error", text: "Network error - try again" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg" data-testid="reminder-settings-section">
+      <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">Reminders</h2>
+      <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+        Attendees and signed-up performers get one reminder email per date. You&apos;ll get a briefing with the
+        lineup and waitlist {HOST_BRIEFING_HOURS_BEFORE} hours before start.
+      </p>
+
+      <label className="flex items-center justify-between gap-3 text-sm text-[var(--color-text-primary)]">
+        <span>Send attendee reminders</span>
+        <select
+          value={hoursBefore ?? ""}
+          onChange={(e) => setHoursBefore(e.target.value === "" ? null : Number(e.target.value))}
+          className={selectClassName}
+        >
+          <option value="">Off</option>
+          {hoursBefore !== null && !(REMINDER_HOURS_OPTIONS as readonly number[]).includes(hoursBefore) && (
+            <option value={hoursBefore}>{hoursBefore} hours before</option>
+          )}
+          {REMINDER_HOURS_OPTIONS.map((n) => (
+            <option key={n} value={n}>{n} hours before</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 text-sm rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Reminders"}
+        </button>
+        {message && (
+          <span className={`text-sm ${message.type === "success" ? "text-emerald-500" : "text-red-500"}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </section>
+  );
+}
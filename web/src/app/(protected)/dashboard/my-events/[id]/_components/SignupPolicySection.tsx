@@ -0,0 +1,162 @@
+"use client";
+
+import * as React from "react";
+import {
+  DEFAULT_NO_SHOW_DECAY_DAYS,
+  describeSignupPolicy,
+  type SignupPolicy,
+} from "@/lib/events/signupPolicy";
+
+interface SignupPolicySectionProps {
+  eventId: string;
+  initialPolicy: SignupPolicy | null;
+}
+
+const THRESHOLD_OPTIONS = [1, 2, 3, 5];
+const GUEST_LIMIT_OPTIONS = [1, 2, 4];
+const DECAY_OPTIONS = [30, 60, 90, 180, 365];
+
+const selectClassName =
+  "text-sm bg-[var(--color-bg-tertiary)] border border-[var(--color-border-default)] rounded px-2 py-1.5 text-[var(--color-text-primary)]";
+
+/**
+ * Signup Policy section for dashboard/my-events/[id] page.
+ *
+ * Per-event no-show rules for performer slots. Performers see the same rules
+ * (describeSignupPolicy) above the slot grid before they claim.
+ */
+export default function SignupPolicySection({ eventId, initialPolicy }: SignupPolicySectionProps) {
+  const [threshold, setThreshold] = React.useState<number | null>(
+    initialPolicy?.waitlist_after_no_shows ?? null
+  );
+  const [guestLimit, setGuestLimit] = React.useState<number | null>(
+    initialPolicy?.guest_slots_per_month ?? null
+  );
+  const [requireVerified, setRequireVerified] = React.useState(
+    initialPolicy?.require_verified_after_no_show ?? false
+  );
+  const [decayDays, setDecayDays] = React.useState(
+    initialPolicy?.no_show_decay_days ?? DEFAULT_NO_SHOW_DECAY_DAYS
+  );
+  const [saving, setSaving] = React.useState(false);
+  const [message, setMessage] = React.useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const draft: SignupPolicy = {
+    waitlist_after_no_shows: threshold,
+    guest_slots_per_month: guestLimit,
+    require_verified_after_no_show: requireVerified,
+    no_show_decay_days: decayDays,
+  };
+  const summary = describeSignupPolicy(draft);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/signup-policy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signup_policy: draft }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setMessage({ type: "success", text: data.signup_policy ? "Policy saved" : "Policy cleared" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save policy" });
+      }
+    } catch (err) {
+      console.error("Signup policy save failed:", err);
+      setMessage({ type: "error", text: "Network error - try again" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parseOptional = (value: string) => (value === "" ? null : Number(value));
+
+  return (
+    <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg" data-testid="signup-policy-section">
+      <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">Signup Policy</h2>
+      <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+        Rules for performers with recent no-shows. Older no-shows stop counting after the window below.
+      </p>
+
+      <div className="space-y-3 text-sm text-[var(--color-text-primary)]">
+        <label className="flex items-center justify-between gap-3">
+          <span>Waitlist performers with recent no-shows</span>
+          <select
+            value={threshold ?? ""}
+            onChange={(e) => setThreshold(parseOptional(e.target.value))}
+            className={selectClassName}
+          >
+            <option value="">Off</option>
+            {THRESHOLD_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n}+ no-show{n === 1 ? "" : "s"}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-3">
+          <span>Guest slots per month</span>
+          <select
+            value={guestLimit ?? ""}
+            onChange={(e) => setGuestLimit(parseOptional(e.target.value))}
+            className={selectClassName}
+          >
+            <option value="">No limit</option>
+            {GUEST_LIMIT_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-3">
+          <span>Require a verified account after a no-show</span>
+          <input
+            type="checkbox"
+            checked={requireVerified}
+            onChange={(e) => setRequireVerified(e.target.checked)}
+            className="w-4 h-4 accent-[var(--color-accent-primary)]"
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-3">
+          <span>No-shows count for</span>
+          <select
+            value={decayDays}
+            onChange={(e) => setDecayDays(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {!DECAY_OPTIONS.includes(decayDays) && <option value={decayDays}>{decayDays} days</option>}
+            {DECAY_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n} days</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {summary.length > 0 && (
+        <ul className="mt-4 list-disc pl-5 text-xs text-[var(--color-text-secondary)] space-y-1">
+          {summary.map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 text-sm rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Policy"}
+        </button>
+        {message && (
+          <span className={`text-sm ${message.type === "success" ? "text-emerald-500" : "text-red-500"}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </section>
+  );
+}
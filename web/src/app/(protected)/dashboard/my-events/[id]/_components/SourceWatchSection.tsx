@@ -0,0 +1,238 @@
+"use client";
+
+import * as React from "react";
+
+interface SourceWatchSectionProps {
+  eventId: string;
+  externalUrl: string | null;
+}
+
+interface SourceWatch {
+  source_url: string;
+  enabled: boolean;
+  last_checked_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+}
+
+interface SourceWatchChange {
+  id: string;
+  date_key: string | null;
+  field: string;
+  old_value: string | null;
+  new_value: string;
+  status: string;
+  detected_at: string;
+}
+
+const inputClassName =
+  "w-full text-sm bg-[var(--color-bg-tertiary)] border border-[var(--color-border-default)] rounded px-2 py-1.5 text-[var(--color-text-primary)]";
+
+const FIELD_LABELS: Record<string, string> = {
+  start_time: "Start time",
+  end_time: "End time",
+  event_date: "Date",
+  custom_dates: "Dates",
+  status: "Status",
+  cost_label: "Cost",
+  age_policy: "Age policy",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  ok: "Last check OK",
+  no_schedule: "No schedule found on the page",
+  fetch_failed: "Couldn't read the page",
+  event_inactive: "Happening is cancelled",
+  paused: "Paused after repeated failures",
+};
+
+function formatDateKey(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "America/Denver",
+  });
+}
+
+function describeChange(change: SourceWatchChange): string {
+  const label = FIELD_LABELS[change.field] ?? change.field;
+  const scope = change.date_key ? `${formatDateKey(change.date_key)} — ` : "";
+  return `${scope}${label}: ${change.old_value ?? "—"} → ${change.new_value}`;
+}
+
+/**
+ * Source watch section for dashboard/my-events/[id] page.
+ *
+ * Opt the happening into periodic checks of the page it's listed on. Time,
+ * date and cancellation changes found there wait here for a confirm;
+ * smaller changes go to the admin suggestion queue.
+ */
+export default function SourceWatchSection({ eventId, externalUrl }: SourceWatchSectionProps) {
+  const [watch, setWatch] = React.useState<SourceWatch | null>(null);
+  const [changes, setChanges] = React.useState<SourceWatchChange[]>([]);
+  const [sourceUrl, setSourceUrl] = React.useState(externalUrl ?? "");
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+  const [resolvingId, setResolvingId] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/source-watch`);
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setWatch(data.watch);
+        setChanges(data.changes ?? []);
+        if (data.watch?.source_url) setSourceUrl(data.watch.source_url);
+      }
+    } catch (err) {
+      console.error("Source watch load failed:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleSave = async (enabled: boolean) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/source-watch`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled, source_url: sourceUrl.trim() || null }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setWatch(data.watch);
+        setMessage({ type: "success", text: enabled ? "Watching this page" : "Source watch turned off" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save source watch" });
+      }
+    } catch (err) {
+      console.error("Source watch save failed:", err);
+      setMessage({ type: "error", text: "Network error - try again" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async (changeId: string, action: "confirm" | "dismiss") => {
+    setResolvingId(changeId);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/source-watch/changes/${changeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setMessage({ type: "success", text: action === "confirm" ? "Change applied" : "Change dismissed" });
+        await load();
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to update change" });
+      }
+    } catch (err) {
+      console.error("Source watch change failed:", err);
+      setMessage({ type: "error", text: "Network error - try again" });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const pending = changes.filter((change) => change.status === "pending");
+
+  return (
+    <section className="p-6 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg" data-testid="source-watch-section">
+      <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">Source Watch</h2>
+      <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+        Listed on a venue calendar or another page? We&apos;ll check it a few times a day. Time, date and
+        cancellation changes we find wait here for you to confirm.
+      </p>
+
+      <label className="block text-sm text-[var(--color-text-primary)] mb-1" htmlFor="source-watch-url">
+        Page to watch
+      </label>
+      <input
+        id="source-watch-url"
+        type="url"
+        value={sourceUrl}
+        onChange={(e) => setSourceUrl(e.target.value)}
+        placeholder="https://"
+        className={inputClassName}
+      />
+
+      {watch?.enabled && (
+        <p className="mt-2 text-xs text-[var(--color-text-tertiary)]">
+          {watch.last_checked_at
+            ? `${STATUS_LABELS[watch.last_status ?? ""] ?? "Checked"} · ${new Date(watch.last_checked_at).toLocaleString("en-US", { timeZone: "America/Denver" })}`
+            : "First check runs within a few hours."}
+          {watch.last_error ? ` (${watch.last_error})` : ""}
+        </p>
+      )}
+      {watch && !watch.enabled && watch.last_status === "paused" && (
+        <p className="mt-2 text-xs text-red-500">{STATUS_LABELS.paused}. Check the address and turn it back on.</p>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={() => handleSave(true)}
+          disabled={saving || loading}
+          className="px-4 py-2 text-sm rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : watch?.enabled ? "Save Source" : "Watch This Page"}
+        </button>
+        {watch?.enabled && (
+          <button
+            onClick={() => handleSave(false)}
+            disabled={saving}
+            className="px-4 py-2 text-sm rounded-lg border border-[var(--color-border-default)] text-[var(--color-text-primary)] disabled:opacity-50"
+          >
+            Turn Off
+          </button>
+        )}
+        {message && (
+          <span className={`text-sm ${message.type === "success" ? "text-emerald-500" : "text-red-500"}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+
+      {pending.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-2">
+            Changes to confirm ({pending.length})
+          </h3>
+          <ul className="divide-y divide-[var(--color-border-default)]">
+            {pending.map((change) => (
+              <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <span className="text-[var(--color-text-primary)]">{describeChange(change)}</span>
+                <span className="flex gap-2">
+                  <button
+                    onClick={() => handleResolve(change.id, "confirm")}
+                    disabled={resolvingId !== null}
+                    className="px-3 py-1 text-xs rounded bg-emerald-600 text-white font-medium disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => handleResolve(change.id, "dismiss")}
+                    disabled={resolvingId !== null}
+                    className="px-3 py-1 text-xs rounded border border-[var(--color-border-default)] text-[var(--color-text-secondary)] disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -8,8 +8,12 @@ import { readMediaEmbeds } from "@/lib/mediaEmbedsServer";
 import CreatedSuccessBanner from "./_components/CreatedSuccessBanner";
 import { SeriesEditingNotice } from "@/components/events/SeriesEditingNotice";
 import { computeNextOccurrence, expandOccurrencesForEvent } from "@/lib/events/nextOccurrence";
+import { parseSignupPolicy } from "@/lib/events/signupPolicy";
 import EventInviteSection from "./_components/EventInviteSection";
 import LineupControlSection from "./_components/LineupControlSection";
+import SignupPolicySection from "./_components/SignupPolicySection";
+import ReminderSettingsSection from "./_components/ReminderSettingsSection";
+import SourceWatchSection from "./_components/SourceWatchSection";
 import PublishButton from "./_components/PublishButton";
 import EventManagementClient from "./_components/EventManagementClient";
 import CancelEventButton from "./_components/CancelEventButton";
@@ -385,6 +389,24 @@ export default async function EditEventPage({
               nextOccurrenceDate={nextOccurrenceDate}
             />
           }
+          SignupPolicySection={
+            <SignupPolicySection
+              eventId={eventId}
+              initialPolicy={parseSignupPolicy(event.signup_policy)}
+            />
+          }
+          ReminderSettingsSection={
+            <ReminderSettingsSection
+              eventId={eventId}
+              initialHoursBefore={event.reminder_hours_before}
+            />
+          }
+          SourceWatchSection={
+            <SourceWatchSection
+              eventId={eventId}
+              externalUrl={event.external_url}
+            />
+          }
           SeriesEditingNotice={
             <SeriesEditingNotice
               event={{
@@ -0,0 +1,286 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { CalendarRange, ClipboardCheck, FileText, Loader2 } from "lucide-react";
+import type { ConciergeIR } from "@/lib/events/conciergeIR";
+import {
+  CONCIERGE_BATCH_MAX_CUSTOM_DATES,
+  buildConciergeBatchRequest,
+  buildConciergeBatchReview,
+  suggestConciergeBatchShape,
+  type ConciergeBatchShape,
+} from "@/lib/events/conciergeBatch";
+
+// ---------------------------------------------------------------------------
+// Batch review for a pasted multi-date schedule. The parent detects the
+// schedule (conciergeScheduleParser) and supplies the shared event fields
+// from the interpreted draft; this panel lets the host pick a shape, leave
+// dates out, and send the rest to POST /api/my-events/batch in one go.
+// ---------------------------------------------------------------------------
+
+export type ConciergeBatchResult = {
+  shape: ConciergeBatchShape;
+  events: Array<{ id: string; slug: string | null; event_date: string | null; created: boolean }>;
+  overrides: number;
+  timeslots: number;
+  claims: number;
+  is_published: boolean | null;
+};
+
+const SHAPE_LABELS: Record<ConciergeBatchShape, string> = {
+  custom_series: "One series with these dates",
+  one_offs: "Separate one-time events",
+  overrides: "Update these dates on this series",
+};
+
+function formatRowDate(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "America/Denver",
+  });
+}
+
+function formatRowTime(time: string | null): string {
+  if (!time) return "—";
+  const [hours, minutes] = time.split(":").map(Number);
+  const period = hours >= 12 ? "PM" : "AM";
+  const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHour}:${String(minutes).padStart(2, "0")} ${period}`;
+}
+
+function submitLabel(shape: ConciergeBatchShape, count: number, publish: boolean): string {
+  if (shape === "overrides") return `Apply to ${count} date${count === 1 ? "" : "s"}`;
+  if (shape === "custom_series") return `${publish ? "Publish" : "Create"} series with ${count} date${count === 1 ? "" : "s"}`;
+  return `${publish ? "Publish" : "Create"} ${count} event${count === 1 ? "" : "s"}${publish ? "" : " as drafts"}`;
+}
+
+export function ConciergeBatchReview({
+  ir,
+  rawSource,
+  todayIso,
+  createBody,
+  createBodyError,
+  existingEventId,
+  traceId,
+  onComplete,
+}: {
+  ir: ConciergeIR;
+  rawSource: string;
+  todayIso: string;
+  /** Shared create fields from the interpreted draft (null in edit sessions) */
+  createBody: Record<string, unknown> | null;
+  createBodyError: string | null;
+  /** Set when the chat is editing an existing series — the batch becomes overrides */
+  existingEventId: string | null;
+  traceId: string;
+  onComplete: (result: ConciergeBatchResult) => void;
+}) {
+  const rows = useMemo(
+    () => buildConciergeBatchReview({ ir, rawSource, todayIso }),
+    [ir, rawSource, todayIso]
+  );
+  const [shape, setShape] = useState<ConciergeBatchShape>(() =>
+    suggestConciergeBatchShape(rows.length, existingEventId)
+  );
+  const [excludedDates, setExcludedDates] = useState<Set<string>>(
+    () => new Set(rows.filter((row) => row.issues.length > 0).map((row) => row.date_key))
+  );
+  const [publish, setPublish] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ConciergeBatchResult | null>(null);
+
+  const includedRows = rows.filter((row) => !excludedDates.has(row.date_key));
+  const blockedRows = includedRows.filter((row) => row.issues.length > 0);
+  const shapes: ConciergeBatchShape[] = existingEventId ? ["overrides"] : ["custom_series", "one_offs"];
+  const tooManyForSeries = shape === "custom_series" && includedRows.length > CONCIERGE_BATCH_MAX_CUSTOM_DATES;
+  const canSend =
+    !isSending &&
+    !result &&
+    includedRows.length > 0 &&
+    blockedRows.length === 0 &&
+    !tooManyForSeries &&
+    (shape === "overrides" || createBody !== null);
+
+  function toggleRow(dateKey: string) {
+    setExcludedDates((prev) => {
+      const next = new Set(prev);
+      if (next.has(dateKey)) next.delete(dateKey);
+      else next.add(dateKey);
+      return next;
+    });
+  }
+
+  async function sendBatch() {
+    if (!canSend) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/my-events/batch", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...buildConciergeBatchRequest({
+            shape,
+            rows: includedRows,
+            event: createBody,
+            eventId: existingEventId,
+            publish,
+          }),
+          trace_id: traceId,
+          ai_write_source: "conversational_create_ui_batch",
+        }),
+      });
+      const body = await res.json().catch(() => ({ error: "Non-JSON response" }));
+      if (!res.ok) {
+        setError(`Nothing was saved (${res.status}): ${body.error || JSON.stringify(body)}`);
+        return;
+      }
+      setResult(body as ConciergeBatchResult);
+      onComplete(body as ConciergeBatchResult);
+    } catch (sendError) {
+      setError(`Nothing was saved: ${sendError instanceof Error ? sendError.message : "request failed"}`);
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <div
+      className="rounded-lg border border-[var(--color-border-input)] bg-[var(--color-bg-secondary)]/50 p-3 space-y-3"
+      data-testid="concierge-batch-review"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <p className="flex items-center gap-2 text-sm font-semibold text-[var(--color-text-primary)]">
+          <CalendarRange className="h-4 w-4" aria-hidden="true" />
+          Schedule found: {rows.length} dates
+        </p>
+        <span className="text-[11px] text-[var(--color-text-tertiary)]">All or nothing — one save</span>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {shapes.map((option) => (
+          <label key={option} className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)]">
+            <input
+              type="radio"
+              name="concierge-batch-shape"
+              checked={shape === option}
+              onChange={() => setShape(option)}
+              disabled={isSending || !!result}
+            />
+            {SHAPE_LABELS[option]}
+          </label>
+        ))}
+      </div>
+
+      <ul className="divide-y divide-[var(--color-border-input)] text-xs">
+        {rows.map((row) => {
+          const included = !excludedDates.has(row.date_key);
+          return (
+            <li key={row.date_key} className={`flex gap-2 py-2 ${included ? "" : "opacity-50"}`}>
+              <input
+                type="checkbox"
+                checked={included}
+                onChange={() => toggleRow(row.date_key)}
+                disabled={isSending || !!result}
+                aria-label={`Include ${formatRowDate(row.date_key)}`}
+                className="mt-0.5"
+              />
+              <div className="min-w-0 flex-1 space-y-0.5">
+                <p className="font-medium text-[var(--color-text-primary)]">
+                  {formatRowDate(row.date_key)} · {formatRowTime(row.start_time)}
+                  {row.end_time ? `–${formatRowTime(row.end_time)}` : ""}
+                </p>
+                {row.lineup.length > 0 && (
+                  <p className="text-[var(--color-text-secondary)]">Lineup: {row.lineup.join(", ")}</p>
+                )}
+                {row.notes && <p className="text-[var(--color-text-tertiary)]">{row.notes}</p>}
+                {row.issues.map((issue) => (
+                  <p key={issue} className="text-[var(--color-text-error)]">{issue}</p>
+                ))}
+                {row.questions.map((question) => (
+                  <p key={`${question.field}:${question.reason}`} className="text-amber-500">
+                    Still open: {question.field} — {question.reason}
+                  </p>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {shape !== "overrides" && createBodyError && (
+        <p className="text-xs text-[var(--color-text-error)]">
+          The shared event details are not ready yet ({createBodyError}). Answer the open question above first.
+        </p>
+      )}
+      {blockedRows.length > 0 && (
+        <p className="text-xs text-[var(--color-text-error)]">Leave out or fix the dates with problems before saving.</p>
+      )}
+      {tooManyForSeries && (
+        <p className="text-xs text-[var(--color-text-error)]">
+          A series holds up to {CONCIERGE_BATCH_MAX_CUSTOM_DATES} dates. Leave some out or create separate events.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        {shape !== "overrides" && (
+          <label className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)]">
+            <input
+              type="checkbox"
+              checked={publish}
+              onChange={(event) => setPublish(event.target.checked)}
+              disabled={isSending || !!result}
+            />
+            Publish right away
+          </label>
+        )}
+        <button
+          onClick={() => {
+            void sendBatch();
+          }}
+          disabled={!canSend}
+          type="button"
+          className="inline-flex min-h-11 items-center justify-center gap-2 rounded-lg bg-emerald-600 px-4 py-2 font-semibold text-white transition-colors hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSending ? (
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <ClipboardCheck className="h-4 w-4" aria-hidden="true" />
+          )}
+          {isSending ? "Saving…" : submitLabel(shape, includedRows.length, publish)}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-[var(--color-text-error)]">{error}</p>}
+
+      {result && (
+        <div className="space-y-1 text-xs">
+          <p className="text-emerald-500">
+            {result.shape === "overrides"
+              ? `Updated ${result.overrides} date${result.overrides === 1 ? "" : "s"}`
+              : `Saved ${result.events.length} ${result.is_published ? "published" : "draft"} event${result.events.length === 1 ? "" : "s"}`}
+            {result.claims > 0 ? ` and filled ${result.claims} lineup slot${result.claims === 1 ? "" : "s"}` : ""}.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {result.events.map((event) => (
+              <Link
+                key={event.id}
+                href={`/dashboard/my-events/${event.id}`}
+                target="_blank"
+                className="inline-flex min-h-9 items-center gap-1.5 rounded-lg border border-[var(--color-border-input)] px-3 py-1.5 font-semibold text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)]"
+              >
+                <FileText className="h-3.5 w-3.5" aria-hidden="true" />
+                {event.event_date && result.shape === "one_offs" ? formatRowDate(event.event_date) : "Open in editor"}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
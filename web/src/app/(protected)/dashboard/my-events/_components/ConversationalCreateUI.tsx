@@ -46,6 +46,11 @@ import {
   buildConciergeSearchEvidenceDisplay,
   shouldSuppressVenueAddressQuestion,
 } from "./conciergeSearchEvidence";
+import { ConciergeBatchReview, type ConciergeBatchResult } from "./ConciergeBatchReview";
+import type { ConciergeIR } from "@/lib/events/conciergeIR";
+import { parse as parseConciergeSchedule } from "@/lib/events/conciergeScheduleParser";
+import { fillConciergeIrFromDraft } from "@/lib/events/conciergeBatch";
+import { getTodayDenver } from "@/lib/events/nextOccurrence";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -654,6 +659,17 @@ const ACTIONABLE_NEXT_ACTIONS: ReadonlySet<NextAction> = new Set([
   "done",
 ]);
 
+// ---------------------------------------------------------------------------
+// Batch create: a pasted schedule with several dates goes to batch review
+// instead of a single draft
+// ---------------------------------------------------------------------------
+
+function detectPastedSchedule(text: string, todayIso: string): ConciergeIR | null {
+  if (!text.trim()) return null;
+  const ir = parseConciergeSchedule({ source_kind: "pasted_page_text", raw_text: text, today_iso: todayIso });
+  return ir.occurrences.length >= 2 ? ir : null;
+}
+
 // ---------------------------------------------------------------------------
 // Phase 4B: Map interpreter draft_payload → POST /api/my-events body
 // ---------------------------------------------------------------------------
@@ -1689,6 +1705,9 @@ export function ConversationalCreateUI({
     text: string;
   } | null>(null);
 
+  // Batch create: the latest pasted multi-date schedule, kept across follow-up turns
+  const [pastedSchedule, setPastedSchedule] = useState<{ ir: ConciergeIR; rawSource: string } | null>(null);
+
   // Occurrence edit apply state (separate from create)
   const [isApplyingOccurrence, setIsApplyingOccurrence] = useState(false);
   const [occurrenceMessage, setOccurrenceMessage] = useState<{
@@ -1873,6 +1892,27 @@ export function ConversationalCreateUI({
     hasUnappliedSeriesPatch &&
     ACTIONABLE_NEXT_ACTIONS.has(lastInterpretResponse.next_action as NextAction);
 
+  // Batch create: shared fields come from the interpreted draft; in an edit
+  // session on an existing series the schedule becomes per-date overrides.
+  const batchExistingEventId =
+    effectiveMode === "edit_series" && hasValidEventId && canWriteExistingEvent ? activeEventId : null;
+  const canShowBatchReview =
+    writesEnabled &&
+    pastedSchedule !== null &&
+    ((effectiveMode === "create" && lastInterpretResponse !== null) || batchExistingEventId !== null);
+  const batchDraft = lastInterpretResponse?.draft_payload ?? null;
+  const batchIr = useMemo(
+    () => (pastedSchedule ? fillConciergeIrFromDraft(pastedSchedule.ir, batchDraft) : null),
+    [pastedSchedule, batchDraft]
+  );
+  const batchCreatePayload = useMemo<MapResult | null>(
+    () =>
+      effectiveMode === "create" && batchDraft
+        ? mapDraftToCreatePayload(batchDraft, collectUserIntentText(conversationHistory, ""))
+        : null,
+    [effectiveMode, batchDraft, conversationHistory]
+  );
+
   const selectedCoverAlreadyAttached =
     isEditMode &&
     (Boolean(createdSummary?.hasCover) ||
@@ -2223,6 +2263,10 @@ export function ConversationalCreateUI({
         setHasUnappliedSeriesPatch(false);
       }
     }
+    const scheduleIr = detectPastedSchedule(message, getTodayDenver());
+    if (scheduleIr) {
+      setPastedSchedule({ ir: scheduleIr, rawSource: message });
+    }
     const userTranscriptContent =
       message.trim() ||
       (stagedImages.length === 1
@@ -2424,7 +2468,8 @@ export function ConversationalCreateUI({
             writesEnabled &&
             ACTIONABLE_NEXT_ACTIONS.has(body.next_action as NextAction)
           ) {
-            if (effectiveMode === "create" && !createdEventId) {
+            // A multi-date schedule waits for the batch review instead
+            if (effectiveMode === "create" && !createdEventId && !scheduleIr && !pastedSchedule) {
               await createEvent(nextInterpretResponse, { automatic: true });
             } else if (effectiveMode === "edit_series" && createdEventId) {
               await applySeriesPatch(nextInterpretResponse, { automatic: true });
@@ -2834,6 +2879,15 @@ export function ConversationalCreateUI({
 
   // ---- Phase 4B: Create event from interpreter draft (create mode only) ----
 
+  function handleBatchComplete(result: ConciergeBatchResult) {
+    if (latestEditTurnId) {
+      postEditTurnOutcome(latestEditTurnId, "accepted");
+    }
+    for (const event of result.events) {
+      broadcastEventDraftSync(event.id, event.created ? "created" : "updated");
+    }
+  }
+
   async function createEvent(
     sourceResponse: LastInterpretResponse | null = lastInterpretResponse,
     options: { automatic?: boolean } = {}
@@ -3852,7 +3906,7 @@ export function ConversationalCreateUI({
             )}
 
             {/* Phase 4B+8D: Confirm & Create Draft — disabled after success to prevent duplicates */}
-            {!isHostVariant && canShowCreateAction && !createdEventId && (
+            {!isHostVariant && canShowCreateAction && !createdEventId && !pastedSchedule && (
               <button
                 onClick={() => {
                   void createEvent();
@@ -3907,6 +3961,20 @@ export function ConversationalCreateUI({
 
           </div>
 
+          {canShowBatchReview && pastedSchedule && batchIr && (
+            <ConciergeBatchReview
+              key={pastedSchedule.rawSource}
+              ir={batchIr}
+              rawSource={pastedSchedule.rawSource}
+              todayIso={getTodayDenver()}
+              createBody={batchCreatePayload?.ok ? batchCreatePayload.body : null}
+              createBodyError={batchCreatePayload && !batchCreatePayload.ok ? batchCreatePayload.error : null}
+              existingEventId={batchExistingEventId}
+              traceId={traceId}
+              onComplete={handleBatchComplete}
+            />
+          )}
+
           {!isHostVariant && statusCode === 200 && responseGuidance && (
             <div
               className={`rounded-lg border border-[var(--color-border-input)] bg-[var(--color-bg-secondary)]/50 p-3 space-y-2 transition-colors duration-300 ${
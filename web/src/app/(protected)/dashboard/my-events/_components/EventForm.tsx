@@ -35,6 +35,7 @@ const FORM_EVENT_TYPE_OPTIONS = Object.entries(EVENT_TYPE_CONFIG).filter(
 );
 import { HappeningCard, type HappeningEvent } from "@/components/happenings/HappeningCard";
 import { formatTimeToAMPM } from "@/lib/recurrenceHumanizer";
+import { formatLotteryCutoffOffset, LOTTERY_CUTOFF_OFFSET_OPTIONS } from "@/lib/events/lottery";
 import {
   weekdayNameFromDateMT,
 } from "@/lib/events/formDateHelpers";
@@ -328,6 +329,7 @@ interface EventFormProps {
     is_free?: boolean | null;
     cost_label?: string | null;
     signup_mode?: string | null;
+    lottery_cutoff_offset_minutes?: number | null;
     signup_url?: string | null;
     signup_deadline?: string | null;
     signup_time?: string | null;
@@ -433,6 +435,7 @@ export default function EventForm({ mode, venues: initialVenues, event, canCreat
     is_free: event?.is_free ?? null,
     cost_label: event?.cost_label || "",
     signup_mode: event?.signup_mode || "",
+    lottery_cutoff_offset_minutes: event?.lottery_cutoff_offset_minutes ?? 0,
     signup_url: event?.signup_url || "",
     signup_deadline: event?.signup_deadline || "",
     signup_time: event?.signup_time || "",
@@ -965,6 +968,7 @@ export default function EventForm({ mode, venues: initialVenues, event, canCreat
         is_free: formData.is_free,
         cost_label: formData.cost_label || null,
         signup_mode: formData.signup_mode || null,
+        lottery_cutoff_offset_minutes: formData.lottery_cutoff_offset_minutes,
         signup_url: formData.signup_url || null,
         signup_deadline: formData.signup_deadline || null,
         signup_time: formData.signup_time || null,
@@ -2718,9 +2722,35 @@ export default function EventForm({ mode, venues: initialVenues, event, canCreat
                   <option value="in_person">Sign up in person at venue</option>
                   <option value="online">Online signup (external)</option>
                   <option value="both">Both (in person + online)</option>
+                  <option value="lottery">Lottery (hat draw for performer slots)</option>
                 </select>
               </div>
 
+              {formData.signup_mode === "lottery" && (
+                <div>
+                  <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                    Draw Time
+                  </label>
+                  <select
+                    value={formData.lottery_cutoff_offset_minutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, lottery_cutoff_offset_minutes: Number(e.target.value) }))}
+                    className="w-full px-4 py-3 bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-lg text-[var(--color-text-primary)] focus:border-[var(--color-border-accent)] focus:outline-none"
+                  >
+                    {!(LOTTERY_CUTOFF_OFFSET_OPTIONS as readonly number[]).includes(formData.lottery_cutoff_offset_minutes) && (
+                      <option value={formData.lottery_cutoff_offset_minutes}>
+                        {formatLotteryCutoffOffset(formData.lottery_cutoff_offset_minutes)}
+                      </option>
+                    )}
+                    {LOTTERY_CUTOFF_OFFSET_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>{formatLotteryCutoffOffset(minutes)}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+                    Members enter the draw until this time (uses start time when no signup time is set). Slots are then drawn at random and everyone else is waitlisted. Requires performer slots.
+                  </p>
+                </div>
+              )}
+
               {(formData.signup_mode === "online" || formData.signup_mode === "both") && (
                 <>
                   <div>
@@ -55,6 +55,7 @@ const FIELD_LABELS: Partial<Record<PatchFieldName, string>> = {
   cancelled_at: "Cancelled at",
   cancel_reason: "Cancel reason",
   signup_mode: "Signup",
+  lottery_cutoff_offset_minutes: "Draw time",
   signup_url: "Signup URL",
   external_url: "External URL",
   is_free: "Free",
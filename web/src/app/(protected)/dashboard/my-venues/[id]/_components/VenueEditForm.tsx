@@ -14,6 +14,7 @@ import { MANAGER_EDITABLE_VENUE_FIELDS } from "@/lib/venue/managerAuth";
 import { ImageUpload } from "@/components/ui/ImageUpload";
 import { MediaEmbedsEditor } from "@/components/media/MediaEmbedsEditor";
 import { createClient } from "@/lib/supabase/client";
+import { processUploadedImage } from "@/lib/images/client";
 
 interface VenueData {
   id: string;
@@ -95,6 +96,9 @@ export default function VenueEditForm({ venue, initialMediaEmbedUrls = [] }: Ven
       return null;
     }
 
+    // Strip location metadata and build responsive variants
+    await processUploadedImage('gallery-images', fileName);
+
     // Get public URL
     const { data: { publicUrl } } = supabase.storage
       .from('gallery-images')
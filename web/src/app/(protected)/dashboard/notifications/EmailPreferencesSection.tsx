@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import {
   getPreferences,
@@ -272,10 +273,14 @@ export default function EmailPreferencesSection() {
                 <label className="flex items-center justify-between gap-4 cursor-pointer">
                   <div>
                     <span className="text-[var(--color-text-primary)] text-sm">
-                      Weekly digests
+                      Happenings digests
                     </span>
                     <p className="text-[var(--color-text-tertiary)] text-xs">
-                      Open mic roundups and happenings digest
+                      Open mic roundups and happenings digest (frequency and sections in{" "}
+                      <Link href="/dashboard/settings" className="underline">
+                        settings
+                      </Link>
+                      )
                     </p>
                   </div>
                   <Toggle
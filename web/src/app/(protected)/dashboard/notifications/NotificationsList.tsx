@@ -30,6 +30,8 @@ const NOTIFICATION_TYPES = [
   { value: "invitation_response", label: "Invite responses" },
   { value: "host_approved", label: "Host approved" },
   { value: "event_cancelled", label: "Cancellations" },
+  { value: "event_reminder", label: "Reminders" },
+  { value: "follow_activity", label: "Following" },
 ];
 
 export default function NotificationsList({
@@ -73,8 +75,10 @@ export default function NotificationsList({
       case "host_approved": return "🎤";
       case "host_rejected": return "❌";
       case "event_cancelled": return "🚫";
+      case "event_reminder": return "⏰";
       case "gallery_collaborator_added": return "📸";
       case "gallery_collaborator_invite": return "📸";
+      case "follow_activity": return "👥";
       default: return "🔔";
     }
   };
@@ -16,6 +16,18 @@ import {
   type SavedDayFilter,
   type SavedHappeningsFilters,
 } from "@/lib/happenings/savedFilters";
+import {
+  DIGEST_CADENCES,
+  DIGEST_CADENCE_LABELS,
+  DIGEST_DAY_LABELS,
+  DIGEST_DISTANCE_OPTIONS,
+  DIGEST_SECTIONS,
+  DIGEST_SECTION_LABELS,
+  isDigestCadence,
+  toDigestPreferences,
+  type DigestSection,
+} from "@/lib/digest/digestCadence";
+import { REGION_SELECT, toRegion, type Region } from "@/lib/regions/regions";
 
 const SAVED_FILTER_TYPE_OPTIONS = [
   { value: "", label: "All Types" },
@@ -74,6 +86,11 @@ export default function SettingsPage() {
   const [savedFiltersLoading, setSavedFiltersLoading] = useState(true);
   const [savedFiltersSaving, setSavedFiltersSaving] = useState(false);
   const [savedFiltersSaved, setSavedFiltersSaved] = useState<string | null>(null);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [calendarFeedError, setCalendarFeedError] = useState<string | null>(null);
+  // Home region ("" = default region)
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [homeRegionId, setHomeRegionId] = useState("");
 
   // Load user and preferences
   useEffect(() => {
@@ -86,12 +103,22 @@ export default function SettingsPage() {
       // Check if admin
       const { data: profile } = await supabase
         .from("profiles")
-        .select("role")
+        .select("role, home_region_id")
         .eq("id", user.id)
         .single();
 
       setIsAdmin(profile?.role === "admin");
 
+      const { data: regionRows } = await supabase
+        .from("regions")
+        .select(REGION_SELECT)
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true });
+      const activeRegions: Region[] = (regionRows || []).map(toRegion);
+      setRegions(activeRegions);
+      const homeRegion = activeRegions.find((region) => region.id === profile?.home_region_id);
+      setHomeRegionId(homeRegion && !homeRegion.isDefault ? String(homeRegion.id) : "");
+
       // Check if user is a host or co-host of any event
       const { count: hostCount } = await supabase
         .from("event_hosts")
@@ -145,6 +172,54 @@ export default function SettingsPage() {
     setPrefsSaving(false);
   };
 
+  // Digest shape (cadence, day, sections, distance) — only editable while digests are on
+  const handleDigestChange = async (
+    patch: Partial<Pick<NotificationPreferences, "digest_cadence" | "digest_day" | "digest_sections" | "digest_max_distance_miles">>
+  ) => {
+    if (!userId || !prefs || !prefs.email_enabled || !prefs.email_digests) return;
+
+    setPrefsSaving(true);
+    setPrefsSaved(false);
+
+    const updated = await upsertPreferences(supabase, userId, patch);
+    if (updated) {
+      setPrefs(updated);
+      setPrefsSaved(true);
+      setTimeout(() => setPrefsSaved(false), 3000);
+    }
+
+    setPrefsSaving(false);
+  };
+
+  // Home region decides which region's happenings the digest covers
+  const handleHomeRegionChange = async (value: string) => {
+    if (!userId) return;
+
+    setPrefsSaving(true);
+    setPrefsSaved(false);
+
+    const { error: regionError } = await supabase
+      .from("profiles")
+      .update({ home_region_id: value ? Number(value) : null })
+      .eq("id", userId);
+    if (!regionError) {
+      setHomeRegionId(value);
+      setPrefsSaved(true);
+      setTimeout(() => setPrefsSaved(false), 3000);
+    }
+
+    setPrefsSaving(false);
+  };
+
+  const toggleDigestSection = (section: DigestSection) => {
+    if (!prefs) return;
+    const current = toDigestPreferences(prefs).sections;
+    const next = current.includes(section)
+      ? current.filter((s) => s !== section)
+      : [...current, section];
+    handleDigestChange({ digest_sections: next });
+  };
+
   const updateSavedFilters = (patch: Partial<SavedHappeningsFilters>) => {
     setSavedFilters((prev) => sanitizeSavedHappeningsFilters({ ...prev, ...patch }));
   };
@@ -180,6 +255,21 @@ export default function SettingsPage() {
     setSavedFiltersSaving(false);
   };
 
+  const handleGetCalendarFeed = async () => {
+    setCalendarFeedError(null);
+    try {
+      const res = await fetch("/api/calendar/saved-filters");
+      const body = await res.json();
+      if (!res.ok || typeof body.url !== "string") {
+        setCalendarFeedError(body.error || "Could not create your calendar link. Try again.");
+        return;
+      }
+      setCalendarFeedUrl(body.url);
+    } catch {
+      setCalendarFeedError("Could not create your calendar link. Try again.");
+    }
+  };
+
   const handleResetSavedFilters = async () => {
     if (!userId) return;
 
@@ -418,12 +508,12 @@ export default function SettingsPage() {
                 </button>
               </label>
 
-              {/* Weekly Digests Toggle */}
+              {/* Digests Toggle */}
               <label className="flex items-center justify-between gap-4 cursor-pointer">
                 <div>
-                  <span className="text-[var(--color-text-primary)]">Weekly digests</span>
+                  <span className="text-[var(--color-text-primary)]">Happenings digests</span>
                   <p className="text-[var(--color-text-tertiary)] text-sm">
-                    Open mic roundups and happenings digest
+                    Open mic roundups and happenings digest, daily to weekly
                   </p>
                 </div>
                 <button
@@ -446,6 +536,112 @@ export default function SettingsPage() {
                 </button>
               </label>
 
+              {/* Digest shape */}
+              {prefs.email_enabled && prefs.email_digests && (() => {
+                const digest = toDigestPreferences(prefs);
+                return (
+                  <div className="ml-4 pl-4 border-l border-[var(--color-border-default)] space-y-3">
+                    {regions.length > 1 && (
+                      <label className="block text-sm">
+                        <span className="text-[var(--color-text-secondary)]">Home region</span>
+                        <select
+                          value={homeRegionId}
+                          onChange={(e) => handleHomeRegionChange(e.target.value)}
+                          disabled={prefsSaving}
+                          className="mt-1 block w-full rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] px-3 py-2 text-[var(--color-text-primary)]"
+                        >
+                          {regions.map((region) => (
+                            <option key={region.id} value={region.isDefault ? "" : String(region.id)}>
+                              {region.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+
+                    <label className="block text-sm">
+                      <span className="text-[var(--color-text-secondary)]">How often</span>
+                      <select
+                        value={digest.cadence}
+                        onChange={(e) => {
+                          if (isDigestCadence(e.target.value)) {
+                            handleDigestChange({ digest_cadence: e.target.value });
+                          }
+                        }}
+                        disabled={prefsSaving}
+                        className="mt-1 block w-full rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] px-3 py-2 text-[var(--color-text-primary)]"
+                      >
+                        {DIGEST_CADENCES.map((cadence) => (
+                          <option key={cadence} value={cadence}>
+                            {DIGEST_CADENCE_LABELS[cadence]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+
+                    {digest.cadence === "weekly" && (
+                      <label className="block text-sm">
+                        <span className="text-[var(--color-text-secondary)]">Send on</span>
+                        <select
+                          value={digest.day}
+                          onChange={(e) => handleDigestChange({ digest_day: Number(e.target.value) })}
+                          disabled={prefsSaving}
+                          className="mt-1 block w-full rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] px-3 py-2 text-[var(--color-text-primary)]"
+                        >
+                          {DIGEST_DAY_LABELS.map((label, index) => (
+                            <option key={label} value={index}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+
+                    <fieldset className="text-sm">
+                      <legend className="text-[var(--color-text-secondary)]">Include</legend>
+                      <div className="mt-1 space-y-1">
+                        {DIGEST_SECTIONS.map((section) => (
+                          <label key={section} className="flex items-center gap-2 text-[var(--color-text-primary)]">
+                            <input
+                              type="checkbox"
+                              checked={digest.sections.includes(section)}
+                              onChange={() => toggleDigestSection(section)}
+                              disabled={prefsSaving}
+                              className="accent-[var(--color-accent-primary)]"
+                            />
+                            <span>{DIGEST_SECTION_LABELS[section]}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+
+                    <label className="block text-sm">
+                      <span className="text-[var(--color-text-secondary)]">Max distance</span>
+                      <select
+                        value={digest.maxDistanceMiles ?? ""}
+                        onChange={(e) =>
+                          handleDigestChange({
+                            digest_max_distance_miles: e.target.value ? Number(e.target.value) : null,
+                          })
+                        }
+                        disabled={prefsSaving}
+                        className="mt-1 block w-full rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] px-3 py-2 text-[var(--color-text-primary)]"
+                      >
+                        <option value="">Any distance</option>
+                        {DIGEST_DISTANCE_OPTIONS.map((miles) => (
+                          <option key={miles} value={miles}>
+                            Within {miles} miles
+                          </option>
+                        ))}
+                      </select>
+                      <span className="mt-1 block text-[var(--color-text-tertiary)]">
+                        Measured from the ZIP code on your profile.
+                      </span>
+                    </label>
+                  </div>
+                );
+              })()}
+
               {/* Invitations Toggle */}
               <label className="flex items-center justify-between gap-4 cursor-pointer">
                 <div>
@@ -771,6 +967,41 @@ export default function SettingsPage() {
                   </p>
                 )}
               </div>
+
+              <div className="rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-tertiary)] p-4 space-y-3">
+                <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">4. Subscribe in your calendar</h3>
+                <p className="text-[var(--color-text-tertiary)] text-xs">
+                  Your phone or desktop calendar can follow happenings that match your saved filters. Cancellations and time changes update automatically. Keep this link private — anyone with it can see your filtered list.
+                </p>
+                {calendarFeedUrl ? (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <a
+                      href={calendarFeedUrl}
+                      className="px-4 py-2 rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] hover:opacity-90 transition"
+                    >
+                      Open in Calendar
+                    </a>
+                    <input
+                      readOnly
+                      value={calendarFeedUrl}
+                      onFocus={(e) => e.currentTarget.select()}
+                      aria-label="Calendar subscription link"
+                      className="flex-1 min-w-[16rem] px-3 py-2 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] text-xs text-[var(--color-text-secondary)]"
+                    />
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleGetCalendarFeed}
+                    className="px-4 py-2 rounded-lg border border-[var(--color-border-default)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+                  >
+                    Get calendar link
+                  </button>
+                )}
+                {calendarFeedError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{calendarFeedError}</p>
+                )}
+              </div>
             </div>
           )}
         </section>
@@ -0,0 +1,71 @@
+/**
+ * Admin Email Outbox API
+ *
+ * GET /api/admin/digest/outbox — Delivery status counts and the most recent
+ * outbox messages (no bodies), newest first.
+ *
+ * Admin-only.
+ */
+
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { OUTBOX_STATUSES, type OutboxStatus } from "@/lib/email/outbox";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_LIMIT = 50;
+
+export async function GET() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+
+  try {
+    const countResults = await Promise.all(
+      OUTBOX_STATUSES.map((status) =>
+        serviceClient
+          .from("email_outbox")
+          .select("id", { count: "exact", head: true })
+          .eq("status", status)
+      )
+    );
+
+    const counts = {} as Record<OutboxStatus, number>;
+    OUTBOX_STATUSES.forEach((status, index) => {
+      const { count, error } = countResults[index];
+      if (error) throw error;
+      counts[status] = count ?? 0;
+    });
+
+    const { data, error } = await serviceClient
+      .from("email_outbox")
+      .select(
+        "id, to_email, subject, template_name, batch_key, status, attempts, next_attempt_at, last_error, sent_at, created_at"
+      )
+      .order("created_at", { ascending: false })
+      .limit(RECENT_LIMIT);
+    if (error) throw error;
+
+    return NextResponse.json({ counts, messages: data ?? [] });
+  } catch (error) {
+    console.error("[AdminEmailOutbox] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch outbox" },
+      { status: 500 }
+    );
+  }
+}
@@ -168,6 +168,8 @@ describe("GET /api/admin/digest/preview", () => {
       ) => ({
         recipients,
         digestByUserId: new Map(),
+        forYouByUserId: new Map(),
+        followActivityByUserId: new Map(),
         personalizedCount: 0,
         skippedCount: 0,
       })
@@ -189,6 +191,8 @@ describe("GET /api/admin/digest/preview", () => {
           },
         ],
       ]),
+      forYouByUserId: new Map(),
+      followActivityByUserId: new Map(),
       personalizedCount: 1,
       skippedCount: 0,
     }));
@@ -230,6 +234,8 @@ describe("GET /api/admin/digest/preview", () => {
     state.personalizeDigestRecipients.mockImplementationOnce(async () => ({
       recipients: [],
       digestByUserId: new Map(),
+      forYouByUserId: new Map(),
+      followActivityByUserId: new Map(),
       personalizedCount: 0,
       skippedCount: 1,
     }));
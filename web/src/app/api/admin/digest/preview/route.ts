@@ -155,6 +155,8 @@ export async function GET(request: NextRequest) {
           digestData,
           {
             enabled: true,
+            forYou: true,
+            followActivity: true,
             logPrefix: "[AdminPreviewUser]",
           }
         );
@@ -217,6 +219,8 @@ export async function GET(request: NextRequest) {
           totalCount: recipientDigestData.totalCount,
           venueCount: recipientDigestData.venueCount,
           editorial: resolvedEditorial,
+          forYou: personalized.forYouByUserId.get(previewRecipient.userId),
+          followActivity: personalized.followActivityByUserId.get(previewRecipient.userId),
         });
 
         return NextResponse.json({
@@ -239,6 +243,8 @@ export async function GET(request: NextRequest) {
           personalizationAppliedInPreview: true,
           personalizedRecipients: personalized.personalizedCount,
           skippedByFilters: personalized.skippedCount,
+          forYouPicks: personalized.forYouByUserId.get(previewRecipient.userId) ?? [],
+          followActivity: personalized.followActivityByUserId.get(previewRecipient.userId) ?? [],
           emailEnabled,
           emailDigests,
           wouldBeExcludedFromSend,
@@ -252,6 +258,8 @@ export async function GET(request: NextRequest) {
         digestData,
         {
           enabled: personalizationEnabled,
+          forYou: true,
+          followActivity: true,
           logPrefix: "[AdminPreview]",
         }
       );
@@ -307,6 +315,8 @@ export async function GET(request: NextRequest) {
             totalCount: recipientDigestData.totalCount,
             venueCount: recipientDigestData.venueCount,
             editorial: resolvedEditorial,
+            forYou: personalized.forYouByUserId.get(recipient.userId),
+            followActivity: personalized.followActivityByUserId.get(recipient.userId),
           });
         },
         templateName: "weeklyHappeningsDigest",
@@ -53,6 +53,8 @@ vi.mock("@/lib/digest/weeklyHappenings", () => ({
   ) => ({
     recipients,
     digestByUserId: new Map(),
+    forYouByUserId: new Map(),
+    followActivityByUserId: new Map(),
     personalizedCount: 0,
     skippedCount: 0,
   }),
@@ -6,6 +6,9 @@
  *
  * Modes:
  * - "full": Send to all recipients. Respects idempotency lock (same as cron).
+ *   For weekly_happenings that means today's editions in every region for
+ *   members whose cadence sends today; for weekly_open_mics, the roundup for
+ *   members whose digest_day is today. Both are locked per recipient.
  * - "test": Send to the admin only. Bypasses idempotency lock. Prepends [TEST] to subject.
  *
  * GTM-3: Includes editorial content for weekly_happenings.
@@ -30,12 +33,20 @@ import { getUpcomingOpenMics, getDigestRecipients as getOpenMicRecipients } from
 import { getWeeklyHappeningsDigestEmail } from "@/lib/email/templates/weeklyHappeningsDigest";
 import { getWeeklyOpenMicsDigestEmail } from "@/lib/email/templates/weeklyOpenMicsDigest";
 import { sendDigestEmails } from "@/lib/digest/sendDigest";
-import { claimDigestSendLock, computeWeekKey } from "@/lib/digest/digestSendLog";
+import { sendOpenMicsEditions } from "@/lib/digest/openMicsEditions";
+import { computeWeekKey } from "@/lib/digest/digestSendLog";
+import {
+  groupRecipientsByRegion,
+  sendRegionHappeningsEditions,
+  summarizeRegionResults,
+  type RegionEditionsResult,
+} from "@/lib/digest/happeningsEditions";
+import { FALLBACK_REGION } from "@/lib/regions/regions";
+import { getActiveRegions } from "@/lib/regions/regionsServer";
 import type { DigestType } from "@/lib/digest/digestSendLog";
 import { isDigestPersonalizationEnabled } from "@/lib/featureFlags";
 import {
   getEditorial,
-  resolveEditorial,
   resolveEditorialWithDiagnostics,
   type ResolvedEditorial,
 } from "@/lib/digest/digestEditorial";
@@ -44,6 +55,7 @@ export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
+  const invocationStartedAt = Date.now();
   const supabase = await createSupabaseServerClient();
   const {
     data: { user },
@@ -125,6 +137,8 @@ export async function POST(request: NextRequest) {
           digestData,
           {
             enabled: personalizationEnabled,
+            forYou: true,
+            followActivity: true,
             logPrefix: "[AdminTestSend]",
           }
         );
@@ -179,6 +193,8 @@ export async function POST(request: NextRequest) {
               totalCount: recipientDigestData.totalCount,
               venueCount: recipientDigestData.venueCount,
               editorial: resolvedEditorial,
+              forYou: personalized.forYouByUserId.get(recipient.userId),
+              followActivity: personalized.followActivityByUserId.get(recipient.userId),
             });
           },
           templateName: "weeklyHappeningsDigest",
@@ -241,100 +257,68 @@ export async function POST(request: NextRequest) {
     console.log(`[AdminFullSend] lockWeekKey=${lockWeekKey}, editorialWeekKey=${fullEditorialWeekKey}`);
 
     if (digestType === "weekly_happenings") {
-      const digestData = await getUpcomingHappenings(serviceClient);
+      // Every region sends now, regardless of its send window. Recipient
+      // locks are shared with the cron, so nobody gets a second edition today.
+      const activeRegions = await getActiveRegions(serviceClient);
+      const regions = activeRegions.length > 0 ? activeRegions : [FALLBACK_REGION];
       const recipients = await getDigestRecipients(serviceClient);
+      const recipientsByRegion = groupRecipientsByRegion(recipients, regions);
       const personalizationEnabled = isDigestPersonalizationEnabled();
-      const personalized = await personalizeDigestRecipients(
-        serviceClient,
-        recipients,
-        digestData,
-        {
-          enabled: personalizationEnabled,
-          logPrefix: "[AdminFullSend]",
-        }
-      );
-      const recipientsToSend = personalized.recipients;
+      const now = new Date();
+
+      // GTM-3: Resolve editorial AFTER lock (Delta 1) — inside
+      // sendRegionHappeningsEditions. Full sends use the lock week.
+      const results: RegionEditionsResult[] = [];
+      for (const region of regions) {
+        results.push(
+          await sendRegionHappeningsEditions(serviceClient, {
+            region,
+            recipients: recipientsByRegion.get(region.id) ?? [],
+            personalizationEnabled,
+            now,
+            editorialWeekKey: fullEditorialWeekKey,
+            logPrefix: "[AdminFullSend]",
+            invocationStartedAt,
+          })
+        );
+      }
+      const summary = summarizeRegionResults(results);
 
-      if (recipientsToSend.length === 0) {
+      if (results.some((result) => result.status === "lock_error")) {
         return NextResponse.json({
-          success: true,
-          message: personalizationEnabled
-            ? "No recipients after personalization filters"
-            : "No eligible recipients",
-          sent: 0,
-          skippedByFilters: personalized.skippedCount,
+          success: false,
+          message: "Idempotency lock error. Try again later.",
+          skipped: true,
+          reason: "lock_error",
+          weekKey: lockWeekKey,
+          regions: results,
         });
       }
 
-      // Attempt idempotency lock — always uses current week
-      const lock = await claimDigestSendLock(
-        serviceClient,
-        "weekly_happenings",
-        recipientsToSend.length,
-        lockWeekKey
-      );
-
-      if (!lock.acquired) {
+      if (summary.sent + summary.failed + summary.queued === 0 && summary.alreadySent > 0) {
         return NextResponse.json({
           success: false,
-          message:
-            lock.reason === "already_sent"
-              ? `Already sent for ${lockWeekKey}. Use "Send test to me" to preview without the lock.`
-              : "Idempotency lock error. Try again later.",
+          message: `Already sent today's editions. Use "Send test to me" to preview without the lock.`,
           skipped: true,
-          reason: lock.reason,
+          reason: "already_sent",
           weekKey: lockWeekKey,
+          regions: results,
         });
       }
 
-      // GTM-3: Resolve editorial AFTER lock (Delta 1)
-      // Full sends intentionally use the lock week to avoid test/full week drift.
-      let resolvedEditorial: ResolvedEditorial | undefined;
-      try {
-        const editorial = await getEditorial(serviceClient, fullEditorialWeekKey, "weekly_happenings");
-        if (editorial) {
-          console.log(`[AdminFullSend] Found editorial for ${fullEditorialWeekKey}, resolving references...`);
-          resolvedEditorial = await resolveEditorial(serviceClient, editorial);
-          console.log("[AdminFullSend] Editorial resolved successfully");
-        }
-      } catch (editorialError) {
-        console.warn("[AdminFullSend] Editorial resolution failed, sending without editorial:", editorialError);
-      }
-
-      const result = await sendDigestEmails({
-        mode: "full",
-        recipients: recipientsToSend,
-        buildEmail: (recipient) => {
-          const recipientDigestData =
-            personalized.digestByUserId.get(recipient.userId) || digestData;
-
-          return getWeeklyHappeningsDigestEmail({
-            firstName: recipient.firstName,
-            userId: recipient.userId,
-            byDate: recipientDigestData.byDate,
-            totalCount: recipientDigestData.totalCount,
-            venueCount: recipientDigestData.venueCount,
-            editorial: resolvedEditorial,
-          });
-        },
-        templateName: "weeklyHappeningsDigest",
-        logPrefix: "[AdminFullSend]",
-      });
-
       return NextResponse.json({
         success: true,
         mode: "full",
-        sent: result.sent,
-        failed: result.failed,
-        total: result.total,
+        ...summary,
+        total: summary.sent + summary.failed + summary.queued,
         weekKey: lockWeekKey,
-        hasEditorial: !!resolvedEditorial,
+        hasEditorial: results.some((result) => result.hasEditorial),
         personalizationEnabled,
-        personalizedRecipients: personalized.personalizedCount,
-        skippedByFilters: personalized.skippedCount,
+        regions: results,
       });
     } else {
-      const digestData = await getUpcomingOpenMics(serviceClient);
+      // Members whose digest_day is today; recipient locks are shared with
+      // the cron, so nobody gets a second roundup today.
       const recipients = await getOpenMicRecipients(serviceClient);
 
       if (recipients.length === 0) {
@@ -345,47 +329,31 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      const lock = await claimDigestSendLock(
-        serviceClient,
-        "weekly_open_mics",
-        recipients.length,
-        lockWeekKey
-      );
+      const result = await sendOpenMicsEditions(serviceClient, {
+        recipients,
+        logPrefix: "[AdminFullSend]",
+        invocationStartedAt,
+      });
 
-      if (!lock.acquired) {
+      if (result.status === "lock_error" || result.status === "already_sent") {
         return NextResponse.json({
           success: false,
           message:
-            lock.reason === "already_sent"
-              ? `Already sent for ${lockWeekKey}. Use "Send test to me" to preview without the lock.`
+            result.status === "already_sent"
+              ? `Already sent today's roundups. Use "Send test to me" to preview without the lock.`
               : "Idempotency lock error. Try again later.",
           skipped: true,
-          reason: lock.reason,
+          reason: result.status,
           weekKey: lockWeekKey,
+          dateKey: result.dateKey,
         });
       }
 
-      const result = await sendDigestEmails({
-        mode: "full",
-        recipients,
-        buildEmail: (recipient) =>
-          getWeeklyOpenMicsDigestEmail({
-            firstName: recipient.firstName,
-            userId: recipient.userId,
-            byDate: digestData.byDate,
-            totalCount: digestData.totalCount,
-            venueCount: digestData.venueCount,
-          }),
-        templateName: "weeklyOpenMicsDigest",
-        logPrefix: "[AdminFullSend]",
-      });
-
       return NextResponse.json({
         success: true,
         mode: "full",
-        sent: result.sent,
-        failed: result.failed,
-        total: result.total,
+        ...result,
+        total: result.sent + result.failed + result.queued,
         weekKey: lockWeekKey,
       });
     }
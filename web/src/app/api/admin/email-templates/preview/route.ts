@@ -0,0 +1,63 @@
+/**
+ * Admin Email Template Preview API
+ *
+ * POST /api/admin/email-templates/preview — Render one registry template
+ * with admin-edited sample params and run the template checks.
+ *
+ * Body: { templateKey: EmailTemplateKey, params: object }
+ *
+ * Admin-only. Nothing is sent or stored.
+ */
+
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { isEmailTemplateKey } from "@/lib/email/registry";
+import { renderTemplateFromJson } from "@/lib/email/templateFixtures";
+import { checkEmailOutput, getHtmlByteSize } from "@/lib/email/templateChecks";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { templateKey?: unknown; params?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isEmailTemplateKey(body.templateKey)) {
+    return NextResponse.json({ error: "Unknown template" }, { status: 400 });
+  }
+
+  try {
+    const output = renderTemplateFromJson(body.templateKey, body.params);
+    return NextResponse.json({
+      subject: output.subject,
+      html: output.html,
+      text: output.text,
+      htmlBytes: getHtmlByteSize(output.html),
+      issues: checkEmailOutput(output),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Template failed to render: ${message}` },
+      { status: 400 }
+    );
+  }
+}
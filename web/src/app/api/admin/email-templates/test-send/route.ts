@@ -0,0 +1,79 @@
+/**
+ * Admin Email Template Test Send API
+ *
+ * POST /api/admin/email-templates/test-send — Render one registry template
+ * with admin-edited sample params and send it to the signed-in admin's own
+ * address through the real mailer (header image, suppression list, SMTP).
+ *
+ * Body: { templateKey: EmailTemplateKey, params: object }
+ *
+ * Admin-only. The recipient is never taken from the request.
+ */
+
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { deliverEmail } from "@/lib/email/mailer";
+import { isEmailTemplateKey } from "@/lib/email/registry";
+import { renderTemplateFromJson } from "@/lib/email/templateFixtures";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json(
+      { error: "Your account has no email address" },
+      { status: 400 }
+    );
+  }
+
+  let body: { templateKey?: unknown; params?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isEmailTemplateKey(body.templateKey)) {
+    return NextResponse.json({ error: "Unknown template" }, { status: 400 });
+  }
+
+  let output;
+  try {
+    output = renderTemplateFromJson(body.templateKey, body.params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Template failed to render: ${message}` },
+      { status: 400 }
+    );
+  }
+
+  const result = await deliverEmail({
+    to: user.email,
+    subject: `[TEST] ${output.subject}`,
+    html: output.html,
+    text: output.text,
+    templateName: body.templateKey,
+  });
+
+  return NextResponse.json({
+    success: result.status === "sent",
+    status: result.status,
+    sentTo: user.email,
+  });
+}
@@ -52,8 +52,14 @@ export async function PATCH(request: Request, context: { params: Promise<{ id: s
 
     if (error) return NextResponse.json({ error: error.message ?? error }, { status: 500 });
 
-    // If approved, apply the change to the event or occurrence override
-    if (body.status === 'approved' && currentSuggestion?.event_id && currentSuggestion.field !== '_new_event') {
+    // If approved, apply the change to the event or occurrence override.
+    // Reverification "changed" answers are free text — admins edit the event by hand.
+    if (
+      body.status === 'approved' &&
+      currentSuggestion?.event_id &&
+      currentSuggestion.field !== '_new_event' &&
+      currentSuggestion.field !== '_reverification'
+    ) {
       const fieldToUpdate = currentSuggestion.field;
       // Use edited value if provided, otherwise use original suggestion value
       const newValue = body.edited_new_value || currentSuggestion.new_value;
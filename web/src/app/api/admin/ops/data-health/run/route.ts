@@ -0,0 +1,50 @@
+/**
+ * Data Health Run API
+ *
+ * POST /api/admin/ops/data-health/run
+ *
+ * Runs the data health checks on demand (same run as the daily cron).
+ * Admin-only endpoint.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextResponse } from "next/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { runDataHealth } from "@/lib/ops/dataHealthServer";
+import { opsAudit } from "@/lib/audit/opsAudit";
+
+export const maxDuration = 60;
+
+export async function POST() {
+  // Auth check
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+
+  try {
+    const { runId, counts } = await runDataHealth(serviceClient, {
+      trigger: "manual",
+      triggeredBy: user.id,
+    });
+
+    await opsAudit.dataHealthRun(user.id, { runId, counts });
+
+    return NextResponse.json({ success: true, runId, counts });
+  } catch (error) {
+    console.error("[data-health/run] Run failed:", error);
+    return NextResponse.json({ error: "Data health run failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Duplicate Dismiss API
+ *
+ * POST /api/admin/ops/duplicates/dismiss
+ *
+ * Marks a candidate pair as "not a duplicate" so the review queue stops
+ * showing it. Idempotent.
+ * Admin-only endpoint.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextResponse } from "next/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { orderPairIds, parseDuplicatePairRequest } from "@/lib/ops/duplicateDetection";
+import { opsAudit } from "@/lib/audit/opsAudit";
+
+export async function POST(request: Request) {
+  // Auth check
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // Parse request body
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseDuplicatePairRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { type, survivorId, loserId } = parsed.value;
+  const [leftId, rightId] = orderPairIds(survivorId, loserId);
+
+  const serviceClient = createServiceRoleClient();
+  const { error } = await serviceClient
+    .from("duplicate_dismissals")
+    .upsert(
+      { entity_type: type, left_id: leftId, right_id: rightId, dismissed_by: user.id },
+      { onConflict: "entity_type,left_id,right_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  await opsAudit.duplicatesDismiss(user.id, { type, leftId, rightId });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,138 @@
+/**
+ * Duplicate Merge API
+ *
+ * POST /api/admin/ops/duplicates/merge
+ *
+ * Merges a duplicate event or venue into a survivor. The admin picks which
+ * side wins each field group; the merge_events()/merge_venues() RPC applies
+ * those fields, moves child rows (RSVPs, claims, comments, watchers,
+ * overrides, images, managers, followers), leaves an old-slug redirect and
+ * deletes the loser in one transaction.
+ * Admin-only endpoint.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextResponse } from "next/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { buildMergeFieldPatch, parseDuplicatePairRequest } from "@/lib/ops/duplicateDetection";
+import { opsAudit } from "@/lib/audit/opsAudit";
+import {
+  logEventAudit,
+  readEventAuditRequestContext,
+  snapshotFromEventRow,
+} from "@/lib/audit/eventAudit";
+import type { Json } from "@/lib/supabase/database.types";
+
+export async function POST(request: Request) {
+  // Auth check
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // Parse request body
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseDuplicatePairRequest(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { type, survivorId, loserId, choices } = parsed.value;
+
+  const serviceClient = createServiceRoleClient();
+  const table = type === "event" ? "events" : "venues";
+
+  const { data: rows, error: fetchError } = await serviceClient
+    .from(table)
+    .select("*")
+    .in("id", [survivorId, loserId]);
+
+  if (fetchError) {
+    return NextResponse.json({ error: fetchError.message }, { status: 500 });
+  }
+
+  const survivor = rows?.find((row) => row.id === survivorId) as Record<string, unknown> | undefined;
+  const loser = rows?.find((row) => row.id === loserId) as Record<string, unknown> | undefined;
+  if (!survivor || !loser) {
+    return NextResponse.json({ error: `Both ${type}s must exist` }, { status: 404 });
+  }
+
+  // Field values come from the server-side loser row, never the request.
+  const fields = buildMergeFieldPatch(type, choices, loser);
+
+  const { data: moved, error: mergeError } = await serviceClient.rpc(
+    type === "event" ? "merge_events" : "merge_venues",
+    { p_survivor_id: survivorId, p_loser_id: loserId, p_fields: fields as Json }
+  );
+
+  if (mergeError) {
+    console.error(`[duplicates/merge] ${type} merge failed:`, mergeError);
+    return NextResponse.json({ error: mergeError.message }, { status: 500 });
+  }
+
+  const auditContext = {
+    survivorId,
+    loserId,
+    fields: Object.keys(fields),
+    moved,
+  };
+
+  if (type === "event") {
+    await opsAudit.duplicatesMergeEvents(user.id, auditContext);
+
+    const { data: merged } = await serviceClient
+      .from("events")
+      .select("*")
+      .eq("id", survivorId)
+      .maybeSingle();
+    const requestContext = readEventAuditRequestContext(request);
+
+    void logEventAudit({
+      eventId: null,
+      eventSnapshot: snapshotFromEventRow(loserId, loser),
+      actorId: user.id,
+      actorRole: "admin",
+      action: "delete",
+      source: "admin_console",
+      prevEvent: loser,
+      summary: `Merged into ${String(survivor.title ?? survivorId).slice(0, 80)}`,
+      request: requestContext,
+    }).catch(() => {});
+
+    void logEventAudit({
+      eventId: survivorId,
+      eventSnapshot: snapshotFromEventRow(survivorId, (merged ?? survivor) as Record<string, unknown>),
+      actorId: user.id,
+      actorRole: "admin",
+      action: "update",
+      source: "admin_console",
+      prevEvent: survivor,
+      nextEvent: (merged ?? survivor) as Record<string, unknown>,
+      summary: `Absorbed duplicate ${String(loser.title ?? loserId).slice(0, 80)}`,
+      request: requestContext,
+    }).catch(() => {});
+  } else {
+    await opsAudit.duplicatesMergeVenues(user.id, auditContext);
+  }
+
+  return NextResponse.json({
+    success: true,
+    survivorId,
+    moved,
+  });
+}
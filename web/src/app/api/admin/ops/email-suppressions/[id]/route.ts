@@ -0,0 +1,61 @@
+/**
+ * Email Suppression API
+ *
+ * DELETE /api/admin/ops/email-suppressions/[id]
+ *
+ * Lift a suppression so the mailer sends to the address again (e.g. the
+ * mailbox was fixed). Delivery events are kept as history.
+ * Admin-only endpoint.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextResponse } from "next/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { opsAudit } from "@/lib/audit/opsAudit";
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Auth check
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  const serviceClient = createServiceRoleClient();
+  const { data, error } = await serviceClient
+    .from("email_suppressions")
+    .delete()
+    .eq("id", id)
+    .select("id, reason")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[email-suppressions] Delete failed:", error);
+    return NextResponse.json({ error: "Failed to remove suppression" }, { status: 500 });
+  }
+
+  if (!data) {
+    return NextResponse.json({ error: "Suppression not found" }, { status: 404 });
+  }
+
+  await opsAudit.emailSuppressionRemove(user.id, {
+    suppressionId: data.id,
+    reason: data.reason,
+  });
+
+  return NextResponse.json({ success: true });
+}
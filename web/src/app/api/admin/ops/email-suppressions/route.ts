@@ -0,0 +1,79 @@
+/**
+ * Email Suppressions API
+ *
+ * POST /api/admin/ops/email-suppressions
+ *
+ * Manually suppress an address (e.g. a recipient asked to stop all mail).
+ * Admin-only endpoint.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { normalizeEmailAddress } from "@/lib/email/suppression";
+import { opsAudit } from "@/lib/audit/opsAudit";
+
+const EMAIL_PATTERN = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+const MAX_DETAIL_LENGTH = 500;
+
+export async function POST(request: NextRequest) {
+  // Auth check
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { email?: unknown; detail?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const email = typeof body.email === "string" ? normalizeEmailAddress(body.email) : "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return NextResponse.json({ error: "Valid email required" }, { status: 400 });
+  }
+
+  const detail = typeof body.detail === "string" && body.detail.trim()
+    ? body.detail.trim().slice(0, MAX_DETAIL_LENGTH)
+    : null;
+
+  const serviceClient = createServiceRoleClient();
+  const { data, error } = await serviceClient
+    .from("email_suppressions")
+    .upsert(
+      {
+        email,
+        reason: "manual",
+        status_code: null,
+        detail,
+        last_event_at: new Date().toISOString(),
+      },
+      { onConflict: "email" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("[email-suppressions] Insert failed:", error);
+    return NextResponse.json({ error: "Failed to suppress address" }, { status: 500 });
+  }
+
+  await opsAudit.emailSuppressionAdd(user.id, {
+    suppressionId: data.id,
+    recipientDomain: email.split("@")[1],
+  });
+
+  return NextResponse.json({ success: true, id: data.id });
+}
@@ -1,9 +1,11 @@
 /**
- * Events CSV Import Apply API
+ * Events CSV / iCalendar Import Apply API
  *
  * POST /api/admin/ops/events/import-apply
  *
- * Parses CSV, validates, dedupes, and INSERTs valid non-duplicate rows.
+ * Parses CSV (or an .ics calendar), validates, dedupes, and INSERTs valid
+ * non-duplicate rows. iCalendar EXDATEs on repeating series are written as
+ * cancelled occurrence_overrides for the new event.
  * Returns list of inserted event IDs.
  *
  * Admin-only endpoint.
@@ -13,10 +15,15 @@ import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { NextRequest, NextResponse } from "next/server";
 import { checkAdminRole } from "@/lib/auth/adminAuth";
-import { parseImportCsv } from "@/lib/ops/eventImportParser";
+import {
+  parseImportCsv,
+  type ImportParseResult,
+} from "@/lib/ops/eventImportParser";
+import { parseImportIcs } from "@/lib/ops/eventIcsImportParser";
 import { validateImportRows } from "@/lib/ops/eventImportValidation";
 import {
   checkDuplicates,
+  resolveImportVenueNames,
   validateVenueIds,
 } from "@/lib/ops/eventImportDedupe";
 import { buildInsertPayloads } from "@/lib/ops/eventImportBuilder";
@@ -41,16 +48,24 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  // Parse request body
-  let csv: string;
+  // Parse request body: { csv } or { ics, default_event_type? }
+  let csv = "";
+  let ics: string | null = null;
+  let defaultEventType: string | undefined;
   try {
     const body = await request.json();
-    csv = body.csv;
-    if (!csv || typeof csv !== "string") {
-      return NextResponse.json(
-        { error: "Missing or invalid csv field in request body" },
-        { status: 400 }
-      );
+    if (typeof body.ics === "string" && body.ics) {
+      ics = body.ics;
+      defaultEventType =
+        typeof body.default_event_type === "string" ? body.default_event_type : undefined;
+    } else {
+      csv = body.csv;
+      if (!csv || typeof csv !== "string") {
+        return NextResponse.json(
+          { error: "Missing or invalid csv or ics field in request body" },
+          { status: 400 }
+        );
+      }
     }
   } catch {
     return NextResponse.json(
@@ -59,8 +74,11 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Step 1: Parse CSV
-  const parseResult = parseImportCsv(csv);
+  // Step 1: Parse CSV or iCalendar
+  const parseResult: ImportParseResult & { warnings?: string[] } =
+    ics !== null
+      ? parseImportIcs(ics, { defaultEventType })
+      : parseImportCsv(csv);
   if (!parseResult.success) {
     return NextResponse.json(
       {
@@ -72,6 +90,7 @@ export async function POST(request: NextRequest) {
           errors: 0,
         },
         parseErrors: parseResult.errors,
+        parseWarnings: parseResult.warnings ?? [],
         inserted: [],
         skipped: [],
         errors: [],
@@ -85,6 +104,11 @@ export async function POST(request: NextRequest) {
 
   // Step 3: Check for duplicates
   const serviceClient = createServiceRoleClient();
+  // iCalendar LOCATION is free text — resolve it like the interpreter does
+  const locationWarnings =
+    ics !== null
+      ? await resolveImportVenueNames(validationResult.validRows, serviceClient)
+      : [];
   const dedupeResult = await checkDuplicates(
     validationResult.validRows,
     serviceClient
@@ -120,6 +144,10 @@ export async function POST(request: NextRequest) {
     user.id
   );
 
+  const cancelledDatesByRow = new Map(
+    rowsToInsert.map((row) => [row.rowNumber, row.cancelled_dates ?? []])
+  );
+
   // Step 6: Execute inserts
   const inserted: Array<{ row: number; id: string; title: string }> = [];
   const insertErrors: Array<{ row: number; error: string }> = [];
@@ -142,6 +170,26 @@ export async function POST(request: NextRequest) {
         id: data.id,
         title: data.title,
       });
+
+      const cancelledDates = cancelledDatesByRow.get(rowNumber) ?? [];
+      if (cancelledDates.length > 0) {
+        const { error: overrideError } = await serviceClient
+          .from("occurrence_overrides")
+          .insert(
+            cancelledDates.map((dateKey) => ({
+              event_id: data.id,
+              date_key: dateKey,
+              status: "cancelled",
+              created_by: user.id,
+            }))
+          );
+        if (overrideError) {
+          insertErrors.push({
+            row: rowNumber,
+            error: `Event created but cancelled dates were not saved: ${overrideError.message}`,
+          });
+        }
+      }
     }
   }
 
@@ -153,6 +201,7 @@ export async function POST(request: NextRequest) {
     skippedValidationCount: invalidRowNumbers.size + invalidVenueRowNumbers.size,
     errorCount: insertErrors.length,
     insertedIds: inserted.map((i) => i.id),
+    format: ics !== null ? "ics" : "csv",
   });
 
   // Build skipped list for response
@@ -193,6 +242,7 @@ export async function POST(request: NextRequest) {
     inserted,
     skipped: skipped.sort((a, b) => a.row - b.row),
     errors: insertErrors,
-    venueWarnings: dedupeResult.venueWarnings,
+    venueWarnings: [...locationWarnings, ...dedupeResult.venueWarnings],
+    parseWarnings: parseResult.warnings ?? [],
   });
 }
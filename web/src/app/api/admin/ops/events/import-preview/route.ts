@@ -1,9 +1,10 @@
 /**
- * Events CSV Import Preview API
+ * Events CSV / iCalendar Import Preview API
  *
  * POST /api/admin/ops/events/import-preview
  *
- * Parses CSV, validates rows, checks for duplicates, and returns preview.
+ * Parses CSV (or an .ics calendar), validates rows, checks for duplicates,
+ * and returns preview.
  * READ-ONLY - does not modify the database.
  *
  * Admin-only endpoint.
@@ -13,10 +14,15 @@ import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { NextRequest, NextResponse } from "next/server";
 import { checkAdminRole } from "@/lib/auth/adminAuth";
-import { parseImportCsv } from "@/lib/ops/eventImportParser";
+import {
+  parseImportCsv,
+  type ImportParseResult,
+} from "@/lib/ops/eventImportParser";
+import { parseImportIcs } from "@/lib/ops/eventIcsImportParser";
 import { validateImportRows } from "@/lib/ops/eventImportValidation";
 import {
   checkDuplicates,
+  resolveImportVenueNames,
   validateVenueIds,
 } from "@/lib/ops/eventImportDedupe";
 
@@ -36,16 +42,24 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  // Parse request body
-  let csv: string;
+  // Parse request body: { csv } or { ics, default_event_type? }
+  let csv = "";
+  let ics: string | null = null;
+  let defaultEventType: string | undefined;
   try {
     const body = await request.json();
-    csv = body.csv;
-    if (!csv || typeof csv !== "string") {
-      return NextResponse.json(
-        { error: "Missing or invalid csv field in request body" },
-        { status: 400 }
-      );
+    if (typeof body.ics === "string" && body.ics) {
+      ics = body.ics;
+      defaultEventType =
+        typeof body.default_event_type === "string" ? body.default_event_type : undefined;
+    } else {
+      csv = body.csv;
+      if (!csv || typeof csv !== "string") {
+        return NextResponse.json(
+          { error: "Missing or invalid csv or ics field in request body" },
+          { status: 400 }
+        );
+      }
     }
   } catch {
     return NextResponse.json(
@@ -54,8 +68,11 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Step 1: Parse CSV
-  const parseResult = parseImportCsv(csv);
+  // Step 1: Parse CSV or iCalendar
+  const parseResult: ImportParseResult & { warnings?: string[] } =
+    ics !== null
+      ? parseImportIcs(ics, { defaultEventType })
+      : parseImportCsv(csv);
   if (!parseResult.success) {
     return NextResponse.json(
       {
@@ -67,6 +84,7 @@ export async function POST(request: NextRequest) {
           duplicates: 0,
         },
         parseErrors: parseResult.errors,
+        parseWarnings: parseResult.warnings ?? [],
         validRows: [],
         invalidRows: [],
         duplicates: [],
@@ -81,6 +99,11 @@ export async function POST(request: NextRequest) {
 
   // Step 3: Check for duplicates (using service client for read access)
   const serviceClient = createServiceRoleClient();
+  // iCalendar LOCATION is free text — resolve it like the interpreter does
+  const locationWarnings =
+    ics !== null
+      ? await resolveImportVenueNames(validationResult.validRows, serviceClient)
+      : [];
   const dedupeResult = await checkDuplicates(
     validationResult.validRows,
     serviceClient
@@ -138,12 +161,16 @@ export async function POST(request: NextRequest) {
       event_date: row.event_date,
       day_of_week: row.derived_day_of_week,
       recurrence_rule: row.recurrence_rule,
+      custom_dates: row.custom_dates ?? null,
+      max_occurrences: row.max_occurrences ?? null,
+      cancelled_dates: row.cancelled_dates ?? [],
       venue_id: dedupeResult.venueResolutions.get(row.rowNumber) ?? row.venue_id,
       venue_name: row.venue_name,
       pre_verified: row.pre_verified,
     })),
     invalidRows: validationResult.invalidRows,
     duplicates: dedupeResult.duplicates,
-    venueWarnings: dedupeResult.venueWarnings,
+    venueWarnings: [...locationWarnings, ...dedupeResult.venueWarnings],
+    parseWarnings: parseResult.warnings ?? [],
   });
 }
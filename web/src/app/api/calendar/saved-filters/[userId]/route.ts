@@ -0,0 +1,43 @@
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { calendarFeedResponse } from "@/lib/calendar/icalFeed";
+import { validateCalendarFeedToken } from "@/lib/calendar/feedToken";
+import {
+  loadSavedFiltersFeedSource,
+  renderCalendarFeed,
+  stripIcsSuffix,
+} from "@/lib/calendar/feedData";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/calendar/saved-filters/[userId]?sig=...
+ *
+ * Personal iCalendar feed of happenings matching a member's saved
+ * happenings filters. Calendar apps can't log in, so access is gated by
+ * the HMAC signature from lib/calendar/feedToken.ts. Signature is
+ * validated BEFORE the service-role client is created.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId: rawUserId } = await params;
+  const userId = stripIcsSuffix(rawUserId);
+  const sig = new URL(request.url).searchParams.get("sig");
+
+  if (!sig || !validateCalendarFeedToken(userId, sig)) {
+    return new Response("Invalid calendar link", { status: 403 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const source = await loadSavedFiltersFeedSource(supabase, userId);
+  if (!source) {
+    return new Response("Calendar not found", { status: 404 });
+  }
+
+  const ics = await renderCalendarFeed(supabase, source);
+  const response = calendarFeedResponse(ics, source.filename);
+  // Personal feed: keep it out of shared caches.
+  response.headers.set("Cache-Control", "private, max-age=900");
+  return response;
+}
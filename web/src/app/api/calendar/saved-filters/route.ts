@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { buildSavedFiltersFeedUrl } from "@/lib/calendar/feedToken";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/calendar/saved-filters
+ *
+ * Returns the signed webcal:// URL for the current user's saved-filter
+ * feed. The URL is personal — anyone holding it can read the (public)
+ * happenings it lists — so it is only handed to the signed-in owner.
+ */
+export async function GET() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser }, error: sessionUserError,
+  } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = buildSavedFiltersFeedUrl(sessionUser.id);
+  if (!url) {
+    return NextResponse.json({ error: "Calendar feeds are not configured" }, { status: 503 });
+  }
+
+  return NextResponse.json({ url });
+}
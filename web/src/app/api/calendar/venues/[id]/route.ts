@@ -0,0 +1,28 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { calendarFeedResponse } from "@/lib/calendar/icalFeed";
+import { loadVenueFeedSource, renderCalendarFeed, stripIcsSuffix } from "@/lib/calendar/feedData";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/calendar/venues/[id]
+ *
+ * Subscribable iCalendar feed for every public happening at a venue.
+ * Accepts a UUID or slug, with or without a trailing ".ics".
+ * Served as webcal:// from the UI.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createSupabaseServerClient();
+
+  const source = await loadVenueFeedSource(supabase, stripIcsSuffix(id));
+  if (!source) {
+    return new Response("Calendar not found", { status: 404 });
+  }
+
+  const ics = await renderCalendarFeed(supabase, source);
+  return calendarFeedResponse(ics, source.filename);
+}
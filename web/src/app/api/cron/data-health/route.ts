@@ -0,0 +1,53 @@
+/**
+ * Data Health Cron Handler
+ *
+ * Triggered by Vercel Cron daily. Runs every data health check and persists
+ * the run for /dashboard/admin/ops/data-health.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { runDataHealth } from "@/lib/ops/dataHealthServer";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/data-health
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[DataHealth] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[DataHealth] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { runId, counts } = await runDataHealth(supabase, { trigger: "cron" });
+
+    console.log(`[DataHealth] Run ${runId} complete`, counts);
+    return NextResponse.json({ success: true, runId, counts });
+  } catch (error) {
+    console.error("[DataHealth] Run failed:", error);
+    return NextResponse.json(
+      { error: "Data health run failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Email Outbox Cron Handler
+ *
+ * Triggered by Vercel Cron every 5 minutes. Delivers queued and retrying
+ * messages from email_outbox within the drain time budget; anything left
+ * waits for the next tick. See lib/email/outbox.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { drainOutbox, getDrainBudgetMs } from "@/lib/email/outbox";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/email-outbox
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const invocationStartedAt = Date.now();
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[EmailOutbox] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[EmailOutbox] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const result = await drainOutbox(supabase, { budgetMs: getDrainBudgetMs(invocationStartedAt) });
+
+    if (result.claimed > 0) {
+      console.log("[EmailOutbox] Drain complete", result);
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[EmailOutbox] Drain failed:", error);
+    return NextResponse.json(
+      { error: "Outbox drain failed" },
+      { status: 500 }
+    );
+  }
+}
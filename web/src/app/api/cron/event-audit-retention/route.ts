@@ -0,0 +1,63 @@
+/**
+ * Event Audit Retention Cron Handler (Lane 5 PR B)
+ *
+ * Triggered by Vercel Cron daily. Calls cleanup_event_audit_log(), which
+ * purges event_audit_log rows by actor_role only:
+ *   host / cohost / admin → kept indefinitely
+ *   service / import      → 365 days
+ *   anon / unknown        → 90 days
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/event-audit-retention
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[EventAuditRetention] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[EventAuditRetention] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { data: deleted, error } = await supabase.rpc("cleanup_event_audit_log");
+
+    if (error) {
+      console.error("[EventAuditRetention] Cleanup failed:", error);
+      return NextResponse.json(
+        { error: "Cleanup failed" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[EventAuditRetention] Purged ${deleted ?? 0} audit rows`);
+    return NextResponse.json({ success: true, deleted: deleted ?? 0 });
+  } catch (error) {
+    console.error("[EventAuditRetention] Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Event Reminders Cron Handler
+ *
+ * Triggered by Vercel Cron every 15 minutes. Emails RSVP'd attendees and
+ * slot claimants events.reminder_hours_before ahead of each occurrence, and
+ * sends hosts a day-of briefing HOST_BRIEFING_HOURS_BEFORE ahead.
+ *
+ * Sends are idempotent: event_reminder_sends has one row per occurrence,
+ * reminder type and recipient, written before the email goes out, so
+ * overlapping runs never double-send. Cancelled occurrences are skipped.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { runDueEventReminders } from "@/lib/events/eventRemindersServer";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/event-reminders
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[EventReminders] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[EventReminders] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const { occurrences, remindersSent, briefingsSent } = await runDueEventReminders(supabase);
+
+    console.log(
+      `[EventReminders] ${occurrences} due occurrences, sent ${remindersSent} reminders and ${briefingsSent} host briefings`
+    );
+    return NextResponse.json({ success: true, occurrences, remindersSent, briefingsSent });
+  } catch (error) {
+    console.error("[EventReminders] Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Lottery Draws Cron Handler
+ *
+ * Triggered by Vercel Cron every 15 minutes. Draws every lottery
+ * (signup_mode = "lottery") occurrence whose cutoff has passed, then expires
+ * lapsed slot offers so freed slots move down the draw order.
+ *
+ * Draws are idempotent: timeslot_lottery_draws has one row per occurrence
+ * and is written before any claims, so overlapping runs (or a page load
+ * that drew first) are skipped.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { runDueLotteryDraws } from "@/lib/events/lotteryServer";
+import { processExpiredLotteryOffers } from "@/lib/waitlistOffer";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/lottery-draws
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[LotteryDraws] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[LotteryDraws] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { checked, drawn } = await runDueLotteryDraws(supabase);
+
+    const { data: offered } = await supabase
+      .from("timeslot_lottery_entries")
+      .select("event_id")
+      .eq("status", "offered")
+      .lt("offer_expires_at", new Date().toISOString());
+
+    let expired = 0;
+    for (const eventId of new Set((offered || []).map((row) => row.event_id))) {
+      const { processed } = await processExpiredLotteryOffers(supabase, eventId);
+      expired += processed;
+    }
+
+    console.log(`[LotteryDraws] Checked ${checked} occurrences, drew ${drawn}, expired ${expired} offers`);
+    return NextResponse.json({ success: true, checked, drawn, expired });
+  } catch (error) {
+    console.error("[LotteryDraws] Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Reverification Cron Handler
+ *
+ * Triggered by Vercel Cron weekly (Tuesday morning Denver time). Expires
+ * unanswered reverification requests and emails hosts/venue managers of
+ * stale confirmed listings. See lib/reverification/server.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { runReverificationCampaign } from "@/lib/reverification/server";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/reverification
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[Reverification] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[Reverification] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const result = await runReverificationCampaign(supabase);
+
+    console.log("[Reverification] Run complete", result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Reverification] Run failed:", error);
+    return NextResponse.json(
+      { error: "Reverification run failed" },
+      { status: 500 }
+    );
+  }
+}
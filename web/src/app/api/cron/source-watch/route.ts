@@ -0,0 +1,63 @@
+/**
+ * Source Watch Cron Handler
+ *
+ * Triggered by Vercel Cron every 6 hours. Fetches the source pages of due
+ * watched events and records schedule changes — see lib/sourceWatch/server.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { getSourceWatchFetcher } from "@/lib/sourceWatch/fetchers";
+import { runSourceWatch } from "@/lib/sourceWatch/server";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/source-watch
+ *
+ * Protected by CRON_SECRET header.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[SourceWatch] CRON_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.warn("[SourceWatch] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const selection = getSourceWatchFetcher();
+  if ("error" in selection) {
+    console.error(`[SourceWatch] ${selection.error}`);
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const result = await runSourceWatch(supabase, { fetcher: selection.fetcher });
+
+    console.log("[SourceWatch] Run complete", result);
+    return NextResponse.json({ success: true, fetcher: selection.fetcher.name, ...result });
+  } catch (error) {
+    console.error("[SourceWatch] Run failed:", error);
+    return NextResponse.json(
+      { error: "Source watch run failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,28 @@
 /**
  * Weekly Happenings Cron Handler
  *
- * Triggered by Vercel Cron at both 20 22 * * 0 and 20 23 * * 0.
- * Route-level guard allows sending only during the Denver 4:20 PM window.
- * This keeps schedule fixed at 4:20 PM local time year-round without seasonal edits.
- * Sends weekly digest emails covering ALL event types to all opted-in users.
+ * Triggered by Vercel Cron hourly at 20 * * * *.
+ * Each region sends during its own local send window (regions.digest_send_hour,
+ * default 4:20 PM in the region's timezone), so the schedule never needs
+ * seasonal edits and regions in other timezones get their local afternoon.
+ *
+ * Despite the name, this sends every member's happenings digest edition:
+ * daily "tonight" emails, twice-weekly (Sunday/Thursday) and weekly on the
+ * member's chosen day (lib/digest/digestCadence.ts). Each recipient's
+ * edition covers their home region and is narrowed to their sections and
+ * max distance. The per-region send lives in lib/digest/happeningsEditions.ts.
  *
  * Control hierarchy (GTM-2):
  * 1. Env var kill switch OFF → skip (emergency override, highest priority)
  * 2. DB digest_settings toggle → primary control (admin panel)
- * 3. Idempotency guard → automatic duplicate prevention
+ * 3. Idempotency guard → automatic duplicate prevention, one lock per
+ *    recipient per region-local date (claimRecipientDigestLocks)
  *
- * GTM-3: Editorial resolution happens AFTER lock acquisition (Delta 1).
- * This prevents wasted DB queries for editorial references on retries
- * where the lock was already claimed by a previous invocation.
+ * GTM-3: Editorial resolution happens AFTER lock acquisition (Delta 1),
+ * inside sendRegionHappeningsEditions().
  *
- * Flow: kill switch → auth → DB toggle → fetch happenings/recipients →
- *       claim lock → (if locked: skip) → resolve editorial → send emails
+ * Flow: kill switch → auth → DB toggle → regions in their send window →
+ *       fetch recipients → per region: editions → locks → editorial → send
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -25,59 +31,33 @@ import {
   isDigestPersonalizationEnabled,
   isWeeklyHappeningsDigestEnabled,
 } from "@/lib/featureFlags";
-import {
-  getUpcomingHappenings,
-  getDigestRecipients,
-  personalizeDigestRecipients,
-} from "@/lib/digest/weeklyHappenings";
-import { getWeeklyHappeningsDigestEmail } from "@/lib/email/templates/weeklyHappeningsDigest";
-import { claimDigestSendLock, computeWeekKey } from "@/lib/digest/digestSendLog";
+import { getDigestRecipients } from "@/lib/digest/weeklyHappenings";
 import { isDigestEnabled } from "@/lib/digest/digestSettings";
-import { sendDigestEmails } from "@/lib/digest/sendDigest";
 import {
-  getEditorial,
-  resolveEditorial,
-  type ResolvedEditorial,
-} from "@/lib/digest/digestEditorial";
+  groupRecipientsByRegion,
+  sendRegionHappeningsEditions,
+  summarizeRegionResults,
+  type RegionEditionsResult,
+} from "@/lib/digest/happeningsEditions";
+import {
+  FALLBACK_REGION,
+  getRegionLocalTime,
+  isInRegionDigestWindow,
+} from "@/lib/regions/regions";
+import { getActiveRegions } from "@/lib/regions/regionsServer";
 
 export const dynamic = "force-dynamic";
-export const maxDuration = 60; // Allow up to 60 seconds for sending all emails
-
-function getDenverLocalTime(now: Date = new Date()): {
-  hour24: number;
-  minute: number;
-  label: string;
-} {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/Denver",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(now);
-
-  const hour24 = Number(parts.find((part) => part.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
-  const label = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/Denver",
-    weekday: "long",
-    month: "long",
-    day: "numeric",
-    year: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-    hour12: true,
-  }).format(now);
-
-  return { hour24, minute, label };
-}
+export const maxDuration = 60; // Sends what fits; the email-outbox cron delivers the rest
 
 /**
  * GET /api/cron/weekly-happenings
  *
- * Cron endpoint for sending weekly happenings digest.
+ * Cron endpoint for sending happenings digest editions.
  * Protected by CRON_SECRET header.
  */
 export async function GET(request: NextRequest) {
+  const invocationStartedAt = Date.now();
+
   // ============================================================
   // Kill Switch Check (emergency override — env var)
   // ============================================================
@@ -111,28 +91,6 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // ============================================================
-  // Local Time Guard — only send during 4:20 PM Denver window
-  // ============================================================
-  const denverTime = getDenverLocalTime();
-  const inSendWindow =
-    denverTime.hour24 === 16 && denverTime.minute >= 20 && denverTime.minute < 30;
-  if (!inSendWindow) {
-    console.log(
-      `[WeeklyHappenings] Time guard skip at ${denverTime.label} Denver (expected 4:20 PM window)`
-    );
-    return NextResponse.json(
-      {
-        success: true,
-        skipped: true,
-        message: "Outside 4:20 PM Denver send window",
-        denverTime: denverTime.label,
-        sent: 0,
-      },
-      { status: 200 }
-    );
-  }
-
   // ============================================================
   // Main Logic
   // ============================================================
@@ -152,17 +110,31 @@ export async function GET(request: NextRequest) {
     }
 
     // ============================================================
-    // Idempotency Guard — prevent duplicate sends
+    // Local Time Guard — only send regions inside their digest window
     // ============================================================
-    const weekKey = computeWeekKey();
-    console.log(`[WeeklyHappenings] Week key: ${weekKey}`);
+    const now = new Date();
+    const activeRegions = await getActiveRegions(supabase);
+    const regions = activeRegions.length > 0 ? activeRegions : [FALLBACK_REGION];
+    const dueRegions = regions.filter((region) => isInRegionDigestWindow(region, now));
 
-    // Fetch happenings for the week (all event types)
-    console.log("[WeeklyHappenings] Fetching upcoming happenings...");
-    const digestData = await getUpcomingHappenings(supabase);
-    console.log(`[WeeklyHappenings] Found ${digestData.totalCount} happenings across ${digestData.venueCount} venues`);
+    if (dueRegions.length === 0) {
+      console.log("[WeeklyHappenings] Time guard skip — no region is in its send window");
+      return NextResponse.json(
+        {
+          success: true,
+          skipped: true,
+          message: "Outside every region's digest send window",
+          regionTimes: regions.map((region) => ({
+            region: region.slug,
+            localTime: getRegionLocalTime(region, now).label,
+          })),
+          sent: 0,
+        },
+        { status: 200 }
+      );
+    }
 
-    // Fetch recipients
+    // Fetch recipients once; each region sends to its own members
     console.log("[WeeklyHappenings] Fetching recipients...");
     const recipients = await getDigestRecipients(supabase);
     console.log(`[WeeklyHappenings] Found ${recipients.length} eligible recipients`);
@@ -174,112 +146,47 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const recipientsByRegion = groupRecipientsByRegion(recipients, regions);
     const personalizationEnabled = isDigestPersonalizationEnabled();
-    const personalized = await personalizeDigestRecipients(
-      supabase,
-      recipients,
-      digestData,
-      {
-        enabled: personalizationEnabled,
-        logPrefix: "[WeeklyHappenings]",
-      }
-    );
-    const recipientsToSend = personalized.recipients;
-
-    if (personalizationEnabled) {
-      console.log(
-        `[WeeklyHappenings] Personalization enabled: ${personalized.personalizedCount} personalized, ${personalized.skippedCount} skipped`
-      );
-    }
-
-    if (recipientsToSend.length === 0) {
-      return NextResponse.json(
-        {
-          success: true,
-          message: "No recipients after personalization filters",
-          sent: 0,
-          skippedByFilters: personalized.skippedCount,
-        },
-        { status: 200 }
-      );
-    }
+    const results: RegionEditionsResult[] = [];
 
-    // Attempt to claim idempotency lock before sending
-    const lock = await claimDigestSendLock(
-      supabase,
-      "weekly_happenings",
-      recipientsToSend.length,
-      weekKey
-    );
+    for (const region of dueRegions) {
+      const result = await sendRegionHappeningsEditions(supabase, {
+        region,
+        recipients: recipientsByRegion.get(region.id) ?? [],
+        personalizationEnabled,
+        now,
+        logPrefix: "[WeeklyHappenings]",
+        invocationStartedAt,
+      });
+      results.push(result);
 
-    if (!lock.acquired) {
-      if (lock.reason === "lock_error") {
-        console.error(`[WeeklyHappenings] Idempotency lock error for ${weekKey}; skipping send to prevent duplicates`);
+      if (result.status === "lock_error") {
+        console.error(
+          `[WeeklyHappenings] Idempotency lock error for ${region.slug}/${result.dateKey}; skipping send to prevent duplicates`
+        );
         return NextResponse.json(
-          { error: "Idempotency lock error", skipped: true, reason: "lock_error", weekKey },
+          { error: "Idempotency lock error", skipped: true, reason: "lock_error", dateKey: result.dateKey, regions: results },
           { status: 500 }
         );
       }
-      console.log(`[WeeklyHappenings] Already sent for ${weekKey} — skipping`);
+    }
+
+    const summary = summarizeRegionResults(results);
+    if (results.every((result) => result.status === "already_sent")) {
       return NextResponse.json(
-        { success: true, message: `Already sent for ${weekKey}`, sent: 0, skipped: true, reason: "already_sent" },
+        { success: true, message: "Already sent today's editions", skipped: true, reason: "already_sent", regions: results },
         { status: 200 }
       );
     }
 
-    // ============================================================
-    // GTM-3: Resolve editorial AFTER lock (Delta 1)
-    // Editorial resolution involves extra DB queries (events, profiles,
-    // venues, blog posts, gallery albums). Only do this work if we
-    // actually acquired the lock — prevents wasted queries on retries.
-    // ============================================================
-    let resolvedEditorial: ResolvedEditorial | undefined;
-    try {
-      const editorial = await getEditorial(supabase, weekKey, "weekly_happenings");
-      if (editorial) {
-        console.log(`[WeeklyHappenings] Found editorial for ${weekKey}, resolving references...`);
-        resolvedEditorial = await resolveEditorial(supabase, editorial);
-        console.log("[WeeklyHappenings] Editorial resolved successfully");
-      } else {
-        console.log(`[WeeklyHappenings] No editorial for ${weekKey} — sending without editorial`);
-      }
-    } catch (editorialError) {
-      // Editorial failure is non-fatal — send digest without editorial
-      console.warn("[WeeklyHappenings] Editorial resolution failed, sending without editorial:", editorialError);
-    }
-
-    // Send emails to all recipients using shared send function
-    const result = await sendDigestEmails({
-      mode: "full",
-      recipients: recipientsToSend,
-      buildEmail: (recipient) => {
-        const recipientDigestData =
-          personalized.digestByUserId.get(recipient.userId) || digestData;
-
-        return getWeeklyHappeningsDigestEmail({
-          firstName: recipient.firstName,
-          userId: recipient.userId,
-          byDate: recipientDigestData.byDate,
-          totalCount: recipientDigestData.totalCount,
-          venueCount: recipientDigestData.venueCount,
-          editorial: resolvedEditorial,
-        });
-      },
-      templateName: "weeklyHappeningsDigest",
-      logPrefix: "[WeeklyHappenings]",
-    });
-
     return NextResponse.json(
       {
         success: true,
-        message: "Weekly happenings digest sent",
-        sent: result.sent,
-        failed: result.failed,
-        totalHappenings: digestData.totalCount,
-        totalVenues: digestData.venueCount,
+        message: "Happenings digest editions sent",
+        ...summary,
         personalizationEnabled,
-        personalizedRecipients: personalized.personalizedCount,
-        skippedByFilters: personalized.skippedCount,
+        regions: results,
       },
       { status: 200 }
     );
@@ -1,29 +1,25 @@
 /**
  * Weekly Open Mics Cron Handler
  *
- * Triggered by Vercel Cron at 0 3 * * 0 (Sunday 3:00 AM UTC = 8:00 PM Denver MST)
- * Sends personalized weekly digest emails to all opted-in users.
+ * Triggered by Vercel Cron daily at 0 3 * * * (3:00 AM UTC = 8:00 PM Denver
+ * MST the evening before). Sends the open mics roundup to weekly members
+ * whose digest_day is that Denver date, limited to their max distance.
  *
  * Control hierarchy (GTM-2):
  * 1. Env var kill switch OFF → skip (emergency override, highest priority)
  * 2. DB digest_settings toggle → primary control (admin panel)
- * 3. Idempotency guard → automatic duplicate prevention
+ * 3. Idempotency guard → per-recipient locks (lib/digest/openMicsEditions.ts)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { isWeeklyDigestEnabled } from "@/lib/featureFlags";
-import {
-  getUpcomingOpenMics,
-  getDigestRecipients,
-} from "@/lib/digest/weeklyOpenMics";
-import { getWeeklyOpenMicsDigestEmail } from "@/lib/email/templates/weeklyOpenMicsDigest";
-import { claimDigestSendLock, computeWeekKey } from "@/lib/digest/digestSendLog";
+import { getDigestRecipients } from "@/lib/digest/weeklyOpenMics";
+import { sendOpenMicsEditions } from "@/lib/digest/openMicsEditions";
 import { isDigestEnabled } from "@/lib/digest/digestSettings";
-import { sendDigestEmails } from "@/lib/digest/sendDigest";
 
 export const dynamic = "force-dynamic";
-export const maxDuration = 60; // Allow up to 60 seconds for sending all emails
+export const maxDuration = 60; // Sends what fits; the email-outbox cron delivers the rest
 
 /**
  * GET /api/cron/weekly-open-mics
@@ -32,6 +28,8 @@ export const maxDuration = 60; // Allow up to 60 seconds for sending all emails
  * Protected by CRON_SECRET header.
  */
 export async function GET(request: NextRequest) {
+  const invocationStartedAt = Date.now();
+
   // ============================================================
   // Kill Switch Check (emergency override — env var)
   // ============================================================
@@ -83,17 +81,6 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // ============================================================
-    // Idempotency Guard — prevent duplicate sends
-    // ============================================================
-    const weekKey = computeWeekKey();
-    console.log(`[WeeklyOpenMics] Week key: ${weekKey}`);
-
-    // Fetch open mics for the week
-    console.log("[WeeklyOpenMics] Fetching upcoming open mics...");
-    const digestData = await getUpcomingOpenMics(supabase);
-    console.log(`[WeeklyOpenMics] Found ${digestData.totalCount} open mics across ${digestData.venueCount} venues`);
-
     // Fetch recipients
     console.log("[WeeklyOpenMics] Fetching recipients...");
     const recipients = await getDigestRecipients(supabase);
@@ -106,53 +93,41 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Attempt to claim idempotency lock before sending
-    const lock = await claimDigestSendLock(
-      supabase,
-      "weekly_open_mics",
-      recipients.length,
-      weekKey
-    );
+    const result = await sendOpenMicsEditions(supabase, {
+      recipients,
+      logPrefix: "[WeeklyOpenMics]",
+      invocationStartedAt,
+    });
 
-    if (!lock.acquired) {
-      if (lock.reason === "lock_error") {
-        console.error(`[WeeklyOpenMics] Idempotency lock error for ${weekKey}; skipping send to prevent duplicates`);
-        return NextResponse.json(
-          { error: "Idempotency lock error", skipped: true, reason: "lock_error", weekKey },
-          { status: 500 }
-        );
-      }
-      console.log(`[WeeklyOpenMics] Already sent for ${weekKey} — skipping`);
+    if (result.status === "lock_error") {
+      console.error(
+        `[WeeklyOpenMics] Idempotency lock error for ${result.dateKey}; skipping send to prevent duplicates`
+      );
       return NextResponse.json(
-        { success: true, message: `Already sent for ${weekKey}`, sent: 0, skipped: true, reason: "already_sent" },
-        { status: 200 }
+        { error: "Idempotency lock error", skipped: true, reason: "lock_error", dateKey: result.dateKey },
+        { status: 500 }
       );
     }
 
-    // Send emails to all recipients using shared send function
-    const result = await sendDigestEmails({
-      mode: "full",
-      recipients,
-      buildEmail: (recipient) =>
-        getWeeklyOpenMicsDigestEmail({
-          firstName: recipient.firstName,
-          userId: recipient.userId,
-          byDate: digestData.byDate,
-          totalCount: digestData.totalCount,
-          venueCount: digestData.venueCount,
-        }),
-      templateName: "weeklyOpenMicsDigest",
-      logPrefix: "[WeeklyOpenMics]",
-    });
+    if (result.status === "already_sent") {
+      return NextResponse.json(
+        {
+          success: true,
+          message: `Already sent for ${result.dateKey}`,
+          sent: 0,
+          skipped: true,
+          reason: "already_sent",
+          dateKey: result.dateKey,
+        },
+        { status: 200 }
+      );
+    }
 
     return NextResponse.json(
       {
         success: true,
-        message: "Weekly digest sent",
-        sent: result.sent,
-        failed: result.failed,
-        totalOpenMics: digestData.totalCount,
-        totalVenues: digestData.venueCount,
+        message: result.status === "sent" ? "Open mics roundup sent" : "No roundups due today",
+        ...result,
       },
       { status: 200 }
     );
@@ -2,9 +2,11 @@
  * One-Click Digest Unsubscribe Endpoint
  *
  * GET /api/digest/unsubscribe?uid={userId}&sig={hmacSignature}
+ * POST (same URL) — RFC 8058 one-click from the List-Unsubscribe header
  *
- * Validates HMAC-signed token, sets email_event_updates=false,
- * then redirects to confirmation page. No login required.
+ * Validates HMAC-signed token, sets email_digests=false,
+ * then redirects to confirmation page (GET) or returns 200 (POST).
+ * No login required.
  *
  * Idempotent: calling multiple times has the same effect.
  *
@@ -20,6 +22,33 @@ const SITE_URL =
   process.env.NEXT_PUBLIC_SITE_URL ||
   "https://coloradosongwriterscollective.org";
 
+/**
+ * Turn off digest emails for a user. Returns false on DB error.
+ */
+async function disableDigests(uid: string): Promise<boolean> {
+  // Set email_digests=false via service role (bypasses RLS)
+  const supabase = createServiceRoleClient();
+
+  // Upsert notification_preferences to disable digest emails
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      {
+        user_id: uid,
+        email_digests: false,
+      },
+      { onConflict: "user_id" }
+    );
+
+  if (error) {
+    console.error("[Unsubscribe] DB error:", error);
+    return false;
+  }
+
+  console.log(`[Unsubscribe] Successfully unsubscribed uid=${uid}`);
+  return true;
+}
+
 export async function GET(request: NextRequest) {
   const uid = request.nextUrl.searchParams.get("uid");
   const sig = request.nextUrl.searchParams.get("sig");
@@ -40,30 +69,13 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Set email_digests=false via service role (bypasses RLS)
   try {
-    const supabase = createServiceRoleClient();
-
-    // Upsert notification_preferences to disable digest emails
-    const { error } = await supabase
-      .from("notification_preferences")
-      .upsert(
-        {
-          user_id: uid,
-          email_digests: false,
-        },
-        { onConflict: "user_id" }
-      );
-
-    if (error) {
-      console.error("[Unsubscribe] DB error:", error);
+    if (!(await disableDigests(uid))) {
       return NextResponse.redirect(
         `${SITE_URL}/digest/unsubscribed?error=failed`
       );
     }
 
-    console.log(`[Unsubscribe] Successfully unsubscribed uid=${uid}`);
-
     return NextResponse.redirect(`${SITE_URL}/digest/unsubscribed?success=1`);
   } catch (error) {
     console.error("[Unsubscribe] Unexpected error:", error);
@@ -72,3 +84,28 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * RFC 8058 one-click unsubscribe. Mail clients POST
+ * "List-Unsubscribe=One-Click" to the header URL; the signed query string
+ * is the credential, so the body isn't needed.
+ */
+export async function POST(request: NextRequest) {
+  const uid = request.nextUrl.searchParams.get("uid");
+  const sig = request.nextUrl.searchParams.get("sig");
+
+  if (!uid || !sig || !validateUnsubscribeToken(uid, sig)) {
+    console.warn("[Unsubscribe] Invalid one-click request");
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+
+  try {
+    if (!(await disableDigests(uid))) {
+      return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Unsubscribe] Unexpected error:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Inbound Bounce / Complaint Webhook
+ *
+ * POST /api/email/bounces
+ *
+ * The bounce mailbox forwarder posts each raw report (RFC 3464 DSN or
+ * RFC 5965 ARF complaint) as the request body. Parsed recipients are logged
+ * and, per lib/email/suppression.ts, suppressed so the mailer stops sending
+ * to them.
+ *
+ * Protected by EMAIL_WEBHOOK_SECRET bearer header.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { parseDeliveryReport } from "@/lib/email/bounces";
+import { recordDeliveryEvents } from "@/lib/email/suppression";
+
+export const dynamic = "force-dynamic";
+
+/** Reports are small; anything bigger is not a bounce */
+const MAX_REPORT_BYTES = 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const webhookSecret = process.env.EMAIL_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    console.error("[EmailBounces] EMAIL_WEBHOOK_SECRET not configured");
+    return NextResponse.json(
+      { error: "Server misconfigured" },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${webhookSecret}`) {
+    console.warn("[EmailBounces] Unauthorized request");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const raw = await request.text();
+  if (raw.length > MAX_REPORT_BYTES) {
+    return NextResponse.json(
+      { error: "Report too large" },
+      { status: 413 }
+    );
+  }
+
+  const events = parseDeliveryReport(raw);
+  if (events.length === 0) {
+    // Auto-replies and other mail land in the same mailbox — not an error
+    console.log("[EmailBounces] No bounce or complaint recipients found");
+    return NextResponse.json({ success: true, recorded: 0, suppressed: 0 });
+  }
+
+  try {
+    const supabase = createServiceRoleClient();
+    const result = await recordDeliveryEvents(supabase, events);
+
+    console.log("[EmailBounces] Processed report", {
+      kinds: events.map((event) => event.kind),
+      ...result,
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[EmailBounces] Processing failed:", error);
+    return NextResponse.json(
+      { error: "Failed to process report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * One-Click Email Category Unsubscribe Endpoint
+ *
+ * GET /api/email/unsubscribe?uid={userId}&category={category}&sig={hmacSignature}
+ * POST (same URL) — RFC 8058 one-click from the List-Unsubscribe header
+ *
+ * The List-Unsubscribe target for non-essential mail sent through
+ * sendEmailWithPreferences. Validates the HMAC-signed token, turns off that
+ * one preference category, then redirects to the confirmation page (GET)
+ * or returns 200 (POST). No login required.
+ *
+ * Idempotent: calling multiple times has the same effect.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { validateCategoryUnsubscribeToken } from "@/lib/digest/unsubscribeToken";
+import { isEmailCategory, type EmailCategory } from "@/lib/notifications/preferences";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+
+const SITE_URL =
+  process.env.PUBLIC_SITE_URL ||
+  process.env.NEXT_PUBLIC_SITE_URL ||
+  "https://coloradosongwriterscollective.org";
+
+/**
+ * Validated (uid, category) from the signed query string, or null
+ */
+function readSignedParams(request: NextRequest): { uid: string; category: EmailCategory } | null {
+  const uid = request.nextUrl.searchParams.get("uid");
+  const category = request.nextUrl.searchParams.get("category");
+  const sig = request.nextUrl.searchParams.get("sig");
+
+  if (!uid || !sig || !isEmailCategory(category)) return null;
+  if (!validateCategoryUnsubscribeToken(uid, category, sig)) return null;
+  return { uid, category };
+}
+
+/**
+ * Turn off one email category for a user. Returns false on DB error.
+ */
+async function disableCategory(uid: string, category: EmailCategory): Promise<boolean> {
+  // Service role (bypasses RLS) — the signed link stands in for a session
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert(
+      {
+        user_id: uid,
+        [`email_${category}`]: false,
+      },
+      { onConflict: "user_id" }
+    );
+
+  if (error) {
+    console.error("[EmailUnsubscribe] DB error:", error);
+    return false;
+  }
+
+  console.log(`[EmailUnsubscribe] Disabled ${category} for uid=${uid}`);
+  return true;
+}
+
+export async function GET(request: NextRequest) {
+  const params = readSignedParams(request);
+  if (!params) {
+    console.warn("[EmailUnsubscribe] Missing or invalid params");
+    return NextResponse.redirect(
+      `${SITE_URL}/digest/unsubscribed?error=invalid`
+    );
+  }
+
+  try {
+    if (!(await disableCategory(params.uid, params.category))) {
+      return NextResponse.redirect(
+        `${SITE_URL}/digest/unsubscribed?error=failed`
+      );
+    }
+
+    return NextResponse.redirect(
+      `${SITE_URL}/digest/unsubscribed?success=1&category=${encodeURIComponent(params.category)}`
+    );
+  } catch (error) {
+    console.error("[EmailUnsubscribe] Unexpected error:", error);
+    return NextResponse.redirect(
+      `${SITE_URL}/digest/unsubscribed?error=failed`
+    );
+  }
+}
+
+/**
+ * RFC 8058 one-click unsubscribe. Mail clients POST
+ * "List-Unsubscribe=One-Click" to the header URL; the signed query string
+ * is the credential, so the body isn't needed.
+ */
+export async function POST(request: NextRequest) {
+  const params = readSignedParams(request);
+  if (!params) {
+    console.warn("[EmailUnsubscribe] Invalid one-click request");
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+
+  try {
+    if (!(await disableCategory(params.uid, params.category))) {
+      return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[EmailUnsubscribe] Unexpected error:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
@@ -0,0 +1,215 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import {
+  dateKeyErrorResponse,
+  resolveEffectiveDateKey,
+  validateDateKeyForWrite,
+} from "@/lib/events/dateKeyContract";
+import { isLotteryOpen, LOTTERY_SIGNUP_MODE } from "@/lib/events/lottery";
+import {
+  getEventLotteryCutoff,
+  getLotteryStatus,
+  LOTTERY_EVENT_COLUMNS,
+  runLotteryDrawIfDue,
+  withdrawLotteryEntry,
+  type LotteryEvent,
+} from "@/lib/events/lotteryServer";
+import { confirmLotteryOffer, processExpiredLotteryOffers } from "@/lib/waitlistOffer";
+
+/**
+ * Lottery (hat draw) signups for one occurrence.
+ *
+ * The event is read with the caller's session so RLS decides visibility;
+ * entry and draw rows are read and written with the service role because
+ * those tables have no write policies. Every write is scoped to the session
+ * user's own entry.
+ */
+
+async function loadLotteryEvent(
+  eventId: string
+): Promise<{ event: (LotteryEvent & { is_published: boolean | null; status: string }) | null; userId: string | null }> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data: event } = await supabase
+    .from("events")
+    .select(`${LOTTERY_EVENT_COLUMNS}, is_published, status`)
+    .eq("id", eventId)
+    .maybeSingle();
+
+  return {
+    event: event as (LotteryEvent & { is_published: boolean | null; status: string }) | null,
+    userId: user?.id ?? null,
+  };
+}
+
+// GET - Lottery status (cutoff, pool size, my entry, published draw)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const { event, userId } = await loadLotteryEvent(eventId);
+
+  if (!event || event.signup_mode !== LOTTERY_SIGNUP_MODE) {
+    return NextResponse.json({ error: "Lottery not found" }, { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const dateKeyResult = await resolveEffectiveDateKey(eventId, url.searchParams.get("date_key"));
+  if (!dateKeyResult.success) {
+    return dateKeyErrorResponse(dateKeyResult.error);
+  }
+  const { effectiveDateKey } = dateKeyResult;
+
+  const serviceClient = createServiceRoleClient();
+
+  // Opportunistic: draw if the cutoff passed before the cron ran, and
+  // pass along any lapsed slot offers
+  await runLotteryDrawIfDue(serviceClient, event, effectiveDateKey);
+  await processExpiredLotteryOffers(serviceClient, eventId, effectiveDateKey);
+
+  const status = await getLotteryStatus(serviceClient, event, effectiveDateKey, userId);
+  return NextResponse.json({ ...status, effective_date_key: effectiveDateKey });
+}
+
+// POST - Enter the draw (members only, before the cutoff)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const { event, userId } = await loadLotteryEvent(eventId);
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!event || event.signup_mode !== LOTTERY_SIGNUP_MODE) {
+    return NextResponse.json({ error: "Lottery not found" }, { status: 404 });
+  }
+
+  if (!event.is_published || event.status !== "active") {
+    return NextResponse.json({ error: "This event is not accepting signups" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const dateKeyResult = await validateDateKeyForWrite(eventId, body.date_key || null);
+  if (!dateKeyResult.success) {
+    return dateKeyErrorResponse(dateKeyResult.error);
+  }
+  const { effectiveDateKey } = dateKeyResult;
+
+  const cutoff = getEventLotteryCutoff(event, effectiveDateKey);
+  if (!isLotteryOpen(cutoff, new Date())) {
+    return NextResponse.json({ error: "Entries for this draw are closed" }, { status: 409 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+
+  const { data: draw } = await serviceClient
+    .from("timeslot_lottery_draws")
+    .select("id")
+    .eq("event_id", eventId)
+    .eq("date_key", effectiveDateKey)
+    .maybeSingle();
+  if (draw) {
+    return NextResponse.json({ error: "Entries for this draw are closed" }, { status: 409 });
+  }
+
+  // Re-entering after withdrawing reuses the row (one entry per member)
+  const { error: entryError } = await serviceClient
+    .from("timeslot_lottery_entries")
+    .upsert(
+      {
+        event_id: eventId,
+        date_key: effectiveDateKey,
+        member_id: userId,
+        status: "entered",
+        waitlist_position: null,
+        claim_id: null,
+        offer_expires_at: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "event_id,date_key,member_id" }
+    );
+
+  if (entryError) {
+    console.error("Lottery entry failed:", eventId, entryError);
+    return NextResponse.json({ error: "Unable to enter the draw" }, { status: 500 });
+  }
+
+  const status = await getLotteryStatus(serviceClient, event, effectiveDateKey, userId);
+  return NextResponse.json({ ...status, effective_date_key: effectiveDateKey });
+}
+
+// PATCH - Accept an offered slot after a dropout
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const { event, userId } = await loadLotteryEvent(eventId);
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!event || event.signup_mode !== LOTTERY_SIGNUP_MODE) {
+    return NextResponse.json({ error: "Lottery not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body.action !== "accept") {
+    return NextResponse.json({ error: "Unsupported action" }, { status: 400 });
+  }
+
+  const dateKeyResult = await validateDateKeyForWrite(eventId, body.date_key || null);
+  if (!dateKeyResult.success) {
+    return dateKeyErrorResponse(dateKeyResult.error);
+  }
+  const { effectiveDateKey } = dateKeyResult;
+
+  const serviceClient = createServiceRoleClient();
+  const result = await confirmLotteryOffer(serviceClient, eventId, userId, effectiveDateKey);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const status = await getLotteryStatus(serviceClient, event, effectiveDateKey, userId);
+  return NextResponse.json({ ...status, effective_date_key: effectiveDateKey });
+}
+
+// DELETE - Withdraw (before the draw) or drop out (after winning)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const { event, userId } = await loadLotteryEvent(eventId);
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!event || event.signup_mode !== LOTTERY_SIGNUP_MODE) {
+    return NextResponse.json({ error: "Lottery not found" }, { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const dateKeyResult = await resolveEffectiveDateKey(eventId, url.searchParams.get("date_key"));
+  if (!dateKeyResult.success) {
+    return dateKeyErrorResponse(dateKeyResult.error);
+  }
+  const { effectiveDateKey } = dateKeyResult;
+
+  const serviceClient = createServiceRoleClient();
+  const result = await withdrawLotteryEntry(serviceClient, eventId, effectiveDateKey, userId);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const status = await getLotteryStatus(serviceClient, event, effectiveDateKey, userId);
+  return NextResponse.json({ ...status, effective_date_key: effectiveDateKey });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { clientIpFromHeaders, isLikelyBot, recordEventView } from "@/lib/events/eventViews";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/events/[id]/view
+ * Page-view beacon for host analytics (sent by EventViewBeacon).
+ *
+ * Anonymous. Always answers 204, malformed bodies included, so the
+ * endpoint can't be used to probe which event IDs exist; views are only
+ * stored for published events, once per viewer per day (recordEventView).
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const noContent = new NextResponse(null, { status: 204 });
+
+  const userAgent = request.headers.get("user-agent");
+  if (!UUID_RE.test(eventId) || isLikelyBot(userAgent)) {
+    return noContent;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return noContent;
+  }
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+
+  const dateKey = typeof b.date_key === "string" && DATE_KEY_RE.test(b.date_key) ? b.date_key : null;
+  const search = typeof b.search === "string" ? b.search.slice(0, 2048) : "";
+  const referrer = typeof b.referrer === "string" ? b.referrer.slice(0, 2048) : null;
+
+  const serviceClient = createServiceRoleClient();
+  const { data: event } = await serviceClient
+    .from("events")
+    .select("id")
+    .eq("id", eventId)
+    .eq("is_published", true)
+    .maybeSingle();
+
+  if (event) {
+    await recordEventView({
+      eventId: event.id,
+      dateKey,
+      surface: "page",
+      searchParams: new URLSearchParams(search),
+      referer: referrer,
+      userAgent,
+      clientIp: clientIpFromHeaders(request.headers),
+    });
+  }
+
+  return noContent;
+}
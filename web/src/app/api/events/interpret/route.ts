@@ -30,6 +30,7 @@ import {
   projectCurrentEventForPrompt,
   type OrderedImageReference,
 } from "@/lib/events/aiPromptContract";
+import { buildInterpretSystemPrompt } from "@/lib/events/interpretSystemPrompt";
 import {
   buildVenueSearchCandidates,
   resolveVenue,
@@ -68,11 +69,16 @@ import {
   pruneSatisfiedBlockingFields,
   shouldSuppressDraftVerifierIssue,
 } from "@/lib/events/interpreterPostprocess";
+import { getInterpreterLlmProvider } from "@/lib/events/llm/interpreterLlm";
+import type {
+  LlmProvider,
+  LlmReasoningEffort,
+  LlmWebSearchOptions,
+} from "@/lib/events/llm/llmProvider";
 
 /** Vercel serverless function timeout — vision, drafting, search, and verifier calls need headroom. */
 export const maxDuration = 120;
 
-const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
 const DEFAULT_INTERPRETER_MODEL = "gpt-5.4-nano";
 const DEFAULT_VISION_EXTRACTION_MODEL = "gpt-4.1-mini";
 const DEFAULT_DRAFT_VERIFIER_MODEL = "gpt-5.4-nano";
@@ -186,28 +192,6 @@ function parseJsonObject(value: unknown): Record<string, unknown> | null {
   return value as Record<string, unknown>;
 }
 
-function extractResponseText(data: Record<string, unknown>): string | null {
-  if (typeof data.output_text === "string" && data.output_text.trim().length > 0) {
-    return data.output_text;
-  }
-
-  const output = Array.isArray(data.output) ? data.output : [];
-  for (const chunk of output) {
-    const chunkObj = parseJsonObject(chunk);
-    if (!chunkObj) continue;
-    const content = Array.isArray(chunkObj.content) ? chunkObj.content : [];
-    for (const part of content) {
-      const partObj = parseJsonObject(part);
-      if (!partObj) continue;
-      if (typeof partObj.text === "string" && partObj.text.trim().length > 0) {
-        return partObj.text;
-      }
-    }
-  }
-
-  return null;
-}
-
 function parseJsonFromResponseText(outputText: string): unknown | null {
   const trimmed = outputText.trim();
   if (!trimmed) return null;
@@ -1344,41 +1328,29 @@ interface VisionExtractionResult {
 }
 
 async function extractTextFromImages(
-  openAiKey: string,
+  llmProvider: LlmProvider,
   images: ImageInput[],
   modelName: string
 ): Promise<VisionExtractionResult> {
-  const contentBlocks: Array<Record<string, unknown>> = [
-    { type: "input_text", text: VISION_EXTRACTION_PROMPT },
-    ...images.map((img) => ({
-      type: "input_image",
-      image_url: `data:${img.mime_type};base64,${img.data}`,
-    })),
-  ];
-
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), VISION_TIMEOUT_MS);
 
   try {
-    const response = await fetch(OPENAI_RESPONSES_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    const response = await llmProvider.respond(
+      {
         model: modelName,
-        input: [{ role: "user", content: contentBlocks }],
-      }),
-    });
-
-    const data = await response.json();
+        input: [
+          { type: "text", text: VISION_EXTRACTION_PROMPT },
+          ...images.map((img) => ({ type: "image" as const, mimeType: img.mime_type, data: img.data })),
+        ],
+      },
+      { signal: controller.signal }
+    );
 
     if (!response.ok) {
       console.error("[events/interpret] vision extraction upstream error", {
         status: response.status,
-        data,
+        data: response.data,
       });
       return {
         extractedText: "",
@@ -1391,8 +1363,7 @@ async function extractTextFromImages(
       };
     }
 
-    const dataObj = parseJsonObject(data);
-    const outputText = dataObj ? extractResponseText(dataObj) : null;
+    const outputText = response.text;
 
     if (!outputText) {
       return {
@@ -2026,11 +1997,18 @@ function isNonExactEventSearchResult(result: WebSearchVerificationResult): boole
   ].some((pattern) => pattern.test(searchable));
 }
 
-function supportsReasoningEffort(modelName: string): boolean {
-  return /^(?:gpt-5|o[134])\b/i.test(modelName.trim());
-}
+/** Searches always run, biased to the Denver area */
+const DENVER_WEB_SEARCH: LlmWebSearchOptions = {
+  userLocation: {
+    country: "US",
+    city: "Denver",
+    region: "Colorado",
+    timezone: "America/Denver",
+  },
+  required: true,
+};
 
-function getConfiguredReasoningEffort(): "minimal" | "low" | "medium" | "high" {
+function getConfiguredReasoningEffort(): LlmReasoningEffort {
   const raw = process.env.OPENAI_EVENT_WEB_SEARCH_REASONING_EFFORT?.trim().toLowerCase();
   if (raw === "minimal" || raw === "low" || raw === "medium" || raw === "high") return raw;
   return "medium";
@@ -2050,178 +2028,170 @@ function getBoundedStepTimeoutMs(input: {
   return Math.min(input.preferredMs, remaining);
 }
 
-function buildWebSearchResponseTextFormat() {
+function buildWebSearchResponseSchema() {
   return {
-    format: {
-      type: "json_schema",
-      name: "event_web_search_verification",
-      strict: true,
-      schema: {
-        type: "object",
-        additionalProperties: false,
-        required: [
-          "status",
-          "summary",
-          "facts",
-          "sources",
-          "venue_search",
-          "event_search",
-          "fact_buckets",
-          "suggested_questions",
-        ],
-        properties: {
-          status: { type: "string", enum: ["searched", "no_reliable_sources"] },
-          summary: { type: "string" },
-          facts: {
-            type: "array",
-            maxItems: 12,
-            items: { type: "string" },
-          },
-          sources: {
-            type: "array",
-            maxItems: 8,
-            items: {
-              type: "object",
-              additionalProperties: false,
-              required: ["url", "title"],
-              properties: {
-                url: { type: "string" },
-                title: { type: ["string", "null"] },
-              },
-            },
-          },
-          venue_search: {
+    name: "event_web_search_verification",
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: [
+        "status",
+        "summary",
+        "facts",
+        "sources",
+        "venue_search",
+        "event_search",
+        "fact_buckets",
+        "suggested_questions",
+      ],
+      properties: {
+        status: { type: "string", enum: ["searched", "no_reliable_sources"] },
+        summary: { type: "string" },
+        facts: {
+          type: "array",
+          maxItems: 12,
+          items: { type: "string" },
+        },
+        sources: {
+          type: "array",
+          maxItems: 8,
+          items: {
             type: "object",
             additionalProperties: false,
-            required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
+            required: ["url", "title"],
             properties: {
-              status: { type: "string", enum: ["verified", "not_found", "timeout", "not_applicable"] },
-              summary: { type: "string" },
-              confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
-              attempted_queries: {
-                type: "array",
-                maxItems: 8,
-                items: { type: "string" },
-              },
-              facts: {
-                type: "array",
-                maxItems: 12,
-                items: { type: "string" },
-              },
-              sources: {
-                type: "array",
-                maxItems: 8,
-                items: {
-                  type: "object",
-                  additionalProperties: false,
-                  required: ["url", "title"],
-                  properties: {
-                    url: { type: "string" },
-                    title: { type: ["string", "null"] },
-                  },
-                },
-              },
+              url: { type: "string" },
+              title: { type: ["string", "null"] },
             },
           },
-          event_search: {
-            type: "object",
-            additionalProperties: false,
-            required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
-            properties: {
-              status: { type: "string", enum: ["verified", "not_found", "timeout", "not_applicable"] },
-              summary: { type: "string" },
-              confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
-              attempted_queries: {
-                type: "array",
-                maxItems: 8,
-                items: { type: "string" },
-              },
-              facts: {
-                type: "array",
-                maxItems: 12,
-                items: { type: "string" },
-              },
-              sources: {
-                type: "array",
-                maxItems: 8,
-                items: {
-                  type: "object",
-                  additionalProperties: false,
-                  required: ["url", "title"],
-                  properties: {
-                    url: { type: "string" },
-                    title: { type: ["string", "null"] },
-                  },
+        },
+        venue_search: {
+          type: "object",
+          additionalProperties: false,
+          required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
+          properties: {
+            status: { type: "string", enum: ["verified", "not_found", "timeout", "not_applicable"] },
+            summary: { type: "string" },
+            confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
+            attempted_queries: {
+              type: "array",
+              maxItems: 8,
+              items: { type: "string" },
+            },
+            facts: {
+              type: "array",
+              maxItems: 12,
+              items: { type: "string" },
+            },
+            sources: {
+              type: "array",
+              maxItems: 8,
+              items: {
+                type: "object",
+                additionalProperties: false,
+                required: ["url", "title"],
+                properties: {
+                  url: { type: "string" },
+                  title: { type: ["string", "null"] },
                 },
               },
             },
           },
-          fact_buckets: {
-            type: "object",
-            additionalProperties: false,
-            required: [
-              "user_provided",
-              "extracted",
-              "inferred",
-              "searched_verified",
-              "conflicts",
-              "true_unknowns",
-            ],
-            properties: {
-              user_provided: { type: "array", maxItems: 12, items: { type: "string" } },
-              extracted: { type: "array", maxItems: 12, items: { type: "string" } },
-              inferred: { type: "array", maxItems: 12, items: { type: "string" } },
-              searched_verified: { type: "array", maxItems: 12, items: { type: "string" } },
-              conflicts: { type: "array", maxItems: 8, items: { type: "string" } },
-              true_unknowns: { type: "array", maxItems: 12, items: { type: "string" } },
+        },
+        event_search: {
+          type: "object",
+          additionalProperties: false,
+          required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
+          properties: {
+            status: { type: "string", enum: ["verified", "not_found", "timeout", "not_applicable"] },
+            summary: { type: "string" },
+            confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
+            attempted_queries: {
+              type: "array",
+              maxItems: 8,
+              items: { type: "string" },
+            },
+            facts: {
+              type: "array",
+              maxItems: 12,
+              items: { type: "string" },
+            },
+            sources: {
+              type: "array",
+              maxItems: 8,
+              items: {
+                type: "object",
+                additionalProperties: false,
+                required: ["url", "title"],
+                properties: {
+                  url: { type: "string" },
+                  title: { type: ["string", "null"] },
+                },
+              },
             },
           },
-          suggested_questions: {
-            type: "array",
-            maxItems: 4,
-            items: { type: "string" },
+        },
+        fact_buckets: {
+          type: "object",
+          additionalProperties: false,
+          required: [
+            "user_provided",
+            "extracted",
+            "inferred",
+            "searched_verified",
+            "conflicts",
+            "true_unknowns",
+          ],
+          properties: {
+            user_provided: { type: "array", maxItems: 12, items: { type: "string" } },
+            extracted: { type: "array", maxItems: 12, items: { type: "string" } },
+            inferred: { type: "array", maxItems: 12, items: { type: "string" } },
+            searched_verified: { type: "array", maxItems: 12, items: { type: "string" } },
+            conflicts: { type: "array", maxItems: 8, items: { type: "string" } },
+            true_unknowns: { type: "array", maxItems: 12, items: { type: "string" } },
           },
         },
+        suggested_questions: {
+          type: "array",
+          maxItems: 4,
+          items: { type: "string" },
+        },
       },
     },
   };
 }
 
-function buildFastVenueSearchResponseTextFormat() {
+function buildFastVenueSearchResponseSchema() {
   return {
-    format: {
-      type: "json_schema",
-      name: "fast_venue_search_result",
-      strict: true,
-      schema: {
-        type: "object",
-        additionalProperties: false,
-        required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
-        properties: {
-          status: { type: "string", enum: ["verified", "not_found"] },
-          summary: { type: "string" },
-          confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
-          attempted_queries: {
-            type: "array",
-            maxItems: 3,
-            items: { type: "string" },
-          },
-          facts: {
-            type: "array",
-            maxItems: 8,
-            items: { type: "string" },
-          },
-          sources: {
-            type: "array",
-            maxItems: 4,
-            items: {
-              type: "object",
-              additionalProperties: false,
-              required: ["url", "title"],
-              properties: {
-                url: { type: "string" },
-                title: { type: ["string", "null"] },
-              },
+    name: "fast_venue_search_result",
+    schema: {
+      type: "object",
+      additionalProperties: false,
+      required: ["status", "summary", "confidence", "attempted_queries", "facts", "sources"],
+      properties: {
+        status: { type: "string", enum: ["verified", "not_found"] },
+        summary: { type: "string" },
+        confidence: { type: "string", enum: ["high", "medium", "low", "unknown"] },
+        attempted_queries: {
+          type: "array",
+          maxItems: 3,
+          items: { type: "string" },
+        },
+        facts: {
+          type: "array",
+          maxItems: 8,
+          items: { type: "string" },
+        },
+        sources: {
+          type: "array",
+          maxItems: 4,
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["url", "title"],
+            properties: {
+              url: { type: "string" },
+              title: { type: ["string", "null"] },
             },
           },
         },
@@ -2540,7 +2510,7 @@ function buildFastVenueSearchResult(categoryResult: WebSearchCategoryResult): We
 }
 
 async function runFastVenueSearchCategory(input: {
-  openAiKey: string;
+  llmProvider: LlmProvider;
   searchModel: string;
   message: string;
   conversationHistory: Array<{ role: "user" | "assistant"; content: string }>;
@@ -2572,44 +2542,24 @@ async function runFastVenueSearchCategory(input: {
   const timeout = setTimeout(() => controller.abort(), input.timeoutMs);
 
   try {
-    const searchResponse = await fetch(OPENAI_RESPONSES_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${input.openAiKey}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    const searchResponse = await input.llmProvider.respond(
+      {
         model: input.searchModel,
         instructions:
           "You are a fast venue enrichment assistant. Return strict JSON only. Search only for venue identity/address/contact facts.",
-        ...(supportsReasoningEffort(input.searchModel)
-          ? { reasoning: { effort: "low" } }
-          : {}),
+        reasoningEffort: "low",
         input: buildFastVenueSearchPrompt({
           ...input,
           queryPlan: fastQueryPlan,
         }),
-        tools: [
-          {
-            type: "web_search",
-            user_location: {
-              type: "approximate",
-              country: "US",
-              city: "Denver",
-              region: "Colorado",
-              timezone: "America/Denver",
-            },
-          },
-        ],
-        tool_choice: "required",
-        include: ["web_search_call.action.sources"],
-        max_output_tokens: 450,
-        text: buildFastVenueSearchResponseTextFormat(),
-      }),
-    });
+        webSearch: DENVER_WEB_SEARCH,
+        maxOutputTokens: 450,
+        jsonSchema: buildFastVenueSearchResponseSchema(),
+      },
+      { signal: controller.signal }
+    );
 
-    const searchData = await searchResponse.json();
+    const searchData = searchResponse.data;
     const fallbackSources = collectWebSearchSources(searchData);
     if (!searchResponse.ok) {
       console.warn("[events/interpret] fast venue search skipped after upstream error", {
@@ -2636,8 +2586,7 @@ async function runFastVenueSearchCategory(input: {
       });
     }
 
-    const searchObj = parseJsonObject(searchData);
-    const outputText = searchObj ? extractResponseText(searchObj) : null;
+    const outputText = searchResponse.text;
     const parsed = outputText ? parseJsonFromResponseText(outputText) : null;
     const categoryResult = parsed ? parseFastVenueSearchCategory(parsed, fallbackSources) : null;
     if (!categoryResult) {
@@ -2709,7 +2658,7 @@ async function runFastVenueSearchCategory(input: {
 }
 
 async function runWebSearchCategory(input: {
-  openAiKey: string;
+  llmProvider: LlmProvider;
   searchModel: string;
   message: string;
   conversationHistory: Array<{ role: "user" | "assistant"; content: string }>;
@@ -2751,45 +2700,25 @@ async function runWebSearchCategory(input: {
   const focusedQueryPlan = buildCategoryOnlyQueryPlan(input.queryPlan, input.category);
 
   try {
-    const searchResponse = await fetch(OPENAI_RESPONSES_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${input.openAiKey}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    const searchResponse = await input.llmProvider.respond(
+      {
         model: input.searchModel,
         instructions:
           "You are a careful event research assistant. Return strict JSON only. Search the web when useful and cite sources in the sources array.",
-        ...(supportsReasoningEffort(input.searchModel)
-          ? { reasoning: { effort: getConfiguredReasoningEffort() } }
-          : {}),
+        reasoningEffort: getConfiguredReasoningEffort(),
         input: buildWebSearchVerificationPrompt({
           ...input,
           queryPlan: focusedQueryPlan,
           searchCategory: input.category,
         }),
-        tools: [
-          {
-            type: "web_search",
-            user_location: {
-              type: "approximate",
-              country: "US",
-              city: "Denver",
-              region: "Colorado",
-              timezone: "America/Denver",
-            },
-          },
-        ],
-        tool_choice: "required",
-        include: ["web_search_call.action.sources"],
-        max_output_tokens: input.category === "venue" ? 650 : 750,
-        text: buildWebSearchResponseTextFormat(),
-      }),
-    });
+        webSearch: DENVER_WEB_SEARCH,
+        maxOutputTokens: input.category === "venue" ? 650 : 750,
+        jsonSchema: buildWebSearchResponseSchema(),
+      },
+      { signal: controller.signal }
+    );
 
-    const searchData = await searchResponse.json();
+    const searchData = searchResponse.data;
     const fallbackSources = collectWebSearchSources(searchData);
 
     if (!searchResponse.ok) {
@@ -2818,8 +2747,7 @@ async function runWebSearchCategory(input: {
       });
     }
 
-    const searchObj = parseJsonObject(searchData);
-    const outputText = searchObj ? extractResponseText(searchObj) : null;
+    const outputText = searchResponse.text;
     if (!outputText) {
       return finalizeWebSearchCategoryAttempt({
         traceId: input.traceId,
@@ -3240,7 +3168,7 @@ function buildAllSearchTimeoutInterpreterFallback(input: {
 }
 
 async function verifyEventDetailsWithWebSearch(input: {
-  openAiKey: string;
+  llmProvider: LlmProvider;
   searchModel: string;
   message: string;
   conversationHistory: Array<{ role: "user" | "assistant"; content: string }>;
@@ -3396,58 +3324,6 @@ async function readJsonBodyWithSizeLimit<T>(
   }
 }
 
-function buildSystemPrompt() {
-  return [
-    "You are an event interpretation service for a host dashboard.",
-    "You translate natural language into structured draft payloads only.",
-    "Never output prose outside strict JSON.",
-    "Rules:",
-    "- Ask only blocking clarifications needed for the next server action.",
-    "- Work like a strong event-ops assistant, not a form validator. Extract, infer, normalize, and preserve details behind the scenes before asking the host anything.",
-    "- Do not ask for information that can be reasonably inferred from the source text, attached flyer, venue catalog, current date, or existing draft context.",
-    "- Prefer one well-reasoned draft plus a concise note about assumptions over a pile of questions. Ask a follow-up only when publishing would be materially wrong or risky without the answer.",
-    "- If a detail is missing but optional (cost, source URL, end time, capacity, organizer note), leave it blank/null and say it was not stated instead of blocking the user.",
-    "- If you need verification, ask one specific human question and explain what you already inferred.",
-    "- Do not claim you searched the web or verified online unless an explicit tool result or source text is present in the prompt.",
-    "- When web_search_verification is present, use it as supporting evidence by category. You may say the venue was verified online when venue_search.status is verified. You may say the exact event was verified online only when event_search.status is verified.",
-    "- If venue_search is verified but event_search is not_found, use the venue facts for the reusable venue record and keep event facts limited to the user's message, flyer/post text, or extracted_image_text. Say the exact public listing was not found.",
-    "- If web_search_verification status is no_reliable_sources and the latest user asked you to search, say briefly which venue/event searches were attempted. Do not ask again for a source link or flyer if the user already said they do not know; ask only for a genuinely missing fact.",
-    "- If web_search_verification conflicts with the user's flyer/post, preserve the user's supplied details and ask one targeted question only if the conflict would make publishing risky.",
-    "- If search did not find an exact same-event match, do not use similar events as facts.",
-    "- Separate known facts, extracted facts, inferred facts, searched facts, conflicts, and true unknowns before asking. Ask confirmation for inferred or medium-confidence facts; ask direct questions for true unknowns. Do not ask for facts search found with high confidence.",
-    "- Do not append empty conversational tails. When the draft is usable, close with one useful optional-change invitation based on missing non-blocking details.",
-    "- RSVP remains default platform behavior; do not disable it.",
-    "- Timeslots are optional. Encourage for open_mic, jam_session, workshop when relevant.",
-    "- Prefer safe scope when ambiguous: occurrence edits over series-wide edits.",
-    "- Use date format YYYY-MM-DD and 24h times HH:MM:SS when possible.",
-    "- The current date is provided in the user prompt as current_date in America/Denver. current_date itself is NOT a past date — it is today and is a valid event date. Compare dates by calendar date only, never by time of day.",
-    "- Never draft a date strictly before current_date for a new create-mode event unless the user clearly says it already happened, is a recap, or is archival.",
-    "- Flyer dates often omit a year. When a month/day from a flyer has no year in the source text: if that month/day in the CURRENT year is current_date or later, use the current year. Only advance to next year when the month/day in the current year is STRICTLY before current_date.",
-    "- Do not advance a flyer's month/day past the current year unless the flyer or user message explicitly states a year that is later than the current year.",
-    "- If the user says 'tonight', 'tomorrow', 'next', 'upcoming', or 'if this is in the past', resolve that relative date yourself from current_date instead of asking for the year.",
-    "- If venue match is uncertain, leave venue_id null and set venue_name to your best guess of the venue the user intended. The server will attempt deterministic resolution.",
-    "- For recurring in-person events at a venue that is not in the catalog, set venue_name/custom_location_name plus any address/city/state you can extract. Do not describe it as a one-off custom location; say it can be added as a reusable venue when saved.",
-    "- If locked_draft is provided, preserve its confirmed fields unless the user explicitly changes them.",
-    "- For generic event names, prefer the public title format 'Venue Name - Type' (for example 'Fellow Traveler - Open Mic' or 'Ethos - Open Mic'). Preserve distinct named events such as Jam&Slam, festivals, concerts, workshops, slams, and branded showcases.",
-    "- Always include concrete event details in description (at minimum when/where/type/cost if known).",
-    "- Set event_type/category from explicit wording: if user says showcase, use showcase (not open_mic).",
-    "- Do not invent facts. Use only the user's message, attached flyer text, provided source notes, venue catalog, and deterministic server hints.",
-    "- Treat Google Maps links as location hints only. Never put Google Maps links in external_url.",
-    "- If the user provides source URLs, preserve the best non-maps event/venue/organizer URL as external_url when appropriate.",
-    "- Do not ask for external_url when no concrete non-maps URL was provided. external_url is optional and can stay null.",
-    "- If recurrence is visible in message or flyer text, preserve it as a recurring series instead of silently downgrading to single.",
-    "- Recurrence contract: use series_mode single for one date; weekly for every week on one weekday; biweekly for every other week on one weekday; monthly for ordinal monthly patterns like 1st/3rd Wednesday; custom for irregular schedules, multiple weekdays, every N weeks other than 1 or 2, daily/yearly, seasonal, or any pattern the form cannot represent natively.",
-    "- For custom recurrence, include custom_dates as concrete YYYY-MM-DD dates in chronological order, starting with start_date. Generate up to 12 upcoming dates from current_date/source details; ask only if the pattern cannot be converted into dates safely.",
-    "- Do not output vague series_mode values like recurring. Choose one of single, weekly, biweekly, monthly, or custom.",
-    "- Only enable performer slots when explicitly requested with slot/timeslot/lineup language.",
-    "- If a flyer separates sign-up/check-in from performances, set signup_time to sign-up/check-in time and start_time to the public performance/show start time. Example: '6:00PM SIGN UP, 6:30PM-9:00PM PERFORMANCES' means signup_time 18:00:00, start_time 18:30:00, end_time 21:00:00.",
-    "- For gig events, do not add signup_time or performer slots unless explicitly requested.",
-    "- Default timezone to America/Denver unless the source clearly says otherwise.",
-    "- Keep human_summary concise, deterministic, friendly, and lightly encouraging. A tiny bit of humor is okay, but never at the expense of clarity or correctness.",
-    "- Default to filling the draft instead of waiting for confirmation. The user can inspect and edit the private draft before publishing.",
-  ].join("\n");
-}
-
 function stripOptionalExternalUrlAskFromSummary(summary: string): string {
   const cleaned = summary
     .replace(
@@ -3901,7 +3777,7 @@ function applyDraftVerifierPatches(
 }
 
 async function verifyDraftWithCritic(input: {
-  openAiKey: string;
+  llmProvider: LlmProvider;
   verifierModel: string;
   message: string;
   extractedImageText?: string;
@@ -3915,140 +3791,129 @@ async function verifyDraftWithCritic(input: {
   const timeout = setTimeout(() => controller.abort(), DRAFT_VERIFIER_TIMEOUT_MS);
 
   try {
-    const verifierResponse = await fetch(OPENAI_RESPONSES_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${input.openAiKey}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    const verifierResponse = await input.llmProvider.respond(
+      {
         model: input.verifierModel,
         instructions:
           "Return strict JSON only. Be conservative: high severity means the user should not publish without resolving it.",
         input: buildDraftVerifierPrompt(input),
-        max_output_tokens: 900,
-        text: {
-          format: {
-            type: "json_schema",
-            name: "draft_verification",
-            strict: true,
-            schema: {
-              type: "object",
-              additionalProperties: false,
-              required: ["status", "summary", "issues", "patches"],
-              properties: {
-                status: { type: "string", enum: ["pass", "needs_review"] },
-                summary: { type: "string" },
-                issues: {
-                  type: "array",
-                  maxItems: 5,
-                  items: {
-                    type: "object",
-                    additionalProperties: false,
-                    required: ["severity", "field", "issue", "question"],
-                    properties: {
-                      severity: { type: "string", enum: ["low", "medium", "high"] },
-                      field: { type: "string" },
-                      issue: { type: "string" },
-                      question: { type: ["string", "null"] },
-                    },
+        maxOutputTokens: 900,
+        jsonSchema: {
+          name: "draft_verification",
+          schema: {
+            type: "object",
+            additionalProperties: false,
+            required: ["status", "summary", "issues", "patches"],
+            properties: {
+              status: { type: "string", enum: ["pass", "needs_review"] },
+              summary: { type: "string" },
+              issues: {
+                type: "array",
+                maxItems: 5,
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  required: ["severity", "field", "issue", "question"],
+                  properties: {
+                    severity: { type: "string", enum: ["low", "medium", "high"] },
+                    field: { type: "string" },
+                    issue: { type: "string" },
+                    question: { type: ["string", "null"] },
                   },
                 },
-                patches: {
-                  type: "array",
-                  maxItems: 12,
-                  items: {
-                    type: "object",
-                    additionalProperties: false,
-                    required: [
-                      "field",
-                      "value_kind",
-                      "string_value",
-                      "number_value",
-                      "boolean_value",
-                      "string_array_value",
-                      "reason",
-                    ],
-                    properties: {
-                      field: {
-                        type: "string",
-                        enum: [
-                          "title",
-                          "description",
-                          "event_type",
-                          "categories",
-                          "start_date",
-                          "event_date",
-                          "day_of_week",
-                          "start_time",
-                          "end_time",
-                          "signup_time",
-                          "recurrence_rule",
-                          "series_mode",
-                          "custom_dates",
-                          "venue_name",
-                          "custom_location_name",
-                          "address",
-                          "city",
-                          "state",
-                          "custom_address",
-                          "custom_city",
-                          "custom_state",
-                          "custom_zip",
-                          "zip",
-                          "phone",
-                          "website_url",
-                          "google_maps_url",
-                          "map_link",
-                          "latitude",
-                          "longitude",
-                          "location_mode",
-                          "is_free",
-                          "cost_label",
-                          "age_policy",
-                          "signup_mode",
-                          "external_url",
-                          "has_timeslots",
-                          "total_slots",
-                          "slot_duration_minutes",
-                        ],
-                      },
-                      value_kind: {
-                        type: "string",
-                        enum: ["string", "number", "boolean", "string_array", "null"],
-                      },
-                      string_value: { type: ["string", "null"] },
-                      number_value: { type: ["number", "null"] },
-                      boolean_value: { type: ["boolean", "null"] },
-                      string_array_value: {
-                        type: "array",
-                        maxItems: 24,
-                        items: { type: "string" },
-                      },
-                      reason: { type: "string" },
+              },
+              patches: {
+                type: "array",
+                maxItems: 12,
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  required: [
+                    "field",
+                    "value_kind",
+                    "string_value",
+                    "number_value",
+                    "boolean_value",
+                    "string_array_value",
+                    "reason",
+                  ],
+                  properties: {
+                    field: {
+                      type: "string",
+                      enum: [
+                        "title",
+                        "description",
+                        "event_type",
+                        "categories",
+                        "start_date",
+                        "event_date",
+                        "day_of_week",
+                        "start_time",
+                        "end_time",
+                        "signup_time",
+                        "recurrence_rule",
+                        "series_mode",
+                        "custom_dates",
+                        "venue_name",
+                        "custom_location_name",
+                        "address",
+                        "city",
+                        "state",
+                        "custom_address",
+                        "custom_city",
+                        "custom_state",
+                        "custom_zip",
+                        "zip",
+                        "phone",
+                        "website_url",
+                        "google_maps_url",
+                        "map_link",
+                        "latitude",
+                        "longitude",
+                        "location_mode",
+                        "is_free",
+                        "cost_label",
+                        "age_policy",
+                        "signup_mode",
+                        "external_url",
+                        "has_timeslots",
+                        "total_slots",
+                        "slot_duration_minutes",
+                      ],
+                    },
+                    value_kind: {
+                      type: "string",
+                      enum: ["string", "number", "boolean", "string_array", "null"],
                     },
+                    string_value: { type: ["string", "null"] },
+                    number_value: { type: ["number", "null"] },
+                    boolean_value: { type: ["boolean", "null"] },
+                    string_array_value: {
+                      type: "array",
+                      maxItems: 24,
+                      items: { type: "string" },
+                    },
+                    reason: { type: "string" },
                   },
                 },
               },
             },
           },
         },
-      }),
-    });
+      },
+      { signal: controller.signal }
+    );
 
-    const verifierData = await verifierResponse.json();
     if (!verifierResponse.ok) {
       console.warn("[events/interpret] draft verifier upstream error", {
         traceId: input.traceId,
         status: verifierResponse.status,
-        data: verifierData,
+        data: verifierResponse.data,
       });
       return null;
     }
 
-    const verifierObj = parseJsonObject(verifierData);
-    const outputText = verifierObj ? extractResponseText(verifierObj) : null;
+    const outputText = verifierResponse.text;
     if (!outputText) return null;
 
     let parsed: unknown;
@@ -4087,10 +3952,11 @@ export async function POST(request: Request) {
     );
   }
 
-  const openAiKey = process.env.OPENAI_API_KEY;
-  if (!openAiKey) {
-    return NextResponse.json({ error: "Missing OPENAI_API_KEY." }, { status: 503 });
+  const llmSelection = getInterpreterLlmProvider();
+  if ("error" in llmSelection) {
+    return NextResponse.json({ error: llmSelection.error }, { status: 503 });
   }
+  const llmProvider = llmSelection.provider;
 
   const model = process.env.OPENAI_EVENT_INTERPRETER_MODEL?.trim() || DEFAULT_INTERPRETER_MODEL;
   const visionModel = process.env.OPENAI_EVENT_VISION_MODEL?.trim() || DEFAULT_VISION_EXTRACTION_MODEL;
@@ -4236,7 +4102,7 @@ export async function POST(request: Request) {
       visionModel,
     });
 
-    const extraction = await extractTextFromImages(openAiKey, validatedImages, visionModel);
+    const extraction = await extractTextFromImages(llmProvider, validatedImages, visionModel);
     extractionMetadata = extraction.metadata;
 
     if (extraction.extractedText) {
@@ -4270,7 +4136,7 @@ export async function POST(request: Request) {
     conversationHistory,
   });
   const shouldUseWebSearch = useWebSearch || explicitWebSearchRequest;
-  const webSearchEnabled = isEventWebSearchEnabled();
+  const webSearchEnabled = isEventWebSearchEnabled() && llmProvider.supportsWebSearch;
   if (explicitWebSearchRequest && !webSearchEnabled) {
     webSearchVerification = buildNoReliableWebSearchResult(
       "Search was requested, but online search is disabled for this event assistant right now."
@@ -4294,7 +4160,7 @@ export async function POST(request: Request) {
     });
 
     webSearchVerification = await verifyEventDetailsWithWebSearch({
-      openAiKey,
+      llmProvider,
       searchModel: webSearchModel,
       message: normalizedMessage,
       conversationHistory,
@@ -4383,41 +4249,30 @@ export async function POST(request: Request) {
     });
 
   try {
-    const llmResponse = await fetch(OPENAI_RESPONSES_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    const llmResponse = await llmProvider.respond(
+      {
         model,
-        instructions: appendAiPromptContractAdditions(buildSystemPrompt()),
+        instructions: appendAiPromptContractAdditions(buildInterpretSystemPrompt()),
         input: userPrompt,
-        max_output_tokens: 2500,
-        text: {
-          format: {
-            type: "json_schema",
-            name: "event_interpretation",
-            strict: true,
-            schema: buildAiPromptResponseSchema(),
-          },
+        maxOutputTokens: 2500,
+        jsonSchema: {
+          name: "event_interpretation",
+          schema: buildAiPromptResponseSchema(),
         },
-      }),
-    });
+      },
+      { signal: controller.signal }
+    );
 
-    const llmData = await llmResponse.json();
     if (!llmResponse.ok) {
-      console.error("[events/interpret] upstream error", llmData);
+      console.error("[events/interpret] upstream error", llmResponse.data);
       return NextResponse.json({ error: "Interpreter upstream error." }, { status: 502 });
     }
 
-    const llmDataObj = parseJsonObject(llmData);
-    if (!llmDataObj) {
+    if (!parseJsonObject(llmResponse.data)) {
       return NextResponse.json({ error: "Interpreter returned malformed response." }, { status: 502 });
     }
 
-    const outputText = extractResponseText(llmDataObj);
+    const outputText = llmResponse.text;
     if (!outputText) {
       return NextResponse.json({ error: "Interpreter returned empty output." }, { status: 502 });
     }
@@ -4801,7 +4656,7 @@ export async function POST(request: Request) {
   const draftVerification =
     canRunDraftVerifier && (mode === "create" || mode === "edit_series") && resolvedNextAction !== "ask_clarification"
       ? await verifyDraftWithCritic({
-          openAiKey,
+          llmProvider,
           verifierModel,
           message: normalizedMessage,
           extractedImageText,
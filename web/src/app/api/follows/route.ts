@@ -0,0 +1,166 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { NextRequest, NextResponse } from "next/server";
+import { isFollowTargetType } from "@/lib/follows/followContract";
+import { getFollowState, getUserFollows } from "@/lib/follows/followsServer";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseTarget(type: unknown, id: unknown) {
+  if (!isFollowTargetType(type) || typeof id !== "string" || !UUID_REGEX.test(id)) {
+    return null;
+  }
+  return { targetType: type, targetId: id };
+}
+
+/**
+ * GET /api/follows?type=member&id=<uuid>
+ * Follow state + public follower count for one target (anonymous allowed).
+ *
+ * GET /api/follows
+ * Everything the current user follows.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser },
+  } = await supabase.auth.getUser();
+
+  const searchParams = request.nextUrl.searchParams;
+  if (searchParams.has("type") || searchParams.has("id")) {
+    const target = parseTarget(searchParams.get("type"), searchParams.get("id"));
+    if (!target) {
+      return NextResponse.json({ error: "Invalid follow target" }, { status: 400 });
+    }
+    const state = await getFollowState(
+      supabase,
+      sessionUser?.id ?? null,
+      target.targetType,
+      target.targetId
+    );
+    return NextResponse.json(state);
+  }
+
+  if (!sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const follows = await getUserFollows(supabase, sessionUser.id);
+  return NextResponse.json({ follows });
+}
+
+/**
+ * POST /api/follows
+ * Follow a member, venue or organization. Body: { target_type, target_id }
+ */
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser }, error: sessionUserError,
+  } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const target = parseTarget(body?.target_type, body?.target_id);
+  if (!target) {
+    return NextResponse.json({ error: "Invalid follow target" }, { status: 400 });
+  }
+  if (target.targetType === "member" && target.targetId === sessionUser.id) {
+    return NextResponse.json({ error: "You can't follow yourself" }, { status: 400 });
+  }
+
+  const { error } = await supabase.from("follows").insert({
+    follower_id: sessionUser.id,
+    target_type: target.targetType,
+    target_id: target.targetId,
+  });
+
+  // 23505 = already following; treat as success
+  if (error && error.code !== "23505") {
+    console.error("Error following target:", error);
+    return NextResponse.json({ error: "Failed to follow" }, { status: 500 });
+  }
+
+  const state = await getFollowState(supabase, sessionUser.id, target.targetType, target.targetId);
+  return NextResponse.json(state);
+}
+
+/**
+ * PATCH /api/follows
+ * Mute or unmute a follow. Body: { target_type, target_id, muted }
+ */
+export async function PATCH(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser }, error: sessionUserError,
+  } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const target = parseTarget(body?.target_type, body?.target_id);
+  if (!target || typeof body?.muted !== "boolean") {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("follows")
+    .update({ muted: body.muted })
+    .eq("follower_id", sessionUser.id)
+    .eq("target_type", target.targetType)
+    .eq("target_id", target.targetId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating follow:", error);
+    return NextResponse.json({ error: "Failed to update follow" }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: "Not following" }, { status: 404 });
+  }
+
+  const state = await getFollowState(supabase, sessionUser.id, target.targetType, target.targetId);
+  return NextResponse.json(state);
+}
+
+/**
+ * DELETE /api/follows?type=member&id=<uuid>
+ * Unfollow.
+ */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser }, error: sessionUserError,
+  } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const target = parseTarget(searchParams.get("type"), searchParams.get("id"));
+  if (!target) {
+    return NextResponse.json({ error: "Invalid follow target" }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("follows")
+    .delete()
+    .eq("follower_id", sessionUser.id)
+    .eq("target_type", target.targetType)
+    .eq("target_id", target.targetId);
+
+  if (error) {
+    console.error("Error unfollowing target:", error);
+    return NextResponse.json({ error: "Failed to unfollow" }, { status: 500 });
+  }
+
+  const state = await getFollowState(supabase, sessionUser.id, target.targetType, target.targetId);
+  return NextResponse.json(state);
+}
@@ -207,6 +207,7 @@ If you didn't request this, you can ignore this email.
       subject: "Confirm comment deletion",
       html: emailHtml,
       text: emailText,
+      essential: true,
     });
 
     if (process.env.NODE_ENV === "development") {
@@ -205,6 +205,7 @@ export async function POST(request: NextRequest) {
       subject: emailContent.subject,
       html: emailContent.html,
       text: emailContent.text,
+      essential: true,
     });
 
     // Log code in development for testing
@@ -188,6 +188,7 @@ export async function POST(request: NextRequest) {
       subject: emailContent.subject,
       html: emailContent.html,
       text: emailContent.text,
+      essential: true,
     });
 
     if (process.env.NODE_ENV === "development") {
@@ -15,6 +15,8 @@ import {
   dateKeyErrorResponse,
   formatDateKeyShort,
 } from "@/lib/events/dateKeyContract";
+import { checkGuestSignupPolicy, parseSignupPolicy } from "@/lib/events/signupPolicy";
+import { LOTTERY_SIGNUP_MODE } from "@/lib/events/lottery";
 
 const {
   CODE_EXPIRES_MINUTES,
@@ -81,7 +83,7 @@ export async function POST(request: NextRequest) {
     // Fetch event and validate
     const { data: event, error: eventError } = await supabase
       .from("events")
-      .select("id, title, is_published, status, has_timeslots, visibility")
+      .select("id, title, is_published, status, has_timeslots, visibility, signup_policy, signup_mode")
       .eq("id", event_id)
       .single();
 
@@ -135,7 +137,7 @@ export async function POST(request: NextRequest) {
       .from("timeslot_claims")
       .select("id, status")
       .eq("timeslot_id", timeslot_id)
-      .not("status", "in", "(cancelled,no_show)")
+      .not("status", "in", "(cancelled,no_show,waitlist)")
       .maybeSingle();
 
     if (existingClaim) {
@@ -145,6 +147,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Lottery events: slots go to members through the draw. Once the draw has
+    // run, leftover slots are first come, first served for guests too.
+    if (event.signup_mode === LOTTERY_SIGNUP_MODE) {
+      const { data: draw } = await supabase
+        .from("timeslot_lottery_draws")
+        .select("id")
+        .eq("event_id", event_id)
+        .eq("date_key", effectiveDateKey)
+        .maybeSingle();
+
+      if (!draw) {
+        return NextResponse.json(
+          { error: "This lineup is drawn by lottery. Sign in to enter the draw." },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Per-event signup policy (guest monthly limit, verification after no-show).
+    // The timeslot_claims trigger enforces the same rules at claim time; checking
+    // here avoids emailing a code the guest can't use.
+    const policyCheck = await checkGuestSignupPolicy(supabase, {
+      policy: parseSignupPolicy(event.signup_policy),
+      eventId: event_id,
+      dateKey: effectiveDateKey,
+      guestEmail: normalizedEmail,
+    });
+
+    if (!policyCheck.allowed) {
+      return NextResponse.json(
+        { error: policyCheck.reason, signup_policy: true },
+        { status: 403 }
+      );
+    }
+
     // Check if this guest already has a pending verification or claim for this slot on this date
     // Phase ABC6: Verifications are scoped by date_key
     const { data: existingVerification } = await supabase
@@ -252,6 +289,7 @@ export async function POST(request: NextRequest) {
       subject: emailContent.subject,
       html: emailContent.html,
       text: emailContent.text,
+      essential: true,
     });
 
     if (process.env.NODE_ENV === "development") {
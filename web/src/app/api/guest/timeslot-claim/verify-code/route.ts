@@ -11,6 +11,7 @@ import { sendEmail } from "@/lib/email/mailer";
 import { getTimeslotClaimConfirmationEmail } from "@/lib/email/templates/timeslotClaimConfirmation";
 import { getTimeslotSignupHostNotificationEmail } from "@/lib/email/templates/timeslotSignupHostNotification";
 import { formatDateKeyShort, formatDateKeyForEmail } from "@/lib/events/dateKeyContract";
+import { getSignupPolicyErrorMessage } from "@/lib/events/signupPolicy";
 import { SITE_URL } from "@/lib/email/render";
 
 const { MAX_CODE_ATTEMPTS, LOCKOUT_MINUTES } = GUEST_VERIFICATION_CONFIG;
@@ -153,7 +154,7 @@ export async function POST(request: NextRequest) {
       .from("timeslot_claims")
       .select("id, status")
       .eq("timeslot_id", verification.timeslot_id)
-      .not("status", "in", "(cancelled,no_show)")
+      .not("status", "in", "(cancelled,no_show,waitlist)")
       .maybeSingle();
 
     if (existingClaim) {
@@ -214,6 +215,14 @@ export async function POST(request: NextRequest) {
           { status: 409 }
         );
       }
+      // Per-event signup policy rejected the claim (timeslot_claims trigger)
+      const policyMessage = getSignupPolicyErrorMessage(claimError.message);
+      if (policyMessage) {
+        return NextResponse.json(
+          { error: policyMessage, signup_policy: true },
+          { status: 403 }
+        );
+      }
       return NextResponse.json(
         { error: "Failed to claim slot" },
         { status: 500 }
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { isProcessableImageBucket, type ProcessableImageBucket } from "@/lib/images/config";
+import {
+  canProcessImage,
+  isValidUploadPath,
+  processStoredImage,
+  removeImageVariants,
+} from "@/lib/images/server";
+
+/**
+ * Image variants API — post-process an upload the browser just stored.
+ *
+ * Auth: the storage path must be one the caller could have uploaded
+ * (canProcessImage: own folder, a manageable event or venue, or admin).
+ * Variants are written with the service-role client only after that check.
+ *
+ * POST { bucket, path } — strip metadata from the original in place, write
+ *     AVIF/WebP/JPEG variants and record the asset. Idempotent.
+ * DELETE { bucket, path } — remove the variants of a deleted upload.
+ */
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+type ParsedTarget =
+  | { ok: true; userId: string; bucket: ProcessableImageBucket; path: string }
+  | { ok: false; response: NextResponse };
+
+async function authorizeTarget(request: Request): Promise<ParsedTarget> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return { ok: false, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  let body: { bucket?: unknown; path?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, response: NextResponse.json({ error: "Invalid JSON body" }, { status: 400 }) };
+  }
+
+  if (!isProcessableImageBucket(body.bucket) || !isValidUploadPath(body.path)) {
+    return { ok: false, response: NextResponse.json({ error: "Invalid bucket or path" }, { status: 400 }) };
+  }
+
+  const allowed = await canProcessImage(supabase, user.id, body.bucket, body.path);
+  if (!allowed) {
+    return { ok: false, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { ok: true, userId: user.id, bucket: body.bucket, path: body.path };
+}
+
+export async function POST(request: Request) {
+  const target = await authorizeTarget(request);
+  if (!target.ok) return target.response;
+
+  try {
+    const result = await processStoredImage(createServiceRoleClient(), {
+      bucket: target.bucket,
+      path: target.path,
+      userId: target.userId,
+    });
+
+    if (!result.ok) {
+      const status = result.reason === "not_found" ? 404 : result.reason === "storage_failed" ? 500 : 422;
+      return NextResponse.json({ error: "Image could not be processed", reason: result.reason }, { status });
+    }
+    return NextResponse.json({ asset: result.asset });
+  } catch (error) {
+    console.error("[ImagePipeline] Processing failed:", error);
+    return NextResponse.json({ error: "Image could not be processed" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const target = await authorizeTarget(request);
+  if (!target.ok) return target.response;
+
+  try {
+    const { removed } = await removeImageVariants(createServiceRoleClient(), {
+      bucket: target.bucket,
+      path: target.path,
+    });
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("[ImagePipeline] Variant removal failed:", error);
+    return NextResponse.json({ error: "Failed to remove image variants" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { serializeEventAnalyticsCsv } from "@/lib/events/hostAnalytics";
+import { loadEventAnalytics } from "@/lib/events/hostAnalyticsServer";
+
+/**
+ * Host analytics API — per-occurrence RSVPs, slot fill, no-shows, fill
+ * speed, new vs returning performers, page/embed views and referral sources.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent),
+ * checked with the session client before the service-role client is created
+ * (event_views is service-role only).
+ *
+ * GET                — JSON EventAnalyticsResult
+ * GET ?format=csv    — CSV download, one row per occurrence
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const result = await loadEventAnalytics(serviceClient, eventId);
+  if ("error" in result) {
+    const status = result.error === "Event not found" ? 404 : 500;
+    return NextResponse.json({ error: result.error }, { status });
+  }
+
+  const url = new URL(request.url);
+  if (url.searchParams.get("format") === "csv") {
+    const csv = serializeEventAnalyticsCsv(result.analytics);
+    const filename = `happening-analytics-${eventId.slice(0, 8)}-${result.fromKey}-to-${result.toKey}.csv`;
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  return NextResponse.json(result);
+}
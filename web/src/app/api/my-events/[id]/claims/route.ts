@@ -2,12 +2,16 @@ import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
 import { canManageEvent } from "@/lib/events/eventManageAuth";
 import { getTodayDenver } from "@/lib/events/nextOccurrence";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { LOTTERY_SIGNUP_MODE } from "@/lib/events/lottery";
+import { promoteNextLotteryEntrant } from "@/lib/waitlistOffer";
 
 /**
  * Phase 5.02: Host claims management API
  *
  * GET /api/my-events/[id]/claims - List all timeslot claims for an event
  * DELETE /api/my-events/[id]/claims - Remove a specific claim (via claim_id in body)
+ * PATCH /api/my-events/[id]/claims - Confirm a waitlisted claim (signup policy approval)
  */
 
 // GET - List claims for event, grouped by date
@@ -73,6 +77,8 @@ export async function GET(
       guest_email,
       status,
       created_at,
+      performance_started_at,
+      performance_ended_at,
       profiles:member_id(id, full_name, avatar_url, slug)
     `)
     .in("timeslot_id", slotIds)
@@ -174,7 +180,7 @@ export async function DELETE(
       guest_name,
       status,
       timeslot_id,
-      event_timeslots!inner(event_id)
+      event_timeslots!inner(event_id, date_key)
     `)
     .eq("id", claimId)
     .single();
@@ -184,7 +190,7 @@ export async function DELETE(
   }
 
   // Type-safe access to nested data (inner join returns array with one element)
-  const eventTimeslots = claim.event_timeslots as unknown as Array<{ event_id: string }> | null;
+  const eventTimeslots = claim.event_timeslots as unknown as Array<{ event_id: string; date_key: string }> | null;
   const claimEventId = eventTimeslots?.[0]?.event_id;
   if (claimEventId !== eventId) {
     return NextResponse.json({ error: "Claim does not belong to this event" }, { status: 403 });
@@ -203,6 +209,25 @@ export async function DELETE(
     return NextResponse.json({ error: updateError.message }, { status: 500 });
   }
 
+  // Lottery events: the freed slot goes to the next entrant in draw order
+  const claimDateKey = eventTimeslots?.[0]?.date_key;
+  if (claimDateKey && (claim.status === "confirmed" || claim.status === "offered")) {
+    const { data: lotteryEvent } = await supabase
+      .from("events")
+      .select("signup_mode")
+      .eq("id", eventId)
+      .single();
+
+    if (lotteryEvent?.signup_mode === LOTTERY_SIGNUP_MODE) {
+      const serviceClient = createServiceRoleClient();
+      await serviceClient
+        .from("timeslot_lottery_entries")
+        .update({ status: "withdrawn", offer_expires_at: null, updated_at: new Date().toISOString() })
+        .eq("claim_id", claimId);
+      await promoteNextLotteryEntrant(serviceClient, eventId, claimDateKey, claim.timeslot_id);
+    }
+  }
+
   // If this was a member claim (not guest), notify them
   if (claim.member_id) {
     // Get event title for notification
@@ -234,3 +259,81 @@ export async function DELETE(
     performerName: claim.guest_name || "Unknown",
   });
 }
+
+// PATCH - Confirm a waitlisted claim
+// Members over an event's no-show threshold land on the waitlist
+// (signup policy trigger); the host approves them here.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user: sessionUser }, error: sessionUserError } = await supabase.auth.getUser();
+
+  if (sessionUserError || !sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, sessionUser.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { claim_id?: unknown; status?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const claimId = typeof body.claim_id === "string" ? body.claim_id : null;
+  if (!claimId) {
+    return NextResponse.json({ error: "claim_id required" }, { status: 400 });
+  }
+  if (body.status !== "confirmed") {
+    return NextResponse.json({ error: "status must be \"confirmed\"" }, { status: 400 });
+  }
+
+  const { data: claim, error: claimError } = await supabase
+    .from("timeslot_claims")
+    .select(`
+      id,
+      member_id,
+      status,
+      event_timeslots!inner(event_id)
+    `)
+    .eq("id", claimId)
+    .single();
+
+  if (claimError || !claim) {
+    return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+  }
+
+  const eventTimeslots = claim.event_timeslots as unknown as Array<{ event_id: string }> | null;
+  if (eventTimeslots?.[0]?.event_id !== eventId) {
+    return NextResponse.json({ error: "Claim does not belong to this event" }, { status: 403 });
+  }
+
+  if (claim.status !== "waitlist") {
+    return NextResponse.json({ error: "Only waitlisted claims can be confirmed" }, { status: 409 });
+  }
+
+  const { error: updateError } = await supabase
+    .from("timeslot_claims")
+    .update({
+      status: "confirmed",
+      waitlist_position: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", claimId);
+
+  if (updateError) {
+    if (updateError.code === "23505") {
+      return NextResponse.json({ error: "That slot has since been claimed" }, { status: 409 });
+    }
+    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, claimId, status: "confirmed" });
+}
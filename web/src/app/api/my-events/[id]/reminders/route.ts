@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { validateReminderHours } from "@/lib/events/eventReminders";
+
+/**
+ * Reminder settings API — how long before each occurrence attendees and
+ * slot claimants get a reminder email.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent).
+ * Writes events.reminder_hours_before with the session client, same as the
+ * event PATCH route. Sending lives in /api/cron/event-reminders.
+ *
+ * PUT { reminder_hours_before: number | null } — 1-24 hours; null turns
+ *     attendee reminders off for the event.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { reminder_hours_before?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = validateReminderHours(body.reminder_hours_before);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("events")
+    .update({
+      reminder_hours_before: result.hours,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, reminder_hours_before: result.hours });
+}
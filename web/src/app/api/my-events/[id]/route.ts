@@ -211,6 +211,7 @@ const EVENT_UPDATE_FIELD_LABELS: Record<string, string> = {
   is_free: "Cost",
   cost_label: "Cost",
   signup_mode: "Signup mode",
+  lottery_cutoff_offset_minutes: "Lottery draw time",
   signup_url: "Signup link",
   signup_deadline: "Signup deadline",
   signup_time: "Signup time",
@@ -507,6 +508,7 @@ export async function PATCH(
     // Phase 3 fields
     "timezone", "location_mode", "online_url", "is_free", "cost_label",
     "signup_mode", "signup_url", "signup_deadline", "signup_time", "age_policy",
+    "lottery_cutoff_offset_minutes",
     // Timeslot configuration fields
     "has_timeslots", "total_slots", "slot_duration_minutes",
     // External link field
@@ -894,11 +896,10 @@ export async function PATCH(
     actorId: sessionUser.id,
     actorRole: resolveEventAuditActorRole({
       isAdmin,
-      // canManageEvent already passed above; treat as host for audit
-      // purposes (cohost vs host distinction comes from event_hosts in
-      // PR C admin browser when needed).
-      isHost: !isAdmin,
-      isCohost: false,
+      // canManageEvent already passed above: the owner is the host, any
+      // other manager is a co-host (feeds cohost_cancellation scoring).
+      isHost: !isAdmin && prevEvent?.host_id === sessionUser.id,
+      isCohost: !isAdmin && prevEvent?.host_id !== sessionUser.id,
     }),
     action: auditAction,
     source: resolveEventAuditSource({
@@ -1195,17 +1196,11 @@ export async function DELETE(
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  // Lane 5 PR A — minimal admin-vs-host classification for the audit
-  // row's actor_role. Cheap single query (mirrors checkOverrideAuth's
-  // own pattern). cohost-vs-host distinction is best-effort and not
-  // resolved here — admin-vs-host is the required minimum per
-  // coordinator patch instructions.
+  // Lane 5 PR A — admin-vs-host classification for the audit row's
+  // actor_role. Cheap single query (mirrors checkOverrideAuth's own
+  // pattern); host-vs-cohost is resolved from host_id once the event
+  // is loaded below.
   const isDeleteActorAdmin = await checkAdminRole(supabase, sessionUser.id);
-  const deleteAuditActorRole: EventAuditActorRole = resolveEventAuditActorRole({
-    isAdmin: isDeleteActorAdmin,
-    isHost: !isDeleteActorAdmin,
-    isCohost: false,
-  });
 
   // Check if hard delete requested via query param
   const url = new URL(request.url);
@@ -1222,6 +1217,12 @@ export async function DELETE(
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
 
+  const deleteAuditActorRole: EventAuditActorRole = resolveEventAuditActorRole({
+    isAdmin: isDeleteActorAdmin,
+    isHost: !isDeleteActorAdmin && event.host_id === sessionUser.id,
+    isCohost: !isDeleteActorAdmin && event.host_id !== sessionUser.id,
+  });
+
   // Phase 4.42l: Hard delete for drafts only
   // Note: RSVPs/claims guardrails removed - users were already notified when event was cancelled
   if (hardDelete) {
@@ -0,0 +1,278 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { isValidDateKey } from "@/lib/events/dateKeyContract";
+import {
+  findBumpTargetSlot,
+  findNextClaimedSlot,
+  MAX_WARNING_SECONDS,
+  RUN_OF_SHOW_ACTIONS,
+  type RunOfShowAction,
+  type RunOfShowSlot,
+} from "@/lib/events/runOfShow";
+
+/**
+ * Run-of-show API — one-tap host actions for the live lineup.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent).
+ * Writes go through the service role: mark_timeslot_performed /
+ * mark_timeslot_no_show are service_role-only RPCs, and co-hosts are not
+ * covered by the event_lineup_state host RLS policy.
+ *
+ * POST  { date_key, action } — act on the current now-playing performer,
+ *       then auto-advance to the next claimed slot:
+ *       - performed:   mark_timeslot_performed
+ *       - no_show:     mark_timeslot_no_show (increments no_show_count,
+ *                      promotes waitlist)
+ *       - skip:        leave the claim confirmed, clear its recorded times
+ *       - bump_to_end: move the claim to the first open slot after the
+ *                      last claimed slot
+ * PATCH { date_key, warning_seconds } — set the countdown warning lead time
+ *
+ * Actual start/end times are stamped by the event_lineup_state trigger
+ * (see 20260505010000_lineup_run_of_show.sql).
+ */
+
+async function authorize(eventId: string) {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const auth = await authorize(eventId);
+  if (auth.error) return auth.error;
+  const { user } = auth;
+
+  let body: { date_key?: unknown; action?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const dateKey = typeof body.date_key === "string" ? body.date_key : null;
+  if (!isValidDateKey(dateKey)) {
+    return NextResponse.json({ error: "date_key must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const action = body.action as RunOfShowAction;
+  if (!RUN_OF_SHOW_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: `action must be one of: ${RUN_OF_SHOW_ACTIONS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const serviceClient = createServiceRoleClient();
+
+  const { data: lineupState, error: stateError } = await serviceClient
+    .from("event_lineup_state")
+    .select("now_playing_timeslot_id")
+    .eq("event_id", eventId)
+    .eq("date_key", dateKey)
+    .maybeSingle();
+
+  if (stateError) {
+    return NextResponse.json({ error: stateError.message }, { status: 500 });
+  }
+
+  const currentSlotId = lineupState?.now_playing_timeslot_id ?? null;
+  if (!currentSlotId) {
+    return NextResponse.json({ error: "Lineup is not live for this date" }, { status: 409 });
+  }
+
+  const { data: slotRows, error: slotsError } = await serviceClient
+    .from("event_timeslots")
+    .select("id, slot_index")
+    .eq("event_id", eventId)
+    .eq("date_key", dateKey)
+    .order("slot_index", { ascending: true });
+
+  if (slotsError) {
+    return NextResponse.json({ error: slotsError.message }, { status: 500 });
+  }
+
+  const slotIds = (slotRows || []).map((s) => s.id);
+  const { data: claimRows, error: claimsError } = slotIds.length
+    ? await serviceClient
+        .from("timeslot_claims")
+        .select("id, timeslot_id, status")
+        .in("timeslot_id", slotIds)
+        .in("status", ["confirmed", "performed"])
+    : { data: [], error: null };
+
+  if (claimsError) {
+    return NextResponse.json({ error: claimsError.message }, { status: 500 });
+  }
+
+  const claimBySlot = new Map((claimRows || []).map((c) => [c.timeslot_id, c]));
+  let slots: RunOfShowSlot[] = (slotRows || []).map((slot) => {
+    const claim = claimBySlot.get(slot.id);
+    return {
+      id: slot.id,
+      slot_index: slot.slot_index,
+      claim: claim ? { id: claim.id, status: claim.status } : null,
+    };
+  });
+
+  const currentClaim = claimBySlot.get(currentSlotId) ?? null;
+  if (action !== "skip" && !currentClaim) {
+    return NextResponse.json({ error: "No performer in the current slot" }, { status: 409 });
+  }
+
+  if (action === "performed" && currentClaim && currentClaim.status === "confirmed") {
+    const { error } = await serviceClient.rpc("mark_timeslot_performed", {
+      p_claim_id: currentClaim.id,
+      p_updated_by: user.id,
+    });
+    if (error) {
+      console.error(`[POST /api/my-events/${eventId}/run-of-show] mark performed failed:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+  }
+
+  if (action === "no_show" && currentClaim) {
+    const { error } = await serviceClient.rpc("mark_timeslot_no_show", {
+      p_claim_id: currentClaim.id,
+      p_updated_by: user.id,
+    });
+    if (error) {
+      console.error(`[POST /api/my-events/${eventId}/run-of-show] mark no-show failed:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+  }
+
+  if (action === "bump_to_end" && currentClaim) {
+    const target = findBumpTargetSlot(slots, currentSlotId);
+    if (!target) {
+      return NextResponse.json(
+        { error: "No open slot at the end of the lineup to bump to" },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await serviceClient
+      .from("timeslot_claims")
+      .update({
+        timeslot_id: target.id,
+        performance_started_at: null,
+        performance_ended_at: null,
+        updated_at: new Date().toISOString(),
+        updated_by: user.id,
+      })
+      .eq("id", currentClaim.id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    slots = slots.map((slot) => {
+      if (slot.id === currentSlotId) return { ...slot, claim: null };
+      if (slot.id === target.id) return { ...slot, claim: { id: currentClaim.id, status: currentClaim.status } };
+      return slot;
+    });
+  }
+
+  // Auto-advance: next slot with a performer waiting (empty slots are skipped)
+  const nextSlot = findNextClaimedSlot(slots, currentSlotId);
+  const { error: advanceError } = await serviceClient
+    .from("event_lineup_state")
+    .upsert({
+      event_id: eventId,
+      date_key: dateKey,
+      now_playing_timeslot_id: nextSlot?.id ?? null,
+      updated_at: new Date().toISOString(),
+      updated_by: user.id,
+    }, {
+      onConflict: "event_id,date_key",
+    });
+
+  if (advanceError) {
+    return NextResponse.json({ error: advanceError.message }, { status: 500 });
+  }
+
+  // A skipped performer hasn't played yet; drop the times the trigger stamped
+  if (action === "skip" && currentClaim) {
+    await serviceClient
+      .from("timeslot_claims")
+      .update({ performance_started_at: null, performance_ended_at: null })
+      .eq("id", currentClaim.id);
+  }
+
+  return NextResponse.json({
+    success: true,
+    action,
+    previousTimeslotId: currentSlotId,
+    nowPlayingTimeslotId: nextSlot?.id ?? null,
+    endOfLineup: !nextSlot,
+  });
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const auth = await authorize(eventId);
+  if (auth.error) return auth.error;
+  const { user } = auth;
+
+  let body: { date_key?: unknown; warning_seconds?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const dateKey = typeof body.date_key === "string" ? body.date_key : null;
+  if (!isValidDateKey(dateKey)) {
+    return NextResponse.json({ error: "date_key must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const warningSeconds = body.warning_seconds;
+  if (
+    typeof warningSeconds !== "number" ||
+    !Number.isInteger(warningSeconds) ||
+    warningSeconds < 0 ||
+    warningSeconds > MAX_WARNING_SECONDS
+  ) {
+    return NextResponse.json(
+      { error: `warning_seconds must be an integer between 0 and ${MAX_WARNING_SECONDS}` },
+      { status: 400 }
+    );
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { error } = await serviceClient
+    .from("event_lineup_state")
+    .upsert({
+      event_id: eventId,
+      date_key: dateKey,
+      warning_seconds: warningSeconds,
+      updated_at: new Date().toISOString(),
+      updated_by: user.id,
+    }, {
+      onConflict: "event_id,date_key",
+    });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, warning_seconds: warningSeconds });
+}
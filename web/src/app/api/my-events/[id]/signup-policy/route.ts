@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { validateSignupPolicy } from "@/lib/events/signupPolicy";
+import type { Json } from "@/lib/supabase/database.types";
+
+/**
+ * Signup policy API — per-event no-show / guest rules for performer slots.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent).
+ * Writes events.signup_policy with the session client, same as the event
+ * PATCH route. Enforcement lives in the timeslot_claims signup-policy
+ * trigger (see 20260506010000_signup_no_show_policies.sql).
+ *
+ * PUT { signup_policy: SignupPolicy | null } — replace the policy; null or
+ *     all rules off clears it.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { signup_policy?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = validateSignupPolicy(body.signup_policy);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("events")
+    .update({
+      signup_policy: result.policy as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, signup_policy: result.policy });
+}
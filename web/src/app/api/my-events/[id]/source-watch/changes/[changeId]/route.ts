@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { isSourceWatchChangeAction } from "@/lib/sourceWatch/config";
+import { resolveSourceWatchChange } from "@/lib/sourceWatch/server";
+
+/**
+ * Resolve a detected source change for this event.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent).
+ * The change must belong to the event in the path (404 otherwise) and still
+ * be pending (409 otherwise).
+ *
+ * PATCH { action: "confirm" | "dismiss" } — confirm applies the change to the
+ *     series or the date's override and writes an audit row.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; changeId: string }> }
+) {
+  const { id: eventId, changeId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { action?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isSourceWatchChangeAction(body.action)) {
+    return NextResponse.json({ error: "action must be confirm or dismiss" }, { status: 400 });
+  }
+
+  const isAdmin = await checkAdminRole(supabase, user.id);
+
+  try {
+    const result = await resolveSourceWatchChange(createServiceRoleClient(), {
+      changeId,
+      eventId,
+      action: body.action,
+      actorId: user.id,
+      actorRole: isAdmin ? "admin" : "host",
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, change: result.change });
+  } catch (error) {
+    console.error("[SourceWatch] Failed to apply change:", error);
+    return NextResponse.json({ error: "Failed to apply change" }, { status: 500 });
+  }
+}
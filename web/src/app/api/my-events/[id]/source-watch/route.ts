@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { checkFetchUrl } from "@/lib/url/safeFetch";
+import { getSourceWatch, saveSourceWatch } from "@/lib/sourceWatch/server";
+
+/**
+ * Source watch API — keep this event in sync with the page it's listed on.
+ *
+ * Auth: admin OR event owner OR accepted host/co-host (canManageEvent).
+ * Watches and their changes are service-role tables, so reads and writes go
+ * through the service-role client only after that check. Checks run in
+ * /api/cron/source-watch; changes are confirmed or dismissed through
+ * ./changes/[changeId].
+ *
+ * GET — the watch (or null), recent detected changes, and the event's
+ *     external_url as the default source.
+ * PUT { enabled: boolean, source_url?: string } — source_url defaults to
+ *     the event's external_url and must be a public http(s) URL.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { data: event } = await serviceClient
+    .from("events")
+    .select("external_url")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  try {
+    const { watch, changes } = await getSourceWatch(serviceClient, eventId);
+    return NextResponse.json({ watch, changes, external_url: event.external_url });
+  } catch (error) {
+    console.error("[SourceWatch] Failed to load watch:", error);
+    return NextResponse.json({ error: "Failed to load source watch" }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const canManage = await canManageEvent(supabase, user.id, eventId);
+  if (!canManage) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: { enabled?: unknown; source_url?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof body.enabled !== "boolean") {
+    return NextResponse.json({ error: "enabled must be true or false" }, { status: 400 });
+  }
+  if (body.source_url !== undefined && body.source_url !== null && typeof body.source_url !== "string") {
+    return NextResponse.json({ error: "source_url must be a string" }, { status: 400 });
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { data: event } = await serviceClient
+    .from("events")
+    .select("external_url")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const rawUrl = (typeof body.source_url === "string" ? body.source_url.trim() : "") || event.external_url || "";
+  if (!rawUrl) {
+    return NextResponse.json({ error: "Add the page this event is listed on first" }, { status: 400 });
+  }
+  const checked = checkFetchUrl(rawUrl);
+  if (!checked.ok) {
+    return NextResponse.json({ error: "source_url must be a public http(s) address", reason: checked.reason }, { status: 400 });
+  }
+
+  try {
+    const watch = await saveSourceWatch(serviceClient, {
+      eventId,
+      sourceUrl: checked.url.toString(),
+      enabled: body.enabled,
+      userId: user.id,
+    });
+    return NextResponse.json({ success: true, watch });
+  } catch (error) {
+    console.error("[SourceWatch] Failed to save watch:", error);
+    return NextResponse.json({ error: "Failed to save source watch" }, { status: 500 });
+  }
+}
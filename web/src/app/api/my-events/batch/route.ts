@@ -0,0 +1,414 @@
+/**
+ * Batch Create API — a reviewed schedule from conversational create
+ *
+ * POST /api/my-events/batch
+ *
+ * Takes the rows a host kept after the concierge batch review
+ * (lib/events/conciergeBatch.ts) and writes them in one transaction via the
+ * create_event_batch() RPC:
+ *   one_offs       one event per date
+ *   custom_series  one recurrence_rule="custom" event; dates that differ
+ *                  from the series time (or carry notes) become overrides
+ *   overrides      per-date overrides on an existing series
+ * Per-date lineups become performer timeslots with guest claims.
+ *
+ * Either the whole batch lands or nothing does. New events are drafts unless
+ * `publish` is set. Auth: any signed-in member may create; overrides need
+ * canManageEvent() on the series.
+ */
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { NextResponse } from "next/server";
+import { checkHostStatus } from "@/lib/auth/adminAuth";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { getTodayDenver } from "@/lib/events/nextOccurrence";
+import { getInvalidEventTypes, normalizeIncomingEventTypes } from "@/lib/events/eventTypeContract";
+import { normalizeSignupMode } from "@/lib/events/signupModeContract";
+import { buildEventInsert, normalizeLocationMode } from "@/lib/events/eventInsert";
+import {
+  buildConciergeOverrides,
+  parseConciergeBatchRequest,
+  pickConciergeSeriesTiming,
+  planConciergeLineupSlots,
+  type ConciergeBatchEntry,
+  type ConciergeBatchRequest,
+  type ConciergeBatchRow,
+} from "@/lib/events/conciergeBatch";
+import { sendAdminEventAlert } from "@/lib/email/adminEventAlerts";
+import {
+  logEventAudit,
+  resolveEventAuditSource,
+  resolveEventAuditActorRole,
+  readEventAuditRequestContext,
+  snapshotFromEventRow,
+} from "@/lib/audit/eventAudit";
+import type { Json } from "@/lib/supabase/database.types";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+type BatchPlan = { ok: true; entries: ConciergeBatchEntry[] } | { ok: false; error: string; status: number };
+
+type BatchResultEvent = {
+  id: string;
+  slug: string | null;
+  event_date: string | null;
+  updated_at: string | null;
+  created: boolean;
+};
+
+// Claim statuses that hold a slot (mirrors idx_timeslot_claims_active_slot)
+const SLOT_HOLDING_CLAIM_STATUSES = new Set(["confirmed", "offered", "performed"]);
+
+function lineupsByDate(rows: ConciergeBatchRow[]): Record<string, string[]> {
+  return Object.fromEntries(rows.filter((row) => row.lineup.length > 0).map((row) => [row.date_key, row.lineup]));
+}
+
+function appendNotes(description: unknown, notes: string | null): string | null {
+  const base = typeof description === "string" ? description.trim() : "";
+  if (!notes) return base || null;
+  return base ? `${base}\n\n${notes}` : notes;
+}
+
+async function planOverrideEntries(
+  supabase: SupabaseServerClient,
+  userId: string,
+  batch: ConciergeBatchRequest
+): Promise<BatchPlan> {
+  const eventId = batch.event_id as string;
+  if (!(await canManageEvent(supabase, userId, eventId))) {
+    return { ok: false, error: "Forbidden", status: 403 };
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { data: event } = await serviceClient
+    .from("events")
+    .select("id, start_time, has_timeslots, total_slots, slot_duration_minutes")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (!event) return { ok: false, error: "Event not found", status: 404 };
+
+  const lineups = lineupsByDate(batch.rows);
+  const lineupDates = Object.keys(lineups);
+  let slotPlan: ReturnType<typeof planConciergeLineupSlots> = { ok: true, timeslots: [], claims: [] };
+
+  if (lineupDates.length > 0) {
+    if (!event.has_timeslots) {
+      return {
+        ok: false,
+        error: "This series does not use performer slots. Turn on timeslots before importing a lineup.",
+        status: 400,
+      };
+    }
+
+    const { data: slots, error: slotsError } = await serviceClient
+      .from("event_timeslots")
+      .select("date_key, slot_index, timeslot_claims(status)")
+      .eq("event_id", eventId)
+      .in("date_key", lineupDates);
+    if (slotsError) return { ok: false, error: slotsError.message, status: 500 };
+
+    slotPlan = planConciergeLineupSlots({
+      dateKeys: lineupDates,
+      lineups,
+      totalSlots: event.total_slots ?? 0,
+      slotDurationMinutes: event.slot_duration_minutes,
+      hasStartTime: !!event.start_time,
+      existingSlots: (slots ?? []).map((slot) => ({
+        date_key: slot.date_key,
+        slot_index: slot.slot_index,
+        claimed: (slot.timeslot_claims ?? []).some((claim) => SLOT_HOLDING_CLAIM_STATUSES.has(claim.status)),
+      })),
+    });
+    if (!slotPlan.ok) return { ok: false, error: slotPlan.error, status: 400 };
+  }
+
+  return {
+    ok: true,
+    entries: [
+      {
+        event_id: eventId,
+        overrides: buildConciergeOverrides(batch.rows, event.start_time),
+        timeslots: slotPlan.timeslots,
+        claims: slotPlan.claims,
+      },
+    ],
+  };
+}
+
+async function planCreateEntries(
+  supabase: SupabaseServerClient,
+  userId: string,
+  isAdmin: boolean,
+  batch: ConciergeBatchRequest
+): Promise<BatchPlan> {
+  const body: Record<string, unknown> = { ...(batch.event as Record<string, unknown>) };
+  body.event_type = normalizeIncomingEventTypes(body.event_type);
+  body.location_mode = normalizeLocationMode(body.location_mode);
+  body.signup_mode = normalizeSignupMode(body.signup_mode);
+  // Media embeds are admin-only and validated by the single-event routes;
+  // add them per event after the batch lands.
+  body.youtube_url = null;
+  body.spotify_url = null;
+
+  if (typeof body.title !== "string" || !body.title.trim()) {
+    return { ok: false, error: "title is required", status: 400 };
+  }
+  const eventTypes = body.event_type as string[];
+  if (eventTypes.length === 0) {
+    return { ok: false, error: "event_type is required", status: 400 };
+  }
+  const invalidTypes = getInvalidEventTypes(eventTypes);
+  if (invalidTypes.length > 0) {
+    return { ok: false, error: `Invalid event_type: ${invalidTypes.join(", ")}`, status: 400 };
+  }
+  if ((body.location_mode === "online" || body.location_mode === "hybrid") && !body.online_url) {
+    return { ok: false, error: "Online URL is required for online or hybrid events", status: 400 };
+  }
+
+  // Location: an existing venue or a custom location, as in POST /api/my-events
+  const hasVenue = typeof body.venue_id === "string" && body.venue_id.length > 0;
+  const customLocationName =
+    typeof body.custom_location_name === "string" ? body.custom_location_name.trim() : "";
+  if (body.location_mode === "venue" || body.location_mode === "hybrid") {
+    if (!hasVenue && !customLocationName) {
+      return {
+        ok: false,
+        error: "Either venue_id or custom_location_name is required for in-person events",
+        status: 400,
+      };
+    }
+    if (hasVenue && customLocationName) {
+      return { ok: false, error: "Cannot have both venue_id and custom_location_name", status: 400 };
+    }
+  }
+
+  let venueName: string | null = null;
+  let venueAddress: string | null = null;
+  if (hasVenue) {
+    const { data: venue } = await supabase
+      .from("venues")
+      .select("name, address, city, state")
+      .eq("id", body.venue_id as string)
+      .maybeSingle();
+    if (!venue) return { ok: false, error: "Venue not found", status: 400 };
+    venueName = venue.name;
+    const addressParts = [venue.address, venue.city, venue.state].filter(Boolean);
+    venueAddress = addressParts.length > 0 ? addressParts.join(", ") : null;
+  }
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() || null : null);
+  const customLocationFields = {
+    custom_location_name: hasVenue ? null : customLocationName || null,
+    custom_address: hasVenue ? null : text(body.custom_address),
+    custom_city: hasVenue ? null : text(body.custom_city),
+    custom_state: hasVenue ? null : text(body.custom_state),
+    custom_latitude: hasVenue ? null : typeof body.custom_latitude === "number" ? body.custom_latitude : null,
+    custom_longitude: hasVenue ? null : typeof body.custom_longitude === "number" ? body.custom_longitude : null,
+    location_notes: hasVenue ? null : text(body.location_notes),
+  };
+
+  const isApprovedHost = await checkHostStatus(supabase, userId);
+  const isCSCEvent = (isApprovedHost || isAdmin) && body.is_dsc_event === true;
+  body.is_published = batch.publish;
+  const publishedAt = batch.publish ? new Date().toISOString() : null;
+
+  // A lineup on any date turns on performer slots, sized for the longest one
+  const lineups = lineupsByDate(batch.rows);
+  const longestLineup = Math.max(0, ...Object.values(lineups).map((lineup) => lineup.length));
+  if (longestLineup > 0) {
+    body.has_timeslots = true;
+    body.total_slots = Math.max(typeof body.total_slots === "number" ? body.total_slots : 0, longestLineup);
+    body.slot_duration_minutes = typeof body.slot_duration_minutes === "number" ? body.slot_duration_minutes : 15;
+  }
+  const totalSlots = body.has_timeslots === true && typeof body.total_slots === "number" ? body.total_slots : 0;
+
+  const insertFor = (rowBody: Record<string, unknown>, eventDate: string) =>
+    buildEventInsert({
+      userId,
+      body: rowBody,
+      isCSCEvent,
+      eventStatus: "active",
+      publishedAt,
+      venueName,
+      venueAddress,
+      finalVenueId: hasVenue ? (body.venue_id as string) : null,
+      customLocationFields,
+      eventDate,
+      seriesId: null,
+      seriesIndex: null,
+    });
+
+  const entries: ConciergeBatchEntry[] = [];
+
+  if (batch.shape === "custom_series") {
+    const timing = pickConciergeSeriesTiming(batch.rows, {
+      start_time: text(body.start_time),
+      end_time: text(body.end_time),
+    });
+    const dates = batch.rows.map((row) => row.date_key);
+    const seriesBody = {
+      ...body,
+      start_time: timing.start_time,
+      end_time: timing.end_time,
+      series_mode: "custom",
+      recurrence_rule: "custom",
+      custom_dates: dates,
+      day_of_week: null,
+      occurrence_count: null,
+    };
+    const slotPlan = planConciergeLineupSlots({
+      dateKeys: totalSlots > 0 ? dates : [],
+      lineups,
+      totalSlots,
+      slotDurationMinutes: body.slot_duration_minutes as number | null,
+      hasStartTime: !!timing.start_time,
+    });
+    if (!slotPlan.ok) return { ok: false, error: slotPlan.error, status: 400 };
+
+    entries.push({
+      event: insertFor(seriesBody, dates[0]),
+      overrides: buildConciergeOverrides(batch.rows, timing.start_time),
+      timeslots: slotPlan.timeslots,
+      claims: slotPlan.claims,
+    });
+  } else {
+    for (const row of batch.rows) {
+      const rowBody = {
+        ...body,
+        start_time: row.start_time ?? body.start_time,
+        end_time: row.start_time ? row.end_time : (row.end_time ?? body.end_time ?? null),
+        description: appendNotes(body.description, row.notes),
+        series_mode: "single",
+        recurrence_rule: null,
+        custom_dates: null,
+        day_of_week: null,
+        occurrence_count: null,
+      };
+      const slotPlan = planConciergeLineupSlots({
+        dateKeys: totalSlots > 0 ? [row.date_key] : [],
+        lineups,
+        totalSlots,
+        slotDurationMinutes: body.slot_duration_minutes as number | null,
+        hasStartTime: !!rowBody.start_time,
+      });
+      if (!slotPlan.ok) return { ok: false, error: slotPlan.error, status: 400 };
+
+      entries.push({
+        event: insertFor(rowBody, row.date_key),
+        overrides: [],
+        timeslots: slotPlan.timeslots,
+        claims: slotPlan.claims,
+      });
+    }
+  }
+
+  return { ok: true, entries };
+}
+
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user: sessionUser },
+  } = await supabase.auth.getUser();
+
+  if (!sessionUser) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseConciergeBatchRequest(body, { todayKey: getTodayDenver() });
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const batch = parsed.value;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, full_name")
+    .eq("id", sessionUser.id)
+    .single();
+  const isAdmin = profile?.role === "admin";
+
+  const plan =
+    batch.shape === "overrides"
+      ? await planOverrideEntries(supabase, sessionUser.id, batch)
+      : await planCreateEntries(supabase, sessionUser.id, isAdmin, batch);
+  if (!plan.ok) {
+    return NextResponse.json({ error: plan.error }, { status: plan.status });
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { data: result, error: batchError } = await serviceClient.rpc("create_event_batch", {
+    p_user_id: sessionUser.id,
+    p_entries: plan.entries as unknown as Json,
+  });
+
+  if (batchError) {
+    console.error("[POST /api/my-events/batch] Batch failed, nothing was written:", batchError.message);
+    if (batchError.code === "23505") {
+      return NextResponse.json(
+        { error: "A lineup slot was taken while you were reviewing. Reload the schedule and try again." },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: batchError.message }, { status: 500 });
+  }
+
+  const summary = result as { events: BatchResultEvent[]; overrides: number; timeslots: number; claims: number };
+  const aiWriteSource =
+    typeof (body as Record<string, unknown>).ai_write_source === "string"
+      ? ((body as Record<string, unknown>).ai_write_source as string)
+      : null;
+  const requestContext = readEventAuditRequestContext(request);
+
+  summary.events.forEach((event, index) => {
+    const entry = plan.entries[index];
+    const row = { ...(entry.event ?? {}), id: event.id, slug: event.slug, event_date: event.event_date };
+    void logEventAudit({
+      eventId: event.id,
+      eventSnapshot: snapshotFromEventRow(event.id, row),
+      actorId: sessionUser.id,
+      actorRole: resolveEventAuditActorRole({ isAdmin, isHost: !isAdmin, isCohost: false }),
+      action: event.created ? "create" : "update",
+      source: resolveEventAuditSource({ aiWriteSource, body: body as Record<string, unknown> }),
+      ...(event.created
+        ? { nextEvent: row }
+        : { summary: `Schedule import: ${entry.overrides.length} overrides, ${entry.claims.length} lineup slots` }),
+      request: requestContext,
+    }).catch(() => {});
+  });
+
+  const created = summary.events.filter((event) => event.created);
+  if (!isAdmin && created.length > 0) {
+    sendAdminEventAlert({
+      type: "created",
+      actionContext: "create",
+      actorUserId: sessionUser.id,
+      actorRole: profile?.role || "member",
+      actorName: profile?.full_name || null,
+      actorEmail: sessionUser.email || null,
+      eventId: created[0].id,
+      eventSlug: created[0].slug,
+      eventTitle: typeof batch.event?.title === "string" ? batch.event.title : null,
+      eventDate: created[0].event_date,
+      seriesCount: created.length,
+    }).catch((emailError) => {
+      console.error("[POST /api/my-events/batch] Failed to send non-admin create admin email:", emailError);
+    });
+  }
+
+  return NextResponse.json({
+    shape: batch.shape,
+    events: summary.events,
+    overrides: summary.overrides,
+    timeslots: summary.timeslots,
+    claims: summary.claims,
+    is_published: batch.shape === "overrides" ? null : batch.publish,
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { sendEmail, getNewsletterWelcomeEmail } from "@/lib/email";
+import { buildNewsletterUnsubscribeUrl } from "@/lib/digest/unsubscribeToken";
 
 export async function POST(request: NextRequest) {
   try {
@@ -62,6 +63,7 @@ export async function POST(request: NextRequest) {
         html: emailContent.html,
         text: emailContent.text,
         templateName: "newsletterWelcome",
+        listUnsubscribeUrl: buildNewsletterUnsubscribeUrl(normalizedEmail),
       });
     } catch (emailError) {
       // Log but don't fail the signup if email fails
@@ -2,9 +2,11 @@
  * One-Click Newsletter Unsubscribe Endpoint
  *
  * GET /api/newsletter/unsubscribe?email={email}&sig={hmacSignature}
+ * POST (same URL) — RFC 8058 one-click from the List-Unsubscribe header
  *
  * Validates HMAC-signed token, sets unsubscribed_at on newsletter_subscribers,
- * then redirects to confirmation page. No login required.
+ * then redirects to confirmation page (GET) or returns 200 (POST).
+ * No login required.
  *
  * Idempotent: calling multiple times has the same effect.
  *
@@ -20,6 +22,29 @@ const SITE_URL =
   process.env.NEXT_PUBLIC_SITE_URL ||
   "https://coloradosongwriterscollective.org";
 
+/**
+ * Mark a newsletter subscriber unsubscribed. Returns false on DB error.
+ */
+async function unsubscribeSubscriber(normalizedEmail: string): Promise<boolean> {
+  // Set unsubscribed_at on newsletter_subscribers via service role (bypasses RLS)
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from("newsletter_subscribers")
+    .update({ unsubscribed_at: new Date().toISOString() })
+    .eq("email", normalizedEmail);
+
+  if (error) {
+    console.error("[NewsletterUnsubscribe] DB error:", error);
+    return false;
+  }
+
+  console.log(
+    `[NewsletterUnsubscribe] Successfully unsubscribed email=${normalizedEmail}`
+  );
+  return true;
+}
+
 export async function GET(request: NextRequest) {
   const email = request.nextUrl.searchParams.get("email");
   const sig = request.nextUrl.searchParams.get("sig");
@@ -44,26 +69,13 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Set unsubscribed_at on newsletter_subscribers via service role (bypasses RLS)
   try {
-    const supabase = createServiceRoleClient();
-
-    const { error } = await supabase
-      .from("newsletter_subscribers")
-      .update({ unsubscribed_at: new Date().toISOString() })
-      .eq("email", normalizedEmail);
-
-    if (error) {
-      console.error("[NewsletterUnsubscribe] DB error:", error);
+    if (!(await unsubscribeSubscriber(normalizedEmail))) {
       return NextResponse.redirect(
         `${SITE_URL}/newsletter/unsubscribed?error=failed`
       );
     }
 
-    console.log(
-      `[NewsletterUnsubscribe] Successfully unsubscribed email=${normalizedEmail}`
-    );
-
     return NextResponse.redirect(
       `${SITE_URL}/newsletter/unsubscribed?success=1`
     );
@@ -74,3 +86,29 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * RFC 8058 one-click unsubscribe. Mail clients POST
+ * "List-Unsubscribe=One-Click" to the header URL; the signed query string
+ * is the credential, so the body isn't needed.
+ */
+export async function POST(request: NextRequest) {
+  const email = request.nextUrl.searchParams.get("email");
+  const sig = request.nextUrl.searchParams.get("sig");
+  const normalizedEmail = email?.toLowerCase().trim();
+
+  if (!normalizedEmail || !sig || !validateNewsletterUnsubscribeToken(normalizedEmail, sig)) {
+    console.warn("[NewsletterUnsubscribe] Invalid one-click request");
+    return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+  }
+
+  try {
+    if (!(await unsubscribeSubscriber(normalizedEmail))) {
+      return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[NewsletterUnsubscribe] Unexpected error:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe" }, { status: 500 });
+  }
+}
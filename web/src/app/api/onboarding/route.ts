@@ -88,6 +88,26 @@ export async function POST(request: Request) {
       .eq('id', user.id)
       .maybeSingle();
 
+    // Home region: null clears it (default region); absent leaves it alone
+    let homeRegionId: number | null | undefined;
+    if (body.home_region_id === null) {
+      homeRegionId = null;
+    } else if (body.home_region_id !== undefined) {
+      const regionId = Number(body.home_region_id);
+      const { data: region } = Number.isInteger(regionId)
+        ? await serviceClient
+            .from('regions')
+            .select('id')
+            .eq('id', regionId)
+            .eq('is_active', true)
+            .maybeSingle()
+        : { data: null };
+      if (!region) {
+        return NextResponse.json({ error: 'Unknown home region' }, { status: 400 });
+      }
+      homeRegionId = region.id;
+    }
+
     const shouldApplyReferral = hasReferralParams(referral);
     const profileUpdatePayload = {
       full_name: full_name || null,
@@ -109,6 +129,7 @@ export async function POST(request: Request) {
       interested_in_cowriting,
       instruments: instruments?.length > 0 ? instruments : null,
       genres: genres?.length > 0 ? genres : null,
+      home_region_id: homeRegionId,
       referred_by_profile_id: shouldApplyReferral
         ? (existingProfile?.referred_by_profile_id ?? referral.ref ?? null)
         : undefined,
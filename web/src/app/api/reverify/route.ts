@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { isReverificationAnswer, REVERIFICATION_CONFIG } from "@/lib/reverification/config";
+import {
+  applyReverificationAnswer,
+  lookupReverificationRequest,
+} from "@/lib/reverification/server";
+
+interface ReverifyBody {
+  token?: unknown;
+  answer?: unknown;
+  notes?: unknown;
+}
+
+/**
+ * POST /api/reverify
+ *
+ * Answer a reverification request ("still happening" / "changed" / "ended")
+ * with the signed token from the email. No login: the token is the
+ * credential, scoped to one request and recipient, and usable once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ReverifyBody;
+    const { token, answer, notes } = body;
+
+    if (typeof token !== "string" || !token || !isReverificationAnswer(answer)) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== "string") {
+      return NextResponse.json(
+        { error: "Invalid notes" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof notes === "string" && notes.length > REVERIFICATION_CONFIG.MAX_NOTES_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes exceed maximum length of ${REVERIFICATION_CONFIG.MAX_NOTES_LENGTH}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceRoleClient();
+    const lookup = await lookupReverificationRequest(supabase, token);
+    if (!lookup.ok) {
+      return NextResponse.json({ error: lookup.error }, { status: lookup.status });
+    }
+
+    // Verify answer matches token
+    if (lookup.context.payload.answer !== answer) {
+      return NextResponse.json(
+        { error: "Token answer mismatch" },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyReverificationAnswer(supabase, lookup.context, { notes });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, answer });
+  } catch (error) {
+    console.error("Reverify error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,15 @@
 /**
  * Digest Unsubscribe Confirmation Page
  *
- * Public page shown after one-click unsubscribe.
+ * Public page shown after one-click unsubscribe (the weekly digest, or one
+ * email category via /api/email/unsubscribe).
  * Warm, community-forward tone with easy opt-back-in.
  *
  * Phase: GTM-2
  */
 
 import Link from "next/link";
+import { EMAIL_CATEGORY_LABELS, isEmailCategory } from "@/lib/notifications/preferences";
 
 export const metadata = {
   title: "Unsubscribed — The Colorado Songwriters Collective",
@@ -15,13 +17,16 @@ export const metadata = {
 };
 
 interface PageProps {
-  searchParams: Promise<{ success?: string; error?: string }>;
+  searchParams: Promise<{ success?: string; error?: string; category?: string }>;
 }
 
 export default async function UnsubscribedPage({ searchParams }: PageProps) {
   const params = await searchParams;
   const success = params.success === "1";
   const error = params.error;
+  const category = isEmailCategory(params.category) && params.category !== "digests"
+    ? params.category
+    : null;
 
   return (
     <main className="min-h-screen flex items-center justify-center px-6 py-12">
@@ -33,8 +38,17 @@ export default async function UnsubscribedPage({ searchParams }: PageProps) {
               You&apos;ve been unsubscribed
             </h1>
             <p className="text-[var(--color-text-secondary)] mb-6 leading-relaxed">
-              We&apos;ve removed you from the weekly digest. You&apos;ll still be part of the community
-              — just without the weekly email.
+              {category ? (
+                <>
+                  We&apos;ve turned off {EMAIL_CATEGORY_LABELS[category]} emails. You&apos;ll still see
+                  these in your dashboard notifications.
+                </>
+              ) : (
+                <>
+                  We&apos;ve removed you from the weekly digest. You&apos;ll still be part of the community
+                  — just without the weekly email.
+                </>
+              )}
             </p>
             <p className="text-[var(--color-text-secondary)] mb-8 leading-relaxed">
               Changed your mind? You can re-subscribe anytime from your settings.
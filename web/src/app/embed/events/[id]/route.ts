@@ -1,3 +1,4 @@
+import { after } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { hasMissingDetails } from "@/lib/events/missingDetails";
 import { getPublicVerificationState } from "@/lib/events/verification";
@@ -6,6 +7,7 @@ import { interpretRecurrence, labelFromRecurrence } from "@/lib/events/recurrenc
 import { EVENT_TYPE_CONFIG, getPrimaryEventType, type EventType } from "@/types/events";
 import { isExternalEmbedsEnabled } from "@/lib/featureFlags";
 import { getSiteUrl } from "@/lib/siteUrl";
+import { clientIpFromHeaders, recordEventView } from "@/lib/events/eventViews";
 
 export const dynamic = "force-dynamic";
 
@@ -391,6 +393,19 @@ export async function GET(request: Request, context: RouteContext): Promise<Resp
   );
 
   const occurrenceDate = isDateKey(selectedDate) ? selectedDate : nextOccurrence.date;
+
+  // Host analytics: the Referer here is the site embedding the card
+  after(() =>
+    recordEventView({
+      eventId: embedEvent.id,
+      dateKey: nextOccurrence.isConfident ? occurrenceDate : null,
+      surface: "embed",
+      searchParams: url.searchParams,
+      referer: request.headers.get("referer"),
+      userAgent: request.headers.get("user-agent"),
+      clientIp: clientIpFromHeaders(request.headers),
+    })
+  );
   const dateLabel = nextOccurrence.isConfident ? formatDate(occurrenceDate) : "Schedule unknown";
   const timeStart = formatTime(embedEvent.start_time);
   const timeEnd = formatTime(embedEvent.end_time);
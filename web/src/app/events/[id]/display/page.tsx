@@ -8,6 +8,9 @@ import QRCode from "qrcode";
 import { expandOccurrencesForEvent } from "@/lib/events/nextOccurrence";
 import { LineupStateBanner } from "@/components/events/LineupStateBanner";
 import { TvQrStrip } from "@/components/events/TvQrStrip";
+import { useLineupRealtime } from "@/hooks/useLineupRealtime";
+import { getLineupPollIntervalMs } from "@/lib/events/lineupRealtime";
+import { SlotCountdown } from "@/components/events/SlotCountdown";
 
 /**
  * Phase 4.104: TV Poster Mode
@@ -51,6 +54,8 @@ interface TimeslotWithClaim {
 interface LineupState {
   now_playing_timeslot_id: string | null;
   updated_at: string | null;
+  now_playing_started_at: string | null;
+  warning_seconds: number;
 }
 
 interface EventInfo {
@@ -458,7 +463,7 @@ export default function EventDisplayPage() {
     // Phase 4.100.2: Use resolvedUuid instead of routeParam
     const { data: state, error: stateError } = await supabase
       .from("event_lineup_state")
-      .select("now_playing_timeslot_id, updated_at")
+      .select("now_playing_timeslot_id, updated_at, now_playing_started_at, warning_seconds")
       .eq("event_id", resolvedUuid)
       .eq("date_key", dateKey)
       .maybeSingle();
@@ -520,12 +525,26 @@ export default function EventDisplayPage() {
     }
   }, [routeParam, supabase, urlDate, failureCount, staticDataLoaded, fetchStaticData, tvMode]);
 
-  // Initial fetch and auto-refresh every 5 seconds
+  // Realtime push: lineup/claim changes trigger an immediate refetch,
+  // and this display announces itself via presence for the host dashboard
+  const timeslotIds = React.useMemo(() => timeslots.map((s) => s.id), [timeslots]);
+  const { realtimeStatus } = useLineupRealtime({
+    supabase,
+    eventId: eventUuid,
+    dateKey: effectiveDateKey,
+    timeslotIds,
+    presenceRole: "display",
+    onChange: fetchData,
+  });
+
+  // Initial fetch, then a slow safety poll while realtime is live
+  // (falls back to every 5 seconds if the channel is down)
+  const pollIntervalMs = getLineupPollIntervalMs(realtimeStatus, 5000);
   React.useEffect(() => {
     fetchData();
-    const interval = setInterval(fetchData, 5000);
+    const interval = setInterval(fetchData, pollIntervalMs);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, pollIntervalMs]);
 
   // Phase 4.105: Generate Event QR locally (tied to dateKey/event changes)
   // Phase 4.108: Also generate CSC Join QR for homepage
@@ -893,6 +912,15 @@ export default function EventDisplayPage() {
                     <h3 className="text-5xl font-bold text-white drop-shadow-lg leading-tight whitespace-normal break-normal max-w-full">
                       {getClaimDisplayName(nowPlayingSlot?.claim)}
                     </h3>
+                    {/* Run of show: mirrors the host console timer */}
+                    {nowPlayingSlot && lineupState && (
+                      <SlotCountdown
+                        startedAt={lineupState.now_playing_started_at}
+                        durationMinutes={nowPlayingSlot.duration_minutes}
+                        warningSeconds={lineupState.warning_seconds}
+                        variant="tv"
+                      />
+                    )}
                     {/* QR code with prominent CTA */}
                     {nowPlayingSlot?.claim?.member && qrCodes.get(nowPlayingSlot.claim.member.id) && (
                       <div className="flex flex-col items-center">
@@ -1185,6 +1213,16 @@ export default function EventDisplayPage() {
                     ? formatSlotTime(event?.start_time || null, nowPlayingSlot.start_offset_minutes, nowPlayingSlot.duration_minutes)
                     : ""}
                 </p>
+                {nowPlayingSlot && lineupState && (
+                  <div className="mt-4">
+                    <SlotCountdown
+                      startedAt={lineupState.now_playing_started_at}
+                      durationMinutes={nowPlayingSlot.duration_minutes}
+                      warningSeconds={lineupState.warning_seconds}
+                      variant="tv"
+                    />
+                  </div>
+                )}
                 {nowPlayingSlot?.claim?.member && qrCodes.get(nowPlayingSlot.claim.member.id) && (
                   <div className="mt-6">
                     <Image
@@ -12,6 +12,17 @@ import { LineupStateBanner } from "@/components/events/LineupStateBanner";
 import { LineupDatePicker } from "@/components/events/LineupDatePicker";
 import { expandOccurrencesForEvent } from "@/lib/events/nextOccurrence";
 import { getEventDisplayUrl } from "@/lib/events/urls";
+import { useLineupRealtime } from "@/hooks/useLineupRealtime";
+import { getLineupPollIntervalMs } from "@/lib/events/lineupRealtime";
+import { RunOfShowConsole } from "@/components/events/RunOfShowConsole";
+import { LotteryDrawPanel } from "@/components/events/LotteryDrawPanel";
+import { LOTTERY_SIGNUP_MODE } from "@/lib/events/lottery";
+import {
+  computePerformerDrift,
+  DEFAULT_WARNING_SECONDS,
+  findNextClaimedSlot,
+  formatDriftMinutes,
+} from "@/lib/events/runOfShow";
 
 /**
  * Phase 4.100.2: Check if string is a valid UUID
@@ -33,6 +44,8 @@ interface TimeslotClaim {
   guest_name: string | null;
   guest_email: string | null;
   member: Performer | null;
+  performance_started_at: string | null;
+  performance_ended_at: string | null;
 }
 
 interface Timeslot {
@@ -53,13 +66,23 @@ interface EventInfo {
   is_recurring: boolean;
   day_of_week: string | null;
   recurrence_rule: string | null;
+  signup_mode: string | null;
 }
 
 interface LineupState {
   now_playing_timeslot_id: string | null;
   updated_at: string | null;
+  now_playing_started_at: string | null;
+  warning_seconds: number;
 }
 
+const EMPTY_LINEUP_STATE: LineupState = {
+  now_playing_timeslot_id: null,
+  updated_at: null,
+  now_playing_started_at: null,
+  warning_seconds: DEFAULT_WARNING_SECONDS,
+};
+
 function formatSlotTime(startTime: string | null, offsetMinutes: number, durationMinutes: number): string {
   if (!startTime) return "";
 
@@ -67,15 +90,15 @@ function formatSlotTime(startTime: string | null, offsetMinutes: number, duratio
   const startMinutes = hours * 60 + minutes + offsetMinutes;
   const endMinutes = startMinutes + durationMinutes;
 
-  const formatTime = (totalMins: number) => {
-    const h = Math.floor(totalMins / 60) % 24;
-    const m = totalMins % 60;
-    const period = h >= 12 ? "PM" : "AM";
-    const displayHour = h === 0 ? 12 : h > 12 ? h - 12 : h;
-    return `${displayHour}:${m.toString().padStart(2, "0")} ${period}`;
-  };
+  return `${formatClockMinutes(startMinutes)} - ${formatClockMinutes(endMinutes)}`;
+}
 
-  return `${formatTime(startMinutes)} - ${formatTime(endMinutes)}`;
+function formatClockMinutes(totalMins: number): string {
+  const h = Math.floor(totalMins / 60) % 24;
+  const m = totalMins % 60;
+  const period = h >= 12 ? "PM" : "AM";
+  const displayHour = h === 0 ? 12 : h > 12 ? h - 12 : h;
+  return `${displayHour}:${m.toString().padStart(2, "0")} ${period}`;
 }
 
 function getClaimDisplayName(claim: TimeslotClaim | null | undefined): string {
@@ -115,7 +138,7 @@ export default function LineupControlPage() {
 
   const [event, setEvent] = React.useState<EventInfo | null>(null);
   const [timeslots, setTimeslots] = React.useState<Timeslot[]>([]);
-  const [lineupState, setLineupState] = React.useState<LineupState>({ now_playing_timeslot_id: null, updated_at: null });
+  const [lineupState, setLineupState] = React.useState<LineupState>(EMPTY_LINEUP_STATE);
   const [loading, setLoading] = React.useState(true);
   const [updating, setUpdating] = React.useState(false);
   const [isAuthorized, setIsAuthorized] = React.useState(false);
@@ -203,7 +226,7 @@ export default function LineupControlPage() {
       // Fetch event info with recurrence fields for date_key computation
       const eventQuery = supabase
         .from("events")
-        .select("id, title, slug, venue_name, start_time, event_date, is_recurring, day_of_week, recurrence_rule");
+        .select("id, title, slug, venue_name, start_time, event_date, is_recurring, day_of_week, recurrence_rule, signup_mode");
 
       const { data: eventData, error: eventError } = isUUID(routeParam)
         ? await eventQuery.eq("id", routeParam).single()
@@ -287,6 +310,7 @@ export default function LineupControlPage() {
           .from("timeslot_claims")
           .select(`
             id, timeslot_id, status, guest_name, guest_email,
+            performance_started_at, performance_ended_at,
             member:profiles!timeslot_claims_member_id_fkey(id, full_name, avatar_url)
           `)
           .in("timeslot_id", slotIds)
@@ -294,7 +318,16 @@ export default function LineupControlPage() {
 
         if (claimsError) throw claimsError;
 
-        type ClaimRow = { id: string; timeslot_id: string; status: string; guest_name: string | null; guest_email: string | null; member: Performer | null };
+        type ClaimRow = {
+          id: string;
+          timeslot_id: string;
+          status: string;
+          guest_name: string | null;
+          guest_email: string | null;
+          performance_started_at: string | null;
+          performance_ended_at: string | null;
+          member: Performer | null;
+        };
         const claimsBySlot = new Map<string, TimeslotClaim>();
         ((claims || []) as ClaimRow[]).forEach((claim) => {
           claimsBySlot.set(claim.timeslot_id, {
@@ -303,6 +336,8 @@ export default function LineupControlPage() {
             guest_name: claim.guest_name,
             guest_email: claim.guest_email,
             member: claim.member,
+            performance_started_at: claim.performance_started_at,
+            performance_ended_at: claim.performance_ended_at,
           });
         });
 
@@ -320,7 +355,7 @@ export default function LineupControlPage() {
       // Phase 4.100.2: Use resolvedUuid instead of routeParam
       const { data: state, error: stateError } = await supabase
         .from("event_lineup_state")
-        .select("now_playing_timeslot_id, updated_at")
+        .select("now_playing_timeslot_id, updated_at, now_playing_started_at, warning_seconds")
         .eq("event_id", resolvedUuid)
         .eq("date_key", dateKey)
         .maybeSingle();
@@ -331,7 +366,7 @@ export default function LineupControlPage() {
         setLineupState(state);
       } else {
         // Reset to default if no state for this date
-        setLineupState({ now_playing_timeslot_id: null, updated_at: null });
+        setLineupState(EMPTY_LINEUP_STATE);
       }
 
       // Phase 4.99: Update connection health
@@ -369,12 +404,24 @@ export default function LineupControlPage() {
     }
   }, [routeParam, supabase, urlDate, failureCount]);
 
+  // Realtime push: claims and now-playing changes from other hosts/devices
+  // trigger an immediate refetch
+  const timeslotIds = React.useMemo(() => timeslots.map((s) => s.id), [timeslots]);
+  const { realtimeStatus, connectedDisplays } = useLineupRealtime({
+    supabase,
+    eventId: eventUuid,
+    dateKey: effectiveDateKey,
+    timeslotIds,
+    presenceRole: "control",
+    onChange: fetchData,
+  });
+
   React.useEffect(() => {
     fetchData();
-    // Auto-refresh every 10 seconds
-    const interval = setInterval(fetchData, 10000);
+    // Safety poll while realtime is live; every 10 seconds if the channel is down
+    const interval = setInterval(fetchData, getLineupPollIntervalMs(realtimeStatus, 10000));
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, realtimeStatus]);
 
   // Phase 4.100: Immediate refresh on visibility/focus with debounce
   React.useEffect(() => {
@@ -444,8 +491,10 @@ export default function LineupControlPage() {
       console.error("Failed to update lineup state:", error);
       alert("Failed to update: " + error.message);
     } else {
-      setLineupState({ now_playing_timeslot_id: newTimeslotId, updated_at: new Date().toISOString() });
+      setLineupState((prev) => ({ ...prev, now_playing_timeslot_id: newTimeslotId, updated_at: new Date().toISOString() }));
       setLastUpdated(new Date());
+      // Refetch to pick up the trigger-stamped now_playing_started_at for the timer
+      fetchData();
     }
 
     setUpdating(false);
@@ -571,6 +620,25 @@ export default function LineupControlPage() {
   const nextSlot = currentSlotIndex >= 0 && currentSlotIndex + 1 < timeslots.length
     ? timeslots[currentSlotIndex + 1]
     : null;
+  // Run of show: who the console will advance to (open slots skipped)
+  const upNextClaimedSlot = findNextClaimedSlot(timeslots, lineupState.now_playing_timeslot_id);
+
+  // How far the night has drifted: most recent performer who went on
+  const getSlotDrift = (slot: Timeslot) =>
+    effectiveDateKey && slot.claim
+      ? computePerformerDrift({
+          dateKey: effectiveDateKey,
+          eventStartTime: event?.start_time ?? null,
+          startOffsetMinutes: slot.start_offset_minutes,
+          performanceStartedAt: slot.claim.performance_started_at,
+          performanceEndedAt: slot.claim.performance_ended_at,
+        })
+      : null;
+  const latestDrift = [...timeslots]
+    .filter((slot) => slot.claim?.performance_started_at)
+    .sort((a, b) => (b.claim?.performance_started_at ?? "").localeCompare(a.claim?.performance_started_at ?? ""))
+    .map(getSlotDrift)
+    .find((drift) => drift !== null) ?? null;
 
   return (
     <div className="min-h-screen bg-[var(--color-background)] p-4 md:p-8">
@@ -674,6 +742,12 @@ export default function LineupControlPage() {
               {copied ? "Copied!" : "Copy"}
             </button>
           </div>
+          <p className="mt-2 text-xs text-[var(--color-text-tertiary)]" data-testid="connected-displays">
+            {connectedDisplays > 0
+              ? `📺 ${connectedDisplays} display${connectedDisplays === 1 ? "" : "s"} connected`
+              : "No displays connected"}
+            {realtimeStatus !== "live" && " · live updates paused, refreshing every 10s"}
+          </p>
         </div>
 
         {/* Live Status Control */}
@@ -723,6 +797,27 @@ export default function LineupControlPage() {
           )}
         </div>
 
+        {/* Run of show: per-performer timer + one-tap actions */}
+        {isLive && eventUuid && effectiveDateKey && (
+          <RunOfShowConsole
+            eventId={eventUuid}
+            dateKey={effectiveDateKey}
+            performerName={hasClaimedPerformer(currentSlot?.claim) ? getClaimDisplayName(currentSlot?.claim) : null}
+            upNextName={upNextClaimedSlot ? getClaimDisplayName(upNextClaimedSlot.claim) : null}
+            startedAt={lineupState.now_playing_started_at}
+            durationMinutes={currentSlot?.duration_minutes ?? 0}
+            warningSeconds={lineupState.warning_seconds}
+            onChanged={fetchData}
+          />
+        )}
+
+        {/* Hat draw: seed + result so the lineup can be verified */}
+        {event?.signup_mode === LOTTERY_SIGNUP_MODE && eventUuid && effectiveDateKey && (
+          <div className="mb-6">
+            <LotteryDrawPanel eventId={eventUuid} dateKey={effectiveDateKey} />
+          </div>
+        )}
+
         {/* Navigation Controls */}
         <div className="bg-[var(--color-bg-secondary)] rounded-xl border border-[var(--color-border-default)] p-6 mb-6">
           <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-4">Quick Controls</h2>
@@ -748,7 +843,17 @@ export default function LineupControlPage() {
 
         {/* Full Lineup */}
         <div className="bg-[var(--color-bg-secondary)] rounded-xl border border-[var(--color-border-default)] p-6">
-          <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-4">Full Lineup</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-[var(--color-text-primary)]">Full Lineup</h2>
+            {latestDrift && (
+              <span
+                className={`text-sm font-medium ${latestDrift.driftMinutes > 5 ? "text-amber-400" : "text-[var(--color-text-secondary)]"}`}
+                data-testid="schedule-drift"
+              >
+                Schedule: {formatDriftMinutes(latestDrift.driftMinutes)}
+              </span>
+            )}
+          </div>
           <p className="text-sm text-[var(--color-text-tertiary)] mb-4">
             Click on a slot to jump to that performer
           </p>
@@ -763,6 +868,7 @@ export default function LineupControlPage() {
             {timeslots.map((slot, idx) => {
               const isCurrent = slot.id === lineupState.now_playing_timeslot_id;
               const isPast = idx < currentSlotIndex;
+              const drift = getSlotDrift(slot);
 
               return (
                 <button
@@ -813,6 +919,15 @@ export default function LineupControlPage() {
                         )}
                         <p className="text-xs text-[var(--color-text-tertiary)]">
                           {formatSlotTime(event?.start_time || null, slot.start_offset_minutes, slot.duration_minutes)}
+                          {drift && (
+                            <span className="ml-2">
+                              · went on {formatClockMinutes(drift.actualStartMinutes)} ({formatDriftMinutes(drift.driftMinutes)})
+                              {drift.actualDurationMinutes !== null && `, played ${drift.actualDurationMinutes} min`}
+                            </span>
+                          )}
+                          {slot.claim?.status === "performed" && (
+                            <span className="ml-2 text-emerald-400">✓ performed</span>
+                          )}
                         </p>
                       </div>
                     </div>
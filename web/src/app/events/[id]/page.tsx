@@ -37,9 +37,13 @@ import {
 import { getOccurrenceWindowNotice } from "@/lib/events/occurrenceWindow";
 import { getVenueDirectionsUrl } from "@/lib/venue/getDirectionsUrl";
 import { getSignupMeta } from "@/lib/events/signupMeta";
+import { parseSignupPolicy } from "@/lib/events/signupPolicy";
 import { isExternalEmbedsEnabled } from "@/lib/featureFlags";
 import { buildEventOgImageUrl } from "@/lib/events/sharePreview";
+import { buildCalendarFeedUrl } from "@/lib/calendar/icalFeed";
+import { getSiteUrl } from "@/lib/siteUrl";
 import EventDraftSyncReloader from "@/components/events/EventDraftSyncReloader";
+import EventViewBeacon from "@/components/events/EventViewBeacon";
 
 export const dynamic = "force-dynamic";
 
@@ -50,7 +54,7 @@ function isUUID(str: string): boolean {
 
 interface EventPageProps {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ date?: string }>;
+  searchParams: Promise<{ date?: string; ref?: string; via?: string; src?: string }>;
 }
 
 /**
@@ -268,7 +272,8 @@ function hasSignupLane(
 
 export default async function EventDetailPage({ params, searchParams }: EventPageProps) {
   const { id } = await params;
-  const { date: selectedDateKey } = await searchParams;
+  const resolvedSearchParams = await searchParams;
+  const { date: selectedDateKey } = resolvedSearchParams;
   const supabase = await createSupabaseServerClient();
 
   // Fetch event with venue join and recurrence info
@@ -280,6 +285,7 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
   // Phase 4.x: Added cost_label, external_url, timezone, online_url, signup_url, signup_mode for full event info display
   // Phase 5.08: Added signup_time for signup meta display
   // PR4: Added visibility for invite-only gate
+  // Added signup_policy so TimeslotSection can show no-show rules before claiming
   const eventSelectQuery = `
       id, title, description, event_type, venue_name, venue_address, venue_id,
       day_of_week, start_time, end_time, capacity, cover_image_url,
@@ -291,7 +297,7 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
       is_free, cost_label, age_policy, host_id,
       source, last_verified_at, verified_by,
       series_id, external_url, timezone, online_url, signup_url, signup_mode,
-      custom_dates, signup_time, youtube_url, spotify_url
+      custom_dates, signup_time, youtube_url, spotify_url, signup_policy
     `;
   let event: any = null;
   let error: { message: string } | null = null;
@@ -977,6 +983,8 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <EventDraftSyncReloader eventId={event.id} />
+      {/* Host analytics: count the view against the occurrence being shown */}
+      {event.is_published && <EventViewBeacon eventId={event.id} dateKey={attendeeDateKey ?? null} />}
       {/* Status Banners */}
       {isCancelled && (
         <div className="mb-4 p-4 rounded-lg bg-red-900/30 border border-red-500/40 text-red-300">
@@ -1625,6 +1633,13 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
                 location={venueLocation}
                 startDate={calendarStartDate}
                 endDate={calendarEndDate || undefined}
+                subscribeUrl={
+                  recurrence.isRecurring &&
+                  event.is_published &&
+                  (event as { visibility?: string }).visibility === "public"
+                    ? buildCalendarFeedUrl(getSiteUrl(), "series", event.slug || event.id)
+                    : null
+                }
               />
             )}
           </div>
@@ -1676,6 +1691,8 @@ export default async function EventDetailPage({ params, searchParams }: EventPag
                 slotDuration={(event as { slot_duration_minutes?: number }).slot_duration_minutes || 15}
                 disabled={!canRSVP}
                 dateKey={effectiveSelectedDate ?? undefined}
+                signupPolicy={parseSignupPolicy((event as { signup_policy?: unknown }).signup_policy)}
+                signupMode={(event as { signup_mode?: string | null }).signup_mode ?? null}
               />
             </div>
           )}
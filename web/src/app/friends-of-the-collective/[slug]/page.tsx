@@ -7,6 +7,9 @@ import { Button } from "@/components/ui";
 import { SeriesCard, type SeriesEvent } from "@/components/happenings/SeriesCard";
 import { addDaysDenver, getTodayDenver, groupEventsAsSeriesView, type SeriesEntry } from "@/lib/events/nextOccurrence";
 import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { FollowButton } from "@/components/follows/FollowButton";
+import { getFollowState } from "@/lib/follows/followsServer";
 import { getFriendsOfCollective } from "@/lib/friends-of-the-collective";
 import {
   toFriendView,
@@ -101,6 +104,11 @@ function getFriendImageUrl(friend: {
   }
 }
 
+// Check if string is a valid UUID
+function isUUID(str: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(str);
+}
+
 function claimFeedbackHref(friend: { slug?: string; id: string; name: string }): string {
   const profilePath = `/friends-of-the-collective/${friend.slug || friend.id}`;
   const params = new URLSearchParams({
@@ -620,6 +628,13 @@ export default async function FriendOrganizationProfilePage({
 
   const imageUrl = getFriendImageUrl(friend);
 
+  // Static fallback entries have no organization row to follow
+  const supabase = await createSupabaseServerClient();
+  const { data: { user: sessionUser } } = await supabase.auth.getUser();
+  const followState = isUUID(friend.id)
+    ? await getFollowState(supabase, sessionUser?.id ?? null, "organization", friend.id)
+    : null;
+
   return (
     <>
       <HeroSection minHeight="sm" showVignette showBottomFade>
@@ -666,6 +681,15 @@ export default async function FriendOrganizationProfilePage({
               {friend.funNote && (
                 <p className="text-sm italic text-[var(--color-text-secondary)]">{friend.funNote}</p>
               )}
+              {followState && (
+                <FollowButton
+                  targetType="organization"
+                  targetId={friend.id}
+                  initialState={followState}
+                  isSignedIn={!!sessionUser}
+                  redirectTo={`/friends-of-the-collective/${friend.slug || friend.id}`}
+                />
+              )}
               <div className="flex flex-wrap gap-3">
                 <Button asChild variant="primary" size="sm">
                   <a href={friend.websiteUrl} target="_blank" rel="noopener noreferrer">
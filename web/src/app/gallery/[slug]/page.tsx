@@ -4,6 +4,7 @@ import Link from "next/link";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { PageContainer } from "@/components/layout";
 import GalleryGrid from "@/components/gallery/GalleryGrid";
+import { getImageAssets } from "@/lib/images/assets";
 import { AlbumCommentsSection } from "./_components/AlbumCommentsSection";
 import { MediaEmbedsSection, OrderedMediaEmbeds } from "@/components/media";
 import { isExternalEmbedsEnabled } from "@/lib/featureFlags";
@@ -147,6 +148,7 @@ export default async function AlbumPage({ params, searchParams }: PageProps) {
     .range(offset, offset + IMAGES_PER_PAGE - 1);
 
   const totalPages = Math.ceil((totalCount ?? 0) / IMAGES_PER_PAGE);
+  const imageAssets = await getImageAssets(supabase, (images ?? []).map((image) => image.image_url));
 
   // Normalize the array join for event/venue
   const normalizedAlbum = {
@@ -287,7 +289,7 @@ export default async function AlbumPage({ params, searchParams }: PageProps) {
             </div>
           ) : images && images.length > 0 ? (
             <>
-              <GalleryGrid images={images} albumOwnerId={album.created_by} />
+              <GalleryGrid images={images} assets={imageAssets} albumOwnerId={album.created_by} />
 
               {/* Pagination */}
               {totalPages > 1 && (
@@ -4,6 +4,7 @@ import Image from "next/image";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { PageContainer, HeroSection } from "@/components/layout";
 import GalleryGrid from "@/components/gallery/GalleryGrid";
+import { getImageAssets } from "@/lib/images/assets";
 
 export const metadata: Metadata = {
   title: "Gallery | The Colorado Songwriters Collective",
@@ -93,6 +94,7 @@ export default async function GalleryPage({ searchParams }: PageProps) {
 
   const hasLoadError = Boolean(albumsError || imagesError);
   const totalPages = Math.ceil((totalCount ?? 0) / IMAGES_PER_PAGE);
+  const imageAssets = await getImageAssets(supabase, (images ?? []).map((image) => image.image_url));
 
   return (
     <>
@@ -218,7 +220,7 @@ export default async function GalleryPage({ searchParams }: PageProps) {
               </div>
             ) : images && images.length > 0 ? (
               <>
-                <GalleryGrid images={images} />
+                <GalleryGrid images={images} assets={imageAssets} />
 
                 {/* Pagination */}
                 {totalPages > 1 && (
@@ -4,6 +4,7 @@ import { Suspense } from "react";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { HappeningsCard, DateSection, StickyControls, BackToTop, HappeningActionsRow } from "@/components/happenings";
 import { SeriesView, type SeriesEvent } from "@/components/happenings/SeriesView";
+import { ForYouView, type ForYouPick } from "@/components/happenings/ForYouView";
 import { type HappeningsViewMode } from "@/components/happenings/StickyControls";
 import { PageContainer } from "@/components/layout/page-container";
 import { HeroSection } from "@/components/layout/hero-section";
@@ -23,6 +24,10 @@ import { occurrencesToMapPins, type MapPinConfig } from "@/lib/map";
 import { MapView } from "@/components/happenings/MapView";
 import { getLocationFilteredVenues, type LocationFilterResult, DISCOVERY_STATUS_FILTER, DISCOVERY_VENUE_SELECT_WITH_COORDS } from "@/lib/happenings";
 import { INVITE_CTA_LABEL } from "@/lib/referrals";
+import { FOR_YOU_LIMIT, recommendOccurrences } from "@/lib/happenings/recommendations";
+import { loadRecommendationSignals } from "@/lib/happenings/recommendationsServer";
+import { findRegionBySlug } from "@/lib/regions/regions";
+import { getActiveRegions } from "@/lib/regions/regionsServer";
 
 export const metadata: Metadata = {
   title: "Happenings | The Colorado Songwriters Collective",
@@ -49,6 +54,8 @@ export const dynamic = "force-dynamic";
  * - city: city name for location filter (Phase 1.4)
  * - zip: ZIP code for location filter (Phase 1.4, wins over city if both present)
  * - radius: radius in miles for nearby venues (Phase 1.4, default: 10, valid: 5|10|15|25|50)
+ * - region: region slug (front-range, boulder, ...); the default region also
+ *   includes events with no region. Centers the map on the region.
  */
 interface HappeningsSearchParams {
   q?: string;
@@ -68,6 +75,7 @@ interface HappeningsSearchParams {
   city?: string;
   zip?: string;
   radius?: string;
+  region?: string;
 }
 
 export default async function HappeningsPage({
@@ -102,10 +110,12 @@ export default async function HappeningsPage({
   const pastOffset = parseInt(params.pastOffset || "0", 10) || 0;
   const dateFilterCandidate = params.date?.trim() || "";
   const dateFilter = /^\d{4}-\d{2}-\d{2}$/.test(dateFilterCandidate) ? dateFilterCandidate : "";
-  // Phase 4.54/1.0: View mode (timeline = grouped by date, series = grouped by event, map = geographic)
+  // Phase 4.54/1.0: View mode (timeline = grouped by date, series = grouped by event, map = geographic,
+  // for_you = personalized picks)
   const viewMode: HappeningsViewMode =
     params.view === "series" ? "series" :
     params.view === "map" ? "map" :
+    params.view === "for_you" ? "for_you" :
     "timeline";
 
   // Phase 6.x: Batch-fetch user favorites when needed.
@@ -115,9 +125,9 @@ export default async function HappeningsPage({
   // - Set<string>: favorite event IDs
   // Needed for:
   // 1) Favorites-only filtering (all views)
-  // 2) Timeline card star hydration (existing behavior)
+  // 2) Timeline / For You card star hydration
   let favoriteEventIds: Set<string> | null | undefined = userId ? undefined : null;
-  if (userId && (viewMode === "timeline" || favoritesOnlyFilter)) {
+  if (userId && (viewMode === "timeline" || viewMode === "for_you" || favoritesOnlyFilter)) {
     try {
       const { data: favs, error } = await supabase
         .from("favorites")
@@ -137,6 +147,10 @@ export default async function HappeningsPage({
   const zipParam = params.zip;
   const radiusParam = params.radius;
 
+  // Region filter (unknown slugs are ignored)
+  const regions = await getActiveRegions(supabase);
+  const selectedRegion = findRegionBySlug(regions, params.region);
+
   const today = getTodayDenver();
   const yesterday = addDaysDenver(today, -1);
 
@@ -261,6 +275,13 @@ export default async function HappeningsPage({
     query = query.contains("event_type", [typeFilter]);
   }
 
+  // Region filter — events get their region from their venue
+  if (selectedRegion) {
+    query = selectedRegion.isDefault
+      ? query.or(`region_id.eq.${selectedRegion.id},region_id.is.null`)
+      : query.eq("region_id", selectedRegion.id);
+  }
+
   // CSC filter
   if (cscFilter) {
     query = query.eq("is_dsc_event", true);
@@ -563,7 +584,7 @@ export default async function HappeningsPage({
   }
 
   // Hero only shows on unfiltered /happenings (no filters active)
-  const hasFilters = searchQuery || typeFilter || cscFilter || verifyFilter || locationFilter || costFilter || favoritesOnlyFilter || daysFilter.length > 0 || (timeFilter && timeFilter !== "upcoming") || hasLocationFilter || dateFilter;
+  const hasFilters = searchQuery || typeFilter || cscFilter || verifyFilter || locationFilter || costFilter || favoritesOnlyFilter || daysFilter.length > 0 || (timeFilter && timeFilter !== "upcoming") || hasLocationFilter || dateFilter || selectedRegion;
   const showHero = !hasFilters;
 
   // Page title based on active type filter
@@ -639,6 +660,9 @@ export default async function HappeningsPage({
         }).format(displayDate)}`
       );
     }
+    if (selectedRegion) {
+      parts.push(selectedRegion.name);
+    }
     // Phase 1.4: Location filter summary
     if (locationFilterResult) {
       const { mode, normalized, exactMatchCount, nearbyCount } = locationFilterResult;
@@ -714,6 +738,27 @@ export default async function HappeningsPage({
     return null;
   };
 
+  // For You: rank the filtered, upcoming occurrences for the signed-in member.
+  // null = anonymous (view shows a sign-in prompt)
+  let forYouPicks: ForYouPick[] | null = null;
+  if (viewMode === "for_you" && userId) {
+    const signals = (await loadRecommendationSignals(supabase, [userId], { todayKey: today })).get(userId);
+    const candidates: EventOccurrenceEntry<any>[] = [];
+    for (const entries of filteredGroups.values()) {
+      candidates.push(...entries.filter((entry) => !entry.isCancelled));
+    }
+    forYouPicks = signals
+      ? recommendOccurrences(candidates, signals, { todayKey: today, limit: FOR_YOU_LIMIT }).map(
+          ({ candidate, reasons }) => ({
+            entry: candidate,
+            reasons,
+            overrideVenueData: getOverrideVenueForEntry(candidate),
+            isFavorited: favoriteEventIds instanceof Set ? favoriteEventIds.has(candidate.event.id) : undefined,
+          })
+        )
+      : [];
+  }
+
   const toCityStateKey = (city?: string | null, state?: string | null): string | null => {
     const normalizedCity = city?.trim().toLowerCase().replace(/,+$/, "").trim();
     if (!normalizedCity) return null;
@@ -881,6 +926,7 @@ export default async function HappeningsPage({
             timeFilter={timeFilter}
             cancelledCount={expansionMetrics.cancelledCount}
             viewMode={viewMode}
+            regions={regions}
           />
         </Suspense>
 
@@ -918,6 +964,24 @@ export default async function HappeningsPage({
                 </span>
               )}
             </div>
+          ) : viewMode === "for_you" ? (
+            <div className="text-sm text-[var(--color-text-secondary)]">
+              {forYouPicks === null ? (
+                "Personalized picks from your favorites, RSVPs, slots and saved filters"
+              ) : (
+                <>
+                  <span className="font-medium text-[var(--color-text-primary)]">
+                    {forYouPicks.length} {forYouPicks.length === 1 ? "pick" : "picks"}
+                  </span>
+                  {" "}for you from {totalOccurrences} upcoming {totalOccurrences === 1 ? "happening" : "happenings"}
+                </>
+              )}
+              {filterSummary.length > 0 && (
+                <span className="ml-2 text-[var(--color-text-tertiary)]">
+                  · {filterSummary.join(", ")}
+                </span>
+              )}
+            </div>
           ) : timeFilter === "upcoming" && !hasFilters ? (
             /* Humanized summary for default view (rolling ~3 month upcoming window) */
             <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
@@ -1011,7 +1075,16 @@ export default async function HappeningsPage({
         {/* Phase 4.54/1.0: Conditional rendering based on view mode */}
         {viewMode === "map" ? (
           /* Map View - geographic pins (Phase 1.0) */
-          <MapView pinResult={mapPinResult || { pins: [], excludedMissingCoords: 0, excludedOnlineOnly: 0, limitExceeded: false, totalProcessed: 0 }} className="mt-4" />
+          <MapView
+            key={selectedRegion?.slug ?? "all"}
+            pinResult={mapPinResult || { pins: [], excludedMissingCoords: 0, excludedOnlineOnly: 0, limitExceeded: false, totalProcessed: 0 }}
+            center={selectedRegion?.mapCenter}
+            zoom={selectedRegion?.mapZoom}
+            className="mt-4"
+          />
+        ) : viewMode === "for_you" ? (
+          /* For You View - personalized picks with reasons */
+          <ForYouView picks={forYouPicks} todayKey={today} tomorrowKey={tomorrow} className="mt-4" />
         ) : viewMode === "series" ? (
           /* Series View - one row per event/series */
           (() => {
@@ -78,8 +78,9 @@ export interface OgCardProps {
 }
 
 // Note: Supabase image transform endpoint (/render/image/) requires Pro plan.
-// We use the original storage URL directly. EXIF orientation is handled by
-// objectPosition: "center" which works for most profile photos.
+// Routes pass the upload pipeline's JPEG fallback variant (getFallbackImageUrl)
+// when the image was processed — already oriented and sized, and a format
+// the renderer can decode — and the original storage URL otherwise.
 
 /**
  * Renders the OG card JSX for use with ImageResponse.
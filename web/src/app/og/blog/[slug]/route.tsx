@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getFallbackImageUrl } from "@/lib/images/assets";
 import { renderOgCard } from "../../_shared/ogCard";
 
 export const runtime = "edge";
@@ -20,7 +21,7 @@ export async function GET(
 
   const title = post?.title ?? "Blog Post";
   const excerpt = post?.excerpt ?? "";
-  const coverImage = post?.cover_image_url;
+  const coverImage = await getFallbackImageUrl(supabase, post?.cover_image_url);
   const author = post?.author as { full_name?: string; avatar_url?: string } | null;
   const authorName = author?.full_name;
   const authorAvatar = author?.avatar_url;
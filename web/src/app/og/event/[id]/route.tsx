@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getFallbackImageUrl } from "@/lib/images/assets";
 import { EVENT_TYPE_CONFIG, getPrimaryEventType, type EventType } from "@/types/events";
 import { renderOgCard, type OgChip } from "../../_shared/ogCard";
 
@@ -68,7 +69,7 @@ export async function GET(
   const eventType = ogTypes.length > 0 ? getPrimaryEventType(ogTypes as EventType[]) : undefined;
   const typeConfig = eventType ? EVENT_TYPE_CONFIG[eventType] : null;
   const typeLabel = typeConfig?.label ?? "Event";
-  const coverImage = event?.cover_image_url;
+  const coverImage = await getFallbackImageUrl(supabase, event?.cover_image_url);
 
   // Extract venue info (prefer joined venue data, fall back to venue_name)
   const venueData = event?.venue as { name?: string; city?: string; state?: string } | null;
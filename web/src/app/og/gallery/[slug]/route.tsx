@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getFallbackImageUrl } from "@/lib/images/assets";
 import { renderOgCard, type OgChip } from "../../_shared/ogCard";
 
 export const runtime = "edge";
@@ -27,7 +28,7 @@ export async function GET(
 
   const name = album?.name ?? "Photo Album";
   const description = album?.description;
-  const coverImage = album?.cover_image_url;
+  const coverImage = await getFallbackImageUrl(supabase, album?.cover_image_url);
   const eventTitle = (album?.event as { title?: string } | null)?.title;
   const venueData = album?.venue as { name?: string; city?: string } | null;
   const venueName = venueData?.name;
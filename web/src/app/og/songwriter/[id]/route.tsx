@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getFallbackImageUrl } from "@/lib/images/assets";
 import { renderOgCard, type OgChip } from "../../_shared/ogCard";
 
 export const runtime = "edge";
@@ -32,7 +33,7 @@ export async function GET(
   const name = profile?.full_name ?? "Songwriter";
   const location = profile ? [profile.city, profile.state].filter(Boolean).join(", ") : "";
   const genres = profile?.genres?.slice(0, 3) ?? [];
-  const avatarUrl = profile?.avatar_url;
+  const avatarUrl = await getFallbackImageUrl(supabase, profile?.avatar_url);
 
   // Determine role label
   const isSongwriter = profile?.is_songwriter ?? true;
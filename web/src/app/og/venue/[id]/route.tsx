@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getFallbackImageUrl } from "@/lib/images/assets";
 import { renderOgCard, type OgChip } from "../../_shared/ogCard";
 
 export const runtime = "edge";
@@ -32,7 +33,7 @@ export async function GET(
   const name = venue?.name ?? "Venue";
   const location = venue ? [venue.city, venue.state].filter(Boolean).join(", ") : "";
   const neighborhood = venue?.neighborhood;
-  const coverImage = venue?.cover_image_url;
+  const coverImage = await getFallbackImageUrl(supabase, venue?.cover_image_url);
 
   // Build subtitle from location and neighborhood
   const subtitleParts = [location, neighborhood].filter(Boolean);
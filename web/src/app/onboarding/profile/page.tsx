@@ -12,6 +12,7 @@ import {
   type SectionKey,
 } from "./sectionVisibility";
 import { MediaEmbedsEditor } from "@/components/media";
+import { REGION_SELECT, toRegion, type Region } from "@/lib/regions/regions";
 import { toast } from "sonner";
 
 // =============================================================================
@@ -36,6 +37,10 @@ export default function OnboardingProfile() {
   // Required
   const [name, setName] = useState("");
 
+  // Home region ("" = default region)
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [homeRegionId, setHomeRegionId] = useState("");
+
   // Identity flags
   const [isSongwriter, setIsSongwriter] = useState(false);
   const [isStudio, setIsStudio] = useState(false);
@@ -141,6 +146,16 @@ export default function OnboardingProfile() {
           setGenres(profile.genres || []);
         }
 
+        const { data: regionRows } = await supabase
+          .from("regions")
+          .select(REGION_SELECT)
+          .eq("is_active", true)
+          .order("sort_order", { ascending: true });
+        const activeRegions: Region[] = (regionRows || []).map(toRegion);
+        setRegions(activeRegions);
+        const homeRegion = activeRegions.find((region) => region.id === profile?.home_region_id);
+        setHomeRegionId(homeRegion && !homeRegion.isDefault ? String(homeRegion.id) : "");
+
         // Preload existing media embeds (prevents overwrite on revisit)
         const { data: embeds } = await supabase
           .from("media_embeds")
@@ -223,6 +238,7 @@ export default function OnboardingProfile() {
           interested_in_cowriting: interestedInCowriting,
           instruments: instruments.length > 0 ? instruments : null,
           genres: genres.length > 0 ? genres : null,
+          home_region_id: homeRegionId ? Number(homeRegionId) : null,
           media_embed_urls: mediaEmbedUrls,
         }),
       });
@@ -291,6 +307,7 @@ export default function OnboardingProfile() {
           interested_in_cowriting: interestedInCowriting,
           instruments: instruments.length > 0 ? instruments : null,
           genres: genres.length > 0 ? genres : null,
+          home_region_id: homeRegionId ? Number(homeRegionId) : null,
           media_embed_urls: mediaEmbedUrls,
         }),
       });
@@ -378,6 +395,33 @@ export default function OnboardingProfile() {
             />
           </div>
 
+          {/* Home region - decides which happenings the digest covers */}
+          {regions.length > 1 && (
+            <div className="mb-6">
+              <label
+                htmlFor="home-region"
+                className="block text-sm font-medium text-[var(--color-text-primary)] mb-2"
+              >
+                Where do you usually go out?
+              </label>
+              <select
+                id="home-region"
+                value={homeRegionId}
+                onChange={(e) => setHomeRegionId(e.target.value)}
+                className="w-full px-4 py-3 bg-[var(--color-bg-input)] border-2 border-[var(--color-border-input)] rounded-xl text-[var(--color-text-primary)] focus:border-[var(--color-accent-primary)] focus:outline-none transition-colors"
+              >
+                {regions.map((region) => (
+                  <option key={region.id} value={region.isDefault ? "" : String(region.id)}>
+                    {region.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-[var(--color-text-tertiary)] mt-1">
+                Your happenings digest covers this region. You can change it later.
+              </p>
+            </div>
+          )}
+
           {/* Primary actions - RIGHT AFTER NAME */}
           <div className="flex flex-col sm:flex-row gap-3 mb-6">
             <button
@@ -0,0 +1,167 @@
+"use client";
+
+/**
+ * Reverify Answer
+ *
+ * "Still happening" submits as soon as the page loads (the one click was
+ * the email link). "Changed" asks what changed; "Ended" asks for a
+ * confirming click since it cancels the series.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { REVERIFICATION_CONFIG, type ReverificationAnswer } from "@/lib/reverification/config";
+
+interface Props {
+  token: string;
+  answer: ReverificationAnswer;
+  eventTitle: string;
+  eventPath: string;
+}
+
+const SUCCESS_MESSAGES: Record<ReverificationAnswer, { heading: string; body: string }> = {
+  still_happening: {
+    heading: "Thanks for confirming!",
+    body: "We've marked this listing as confirmed.",
+  },
+  changed: {
+    heading: "Thanks for the update!",
+    body: "An admin will review the changes and update the listing.",
+  },
+  ended: {
+    heading: "Listing removed",
+    body: "We've marked this happening as ended. Thanks for letting us know.",
+  },
+};
+
+const buttonClass = cn(
+  "inline-flex items-center justify-center gap-2",
+  "w-full py-3 px-4 rounded-full font-medium",
+  "bg-[var(--color-accent-primary)] text-[var(--color-bg-secondary)]",
+  "hover:bg-[var(--color-accent-hover)] hover:shadow-[var(--shadow-glow-gold-sm)]",
+  "transition-all disabled:opacity-50"
+);
+
+export default function ReverifyAnswer({ token, answer, eventTitle, eventPath }: Props) {
+  const [status, setStatus] = useState<"idle" | "submitting" | "success" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+  const autoSubmitted = useRef(false);
+
+  const submit = async (notesValue?: string) => {
+    setStatus("submitting");
+    setError(null);
+    try {
+      const res = await fetch("/api/reverify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, answer, notes: notesValue || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setStatus("error");
+        setError(data.error || "Failed to record your answer");
+        return;
+      }
+      setStatus("success");
+    } catch {
+      setStatus("error");
+      setError("Network error. Please try again.");
+    }
+  };
+
+  useEffect(() => {
+    if (answer !== "still_happening" || autoSubmitted.current) return;
+    autoSubmitted.current = true;
+    void submit();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [answer]);
+
+  if (status === "success") {
+    const message = SUCCESS_MESSAGES[answer];
+    return (
+      <div className="text-center">
+        <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">{message.heading}</h1>
+        <p className="text-[var(--color-text-secondary)] mb-6">{message.body}</p>
+        <Link href={answer === "ended" ? "/" : eventPath} className={buttonClass}>
+          {answer === "ended" ? "Return to Home" : "View listing"}
+        </Link>
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <div className="text-center">
+        <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">Something Went Wrong</h1>
+        <p className="text-[var(--color-text-secondary)] mb-6">{error}</p>
+        <Link href="/" className={buttonClass}>
+          Return to Home
+        </Link>
+      </div>
+    );
+  }
+
+  if (answer === "still_happening") {
+    return (
+      <div className="text-center">
+        <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">Processing...</h1>
+        <p className="text-[var(--color-text-secondary)]">Confirming {eventTitle}.</p>
+      </div>
+    );
+  }
+
+  if (answer === "changed") {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void submit(notes);
+        }}
+      >
+        <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">What changed?</h1>
+        <p className="text-[var(--color-text-secondary)] mb-4">
+          Tell us what&apos;s different about <strong>{eventTitle}</strong> — day, time, venue, signup, anything.
+        </p>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={REVERIFICATION_CONFIG.MAX_NOTES_LENGTH}
+          rows={5}
+          required
+          className="w-full mb-4 px-3 py-2 bg-[var(--color-bg-input)] border border-[var(--color-border-input)] rounded text-[var(--color-text-primary)] placeholder:text-[var(--color-placeholder)]"
+          placeholder="e.g. Moved to Wednesdays at 8pm, signup now at 7:30"
+        />
+        <button type="submit" disabled={status === "submitting" || !notes.trim()} className={buttonClass}>
+          {status === "submitting" ? "Sending..." : "Send update"}
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="text-center">
+      <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">Has this ended?</h1>
+      <p className="text-[var(--color-text-secondary)] mb-4">
+        Confirming will remove <strong>{eventTitle}</strong> from the happenings calendar.
+      </p>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        maxLength={REVERIFICATION_CONFIG.MAX_NOTES_LENGTH}
+        rows={3}
+        className="w-full mb-4 px-3 py-2 bg-[var(--color-bg-input)] border border-[var(--color-border-input)] rounded text-[var(--color-text-primary)] placeholder:text-[var(--color-placeholder)]"
+        placeholder="Anything we should know? (optional)"
+      />
+      <button
+        type="button"
+        onClick={() => void submit(notes)}
+        disabled={status === "submitting"}
+        className={buttonClass}
+      >
+        {status === "submitting" ? "Removing..." : "Yes, it has ended"}
+      </button>
+    </div>
+  );
+}
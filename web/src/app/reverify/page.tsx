@@ -0,0 +1,73 @@
+/**
+ * Reverify Page
+ *
+ * Landing page for the links in reverification emails. Checks the token
+ * server-side so the recipient sees which listing they're answering for,
+ * then hands off to ReverifyAnswer to submit.
+ */
+
+import Link from "next/link";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { isReverificationAnswer } from "@/lib/reverification/config";
+import { lookupReverificationRequest } from "@/lib/reverification/server";
+import ReverifyAnswer from "./_components/ReverifyAnswer";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Confirm your listing",
+  robots: { index: false, follow: false },
+};
+
+export default async function ReverifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; answer?: string }>;
+}) {
+  const { token, answer } = await searchParams;
+
+  let error: string | null = null;
+  let eventTitle: string | null = null;
+  let eventPath: string | null = null;
+
+  if (!token || !isReverificationAnswer(answer)) {
+    error = "Invalid link. Missing token or answer.";
+  } else {
+    const lookup = await lookupReverificationRequest(createServiceRoleClient(), token);
+    if (!lookup.ok) {
+      error = lookup.error;
+    } else if (lookup.context.payload.answer !== answer) {
+      error = "This link does not match the request.";
+    } else {
+      eventTitle = lookup.context.event.title;
+      eventPath = `/events/${lookup.context.event.slug || lookup.context.event.id}`;
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[var(--color-bg-primary)]">
+      <div className="w-full max-w-md">
+        <div className="bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] rounded-2xl shadow-xl overflow-hidden p-8">
+          {error || !token || !isReverificationAnswer(answer) || !eventTitle || !eventPath ? (
+            <div className="text-center">
+              <h1 className="text-xl font-semibold text-[var(--color-text-primary)] mb-2">
+                Something Went Wrong
+              </h1>
+              <p className="text-[var(--color-text-secondary)] mb-6">
+                {error || "An unexpected error occurred."}
+              </p>
+              <Link
+                href="/"
+                className="text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+              >
+                Return to Home
+              </Link>
+            </div>
+          ) : (
+            <ReverifyAnswer token={token} answer={answer} eventTitle={eventTitle} eventPath={eventPath} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import Image from "next/image";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { PageContainer } from "@/components/layout";
+import { VALID_RADII } from "@/lib/happenings/locationFilter";
+import type { SavedCostFilter, SavedDayFilter } from "@/lib/happenings/savedFilters";
+import {
+  buildSearchHref,
+  parseSearchParams,
+  SEARCH_COST_LABELS,
+  SEARCH_DAY_LABELS,
+  SEARCH_MIN_QUERY_LENGTH,
+  SEARCH_PAGE_SIZE,
+  SEARCH_TYPE_LABELS,
+  toggleFacetValue,
+  type SearchFacetValue,
+  type SearchFilters,
+  type SearchResultType,
+} from "@/lib/search/searchContract";
+import { runSearch } from "@/lib/search/searchServer";
+
+export const metadata: Metadata = {
+  title: "Search | The Colorado Songwriters Collective",
+  description: "Search happenings, venues, members, organizations, blog posts and photo albums.",
+};
+
+export const dynamic = "force-dynamic";
+
+const LOCATION_EMPTY_MESSAGES: Record<string, string> = {
+  invalid_zip: "That ZIP code doesn't look right. Use 5 digits.",
+  zip_lookup_failed: "We couldn't find that ZIP code.",
+  no_coords: "No mapped venues near that ZIP yet.",
+  no_venues: "No venues within that distance.",
+};
+
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function FacetGroup({
+  title,
+  values,
+  label,
+  isActive,
+  hrefFor,
+}: {
+  title: string;
+  values: SearchFacetValue[];
+  label: (value: string) => string;
+  isActive: (value: string) => boolean;
+  hrefFor: (value: string) => string;
+}) {
+  if (values.length === 0) return null;
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)] mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {values.map((facet) => {
+          const active = isActive(facet.value);
+          return (
+            <li key={facet.value}>
+              <Link
+                href={hrefFor(facet.value)}
+                className={`flex items-center justify-between gap-2 px-2 py-1 rounded text-sm transition-colors ${
+                  active
+                    ? "bg-[var(--color-accent-primary)]/15 text-[var(--color-text-accent)] font-medium"
+                    : "text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary)]"
+                }`}
+                aria-current={active ? "true" : undefined}
+              >
+                <span>{label(facet.value)}</span>
+                <span className="text-xs text-[var(--color-text-tertiary)]">{facet.count}</span>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function HiddenFilterInputs({ filters, omit }: { filters: SearchFilters; omit: Array<"q" | "zip"> }) {
+  return (
+    <>
+      {!omit.includes("q") && <input type="hidden" name="q" value={filters.q} />}
+      {filters.types.length > 0 && <input type="hidden" name="type" value={filters.types.join(",")} />}
+      {filters.days.length > 0 && <input type="hidden" name="days" value={filters.days.join(",")} />}
+      {filters.city && <input type="hidden" name="city" value={filters.city} />}
+      {filters.cost && <input type="hidden" name="cost" value={filters.cost} />}
+      {!omit.includes("zip") && filters.zip && (
+        <>
+          <input type="hidden" name="zip" value={filters.zip} />
+          <input type="hidden" name="radius" value={filters.radius} />
+        </>
+      )}
+    </>
+  );
+}
+
+export default async function SearchPage({ searchParams }: PageProps) {
+  const filters = parseSearchParams(await searchParams);
+  const hasQuery = filters.q.length >= SEARCH_MIN_QUERY_LENGTH;
+
+  const supabase = await createSupabaseServerClient();
+  const { results, total, facets, locationEmptyReason } = await runSearch(supabase, filters, {
+    limit: SEARCH_PAGE_SIZE,
+    offset: (filters.page - 1) * SEARCH_PAGE_SIZE,
+    withFacets: true,
+  });
+
+  const totalPages = Math.max(1, Math.ceil(total / SEARCH_PAGE_SIZE));
+  const hasFilters =
+    filters.types.length > 0 || filters.days.length > 0 || !!filters.city || !!filters.cost || !!filters.zip;
+
+  return (
+    <PageContainer>
+      <div className="py-10 space-y-8">
+        <form action="/search" method="get" className="flex gap-2" role="search">
+          <HiddenFilterInputs filters={filters} omit={["q"]} />
+          <input
+            type="search"
+            name="q"
+            defaultValue={filters.q}
+            placeholder="Search happenings, venues, members..."
+            aria-label="Search"
+            className="flex-1 px-4 py-3 rounded-lg bg-[var(--color-bg-input)] border border-[var(--color-border-input)] text-[var(--color-text-primary)] placeholder:text-[var(--color-placeholder)] focus:outline-none focus:border-[var(--color-border-accent)]"
+          />
+          <button
+            type="submit"
+            className="px-5 py-3 rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] font-semibold hover:bg-[var(--color-accent-hover)] transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        {!hasQuery ? (
+          <p className="text-[var(--color-text-secondary)]">
+            Type at least {SEARCH_MIN_QUERY_LENGTH} characters to search.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-8">
+            {/* Facets */}
+            <aside className="space-y-6" aria-label="Filter results">
+              {hasFilters && (
+                <Link
+                  href={buildSearchHref({ ...filters, types: [], days: [], city: undefined, cost: undefined, zip: undefined })}
+                  className="text-sm text-[var(--color-text-accent)] hover:underline"
+                >
+                  Clear filters
+                </Link>
+              )}
+
+              {facets && (
+                <>
+                  <FacetGroup
+                    title="Type"
+                    values={facets.type}
+                    label={(v) => SEARCH_TYPE_LABELS[v as SearchResultType] ?? v}
+                    isActive={(v) => filters.types.includes(v as SearchResultType)}
+                    hrefFor={(v) =>
+                      buildSearchHref(filters, { types: toggleFacetValue(filters.types, v as SearchResultType) })
+                    }
+                  />
+                  <FacetGroup
+                    title="Day"
+                    values={facets.day}
+                    label={(v) => SEARCH_DAY_LABELS[v as SavedDayFilter] ?? v}
+                    isActive={(v) => filters.days.includes(v as SavedDayFilter)}
+                    hrefFor={(v) =>
+                      buildSearchHref(filters, { days: toggleFacetValue(filters.days, v as SavedDayFilter) })
+                    }
+                  />
+                  <FacetGroup
+                    title="City"
+                    values={facets.city}
+                    label={(v) => v}
+                    isActive={(v) => filters.city?.toLowerCase() === v.toLowerCase()}
+                    hrefFor={(v) =>
+                      buildSearchHref(filters, {
+                        city: filters.city?.toLowerCase() === v.toLowerCase() ? undefined : v,
+                      })
+                    }
+                  />
+                  <FacetGroup
+                    title="Cost"
+                    values={facets.cost}
+                    label={(v) => SEARCH_COST_LABELS[v as SavedCostFilter] ?? v}
+                    isActive={(v) => filters.cost === v}
+                    hrefFor={(v) =>
+                      buildSearchHref(filters, { cost: filters.cost === v ? undefined : (v as SavedCostFilter) })
+                    }
+                  />
+                </>
+              )}
+
+              {/* Distance */}
+              <form action="/search" method="get" className="space-y-2">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-tertiary)]">Distance</h3>
+                <HiddenFilterInputs filters={filters} omit={["zip"]} />
+                <div className="flex gap-2">
+                  <select
+                    name="radius"
+                    defaultValue={filters.radius}
+                    aria-label="Radius"
+                    className="px-2 py-1.5 rounded bg-[var(--color-bg-input)] border border-[var(--color-border-input)] text-sm text-[var(--color-text-primary)]"
+                  >
+                    {VALID_RADII.map((r) => (
+                      <option key={r} value={r}>
+                        {r} mi
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    name="zip"
+                    inputMode="numeric"
+                    defaultValue={filters.zip ?? ""}
+                    placeholder="ZIP"
+                    aria-label="ZIP code"
+                    className="w-20 px-2 py-1.5 rounded bg-[var(--color-bg-input)] border border-[var(--color-border-input)] text-sm text-[var(--color-text-primary)]"
+                  />
+                </div>
+                <button type="submit" className="text-sm text-[var(--color-text-accent)] hover:underline">
+                  Apply
+                </button>
+                {filters.zip && (
+                  <p className="text-xs text-[var(--color-text-tertiary)]">
+                    Only happenings, venues and albums have a location.
+                  </p>
+                )}
+              </form>
+            </aside>
+
+            {/* Results */}
+            <section aria-label="Search results">
+              <p className="text-sm text-[var(--color-text-tertiary)] mb-4">
+                {total === 1 ? "1 result" : `${total} results`} for &ldquo;{filters.q}&rdquo;
+              </p>
+
+              {locationEmptyReason && (
+                <p className="text-[var(--color-text-secondary)] mb-4">
+                  {LOCATION_EMPTY_MESSAGES[locationEmptyReason] ?? LOCATION_EMPTY_MESSAGES.no_venues}
+                </p>
+              )}
+
+              {results.length === 0 ? (
+                !locationEmptyReason && (
+                  <p className="text-[var(--color-text-secondary)]">
+                    No results{hasFilters ? " with these filters" : ""}. Check the spelling or try fewer words.
+                  </p>
+                )
+              ) : (
+                <ul className="divide-y divide-[var(--color-border-default)]">
+                  {results.map((result) => (
+                    <li key={`${result.type}-${result.id}`}>
+                      <Link
+                        href={result.url}
+                        className="flex items-center gap-4 py-3 hover:bg-[var(--color-bg-tertiary)]/50 rounded-lg px-2 transition-colors"
+                      >
+                        {result.image ? (
+                          <div className="relative w-12 h-12 rounded-lg overflow-hidden flex-shrink-0">
+                            <Image src={result.image} alt="" fill sizes="48px" className="object-cover" />
+                          </div>
+                        ) : (
+                          <div className="w-12 h-12 rounded-lg bg-[var(--color-bg-secondary)] flex-shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-[var(--color-text-primary)] truncate">{result.title}</p>
+                          {result.subtitle && (
+                            <p className="text-sm text-[var(--color-text-tertiary)] truncate">{result.subtitle}</p>
+                          )}
+                        </div>
+                        <span className="text-xs px-2 py-1 rounded-full bg-[var(--color-bg-secondary)] text-[var(--color-text-tertiary)] flex-shrink-0">
+                          {SEARCH_TYPE_LABELS[result.type]}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* Pagination */}
+              {total > SEARCH_PAGE_SIZE && (
+                <nav className="mt-8 flex justify-center items-center gap-2" aria-label="Search pagination">
+                  {filters.page > 1 && (
+                    <Link
+                      href={buildSearchHref(filters, { page: filters.page - 1 })}
+                      className="px-4 py-2 rounded-lg bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors"
+                      aria-label="Previous page"
+                    >
+                      Previous
+                    </Link>
+                  )}
+                  <span className="px-4 py-2 text-[var(--color-text-secondary)]">
+                    Page {filters.page} of {totalPages}
+                  </span>
+                  {filters.page < totalPages && (
+                    <Link
+                      href={buildSearchHref(filters, { page: filters.page + 1 })}
+                      className="px-4 py-2 rounded-lg bg-[var(--color-bg-secondary)] border border-[var(--color-border-default)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-tertiary)] hover:text-[var(--color-text-primary)] transition-colors"
+                      aria-label="Next page"
+                    >
+                      Next
+                    </Link>
+                  )}
+                </nav>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </PageContainer>
+  );
+}
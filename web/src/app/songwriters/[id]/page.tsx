@@ -19,6 +19,11 @@ import { splitHostedHappenings } from "@/lib/profile/splitHostedHappenings";
 import Link from "next/link";
 import Image from "next/image";
 import { QrShareBlock } from "@/components/shared/QrShareBlock";
+import { CalendarSubscribeLink } from "@/components/shared/CalendarSubscribeLink";
+import { FollowButton } from "@/components/follows/FollowButton";
+import { getFollowState } from "@/lib/follows/followsServer";
+import { buildCalendarFeedUrl } from "@/lib/calendar/icalFeed";
+import { getSiteUrl } from "@/lib/siteUrl";
 import { MediaEmbedsSection, OrderedMediaEmbeds, SongLinkEmbed, UnsupportedMusicLinksNotice } from "@/components/media";
 import { isExternalEmbedsEnabled } from "@/lib/featureFlags";
 import {
@@ -362,6 +367,9 @@ export default async function SongwriterDetailPage({ params }: SongwriterDetailP
   // Check if viewer is the profile owner (for private sections)
   const { data: { user: sessionUser } } = await supabase.auth.getUser();
   const isOwner = sessionUser?.id === songwriter.id;
+  const followState = isOwner
+    ? null
+    : await getFollowState(supabase, sessionUser?.id ?? null, "member", songwriter.id);
 
   // Private sections: Only query if viewer is the owner
   let myRsvps: Array<{
@@ -531,9 +539,19 @@ export default async function SongwriterDetailPage({ params }: SongwriterDetailP
       </HeroSection>
 
       <PageContainer>
-        {/* Social Links + Owner CTAs - moved below the hero so they sit on the theme background and stand out */}
-        {(socialLinks.length > 0 || isOwner) && (
+        {/* Follow + Social Links + Owner CTAs - moved below the hero so they sit on the theme background and stand out */}
+        {(followState || socialLinks.length > 0 || isOwner) && (
           <div className="flex flex-col items-center gap-4 pt-8">
+            {followState && (
+              <FollowButton
+                targetType="member"
+                targetId={songwriter.id}
+                initialState={followState}
+                isSignedIn={!!sessionUser}
+                redirectTo={`/songwriters/${songwriter.slug || songwriter.id}`}
+              />
+            )}
+
             {socialLinks.length > 0 && (
               <div className="flex flex-wrap justify-center gap-3">
                 {socialLinks.map((link) => (
@@ -792,7 +810,13 @@ export default async function SongwriterDetailPage({ params }: SongwriterDetailP
 
           {/* Hosted Happenings Section - Split into Upcoming and Past */}
           <section className="mb-12" data-testid="hosted-happenings-section">
-            <h2 className="text-2xl font-semibold text-[var(--color-text-primary)] mb-6">Hosted Happenings</h2>
+            <h2 className="text-2xl font-semibold text-[var(--color-text-primary)] mb-2">Hosted Happenings</h2>
+            <div className="mb-6">
+              <CalendarSubscribeLink
+                href={buildCalendarFeedUrl(getSiteUrl(), "hosts", songwriter.slug || songwriter.id)}
+                label="Subscribe to their hosted happenings"
+              />
+            </div>
 
             {/* Upcoming Hosted Happenings */}
             <div className="mb-8" data-testid="upcoming-hosted-happenings">
@@ -3,6 +3,7 @@ import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { SeriesCard, type SeriesEvent } from "@/components/happenings/SeriesCard";
 import { PageContainer } from "@/components/layout";
 import { PhotoGallery } from "@/components/profile/PhotoGallery";
@@ -15,6 +16,11 @@ import {
   buildOverrideMap,
 } from "@/lib/events/nextOccurrence";
 import { QrShareBlock } from "@/components/shared/QrShareBlock";
+import { CalendarSubscribeLink } from "@/components/shared/CalendarSubscribeLink";
+import { FollowButton } from "@/components/follows/FollowButton";
+import { getFollowState } from "@/lib/follows/followsServer";
+import { buildCalendarFeedUrl } from "@/lib/calendar/icalFeed";
+import { getSiteUrl } from "@/lib/siteUrl";
 import { OrderedMediaEmbeds } from "@/components/media/OrderedMediaEmbeds";
 import { readMediaEmbeds } from "@/lib/mediaEmbedsServer";
 
@@ -117,6 +123,27 @@ export default async function VenueDetailPage({ params }: VenueDetailParams) {
     : await supabase.from("venues").select(venueSelectQuery).eq("slug", id).single();
 
   if (venueError || !venue) {
+    // Merged-venue fallback: old slugs left behind by the duplicate merge
+    // forward to the surviving venue.
+    if (!isUUID(id)) {
+      const serviceClient = createServiceRoleClient();
+      const { data: slugRedirect } = await serviceClient
+        .from("venue_slug_redirects")
+        .select("venue_id")
+        .eq("old_slug", id)
+        .maybeSingle();
+
+      if (slugRedirect?.venue_id) {
+        const { data: survivor } = await supabase
+          .from("venues")
+          .select("id, slug")
+          .eq("id", slugRedirect.venue_id)
+          .maybeSingle();
+        if (survivor) {
+          redirect(`/venues/${survivor.slug || survivor.id}`);
+        }
+      }
+    }
     notFound();
   }
 
@@ -286,6 +313,9 @@ export default async function VenueDetailPage({ params }: VenueDetailParams) {
   // google_maps_url is for "View on Maps" button (place page), not directions
   const getDirectionsUrl = getVenueDirectionsUrl(venue);
 
+  const { data: { user: sessionUser } } = await supabase.auth.getUser();
+  const followState = await getFollowState(supabase, sessionUser?.id ?? null, "venue", venue.id);
+
   return (
     <PageContainer>
       <div className="py-8 md:py-12">
@@ -337,6 +367,16 @@ export default async function VenueDetailPage({ params }: VenueDetailParams) {
             </p>
           )}
 
+          <div className="mt-4">
+            <FollowButton
+              targetType="venue"
+              targetId={venue.id}
+              initialState={followState}
+              isSignedIn={!!sessionUser}
+              redirectTo={`/venues/${venue.slug || venue.id}`}
+            />
+          </div>
+
           {/* Action buttons row */}
           <div className="flex flex-wrap items-center gap-3 mt-4">
             {getDirectionsUrl && (
@@ -523,9 +563,14 @@ export default async function VenueDetailPage({ params }: VenueDetailParams) {
 
         {/* Happenings Section */}
         <section className="mt-8">
-          <h2 className="text-2xl font-[var(--font-family-serif)] font-semibold text-[var(--color-text-primary)] mb-6">
+          <h2 className="text-2xl font-[var(--font-family-serif)] font-semibold text-[var(--color-text-primary)] mb-2">
             Happenings at {venue.name}
           </h2>
+          <div className="mb-6">
+            <CalendarSubscribeLink
+              href={buildCalendarFeedUrl(getSiteUrl(), "venues", venue.slug || venue.id)}
+            />
+          </div>
 
           {!hasHappenings ? (
             <div className="text-center py-12 text-[var(--color-text-secondary)] bg-[var(--color-bg-secondary)] rounded-lg border border-[var(--color-border-default)]">
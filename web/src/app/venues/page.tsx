@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import Link from "next/link";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { VenueGrid } from "@/components/venue/VenueGrid";
+import { getImageAssets } from "@/lib/images/assets";
+import { findImageAsset } from "@/lib/images/variants";
 import { PageContainer, HeroSection } from "@/components/layout";
 import {
   computeVenueCountsFromEvents,
@@ -71,6 +73,12 @@ export default async function VenuesPage() {
     (allEvents ?? []) as EventForCounts[]
   );
 
+  // Responsive variants for processed cover images (originals otherwise)
+  const coverAssets = await getImageAssets(
+    supabase,
+    (venues ?? []).map((venue: VenueRow) => venue.cover_image_url)
+  );
+
   // Map venues with structured counts
   const venuesWithCounts = (venues ?? []).map((venue: VenueRow) => {
     const counts = venueCountsMap.get(venue.id) || {
@@ -87,6 +95,7 @@ export default async function VenuesPage() {
       google_maps_url: venue.google_maps_url,
       website_url: venue.website_url,
       cover_image_url: venue.cover_image_url,
+      cover_image_asset: findImageAsset(coverAssets, venue.cover_image_url),
       counts,
     };
   });
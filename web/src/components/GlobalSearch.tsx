@@ -1,38 +1,32 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import {
+  buildSearchHref,
+  parseSearchParams,
+  SEARCH_MIN_QUERY_LENGTH,
+  SEARCH_TYPE_LABELS,
+  type SearchResult,
+  type SearchResultType,
+} from "@/lib/search/searchContract";
 
-interface SearchResult {
-  type: "event" | "open_mic" | "member" | "blog" | "venue";
-  id: string;
-  title: string;
-  subtitle?: string;
-  url: string;
-  image?: string;
-}
-
-const TYPE_LABELS: Record<string, string> = {
-  open_mic: "Open Mic",
-  event: "Event",
-  member: "Member",
-  blog: "Blog",
-  venue: "Venue",
-};
-
-const TYPE_ICONS: Record<string, string> = {
+const TYPE_ICONS: Record<SearchResultType, string> = {
   open_mic: "🎤",
   event: "📅",
   member: "👤",
   blog: "📝",
   venue: "📍",
+  organization: "🤝",
+  gallery: "🖼️",
 };
 
 export default function GlobalSearch() {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -41,8 +35,9 @@ export default function GlobalSearch() {
 
   // Debounced search
   useEffect(() => {
-    if (query.length < 2) {
+    if (query.trim().length < SEARCH_MIN_QUERY_LENGTH) {
       setResults([]);
+      setTotal(0);
       return;
     }
 
@@ -52,10 +47,12 @@ export default function GlobalSearch() {
         const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
         const data = await res.json();
         setResults(data.results || []);
+        setTotal(data.total || 0);
         setSelectedIndex(-1);
       } catch (error) {
         console.error("Search error:", error);
         setResults([]);
+        setTotal(0);
       } finally {
         setIsLoading(false);
       }
@@ -64,6 +61,18 @@ export default function GlobalSearch() {
     return () => clearTimeout(timer);
   }, [query]);
 
+  const allResultsHref = buildSearchHref(parseSearchParams({ q: query }));
+
+  const navigateTo = useCallback(
+    (url: string) => {
+      router.push(url);
+      setIsOpen(false);
+      setQuery("");
+      setResults([]);
+    },
+    [router]
+  );
+
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -89,20 +98,24 @@ export default function GlobalSearch() {
         } else if (e.key === "ArrowUp") {
           e.preventDefault();
           setSelectedIndex((prev) => Math.max(prev - 1, -1));
-        } else if (e.key === "Enter" && selectedIndex >= 0) {
+        }
+      }
+
+      // Enter opens the selected result, or the full results page
+      if (isOpen && e.key === "Enter") {
+        if (selectedIndex >= 0 && results[selectedIndex]) {
+          e.preventDefault();
+          navigateTo(results[selectedIndex].url);
+        } else if (query.trim().length >= SEARCH_MIN_QUERY_LENGTH) {
           e.preventDefault();
-          const result = results[selectedIndex];
-          router.push(result.url);
-          setIsOpen(false);
-          setQuery("");
-          setResults([]);
+          navigateTo(allResultsHref);
         }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isOpen, results, selectedIndex, router]);
+  }, [isOpen, results, selectedIndex, query, allResultsHref, navigateTo]);
 
   // Close when clicking outside
   useEffect(() => {
@@ -119,10 +132,7 @@ export default function GlobalSearch() {
   }, [isOpen]);
 
   const handleResultClick = (result: SearchResult) => {
-    router.push(result.url);
-    setIsOpen(false);
-    setQuery("");
-    setResults([]);
+    navigateTo(result.url);
   };
 
   return (
@@ -211,22 +221,28 @@ export default function GlobalSearch() {
                       )}
                     </div>
                     <span className="text-xs px-2 py-1 rounded-full bg-[var(--color-bg-secondary)] text-[var(--color-text-tertiary)] flex-shrink-0">
-                      {TYPE_LABELS[result.type]}
+                      {SEARCH_TYPE_LABELS[result.type]}
                     </span>
                   </button>
                 ))}
+                <button
+                  onClick={() => navigateTo(allResultsHref)}
+                  className="w-full px-4 py-3 text-left text-sm text-[var(--color-text-accent)] hover:bg-white/5 transition-colors border-t border-white/10"
+                >
+                  {total > results.length ? `See all ${total} results` : "Open results page"} &rarr;
+                </button>
               </div>
             )}
 
             {/* Empty State */}
-            {query.length >= 2 && !isLoading && results.length === 0 && (
+            {query.trim().length >= SEARCH_MIN_QUERY_LENGTH && !isLoading && results.length === 0 && (
               <div className="px-4 py-8 text-center text-[var(--color-text-tertiary)]">
                 <p>No results found for &ldquo;{query}&rdquo;</p>
               </div>
             )}
 
             {/* Hint */}
-            {query.length < 2 && (
+            {query.trim().length < SEARCH_MIN_QUERY_LENGTH && (
               <div className="px-4 py-6 text-center text-[var(--color-text-tertiary)] text-sm">
                 <p>Type at least 2 characters to search</p>
               </div>
@@ -242,7 +258,7 @@ export default function GlobalSearch() {
                 </span>
                 <span className="flex items-center gap-1">
                   <kbd className="px-1.5 py-0.5 bg-[var(--color-bg-secondary)] border border-[var(--color-border-input)] rounded">↵</kbd>
-                  to select
+                  to open
                 </span>
               </div>
               <span className="flex items-center gap-1">
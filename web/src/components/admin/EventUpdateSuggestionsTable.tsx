@@ -220,7 +220,7 @@ export default function EventUpdateSuggestionsTable({ suggestions }: Props) {
                   )}
                 </td>
                 <td className="px-3 py-2 text-[var(--color-text-secondary)]">
-                  {isNewEvent ? "New Open Mic" : s.field}
+                  {isNewEvent ? "New Open Mic" : s.field === "_reverification" ? "Host reports a change" : s.field}
                 </td>
                 <td className="px-3 py-2 text-[var(--color-text-tertiary)]">
                   {isNewEvent ? "—" : (s.old_value || "—")}
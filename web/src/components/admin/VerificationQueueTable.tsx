@@ -9,14 +9,19 @@
  * - Row-level quick actions: Verify, Cancel, Delete
  * - Inline context: date/time, venue, verification pill, public link
  * - Hard delete guardrails: blocked if RSVPs or claims exist
+ * - Reverification: "No response" filter for stale listings whose host or
+ *   venue manager didn't answer (or couldn't be emailed)
  */
 
 import { useState, useMemo } from "react";
 import Link from "next/link";
+import type { ReverificationQueueState } from "@/lib/reverification/campaign";
 
 // Verification status based on Phase 4.40 logic
 type VerificationStatus = "unconfirmed" | "confirmed" | "cancelled";
 
+type StatusFilter = VerificationStatus | "no_response" | "all";
+
 interface QueueEvent {
   id: string;
   title: string;
@@ -38,6 +43,10 @@ interface QueueEvent {
   } | null;
   rsvp_count: number;
   claim_count: number;
+  reverification: {
+    state: ReverificationQueueState;
+    sent_at: string;
+  } | null;
 }
 
 interface Props {
@@ -51,7 +60,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
   const [events, setEvents] = useState(initialEvents);
 
   // Phase 4.41: Default to "unconfirmed" filter
-  const [statusFilter, setStatusFilter] = useState<VerificationStatus | "all">("unconfirmed");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("unconfirmed");
   const [dateFilter, setDateFilter] = useState<DateFilter>("all");
   const [venueFilter, setVenueFilter] = useState<string>("all");
   const [search, setSearch] = useState("");
@@ -72,6 +81,10 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
     return "unconfirmed";
   };
 
+  // Asked to reverify and never answered (or nobody to ask)
+  const isNonResponder = (event: QueueEvent): boolean =>
+    event.reverification?.state === "no_response" || event.reverification?.state === "unreachable";
+
   // Get next occurrence date for recurring events
   const getEventDate = (event: QueueEvent): string | null => {
     if (event.event_date) return event.event_date;
@@ -85,7 +98,9 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
     let filtered = events;
 
     // Status filter
-    if (statusFilter !== "all") {
+    if (statusFilter === "no_response") {
+      filtered = filtered.filter(isNonResponder);
+    } else if (statusFilter !== "all") {
       filtered = filtered.filter((e) => getVerificationStatus(e) === statusFilter);
     }
 
@@ -131,6 +146,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
     unconfirmed: events.filter((e) => getVerificationStatus(e) === "unconfirmed").length,
     confirmed: events.filter((e) => getVerificationStatus(e) === "confirmed").length,
     cancelled: events.filter((e) => getVerificationStatus(e) === "cancelled").length,
+    no_response: events.filter(isNonResponder).length,
   }), [events]);
 
   // Verify action - sets last_verified_at
@@ -150,7 +166,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
         setEvents((prev) =>
           prev.map((e) =>
             e.id === eventId
-              ? { ...e, status: data.status, last_verified_at: data.last_verified_at }
+              ? { ...e, status: data.status, last_verified_at: data.last_verified_at, reverification: null }
               : e
           )
         );
@@ -184,7 +200,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
         setEvents((prev) =>
           prev.map((e) =>
             e.id === eventId
-              ? { ...e, last_verified_at: null, verified_by: null }
+              ? { ...e, last_verified_at: null, verified_by: null, reverification: null }
               : e
           )
         );
@@ -220,7 +236,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
         setEvents((prev) =>
           prev.map((e) =>
             e.id === eventId
-              ? { ...e, status: data.status }
+              ? { ...e, status: data.status, reverification: null }
               : e
           )
         );
@@ -332,6 +348,25 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
     );
   };
 
+  // Reverification state, shown under the verification pill
+  const ReverificationNote = ({ event }: { event: QueueEvent }) => {
+    if (!event.reverification) return null;
+    const sent = new Date(event.reverification.sent_at).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "America/Denver",
+    });
+    const label = {
+      pending: `Reverify sent ${sent}`,
+      no_response: `No response (asked ${sent})`,
+      unreachable: "No contact to reverify",
+    }[event.reverification.state];
+    const tone = event.reverification.state === "pending"
+      ? "text-[var(--color-text-tertiary)]"
+      : "text-amber-800 dark:text-amber-400";
+    return <p className={`mt-1 text-xs ${tone}`}>{label}</p>;
+  };
+
   // Check if delete is safe
   const canDelete = (event: QueueEvent): { safe: boolean; reason?: string } => {
     if (event.rsvp_count > 0) {
@@ -373,12 +408,13 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
             <label className="text-sm text-[var(--color-text-secondary)]">Status:</label>
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as VerificationStatus | "all")}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
               className="px-3 py-1.5 bg-[var(--color-bg-input)] border border-[var(--color-border-input)] rounded text-sm text-[var(--color-text-primary)]"
             >
               <option value="unconfirmed">Unconfirmed ({counts.unconfirmed})</option>
               <option value="confirmed">Confirmed ({counts.confirmed})</option>
               <option value="cancelled">Cancelled ({counts.cancelled})</option>
+              <option value="no_response">No response ({counts.no_response})</option>
               <option value="all">All ({counts.all})</option>
             </select>
           </div>
@@ -497,6 +533,7 @@ export default function VerificationQueueTable({ events: initialEvents, venues }
                     {/* Status */}
                     <td className="px-3 py-2">
                       <VerificationPill event={event} />
+                      <ReverificationNote event={event} />
                     </td>
 
                     {/* Actions */}
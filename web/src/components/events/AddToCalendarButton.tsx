@@ -10,6 +10,11 @@ interface AddToCalendarButtonProps {
   endDate?: Date;
   /** If true, the event is all-day */
   allDay?: boolean;
+  /**
+   * webcal:// feed for the whole series (lib/calendar/icalFeed.ts).
+   * When set, adds a "Subscribe to all dates" option that stays in sync.
+   */
+  subscribeUrl?: string | null;
 }
 
 interface CalendarLinks {
@@ -137,6 +142,22 @@ export function AddToCalendarButton(props: AddToCalendarButtonProps) {
       ),
       download: false,
     },
+    ...(props.subscribeUrl
+      ? [
+          {
+            name: "Subscribe to all dates",
+            href: props.subscribeUrl,
+            icon: (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            ),
+            download: false,
+            // webcal:// hands off to the OS calendar app; no new tab
+            sameWindow: true,
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -162,13 +183,13 @@ export function AddToCalendarButton(props: AddToCalendarButtonProps) {
       </button>
 
       {isOpen && (
-        <div className="absolute z-50 mt-2 w-48 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] shadow-lg overflow-hidden">
+        <div className="absolute z-50 mt-2 w-56 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] shadow-lg overflow-hidden">
           {calendarOptions.map((option) => (
             <a
               key={option.name}
               href={option.href}
-              target={option.download ? undefined : "_blank"}
-              rel={option.download ? undefined : "noopener noreferrer"}
+              target={option.download || "sameWindow" in option ? undefined : "_blank"}
+              rel={option.download || "sameWindow" in option ? undefined : "noopener noreferrer"}
               download={option.download || undefined}
               onClick={() => setIsOpen(false)}
               className="flex items-center gap-3 px-4 py-3 text-[var(--color-text-primary)] hover:bg-[var(--color-bg-tertiary)] transition-colors"
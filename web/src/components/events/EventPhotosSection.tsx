@@ -4,6 +4,7 @@ import { useState, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import { Trash2, Check, Loader2, X, ZoomIn } from "lucide-react";
 import Image from "next/image";
@@ -89,6 +90,9 @@ export function EventPhotosSection({
           return null;
         }
 
+        // Strip location metadata and build responsive variants
+        await processUploadedImage("event-images", fileName);
+
         // Update local state
         setImages((prev) => [imageRecord as EventImage, ...prev]);
 
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+/**
+ * Counts one page view for host analytics once the event page is shown.
+ * Sent from the browser so the server render stays free of request-scoped
+ * work; document.referrer carries the external referrer the page's own
+ * request would otherwise lose.
+ */
+export default function EventViewBeacon({ eventId, dateKey }: { eventId: string; dateKey: string | null }) {
+  const sentFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    const key = `${eventId}:${dateKey ?? ""}`;
+    if (sentFor.current === key) return;
+    sentFor.current = key;
+
+    fetch(`/api/events/${eventId}/view`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        date_key: dateKey,
+        search: window.location.search,
+        referrer: document.referrer || null,
+      }),
+      keepalive: true,
+    }).catch(() => {
+      // Tracking never affects the page
+    });
+  }, [eventId, dateKey]);
+
+  return null;
+}
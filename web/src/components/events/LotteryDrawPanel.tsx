@@ -0,0 +1,186 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui";
+import type { LotteryStatus } from "@/lib/events/lottery";
+
+interface LotteryDrawPanelProps {
+  eventId: string;
+  dateKey?: string | null;
+  /** Signed-in member (enter / withdraw / accept). False on the host lineup page. */
+  canEnter?: boolean;
+  /** Shown instead of the entry buttons to signed-out visitors */
+  onRequireAuth?: () => void;
+  /** Lets the slot grid follow the draw (claims unlock once drawn) */
+  onStatusChange?: (status: LotteryStatus | null) => void;
+}
+
+function formatDenverDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "America/Denver",
+  });
+}
+
+/**
+ * Lottery (hat draw) panel for signup_mode = "lottery".
+ *
+ * Before the cutoff: pool size, draw time and Enter / Withdraw. After the
+ * draw: the seed, the sorted entrant list and the draw order, so anyone can
+ * re-run the draw (lib/events/lotteryDraw.ts) and check the result.
+ */
+export function LotteryDrawPanel({
+  eventId,
+  dateKey,
+  canEnter = false,
+  onRequireAuth,
+  onStatusChange,
+}: LotteryDrawPanelProps) {
+  const [status, setStatus] = React.useState<LotteryStatus | null>(null);
+  const [pending, setPending] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const applyStatus = React.useCallback(
+    (next: LotteryStatus | null) => {
+      setStatus(next);
+      onStatusChange?.(next);
+    },
+    [onStatusChange]
+  );
+
+  React.useEffect(() => {
+    const params = dateKey ? `?date_key=${dateKey}` : "";
+    fetch(`/api/events/${eventId}/lottery${params}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => applyStatus(data))
+      .catch((err) => console.error("Lottery status fetch failed:", err));
+  }, [eventId, dateKey, applyStatus]);
+
+  const act = async (method: "POST" | "PATCH" | "DELETE") => {
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/events/${eventId}/lottery${method === "DELETE" && dateKey ? `?date_key=${dateKey}` : ""}`,
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: method === "DELETE" ? undefined : JSON.stringify({ date_key: dateKey, action: "accept" }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        applyStatus(data);
+      } else {
+        setError(data.error || "Something went wrong");
+      }
+    } catch (err) {
+      console.error("Lottery action failed:", err);
+      setError("Network error - try again");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (!status) return null;
+
+  const { draw, my_entry: myEntry } = status;
+  const nameByEntry = new Map(draw?.result.entrants.map((e) => [e.entry_id, e.name]) ?? []);
+  const winnerCount = draw?.result.assignments.length ?? 0;
+
+  return (
+    <div
+      className="px-4 py-3 rounded-lg bg-[var(--color-bg-tertiary)]/50 border border-[var(--color-border-default)] space-y-3"
+      data-testid="lottery-draw-panel"
+    >
+      <div>
+        <p className="text-sm font-medium text-[var(--color-text-primary)]">🎩 Hat draw</p>
+        <p className="text-xs text-[var(--color-text-secondary)]">
+          {draw
+            ? `Drawn ${formatDenverDateTime(draw.drawn_at)} from ${draw.result.entrants.length} entr${draw.result.entrants.length === 1 ? "y" : "ies"}. Open slots are now first come, first served.`
+            : status.cutoff_at
+              ? `${status.entrant_count} entered • Slots are drawn at ${formatDenverDateTime(status.cutoff_at)}`
+              : `${status.entrant_count} entered`}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {/* Entrant actions */}
+      {!draw && status.open && (
+        canEnter ? (
+          myEntry?.status === "entered" ? (
+            <div className="flex items-center gap-3">
+              <p className="text-sm text-[var(--color-text-accent)]">You&apos;re in the draw.</p>
+              <Button type="button" variant="outline" size="sm" disabled={pending} onClick={() => act("DELETE")}>
+                Withdraw
+              </Button>
+            </div>
+          ) : (
+            <Button type="button" variant="primary" size="sm" disabled={pending} onClick={() => act("POST")}>
+              {pending ? "..." : "Enter the draw"}
+            </Button>
+          )
+        ) : onRequireAuth ? (
+          <Button type="button" variant="primary" size="sm" onClick={onRequireAuth}>
+            Sign in to enter the draw
+          </Button>
+        ) : null
+      )}
+
+      {canEnter && myEntry?.status === "waitlist" && (
+        <p className="text-sm text-[var(--color-text-secondary)]">
+          You&apos;re #{myEntry.waitlist_position} on the waitlist. We&apos;ll email you if a slot opens up.
+        </p>
+      )}
+
+      {canEnter && myEntry?.status === "offered" && (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm text-[var(--color-text-accent)]">
+            A slot opened up for you
+            {myEntry.offer_expires_at && ` (accept by ${formatDenverDateTime(myEntry.offer_expires_at)})`}.
+          </p>
+          <Button type="button" variant="primary" size="sm" disabled={pending} onClick={() => act("PATCH")}>
+            Accept slot
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={pending} onClick={() => act("DELETE")}>
+            Decline
+          </Button>
+        </div>
+      )}
+
+      {/* Published result for verification */}
+      {draw && (
+        <details className="text-xs text-[var(--color-text-secondary)]" data-testid="lottery-draw-result">
+          <summary className="cursor-pointer">
+            Draw details {draw.verified ? "✓ verified" : "(verification failed)"}
+          </summary>
+          <div className="mt-2 space-y-2">
+            <p>
+              Seed: <code className="break-all text-[var(--color-text-primary)]">{draw.seed}</code>
+            </p>
+            <p>
+              Algorithm: <code>{draw.result.algorithm}</code>. Entry ids are sorted, then shuffled with this seed.
+            </p>
+            <ol className="list-decimal pl-5 space-y-0.5">
+              {draw.result.order.map((entryId, idx) => (
+                <li key={entryId}>
+                  {nameByEntry.get(entryId) || "Member"}
+                  {" — "}
+                  {idx < winnerCount
+                    ? `slot ${draw.result.assignments[idx].slot_index + 1}`
+                    : `waitlist #${idx - winnerCount + 1}`}
+                  <span className="text-[var(--color-text-tertiary)]"> ({entryId.slice(0, 8)})</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
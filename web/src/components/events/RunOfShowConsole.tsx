@@ -0,0 +1,161 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui";
+import { SlotCountdown } from "@/components/events/SlotCountdown";
+import {
+  WARNING_SECONDS_OPTIONS,
+  type RunOfShowAction,
+} from "@/lib/events/runOfShow";
+
+interface RunOfShowConsoleProps {
+  eventId: string;
+  dateKey: string;
+  /** Null when the current slot is open (intermission) */
+  performerName: string | null;
+  upNextName: string | null;
+  startedAt: string | null;
+  durationMinutes: number;
+  warningSeconds: number;
+  /** Called after each action so the page can refetch */
+  onChanged: () => void;
+}
+
+const ACTION_LABELS: Record<RunOfShowAction, string> = {
+  performed: "Performed",
+  no_show: "No-show",
+  skip: "Skip",
+  bump_to_end: "Bump to end",
+};
+
+function formatWarningOption(seconds: number): string {
+  if (seconds === 0) return "Off";
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+/**
+ * Live run-of-show console for the host lineup page.
+ *
+ * One tap per performer: every action auto-advances to the next claimed
+ * slot (open slots are skipped). Actions and the warning lead time go
+ * through /api/my-events/[id]/run-of-show.
+ */
+export function RunOfShowConsole({
+  eventId,
+  dateKey,
+  performerName,
+  upNextName,
+  startedAt,
+  durationMinutes,
+  warningSeconds,
+  onChanged,
+}: RunOfShowConsoleProps) {
+  const [pendingAction, setPendingAction] = React.useState<RunOfShowAction | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const runAction = async (action: RunOfShowAction) => {
+    setPendingAction(action);
+    setError(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/run-of-show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date_key: dateKey, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Action failed");
+      }
+    } catch (err) {
+      console.error("Run-of-show action failed:", err);
+      setError("Network error - try again");
+    } finally {
+      setPendingAction(null);
+      onChanged();
+    }
+  };
+
+  const updateWarning = async (seconds: number) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/my-events/${eventId}/run-of-show`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date_key: dateKey, warning_seconds: seconds }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to update warning");
+      }
+    } catch (err) {
+      console.error("Run-of-show warning update failed:", err);
+      setError("Network error - try again");
+    } finally {
+      onChanged();
+    }
+  };
+
+  const busy = pendingAction !== null;
+  const hasPerformer = performerName !== null;
+
+  return (
+    <div className="bg-[var(--color-bg-secondary)] rounded-xl border border-[var(--color-border-default)] p-6 mb-6" data-testid="run-of-show-console">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">Run of Show</h2>
+          <p className="text-[var(--color-text-primary)] text-lg font-medium">
+            {performerName ?? "Open slot"}
+          </p>
+          {upNextName && (
+            <p className="text-sm text-[var(--color-text-secondary)]">Up next: {upNextName}</p>
+          )}
+        </div>
+        <SlotCountdown
+          startedAt={startedAt}
+          durationMinutes={durationMinutes}
+          warningSeconds={warningSeconds}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {(Object.keys(ACTION_LABELS) as RunOfShowAction[]).map((action) => (
+          <Button
+            key={action}
+            variant={action === "performed" ? "primary" : "outline"}
+            onClick={() => runAction(action)}
+            disabled={busy || (!hasPerformer && action !== "skip")}
+            className="text-base py-3"
+          >
+            {pendingAction === action ? "..." : ACTION_LABELS[action]}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-400" role="alert">{error}</p>
+      )}
+
+      <div className="mt-4 flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+        <label htmlFor="run-of-show-warning">Warn before end:</label>
+        <select
+          id="run-of-show-warning"
+          value={warningSeconds}
+          onChange={(e) => updateWarning(Number(e.target.value))}
+          className="px-2 py-1 bg-[var(--color-bg-tertiary)] border border-[var(--color-border-default)] rounded text-[var(--color-text-primary)]"
+        >
+          {!(WARNING_SECONDS_OPTIONS as readonly number[]).includes(warningSeconds) && (
+            <option value={warningSeconds}>{formatWarningOption(warningSeconds)}</option>
+          )}
+          {WARNING_SECONDS_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {formatWarningOption(seconds)}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-[var(--color-text-tertiary)]">
+          {durationMinutes} min slots
+        </span>
+      </div>
+    </div>
+  );
+}
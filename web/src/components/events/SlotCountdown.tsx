@@ -0,0 +1,66 @@
+"use client";
+
+import * as React from "react";
+import { formatTimerSeconds, getSlotTimer, type SlotTimerPhase } from "@/lib/events/runOfShow";
+
+interface SlotCountdownProps {
+  /** event_lineup_state.now_playing_started_at */
+  startedAt: string | null;
+  durationMinutes: number;
+  warningSeconds: number;
+  /** "control" for the host console, "tv" for the large display mirror */
+  variant?: "control" | "tv";
+}
+
+const PHASE_CLASSES: Record<SlotTimerPhase, string> = {
+  on_time: "text-emerald-400",
+  warning: "text-amber-400",
+  overtime: "text-red-400 animate-pulse",
+};
+
+const PHASE_LABELS: Record<SlotTimerPhase, string> = {
+  on_time: "remaining",
+  warning: "wrap it up",
+  overtime: "over time",
+};
+
+/**
+ * Per-performer countdown for the current now-playing slot.
+ *
+ * Shared by the run-of-show console and the TV display so both show the
+ * same clock: both derive it from now_playing_started_at, not local state.
+ */
+export function SlotCountdown({
+  startedAt,
+  durationMinutes,
+  warningSeconds,
+  variant = "control",
+}: SlotCountdownProps) {
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    if (!startedAt) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  if (!startedAt) return null;
+
+  const timer = getSlotTimer({ startedAt, durationMinutes, warningSeconds, now });
+  const isTv = variant === "tv";
+
+  return (
+    <div
+      className={`flex items-baseline gap-2 ${PHASE_CLASSES[timer.phase]}`}
+      data-testid="slot-countdown"
+      data-phase={timer.phase}
+    >
+      <span className={`font-mono font-bold tabular-nums ${isTv ? "text-5xl" : "text-4xl"}`}>
+        {formatTimerSeconds(timer.remainingSeconds)}
+      </span>
+      <span className={`uppercase tracking-wide ${isTv ? "text-xl" : "text-xs"}`}>
+        {PHASE_LABELS[timer.phase]}
+      </span>
+    </div>
+  );
+}
@@ -8,7 +8,14 @@ import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui";
 import { cn } from "@/lib/utils";
 import type { Database } from "@/lib/supabase/database.types";
+import {
+  describeSignupPolicy,
+  getSignupPolicyErrorMessage,
+  type SignupPolicy,
+} from "@/lib/events/signupPolicy";
+import { LOTTERY_SIGNUP_MODE, type LotteryStatus } from "@/lib/events/lottery";
 import { GuestTimeslotClaimForm } from "./GuestTimeslotClaimForm";
+import { LotteryDrawPanel } from "./LotteryDrawPanel";
 
 type DBTimeslot = Database["public"]["Tables"]["event_timeslots"]["Row"];
 type DBTimeslotClaim = Database["public"]["Tables"]["timeslot_claims"]["Row"];
@@ -35,6 +42,10 @@ interface TimeslotSectionProps {
   disabled?: boolean;
   /** Phase ABC6: date_key for per-occurrence timeslot scoping */
   dateKey?: string;
+  /** Per-event no-show rules (events.signup_policy), shown before claiming */
+  signupPolicy?: SignupPolicy | null;
+  /** events.signup_mode; "lottery" puts a hat draw in front of the slots */
+  signupMode?: string | null;
 }
 
 export function TimeslotSection({
@@ -44,6 +55,8 @@ export function TimeslotSection({
   slotDuration,
   disabled = false,
   dateKey,
+  signupPolicy = null,
+  signupMode = null,
 }: TimeslotSectionProps) {
   const router = useRouter();
   const pathname = usePathname();
@@ -55,6 +68,12 @@ export function TimeslotSection({
   const [pendingSlotId, setPendingSlotId] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [guestClaimingSlotId, setGuestClaimingSlotId] = React.useState<string | null>(null);
+  // Signup policy: claims held for host confirmation (not shown as taken)
+  const [waitlistClaims, setWaitlistClaims] = React.useState<DBTimeslotClaim[]>([]);
+  // Lottery mode: slots stay locked until the draw has run
+  const isLottery = signupMode === LOTTERY_SIGNUP_MODE;
+  const [lotteryStatus, setLotteryStatus] = React.useState<LotteryStatus | null>(null);
+  const lotteryLocked = isLottery && !lotteryStatus?.draw;
 
   // Fetch timeslots and claims
   React.useEffect(() => {
@@ -142,6 +161,10 @@ export function TimeslotSection({
         }
       }
 
+      setWaitlistClaims(
+        ((claims || []) as DBTimeslotClaim[]).filter((claim) => claim.status === "waitlist")
+      );
+
       // Map claims to their slots
       const claimsBySlot = new Map<string, TimeslotClaim>();
       ((claims || []) as DBTimeslotClaim[]).forEach((rawClaim) => {
@@ -209,11 +232,17 @@ export function TimeslotSection({
       if (claimError.code === "23505") {
         setError("This slot was just claimed by someone else.");
       } else {
-        setError(claimError.message || "Unable to claim slot.");
+        setError(getSignupPolicyErrorMessage(claimError.message) || claimError.message || "Unable to claim slot.");
       }
       return;
     }
 
+    // Signup policy moved the claim to the waitlist for host confirmation
+    if (newClaim.status === "waitlist") {
+      setWaitlistClaims(prev => [...prev, newClaim as DBTimeslotClaim]);
+      return;
+    }
+
     // Update local state
     setTimeslots(prev =>
       prev.map(slot =>
@@ -236,6 +265,21 @@ export function TimeslotSection({
       return;
     }
 
+    // Lottery dropouts go through the API so the slot is offered to the
+    // next entrant in draw order
+    if (isLottery && lotteryStatus?.my_entry?.status === "won") {
+      const params = dateKey ? `?date_key=${dateKey}` : "";
+      const res = await fetch(`/api/events/${eventId}/lottery${params}`, { method: "DELETE" });
+      setPendingSlotId(null);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Unable to release slot.");
+        return;
+      }
+      window.location.reload();
+      return;
+    }
+
     // Update claim status to cancelled
     const { error: updateError } = await supabase
       .from("timeslot_claims")
@@ -258,6 +302,24 @@ export function TimeslotSection({
     );
   };
 
+  const handleWithdrawWaitlist = async (claimId: string) => {
+    if (!user) return;
+
+    setError(null);
+    const { error: updateError } = await supabase
+      .from("timeslot_claims")
+      .update({ status: "cancelled" })
+      .eq("id", claimId)
+      .eq("member_id", user.id);
+
+    if (updateError) {
+      setError(updateError.message || "Unable to leave the waitlist.");
+      return;
+    }
+
+    setWaitlistClaims(prev => prev.filter(c => c.id !== claimId));
+  };
+
   // Calculate slot time from offset
   const formatSlotTime = (slot: TimeslotWithClaim) => {
     if (!eventStartTime || slot.start_offset_minutes === null) {
@@ -308,9 +370,18 @@ export function TimeslotSection({
     );
   }
 
+  const myWaitlistClaim = user
+    ? waitlistClaims.find(c => c.member_id === user.id) ?? null
+    : null;
+  const myWaitlistSlot = myWaitlistClaim
+    ? timeslots.find(s => s.id === myWaitlistClaim.timeslot_id) ?? null
+    : null;
+
   const userHasSlot = timeslots.some(
     s => s.claim?.member_id === user?.id && s.claim?.status === "confirmed"
-  );
+  ) || !!myWaitlistClaim;
+
+  const policyLines = describeSignupPolicy(signupPolicy);
 
   const claimedCount = timeslots.filter(s => s.claim?.status === "confirmed").length;
   const openCount = timeslots.length - claimedCount;
@@ -332,7 +403,48 @@ export function TimeslotSection({
         <p className="text-sm text-red-800 dark:text-red-500 bg-red-100 dark:bg-red-500/10 px-3 py-2 rounded-lg text-center">{error}</p>
       )}
 
-      {userHasSlot && (
+      {policyLines.length > 0 && (
+        <div
+          className="px-4 py-3 rounded-lg bg-[var(--color-bg-tertiary)]/50 border border-[var(--color-border-default)]"
+          data-testid="signup-policy"
+        >
+          <p className="text-sm font-medium text-[var(--color-text-primary)] mb-1">Signup rules</p>
+          <ul className="list-disc pl-5 text-xs text-[var(--color-text-secondary)] space-y-0.5">
+            {policyLines.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isLottery && (
+        <LotteryDrawPanel
+          eventId={eventId}
+          dateKey={dateKey}
+          canEnter={!!user && !disabled}
+          onRequireAuth={disabled ? undefined : handleRequireAuth}
+          onStatusChange={setLotteryStatus}
+        />
+      )}
+
+      {myWaitlistClaim && (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-[var(--color-text-secondary)] bg-[var(--color-bg-tertiary)]/50 px-4 py-2 rounded-lg">
+          <p className="text-sm">
+            You&apos;re waitlisted for {myWaitlistSlot ? formatSlotTime(myWaitlistSlot).split(" - ")[0] : "a slot"} until the host confirms you.
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleWithdrawWaitlist(myWaitlistClaim.id)}
+            className="text-xs"
+          >
+            Leave waitlist
+          </Button>
+        </div>
+      )}
+
+      {userHasSlot && !myWaitlistClaim && (
         <div className="flex items-center justify-center gap-2 text-[var(--color-text-accent)] bg-[var(--color-accent-primary)]/10 px-4 py-2 rounded-lg">
           <span>🎤</span>
           <p className="font-medium">You&apos;re on the lineup!</p>
@@ -340,7 +452,7 @@ export function TimeslotSection({
       )}
 
       {/* Open slots CTA - show once at top if there are open slots and user doesn't have one */}
-      {openCount > 0 && !userHasSlot && !authLoading && !guestClaimingSlotId && (
+      {openCount > 0 && !userHasSlot && !authLoading && !guestClaimingSlotId && !lotteryLocked && (
         <div className="text-center py-3 px-4 rounded-lg border-2 border-dashed border-[var(--color-accent-primary)]/30 bg-[var(--color-accent-primary)]/5">
           <p className="text-lg font-medium text-[var(--color-text-primary)]">
             Want to perform? Claim a slot below!
@@ -456,7 +568,7 @@ export function TimeslotSection({
                     type="button"
                     variant="primary"
                     size="sm"
-                    disabled={disabled || isPending || userHasSlot}
+                    disabled={disabled || isPending || userHasSlot || lotteryLocked}
                     onClick={() => {
                       if (user) {
                         handleClaim(slot.id);
@@ -467,7 +579,7 @@ export function TimeslotSection({
                     }}
                     className="w-full text-xs"
                   >
-                    {isPending ? "..." : disabled ? "Unavailable" : "Claim"}
+                    {isPending ? "..." : disabled ? "Unavailable" : lotteryLocked ? "Draw" : "Claim"}
                   </Button>
                 </>
               )}
@@ -477,7 +589,7 @@ export function TimeslotSection({
       </div>
 
       <p className="text-xs text-[var(--color-text-secondary)] text-center">
-        {slotDuration} min each • First come, first served
+        {slotDuration} min each • {lotteryLocked ? "Assigned by hat draw" : "First come, first served"}
       </p>
     </section>
   );
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { FollowState, FollowTargetType } from "@/lib/follows/followContract";
+
+interface FollowButtonProps {
+  targetType: FollowTargetType;
+  targetId: string;
+  initialState: FollowState;
+  /** False for anonymous visitors (renders a sign-in link) */
+  isSignedIn: boolean;
+  /** Path to return to after sign-in */
+  redirectTo: string;
+}
+
+/**
+ * Follow / unfollow a member, venue or organization, with a per-follow mute.
+ * Muted follows stay in the Following feed but send no notifications or
+ * digest entries.
+ */
+export function FollowButton({
+  targetType,
+  targetId,
+  initialState,
+  isSignedIn,
+  redirectTo,
+}: FollowButtonProps) {
+  const [state, setState] = useState(initialState);
+  const [loading, setLoading] = useState(false);
+
+  const countLabel = `${state.followerCount} follower${state.followerCount === 1 ? "" : "s"}`;
+
+  if (!isSignedIn) {
+    return (
+      <div className="flex items-center gap-3">
+        <Link
+          href={`/login?redirectTo=${encodeURIComponent(redirectTo)}`}
+          className="px-4 py-1.5 rounded-full text-sm font-medium border border-[var(--color-border-accent)] text-[var(--color-text-accent)] hover:bg-[var(--color-accent-primary)]/10 transition-colors"
+        >
+          Follow
+        </Link>
+        <span className="text-sm text-[var(--color-text-tertiary)]">{countLabel}</span>
+      </div>
+    );
+  }
+
+  const send = async (init: RequestInit, url = "/api/follows") => {
+    setLoading(true);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (res.ok) {
+        setState(data);
+      } else {
+        console.error("Follow update failed:", data.error);
+      }
+    } catch (err) {
+      console.error("Failed to update follow:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleFollow = () => {
+    if (state.following) {
+      void send(
+        { method: "DELETE" },
+        `/api/follows?type=${targetType}&id=${encodeURIComponent(targetId)}`
+      );
+    } else {
+      void send({
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target_type: targetType, target_id: targetId }),
+      });
+    }
+  };
+
+  const handleToggleMute = () => {
+    void send({
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ target_type: targetType, target_id: targetId, muted: !state.muted }),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        type="button"
+        onClick={handleToggleFollow}
+        disabled={loading}
+        aria-pressed={state.following}
+        className={
+          state.following
+            ? "px-4 py-1.5 rounded-full text-sm font-medium bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] hover:bg-[var(--color-accent-hover)] disabled:opacity-50 transition-colors"
+            : "px-4 py-1.5 rounded-full text-sm font-medium border border-[var(--color-border-accent)] text-[var(--color-text-accent)] hover:bg-[var(--color-accent-primary)]/10 disabled:opacity-50 transition-colors"
+        }
+      >
+        {state.following ? "Following" : "Follow"}
+      </button>
+      {state.following && (
+        <button
+          type="button"
+          onClick={handleToggleMute}
+          disabled={loading}
+          className="text-sm text-[var(--color-text-accent)] hover:text-[var(--color-accent-hover)] disabled:opacity-50 transition-colors"
+          title={
+            state.muted
+              ? "Get notifications and digest entries again"
+              : "Keep following without notifications or digest entries"
+          }
+        >
+          {state.muted ? "Unmute" : "Mute"}
+        </button>
+      )}
+      <span className="text-sm text-[var(--color-text-tertiary)]">{countLabel}</span>
+    </div>
+  );
+}
+
+export default FollowButton;
@@ -2,6 +2,7 @@
 
 import { useState, useCallback, useEffect, useRef } from "react";
 import { createClient } from "@/lib/supabase/client";
+import { processUploadedImage } from "@/lib/images/client";
 import { toast } from "sonner";
 import {
   DndContext,
@@ -351,6 +352,10 @@ export default function BulkUploadGrid({
         return;
       }
 
+      // Strip location metadata and build responsive variants
+      updateFileStatus(queuedFile.id, 'uploading', 75);
+      await processUploadedImage('gallery-images', fileName);
+
       updateFileStatus(
         queuedFile.id,
         'uploaded',
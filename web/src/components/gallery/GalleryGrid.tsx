@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import Image from "next/image";
 import { GalleryComments } from "./GalleryComments";
+import { VariantImage } from "@/components/ui";
+import { findImageAsset, type ImageAsset, type ImageAssetMap } from "@/lib/images/variants";
 
 interface RawGalleryImage {
   id: string;
@@ -30,10 +31,13 @@ interface NormalizedGalleryImage {
   event: { title: string } | null;
   venue: { name: string } | null;
   album?: { created_by: string } | null;
+  asset: ImageAsset | null;
 }
 
 interface Props {
   images: RawGalleryImage[];
+  /** Processed variants keyed by storage key; unprocessed images use the original */
+  assets?: ImageAssetMap;
   albumOwnerId?: string;
 }
 
@@ -43,7 +47,7 @@ function normalizeRelation<T>(data: T | T[] | null): T | null {
   return Array.isArray(data) ? data[0] ?? null : data;
 }
 
-export default function GalleryGrid({ images, albumOwnerId }: Props) {
+export default function GalleryGrid({ images, assets, albumOwnerId }: Props) {
   // Normalize the Supabase array joins
   const normalizedImages: NormalizedGalleryImage[] = images.map((img) => ({
     ...img,
@@ -51,6 +55,7 @@ export default function GalleryGrid({ images, albumOwnerId }: Props) {
     event: normalizeRelation(img.event),
     venue: normalizeRelation(img.venue),
     album: normalizeRelation(img.album),
+    asset: findImageAsset(assets, img.image_url),
   }));
 
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
@@ -120,7 +125,8 @@ export default function GalleryGrid({ images, albumOwnerId }: Props) {
               aria-label={`View ${image.caption || "gallery image"}`}
             >
               <div className="relative rounded-xl overflow-hidden border border-[var(--color-border-default)] hover:border-[var(--color-border-accent)]/30 transition-colors cursor-pointer">
-                <Image
+                <VariantImage
+                  asset={image.asset}
                   src={image.image_url}
                   alt={image.caption ?? "Gallery image"}
                   width={800}
@@ -210,7 +216,8 @@ export default function GalleryGrid({ images, albumOwnerId }: Props) {
             onClick={(e) => e.stopPropagation()}
           >
             <div className="relative w-full max-w-4xl" style={{ height: "80vh" }}>
-              <Image
+              <VariantImage
+                asset={selectedImage.asset}
                 src={selectedImage.image_url}
                 alt={selectedImage.caption ?? "Gallery image"}
                 fill
@@ -0,0 +1,107 @@
+/**
+ * ForYouView - Personalized picks for signed-in members
+ *
+ * Renders ranked occurrences from recommendOccurrences() with the reasons
+ * each one was picked ("You've played here 3 times", "Matches your Tuesday
+ * filter"). Ranking and reasons come from lib/happenings/recommendations.ts;
+ * this component only lays them out.
+ */
+
+import type * as React from "react";
+import Link from "next/link";
+import type { Event } from "@/types";
+import { formatDateGroupHeader, type EventOccurrenceEntry } from "@/lib/events/nextOccurrence";
+import type { RecommendationReason } from "@/lib/happenings/recommendations";
+import { cn } from "@/lib/utils";
+import { HappeningsCard } from "./HappeningsCard";
+
+export interface ForYouPick {
+  entry: EventOccurrenceEntry<Event>;
+  reasons: RecommendationReason[];
+  overrideVenueData?: React.ComponentProps<typeof HappeningsCard>["overrideVenueData"];
+  isFavorited?: boolean | null;
+}
+
+interface ForYouViewProps {
+  /** null = anonymous visitor (show sign-in prompt) */
+  picks: ForYouPick[] | null;
+  todayKey: string;
+  tomorrowKey: string;
+  className?: string;
+}
+
+/** Reasons shown per card; the rest are still used for ranking */
+const MAX_VISIBLE_REASONS = 3;
+
+export function ForYouView({ picks, todayKey, tomorrowKey, className }: ForYouViewProps) {
+  if (picks === null) {
+    return (
+      <div className={cn("text-center py-12", className)}>
+        <p className="text-[var(--color-text-secondary)]">
+          Sign in to see happenings picked for you.
+        </p>
+        <p className="text-[var(--color-text-tertiary)] text-sm mt-1">
+          We use your favorites, RSVPs, past slots and saved filters.
+        </p>
+        <Link
+          href={`/login?redirectTo=${encodeURIComponent("/happenings?view=for_you")}`}
+          className="inline-block mt-4 px-4 py-2 rounded-lg bg-[var(--color-accent-primary)] text-[var(--color-text-on-accent)] text-sm font-semibold hover:bg-[var(--color-accent-hover)] transition-colors"
+        >
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  if (picks.length === 0) {
+    return (
+      <div className={cn("text-center py-12", className)}>
+        <p className="text-[var(--color-text-secondary)]">No picks yet.</p>
+        <p className="text-[var(--color-text-tertiary)] text-sm mt-1">
+          Favorite a few happenings, RSVP, or save your filters and we&apos;ll start recommending.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className={cn("space-y-6", className)} aria-label="Picked for you">
+      {picks.map(({ entry, reasons, overrideVenueData, isFavorited }) => {
+        const cardDate = entry.displayDate || entry.dateKey;
+        return (
+          <li key={`${entry.event.id}-${entry.dateKey}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className="text-sm font-semibold text-[var(--color-text-primary)]">
+                {formatDateGroupHeader(cardDate, todayKey)}
+              </span>
+              {reasons.slice(0, MAX_VISIBLE_REASONS).map((reason) => (
+                <span
+                  key={reason.kind}
+                  className="text-xs px-2 py-0.5 rounded-full bg-[var(--color-accent-primary)]/15 text-[var(--color-text-accent)]"
+                >
+                  {reason.label}
+                </span>
+              ))}
+            </div>
+            <HappeningsCard
+              event={entry.event}
+              occurrence={{
+                date: cardDate,
+                isToday: cardDate === todayKey,
+                isTomorrow: cardDate === tomorrowKey,
+                isConfident: entry.isConfident,
+              }}
+              todayKey={todayKey}
+              override={entry.override}
+              isCancelled={entry.isCancelled}
+              overrideVenueData={overrideVenueData}
+              isFavorited={isFavorited}
+            />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default ForYouView;
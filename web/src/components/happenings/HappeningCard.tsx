@@ -85,7 +85,7 @@ export interface HappeningEvent {
   cost_label?: string | null;
 
   // Signup (Phase 3.1 fields)
-  signup_mode?: "in_person" | "online" | "both" | "walk_in" | null;
+  signup_mode?: "in_person" | "online" | "both" | "walk_in" | "lottery" | null;
   signup_url?: string | null;
 
   // Age policy (Phase 3.1)
@@ -24,6 +24,7 @@
  * - city: city name for nearby filter - Phase 1.4
  * - zip: ZIP code for nearby filter - Phase 1.4
  * - radius: radius in miles (5|10|15|25|50, default 10) - Phase 1.4
+ * - region: region slug (front-range, boulder, ...) - Regions
  */
 
 import * as React from "react";
@@ -58,6 +59,7 @@ import {
   upsertUserSavedHappeningsFilters,
   type SavedHappeningsFilters,
 } from "@/lib/happenings/savedFilters";
+import type { Region } from "@/lib/regions/regions";
 
 // Filter option types - human-readable labels
 const TIME_OPTIONS = [
@@ -131,6 +133,8 @@ interface HappeningsFiltersProps {
   windowEndKey: string;
   /** Current server-side time filter fallback */
   timeFilter: string;
+  /** Active regions; the region select shows when there's more than one */
+  regions?: Region[];
   className?: string;
 }
 
@@ -173,6 +177,7 @@ export function HappeningsFilters({
   windowStartKey,
   windowEndKey,
   timeFilter,
+  regions = [],
   className,
 }: HappeningsFiltersProps) {
   const router = useRouter();
@@ -200,6 +205,7 @@ export function HappeningsFilters({
   const city = searchParams.get("city") || "";
   const zip = searchParams.get("zip") || "";
   const radius = searchParams.get("radius") || "10";
+  const region = searchParams.get("region") || "";
 
   // Local search input state (debounced)
   const [searchInput, setSearchInput] = React.useState(q);
@@ -601,6 +607,13 @@ export function HappeningsFilters({
     const dayLabels = selectedDays.map((d) => DAY_OPTIONS.find((o) => o.value === d)?.label || d).join(", ");
     activeFilters.push({ key: "days", label: `Days: ${dayLabels}` });
   }
+  if (region) {
+    activeFilters.push({
+      key: "region",
+      label: regions.find((r) => r.slug === region)?.name || region,
+      icon: <MapPinIcon className="w-3 h-3" />
+    });
+  }
   // Phase 1.4: Location filter (ZIP takes precedence over city)
   if (zip) {
     const radiusLabel = RADIUS_OPTIONS.find(o => o.value === radius)?.label || `${radius} mi`;
@@ -643,6 +656,9 @@ export function HappeningsFilters({
   if (time === "past") activeFilterSummary.push("Past");
   if (time === "all") activeFilterSummary.push("All time");
   if (favoritesOnly) activeFilterSummary.push("Favorites");
+  if (region) {
+    activeFilterSummary.push(regions.find((r) => r.slug === region)?.name || region);
+  }
   // Phase 1.4: Location summary (ZIP wins over city)
   if (zip) {
     activeFilterSummary.push(`Near ${zip}`);
@@ -706,6 +722,7 @@ export function HappeningsFilters({
       daysParam ||
       city ||
       zip ||
+      region ||
       (radius && radius !== "10") ||
       (time && time !== "upcoming") ||
       dateFilter
@@ -738,6 +755,7 @@ export function HappeningsFilters({
     verify,
     favoritesOnly,
     zip || city, // Phase 1.4: Location filter counts as one
+    region,
   ].filter(Boolean).length;
 
   const hasSavedFilters = Boolean(savedFilters && hasSavedHappeningsFilters(savedFilters));
@@ -870,6 +888,25 @@ export function HappeningsFilters({
         </label>
       </div>
 
+      {regions.length > 1 && (
+        <label className="relative block">
+          <span className="sr-only">Region</span>
+          <MapPinIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[var(--color-text-secondary)]" aria-hidden="true" />
+          <select
+            value={region}
+            onChange={(e) => updateFilter("region", e.target.value || null)}
+            className="h-10 w-full rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-secondary)] px-3 py-2 pl-9 text-sm text-[var(--color-text-primary)] focus:border-[var(--color-accent-primary)] focus:outline-none md:w-auto md:min-w-[14rem]"
+          >
+            <option value="">All regions</option>
+            {regions.map((option) => (
+              <option key={option.slug} value={option.slug}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {zip && city && (
         <p className="text-sm text-[var(--color-text-tertiary)]">
           ZIP code takes precedence over city.
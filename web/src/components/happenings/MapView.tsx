@@ -18,6 +18,8 @@
  * - Desktop (≥768px): Leaflet Popup on marker click
  * - Mobile (<768px): Bottom sheet on marker click, no Popup
  * - SSR-safe mobile detection (initial false)
+ *
+ * Regions: a region filter passes the region's center/zoom as the viewport.
  */
 
 import * as React from "react";
@@ -35,6 +37,9 @@ import "leaflet.markercluster/dist/MarkerCluster.Default.css";
 
 interface MapViewProps {
   pinResult: MapPinResult;
+  /** Initial viewport center (defaults to statewide MAP_DEFAULTS) */
+  center?: { lat: number; lng: number };
+  zoom?: number;
   className?: string;
 }
 
@@ -49,12 +54,19 @@ interface ClusterSelection {
  * Dynamically imports Leaflet components to avoid SSR issues.
  * Shows a fallback message if pin limit is exceeded.
  */
-export function MapView({ pinResult, className }: MapViewProps) {
+export function MapView({
+  pinResult,
+  center = MAP_DEFAULTS.CENTER,
+  zoom = MAP_DEFAULTS.ZOOM,
+  className,
+}: MapViewProps) {
   const isMobile = useIsMobile();
   const [selectedPin, setSelectedPin] = useState<MapPinData | null>(null);
   const [selectedCluster, setSelectedCluster] = useState<ClusterSelection | null>(null);
   const [MapComponent, setMapComponent] = useState<React.ComponentType<{
     pins: MapPinData[];
+    center: { lat: number; lng: number };
+    zoom: number;
     isMobile: boolean;
     onMarkerClick: (pin: MapPinData) => void;
     clusterSelection: ClusterSelection | null;
@@ -118,6 +130,8 @@ export function MapView({ pinResult, className }: MapViewProps) {
         // Props passed in to avoid stale closures from useEffect scope
         const InnerMap = ({
           pins,
+          center: initialCenter,
+          zoom: initialZoom,
           isMobile: isMobileProp,
           onMarkerClick,
           clusterSelection,
@@ -125,6 +139,8 @@ export function MapView({ pinResult, className }: MapViewProps) {
           onClusterClose,
         }: {
           pins: MapPinData[];
+          center: { lat: number; lng: number };
+          zoom: number;
           isMobile: boolean;
           onMarkerClick: (pin: MapPinData) => void;
           clusterSelection: ClusterSelection | null;
@@ -189,8 +205,8 @@ export function MapView({ pinResult, className }: MapViewProps) {
 
           return (
             <MapContainer
-              center={[MAP_DEFAULTS.CENTER.lat, MAP_DEFAULTS.CENTER.lng]}
-              zoom={MAP_DEFAULTS.ZOOM}
+              center={[initialCenter.lat, initialCenter.lng]}
+              zoom={initialZoom}
               className="h-full w-full rounded-xl"
               scrollWheelZoom={true}
             >
@@ -364,6 +380,8 @@ export function MapView({ pinResult, className }: MapViewProps) {
         {MapComponent && (
           <MapComponent
             pins={pinResult.pins}
+            center={center}
+            zoom={zoom}
             isMobile={isMobile}
             onMarkerClick={handleMarkerClick}
             clusterSelection={selectedCluster}
@@ -9,6 +9,7 @@
  *             Added BackToTop floating button for quick navigation
  * Phase 4.54: Added view toggle (Timeline / Series)
  * Phase 4.55: Moved view toggle to ViewModeSelector component (hero-level cards)
+ * Regions: passes active regions through to the region filter
  */
 
 import * as React from "react";
@@ -17,6 +18,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { ViewModeSelector, type HappeningsViewMode } from "./ViewModeSelector";
 import { HappeningsFilters } from "./HappeningsFilters";
+import type { Region } from "@/lib/regions/regions";
 
 /**
  * Hydration-safe placeholder rendered during SSR and the initial client frame.
@@ -42,10 +44,12 @@ interface StickyControlsProps {
   timeFilter: string;
   cancelledCount?: number;
   viewMode?: HappeningsViewMode;
+  /** Active regions for the region filter (hidden when there's only one) */
+  regions?: Region[];
   className?: string;
 }
 
-export function StickyControls({ todayKey, windowStartKey, windowEndKey, timeFilter, cancelledCount = 0, viewMode = "timeline", className }: StickyControlsProps) {
+export function StickyControls({ todayKey, windowStartKey, windowEndKey, timeFilter, cancelledCount = 0, viewMode = "timeline", regions, className }: StickyControlsProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const showCancelled = searchParams.get("showCancelled") === "1";
@@ -96,6 +100,7 @@ export function StickyControls({ todayKey, windowStartKey, windowEndKey, timeFil
             windowStartKey={windowStartKey}
             windowEndKey={windowEndKey}
             timeFilter={timeFilter}
+            regions={regions}
           />
         ) : (
           <HappeningsFiltersShell />
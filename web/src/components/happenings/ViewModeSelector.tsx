@@ -9,16 +9,18 @@
  *
  * Phase 1.0: Added Map view mode for geographic discovery.
  *
+ * For You: personalized picks for signed-in members (recommendations.ts).
+ *
  * Design inspiration: MemberCard's card-spotlight styling,
  * radial gradients, gold accents for warmth.
  */
 
 import * as React from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { CalendarDays, Map, Repeat2 } from "lucide-react";
+import { CalendarDays, Map, Repeat2, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-export type HappeningsViewMode = "timeline" | "series" | "map";
+export type HappeningsViewMode = "timeline" | "series" | "map" | "for_you";
 
 interface ViewModeSelectorProps {
   viewMode: HappeningsViewMode;
@@ -55,11 +57,16 @@ export function ViewModeSelector({ viewMode, className }: ViewModeSelectorProps)
       label: "Map",
       icon: Map,
     },
+    {
+      id: "for_you",
+      label: "For You",
+      icon: Sparkles,
+    },
   ] as const;
 
   return (
     <div className={cn("w-full", className)} aria-label="Browse mode">
-      <div className="grid grid-cols-3 gap-1 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-tertiary)] p-1">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-1 rounded-lg border border-[var(--color-border-default)] bg-[var(--color-bg-tertiary)] p-1">
         {modes.map((mode) => {
           const Icon = mode.icon;
           const isActive = viewMode === mode.id;
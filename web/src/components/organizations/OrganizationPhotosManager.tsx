@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage, removeUploadedImageVariants } from "@/lib/images/client";
 import { toast } from "sonner";
 import { Check, Loader2, Trash2, X, ZoomIn } from "lucide-react";
 import Image from "next/image";
@@ -209,6 +210,9 @@ export function OrganizationPhotosManager({
           throw insertError;
         }
 
+        // Strip location metadata and build responsive variants
+        await processUploadedImage("avatars", storagePath);
+
         const nextImage: OrganizationImage = {
           id: inserted.id,
           image_url: inserted.image_url,
@@ -255,6 +259,7 @@ export function OrganizationPhotosManager({
 
           if (image.storage_path) {
             await supabase.storage.from("avatars").remove([image.storage_path]);
+            await removeUploadedImageVariants("avatars", image.storage_path);
           }
         }
 
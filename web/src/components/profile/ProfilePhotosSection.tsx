@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage, removeUploadedImageVariants } from "@/lib/images/client";
 import { toast } from "sonner";
 import { Trash2, Check, Loader2, X, ZoomIn } from "lucide-react";
 import Image from "next/image";
@@ -84,6 +85,9 @@ export function ProfilePhotosSection({
           return null;
         }
 
+        // Strip location metadata and build responsive variants
+        await processUploadedImage("avatars", storagePath);
+
         // Add to local state
         setImages((prev) => [newImage, ...prev]);
 
@@ -135,8 +139,9 @@ export function ProfilePhotosSection({
           return;
         }
 
-        // Also remove from storage
+        // Also remove from storage, with its generated variants
         await supabase.storage.from("avatars").remove([storagePath]);
+        await removeUploadedImageVariants("avatars", storagePath);
 
         // Remove from local state
         setImages((prev) => prev.filter((img) => img.id !== imageId));
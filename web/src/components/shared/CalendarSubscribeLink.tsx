@@ -0,0 +1,30 @@
+interface CalendarSubscribeLinkProps {
+  /** webcal:// feed URL (see buildCalendarFeedUrl in lib/calendar/icalFeed.ts) */
+  href: string;
+  /** Visible label (default "Subscribe in your calendar") */
+  label?: string;
+}
+
+/**
+ * Subscribe-to-calendar link for venue and host pages.
+ *
+ * webcal:// hands the feed to the visitor's calendar app, which then keeps
+ * refreshing it — cancellations and reschedules show up without re-adding.
+ */
+export function CalendarSubscribeLink({
+  href,
+  label = "Subscribe in your calendar",
+}: CalendarSubscribeLinkProps) {
+  return (
+    <a
+      href={href}
+      className="inline-flex items-center gap-2 text-sm text-[var(--color-link)] hover:underline"
+      data-testid="calendar-subscribe-link"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+      {label}
+    </a>
+  );
+}
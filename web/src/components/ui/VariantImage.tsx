@@ -0,0 +1,52 @@
+"use client";
+
+/**
+ * VariantImage — next/image with the upload pipeline's variants
+ *
+ * Drop-in for <Image>. When the image has a processed asset, renders a
+ * <picture> offering the AVIF srcset with a WebP <img> fallback, sized by
+ * the same `sizes`/`fill` props, with the blurhash shown until it loads.
+ * Without an asset (legacy or failed uploads) it renders a plain <Image>.
+ */
+
+import { useMemo, useState } from "react";
+import Image, { getImageProps, type ImageProps } from "next/image";
+import { blurhashToDataUrl } from "@/lib/images/blurhash";
+import { imageVariantLoader, type ImageAsset } from "@/lib/images/variants";
+
+type VariantImageProps = Omit<ImageProps, "loader" | "placeholder" | "blurDataURL"> & {
+  asset?: ImageAsset | null;
+};
+
+export function VariantImage({ asset, alt, ...props }: VariantImageProps) {
+  const [loaded, setLoaded] = useState(false);
+  const blurDataURL = useMemo(() => blurhashToDataUrl(asset?.blurhash), [asset?.blurhash]);
+
+  if (!asset || !asset.variants.some((variant) => variant.format === "webp")) {
+    return <Image alt={alt} {...props} />;
+  }
+
+  const { props: avif } = getImageProps({ ...props, alt, loader: imageVariantLoader(asset, "avif") });
+  const { props: webp } = getImageProps({ ...props, alt, loader: imageVariantLoader(asset, "webp") });
+  const { alt: webpAlt, style, ...imgProps } = webp;
+  const placeholderStyle =
+    !loaded && blurDataURL
+      ? { backgroundImage: `url("${blurDataURL}")`, backgroundSize: "cover", backgroundPosition: "center" }
+      : undefined;
+
+  return (
+    <picture>
+      {avif.srcSet && <source type="image/avif" srcSet={avif.srcSet} sizes={avif.sizes} />}
+      {/* Variants are already sized and encoded; the optimizer would re-encode them */}
+      <img
+        {...imgProps}
+        alt={webpAlt}
+        style={{ ...style, ...placeholderStyle }}
+        ref={(node) => {
+          if (node?.complete) setLoaded(true);
+        }}
+        onLoad={() => setLoaded(true)}
+      />
+    </picture>
+  );
+}
@@ -4,3 +4,4 @@ export { ImagePlaceholder } from "./ImagePlaceholder";
 export { ImageUpload } from "./ImageUpload";
 export { ThemePicker } from "./ThemePicker";
 export { ThemeSwitcher } from "./ThemeSwitcher";
+export { VariantImage } from "./VariantImage";
@@ -10,10 +10,10 @@
  */
 
 import Link from "next/link";
-import Image from "next/image";
 import { cn } from "@/lib/utils";
 import { chooseVenueLink } from "@/lib/venue/chooseVenueLink";
-import { ImagePlaceholder } from "@/components/ui";
+import { ImagePlaceholder, VariantImage } from "@/components/ui";
+import type { ImageAsset } from "@/lib/images/variants";
 import {
   formatVenueCountsBadge,
   type VenueEventCounts,
@@ -29,6 +29,7 @@ interface VenueCardProps {
     google_maps_url?: string | null;
     website_url?: string | null;
     cover_image_url?: string | null;  // Cover image for thumbnail display
+    cover_image_asset?: ImageAsset | null;  // Processed variants of the cover, if any
   };
   /** Structured event counts (series + one-offs) */
   counts: VenueEventCounts;
@@ -64,7 +65,8 @@ export function VenueCard({ venue, counts, className }: VenueCardProps) {
         {/* Image Section - Cover image if available, placeholder fallback */}
         <div className="relative aspect-[4/3] overflow-hidden bg-[var(--color-bg-secondary)]">
           {venue.cover_image_url ? (
-            <Image
+            <VariantImage
+              asset={venue.cover_image_asset}
               src={venue.cover_image_url}
               alt={`${venue.name} cover`}
               fill
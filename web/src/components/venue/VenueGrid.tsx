@@ -1,6 +1,7 @@
 import * as React from "react";
 import { VenueCard } from "./VenueCard";
 import type { VenueEventCounts } from "@/lib/venue/computeVenueCounts";
+import type { ImageAsset } from "@/lib/images/variants";
 
 interface VenueWithCounts {
   id: string;
@@ -11,6 +12,7 @@ interface VenueWithCounts {
   google_maps_url?: string | null;
   website_url?: string | null;
   cover_image_url?: string | null;
+  cover_image_asset?: ImageAsset | null;
   counts: VenueEventCounts;
 }
 
@@ -4,6 +4,7 @@ import { useState, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { ImageUpload } from "@/components/ui";
+import { processUploadedImage, removeUploadedImageVariants } from "@/lib/images/client";
 import { toast } from "sonner";
 import { Trash2, Check, Loader2, X, ZoomIn } from "lucide-react";
 import Image from "next/image";
@@ -90,6 +91,9 @@ export function VenuePhotosSection({
           return null;
         }
 
+        // Strip location metadata and build responsive variants
+        await processUploadedImage("avatars", storagePath);
+
         // Add to local state
         setImages((prev) => [newImage, ...prev]);
         toast.success("Photo uploaded!");
@@ -121,8 +125,9 @@ export function VenuePhotosSection({
           return;
         }
 
-        // Also remove from storage
+        // Also remove from storage, with its generated variants
         await supabase.storage.from("avatars").remove([storagePath]);
+        await removeUploadedImageVariants("avatars", storagePath);
 
         // Remove from local state
         setImages((prev) => prev.filter((img) => img.id !== imageId));
@@ -0,0 +1,180 @@
+"use client";
+
+import * as React from "react";
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+import {
+  buildTimeslotClaimsFilter,
+  countConnectedDisplays,
+  getLineupChannelName,
+  isOtherOccurrence,
+  LINEUP_REFETCH_DEBOUNCE_MS,
+  type LineupPresencePayload,
+  type LineupPresenceRole,
+  type LineupRealtimeStatus,
+} from "@/lib/events/lineupRealtime";
+
+export interface UseLineupRealtimeOptions {
+  supabase: SupabaseClient<any, any, any>;
+  /** Resolved event UUID (null until the first fetch resolves it). */
+  eventId: string | null;
+  dateKey: string | null;
+  timeslotIds: string[];
+  /** Presence role to announce; omit to listen without being counted. */
+  presenceRole?: LineupPresenceRole;
+  /** Refetch callback: invoked on changes, on (re)subscribe, and on network recovery. */
+  onChange: () => void;
+}
+
+export interface UseLineupRealtimeResult {
+  realtimeStatus: LineupRealtimeStatus;
+  connectedDisplays: number;
+}
+
+/**
+ * Realtime lineup subscription for /events/[id]/display and /lineup.
+ *
+ * Payloads are only change signals — every change triggers the page's own
+ * fetch, which stays the single source of truth. On every SUBSCRIBED
+ * (first join and each rejoin after a Wi-Fi drop) the page backfills, so
+ * anything missed while offline is picked up.
+ */
+export function useLineupRealtime({
+  supabase,
+  eventId,
+  dateKey,
+  timeslotIds,
+  presenceRole,
+  onChange,
+}: UseLineupRealtimeOptions): UseLineupRealtimeResult {
+  const [realtimeStatus, setRealtimeStatus] = React.useState<LineupRealtimeStatus>("connecting");
+  const [connectedDisplays, setConnectedDisplays] = React.useState(0);
+
+  // Keep the latest callback without resubscribing on every render
+  const onChangeRef = React.useRef(onChange);
+  React.useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const claimsFilter = buildTimeslotClaimsFilter(timeslotIds);
+
+  React.useEffect(() => {
+    if (!eventId || !dateKey) return;
+
+    let debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefetch = () => {
+      if (debounceTimeout) clearTimeout(debounceTimeout);
+      debounceTimeout = setTimeout(() => onChangeRef.current(), LINEUP_REFETCH_DEBOUNCE_MS);
+    };
+
+    const handleRowChange = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+      const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+      if (isOtherOccurrence(row, dateKey)) return;
+      scheduleRefetch();
+    };
+
+    const channel: RealtimeChannel = supabase.channel(getLineupChannelName(eventId, dateKey), {
+      config: { presence: { key: `${presenceRole ?? "observer"}-${Math.random().toString(36).slice(2, 10)}` } },
+    });
+
+    channel
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_lineup_state", filter: `event_id=eq.${eventId}` },
+        handleRowChange
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "event_timeslots", filter: `event_id=eq.${eventId}` },
+        handleRowChange
+      );
+
+    // Claim inserts, releases and waitlist promotions
+    if (claimsFilter) {
+      channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "timeslot_claims", filter: claimsFilter },
+        scheduleRefetch
+      );
+    }
+
+    channel.on("presence", { event: "sync" }, () => {
+      setConnectedDisplays(
+        countConnectedDisplays(
+          channel.presenceState<Partial<LineupPresencePayload>>()
+        )
+      );
+    });
+
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        setRealtimeStatus("live");
+        if (presenceRole) {
+          const presence: LineupPresencePayload = {
+            role: presenceRole,
+            online_at: new Date().toISOString(),
+          };
+          void channel.track(presence);
+        }
+        // Backfill anything that changed before (re)joining
+        scheduleRefetch();
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+        setRealtimeStatus("offline");
+      }
+    });
+
+    // Browser regained network: refetch immediately rather than waiting for rejoin
+    const handleOnline = () => scheduleRefetch();
+    window.addEventListener("online", handleOnline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      if (debounceTimeout) clearTimeout(debounceTimeout);
+      void supabase.removeChannel(channel);
+      setRealtimeStatus("connecting");
+    };
+  }, [supabase, eventId, dateKey, claimsFilter, presenceRole]);
+
+  return { realtimeStatus, connectedDisplays };
+}
+
+/**
+ * Presence-only view of a lineup channel: how many TV displays are
+ * connected for this occurrence. Used by the dashboard Lineup Control
+ * section, which doesn't render the lineup itself.
+ */
+export function useConnectedDisplays(
+  supabase: SupabaseClient<any, any, any>,
+  eventId: string | null,
+  dateKey: string | null
+): number {
+  const [connectedDisplays, setConnectedDisplays] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!eventId || !dateKey) return;
+
+    const channel = supabase.channel(getLineupChannelName(eventId, dateKey), {
+      config: { presence: { key: `observer-${Math.random().toString(36).slice(2, 10)}` } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        setConnectedDisplays(
+          countConnectedDisplays(
+            channel.presenceState<Partial<LineupPresencePayload>>()
+          )
+        );
+      })
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+      setConnectedDisplays(0);
+    };
+  }, [supabase, eventId, dateKey]);
+
+  return connectedDisplays;
+}
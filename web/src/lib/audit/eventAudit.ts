@@ -13,10 +13,15 @@
  *   - Axiom mirror via console.info("[event-audit]", payload) — Vercel
  *     runtime logs already drain to Axiom.
  *
- * Out of scope (PR B / PR C):
- *   - Suspicion scorer + admin email (PR B).
- *   - Admin browser UI / public transparency line (PR C).
- *   - Retention cleanup function (PR B).
+ * PR B / PR C (shipped):
+ *   - Every row is scored by lib/events/auditSuspicion.ts before insert
+ *     (suspicion_score / suspicion_signals). Flagged rows email admins via
+ *     sendEventAuditSuspicionAlert when EVENT_AUDIT_ALERTS_ENABLED=true.
+ *   - Retention: cleanup_event_audit_log() run daily by
+ *     /api/cron/event-audit-retention.
+ *   - Admin browser at /dashboard/admin/event-audit.
+ *
+ * Still out of scope: public transparency line.
  *
  * Feature flag default-off per Sami's §7 #9 answer:
  *   - Helper short-circuits when EVENT_AUDIT_LOG_ENABLED !== "true".
@@ -31,13 +36,21 @@
  *   - PATCH/POST/DELETE responses are NOT blocked by audit failures.
  */
 
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { createHash } from "node:crypto";
 import {
   computePatchDiff,
   type FieldChange,
   type PatchDiffResult,
 } from "@/lib/events/computePatchDiff";
+import {
+  DATE_CHANGE_WINDOW_MS,
+  SUSPICION_SIGNAL_LABELS,
+  scoreEventEdit,
+  touchesDateFields,
+  type EventEditScore,
+} from "@/lib/events/auditSuspicion";
+import { sendEventAuditSuspicionAlert } from "@/lib/email/adminEventAlerts";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Public types
@@ -124,6 +137,14 @@ export function isEventAuditLogEnabled(): boolean {
   return process.env.EVENT_AUDIT_LOG_ENABLED === "true";
 }
 
+/**
+ * Admin email for flagged rows. Separate from EVENT_AUDIT_LOG_ENABLED so
+ * scores can be reviewed in the admin browser before anyone gets paged.
+ */
+export function isEventAuditAlertsEnabled(): boolean {
+  return process.env.EVENT_AUDIT_ALERTS_ENABLED === "true";
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Private helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -268,6 +289,63 @@ export function buildEventAuditRowPayload(input: LogEventAuditInput): AuditRowPa
   };
 }
 
+/**
+ * Gather the scorer's context and score the row. Lookups are skipped when
+ * they cannot change the result (no actor, or no date fields touched).
+ * Never throws — a failed lookup scores with what is available.
+ */
+async function scoreAuditPayload(
+  supabase: SupabaseClient,
+  payload: AuditRowPayload,
+  input: LogEventAuditInput
+): Promise<EventEditScore> {
+  const now = new Date();
+  const changedFields = payload.changed_fields as FieldChange[];
+
+  let actorCreatedAt: string | null = null;
+  let recentActorWrites: { event_id_at_observation: string; changed_fields: unknown; created_at: string }[] = [];
+
+  if (payload.actor_id && payload.actor_role !== "admin") {
+    try {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("created_at")
+        .eq("id", payload.actor_id)
+        .maybeSingle();
+      actorCreatedAt = profile?.created_at ?? null;
+
+      if (touchesDateFields(changedFields)) {
+        const { data: recent } = await supabase
+          .from("event_audit_log")
+          .select("event_id_at_observation, changed_fields, created_at")
+          .eq("actor_id", payload.actor_id)
+          .gte("created_at", new Date(now.getTime() - DATE_CHANGE_WINDOW_MS).toISOString())
+          .order("created_at", { ascending: false })
+          .limit(200);
+        recentActorWrites = recent ?? [];
+      }
+    } catch (lookupErr) {
+      console.error("[event-audit-failed] suspicion context lookup error", {
+        err: lookupErr instanceof Error ? lookupErr.message : String(lookupErr),
+        eventId: input.eventId,
+      });
+    }
+  }
+
+  const publishedRow = input.nextEvent ?? input.prevEvent;
+  return scoreEventEdit({
+    eventId: payload.event_id_at_observation,
+    action: payload.action,
+    actorRole: payload.actor_role,
+    userAgentClass: payload.user_agent_class,
+    changedFields,
+    eventIsPublished: publishedRow?.is_published === true,
+    actorCreatedAt,
+    recentActorWrites,
+    now,
+  });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
@@ -320,7 +398,12 @@ export async function logEventAudit(input: LogEventAuditInput): Promise<void> {
     const supabase = createClient(supabaseUrl, serviceRoleKey, {
       auth: { persistSession: false },
     });
-    const { error } = await supabase.from("event_audit_log").insert(payload);
+    const suspicion = await scoreAuditPayload(supabase, payload, input);
+    const { error } = await supabase.from("event_audit_log").insert({
+      ...payload,
+      suspicion_score: suspicion.score,
+      suspicion_signals: suspicion.signals,
+    });
     if (error) {
       console.error("[event-audit-failed] insert error", {
         message: error.message,
@@ -329,6 +412,25 @@ export async function logEventAudit(input: LogEventAuditInput): Promise<void> {
         action: input.action,
       });
     }
+
+    if (suspicion.shouldAlertImmediately && isEventAuditAlertsEnabled()) {
+      await sendEventAuditSuspicionAlert({
+        actorUserId: payload.actor_id,
+        actorRole: payload.actor_role,
+        eventId: payload.event_id_at_observation,
+        eventSlug: payload.event_slug_at_observation,
+        eventTitle: payload.event_title_at_observation,
+        score: suspicion.score,
+        signals: suspicion.signals.map((signal) => SUSPICION_SIGNAL_LABELS[signal]),
+        summary: payload.summary,
+        source: payload.source,
+      }).catch((alertErr) => {
+        console.error("[event-audit-failed] suspicion alert error", {
+          err: alertErr instanceof Error ? alertErr.message : String(alertErr),
+          eventId: input.eventId,
+        });
+      });
+    }
   } catch (insertErr) {
     console.error("[event-audit-failed] insert exception", {
       err: insertErr instanceof Error ? insertErr.message : String(insertErr),
@@ -0,0 +1,103 @@
+/**
+ * Event Audit Browser helpers (Lane 5 PR C)
+ *
+ * URL filter parsing and formatting for /dashboard/admin/event-audit.
+ * Filters live in the query string so alert emails can deep-link to a
+ * pre-filtered view (event_id + actor_id). Invalid values are dropped,
+ * never echoed into the query.
+ */
+
+import { PATCH_FIELD_REGISTRY } from "@/lib/events/patchFieldRegistry";
+import { denverWallTimeToDate } from "@/lib/events/lottery";
+import { addDaysDenver } from "@/lib/events/nextOccurrence";
+
+export const EVENT_AUDIT_PAGE_SIZE = 50;
+
+export const EVENT_AUDIT_BROWSER_PATH = "/dashboard/admin/event-audit";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Fields the diff can contain, for the field filter dropdown */
+export const EVENT_AUDIT_FIELD_OPTIONS = Object.keys(PATCH_FIELD_REGISTRY).sort();
+
+export interface EventAuditFilters {
+  eventId: string | null;
+  actorId: string | null;
+  field: string | null;
+  /** Denver date key, inclusive */
+  from: string | null;
+  /** Denver date key, inclusive */
+  to: string | null;
+  flaggedOnly: boolean;
+  /** 1-based */
+  page: number;
+}
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+function first(value: string | string[] | undefined): string | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed : null;
+}
+
+export function parseEventAuditFilters(params: SearchParamsRecord): EventAuditFilters {
+  const eventId = first(params.event_id);
+  const actorId = first(params.actor_id);
+  const field = first(params.field);
+  const from = first(params.from);
+  const to = first(params.to);
+  const page = Number(first(params.page));
+
+  return {
+    eventId: eventId && UUID_REGEX.test(eventId) ? eventId : null,
+    actorId: actorId && UUID_REGEX.test(actorId) ? actorId : null,
+    field: field && EVENT_AUDIT_FIELD_OPTIONS.includes(field) ? field : null,
+    from: from && DATE_KEY_REGEX.test(from) ? from : null,
+    to: to && DATE_KEY_REGEX.test(to) ? to : null,
+    flaggedOnly: first(params.flagged) === "1",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * created_at bounds for the from/to Denver date keys: from midnight of
+ * `from` up to (not including) midnight after `to`.
+ */
+export function getEventAuditTimeRange(filters: Pick<EventAuditFilters, "from" | "to">): {
+  gte: string | null;
+  lt: string | null;
+} {
+  return {
+    gte: filters.from ? denverWallTimeToDate(filters.from, "00:00:00").toISOString() : null,
+    lt: filters.to
+      ? denverWallTimeToDate(addDaysDenver(filters.to, 1), "00:00:00").toISOString()
+      : null,
+  };
+}
+
+export function buildEventAuditHref(
+  filters: EventAuditFilters,
+  overrides: Partial<EventAuditFilters> = {}
+): string {
+  const merged = { ...filters, ...overrides };
+  const params = new URLSearchParams();
+  if (merged.eventId) params.set("event_id", merged.eventId);
+  if (merged.actorId) params.set("actor_id", merged.actorId);
+  if (merged.field) params.set("field", merged.field);
+  if (merged.from) params.set("from", merged.from);
+  if (merged.to) params.set("to", merged.to);
+  if (merged.flaggedOnly) params.set("flagged", "1");
+  if (merged.page > 1) params.set("page", String(merged.page));
+  const query = params.toString();
+  return query ? `${EVENT_AUDIT_BROWSER_PATH}?${query}` : EVENT_AUDIT_BROWSER_PATH;
+}
+
+/** Display form of one side of a scalar change */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "∅";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
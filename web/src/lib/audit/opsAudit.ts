@@ -21,7 +21,13 @@ type OpsAction =
   | "events_bulk_unverify"
   | "overrides_csv_export"
   | "overrides_csv_preview"
-  | "overrides_csv_apply";
+  | "overrides_csv_apply"
+  | "duplicates_merge_events"
+  | "duplicates_merge_venues"
+  | "duplicates_dismiss"
+  | "data_health_run"
+  | "email_suppression_add"
+  | "email_suppression_remove";
 
 interface OpsAuditContext {
   rowCount?: number;
@@ -118,6 +124,27 @@ export const opsAudit = {
 
   overridesCsvApply: (actorId: string, ctx: OpsAuditContext = {}) =>
     logOpsAction("overrides_csv_apply", actorId, ctx),
+
+  // Duplicates
+  duplicatesMergeEvents: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("duplicates_merge_events", actorId, ctx),
+
+  duplicatesMergeVenues: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("duplicates_merge_venues", actorId, ctx),
+
+  duplicatesDismiss: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("duplicates_dismiss", actorId, ctx),
+
+  // Data health
+  dataHealthRun: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("data_health_run", actorId, ctx),
+
+  // Email suppressions
+  emailSuppressionAdd: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("email_suppression_add", actorId, ctx),
+
+  emailSuppressionRemove: (actorId: string, ctx: OpsAuditContext = {}) =>
+    logOpsAction("email_suppression_remove", actorId, ctx),
 };
 
 export default opsAudit;
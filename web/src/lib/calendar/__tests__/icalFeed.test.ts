@@ -0,0 +1,243 @@
+/**
+ * iCalendar feed builder — RRULE mapping, override handling, timezone
+ * blocks and RFC 5545 text rules.
+ */
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildCalendarFeed,
+  buildCalendarFeedUrl,
+  buildRRuleFromRecurrence,
+  escapeIcsText,
+  foldIcsLine,
+  type CalendarFeedEvent,
+} from "../icalFeed";
+import {
+  buildSavedFiltersFeedUrl,
+  generateCalendarFeedToken,
+  validateCalendarFeedToken,
+} from "../feedToken";
+import { stripIcsSuffix } from "../feedData";
+import { interpretRecurrence } from "@/lib/events/recurrenceContract";
+import type { OccurrenceOverride } from "@/lib/events/nextOccurrence";
+
+const SITE = "https://coloradosongwriterscollective.org";
+const NOW = new Date("2026-10-18T12:00:00Z");
+
+function makeEvent(overrides: Partial<CalendarFeedEvent> = {}): CalendarFeedEvent {
+  return {
+    id: "evt-1",
+    slug: "tuesday-open-mic",
+    title: "Tuesday Open Mic",
+    description: "Sign up at 6:30",
+    status: "active",
+    event_date: "2026-10-06",
+    day_of_week: "Tuesday",
+    recurrence_rule: "weekly",
+    custom_dates: null,
+    max_occurrences: null,
+    start_time: "19:00:00",
+    end_time: "22:00:00",
+    venue: { name: "Lost Lake", address: "3602 E Colfax Ave", city: "Denver", state: "CO" },
+    ...overrides,
+  };
+}
+
+function feedFor(events: CalendarFeedEvent[], overrides: OccurrenceOverride[] = []): string {
+  return buildCalendarFeed({
+    name: "Test Feed",
+    events,
+    overrides,
+    siteUrl: SITE,
+    startKey: "2026-10-13",
+    endKey: "2026-11-30",
+    now: NOW,
+  });
+}
+
+/** Unfold continuation lines so assertions can match whole properties. */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildRRuleFromRecurrence", () => {
+  it("maps weekly, biweekly and monthly ordinal patterns", () => {
+    expect(
+      buildRRuleFromRecurrence(interpretRecurrence({ day_of_week: "Tuesday", recurrence_rule: "weekly" }))
+    ).toBe("RRULE:FREQ=WEEKLY;BYDAY=TU");
+    expect(
+      buildRRuleFromRecurrence(
+        interpretRecurrence({ event_date: "2026-10-06", recurrence_rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU" })
+      )
+    ).toBe("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU");
+    expect(
+      buildRRuleFromRecurrence(interpretRecurrence({ day_of_week: "Thursday", recurrence_rule: "1st/3rd" }))
+    ).toBe("RRULE:FREQ=MONTHLY;BYDAY=1TH,3TH");
+  });
+
+  it("adds COUNT for bounded series", () => {
+    expect(
+      buildRRuleFromRecurrence(interpretRecurrence({ day_of_week: "Tuesday", recurrence_rule: "weekly" }), 6)
+    ).toBe("RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=6");
+  });
+
+  it("returns null for one-time and custom-date events", () => {
+    expect(buildRRuleFromRecurrence(interpretRecurrence({ event_date: "2026-10-20" }))).toBeNull();
+    expect(
+      buildRRuleFromRecurrence(interpretRecurrence({ event_date: "2026-10-20", recurrence_rule: "custom" }))
+    ).toBeNull();
+  });
+});
+
+describe("buildCalendarFeed", () => {
+  it("emits an America/Denver VTIMEZONE and TZID-qualified times", () => {
+    const lines = unfold(feedFor([makeEvent()]));
+    expect(lines).toContain("BEGIN:VTIMEZONE");
+    expect(lines).toContain("TZID:America/Denver");
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU");
+    expect(lines).toContain("DTSTART;TZID=America/Denver:20261006T190000");
+    expect(lines).toContain("DTEND;TZID=America/Denver:20261006T220000");
+  });
+
+  it("emits one RRULE master with a stable UID for a weekly series", () => {
+    const lines = unfold(feedFor([makeEvent()]));
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(lines).toContain("UID:evt-1@coloradosongwriterscollective.org");
+    expect(lines).toContain("RRULE:FREQ=WEEKLY;BYDAY=TU");
+    expect(lines).toContain(`URL:${SITE}/events/tuesday-open-mic`);
+  });
+
+  it("marks a cancelled occurrence with RECURRENCE-ID + STATUS:CANCELLED", () => {
+    const lines = unfold(
+      feedFor([makeEvent()], [{ event_id: "evt-1", date_key: "2026-10-20", status: "cancelled" }])
+    );
+    const idx = lines.indexOf("RECURRENCE-ID;TZID=America/Denver:20261020T190000");
+    expect(idx).toBeGreaterThan(-1);
+    const instance = lines.slice(idx, lines.indexOf("END:VEVENT", idx));
+    expect(instance).toContain("STATUS:CANCELLED");
+    expect(instance.some((l) => l.startsWith("SUMMARY:CANCELLED: Tuesday Open Mic"))).toBe(true);
+  });
+
+  it("moves a rescheduled occurrence to its new date and time", () => {
+    const lines = unfold(
+      feedFor(
+        [makeEvent()],
+        [
+          {
+            event_id: "evt-1",
+            date_key: "2026-10-27",
+            status: "normal",
+            override_patch: { event_date: "2026-10-28", start_time: "20:00:00" },
+          },
+        ]
+      )
+    );
+    const idx = lines.indexOf("RECURRENCE-ID;TZID=America/Denver:20261027T190000");
+    expect(idx).toBeGreaterThan(-1);
+    const instance = lines.slice(idx, lines.indexOf("END:VEVENT", idx));
+    expect(instance).toContain("DTSTART;TZID=America/Denver:20261028T200000");
+    expect(instance).toContain("STATUS:CONFIRMED");
+  });
+
+  it("EXDATEs cancellations that fall before the feed window", () => {
+    const lines = unfold(
+      feedFor([makeEvent()], [{ event_id: "evt-1", date_key: "2026-10-06", status: "cancelled" }])
+    );
+    expect(lines).toContain("EXDATE;TZID=America/Denver:20261006T190000");
+    expect(lines.some((l) => l.startsWith("RECURRENCE-ID"))).toBe(false);
+  });
+
+  it("enumerates custom-date series with per-occurrence UIDs", () => {
+    const lines = unfold(
+      feedFor([
+        makeEvent({
+          id: "evt-2",
+          recurrence_rule: "custom",
+          day_of_week: null,
+          event_date: "2026-10-15",
+          custom_dates: ["2026-10-15", "2026-11-05"],
+        }),
+      ])
+    );
+    expect(lines).toContain("UID:evt-2-2026-10-15@coloradosongwriterscollective.org");
+    expect(lines).toContain("UID:evt-2-2026-11-05@coloradosongwriterscollective.org");
+    expect(lines.some((l) => l.startsWith("RRULE:FREQ=WEEKLY"))).toBe(false);
+  });
+
+  it("uses all-day DATE values when start_time is missing", () => {
+    const lines = unfold(
+      feedFor([makeEvent({ id: "evt-3", recurrence_rule: null, day_of_week: null, event_date: "2026-10-24", start_time: null, end_time: null })])
+    );
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261024");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261025");
+  });
+
+  it("rolls end_time past midnight to the next day", () => {
+    const lines = unfold(
+      feedFor([makeEvent({ id: "evt-4", recurrence_rule: null, day_of_week: null, event_date: "2026-10-24", start_time: "21:00:00", end_time: "01:00:00" })])
+    );
+    expect(lines).toContain("DTEND;TZID=America/Denver:20261025T010000");
+  });
+
+  it("marks every component cancelled when the whole series is cancelled", () => {
+    const lines = unfold(feedFor([makeEvent({ status: "cancelled" })]));
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(lines).not.toContain("STATUS:CONFIRMED");
+  });
+
+  it("uses CRLF line endings and folds long lines at 75 octets", () => {
+    const ics = feedFor([makeEvent({ description: "x".repeat(300) })]);
+    expect(ics.endsWith("\r\n")).toBe(true);
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+  });
+});
+
+describe("text helpers", () => {
+  it("escapes commas, semicolons, backslashes and newlines", () => {
+    expect(escapeIcsText("a,b;c\\d\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+  });
+
+  it("never splits a multi-byte character when folding", () => {
+    const folded = foldIcsLine(`SUMMARY:${"é".repeat(60)}`);
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+
+  it("builds webcal URLs for public feeds", () => {
+    expect(buildCalendarFeedUrl(SITE, "venues", "lost-lake")).toBe(
+      "webcal://coloradosongwriterscollective.org/api/calendar/venues/lost-lake.ics"
+    );
+  });
+});
+
+describe("stripIcsSuffix", () => {
+  it("drops the .ics suffix without decoding the already-decoded param again", () => {
+    expect(stripIcsSuffix("tuesday-open-mic.ics")).toBe("tuesday-open-mic");
+    expect(stripIcsSuffix("tuesday-open-mic")).toBe("tuesday-open-mic");
+    expect(stripIcsSuffix("100%-acoustic.ics")).toBe("100%-acoustic");
+  });
+});
+
+describe("calendar feed token", () => {
+  const original = process.env.CALENDAR_FEED_SECRET;
+  afterEach(() => {
+    if (original === undefined) delete process.env.CALENDAR_FEED_SECRET;
+    else process.env.CALENDAR_FEED_SECRET = original;
+  });
+
+  it("round-trips and rejects tampered signatures", () => {
+    process.env.CALENDAR_FEED_SECRET = "test-secret";
+    const token = generateCalendarFeedToken("user-1")!;
+    expect(validateCalendarFeedToken("user-1", token)).toBe(true);
+    expect(validateCalendarFeedToken("user-2", token)).toBe(false);
+    expect(buildSavedFiltersFeedUrl("user-1")).toMatch(
+      /^webcal:\/\/.+\/api\/calendar\/saved-filters\/user-1\?sig=[0-9a-f]{64}$/
+    );
+  });
+
+  it("fails closed when the secret is not configured", () => {
+    delete process.env.CALENDAR_FEED_SECRET;
+    expect(generateCalendarFeedToken("user-1")).toBeNull();
+    expect(validateCalendarFeedToken("user-1", "anything")).toBe(false);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Calendar Feed Data Loading
+ *
+ * Supabase reads behind the /api/calendar/* feed routes. Each loader
+ * resolves a feed "source" (name + the public events it covers); the
+ * shared renderCalendarFeed() then pulls occurrence_overrides for those
+ * events and hands everything to the pure builder in icalFeed.ts.
+ *
+ * Only published, public events are ever listed. Cancelled series stay in
+ * the feed (as STATUS:CANCELLED) so subscribers see the cancellation
+ * instead of the entry silently vanishing.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  addDaysDenver,
+  expandOccurrencesForEvent,
+  getTodayDenver,
+  type OccurrenceOverride,
+  type OccurrenceStatus,
+} from "@/lib/events/nextOccurrence";
+import {
+  buildFilteredDigestData,
+  formatDayHeader,
+  type HappeningEvent,
+  type HappeningOccurrence,
+} from "@/lib/digest/weeklyHappenings";
+import {
+  getUserSavedHappeningsFilters,
+  toDigestApplicableFilters,
+} from "@/lib/happenings/savedFilters";
+import { getSiteUrl } from "@/lib/siteUrl";
+import {
+  buildCalendarFeed,
+  defaultFeedStartKey,
+  FEED_WINDOW,
+  type CalendarFeedEvent,
+} from "./icalFeed";
+
+type FeedClient = SupabaseClient<Database>;
+
+const FEED_BRAND = "Colorado Songwriters Collective";
+
+export const CALENDAR_FEED_EVENT_SELECT = `
+  id,
+  slug,
+  title,
+  description,
+  status,
+  event_type,
+  is_free,
+  cost_label,
+  event_date,
+  day_of_week,
+  recurrence_rule,
+  custom_dates,
+  max_occurrences,
+  start_time,
+  end_time,
+  location_mode,
+  online_url,
+  venue_name,
+  venue_address,
+  custom_location_name,
+  custom_address,
+  custom_city,
+  custom_state,
+  updated_at,
+  venue:venues!left(id, name, slug, address, city, state, zip, latitude, longitude)
+`;
+
+type FeedEventRow = CalendarFeedEvent & {
+  event_type: string[];
+  is_free: boolean | null;
+  cost_label: string | null;
+  venue: (NonNullable<CalendarFeedEvent["venue"]> & {
+    id: string;
+    slug: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  }) | null;
+};
+
+export interface CalendarFeedSource {
+  /** X-WR-CALNAME shown in the subscriber's calendar list. */
+  name: string;
+  description: string | null;
+  /** Filename stem for Content-Disposition. */
+  filename: string;
+  events: FeedEventRow[];
+}
+
+function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+/**
+ * Feed routes accept both "/series/<slug>" and "/series/<slug>.ics".
+ * Route params arrive already decoded; decoding again would throw on a stray "%".
+ */
+export function stripIcsSuffix(identifier: string): string {
+  return identifier.replace(/\.ics$/i, "");
+}
+
+function normalizeRows(data: unknown[] | null): FeedEventRow[] {
+  // PostgREST returns the left-joined venue as an array in some shapes
+  return (data || []).map((row) => {
+    const event = row as FeedEventRow & { venue: unknown };
+    return {
+      ...event,
+      venue: Array.isArray(event.venue) ? event.venue[0] || null : event.venue,
+    } as FeedEventRow;
+  });
+}
+
+function publicEventsQuery(supabase: FeedClient) {
+  return supabase
+    .from("events")
+    .select(CALENDAR_FEED_EVENT_SELECT)
+    .eq("is_published", true)
+    .eq("visibility", "public")
+    .in("status", ["active", "cancelled"]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Source loaders
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function loadSeriesFeedSource(
+  supabase: FeedClient,
+  identifier: string
+): Promise<CalendarFeedSource | null> {
+  const query = publicEventsQuery(supabase);
+  const { data, error } = isUuid(identifier)
+    ? await query.eq("id", identifier)
+    : await query.eq("slug", identifier);
+
+  if (error) {
+    console.error("[CalendarFeed] Failed to load series:", error);
+    return null;
+  }
+
+  const events = normalizeRows(data);
+  if (events.length === 0) return null;
+
+  const event = events[0];
+  return {
+    name: `${event.title} — ${FEED_BRAND}`,
+    description: `Every upcoming date for ${event.title}.`,
+    filename: event.slug || event.id,
+    events: [event],
+  };
+}
+
+export async function loadVenueFeedSource(
+  supabase: FeedClient,
+  identifier: string
+): Promise<CalendarFeedSource | null> {
+  const venueQuery = supabase.from("venues").select("id, slug, name");
+  const { data: venue, error: venueError } = isUuid(identifier)
+    ? await venueQuery.eq("id", identifier).maybeSingle()
+    : await venueQuery.eq("slug", identifier).maybeSingle();
+
+  if (venueError || !venue) return null;
+
+  const { data, error } = await publicEventsQuery(supabase).eq("venue_id", venue.id);
+  if (error) {
+    console.error("[CalendarFeed] Failed to load venue events:", error);
+    return null;
+  }
+
+  return {
+    name: `${venue.name} — ${FEED_BRAND}`,
+    description: `Happenings at ${venue.name}.`,
+    filename: venue.slug || venue.id,
+    events: normalizeRows(data),
+  };
+}
+
+/**
+ * Host feed: events the profile owns (host_id) plus events where they are
+ * an accepted co-host via event_hosts. Same union the songwriter profile
+ * page uses for "Hosted Happenings".
+ */
+export async function loadHostFeedSource(
+  supabase: FeedClient,
+  identifier: string
+): Promise<CalendarFeedSource | null> {
+  const profileQuery = supabase.from("profiles").select("id, slug, full_name, is_public");
+  const { data: profile, error: profileError } = isUuid(identifier)
+    ? await profileQuery.eq("id", identifier).maybeSingle()
+    : await profileQuery.eq("slug", identifier).maybeSingle();
+
+  if (profileError || !profile || profile.is_public === false) return null;
+
+  const { data: cohostRows } = await supabase
+    .from("event_hosts")
+    .select("event_id")
+    .eq("user_id", profile.id)
+    .eq("invitation_status", "accepted");
+  const cohostEventIds = (cohostRows || []).map((row) => row.event_id);
+
+  const filter =
+    cohostEventIds.length > 0
+      ? `host_id.eq.${profile.id},id.in.(${cohostEventIds.join(",")})`
+      : `host_id.eq.${profile.id}`;
+
+  const { data, error } = await publicEventsQuery(supabase).or(filter);
+  if (error) {
+    console.error("[CalendarFeed] Failed to load host events:", error);
+    return null;
+  }
+
+  const hostName = profile.full_name || "Host";
+  return {
+    name: `Hosted by ${hostName} — ${FEED_BRAND}`,
+    description: `Happenings hosted by ${hostName}.`,
+    filename: profile.slug || profile.id,
+    events: normalizeRows(data),
+  };
+}
+
+/**
+ * Saved-filter feed. Filters are applied with the same
+ * buildFilteredDigestData() path the weekly digest uses, over the feed
+ * window, and any series with a surviving occurrence is included whole.
+ * `favorites` stays additive, matching digest personalization.
+ *
+ * Requires a service-role client: happenings_saved_filters is RLS-scoped
+ * to its owner and the calendar app has no session. The caller MUST have
+ * validated the feed token first.
+ */
+export async function loadSavedFiltersFeedSource(
+  supabase: FeedClient,
+  userId: string,
+  options?: { todayKey?: string }
+): Promise<CalendarFeedSource | null> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!profile) return null;
+
+  const saved = await getUserSavedHappeningsFilters(supabase, userId);
+  const applicable = toDigestApplicableFilters(saved?.filters ?? {});
+
+  const { data, error } = await publicEventsQuery(supabase);
+  if (error) {
+    console.error("[CalendarFeed] Failed to load events for saved filters:", error);
+    return null;
+  }
+  const events = normalizeRows(data);
+
+  const todayKey = options?.todayKey ?? getTodayDenver();
+  const start = todayKey;
+  const end = addDaysDenver(todayKey, FEED_WINDOW.FUTURE_DAYS);
+
+  const byDate = new Map<string, HappeningOccurrence[]>();
+  for (const event of events) {
+    for (const occ of expandOccurrencesForEvent(event, { startKey: start, endKey: end })) {
+      if (!occ.isConfident) continue;
+      const list = byDate.get(occ.dateKey) ?? [];
+      list.push({
+        event: event as unknown as HappeningEvent,
+        dateKey: occ.dateKey,
+        displayDate: formatDayHeader(occ.dateKey),
+      });
+      byDate.set(occ.dateKey, list);
+    }
+  }
+
+  const filtered = buildFilteredDigestData(
+    { byDate, totalCount: 0, venueCount: 0, dateRange: { start, end } },
+    applicable
+  );
+  const includedIds = new Set<string>();
+  for (const occurrences of filtered.byDate.values()) {
+    for (const occurrence of occurrences) includedIds.add(occurrence.event.id);
+  }
+
+  if (applicable.favorites) {
+    const { data: favorites } = await supabase
+      .from("favorites")
+      .select("event_id")
+      .eq("user_id", userId);
+    for (const row of favorites || []) {
+      if (row.event_id) includedIds.add(row.event_id);
+    }
+  }
+
+  return {
+    name: `My Happenings — ${FEED_BRAND}`,
+    description: "Happenings matching your saved filters.",
+    filename: "my-happenings",
+    events: events.filter((event) => includedIds.has(event.id)),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Overrides the builder needs: every override inside the window, plus
+ * cancelled overrides before it (EXDATE'd off RRULE masters).
+ */
+export async function fetchFeedOverrides(
+  supabase: FeedClient,
+  eventIds: string[],
+  startKey: string,
+  endKey: string
+): Promise<OccurrenceOverride[]> {
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("occurrence_overrides")
+    .select("event_id, date_key, status, override_start_time, override_cover_image_url, override_notes, override_patch")
+    .in("event_id", eventIds)
+    .lte("date_key", endKey)
+    .or(`date_key.gte.${startKey},status.eq.cancelled`);
+
+  if (error) {
+    console.error("[CalendarFeed] Failed to load overrides:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    status: row.status as OccurrenceStatus,
+    override_patch: (row.override_patch as Record<string, unknown> | null) ?? null,
+  }));
+}
+
+export async function renderCalendarFeed(
+  supabase: FeedClient,
+  source: CalendarFeedSource,
+  options?: { todayKey?: string; now?: Date }
+): Promise<string> {
+  const startKey = defaultFeedStartKey(options?.todayKey ?? getTodayDenver());
+  const endKey = addDaysDenver(startKey, FEED_WINDOW.PAST_DAYS + FEED_WINDOW.FUTURE_DAYS);
+  const overrides = await fetchFeedOverrides(
+    supabase,
+    source.events.map((event) => event.id),
+    startKey,
+    endKey
+  );
+
+  return buildCalendarFeed({
+    name: source.name,
+    description: source.description,
+    events: source.events,
+    overrides,
+    siteUrl: getSiteUrl(),
+    startKey,
+    endKey,
+    now: options?.now,
+  });
+}
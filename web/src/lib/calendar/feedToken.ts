@@ -0,0 +1,65 @@
+/**
+ * Calendar Feed Token — HMAC-Signed Personal Feed URLs
+ *
+ * Personal feeds (the saved-happenings-filter feed) are fetched by calendar
+ * apps that can't log in, so the URL itself carries an HMAC signature.
+ * Same shape as the digest unsubscribe token, different message so the two
+ * can never be swapped:
+ *
+ *   message = "{userId}:calendar_saved_filters"
+ *   URL:     /api/calendar/saved-filters/{userId}?sig={hmac}
+ *
+ * The token grants read access to the user's filtered public happenings
+ * only — nothing private — so no expiry. Rotating CALENDAR_FEED_SECRET
+ * invalidates every issued URL.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { getSiteUrl } from "@/lib/siteUrl";
+import { toWebcalUrl } from "./icalFeed";
+
+function getFeedSecret(): string | null {
+  return process.env.CALENDAR_FEED_SECRET || null;
+}
+
+/**
+ * Generate the signature for a user's saved-filter feed.
+ * Returns null if CALENDAR_FEED_SECRET is not configured.
+ */
+export function generateCalendarFeedToken(userId: string): string | null {
+  const secret = getFeedSecret();
+  if (!secret) {
+    console.error("[CalendarFeedToken] CALENDAR_FEED_SECRET not configured");
+    return null;
+  }
+
+  return createHmac("sha256", secret)
+    .update(`${userId}:calendar_saved_filters`)
+    .digest("hex");
+}
+
+/**
+ * Validate a saved-filter feed signature (constant-time).
+ * Returns false if CALENDAR_FEED_SECRET is not configured.
+ */
+export function validateCalendarFeedToken(userId: string, token: string): boolean {
+  const expected = generateCalendarFeedToken(userId);
+  if (!expected) return false;
+
+  if (token.length !== expected.length) return false;
+
+  return timingSafeEqual(Buffer.from(token, "utf-8"), Buffer.from(expected, "utf-8"));
+}
+
+/**
+ * Build the webcal:// subscription URL for a user's saved-filter feed.
+ * Returns null if token generation fails.
+ */
+export function buildSavedFiltersFeedUrl(userId: string): string | null {
+  const token = generateCalendarFeedToken(userId);
+  if (!token) return null;
+
+  return toWebcalUrl(
+    `${getSiteUrl()}/api/calendar/saved-filters/${encodeURIComponent(userId)}?sig=${encodeURIComponent(token)}`
+  );
+}
@@ -0,0 +1,582 @@
+/**
+ * iCalendar Feed Builder (RFC 5545)
+ *
+ * Builds subscribable `webcal://` feeds for series, venues, hosts and saved
+ * happenings filters. Pure — no I/O. The feed routes under
+ * /api/calendar/* load events + occurrence_overrides and hand them here.
+ *
+ * Shape of a feed:
+ * - One VTIMEZONE block for America/Denver. Every timed DTSTART/DTEND
+ *   carries TZID=America/Denver so phone calendars stay correct across DST
+ *   (the old AddToCalendarButton blob used floating UTC-ish times).
+ * - Recurring series whose pattern is expressible as an RRULE emit ONE
+ *   master VEVENT (UID = "<eventId>@<host>") plus RECURRENCE-ID instances
+ *   for every occurrence with an override: cancelled occurrences become
+ *   STATUS:CANCELLED, reschedules/time changes move the instance.
+ * - Cancelled occurrences that fall before the feed window are EXDATE'd
+ *   off the master instead, so the RRULE doesn't resurrect past
+ *   cancellations in the calendar's history.
+ * - Everything else (one-time events, custom_dates series, patterns with no
+ *   stable anchor) is enumerated from expandOccurrencesForEvent as one
+ *   VEVENT per occurrence with UID = "<eventId>-<dateKey>@<host>".
+ *
+ * UIDs only ever depend on event id + date_key (the occurrence identity),
+ * so re-fetching a feed updates existing entries instead of duplicating.
+ */
+
+import {
+  addDaysDenver,
+  applyOccurrenceOverride,
+  buildOverrideKey,
+  expandOccurrencesForEvent,
+  getDisplayDateForOccurrence,
+  type OccurrenceOverride,
+} from "@/lib/events/nextOccurrence";
+import { interpretRecurrence, type NormalizedRecurrence } from "@/lib/events/recurrenceContract";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CALENDAR_TIMEZONE = "America/Denver";
+
+/** Default feed window: 30 days of history through 180 days ahead. */
+export const FEED_WINDOW = {
+  PAST_DAYS: 30,
+  FUTURE_DAYS: 180,
+  /** Fallback duration when an event has no end_time. Matches AddToCalendarButton. */
+  DEFAULT_DURATION_MINUTES: 120,
+} as const;
+
+export interface CalendarFeedVenue {
+  name: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+export interface CalendarFeedEvent {
+  id: string;
+  slug: string | null;
+  title: string;
+  description?: string | null;
+  status?: string | null;
+  event_date: string | null;
+  day_of_week: string | null;
+  recurrence_rule: string | null;
+  custom_dates: string[] | null;
+  max_occurrences: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  location_mode?: string | null;
+  online_url?: string | null;
+  venue_name?: string | null;
+  venue_address?: string | null;
+  custom_location_name?: string | null;
+  custom_address?: string | null;
+  custom_city?: string | null;
+  custom_state?: string | null;
+  updated_at?: string | null;
+  venue?: CalendarFeedVenue | null;
+}
+
+export interface BuildCalendarFeedInput {
+  /** X-WR-CALNAME, e.g. "Tuesday Open Mic — Colorado Songwriters Collective" */
+  name: string;
+  description?: string | null;
+  events: CalendarFeedEvent[];
+  overrides: OccurrenceOverride[];
+  /** Absolute site origin used for UIDs and event URLs. */
+  siteUrl: string;
+  /** Window start (YYYY-MM-DD). Routes pass defaultFeedStartKey(today). */
+  startKey: string;
+  /** Window end (YYYY-MM-DD). Defaults to startKey + PAST_DAYS + FUTURE_DAYS. */
+  endKey?: string;
+  /** Injected clock for DTSTAMP (tests). */
+  now?: Date;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Text helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Escape a TEXT value per RFC 5545 §3.3.11. */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1). Continuation lines
+ * start with a single space. Splits on code points so multi-byte
+ * characters are never cut in half.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = 75;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74; // continuation lines lose one octet to the leading space
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  if (current) parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function compactDate(dateKey: string): string {
+  return dateKey.replace(/-/g, "");
+}
+
+/** "19:30:00" | "19:30" → "193000". Returns null for malformed values. */
+function compactTime(time: string | null | undefined): string | null {
+  if (!time) return null;
+  const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+  const hh = match[1].padStart(2, "0");
+  return `${hh}${match[2]}${match[3] ?? "00"}`;
+}
+
+function minutesFromTime(time: string): number {
+  const [h, m] = time.split(":").map((p) => parseInt(p, 10));
+  return (h || 0) * 60 + (m || 0);
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Local Denver DTSTART/DTEND pair for one occurrence. end_time earlier than
+ * start_time is treated as "past midnight" and rolls to the next day.
+ * Returns all-day DATE values when start_time is missing.
+ */
+function buildTimeProps(
+  dateKey: string,
+  startTime: string | null,
+  endTime: string | null
+): { dtstart: string; dtend: string } {
+  const start = compactTime(startTime);
+  if (!start || !startTime) {
+    return {
+      dtstart: `DTSTART;VALUE=DATE:${compactDate(dateKey)}`,
+      dtend: `DTEND;VALUE=DATE:${compactDate(addDaysDenver(dateKey, 1))}`,
+    };
+  }
+
+  const startMinutes = minutesFromTime(startTime);
+  let endMinutes = endTime && compactTime(endTime)
+    ? minutesFromTime(endTime)
+    : startMinutes + FEED_WINDOW.DEFAULT_DURATION_MINUTES;
+  let endDateKey = dateKey;
+  if (endMinutes <= startMinutes && endTime) {
+    endMinutes += 24 * 60;
+  }
+  if (endMinutes >= 24 * 60) {
+    endDateKey = addDaysDenver(dateKey, Math.floor(endMinutes / (24 * 60)));
+    endMinutes = endMinutes % (24 * 60);
+  }
+  const endHH = String(Math.floor(endMinutes / 60)).padStart(2, "0");
+  const endMM = String(endMinutes % 60).padStart(2, "0");
+
+  return {
+    dtstart: `DTSTART;TZID=${CALENDAR_TIMEZONE}:${compactDate(dateKey)}T${start}`,
+    dtend: `DTEND;TZID=${CALENDAR_TIMEZONE}:${compactDate(endDateKey)}T${endHH}${endMM}00`,
+  };
+}
+
+function recurrenceIdProp(dateKey: string, startTime: string | null): string {
+  const start = compactTime(startTime);
+  return start
+    ? `RECURRENCE-ID;TZID=${CALENDAR_TIMEZONE}:${compactDate(dateKey)}T${start}`
+    : `RECURRENCE-ID;VALUE=DATE:${compactDate(dateKey)}`;
+}
+
+function exdateProp(dateKeys: string[], startTime: string | null): string {
+  const start = compactTime(startTime);
+  return start
+    ? `EXDATE;TZID=${CALENDAR_TIMEZONE}:${dateKeys.map((d) => `${compactDate(d)}T${start}`).join(",")}`
+    : `EXDATE;VALUE=DATE:${dateKeys.map(compactDate).join(",")}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timezone
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * America/Denver VTIMEZONE using the post-2007 US DST rules. Static by
+ * design: every Colorado occurrence we list is after 2007.
+ */
+export const DENVER_VTIMEZONE: readonly string[] = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${CALENDAR_TIMEZONE}`,
+  `X-LIC-LOCATION:${CALENDAR_TIMEZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0700",
+  "TZOFFSETTO:-0600",
+  "TZNAME:MDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0600",
+  "TZOFFSETTO:-0700",
+  "TZNAME:MST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RRULE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Translate the canonical recurrence interpretation into an RRULE that
+ * produces the same dates as expandOccurrencesForEvent. Returns null when
+ * the pattern can't be expressed faithfully (custom dates, daily/yearly,
+ * unknown schedules) — callers enumerate instances instead.
+ *
+ * Monthly without ordinals expands weekly in nextOccurrence.ts, so it maps
+ * to FREQ=WEEKLY here too.
+ */
+export function buildRRuleFromRecurrence(
+  recurrence: NormalizedRecurrence,
+  maxOccurrences?: number | null
+): string | null {
+  if (!recurrence.isRecurring || !recurrence.isConfident || !recurrence.dayAbbrev) {
+    return null;
+  }
+
+  let rule: string;
+  switch (recurrence.frequency) {
+    case "weekly":
+      rule = `FREQ=WEEKLY;BYDAY=${recurrence.dayAbbrev}`;
+      break;
+    case "biweekly":
+      rule = `FREQ=WEEKLY;INTERVAL=2;BYDAY=${recurrence.dayAbbrev}`;
+      break;
+    case "monthly":
+      rule =
+        recurrence.ordinals.length > 0
+          ? `FREQ=MONTHLY;BYDAY=${recurrence.ordinals.map((o) => `${o}${recurrence.dayAbbrev}`).join(",")}`
+          : `FREQ=WEEKLY;BYDAY=${recurrence.dayAbbrev}`;
+      break;
+    default:
+      return null;
+  }
+
+  if (maxOccurrences && maxOccurrences > 0) {
+    rule += `;COUNT=${maxOccurrences}`;
+  }
+  return `RRULE:${rule}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// VEVENT assembly
+// ─────────────────────────────────────────────────────────────────────────────
+
+function eventUrl(siteUrl: string, event: CalendarFeedEvent, dateKey?: string): string {
+  const base = `${siteUrl}/events/${event.slug || event.id}`;
+  return dateKey ? `${base}?date=${dateKey}` : base;
+}
+
+function eventLocation(event: Record<string, unknown> & CalendarFeedEvent): string | null {
+  if (event.location_mode === "online") {
+    return typeof event.online_url === "string" ? event.online_url : "Online";
+  }
+  const venue = event.venue;
+  const name = venue?.name || event.venue_name || event.custom_location_name || null;
+  const address = venue
+    ? [venue.address, venue.city, venue.state].filter(Boolean).join(", ")
+    : event.venue_address ||
+      [event.custom_address, event.custom_city, event.custom_state].filter(Boolean).join(", ");
+  const joined = [name, address].filter(Boolean).join(", ");
+  return joined || null;
+}
+
+function hostFromSiteUrl(siteUrl: string): string {
+  try {
+    return new URL(siteUrl).host;
+  } catch {
+    return "coloradosongwriterscollective.org";
+  }
+}
+
+interface VEventProps {
+  uid: string;
+  dtstamp: string;
+  dateKey: string;
+  event: CalendarFeedEvent;
+  siteUrl: string;
+  cancelled: boolean;
+  extra?: string[];
+}
+
+/**
+ * Build one VEVENT for a concrete (override-applied) event at dateKey.
+ */
+function buildVEvent(props: VEventProps): string[] {
+  const { event, dateKey } = props;
+  const time = buildTimeProps(dateKey, event.start_time, event.end_time);
+  const location = eventLocation(event as CalendarFeedEvent & Record<string, unknown>);
+  const description = [event.description?.trim(), eventUrl(props.siteUrl, event, dateKey)]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${props.uid}`,
+    `DTSTAMP:${props.dtstamp}`,
+    ...(props.extra ?? []),
+    time.dtstart,
+    time.dtend,
+    `SUMMARY:${escapeIcsText(props.cancelled ? `CANCELLED: ${event.title}` : event.title)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `URL:${eventUrl(props.siteUrl, event, dateKey)}`,
+    `STATUS:${props.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    ...(event.updated_at && !Number.isNaN(Date.parse(event.updated_at))
+      ? [`LAST-MODIFIED:${formatUtcStamp(new Date(event.updated_at))}`]
+      : []),
+    "END:VEVENT",
+  ];
+  return lines;
+}
+
+/**
+ * Components for one event. Pure over (event, overrides, window).
+ *
+ * `overrides` is every override row for this event that the loader
+ * fetched: in-window rows of any status plus cancelled rows before the
+ * window. In-window cancellations become visible STATUS:CANCELLED
+ * instances; earlier ones are EXDATE'd off the RRULE master so history
+ * doesn't resurrect them.
+ */
+export function buildSeriesComponents(
+  event: CalendarFeedEvent,
+  overrides: OccurrenceOverride[],
+  options: { siteUrl: string; startKey: string; endKey: string; dtstamp: string }
+): string[] {
+  const uidHost = hostFromSiteUrl(options.siteUrl);
+  const seriesCancelled = event.status === "cancelled";
+  const recurrence = interpretRecurrence(event);
+  const rrule = buildRRuleFromRecurrence(recurrence, event.max_occurrences);
+
+  const overridesByKey = new Map<string, OccurrenceOverride>();
+  for (const override of overrides) {
+    overridesByKey.set(buildOverrideKey(override.event_id, override.date_key), override);
+  }
+
+  const occurrences = expandOccurrencesForEvent(event, {
+    startKey: options.startKey,
+    endKey: options.endKey,
+  });
+
+  // Biweekly phase is anchored on event_date; without one the expander
+  // re-anchors on the window start and an RRULE would drift. COUNT without
+  // an anchor has the same problem. Both fall back to enumeration.
+  const hasStableAnchor =
+    Boolean(event.event_date) ||
+    (recurrence.frequency !== "biweekly" && !event.max_occurrences);
+
+  if (!rrule || !hasStableAnchor || occurrences.length === 0) {
+    return enumerateOccurrences(event, occurrences, overridesByKey, options, uidHost, seriesCancelled);
+  }
+
+  // DTSTART is the first real occurrence on/after the series anchor so the
+  // RRULE generates exactly the expander's dates. Unanchored series start
+  // at the window's first occurrence.
+  let dtstartKey = occurrences[0].dateKey;
+  if (event.event_date && event.event_date < options.startKey) {
+    const anchored = expandOccurrencesForEvent(event, {
+      startKey: event.event_date,
+      endKey: addDaysDenver(event.event_date, 62),
+      maxOccurrences: 1,
+    });
+    if (anchored.length === 1) dtstartKey = anchored[0].dateKey;
+  }
+
+  const exdates = overrides
+    .filter(
+      (o) =>
+        o.status === "cancelled" &&
+        o.date_key >= dtstartKey &&
+        o.date_key < options.startKey
+    )
+    .map((o) => o.date_key)
+    .sort();
+
+  const masterUid = `${event.id}@${uidHost}`;
+  const lines = buildVEvent({
+    uid: masterUid,
+    dtstamp: options.dtstamp,
+    dateKey: dtstartKey,
+    event,
+    siteUrl: options.siteUrl,
+    cancelled: seriesCancelled,
+    extra: [rrule, ...(exdates.length > 0 ? [exdateProp(exdates, event.start_time)] : [])],
+  }).map((line) =>
+    // The master stands for the whole series; don't pin its URL to a date.
+    line.startsWith("URL:") ? `URL:${eventUrl(options.siteUrl, event)}` : line
+  );
+
+  if (seriesCancelled) return lines;
+
+  for (const occ of occurrences) {
+    const override = overridesByKey.get(buildOverrideKey(event.id, occ.dateKey));
+    if (!override) continue;
+    const effective = applyOccurrenceOverride(
+      event as unknown as Record<string, unknown>,
+      override
+    ) as unknown as CalendarFeedEvent;
+    const { displayDate } = getDisplayDateForOccurrence(occ.dateKey, override);
+    lines.push(
+      ...buildVEvent({
+        uid: masterUid,
+        dtstamp: options.dtstamp,
+        dateKey: displayDate,
+        event: effective,
+        siteUrl: options.siteUrl,
+        cancelled: override.status === "cancelled",
+        extra: [recurrenceIdProp(occ.dateKey, event.start_time)],
+      })
+    );
+  }
+  return lines;
+}
+
+function enumerateOccurrences(
+  event: CalendarFeedEvent,
+  occurrences: ReturnType<typeof expandOccurrencesForEvent>,
+  overridesByKey: Map<string, OccurrenceOverride>,
+  options: { siteUrl: string; dtstamp: string },
+  uidHost: string,
+  seriesCancelled: boolean
+): string[] {
+  const lines: string[] = [];
+  for (const occ of occurrences) {
+    if (!occ.isConfident) continue;
+    const override = overridesByKey.get(buildOverrideKey(event.id, occ.dateKey));
+    const effective = applyOccurrenceOverride(
+      event as unknown as Record<string, unknown>,
+      override
+    ) as unknown as CalendarFeedEvent;
+    const { displayDate } = getDisplayDateForOccurrence(occ.dateKey, override);
+    lines.push(
+      ...buildVEvent({
+        uid: `${event.id}-${occ.dateKey}@${uidHost}`,
+        dtstamp: options.dtstamp,
+        dateKey: displayDate,
+        event: effective,
+        siteUrl: options.siteUrl,
+        cancelled: seriesCancelled || override?.status === "cancelled",
+      })
+    );
+  }
+  return lines;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Default window start: today minus PAST_DAYS (Denver).
+ */
+export function defaultFeedStartKey(todayKey: string): string {
+  return addDaysDenver(todayKey, -FEED_WINDOW.PAST_DAYS);
+}
+
+/**
+ * Build a complete VCALENDAR document. Lines are CRLF-joined and folded.
+ */
+export function buildCalendarFeed(input: BuildCalendarFeedInput): string {
+  const endKey =
+    input.endKey ?? addDaysDenver(input.startKey, FEED_WINDOW.PAST_DAYS + FEED_WINDOW.FUTURE_DAYS);
+  const dtstamp = formatUtcStamp(input.now ?? new Date());
+
+  const overridesByEvent = new Map<string, OccurrenceOverride[]>();
+  for (const override of input.overrides) {
+    const list = overridesByEvent.get(override.event_id) ?? [];
+    list.push(override);
+    overridesByEvent.set(override.event_id, list);
+  }
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//The Colorado Songwriters Collective//Happenings Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(input.name)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    ...(input.description ? [`X-WR-CALDESC:${escapeIcsText(input.description)}`] : []),
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...DENVER_VTIMEZONE,
+  ];
+
+  for (const event of input.events) {
+    lines.push(
+      ...buildSeriesComponents(event, overridesByEvent.get(event.id) ?? [], {
+        siteUrl: input.siteUrl,
+        startKey: input.startKey,
+        endKey,
+        dtstamp,
+      })
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Turn an https feed URL into its webcal:// subscription form.
+ */
+export function toWebcalUrl(httpUrl: string): string {
+  return httpUrl.replace(/^https?:\/\//i, "webcal://");
+}
+
+export type CalendarFeedKind = "series" | "venues" | "hosts";
+
+/**
+ * Public webcal:// URL for a series, venue or host feed.
+ */
+export function buildCalendarFeedUrl(
+  siteUrl: string,
+  kind: CalendarFeedKind,
+  identifier: string
+): string {
+  return toWebcalUrl(`${siteUrl}/api/calendar/${kind}/${encodeURIComponent(identifier)}.ics`);
+}
+
+/**
+ * Wrap a feed body in the response headers calendar clients expect.
+ */
+export function calendarFeedResponse(ics: string, filename: string): Response {
+  return new Response(ics, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename.replace(/[^a-z0-9._-]/gi, "-")}.ics"`,
+      "Cache-Control": "public, max-age=900, s-maxage=900",
+    },
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * Digest Cadence
+ *
+ * Per-member digest settings stored on notification_preferences (digest_*
+ * columns): how often the happenings digest arrives, which sections it
+ * carries, and how far from the member's profile ZIP it reaches.
+ *
+ * Cadences (all sent in the 4:20 PM Denver window):
+ * - daily_tonight: every day, tonight's happenings only
+ * - twice_weekly: Sunday (covers Sun–Wed) and Thursday (covers Thu–Sat)
+ * - weekly: on the member's chosen day, covering the next 7 days
+ *
+ * Pure — shared by the settings UI, recipient fetching and the happenings cron.
+ */
+
+import { addDaysDenver } from "@/lib/events/nextOccurrence";
+import { VALID_RADII, type ValidRadius } from "@/lib/happenings/locationFilter";
+
+// ============================================================
+// Options
+// ============================================================
+
+export const DIGEST_CADENCES = ["daily_tonight", "twice_weekly", "weekly"] as const;
+export type DigestCadence = (typeof DIGEST_CADENCES)[number];
+
+export const DIGEST_CADENCE_LABELS: Record<DigestCadence, string> = {
+  daily_tonight: "Daily — tonight's happenings",
+  twice_weekly: "Twice a week (Sunday and Thursday)",
+  weekly: "Weekly",
+};
+
+export const DIGEST_SECTIONS = [
+  "open_mics",
+  "showcases",
+  "blog",
+  "gallery",
+  "new_members",
+] as const;
+export type DigestSection = (typeof DIGEST_SECTIONS)[number];
+
+export const DIGEST_SECTION_LABELS: Record<DigestSection, string> = {
+  open_mics: "Open mics",
+  showcases: "Showcases and other happenings",
+  blog: "From the blog",
+  gallery: "From the gallery",
+  new_members: "New members and member spotlight",
+};
+
+/** Max-distance choices, same radii as the happenings location filter */
+export const DIGEST_DISTANCE_OPTIONS: readonly ValidRadius[] = VALID_RADII;
+
+export const DIGEST_DAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+
+/** Twice-weekly send days (0 = Sunday) → number of days each edition covers */
+export const TWICE_WEEKLY_EDITIONS: Readonly<Record<number, number>> = {
+  0: 4,
+  4: 3,
+};
+
+export function isDigestCadence(value: unknown): value is DigestCadence {
+  return typeof value === "string" && (DIGEST_CADENCES as readonly string[]).includes(value);
+}
+
+export function isDigestSection(value: unknown): value is DigestSection {
+  return typeof value === "string" && (DIGEST_SECTIONS as readonly string[]).includes(value);
+}
+
+// ============================================================
+// Preferences
+// ============================================================
+
+export interface DigestPreferences {
+  cadence: DigestCadence;
+  /** Weekly send day, 0 = Sunday … 6 = Saturday */
+  day: number;
+  sections: DigestSection[];
+  /** Radius around the member's profile ZIP; null = any distance */
+  maxDistanceMiles: ValidRadius | null;
+}
+
+/** Matches the single Sunday digest everyone got before per-member settings */
+export const DEFAULT_DIGEST_PREFERENCES: DigestPreferences = {
+  cadence: "weekly",
+  day: 0,
+  sections: [...DIGEST_SECTIONS],
+  maxDistanceMiles: null,
+};
+
+export interface DigestPreferenceColumns {
+  digest_cadence?: string | null;
+  digest_day?: number | null;
+  digest_sections?: string[] | null;
+  digest_max_distance_miles?: number | null;
+}
+
+/**
+ * Normalize the digest_* columns of a notification_preferences row.
+ * Missing rows and unknown values fall back to the defaults.
+ */
+export function toDigestPreferences(
+  row: DigestPreferenceColumns | null | undefined
+): DigestPreferences {
+  if (!row) return { ...DEFAULT_DIGEST_PREFERENCES, sections: [...DIGEST_SECTIONS] };
+
+  const day = row.digest_day;
+  const distance = row.digest_max_distance_miles;
+
+  return {
+    cadence: isDigestCadence(row.digest_cadence) ? row.digest_cadence : DEFAULT_DIGEST_PREFERENCES.cadence,
+    day: typeof day === "number" && Number.isInteger(day) && day >= 0 && day <= 6 ? day : DEFAULT_DIGEST_PREFERENCES.day,
+    sections: Array.isArray(row.digest_sections)
+      ? DIGEST_SECTIONS.filter((section) => row.digest_sections!.includes(section))
+      : [...DIGEST_SECTIONS],
+    maxDistanceMiles: VALID_RADII.includes(distance as ValidRadius) ? (distance as ValidRadius) : null,
+  };
+}
+
+/** True when the member wants any happenings listed (open mics or other events) */
+export function wantsDigestHappenings(prefs: DigestPreferences): boolean {
+  return prefs.sections.includes("open_mics") || prefs.sections.includes("showcases");
+}
+
+/**
+ * Whether an event with these types belongs in the member's sections.
+ * Open mics go under "open_mics"; every other type goes under "showcases".
+ */
+export function matchesDigestSections(
+  eventTypes: readonly string[],
+  sections: readonly DigestSection[]
+): boolean {
+  if (sections.includes("open_mics") && eventTypes.includes("open_mic")) return true;
+  if (sections.includes("showcases") && eventTypes.some((type) => type !== "open_mic")) return true;
+  return false;
+}
+
+// ============================================================
+// Editions
+// ============================================================
+
+export interface DigestEdition {
+  cadence: DigestCadence;
+  /** Happenings window (inclusive date keys) */
+  dateRange: { start: string; end: string };
+  /**
+   * Whether this edition carries the week's editorial (intro, features,
+   * spotlights). Only one edition per week does, so daily and twice-weekly
+   * members don't see the same features on repeat.
+   */
+  includesEditorial: boolean;
+  /** Date key where "new since last time" content (follows, new members) starts */
+  sinceKey: string;
+}
+
+function getWeekdayIndex(dateKey: string): number {
+  return new Date(`${dateKey}T12:00:00Z`).getUTCDay();
+}
+
+/**
+ * The edition a member gets on a Denver date, or null when their cadence
+ * doesn't send that day.
+ */
+export function getDigestEdition(
+  prefs: DigestPreferences,
+  todayKey: string
+): DigestEdition | null {
+  const weekday = getWeekdayIndex(todayKey);
+
+  switch (prefs.cadence) {
+    case "daily_tonight":
+      return {
+        cadence: "daily_tonight",
+        dateRange: { start: todayKey, end: todayKey },
+        includesEditorial: weekday === 0,
+        sinceKey: addDaysDenver(todayKey, -1),
+      };
+    case "twice_weekly": {
+      const days = TWICE_WEEKLY_EDITIONS[weekday];
+      if (!days) return null;
+      // Each edition picks up where the other one's send day left off
+      const previousGap = weekday === 0 ? 3 : 4;
+      return {
+        cadence: "twice_weekly",
+        dateRange: { start: todayKey, end: addDaysDenver(todayKey, days - 1) },
+        includesEditorial: weekday === 0,
+        sinceKey: addDaysDenver(todayKey, -previousGap),
+      };
+    }
+    case "weekly":
+      if (weekday !== prefs.day) return null;
+      return {
+        cadence: "weekly",
+        dateRange: { start: todayKey, end: addDaysDenver(todayKey, 6) },
+        includesEditorial: true,
+        sinceKey: addDaysDenver(todayKey, -7),
+      };
+  }
+}
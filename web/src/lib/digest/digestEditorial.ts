@@ -13,6 +13,8 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { getSiteUrl } from "@/lib/siteUrl";
+import { getImageAssets } from "@/lib/images/assets";
+import { fallbackImageUrl, findImageAsset } from "@/lib/images/variants";
 
 /**
  * Check if a string is a valid UUID format.
@@ -744,9 +746,38 @@ async function resolveEditorialInternal(
     }
   }
 
+  await applyEmailImageVariants(supabase, resolved);
+
   return { resolved, unresolved };
 }
 
+/**
+ * Email clients can't be relied on for AVIF/WebP: swap processed images for
+ * their JPEG fallback variant (already oriented and sized for a card).
+ * Unprocessed images keep their original URL.
+ */
+async function applyEmailImageVariants(
+  supabase: SupabaseClient,
+  resolved: ResolvedEditorial
+): Promise<void> {
+  const slots: Array<{ coverUrl?: string; avatarUrl?: string }> = [
+    ...(resolved.featuredHappenings ?? []),
+    resolved.memberSpotlight,
+    resolved.venueSpotlight,
+    resolved.blogFeature,
+    resolved.galleryFeature,
+  ].filter((slot): slot is NonNullable<typeof slot> => !!slot);
+
+  const assets = await getImageAssets(
+    supabase,
+    slots.flatMap((slot) => [slot.coverUrl, slot.avatarUrl])
+  );
+  for (const slot of slots) {
+    if (slot.coverUrl) slot.coverUrl = fallbackImageUrl(findImageAsset(assets, slot.coverUrl), slot.coverUrl);
+    if (slot.avatarUrl) slot.avatarUrl = fallbackImageUrl(findImageAsset(assets, slot.avatarUrl), slot.avatarUrl);
+  }
+}
+
 export async function resolveEditorial(
   supabase: SupabaseClient,
   editorial: DigestEditorial
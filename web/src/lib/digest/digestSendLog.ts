@@ -19,7 +19,11 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-export type DigestType = "weekly_open_mics" | "weekly_happenings";
+export type DigestType =
+  | "weekly_open_mics"
+  | "weekly_happenings"
+  | "happenings_edition"
+  | "open_mics_edition";
 
 /**
  * Compute the deterministic week key for a given date in America/Denver timezone.
@@ -133,3 +137,71 @@ export async function hasAlreadySentDigest(
 
   return data !== null;
 }
+
+// ============================================================
+// Per-Recipient Locks
+// ============================================================
+
+export type RecipientLockResult = {
+  /** Recipients whose lock this call inserted — the only ones to send to */
+  acquiredUserIds: Set<string>;
+  reason: "acquired" | "lock_error";
+};
+
+/**
+ * Lock key for one recipient's digest on a Denver date: "YYYY-MM-DD:<user id>".
+ * At most one edition per recipient per day, whatever their cadence.
+ */
+export function getRecipientLockKey(dateKey: string, userId: string): string {
+  return `${dateKey}:${userId}`;
+}
+
+/**
+ * Claim per-recipient send locks for a date in one statement.
+ *
+ * Same table and unique constraint as claimDigestSendLock, one row per
+ * recipient. Rows that already exist (sent by an earlier run) are skipped
+ * by ON CONFLICT DO NOTHING and left out of acquiredUserIds.
+ *
+ * Fail-closed: any DB error acquires nothing.
+ */
+export async function claimRecipientDigestLocks(
+  supabase: SupabaseClient,
+  digestType: DigestType,
+  dateKey: string,
+  userIds: string[]
+): Promise<RecipientLockResult> {
+  if (userIds.length === 0) {
+    return { acquiredUserIds: new Set(), reason: "acquired" };
+  }
+
+  const userIdByKey = new Map(userIds.map((userId) => [getRecipientLockKey(dateKey, userId), userId]));
+
+  const { data, error } = await supabase
+    .from("digest_send_log" as string)
+    .upsert(
+      [...userIdByKey.keys()].map((weekKey) => ({
+        digest_type: digestType,
+        week_key: weekKey,
+        recipient_count: 1,
+      })),
+      { onConflict: "digest_type,week_key", ignoreDuplicates: true }
+    )
+    .select("week_key");
+
+  if (error) {
+    console.error(
+      `[DigestSendLog] Recipient lock error for ${digestType}/${dateKey}; skipping send.`,
+      error
+    );
+    return { acquiredUserIds: new Set(), reason: "lock_error" };
+  }
+
+  const acquiredUserIds = new Set<string>();
+  for (const row of (data ?? []) as Array<{ week_key: string }>) {
+    const userId = userIdByKey.get(row.week_key);
+    if (userId) acquiredUserIds.add(userId);
+  }
+
+  return { acquiredUserIds, reason: "acquired" };
+}
@@ -0,0 +1,289 @@
+/**
+ * Happenings Digest Editions — one region's send
+ *
+ * Shared by /api/cron/weekly-happenings (regions in their send window) and
+ * the admin full send (every region). For one region:
+ *
+ *   fetch the region's 7 days → build today's editions for its members →
+ *   claim recipient locks → (none: skip) → resolve editorial → send
+ *
+ * Dates are the region's local date. Locks are one per recipient per date
+ * (claimRecipientDigestLocks), so the cron and an admin send never double up.
+ *
+ * GTM-3: Editorial resolution happens AFTER lock acquisition (Delta 1).
+ * This prevents wasted DB queries for editorial references on retries
+ * where every lock was already claimed by a previous invocation. The
+ * region's own editorial wins; otherwise the all-regions editorial is used.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  getUpcomingHappenings,
+  getRecipientEditorial,
+  personalizeDigestRecipients,
+  type DigestRecipient,
+} from "@/lib/digest/weeklyHappenings";
+import { getWeeklyHappeningsDigestEmail } from "@/lib/email/templates/weeklyHappeningsDigest";
+import { claimRecipientDigestLocks, computeWeekKey } from "@/lib/digest/digestSendLog";
+import { DEFAULT_DIGEST_PREFERENCES } from "@/lib/digest/digestCadence";
+import { getDigestBatchKey, sendDigestEmails } from "@/lib/digest/sendDigest";
+import {
+  getEditorial,
+  resolveEditorial,
+  type ResolvedEditorial,
+} from "@/lib/digest/digestEditorial";
+import {
+  getRegionalDigestType,
+  getRegionToday,
+  resolveHomeRegion,
+  type Region,
+} from "@/lib/regions/regions";
+
+export type RegionEditionsStatus =
+  | "sent"
+  | "no_recipients"
+  | "none_due"
+  | "already_sent"
+  | "lock_error";
+
+export interface RegionEditionsResult {
+  region: string;
+  /** Region-local date the editions were built for */
+  dateKey: string;
+  status: RegionEditionsStatus;
+  sent: number;
+  failed: number;
+  queued: number;
+  totalHappenings: number;
+  totalVenues: number;
+  personalizedRecipients: number;
+  skippedByFilters: number;
+  notDue: number;
+  alreadySent: number;
+  emptyEditions: number;
+  hasEditorial: boolean;
+}
+
+/** Members grouped by home region id (unknown or missing → default region) */
+export function groupRecipientsByRegion(
+  recipients: DigestRecipient[],
+  regions: readonly Region[]
+): Map<number, DigestRecipient[]> {
+  const byRegion = new Map<number, DigestRecipient[]>();
+  for (const recipient of recipients) {
+    const region = resolveHomeRegion(regions, recipient.homeRegionId);
+    if (!byRegion.has(region.id)) byRegion.set(region.id, []);
+    byRegion.get(region.id)!.push(recipient);
+  }
+  return byRegion;
+}
+
+/**
+ * Send today's happenings digest editions to one region's members.
+ * Never throws for "nothing to do" cases; the status says why nothing went out.
+ */
+export async function sendRegionHappeningsEditions(
+  supabase: SupabaseClient<Database>,
+  options: {
+    region: Region;
+    /** The region's members (see groupRecipientsByRegion) */
+    recipients: DigestRecipient[];
+    personalizationEnabled: boolean;
+    now?: Date;
+    /** Week whose editorial to use (defaults to the current week) */
+    editorialWeekKey?: string;
+    logPrefix: string;
+    /** Date.now() when the calling request started (see sendDigestEmails) */
+    invocationStartedAt?: number;
+  }
+): Promise<RegionEditionsResult> {
+  const { region, recipients, personalizationEnabled, logPrefix } = options;
+  const now = options.now ?? new Date();
+  const todayKey = getRegionToday(region, now);
+  const weekKey = options.editorialWeekKey ?? computeWeekKey(now);
+
+  const result: RegionEditionsResult = {
+    region: region.slug,
+    dateKey: todayKey,
+    status: "sent",
+    sent: 0,
+    failed: 0,
+    queued: 0,
+    totalHappenings: 0,
+    totalVenues: 0,
+    personalizedRecipients: 0,
+    skippedByFilters: 0,
+    notDue: 0,
+    alreadySent: 0,
+    emptyEditions: 0,
+    hasEditorial: false,
+  };
+
+  if (recipients.length === 0) {
+    return { ...result, status: "no_recipients" };
+  }
+
+  // Fetch the region's next 7 days (all event types); every edition is cut from this.
+  // Events with no region belong to the default region.
+  const digestData = await getUpcomingHappenings(supabase, {
+    todayKey,
+    region: region.id > 0 ? { regionId: region.id, includeUnassigned: region.isDefault } : undefined,
+  });
+  result.totalHappenings = digestData.totalCount;
+  result.totalVenues = digestData.venueCount;
+  console.log(
+    `${logPrefix} [${region.slug}] ${todayKey}: ${digestData.totalCount} happenings across ${digestData.venueCount} venues, ${recipients.length} members`
+  );
+
+  const personalized = await personalizeDigestRecipients(supabase, recipients, digestData, {
+    enabled: personalizationEnabled,
+    forYou: true,
+    followActivity: true,
+    newMembers: true,
+    todayKey,
+    logPrefix,
+  });
+  const recipientsDue = personalized.recipients;
+  result.personalizedRecipients = personalized.personalizedCount;
+  result.skippedByFilters = personalized.skippedCount;
+  result.notDue = personalized.notDueCount;
+
+  if (recipientsDue.length === 0) {
+    return { ...result, status: "none_due" };
+  }
+
+  // Idempotency guard — one lock per recipient per region-local date
+  const locks = await claimRecipientDigestLocks(
+    supabase,
+    "happenings_edition",
+    todayKey,
+    recipientsDue.map((recipient) => recipient.userId)
+  );
+
+  if (locks.reason === "lock_error") {
+    return { ...result, status: "lock_error" };
+  }
+
+  const lockedRecipients = recipientsDue.filter((recipient) =>
+    locks.acquiredUserIds.has(recipient.userId)
+  );
+  result.alreadySent = recipientsDue.length - lockedRecipients.length;
+
+  if (lockedRecipients.length === 0) {
+    console.log(`${logPrefix} [${region.slug}] Already sent every edition for ${todayKey} — skipping`);
+    return { ...result, status: "already_sent" };
+  }
+
+  // GTM-3: Resolve editorial AFTER lock (Delta 1) — and only if some
+  // edition today carries editorial
+  const needsEditorial = lockedRecipients.some(
+    (recipient) => personalized.editionByUserId.get(recipient.userId)?.includesEditorial
+  );
+  const resolvedEditorial = needsEditorial
+    ? await getRegionEditorial(supabase, weekKey, region, logPrefix)
+    : undefined;
+  result.hasEditorial = Boolean(resolvedEditorial);
+
+  // Recipients who turned off both happenings sections only get an email
+  // when there's something else in it
+  const editorialByUserId = new Map<string, ResolvedEditorial | undefined>();
+  const recipientsToSend = lockedRecipients.filter((recipient) => {
+    const editorial = getRecipientEditorial(
+      resolvedEditorial,
+      recipient.digest ?? DEFAULT_DIGEST_PREFERENCES,
+      personalized.editionByUserId.get(recipient.userId)
+    );
+    editorialByUserId.set(recipient.userId, editorial);
+
+    const recipientDigestData = personalized.digestByUserId.get(recipient.userId) || digestData;
+    return (
+      recipientDigestData.totalCount > 0 ||
+      Boolean(editorial?.blogFeature || editorial?.galleryFeature || editorial?.memberSpotlight) ||
+      personalized.newMembersByUserId.has(recipient.userId)
+    );
+  });
+  result.emptyEditions = lockedRecipients.length - recipientsToSend.length;
+
+  const sendResult = await sendDigestEmails({
+    mode: "full",
+    recipients: recipientsToSend,
+    buildEmail: (recipient) => {
+      const recipientDigestData =
+        personalized.digestByUserId.get(recipient.userId) || digestData;
+
+      return getWeeklyHappeningsDigestEmail({
+        firstName: recipient.firstName,
+        userId: recipient.userId,
+        byDate: recipientDigestData.byDate,
+        totalCount: recipientDigestData.totalCount,
+        venueCount: recipientDigestData.venueCount,
+        editorial: editorialByUserId.get(recipient.userId),
+        forYou: personalized.forYouByUserId.get(recipient.userId),
+        followActivity: personalized.followActivityByUserId.get(recipient.userId),
+        newMembers: personalized.newMembersByUserId.get(recipient.userId),
+        cadence: personalized.editionByUserId.get(recipient.userId)?.cadence,
+        regionName: region.isDefault ? undefined : region.name,
+      });
+    },
+    templateName: "weeklyHappeningsDigest",
+    logPrefix,
+    batchKey: getDigestBatchKey("happenings_edition", `${region.slug}:${todayKey}`),
+    invocationStartedAt: options.invocationStartedAt,
+  });
+
+  return {
+    ...result,
+    sent: sendResult.sent,
+    failed: sendResult.failed,
+    queued: sendResult.queued ?? 0,
+  };
+}
+
+/** The region's editorial for the week, falling back to the all-regions one */
+async function getRegionEditorial(
+  supabase: SupabaseClient<Database>,
+  weekKey: string,
+  region: Region,
+  logPrefix: string
+): Promise<ResolvedEditorial | undefined> {
+  try {
+    const regionalType = getRegionalDigestType("weekly_happenings", region);
+    let editorial = await getEditorial(supabase, weekKey, regionalType);
+    if (!editorial && regionalType !== "weekly_happenings") {
+      editorial = await getEditorial(supabase, weekKey, "weekly_happenings");
+    }
+
+    if (!editorial) {
+      console.log(`${logPrefix} No editorial for ${weekKey} (${region.slug}) — sending without editorial`);
+      return undefined;
+    }
+
+    console.log(`${logPrefix} Found editorial for ${weekKey} (${editorial.digest_type}), resolving references...`);
+    const resolved = await resolveEditorial(supabase, editorial);
+    console.log(`${logPrefix} Editorial resolved successfully`);
+    return resolved;
+  } catch (editorialError) {
+    // Editorial failure is non-fatal — send digest without editorial
+    console.warn(`${logPrefix} Editorial resolution failed, sending without editorial:`, editorialError);
+    return undefined;
+  }
+}
+
+/** Sum per-region results for a cron/admin response */
+export function summarizeRegionResults(results: RegionEditionsResult[]) {
+  const total = (key: keyof RegionEditionsResult) =>
+    results.reduce((sum, result) => sum + (typeof result[key] === "number" ? (result[key] as number) : 0), 0);
+
+  return {
+    sent: total("sent"),
+    failed: total("failed"),
+    queued: total("queued"),
+    totalHappenings: total("totalHappenings"),
+    personalizedRecipients: total("personalizedRecipients"),
+    skippedByFilters: total("skippedByFilters"),
+    notDue: total("notDue"),
+    alreadySent: total("alreadySent"),
+    emptyEditions: total("emptyEditions"),
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Open Mics Roundup Editions — one day's send
+ *
+ * Shared by /api/cron/weekly-open-mics (daily) and the admin full send:
+ *
+ *   fetch the next 7 days of open mics → keep members whose digest_day is
+ *   today, narrowed to their max distance → claim recipient locks →
+ *   (none: skip) → send
+ *
+ * Dates are Denver dates. Locks are one per recipient per date
+ * (claimRecipientDigestLocks), so the cron and an admin send never double up.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  getUpcomingOpenMics,
+  personalizeOpenMicsRecipients,
+  type DigestRecipient,
+} from "@/lib/digest/weeklyOpenMics";
+import { getWeeklyOpenMicsDigestEmail } from "@/lib/email/templates/weeklyOpenMicsDigest";
+import { claimRecipientDigestLocks } from "@/lib/digest/digestSendLog";
+import { getDigestBatchKey, sendDigestEmails } from "@/lib/digest/sendDigest";
+import { denverDateKeyFromDate } from "@/lib/events/nextOccurrence";
+
+export type OpenMicsEditionsStatus =
+  | "sent"
+  | "no_recipients"
+  | "none_due"
+  | "already_sent"
+  | "lock_error";
+
+export interface OpenMicsEditionsResult {
+  /** Denver date the roundup was built for */
+  dateKey: string;
+  status: OpenMicsEditionsStatus;
+  sent: number;
+  failed: number;
+  queued: number;
+  totalOpenMics: number;
+  totalVenues: number;
+  notDue: number;
+  emptyRoundups: number;
+  alreadySent: number;
+}
+
+/**
+ * Send today's open mics roundup to the members it's due for.
+ * Never throws for "nothing to do" cases; the status says why nothing went out.
+ */
+export async function sendOpenMicsEditions(
+  supabase: SupabaseClient<Database>,
+  options: {
+    /** Opted-in members (see getDigestRecipients in weeklyOpenMics.ts) */
+    recipients: DigestRecipient[];
+    now?: Date;
+    logPrefix: string;
+    /** Date.now() when the calling request started (see sendDigestEmails) */
+    invocationStartedAt?: number;
+  }
+): Promise<OpenMicsEditionsResult> {
+  const { recipients, logPrefix } = options;
+  const todayKey = denverDateKeyFromDate(options.now ?? new Date());
+
+  const result: OpenMicsEditionsResult = {
+    dateKey: todayKey,
+    status: "sent",
+    sent: 0,
+    failed: 0,
+    queued: 0,
+    totalOpenMics: 0,
+    totalVenues: 0,
+    notDue: 0,
+    emptyRoundups: 0,
+    alreadySent: 0,
+  };
+
+  if (recipients.length === 0) {
+    return { ...result, status: "no_recipients" };
+  }
+
+  const digestData = await getUpcomingOpenMics(supabase, { todayKey });
+  result.totalOpenMics = digestData.totalCount;
+  result.totalVenues = digestData.venueCount;
+  console.log(
+    `${logPrefix} ${todayKey}: ${digestData.totalCount} open mics across ${digestData.venueCount} venues, ${recipients.length} members`
+  );
+
+  const personalized = await personalizeOpenMicsRecipients(supabase, recipients, digestData, {
+    todayKey,
+    logPrefix,
+  });
+  result.notDue = personalized.notDueCount;
+  result.emptyRoundups = personalized.skippedCount;
+
+  if (personalized.recipients.length === 0) {
+    return { ...result, status: "none_due" };
+  }
+
+  // Idempotency guard — one lock per recipient per Denver date
+  const locks = await claimRecipientDigestLocks(
+    supabase,
+    "open_mics_edition",
+    todayKey,
+    personalized.recipients.map((recipient) => recipient.userId)
+  );
+
+  if (locks.reason === "lock_error") {
+    return { ...result, status: "lock_error" };
+  }
+
+  const lockedRecipients = personalized.recipients.filter((recipient) =>
+    locks.acquiredUserIds.has(recipient.userId)
+  );
+  result.alreadySent = personalized.recipients.length - lockedRecipients.length;
+
+  if (lockedRecipients.length === 0) {
+    console.log(`${logPrefix} Already sent every roundup for ${todayKey} — skipping`);
+    return { ...result, status: "already_sent" };
+  }
+
+  const sendResult = await sendDigestEmails({
+    mode: "full",
+    recipients: lockedRecipients,
+    buildEmail: (recipient) => {
+      const recipientDigestData = personalized.digestByUserId.get(recipient.userId) || digestData;
+
+      return getWeeklyOpenMicsDigestEmail({
+        firstName: recipient.firstName,
+        userId: recipient.userId,
+        byDate: recipientDigestData.byDate,
+        totalCount: recipientDigestData.totalCount,
+        venueCount: recipientDigestData.venueCount,
+      });
+    },
+    templateName: "weeklyOpenMicsDigest",
+    logPrefix,
+    batchKey: getDigestBatchKey("open_mics_edition", todayKey),
+    invocationStartedAt: options.invocationStartedAt,
+  });
+
+  return {
+    ...result,
+    sent: sendResult.sent,
+    failed: sendResult.failed,
+    queued: sendResult.queued ?? 0,
+  };
+}
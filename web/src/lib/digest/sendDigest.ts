@@ -7,10 +7,22 @@
  * - Admin "Send test to me" (single recipient, bypasses lock)
  * - Admin "Preview" (dry run, no emails sent)
  *
+ * Every send carries the recipient's one-click List-Unsubscribe header.
+ *
+ * Full sends go through the email outbox: every message is enqueued first,
+ * then this invocation drains its own batch for whatever is left of its
+ * time budget, counted from when the request started. Whatever is left (or
+ * failed and is backing off) is delivered by /api/cron/email-outbox, so a
+ * slow SMTP server delays recipients instead of dropping them.
+ *
  * Phase: GTM-2
  */
 
 import { sendEmail } from "@/lib/email/mailer";
+import { drainOutbox, enqueueEmails, getDrainBudgetMs } from "@/lib/email/outbox";
+import { getServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { buildUnsubscribeUrl } from "@/lib/digest/unsubscribeToken";
+import type { DigestType } from "@/lib/digest/digestSendLog";
 import type { DigestRecipient } from "@/lib/digest/weeklyHappenings";
 
 // ============================================================
@@ -35,18 +47,34 @@ export interface SendDigestParams {
   templateName: string;
   /** Log prefix for console output (e.g., "[WeeklyHappenings]") */
   logPrefix: string;
+  /** Outbox batch for full sends (see getDigestBatchKey) */
+  batchKey?: string;
+  /**
+   * Date.now() when the calling request started. The drain stops in time
+   * for the route's maxDuration; defaults to now.
+   */
+  invocationStartedAt?: number;
 }
 
 export interface SendDigestResult {
   sent: number;
   failed: number;
   total: number;
+  /** In full mode, messages left in the outbox for the outbox cron */
+  queued?: number;
   /** In dryRun/test mode, the preview HTML for the first recipient */
   previewHtml?: string;
   /** In dryRun/test mode, the preview subject */
   previewSubject?: string;
 }
 
+/**
+ * Outbox batch key for one digest run, e.g. weekly_happenings:2026-W20
+ */
+export function getDigestBatchKey(digestType: DigestType, weekKey: string): string {
+  return `${digestType}:${weekKey}`;
+}
+
 // ============================================================
 // Main Send Function
 // ============================================================
@@ -55,14 +83,14 @@ export interface SendDigestResult {
  * Send digest emails to recipients.
  *
  * Modes:
- * - `full`: Send to all recipients (100ms delay between each)
+ * - `full`: Enqueue for all recipients, then drain the batch within the time budget
  * - `test`: Send to the first recipient only (no delay)
  * - `dryRun`: Build email for first recipient, return HTML without sending
  */
 export async function sendDigestEmails(
   params: SendDigestParams
 ): Promise<SendDigestResult> {
-  const { mode, recipients, buildEmail, templateName, logPrefix } = params;
+  const { mode, recipients, buildEmail, templateName, logPrefix, batchKey, invocationStartedAt } = params;
 
   if (recipients.length === 0) {
     return { sent: 0, failed: 0, total: 0 };
@@ -98,6 +126,7 @@ export async function sendDigestEmails(
       html: email.html,
       text: email.text,
       templateName,
+      listUnsubscribeUrl: buildUnsubscribeUrl(firstRecipient.userId),
     });
 
     return {
@@ -110,37 +139,55 @@ export async function sendDigestEmails(
   }
 
   // ============================================================
-  // Full Mode — send to all recipients
+  // Full Mode — enqueue all recipients, then drain this batch
   // ============================================================
+  const client = getServiceRoleClient();
+  const outboxBatchKey = batchKey ?? `${templateName}:${new Date().toISOString()}`;
+
+  try {
+    await enqueueEmails(
+      client,
+      recipients.map((recipient) => {
+        const email = buildEmail(recipient);
+        return {
+          to: recipient.email,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          templateName,
+          listUnsubscribeUrl: buildUnsubscribeUrl(recipient.userId),
+        };
+      }),
+      { batchKey: outboxBatchKey }
+    );
+  } catch (error) {
+    console.error(`${logPrefix} Failed to enqueue digest:`, error);
+    return { sent: 0, failed: recipients.length, total: recipients.length, queued: 0 };
+  }
+
   let sentCount = 0;
   let failedCount = 0;
-
-  for (const recipient of recipients) {
-    const email = buildEmail(recipient);
-
-    const sent = await sendEmail({
-      to: recipient.email,
-      subject: email.subject,
-      html: email.html,
-      text: email.text,
-      templateName,
+  try {
+    const drained = await drainOutbox(client, {
+      batchKey: outboxBatchKey,
+      budgetMs: getDrainBudgetMs(invocationStartedAt ?? Date.now()),
     });
-
-    if (sent) {
-      sentCount++;
-    } else {
-      failedCount++;
-    }
-
-    // Small delay to avoid overwhelming SMTP
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    sentCount = drained.sent;
+    failedCount = drained.failed + drained.suppressed;
+  } catch (error) {
+    // Everything stays queued for the outbox cron
+    console.error(`${logPrefix} Drain failed, leaving batch queued:`, error);
   }
 
-  console.log(`${logPrefix} Complete: ${sentCount} sent, ${failedCount} failed`);
+  const queuedCount = recipients.length - sentCount - failedCount;
+  console.log(
+    `${logPrefix} Complete: ${sentCount} sent, ${failedCount} failed, ${queuedCount} left in outbox`
+  );
 
   return {
     sent: sentCount,
     failed: failedCount,
     total: recipients.length,
+    queued: queuedCount,
   };
 }
@@ -4,16 +4,22 @@
  * Generates and validates HMAC-SHA256 tokens for one-click
  * unsubscribe links. No expiry, no login required.
  *
- * Two token families with different HMAC messages to prevent cross-use:
+ * Three token families with different HMAC messages to prevent cross-use:
  * - Member digest: message = "{userId}:unsubscribe_digest"
  *   URL: /api/digest/unsubscribe?uid={userId}&sig={hmac}
  * - Newsletter subscriber: message = "{email}:unsubscribe_newsletter"
  *   URL: /api/newsletter/unsubscribe?email={email}&sig={hmac}
+ * - Member email category: message = "{userId}:unsubscribe_category:{category}"
+ *   URL: /api/email/unsubscribe?uid={userId}&category={category}&sig={hmac}
+ *
+ * All three URLs also accept RFC 8058 one-click POSTs, so they double as
+ * List-Unsubscribe header targets.
  *
  * Phase: GTM-2 (member), GTM-3 (newsletter)
  */
 
 import { createHmac, timingSafeEqual } from "crypto";
+import type { EmailCategory } from "@/lib/notifications/preferences";
 
 const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET;
 
@@ -150,3 +156,79 @@ export function buildNewsletterUnsubscribeUrl(email: string): string | null {
 
   return `${SITE_URL}/api/newsletter/unsubscribe?email=${encodeURIComponent(normalizedEmail)}&sig=${encodeURIComponent(token)}`;
 }
+
+// ─── Member Email Category Token Functions ───────────────────────────────────
+
+/**
+ * Generate an HMAC-SHA256 signature for turning off one email category.
+ *
+ * The message format is "{userId}:unsubscribe_category:{category}" so a
+ * token for one category can't switch off another, or the digest.
+ *
+ * Returns null if UNSUBSCRIBE_SECRET is not configured.
+ */
+export function generateCategoryUnsubscribeToken(
+  userId: string,
+  category: EmailCategory
+): string | null {
+  if (!UNSUBSCRIBE_SECRET) {
+    console.error("[UnsubscribeToken] UNSUBSCRIBE_SECRET not configured");
+    return null;
+  }
+
+  const message = `${userId}:unsubscribe_category:${category}`;
+  return createHmac("sha256", UNSUBSCRIBE_SECRET)
+    .update(message)
+    .digest("hex");
+}
+
+/**
+ * Validate an HMAC-SHA256 signature for a category unsubscribe request.
+ *
+ * Uses constant-time comparison to prevent timing attacks.
+ *
+ * Returns false if UNSUBSCRIBE_SECRET is not configured.
+ */
+export function validateCategoryUnsubscribeToken(
+  userId: string,
+  category: EmailCategory,
+  token: string
+): boolean {
+  if (!UNSUBSCRIBE_SECRET) {
+    console.error("[UnsubscribeToken] UNSUBSCRIBE_SECRET not configured");
+    return false;
+  }
+
+  const expected = generateCategoryUnsubscribeToken(userId, category);
+  if (!expected) return false;
+
+  // Constant-time comparison
+  if (token.length !== expected.length) return false;
+
+  const tokenBuffer = Buffer.from(token, "utf-8");
+  const expectedBuffer = Buffer.from(expected, "utf-8");
+  return timingSafeEqual(tokenBuffer, expectedBuffer);
+}
+
+/**
+ * Build the full unsubscribe URL for one email category.
+ *
+ * Digests use the existing digest link so both paths stay in sync.
+ * Returns null if token generation fails (UNSUBSCRIBE_SECRET missing).
+ */
+export function buildCategoryUnsubscribeUrl(
+  userId: string,
+  category: EmailCategory
+): string | null {
+  if (category === "digests") return buildUnsubscribeUrl(userId);
+
+  const token = generateCategoryUnsubscribeToken(userId, category);
+  if (!token) return null;
+
+  const SITE_URL =
+    process.env.PUBLIC_SITE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    "https://coloradosongwriterscollective.org";
+
+  return `${SITE_URL}/api/email/unsubscribe?uid=${encodeURIComponent(userId)}&category=${encodeURIComponent(category)}&sig=${encodeURIComponent(token)}`;
+}
@@ -10,6 +10,19 @@
  * - Exclude cancelled occurrences via occurrence_overrides
  * - Denver timezone for all date calculations
  * - No personalization (all recipients get same list)
+ *
+ * For You:
+ * - Optional per-recipient "Picked for you" section ranked by
+ *   lib/happenings/recommendations.ts from the same 7-day list
+ *
+ * Cadence (lib/digest/digestCadence.ts):
+ * - Each recipient's edition (tonight / half week / week) is cut from the
+ *   same 7-day list, then narrowed to their sections and max distance
+ *
+ * Regions (lib/regions/regions.ts):
+ * - The cron builds one 7-day list per region (events.region_id, plus
+ *   unassigned events for the default region) and sends it to members
+ *   whose home region it is
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -28,11 +41,29 @@ import {
 } from "@/lib/happenings/savedFilters";
 import {
   computeBoundingBox,
+  getLocationFilteredVenues,
   haversineDistanceMiles,
   normalizeCity,
   normalizeRadiusMiles,
   normalizeZip,
 } from "@/lib/happenings/locationFilter";
+import {
+  DIGEST_FOR_YOU_LIMIT,
+  recommendOccurrences,
+} from "@/lib/happenings/recommendations";
+import { loadRecommendationSignals } from "@/lib/happenings/recommendationsServer";
+import { getFollowActivityForUsers } from "@/lib/follows/followsServer";
+import { followTargetHref, type DigestFollowActivity } from "@/lib/follows/followContract";
+import type { ResolvedEditorial } from "@/lib/digest/digestEditorial";
+import {
+  DEFAULT_DIGEST_PREFERENCES,
+  getDigestEdition,
+  matchesDigestSections,
+  toDigestPreferences,
+  wantsDigestHappenings,
+  type DigestEdition,
+  type DigestPreferences,
+} from "@/lib/digest/digestCadence";
 
 // ============================================================
 // Types
@@ -88,15 +119,48 @@ export interface DigestRecipient {
   userId: string;
   email: string;
   firstName: string | null;
+  /** Cadence, sections and distance (defaults when omitted) */
+  digest?: DigestPreferences;
+  /** Profile ZIP, the anchor for digest.maxDistanceMiles */
+  homeZip?: string | null;
+  /** profiles.home_region_id; null = default region */
+  homeRegionId?: number | null;
+}
+
+export interface DigestNewMember {
+  userId: string;
+  name: string;
+  /** Site-relative profile path */
+  link: string;
+  joinedAt: string;
+}
+
+export interface DigestForYouPick {
+  occurrence: HappeningOccurrence;
+  /** Reason labels, strongest first (e.g., "You've played here 3 times") */
+  reasons: string[];
 }
 
 export interface PersonalizedDigestRecipientsResult {
   recipients: DigestRecipient[];
   digestByUserId: Map<string, HappeningsDigestData>;
+  /** "Picked for you" sections (only when options.forYou is set) */
+  forYouByUserId: Map<string, DigestForYouPick[]>;
+  /** "From people you follow" sections (only when options.followActivity is set) */
+  followActivityByUserId: Map<string, DigestFollowActivity[]>;
+  /** "New members" sections (only when options.newMembers is set) */
+  newMembersByUserId: Map<string, DigestNewMember[]>;
+  /** Each recipient's edition (only when options.todayKey is set) */
+  editionByUserId: Map<string, DigestEdition>;
   personalizedCount: number;
   skippedCount: number;
+  /** Recipients whose cadence doesn't send on options.todayKey */
+  notDueCount: number;
 }
 
+/** Max new members listed per digest */
+export const DIGEST_NEW_MEMBERS_LIMIT = 5;
+
 // ============================================================
 // Date Helpers
 // ============================================================
@@ -154,9 +218,10 @@ export function formatTimeDisplay(time: string | null): string {
  * Includes ALL event types (no event_type filter).
  */
 async function fetchHappeningEvents(
-  supabase: SupabaseClient<Database>
+  supabase: SupabaseClient<Database>,
+  region?: DigestRegionFilter
 ): Promise<HappeningEvent[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from("events")
     .select(`
       id,
@@ -178,6 +243,14 @@ async function fetchHappeningEvents(
     .eq("visibility", "public")
     .eq("status", "active");
 
+  if (region) {
+    query = region.includeUnassigned
+      ? query.or(`region_id.eq.${region.regionId},region_id.is.null`)
+      : query.eq("region_id", region.regionId);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     console.error("[WeeklyHappenings] Failed to fetch happenings:", error);
     return [];
@@ -226,18 +299,25 @@ async function fetchCancelledOccurrences(
   return cancelledMap;
 }
 
+/** Limit a digest to one region's events */
+export interface DigestRegionFilter {
+  regionId: number;
+  /** Also include events with no region (the default region) */
+  includeUnassigned: boolean;
+}
+
 /**
  * Get all upcoming happenings for the digest date range.
  * Expands recurring events and filters out cancelled occurrences.
  */
 export async function getUpcomingHappenings(
   supabase: SupabaseClient<Database>,
-  options?: { todayKey?: string }
+  options?: { todayKey?: string; region?: DigestRegionFilter }
 ): Promise<HappeningsDigestData> {
   const { start, end } = getDigestDateRange(options?.todayKey);
 
-  // Fetch all happening events (all types)
-  const events = await fetchHappeningEvents(supabase);
+  // Fetch all happening events (all types), optionally for one region
+  const events = await fetchHappeningEvents(supabase, options?.region);
 
   // Fetch cancelled occurrences
   const eventIds = events.map((e) => e.id);
@@ -317,10 +397,13 @@ export async function getUpcomingHappenings(
 // ============================================================
 
 /**
- * Get all users who should receive the weekly digest.
+ * Get all users who should receive the happenings digest.
  * Filters by:
  * - Has email address
  * - Has email_enabled + email_digests preferences enabled (or no preference row = default true)
+ *
+ * Each recipient carries their digest cadence/sections/distance and profile
+ * ZIP; personalizeDigestRecipients() decides what (if anything) they get today.
  */
 export async function getDigestRecipients(
   supabase: SupabaseClient<Database>
@@ -328,7 +411,7 @@ export async function getDigestRecipients(
   // Get all profiles with emails
   const { data: profiles, error: profilesError } = await supabase
     .from("profiles")
-    .select("id, email, full_name")
+    .select("id, email, full_name, zip_code, home_region_id")
     .not("email", "is", null);
 
   if (profilesError) {
@@ -339,7 +422,9 @@ export async function getDigestRecipients(
   // Get all notification preferences
   const { data: preferences, error: prefsError } = await supabase
     .from("notification_preferences")
-    .select("user_id, email_enabled, email_digests");
+    .select(
+      "user_id, email_enabled, email_digests, digest_cadence, digest_day, digest_sections, digest_max_distance_miles"
+    );
 
   if (prefsError) {
     console.error("[WeeklyHappenings] Failed to fetch preferences:", prefsError);
@@ -347,11 +432,15 @@ export async function getDigestRecipients(
   }
 
   // Build preference map (default true if no row)
-  const prefMap = new Map<string, { emailEnabled: boolean; emailDigests: boolean }>();
+  const prefMap = new Map<
+    string,
+    { emailEnabled: boolean; emailDigests: boolean; digest: DigestPreferences }
+  >();
   for (const pref of preferences || []) {
     prefMap.set(pref.user_id, {
       emailEnabled: pref.email_enabled,
       emailDigests: pref.email_digests,
+      digest: toDigestPreferences(pref),
     });
   }
 
@@ -372,13 +461,167 @@ export async function getDigestRecipients(
       userId: profile.id,
       email: profile.email,
       firstName,
+      digest: pref?.digest ?? toDigestPreferences(null),
+      homeZip: profile.zip_code ?? null,
+      homeRegionId: profile.home_region_id ?? null,
     });
   }
 
   return recipients;
 }
 
-function buildFilteredDigestData(
+/**
+ * Newest public members who joined on or after a date key, newest first.
+ */
+export async function getNewMembersSince(
+  supabase: SupabaseClient<Database>,
+  sinceKey: string
+): Promise<DigestNewMember[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name, slug, created_at")
+    .eq("is_public", true)
+    .not("full_name", "is", null)
+    .gte("created_at", `${sinceKey}T00:00:00Z`)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error("[WeeklyHappenings] Failed to fetch new members:", error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((row) => row.full_name && row.created_at)
+    .map((row) => ({
+      userId: row.id,
+      name: row.full_name!,
+      link: followTargetHref("member", row.slug || row.id),
+      joinedAt: row.created_at!,
+    }));
+}
+
+/**
+ * Cut digest data down to a narrower date window (an edition of the 7-day list).
+ */
+export function sliceDigestData(
+  data: HappeningsDigestData,
+  dateRange: HappeningsDigestData["dateRange"]
+): HappeningsDigestData {
+  if (dateRange.start === data.dateRange.start && dateRange.end === data.dateRange.end) {
+    return data;
+  }
+
+  const byDate = new Map<string, HappeningOccurrence[]>();
+  for (const [dateKey, occurrences] of data.byDate.entries()) {
+    if (dateKey < dateRange.start || dateKey > dateRange.end) continue;
+    byDate.set(dateKey, [...occurrences]);
+  }
+
+  return summarizeDigestData(byDate, dateRange);
+}
+
+/**
+ * Narrow digest data to a recipient's sections (open mics vs. everything
+ * else) and, when given, the venues within their max distance.
+ * Returns the input unchanged when neither narrows anything.
+ */
+export function applyDigestPreferences(
+  data: HappeningsDigestData,
+  prefs: DigestPreferences,
+  nearbyVenueIds?: Set<string> | null
+): HappeningsDigestData {
+  const allHappenings =
+    prefs.sections.includes("open_mics") && prefs.sections.includes("showcases");
+  if (allHappenings && !nearbyVenueIds) return data;
+
+  const byDate = new Map<string, HappeningOccurrence[]>();
+  for (const [dateKey, occurrences] of data.byDate.entries()) {
+    const kept = occurrences.filter((occurrence) => {
+      if (!matchesDigestSections(occurrence.event.event_type, prefs.sections)) return false;
+      if (!nearbyVenueIds) return true;
+      const venueId = occurrence.event.venue?.id;
+      return venueId ? nearbyVenueIds.has(venueId) : false;
+    });
+    if (kept.length > 0) {
+      byDate.set(dateKey, kept);
+    }
+  }
+
+  return summarizeDigestData(byDate, data.dateRange);
+}
+
+/**
+ * The week's editorial as a recipient should see it: only in editions that
+ * carry editorial, and without the features for sections they turned off.
+ */
+export function getRecipientEditorial(
+  editorial: ResolvedEditorial | undefined,
+  prefs: DigestPreferences,
+  edition?: DigestEdition
+): ResolvedEditorial | undefined {
+  if (!editorial) return undefined;
+  if (edition && !edition.includesEditorial) return undefined;
+
+  const filtered: ResolvedEditorial = { ...editorial };
+  if (!prefs.sections.includes("blog")) delete filtered.blogFeature;
+  if (!prefs.sections.includes("gallery")) delete filtered.galleryFeature;
+  if (!prefs.sections.includes("new_members")) delete filtered.memberSpotlight;
+  if (!wantsDigestHappenings(prefs)) delete filtered.featuredHappenings;
+  return filtered;
+}
+
+function getDistanceKey(zip: string, miles: number): string {
+  return `${zip}:${miles}`;
+}
+
+/**
+ * Venues within each recipient's max distance of their profile ZIP, keyed
+ * by user id (one lookup per ZIP and radius). Uses the happenings location
+ * filter (ZIP centroid with geocoding fallback). Recipients with no limit,
+ * or a ZIP that can't be placed, get no entry, so their distance limit is
+ * ignored rather than emptying their digest.
+ * Also used by the open mics roundup (lib/digest/weeklyOpenMics.ts).
+ */
+export async function getNearbyVenueIdsByUserId(
+  supabase: SupabaseClient<Database>,
+  recipients: ReadonlyArray<Pick<DigestRecipient, "userId" | "digest" | "homeZip">>,
+  logPrefix: string
+): Promise<Map<string, Set<string>>> {
+  const keyByUserId = new Map<string, string>();
+  const lookups = new Map<string, { zip: string; miles: number }>();
+  for (const recipient of recipients) {
+    const miles = recipient.digest?.maxDistanceMiles;
+    const zip = normalizeZip(recipient.homeZip || undefined);
+    if (!miles || !zip) continue;
+    const key = getDistanceKey(zip, miles);
+    keyByUserId.set(recipient.userId, key);
+    lookups.set(key, { zip, miles });
+  }
+
+  const nearbyByKey = new Map<string, Set<string>>();
+  for (const [key, { zip, miles }] of lookups.entries()) {
+    const result = await getLocationFilteredVenues(supabase, { zip, radiusMiles: miles });
+    if (result.emptyReason === "invalid_zip" || result.emptyReason === "zip_lookup_failed") {
+      console.warn(`${logPrefix} Could not place ZIP ${zip} (${result.emptyReason}); ignoring distance limit`);
+      continue;
+    }
+    nearbyByKey.set(key, new Set(result.includedVenueIds));
+  }
+
+  const nearbyByUserId = new Map<string, Set<string>>();
+  for (const [userId, key] of keyByUserId.entries()) {
+    const nearby = nearbyByKey.get(key);
+    if (nearby) nearbyByUserId.set(userId, nearby);
+  }
+  return nearbyByUserId;
+}
+
+/**
+ * Narrow digest data to a user's saved filters (type, cost, days, location).
+ * Also reused by the saved-filters calendar feed (lib/calendar/feedData.ts).
+ */
+export function buildFilteredDigestData(
   data: HappeningsDigestData,
   filters: DigestApplicableSavedFilters
 ): HappeningsDigestData {
@@ -642,33 +885,225 @@ function mergeDigestDataWithFavorites(
   return summarizeDigestData(byDate, filteredData.dateRange);
 }
 
+/**
+ * Rank the week's happenings for each recipient. Picks come from the
+ * recipient's edition (cadence window, sections, distance) but not their
+ * saved filters, so a saved filter can't hide a venue they play every week;
+ * recipients with no picks get no entry.
+ */
+async function buildDigestForYouPicks(
+  supabase: SupabaseClient<Database>,
+  recipients: DigestRecipient[],
+  digestData: HappeningsDigestData,
+  baseByUserId: Map<string, HappeningsDigestData>
+): Promise<Map<string, DigestForYouPick[]>> {
+  const forYouByUserId = new Map<string, DigestForYouPick[]>();
+  if (recipients.length === 0 || digestData.totalCount === 0) return forYouByUserId;
+
+  const candidatesByData = new Map<HappeningsDigestData, HappeningOccurrence[]>();
+  const getCandidates = (data: HappeningsDigestData) => {
+    let candidates = candidatesByData.get(data);
+    if (!candidates) {
+      candidates = [];
+      for (const occurrences of data.byDate.values()) {
+        candidates.push(...occurrences);
+      }
+      candidatesByData.set(data, candidates);
+    }
+    return candidates;
+  };
+
+  const signalsByUserId = await loadRecommendationSignals(
+    supabase,
+    recipients.map((r) => r.userId),
+    { todayKey: digestData.dateRange.start }
+  );
+
+  for (const recipient of recipients) {
+    const signals = signalsByUserId.get(recipient.userId);
+    if (!signals) continue;
+
+    const base = baseByUserId.get(recipient.userId) || digestData;
+    const picks = recommendOccurrences(getCandidates(base), signals, {
+      todayKey: base.dateRange.start,
+      limit: DIGEST_FOR_YOU_LIMIT,
+    });
+    if (picks.length === 0) continue;
+
+    forYouByUserId.set(
+      recipient.userId,
+      picks.map(({ candidate, reasons }) => ({
+        occurrence: candidate,
+        reasons: reasons.map((r) => r.label),
+      }))
+    );
+  }
+
+  return forYouByUserId;
+}
+
+/**
+ * Follow activity since each recipient's last edition (7 days when there's
+ * no edition). One query per distinct start date.
+ */
+async function getDigestFollowActivity(
+  supabase: SupabaseClient<Database>,
+  recipients: DigestRecipient[],
+  digestData: HappeningsDigestData,
+  editionByUserId: Map<string, DigestEdition>
+): Promise<Map<string, DigestFollowActivity[]>> {
+  const defaultSinceKey = addDaysDenver(digestData.dateRange.start, -7);
+  const userIdsBySinceKey = new Map<string, string[]>();
+  for (const recipient of recipients) {
+    const sinceKey = editionByUserId.get(recipient.userId)?.sinceKey ?? defaultSinceKey;
+    const userIds = userIdsBySinceKey.get(sinceKey) ?? [];
+    userIds.push(recipient.userId);
+    userIdsBySinceKey.set(sinceKey, userIds);
+  }
+
+  const followActivityByUserId = new Map<string, DigestFollowActivity[]>();
+  for (const [sinceKey, userIds] of userIdsBySinceKey.entries()) {
+    const activity = await getFollowActivityForUsers(supabase, userIds, {
+      since: `${sinceKey}T00:00:00Z`,
+    });
+    for (const [userId, items] of activity.entries()) {
+      followActivityByUserId.set(userId, items);
+    }
+  }
+
+  return followActivityByUserId;
+}
+
+/**
+ * Members who joined since each recipient's last edition, for recipients
+ * with the new_members section. Recipients never see themselves.
+ */
+async function getDigestNewMembers(
+  supabase: SupabaseClient<Database>,
+  recipients: DigestRecipient[],
+  digestData: HappeningsDigestData,
+  editionByUserId: Map<string, DigestEdition>
+): Promise<Map<string, DigestNewMember[]>> {
+  const newMembersByUserId = new Map<string, DigestNewMember[]>();
+  const defaultSinceKey = addDaysDenver(digestData.dateRange.start, -7);
+
+  const wanting = recipients.filter((recipient) =>
+    (recipient.digest ?? DEFAULT_DIGEST_PREFERENCES).sections.includes("new_members")
+  );
+  if (wanting.length === 0) return newMembersByUserId;
+
+  const sinceKeyByUserId = new Map<string, string>();
+  let earliestSinceKey = defaultSinceKey;
+  for (const recipient of wanting) {
+    const sinceKey = editionByUserId.get(recipient.userId)?.sinceKey ?? defaultSinceKey;
+    sinceKeyByUserId.set(recipient.userId, sinceKey);
+    if (sinceKey < earliestSinceKey) earliestSinceKey = sinceKey;
+  }
+
+  const members = await getNewMembersSince(supabase, earliestSinceKey);
+  if (members.length === 0) return newMembersByUserId;
+
+  for (const recipient of wanting) {
+    const since = `${sinceKeyByUserId.get(recipient.userId)}T00:00:00Z`;
+    const picks = members
+      .filter((member) => member.userId !== recipient.userId && member.joinedAt >= since)
+      .slice(0, DIGEST_NEW_MEMBERS_LIMIT);
+    if (picks.length > 0) {
+      newMembersByUserId.set(recipient.userId, picks);
+    }
+  }
+
+  return newMembersByUserId;
+}
+
 export async function personalizeDigestRecipients(
   supabase: SupabaseClient<Database>,
   recipients: DigestRecipient[],
   digestData: HappeningsDigestData,
   options: {
+    /** Apply saved happenings filters, For You and follow activity */
     enabled: boolean;
+    /** Also build "Picked for you" sections for each remaining recipient */
+    forYou?: boolean;
+    /** Also collect the past week's activity from each recipient's unmuted follows */
+    followActivity?: boolean;
+    /** Also list members who joined since each recipient's last edition */
+    newMembers?: boolean;
+    /**
+     * Denver date of the send. When set, each recipient gets the edition
+     * their cadence sends that day, and recipients with none are dropped.
+     */
+    todayKey?: string;
     logPrefix?: string;
   }
 ): Promise<PersonalizedDigestRecipientsResult> {
-  if (!options.enabled || recipients.length === 0) {
+  const logPrefix = options.logPrefix || "[WeeklyHappenings]";
+
+  // Cadence, sections and distance are the recipient's own digest settings,
+  // so they apply whether or not saved-filter personalization is enabled.
+  const nearbyByUserId = await getNearbyVenueIdsByUserId(supabase, recipients, logPrefix);
+
+  const eligibleRecipients: DigestRecipient[] = [];
+  const baseByUserId = new Map<string, HappeningsDigestData>();
+  const editionByUserId = new Map<string, DigestEdition>();
+  let skippedCount = 0;
+  let notDueCount = 0;
+
+  for (const recipient of recipients) {
+    const prefs = recipient.digest ?? DEFAULT_DIGEST_PREFERENCES;
+    let base = digestData;
+
+    if (options.todayKey) {
+      const edition = getDigestEdition(prefs, options.todayKey);
+      if (!edition) {
+        notDueCount++;
+        continue;
+      }
+      editionByUserId.set(recipient.userId, edition);
+      base = sliceDigestData(base, edition.dateRange);
+    }
+
+    base = applyDigestPreferences(base, prefs, nearbyByUserId.get(recipient.userId));
+
+    // Recipients who only want blog/gallery/member sections have no
+    // happenings by design; everyone else needs at least one.
+    if (base.totalCount === 0 && wantsDigestHappenings(prefs)) {
+      skippedCount++;
+      console.log(`${logPrefix} Skipping ${recipient.email} - no happenings in their edition`);
+      continue;
+    }
+
+    eligibleRecipients.push(recipient);
+    if (base !== digestData) {
+      baseByUserId.set(recipient.userId, base);
+    }
+  }
+
+  if (!options.enabled || eligibleRecipients.length === 0) {
     return {
-      recipients,
-      digestByUserId: new Map(),
+      recipients: eligibleRecipients,
+      digestByUserId: baseByUserId,
+      forYouByUserId: new Map(),
+      followActivityByUserId: new Map(),
+      newMembersByUserId: options.newMembers
+        ? await getDigestNewMembers(supabase, eligibleRecipients, digestData, editionByUserId)
+        : new Map(),
+      editionByUserId,
       personalizedCount: 0,
-      skippedCount: 0,
+      skippedCount,
+      notDueCount,
     };
   }
 
   const savedByUserId = await getSavedHappeningsFiltersForUsers(
     supabase,
-    recipients.map((r) => r.userId)
+    eligibleRecipients.map((r) => r.userId)
   );
 
   const digestFiltersByUserId = new Map<string, DigestApplicableSavedFilters>();
   let shouldFetchFavorites = false;
 
-  for (const recipient of recipients) {
+  for (const recipient of eligibleRecipients) {
     const saved = savedByUserId.get(recipient.userId);
     if (!saved) continue;
     const applicable = toDigestApplicableFilters(saved.filters);
@@ -681,16 +1116,15 @@ export async function personalizeDigestRecipients(
   const favoriteEventIdsByUserId = shouldFetchFavorites
     ? await getFavoriteEventIdsForUsers(
         supabase,
-        recipients.map((r) => r.userId)
+        eligibleRecipients.map((r) => r.userId)
       )
     : new Map<string, Set<string>>();
 
   const recipientsToSend: DigestRecipient[] = [];
-  const digestByUserId = new Map<string, HappeningsDigestData>();
+  const digestByUserId = new Map(baseByUserId);
   let personalizedCount = 0;
-  let skippedCount = 0;
 
-  for (const recipient of recipients) {
+  for (const recipient of eligibleRecipients) {
     const applicable = digestFiltersByUserId.get(recipient.userId);
     if (!applicable) {
       recipientsToSend.push(recipient);
@@ -712,12 +1146,13 @@ export async function personalizeDigestRecipients(
       continue;
     }
 
-    let personalized = buildFilteredDigestData(digestData, applicable);
+    const base = baseByUserId.get(recipient.userId) || digestData;
+    let personalized = buildFilteredDigestData(base, applicable);
     if (includeFavorites) {
       const favoriteEventIds = favoriteEventIdsByUserId.get(recipient.userId);
       if (favoriteEventIds && favoriteEventIds.size > 0) {
         personalized = mergeDigestDataWithFavorites(
-          digestData,
+          base,
           personalized,
           favoriteEventIds
         );
@@ -727,7 +1162,7 @@ export async function personalizeDigestRecipients(
     if (personalized.totalCount === 0) {
       skippedCount++;
       console.log(
-        `${options.logPrefix || "[WeeklyHappenings]"} Skipping ${recipient.email} - filters produced 0 results`
+        `${logPrefix} Skipping ${recipient.email} - filters produced 0 results`
       );
       continue;
     }
@@ -737,10 +1172,27 @@ export async function personalizeDigestRecipients(
     digestByUserId.set(recipient.userId, personalized);
   }
 
+  const forYouByUserId = options.forYou
+    ? await buildDigestForYouPicks(supabase, recipientsToSend, digestData, baseByUserId)
+    : new Map<string, DigestForYouPick[]>();
+
+  const followActivityByUserId = options.followActivity
+    ? await getDigestFollowActivity(supabase, recipientsToSend, digestData, editionByUserId)
+    : new Map<string, DigestFollowActivity[]>();
+
+  const newMembersByUserId = options.newMembers
+    ? await getDigestNewMembers(supabase, recipientsToSend, digestData, editionByUserId)
+    : new Map<string, DigestNewMember[]>();
+
   return {
     recipients: recipientsToSend,
     digestByUserId,
+    forYouByUserId,
+    followActivityByUserId,
+    newMembersByUserId,
+    editionByUserId,
     personalizedCount,
     skippedCount,
+    notDueCount,
   };
 }
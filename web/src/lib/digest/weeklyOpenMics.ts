@@ -2,14 +2,17 @@
  * Weekly Open Mics Digest
  *
  * Business logic for fetching upcoming open mics and building per-user digest emails.
- * Used by the /api/cron/weekly-open-mics endpoint.
+ * Used by the /api/cron/weekly-open-mics endpoint (see openMicsEditions.ts).
  *
  * Phase 1 MVP:
  * - Query/filter: event_type="open_mic", is_published=true, status="active"
- * - 7-day window: Sunday (send day) through Saturday
+ * - 7-day window: the send day through the following 6 days
  * - Exclude cancelled occurrences via occurrence_overrides
  * - Denver timezone for all date calculations
- * - No personalization (all recipients get same list)
+ *
+ * Cadence (lib/digest/digestCadence.ts):
+ * - Weekly members who keep the open mics section get the roundup on their
+ *   digest_day, narrowed to venues within their max distance
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -19,6 +22,13 @@ import {
   addDaysDenver,
   expandOccurrencesForEvent,
 } from "@/lib/events/nextOccurrence";
+import {
+  DEFAULT_DIGEST_PREFERENCES,
+  getDigestEdition,
+  toDigestPreferences,
+  type DigestPreferences,
+} from "@/lib/digest/digestCadence";
+import { getNearbyVenueIdsByUserId } from "@/lib/digest/weeklyHappenings";
 
 // ============================================================
 // Types
@@ -68,6 +78,21 @@ export interface DigestRecipient {
   userId: string;
   email: string;
   firstName: string | null;
+  /** Cadence, day and distance (defaults when omitted) */
+  digest?: DigestPreferences;
+  /** Profile ZIP, the anchor for digest.maxDistanceMiles */
+  homeZip?: string | null;
+}
+
+export interface PersonalizedOpenMicsRecipientsResult {
+  /** Recipients whose roundup goes out today */
+  recipients: DigestRecipient[];
+  /** Per-recipient open mics, only for recipients narrowed by distance */
+  digestByUserId: Map<string, DigestData>;
+  /** Recipients whose digest_day isn't today */
+  notDueCount: number;
+  /** Recipients left with no open mics (none this week, or none nearby) */
+  skippedCount: number;
 }
 
 // ============================================================
@@ -291,6 +316,11 @@ export async function getUpcomingOpenMics(
  * Filters by:
  * - Has email address
  * - Has email_enabled + email_digests preferences enabled (or no preference row = default true)
+ * - Weekly digest cadence with the open mics section on (daily and
+ *   twice-weekly members get open mics in their happenings edition instead)
+ *
+ * Each recipient carries their digest day/distance and profile ZIP;
+ * personalizeOpenMicsRecipients() decides whether they get it today.
  */
 export async function getDigestRecipients(
   supabase: SupabaseClient<Database>
@@ -298,7 +328,7 @@ export async function getDigestRecipients(
   // Get all profiles with emails
   const { data: profiles, error: profilesError } = await supabase
     .from("profiles")
-    .select("id, email, full_name")
+    .select("id, email, full_name, zip_code")
     .not("email", "is", null);
 
   if (profilesError) {
@@ -309,7 +339,9 @@ export async function getDigestRecipients(
   // Get all notification preferences
   const { data: preferences, error: prefsError } = await supabase
     .from("notification_preferences")
-    .select("user_id, email_enabled, email_digests");
+    .select(
+      "user_id, email_enabled, email_digests, digest_cadence, digest_day, digest_sections, digest_max_distance_miles"
+    );
 
   if (prefsError) {
     console.error("[WeeklyDigest] Failed to fetch preferences:", prefsError);
@@ -317,11 +349,17 @@ export async function getDigestRecipients(
   }
 
   // Build preference map (default true if no row)
-  const prefMap = new Map<string, { emailEnabled: boolean; emailDigests: boolean }>();
+  const prefMap = new Map<
+    string,
+    { emailEnabled: boolean; emailDigests: boolean; openMicsRoundup: boolean; digest: DigestPreferences }
+  >();
   for (const pref of preferences || []) {
+    const digest = toDigestPreferences(pref);
     prefMap.set(pref.user_id, {
       emailEnabled: pref.email_enabled,
       emailDigests: pref.email_digests,
+      openMicsRoundup: digest.cadence === "weekly" && digest.sections.includes("open_mics"),
+      digest,
     });
   }
 
@@ -332,7 +370,7 @@ export async function getDigestRecipients(
 
     // Check preference (default to true if no row exists)
     const pref = prefMap.get(profile.id);
-    const wantsEmail = pref ? pref.emailEnabled && pref.emailDigests : true;
+    const wantsEmail = pref ? pref.emailEnabled && pref.emailDigests && pref.openMicsRoundup : true;
     if (!wantsEmail) continue;
 
     // Extract first name from full_name
@@ -342,8 +380,84 @@ export async function getDigestRecipients(
       userId: profile.id,
       email: profile.email,
       firstName,
+      digest: pref?.digest ?? toDigestPreferences(null),
+      homeZip: profile.zip_code ?? null,
     });
   }
 
   return recipients;
 }
+
+// ============================================================
+// Personalization
+// ============================================================
+
+/**
+ * Keep only open mics at the given venues.
+ */
+export function filterOpenMicsByVenue(data: DigestData, venueIds: Set<string>): DigestData {
+  const byDate = new Map<string, OpenMicOccurrence[]>();
+  const uniqueVenues = new Set<string>();
+  let totalCount = 0;
+
+  for (const [dateKey, occurrences] of data.byDate.entries()) {
+    const kept = occurrences.filter((occurrence) => {
+      const venueId = occurrence.event.venue?.id;
+      return venueId ? venueIds.has(venueId) : false;
+    });
+    if (kept.length === 0) continue;
+    byDate.set(dateKey, kept);
+    totalCount += kept.length;
+    for (const occurrence of kept) {
+      uniqueVenues.add(occurrence.event.venue!.id);
+    }
+  }
+
+  return { byDate, totalCount, venueCount: uniqueVenues.size, dateRange: data.dateRange };
+}
+
+/**
+ * Narrow the roundup to the recipients it goes to on a Denver date: members
+ * whose digest_day is today, each limited to venues within their max
+ * distance. Recipients left with no open mics are skipped.
+ */
+export async function personalizeOpenMicsRecipients(
+  supabase: SupabaseClient<Database>,
+  recipients: DigestRecipient[],
+  digestData: DigestData,
+  options: { todayKey: string; logPrefix?: string }
+): Promise<PersonalizedOpenMicsRecipientsResult> {
+  const logPrefix = options.logPrefix || "[WeeklyOpenMics]";
+
+  const dueRecipients = recipients.filter((recipient) =>
+    Boolean(getDigestEdition(recipient.digest ?? DEFAULT_DIGEST_PREFERENCES, options.todayKey))
+  );
+  const nearbyByUserId = await getNearbyVenueIdsByUserId(supabase, dueRecipients, logPrefix);
+
+  const recipientsToSend: DigestRecipient[] = [];
+  const digestByUserId = new Map<string, DigestData>();
+  let skippedCount = 0;
+
+  for (const recipient of dueRecipients) {
+    const nearbyVenueIds = nearbyByUserId.get(recipient.userId);
+    const recipientData = nearbyVenueIds ? filterOpenMicsByVenue(digestData, nearbyVenueIds) : digestData;
+
+    if (recipientData.totalCount === 0) {
+      skippedCount++;
+      console.log(`${logPrefix} Skipping ${recipient.email} - no open mics in their roundup`);
+      continue;
+    }
+
+    recipientsToSend.push(recipient);
+    if (recipientData !== digestData) {
+      digestByUserId.set(recipient.userId, recipientData);
+    }
+  }
+
+  return {
+    recipients: recipientsToSend,
+    digestByUserId,
+    notDueCount: recipients.length - dueRecipients.length,
+    skippedCount,
+  };
+}
@@ -23,7 +23,12 @@ vi.mock("@/lib/email/render", () => ({
   SITE_URL: "https://coloradosongwriterscollective.org",
 }));
 
-import { __resetAdminEventAlertDedupeForTests, sendAdminEventAlert } from "@/lib/email/adminEventAlerts";
+import {
+  __resetAdminEventAlertDedupeForTests,
+  __resetEventAuditAlertThrottleForTests,
+  sendAdminEventAlert,
+  sendEventAuditSuspicionAlert,
+} from "@/lib/email/adminEventAlerts";
 
 describe("sendAdminEventAlert", () => {
   function makeSupabaseMock(rows: Array<{ id: string; email: string | null }> | null, error: unknown = null) {
@@ -176,3 +181,43 @@ describe("sendAdminEventAlert", () => {
     expect(sendAdminWithPrefsMock).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("sendEventAuditSuspicionAlert", () => {
+  beforeEach(() => {
+    sendEmailMock.mockReset();
+    sendAdminWithPrefsMock.mockReset();
+    getServiceRoleClientMock.mockReset();
+    __resetEventAuditAlertThrottleForTests();
+    sendAdminWithPrefsMock.mockResolvedValue(true);
+    const notMock = vi.fn().mockResolvedValue({ data: [{ id: "admin-1", email: "admin@example.com" }], error: null });
+    getServiceRoleClientMock.mockReturnValue({
+      from: vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ not: notMock }) }) }),
+    });
+  });
+
+  it("deep-links to the filtered audit browser and throttles per actor and event", async () => {
+    const params = {
+      actorUserId: "user-1",
+      actorRole: "cohost",
+      eventId: "event-1",
+      eventTitle: "<b>Open Mic</b>",
+      score: 60,
+      signals: ["Cancelled by a co-host"],
+      summary: "Event cancelled",
+      source: "manual_form",
+    };
+
+    await sendEventAuditSuspicionAlert(params);
+    await sendEventAuditSuspicionAlert({ ...params, summary: "Event cancelled again" });
+
+    expect(sendAdminWithPrefsMock).toHaveBeenCalledTimes(1);
+    const [, , templateKey, payload] = sendAdminWithPrefsMock.mock.calls[0];
+    expect(templateKey).toBe("adminEventAuditAlert");
+    expect(payload.subject).toContain("score 60");
+    expect(payload.text).toContain("/dashboard/admin/event-audit?event_id=event-1&actor_id=user-1");
+    expect(payload.html).toContain("&lt;b&gt;Open Mic&lt;/b&gt;");
+
+    await sendEventAuditSuspicionAlert({ ...params, eventId: "event-2" });
+    expect(sendAdminWithPrefsMock).toHaveBeenCalledTimes(2);
+  });
+});
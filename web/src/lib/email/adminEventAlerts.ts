@@ -2,8 +2,10 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "@/lib/supabase/database.types";
 import { getServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { sendAdminEmailWithPreferences } from "@/lib/email/sendWithPreferences";
-import { ADMIN_EMAIL, sendEmail, type EmailPayload } from "@/lib/email/mailer";
+import { ADMIN_EMAIL, type EmailPayload } from "@/lib/email/mailer";
+import { queueEmail } from "@/lib/email/outbox";
 import { SITE_URL } from "@/lib/email/render";
+import { escapeHtml } from "@/lib/highlight";
 
 type AdminEventAlertType = "created" | "edited";
 type AdminEventAlertAction = "create" | "edit_series" | "edit_occurrence";
@@ -256,6 +258,136 @@ export async function sendAdminEventAlert(params: SendAdminEventAlertParams): Pr
     );
   } catch (error) {
     console.error("[adminEventAlerts] Preference-aware send failed, using fallback:", error);
-    await sendEmail({ ...payloadBase, to: ADMIN_EMAIL });
+    await queueEmail({ ...payloadBase, to: ADMIN_EMAIL });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Event audit suspicion alerts (Lane 5 PR B)
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SendEventAuditSuspicionAlertParams {
+  actorUserId: string | null;
+  actorRole: string;
+  eventId: string;
+  eventSlug?: string | null;
+  eventTitle?: string | null;
+  score: number;
+  /** Human-readable signal labels */
+  signals: string[];
+  summary?: string | null;
+  source: string;
+}
+
+/** One alert per actor + event per hour, however many flagged writes land */
+const AUDIT_ALERT_THROTTLE_MS = 60 * 60 * 1000;
+const recentAuditAlertTimestamps = new Map<string, number>();
+
+function shouldThrottleAuditAlert(key: string, nowMs: number = Date.now()): boolean {
+  for (const [existingKey, timestamp] of recentAuditAlertTimestamps.entries()) {
+    if (nowMs - timestamp >= AUDIT_ALERT_THROTTLE_MS) {
+      recentAuditAlertTimestamps.delete(existingKey);
+    }
+  }
+
+  if (recentAuditAlertTimestamps.has(key)) return true;
+  recentAuditAlertTimestamps.set(key, nowMs);
+  return false;
+}
+
+export function __resetEventAuditAlertThrottleForTests(): void {
+  recentAuditAlertTimestamps.clear();
+}
+
+export async function sendEventAuditSuspicionAlert(
+  params: SendEventAuditSuspicionAlertParams
+): Promise<void> {
+  const {
+    actorUserId,
+    actorRole,
+    eventId,
+    eventSlug = null,
+    eventTitle = null,
+    score,
+    signals,
+    summary = null,
+    source,
+  } = params;
+
+  const throttleKey = `${actorUserId ?? "anonymous"}::${eventId}`;
+  if (shouldThrottleAuditAlert(throttleKey)) {
+    console.info(
+      `[adminEventAlerts] Throttling audit alert eventId=${eventId} actorUserId=${actorUserId ?? "-"}`
+    );
+    return;
+  }
+
+  const safeTitle = clean(eventTitle, "Untitled event");
+  const safeSummary = clean(summary, "No summary");
+  const auditParams = new URLSearchParams({ event_id: eventId });
+  if (actorUserId) auditParams.set("actor_id", actorUserId);
+  const auditUrl = `${SITE_URL}/dashboard/admin/event-audit?${auditParams.toString()}`;
+  const eventUrl = `${SITE_URL}/events/${eventSlug || eventId}`;
+
+  const subject = `[CSC Audit] Suspicious event edit (score ${score}): ${safeTitle}`;
+  const signalLines = signals.map((signal) => `- ${signal}`).join("\n");
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #111827;">
+      <h2 style="margin: 0 0 12px 0;">Suspicious Event Edit</h2>
+      <p style="margin: 0 0 10px 0;"><strong>Score:</strong> ${score} / 100</p>
+      <p style="margin: 0 0 6px 0;"><strong>Signals:</strong></p>
+      <pre style="margin: 0 0 14px 0; padding: 10px; background: #f3f4f6; border-radius: 6px;">${escapeHtml(signalLines)}</pre>
+      <p style="margin: 0 0 10px 0;"><strong>Event:</strong> ${escapeHtml(safeTitle)}</p>
+      <p style="margin: 0 0 10px 0;"><strong>Event ID:</strong> ${eventId}</p>
+      <p style="margin: 0 0 10px 0;"><strong>Actor:</strong> ${actorUserId ?? "(none)"} (${escapeHtml(actorRole)})</p>
+      <p style="margin: 0 0 10px 0;"><strong>Source:</strong> ${escapeHtml(source)}</p>
+      <p style="margin: 0 0 14px 0;"><strong>Change:</strong> ${escapeHtml(safeSummary)}</p>
+      <p style="margin: 0 0 8px 0;">
+        <a href="${auditUrl}" style="color: #2563eb; text-decoration: none;">Open audit log</a>
+      </p>
+      <p style="margin: 0;">
+        <a href="${eventUrl}" style="color: #2563eb; text-decoration: none;">View public event</a>
+      </p>
+    </div>
+  `;
+
+  const text = [
+    "Suspicious Event Edit",
+    `Score: ${score} / 100`,
+    `Signals:\n${signalLines}`,
+    `Event: ${safeTitle}`,
+    `Event ID: ${eventId}`,
+    `Actor: ${actorUserId ?? "(none)"} (${actorRole})`,
+    `Source: ${source}`,
+    `Change: ${safeSummary}`,
+    `Audit log: ${auditUrl}`,
+    `Public event: ${eventUrl}`,
+  ].join("\n\n");
+
+  const payloadBase: Omit<EmailPayload, "to"> = {
+    subject,
+    html,
+    text,
+    templateName: "adminEventAuditAlert",
+  };
+
+  try {
+    const serviceRole = getServiceRoleClient();
+    const recipients = await resolveAdminRecipients(serviceRole);
+
+    await Promise.allSettled(
+      recipients.map((recipient) =>
+        sendAdminEmailWithPreferences(
+          serviceRole,
+          recipient.userId,
+          "adminEventAuditAlert",
+          { ...payloadBase, to: recipient.email }
+        )
+      )
+    );
+  } catch (error) {
+    console.error("[adminEventAlerts] Audit alert preference-aware send failed, using fallback:", error);
+    await queueEmail({ ...payloadBase, to: ADMIN_EMAIL });
   }
 }
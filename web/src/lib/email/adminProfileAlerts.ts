@@ -1,4 +1,5 @@
-import { ADMIN_EMAIL, sendEmail } from "@/lib/email";
+import { ADMIN_EMAIL } from "@/lib/email";
+import { queueEmail } from "@/lib/email/outbox";
 import { SITE_URL } from "@/lib/email/render";
 
 type AdminProfileAlertType = "signup" | "profile_update";
@@ -87,7 +88,7 @@ export async function sendAdminProfileAlert(
     .filter(Boolean)
     .join("\n\n");
 
-  await sendEmail({
+  await queueEmail({
     to: ADMIN_EMAIL,
     subject,
     html,
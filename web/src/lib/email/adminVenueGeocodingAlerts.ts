@@ -1,4 +1,5 @@
-import { ADMIN_EMAIL, sendEmail } from "@/lib/email";
+import { ADMIN_EMAIL } from "@/lib/email";
+import { queueEmail } from "@/lib/email/outbox";
 import { SITE_URL } from "@/lib/email/render";
 import type { GeocodingStatus } from "@/lib/venue/geocoding";
 
@@ -95,7 +96,7 @@ export async function sendAdminVenueGeocodingFailureAlert(
     .filter(Boolean)
     .join("\n\n");
 
-  await sendEmail({
+  await queueEmail({
     to: ADMIN_EMAIL,
     subject,
     html,
@@ -0,0 +1,146 @@
+/**
+ * Bounce / Complaint Report Parser
+ *
+ * Extracts affected recipients from raw inbound reports:
+ * - RFC 3464 delivery status notifications (multipart/report;
+ *   report-type=delivery-status): one per-recipient field group each with
+ *   Final-Recipient / Action / Status / Diagnostic-Code
+ * - RFC 5965 ARF complaints (report-type=feedback-report): Feedback-Type plus
+ *   Original-Rcpt-To, falling back to the To header of the returned message
+ *
+ * No MIME decoding: report parts are 7-bit text in practice, so the message
+ * is split into header-style field groups on blank lines. Pure — see
+ * ./suppression.ts for persistence.
+ */
+
+export type DeliveryEventKind = "hard_bounce" | "soft_bounce" | "complaint";
+
+export interface ParsedDeliveryEvent {
+  email: string;
+  kind: DeliveryEventKind;
+  /** Enhanced status code, e.g. "5.1.1" */
+  statusCode: string | null;
+  diagnostic: string | null;
+}
+
+const MAX_DIAGNOSTIC_LENGTH = 500;
+
+/** Permanent failures that are really quota problems and may clear up */
+const SOFT_PERMANENT_STATUSES: ReadonlySet<string> = new Set(["5.2.2", "5.2.3"]);
+
+const EMAIL_PATTERN = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+
+type FieldGroup = Map<string, string>;
+
+/**
+ * Split a raw message into field groups (runs of header-style lines between
+ * blank lines), with folded lines unfolded. First occurrence of a field wins.
+ */
+function parseFieldGroups(raw: string): FieldGroup[] {
+  const unfolded = raw.replace(/\r\n/g, "\n").replace(/\n[ \t]+/g, " ");
+  return unfolded.split(/\n[ \t]*\n/).map((block) => {
+    const fields: FieldGroup = new Map();
+    for (const line of block.split("\n")) {
+      const match = line.match(/^([A-Za-z][A-Za-z0-9-]*):\s*(.*)$/);
+      if (!match) continue;
+      const name = match[1].toLowerCase();
+      if (!fields.has(name)) fields.set(name, match[2].trim());
+    }
+    return fields;
+  });
+}
+
+/**
+ * Pull an address out of "rfc822; user@example.com", "<user@example.com>"
+ * or "Name <user@example.com>"
+ */
+export function extractAddress(value: string | undefined): string | null {
+  if (!value) return null;
+  const withoutType = value.replace(/^[A-Za-z0-9-]+;\s*/, "");
+  const angled = withoutType.match(/<([^>]+)>/);
+  const candidate = (angled ? angled[1] : withoutType.split(/[\s,]/)[0]).trim().toLowerCase();
+  return EMAIL_PATTERN.test(candidate) ? candidate : null;
+}
+
+function extractStatusCode(value: string | undefined): string | null {
+  const match = value?.match(/\b([245]\.\d{1,3}\.\d{1,3})\b/);
+  return match ? match[1] : null;
+}
+
+function cleanDiagnostic(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value.replace(/^[A-Za-z0-9-]+;\s*/, "").trim();
+  return text ? text.slice(0, MAX_DIAGNOSTIC_LENGTH) : null;
+}
+
+/**
+ * Classify one DSN recipient. Returns null for successful or informational
+ * actions (delivered, relayed, expanded).
+ */
+export function classifyDeliveryStatus(
+  action: string | null,
+  statusCode: string | null
+): DeliveryEventKind | null {
+  const normalizedAction = action?.toLowerCase().trim() || null;
+  if (normalizedAction && normalizedAction !== "failed" && normalizedAction !== "delayed") {
+    return null;
+  }
+  if (normalizedAction === "delayed") return "soft_bounce";
+  if (statusCode?.startsWith("5.")) {
+    return SOFT_PERMANENT_STATUSES.has(statusCode) ? "soft_bounce" : "hard_bounce";
+  }
+  if (statusCode?.startsWith("4.")) return "soft_bounce";
+  return normalizedAction === "failed" ? "hard_bounce" : null;
+}
+
+/**
+ * Parse a raw bounce or complaint report into per-recipient events.
+ * Returns an empty array for anything that isn't a recognizable report.
+ */
+export function parseDeliveryReport(raw: string): ParsedDeliveryEvent[] {
+  const groups = parseFieldGroups(raw);
+  const events: ParsedDeliveryEvent[] = [];
+  const seen = new Set<string>();
+
+  const push = (event: ParsedDeliveryEvent) => {
+    const key = `${event.email}:${event.kind}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    events.push(event);
+  };
+
+  groups.forEach((fields, index) => {
+    // DSN per-recipient group
+    if (fields.has("final-recipient") || fields.has("original-recipient")) {
+      const email =
+        extractAddress(fields.get("final-recipient")) ?? extractAddress(fields.get("original-recipient"));
+      if (!email) return;
+
+      const diagnostic = cleanDiagnostic(fields.get("diagnostic-code"));
+      const statusCode = extractStatusCode(fields.get("status")) ?? extractStatusCode(diagnostic ?? undefined);
+      const kind = classifyDeliveryStatus(fields.get("action") ?? null, statusCode);
+      if (!kind) return;
+
+      push({ email, kind, statusCode, diagnostic });
+      return;
+    }
+
+    // ARF feedback report group
+    const feedbackType = fields.get("feedback-type")?.toLowerCase();
+    if (feedbackType && feedbackType !== "not-spam") {
+      let email = extractAddress(fields.get("original-rcpt-to"));
+      if (!email) {
+        // The returned message's headers follow the report part
+        for (const later of groups.slice(index + 1)) {
+          email = extractAddress(later.get("to"));
+          if (email) break;
+        }
+      }
+      if (!email) return;
+
+      push({ email, kind: "complaint", statusCode: null, diagnostic: `Feedback-Type: ${feedbackType}` });
+    }
+  });
+
+  return events;
+}
@@ -399,7 +399,9 @@ describe("Email Registry", () => {
     expect(keys).toContain("collaboratorAdded");
     expect(keys).toContain("collaboratorInvited");
     expect(keys).toContain("attendeeInvitation");
-    expect(keys.length).toBe(27);
+    expect(keys).toContain("hostEventBriefing");
+    expect(keys).toContain("reverificationRequest");
+    expect(keys.length).toBe(29);
   });
 
   it("getTemplate returns valid output for all templates", () => {
@@ -38,6 +38,7 @@ export {
   getTemplate,
   getAllTemplateKeys,
   getTemplateMetadata,
+  isEmailTemplateKey,
   TEMPLATE_REGISTRY,
   type EmailTemplateKey,
   type EmailTemplateParams,
@@ -155,6 +156,20 @@ export {
   type OccurrenceModifiedHostEmailParams,
 } from "./templates/occurrenceModifiedHost";
 
+// Reminder scheduler host briefing (see eventRemindersServer.ts)
+export {
+  getHostEventBriefingEmail,
+  type HostEventBriefingEmailParams,
+  type HostBriefingLineupEntry,
+  type HostBriefingWaitlistEntry,
+} from "./templates/hostEventBriefing";
+
+// Stale-listing reverification (see lib/reverification/server.ts)
+export {
+  getReverificationRequestEmail,
+  type ReverificationRequestEmailParams,
+} from "./templates/reverificationRequest";
+
 // Comment notification template
 export {
   getEventCommentNotificationEmail,
@@ -3,17 +3,24 @@
  *
  * SMTP transport using Fastmail with secure configuration.
  * Minimal logging (no email bodies, tokens, or credentials).
+ * Suppressed addresses (bounces/complaints, see ./suppression.ts) are
+ * dropped before sending. Queued delivery with retries lives in ./outbox.ts.
  */
 
 import nodemailer from "nodemailer";
 import { DEFAULT_EMAIL_HEADER_IMAGE } from "./render";
 import { getServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { getSiteUrl } from "@/lib/siteUrl";
+import { getSuppressedEmails, normalizeEmailAddress } from "./suppression";
 
 // Rate limiting cache: email+template -> last sent timestamp
 const rateLimitCache = new Map<string, number>();
 const RATE_LIMIT_MS = 60 * 1000; // 1 minute per email per template
 
+// SMTP connect/greeting/idle-socket timeouts: nodemailer's defaults run to
+// minutes, longer than an outbox drain's safety margin (see ./outbox.ts)
+const SMTP_TIMEOUT_MS = 10 * 1000;
+
 // Cached email header image URL from site settings (5-minute TTL)
 let _cachedHeaderImageUrl: string | null = null;
 let _cachedHeaderImageAt = 0;
@@ -85,6 +92,9 @@ function getTransporter() {
     port,
     secure: port === 465,
     auth: { user, pass },
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
   });
 }
 
@@ -95,13 +105,49 @@ export interface EmailPayload {
   text: string;
   templateName?: string;
   replyTo?: string;
+  /**
+   * One-click unsubscribe URL (accepts RFC 8058 POSTs). Adds
+   * List-Unsubscribe and List-Unsubscribe-Post headers.
+   */
+  listUnsubscribeUrl?: string | null;
+  /**
+   * Security mail the recipient is waiting on (verification codes). Goes
+   * out to soft-bounce suppressions; hard bounces and complaints still block.
+   */
+  essential?: boolean;
+}
+
+/**
+ * RFC 2369 / RFC 8058 one-click unsubscribe headers
+ */
+export function buildListUnsubscribeHeaders(
+  url: string | null | undefined
+): Record<string, string> | undefined {
+  if (!url) return undefined;
+  return {
+    "List-Unsubscribe": `<${url}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
 }
 
 // Admin email for receiving contact form submissions
 export const ADMIN_EMAIL = "sami@coloradosongwriterscollective.org";
 
+export type DeliveryStatus =
+  | "sent"
+  | "suppressed"
+  | "rate_limited"
+  | "not_configured"
+  | "failed";
+
+export interface DeliveryResult {
+  status: DeliveryStatus;
+  /** Transport error message (never includes the body or credentials) */
+  error?: string;
+}
+
 /**
- * Send an email via SMTP
+ * Send an email via SMTP, reporting why it wasn't sent
  *
  * Logging rules:
  * - Template name: logged
@@ -110,8 +156,8 @@ export const ADMIN_EMAIL = "sami@coloradosongwriterscollective.org";
  * - Tokens: NEVER logged
  * - Credentials: NEVER logged
  */
-export async function sendEmail(payload: EmailPayload): Promise<boolean> {
-  const { to, subject, html, text, templateName, replyTo } = payload;
+export async function deliverEmail(payload: EmailPayload): Promise<DeliveryResult> {
+  const { to, subject, html, text, templateName, replyTo, listUnsubscribeUrl, essential } = payload;
 
   // Normalize to to a string for logging
   const toStr = Array.isArray(to) ? to[0] : to;
@@ -124,7 +170,7 @@ export async function sendEmail(payload: EmailPayload): Promise<boolean> {
     const lastSent = rateLimitCache.get(rateLimitKey);
     if (lastSent && Date.now() - lastSent < RATE_LIMIT_MS) {
       console.log(`[Email] Rate limited: ${logName} to @${recipientDomain}`);
-      return false;
+      return { status: "rate_limited" };
     }
   }
 
@@ -139,7 +185,7 @@ export async function sendEmail(payload: EmailPayload): Promise<boolean> {
   const transporter = getTransporter();
   if (!transporter) {
     console.log(`[Email] SMTP not configured, skipping: ${logName}`);
-    return false;
+    return { status: "not_configured" };
   }
 
   const fromEmail = process.env.SMTP_FROM_EMAIL;
@@ -147,18 +193,29 @@ export async function sendEmail(payload: EmailPayload): Promise<boolean> {
 
   if (!fromEmail) {
     console.log(`[Email] SMTP_FROM_EMAIL not set, skipping: ${logName}`);
-    return false;
+    return { status: "not_configured" };
+  }
+
+  // Drop suppressed recipients (hard bounces, complaints; soft bounces
+  // unless the mail is essential)
+  const recipients = Array.isArray(to) ? to : [to];
+  const suppressed = await getSuppressedEmails(recipients, { essential });
+  const deliverable = recipients.filter((address) => !suppressed.has(normalizeEmailAddress(address)));
+  if (deliverable.length === 0) {
+    console.log(`[Email] Suppressed, skipping: ${logName} to @${recipientDomain}`);
+    return { status: "suppressed" };
   }
 
   try {
     console.log(`[Email] SMTP attempting: ${logName} to @${recipientDomain}`);
     await transporter.sendMail({
       from: `${fromName} <${fromEmail}>`,
-      to,
+      to: Array.isArray(to) ? deliverable : deliverable[0],
       subject,
       html: finalHtml,
       text,
       replyTo,
+      headers: buildListUnsubscribeHeaders(listUnsubscribeUrl),
     });
 
     // Update rate limit cache (only for templated emails)
@@ -168,15 +225,24 @@ export async function sendEmail(payload: EmailPayload): Promise<boolean> {
     }
 
     console.log(`[Email] Sent: ${logName} to @${recipientDomain}`);
-    return true;
+    return { status: "sent" };
   } catch (error) {
     // Log error without sensitive details
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     console.error(`[Email] Failed: ${logName} to @${recipientDomain} - ${errorMessage}`);
-    return false;
+    return { status: "failed", error: errorMessage };
   }
 }
 
+/**
+ * Send an email via SMTP. Returns true only if it was handed to the server.
+ * Bulk senders should enqueue through ./outbox.ts instead.
+ */
+export async function sendEmail(payload: EmailPayload): Promise<boolean> {
+  const result = await deliverEmail(payload);
+  return result.status === "sent";
+}
+
 /**
  * Check if SMTP is configured
  */
@@ -0,0 +1,260 @@
+/**
+ * Email Outbox
+ *
+ * Persistent queue for bulk mail. Senders enqueue one row per message in
+ * email_outbox; drainOutbox() claims due rows (claim_email_outbox, SKIP
+ * LOCKED) a few at a time, delivers them through the mailer and records the
+ * outcome. Failed sends retry with exponential backoff until MAX_ATTEMPTS,
+ * and anything left when the time budget runs out waits for the next
+ * /api/cron/email-outbox tick instead of being dropped. The budget is
+ * counted from the start of the calling invocation (getDrainBudgetMs), so
+ * work done before the drain never pushes it past maxDuration.
+ *
+ * Digests and the admin alert senders in this folder queue here. Mail the
+ * caller acts on right away (verification codes, RSVP and claim
+ * confirmations, sendEmailWithPreferences) still goes out inline.
+ *
+ * Server-side only (service role; the table has no RLS policies).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/database.types";
+import { getServiceRoleClient } from "../supabase/serviceRoleClient";
+import { deliverEmail, sendEmail, type DeliveryResult, type EmailPayload } from "./mailer";
+
+type ServiceClient = SupabaseClient<Database>;
+
+export type OutboxRow = Database["public"]["Tables"]["email_outbox"]["Row"];
+
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "suppressed";
+
+export const OUTBOX_STATUSES: readonly OutboxStatus[] = [
+  "queued",
+  "sending",
+  "sent",
+  "failed",
+  "suppressed",
+];
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  queued: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+  suppressed: "Suppressed",
+};
+
+export const OUTBOX_CONFIG = {
+  /** Messages delivered in parallel (and claimed per round) */
+  CONCURRENCY: 5,
+  /** Attempts before a message is marked failed */
+  MAX_ATTEMPTS: 6,
+  /** Delay before the first retry; doubles on each attempt */
+  BASE_RETRY_MS: 2 * 60 * 1000,
+  MAX_RETRY_MS: 4 * 60 * 60 * 1000,
+  /** Crons and the admin digest send route run with maxDuration = 60 */
+  INVOCATION_LIMIT_MS: 60 * 1000,
+  /**
+   * Stop claiming this long before the limit. Covers the round still in
+   * flight (bounded by the mailer's SMTP timeouts) and the response; a run
+   * killed mid-round leaves rows 'sending' that are re-sent after the lock
+   * timeout.
+   */
+  DRAIN_SAFETY_MARGIN_MS: 15 * 1000,
+  INSERT_CHUNK_SIZE: 500,
+  MAX_ERROR_LENGTH: 500,
+} as const;
+
+/** A single-recipient message to enqueue */
+export type OutboxMessage = Omit<EmailPayload, "to"> & { to: string };
+
+export interface EnqueueOptions {
+  /** Groups one send run so it can be drained on its own, e.g. weekly_happenings:2026-W20 */
+  batchKey?: string | null;
+}
+
+export interface DrainOptions {
+  /** Only claim rows from this batch */
+  batchKey?: string | null;
+  /** Defaults to the whole invocation budget, counted from the drain's start */
+  budgetMs?: number;
+  concurrency?: number;
+}
+
+export interface DrainResult {
+  claimed: number;
+  sent: number;
+  suppressed: number;
+  /** Rescheduled with backoff */
+  retrying: number;
+  /** Out of attempts */
+  failed: number;
+  /** Stopped because the time budget ran out, not because the queue was empty */
+  timedOut: boolean;
+}
+
+export function isOutboxStatus(value: unknown): value is OutboxStatus {
+  return typeof value === "string" && (OUTBOX_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Time left to drain in an invocation that started at `invocationStartedAt`
+ * (Date.now() at the top of the request handler).
+ */
+export function getDrainBudgetMs(invocationStartedAt: number, now: number = Date.now()): number {
+  const elapsed = now - invocationStartedAt;
+  return Math.max(0, OUTBOX_CONFIG.INVOCATION_LIMIT_MS - OUTBOX_CONFIG.DRAIN_SAFETY_MARGIN_MS - elapsed);
+}
+
+/**
+ * Backoff before the next attempt, given how many attempts have been made
+ * (1 after the first failure): 2m, 4m, 8m, ... capped at 4h.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(OUTBOX_CONFIG.BASE_RETRY_MS * 2 ** exponent, OUTBOX_CONFIG.MAX_RETRY_MS);
+}
+
+/**
+ * Row update for a delivery result. Everything other than sent/suppressed
+ * (SMTP errors, missing config, the per-template rate limit) is retried.
+ */
+export function resolveDeliveryOutcome(
+  result: DeliveryResult,
+  attempts: number,
+  now: Date
+): Database["public"]["Tables"]["email_outbox"]["Update"] {
+  const base = { locked_at: null, updated_at: now.toISOString() };
+
+  if (result.status === "sent") {
+    return { ...base, status: "sent", sent_at: now.toISOString(), last_error: null };
+  }
+  if (result.status === "suppressed") {
+    return { ...base, status: "suppressed", last_error: "Recipient is on the suppression list" };
+  }
+
+  const lastError = (result.error ?? result.status).slice(0, OUTBOX_CONFIG.MAX_ERROR_LENGTH);
+  if (attempts >= OUTBOX_CONFIG.MAX_ATTEMPTS) {
+    return { ...base, status: "failed", last_error: lastError };
+  }
+  return {
+    ...base,
+    status: "queued",
+    last_error: lastError,
+    next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+  };
+}
+
+/**
+ * Add messages to the outbox. Returns the number enqueued.
+ */
+export async function enqueueEmails(
+  client: ServiceClient,
+  messages: OutboxMessage[],
+  options: EnqueueOptions = {}
+): Promise<number> {
+  const rows = messages.map((message) => ({
+    to_email: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    template_name: message.templateName ?? null,
+    reply_to: message.replyTo ?? null,
+    list_unsubscribe_url: message.listUnsubscribeUrl ?? null,
+    batch_key: options.batchKey ?? null,
+  }));
+
+  for (let i = 0; i < rows.length; i += OUTBOX_CONFIG.INSERT_CHUNK_SIZE) {
+    const { error } = await client
+      .from("email_outbox")
+      .insert(rows.slice(i, i + OUTBOX_CONFIG.INSERT_CHUNK_SIZE));
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
+
+/**
+ * Queue one message for the outbox cron. Falls back to sending inline when
+ * the queue can't be written, so the message isn't lost with it. Returns
+ * whether the message was queued or sent.
+ */
+export async function queueEmail(message: OutboxMessage, options: EnqueueOptions = {}): Promise<boolean> {
+  try {
+    await enqueueEmails(getServiceRoleClient(), [message], options);
+    return true;
+  } catch (error) {
+    const reason = (error as { message?: string } | null)?.message ?? "Unknown error";
+    console.error(`[EmailOutbox] Enqueue failed, sending inline: ${reason}`);
+    return sendEmail(message);
+  }
+}
+
+async function deliverRow(client: ServiceClient, row: OutboxRow): Promise<OutboxStatus> {
+  const result = await deliverEmail({
+    to: row.to_email,
+    subject: row.subject,
+    html: row.html,
+    text: row.text,
+    templateName: row.template_name ?? undefined,
+    replyTo: row.reply_to ?? undefined,
+    listUnsubscribeUrl: row.list_unsubscribe_url,
+  });
+
+  const update = resolveDeliveryOutcome(result, row.attempts, new Date());
+  const { error } = await client.from("email_outbox").update(update).eq("id", row.id);
+  if (error) {
+    // The row stays 'sending' and is reclaimed after the lock timeout
+    console.error(`[EmailOutbox] Failed to record outcome for ${row.id}: ${error.message}`);
+  }
+  return update.status as OutboxStatus;
+}
+
+/**
+ * Deliver due messages until the queue is empty or the time budget is
+ * spent. At most `concurrency` messages are in flight at once.
+ */
+export async function drainOutbox(
+  client: ServiceClient,
+  options: DrainOptions = {}
+): Promise<DrainResult> {
+  const startedAt = Date.now();
+  const budgetMs = options.budgetMs ?? getDrainBudgetMs(startedAt);
+  const concurrency = options.concurrency ?? OUTBOX_CONFIG.CONCURRENCY;
+
+  const result: DrainResult = {
+    claimed: 0,
+    sent: 0,
+    suppressed: 0,
+    retrying: 0,
+    failed: 0,
+    timedOut: false,
+  };
+
+  while (true) {
+    if (Date.now() - startedAt >= budgetMs) {
+      result.timedOut = true;
+      break;
+    }
+
+    const { data, error } = await client.rpc("claim_email_outbox", {
+      p_limit: concurrency,
+      ...(options.batchKey ? { p_batch_key: options.batchKey } : {}),
+    });
+    if (error) throw error;
+
+    const rows = data ?? [];
+    if (rows.length === 0) break;
+    result.claimed += rows.length;
+
+    const outcomes = await Promise.all(rows.map((row) => deliverRow(client, row)));
+    for (const status of outcomes) {
+      if (status === "sent") result.sent++;
+      else if (status === "suppressed") result.suppressed++;
+      else if (status === "failed") result.failed++;
+      else result.retrying++;
+    }
+  }
+
+  return result;
+}
@@ -113,6 +113,14 @@ import {
   getAttendeeInvitationEmail,
   type AttendeeInvitationEmailParams,
 } from "./templates/attendeeInvitation";
+import {
+  getHostEventBriefingEmail,
+  type HostEventBriefingEmailParams,
+} from "./templates/hostEventBriefing";
+import {
+  getReverificationRequestEmail,
+  type ReverificationRequestEmailParams,
+} from "./templates/reverificationRequest";
 
 /**
  * All available email template keys
@@ -144,7 +152,9 @@ export type EmailTemplateKey =
   | "weeklyHappeningsDigest"
   | "collaboratorAdded"
   | "collaboratorInvited"
-  | "attendeeInvitation";
+  | "attendeeInvitation"
+  | "hostEventBriefing"
+  | "reverificationRequest";
 
 /**
  * Map of template keys to their parameter types
@@ -177,6 +187,8 @@ export interface EmailTemplateParams {
   collaboratorAdded: CollaboratorAddedEmailParams;
   collaboratorInvited: CollaboratorInvitedEmailParams;
   attendeeInvitation: AttendeeInvitationEmailParams;
+  hostEventBriefing: HostEventBriefingEmailParams;
+  reverificationRequest: ReverificationRequestEmailParams;
 }
 
 /**
@@ -420,6 +432,22 @@ export const TEMPLATE_REGISTRY: Record<EmailTemplateKey, TemplateMetadata> = {
     hasLinks: true,
     requiresEventTitle: true,
   },
+  hostEventBriefing: {
+    key: "hostEventBriefing",
+    name: "Host Event Briefing",
+    description: "Day-of briefing for hosts: lineup, waitlist, RSVPs and guest contact status",
+    audience: "member",
+    hasLinks: true,
+    requiresEventTitle: true,
+  },
+  reverificationRequest: {
+    key: "reverificationRequest",
+    name: "Reverification Request",
+    description: "Asks a host or venue manager whether a stale listing is still happening, changed or ended",
+    audience: "member",
+    hasLinks: true,
+    requiresEventTitle: true,
+  },
 };
 
 /**
@@ -492,6 +520,10 @@ export function getTemplate<K extends EmailTemplateKey>(
       return getCollaboratorInvitedEmail(params as CollaboratorInvitedEmailParams);
     case "attendeeInvitation":
       return getAttendeeInvitationEmail(params as AttendeeInvitationEmailParams);
+    case "hostEventBriefing":
+      return getHostEventBriefingEmail(params as HostEventBriefingEmailParams);
+    case "reverificationRequest":
+      return getReverificationRequestEmail(params as ReverificationRequestEmailParams);
     default: {
       // Exhaustive check - this should never happen
       const _exhaustive: never = key;
@@ -507,6 +539,10 @@ export function getAllTemplateKeys(): EmailTemplateKey[] {
   return Object.keys(TEMPLATE_REGISTRY) as EmailTemplateKey[];
 }
 
+export function isEmailTemplateKey(value: unknown): value is EmailTemplateKey {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(TEMPLATE_REGISTRY, value);
+}
+
 /**
  * Get template metadata
  */
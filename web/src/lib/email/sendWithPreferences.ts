@@ -3,7 +3,10 @@
  *
  * Wraps the base sendEmail function to respect user email preferences.
  * Always creates dashboard notification first (canonical), then sends email
- * only if the user's preferences allow it.
+ * only if the address isn't suppressed and the user's preferences allow it.
+ * A suppressed address reports skipReason "suppressed".
+ * Non-essential mail carries a one-click List-Unsubscribe header for its
+ * preference category.
  *
  * All decisions are audit-logged via appLogger for admin observability.
  */
@@ -11,8 +14,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../supabase/database.types";
 import { sendEmail, type EmailPayload } from "./mailer";
+import { queueEmail } from "./outbox";
 import { shouldSendEmail, getEmailCategory, isEssentialEmail } from "../notifications/preferences";
 import { appLogger } from "../appLogger";
+import { buildCategoryUnsubscribeUrl } from "../digest/unsubscribeToken";
+import { getSuppressedEmails } from "./suppression";
 
 /** Extract recipient domain for logging (no full address) */
 function recipientDomain(to: string | string[] | undefined): string | undefined {
@@ -69,7 +75,7 @@ export interface SendWithPreferencesResult {
   /**
    * If email was skipped, the reason why
    */
-  skipReason?: "preference_disabled" | "no_category" | "send_failed" | "missing_recipient";
+  skipReason?: "preference_disabled" | "no_category" | "send_failed" | "missing_recipient" | "suppressed";
 }
 
 /**
@@ -151,9 +157,24 @@ export async function sendEmailWithPreferences(
     }
   }
 
+  // Step 1b: Suppressed addresses get nothing; essential mail still goes
+  // to soft-bounce suppressions
+  const essential = isEssentialEmail(templateKey);
+  const suppressed = await getSuppressedEmails([toValue], { essential });
+  if (suppressed.size > 0) {
+    result.skipReason = "suppressed";
+
+    appLogger.info("email_audit: skipped — address suppressed", {
+      ...auditCtx,
+      skipReason: "suppressed",
+    }, { source: "email_prefs_audit", userId });
+
+    return result;
+  }
+
   // Step 2a: Essential emails bypass all preference checks
-  if (isEssentialEmail(templateKey)) {
-    const sent = await sendEmail(payload);
+  if (essential) {
+    const sent = await sendEmail({ ...payload, essential: true });
     result.emailSent = sent;
     if (!sent) {
       result.skipReason = "send_failed";
@@ -198,8 +219,11 @@ export async function sendEmailWithPreferences(
     return result;
   }
 
-  // Step 4: Send email
-  const sent = await sendEmail(payload);
+  // Step 4: Send email with a one-click unsubscribe for this category
+  const sent = await sendEmail({
+    ...payload,
+    listUnsubscribeUrl: payload.listUnsubscribeUrl ?? buildCategoryUnsubscribeUrl(userId, category),
+  });
   result.emailSent = sent;
   if (!sent) {
     result.skipReason = "send_failed";
@@ -224,7 +248,8 @@ export async function sendEmailWithPreferences(
  *
  * Admin notifications go to the admin email address directly,
  * not to a user. They still respect the admin's own preferences
- * if they have a user account.
+ * if they have a user account, and are queued in the email outbox
+ * rather than sent inline.
  */
 export async function sendAdminEmailWithPreferences(
   supabase: SupabaseClient<Database>,
@@ -249,6 +274,8 @@ export async function sendAdminEmailWithPreferences(
     }
   }
 
-  // Send the email
-  return sendEmail(payload);
+  // Nobody waits on admin mail: queue it for the outbox cron
+  const recipients = Array.isArray(payload.to) ? payload.to : [payload.to];
+  const queued = await Promise.all(recipients.map((to) => queueEmail({ ...payload, to })));
+  return queued.every(Boolean);
 }
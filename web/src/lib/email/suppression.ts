@@ -0,0 +1,158 @@
+/**
+ * Email Suppression List
+ *
+ * Addresses we must not send to: hard bounces and complaints are suppressed
+ * on the first report, soft bounces once they repeat within the window, and
+ * admins can suppress manually. Every report is also kept in
+ * email_delivery_events for the Ops Console.
+ *
+ * Essential mail (guest verification codes) still goes to soft-bounce
+ * suppressions: a full or flaky mailbox may take it, and without it the
+ * recipient can't finish what they started.
+ *
+ * Server-side only (service role; both tables have no RLS policies).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/database.types";
+import { getServiceRoleClient } from "../supabase/serviceRoleClient";
+import type { DeliveryEventKind, ParsedDeliveryEvent } from "./bounces";
+
+type ServiceClient = SupabaseClient<Database>;
+
+export type SuppressionReason = "hard_bounce" | "soft_bounce" | "complaint" | "manual";
+
+export const SUPPRESSION_CONFIG = {
+  /** Soft bounces within the window before an address is suppressed */
+  SOFT_BOUNCE_LIMIT: 3,
+  SOFT_BOUNCE_WINDOW_DAYS: 30,
+} as const;
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  hard_bounce: "Hard bounce",
+  soft_bounce: "Repeated soft bounces",
+  complaint: "Spam complaint",
+  manual: "Suppressed by admin",
+};
+
+export interface RecordDeliveryEventsResult {
+  recorded: number;
+  suppressed: number;
+}
+
+export function normalizeEmailAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether a suppression with this reason blocks mail of this kind
+ */
+export function isSuppressionBlocking(reason: string, options: { essential?: boolean } = {}): boolean {
+  return !(options.essential && reason === "soft_bounce");
+}
+
+/**
+ * Which of these addresses are suppressed. Pass `essential` for mail that
+ * bypasses preferences, so soft-bounce suppressions don't block it.
+ *
+ * Fails open: if the lookup errors, nothing is treated as suppressed so a
+ * database hiccup can't silently stop all mail.
+ */
+export async function getSuppressedEmails(
+  addresses: string[],
+  options: { essential?: boolean } = {}
+): Promise<Set<string>> {
+  const normalized = Array.from(new Set(addresses.map(normalizeEmailAddress).filter(Boolean)));
+  if (normalized.length === 0) return new Set();
+
+  try {
+    const { data, error } = await getServiceRoleClient()
+      .from("email_suppressions")
+      .select("email, reason")
+      .in("email", normalized);
+    if (error) throw error;
+    return new Set(
+      (data ?? []).filter((row) => isSuppressionBlocking(row.reason, options)).map((row) => row.email)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[EmailSuppression] Lookup failed, sending anyway: ${message}`);
+    return new Set();
+  }
+}
+
+async function suppress(
+  client: ServiceClient,
+  event: Pick<ParsedDeliveryEvent, "email" | "statusCode" | "diagnostic">,
+  reason: SuppressionReason,
+  now: Date
+): Promise<void> {
+  const { error } = await client.from("email_suppressions").upsert(
+    {
+      email: event.email,
+      reason,
+      status_code: event.statusCode,
+      detail: event.diagnostic,
+      last_event_at: now.toISOString(),
+    },
+    { onConflict: "email" }
+  );
+  if (error) throw error;
+}
+
+/**
+ * Whether an event of this kind suppresses the address, given how many soft
+ * bounces (including this one) the address has had within the window.
+ */
+export function shouldSuppress(kind: DeliveryEventKind, recentSoftBounces: number): boolean {
+  if (kind === "soft_bounce") return recentSoftBounces >= SUPPRESSION_CONFIG.SOFT_BOUNCE_LIMIT;
+  return true;
+}
+
+/**
+ * Log parsed bounce/complaint events and suppress addresses that crossed
+ * the line.
+ */
+export async function recordDeliveryEvents(
+  client: ServiceClient,
+  events: ParsedDeliveryEvent[],
+  now: Date = new Date()
+): Promise<RecordDeliveryEventsResult> {
+  if (events.length === 0) return { recorded: 0, suppressed: 0 };
+
+  const { error: insertError } = await client.from("email_delivery_events").insert(
+    events.map((event) => ({
+      email: event.email,
+      kind: event.kind,
+      status_code: event.statusCode,
+      diagnostic: event.diagnostic,
+      received_at: now.toISOString(),
+    }))
+  );
+  if (insertError) throw insertError;
+
+  const windowStart = new Date(
+    now.getTime() - SUPPRESSION_CONFIG.SOFT_BOUNCE_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  let suppressed = 0;
+  for (const event of events) {
+    let recentSoftBounces = 0;
+    if (event.kind === "soft_bounce") {
+      const { count, error } = await client
+        .from("email_delivery_events")
+        .select("id", { count: "exact", head: true })
+        .eq("email", event.email)
+        .eq("kind", "soft_bounce")
+        .gte("received_at", windowStart.toISOString());
+      if (error) throw error;
+      recentSoftBounces = count ?? 0;
+    }
+
+    if (!shouldSuppress(event.kind, recentSoftBounces)) continue;
+    await suppress(client, event, event.kind, now);
+    suppressed++;
+  }
+
+  return { recorded: events.length, suppressed };
+}
@@ -0,0 +1,87 @@
+/**
+ * Email Template Checks
+ *
+ * Static checks on rendered email output for the admin template gallery:
+ * size (Gmail clips messages over ~102KB of HTML and hides the rest behind
+ * "View entire message"), image alt text, and an empty plain-text part.
+ * Pure — operates on the rendered strings only.
+ */
+
+import type { EmailOutput } from "./registry";
+
+export type TemplateCheckSeverity = "error" | "warning";
+
+export interface TemplateCheckIssue {
+  code: "html_oversized" | "html_near_limit" | "img_missing_alt" | "img_empty_alt" | "text_empty";
+  severity: TemplateCheckSeverity;
+  message: string;
+}
+
+export const TEMPLATE_CHECK_LIMITS = {
+  /** Gmail clips HTML bodies larger than this */
+  GMAIL_CLIP_BYTES: 102 * 1024,
+  /** Warn once a template passes this share of the clip limit */
+  NEAR_LIMIT_RATIO: 0.8,
+} as const;
+
+export function getHtmlByteSize(html: string): number {
+  return new TextEncoder().encode(html).length;
+}
+
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function describeImage(tag: string): string {
+  const src = tag.match(/\bsrc\s*=\s*["']([^"']*)["']/i)?.[1];
+  if (!src) return "an image";
+  const file = src.split("?")[0].split("/").pop();
+  return file ? `image "${file}"` : "an image";
+}
+
+export function checkEmailOutput(output: EmailOutput): TemplateCheckIssue[] {
+  const issues: TemplateCheckIssue[] = [];
+
+  const size = getHtmlByteSize(output.html);
+  const limit = TEMPLATE_CHECK_LIMITS.GMAIL_CLIP_BYTES;
+  if (size > limit) {
+    issues.push({
+      code: "html_oversized",
+      severity: "error",
+      message: `HTML is ${formatKb(size)}; Gmail clips messages over ${formatKb(limit)}.`,
+    });
+  } else if (size > limit * TEMPLATE_CHECK_LIMITS.NEAR_LIMIT_RATIO) {
+    issues.push({
+      code: "html_near_limit",
+      severity: "warning",
+      message: `HTML is ${formatKb(size)}, close to Gmail's ${formatKb(limit)} clipping limit.`,
+    });
+  }
+
+  for (const tag of output.html.match(/<img\b[^>]*>/gi) ?? []) {
+    const alt = tag.match(/\balt\s*=\s*(["'])(.*?)\1/i);
+    if (!alt) {
+      issues.push({
+        code: "img_missing_alt",
+        severity: "error",
+        message: `Missing alt text on ${describeImage(tag)}.`,
+      });
+    } else if (!alt[2].trim()) {
+      issues.push({
+        code: "img_empty_alt",
+        severity: "warning",
+        message: `Empty alt text on ${describeImage(tag)} (fine only if it's decorative).`,
+      });
+    }
+  }
+
+  if (!output.text.trim()) {
+    issues.push({
+      code: "text_empty",
+      severity: "error",
+      message: "Plain-text version is empty.",
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,416 @@
+/**
+ * Email Template Fixtures
+ *
+ * Realistic sample params for every registry template, used by the admin
+ * template gallery (/dashboard/admin/email/templates). Fixtures travel to
+ * the browser as editable JSON, so digest `byDate` Maps are serialized as
+ * plain objects keyed by date and hydrated back before rendering.
+ *
+ * Adding a template to the registry without a fixture is a type error.
+ */
+
+import { getTemplate, type EmailOutput, type EmailTemplateKey, type EmailTemplateParams } from "./registry";
+import { SITE_URL } from "./render";
+import type { HappeningOccurrence } from "../digest/weeklyHappenings";
+import type { OpenMicOccurrence } from "../digest/weeklyOpenMics";
+
+const SAMPLE_EVENT_ID = "00000000-0000-4000-8000-000000000001";
+const SAMPLE_USER_ID = "00000000-0000-4000-8000-000000000002";
+const SAMPLE_ALBUM_ID = "00000000-0000-4000-8000-000000000003";
+
+/** Templates whose params carry a `byDate` Map */
+const BY_DATE_TEMPLATES: ReadonlySet<EmailTemplateKey> = new Set([
+  "weeklyOpenMicsDigest",
+  "weeklyHappeningsDigest",
+]);
+
+const walnutRoom = { id: "venue-walnut", name: "The Walnut Room", city: "Denver", state: "CO" };
+const mercuryCafe = { id: "venue-mercury", name: "Mercury Cafe", city: "Denver", state: "CO" };
+
+const openMicOccurrences: Array<[string, OpenMicOccurrence[]]> = [
+  [
+    "2026-06-01",
+    [
+      {
+        event: {
+          id: "event-walnut-monday",
+          title: "Monday Night Open Mic",
+          slug: "monday-night-open-mic",
+          start_time: "19:00:00",
+          event_date: null,
+          day_of_week: "Monday",
+          recurrence_rule: "weekly",
+          custom_dates: null,
+          max_occurrences: null,
+          is_free: true,
+          cost_label: null,
+          venue: walnutRoom,
+        },
+        dateKey: "2026-06-01",
+        displayDate: "Monday, June 1",
+      },
+    ],
+  ],
+  [
+    "2026-06-03",
+    [
+      {
+        event: {
+          id: "event-mercury-wednesday",
+          title: "Mercury Cafe Songwriter Night",
+          slug: "mercury-cafe-songwriter-night",
+          start_time: "20:00:00",
+          event_date: null,
+          day_of_week: "Wednesday",
+          recurrence_rule: "weekly",
+          custom_dates: null,
+          max_occurrences: null,
+          is_free: false,
+          cost_label: "$5 suggested",
+          venue: mercuryCafe,
+        },
+        dateKey: "2026-06-03",
+        displayDate: "Wednesday, June 3",
+      },
+    ],
+  ],
+];
+
+const happeningOccurrences: Array<[string, HappeningOccurrence[]]> = openMicOccurrences.map(
+  ([dateKey, occurrences]) => [
+    dateKey,
+    occurrences.map((occurrence) => ({
+      ...occurrence,
+      event: { ...occurrence.event, event_type: ["open_mic"], signup_time: "18:30:00" },
+    })),
+  ]
+);
+
+happeningOccurrences.push([
+  "2026-06-06",
+  [
+    {
+      event: {
+        id: "event-showcase",
+        title: "Summer Songwriter Showcase",
+        slug: "summer-songwriter-showcase",
+        event_type: ["showcase"],
+        start_time: "18:00:00",
+        event_date: "2026-06-06",
+        day_of_week: null,
+        recurrence_rule: null,
+        custom_dates: null,
+        max_occurrences: null,
+        is_free: false,
+        cost_label: "$10",
+        venue: walnutRoom,
+      },
+      dateKey: "2026-06-06",
+      displayDate: "Saturday, June 6",
+    },
+  ],
+]);
+
+export const TEMPLATE_FIXTURES: { [K in EmailTemplateKey]: EmailTemplateParams[K] } = {
+  verificationCode: {
+    guestName: "Sam",
+    eventTitle: "Monday Night Open Mic",
+    code: "K7Q2ZP",
+    expiresInMinutes: 15,
+    purpose: "slot",
+    occurrenceDate: "Monday, June 1",
+  },
+  claimConfirmed: {
+    guestName: "Sam",
+    eventTitle: "Monday Night Open Mic",
+    slotNumber: 4,
+    cancelUrl: `${SITE_URL}/guest/action?action=cancel&token=sample`,
+    status: "confirmed",
+  },
+  waitlistOffer: {
+    guestName: "Sam",
+    eventTitle: "Monday Night Open Mic",
+    confirmUrl: `${SITE_URL}/guest/action?action=confirm&token=sample`,
+    cancelUrl: `${SITE_URL}/guest/action?action=cancel&token=sample`,
+    expiresAt: "2026-06-01T23:00:00.000Z",
+  },
+  rsvpConfirmation: {
+    userName: "Alex",
+    eventTitle: "Summer Songwriter Showcase",
+    eventDate: "Saturday, June 6",
+    eventTime: "6:00 PM",
+    venueName: "The Walnut Room",
+    venueAddress: "3131 Walnut St, Denver, CO 80205",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "summer-songwriter-showcase",
+    isWaitlist: false,
+    dateKey: "2026-06-06",
+  },
+  waitlistPromotion: {
+    userName: "Alex",
+    eventTitle: "Summer Songwriter Showcase",
+    eventDate: "Saturday, June 6",
+    eventTime: "6:00 PM",
+    venueName: "The Walnut Room",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "summer-songwriter-showcase",
+    offerExpiresAt: "2026-06-05T18:00:00.000Z",
+    dateKey: "2026-06-06",
+  },
+  hostApproval: {
+    userName: "Jordan",
+  },
+  hostRejection: {
+    userName: "Taylor",
+    reason: "We'd love to see you at a few more community events first — please apply again in a couple of months.",
+  },
+  contactNotification: {
+    senderName: "Riley Parker",
+    senderEmail: "riley@example.com",
+    message: "Hi! Our coffee shop would love to host a monthly songwriter round. Who should I talk to?",
+  },
+  newsletterWelcome: {},
+  eventReminder: {
+    userName: "Casey",
+    eventTitle: "Monday Night Open Mic",
+    eventDate: "Tonight",
+    eventTime: "7:00 PM",
+    venueName: "The Walnut Room",
+    venueAddress: "3131 Walnut St, Denver, CO 80205",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+    dateKey: "2026-06-01",
+    reminderType: "tonight",
+    slotNumber: 3,
+  },
+  eventUpdated: {
+    userName: "Riley",
+    eventTitle: "Summer Songwriter Showcase",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "summer-songwriter-showcase",
+    dateKey: "2026-06-06",
+    changes: {
+      time: { old: "6:00 PM", new: "7:00 PM" },
+      venue: { old: "The Walnut Room", new: "Mercury Cafe" },
+      address: { old: "3131 Walnut St", new: "2199 California St" },
+    },
+    eventDate: "Saturday, June 6",
+    eventTime: "7:00 PM",
+    venueName: "Mercury Cafe",
+    venueAddress: "2199 California St, Denver, CO 80205",
+  },
+  eventCancelled: {
+    userName: "Jamie",
+    eventTitle: "Summer Songwriter Showcase",
+    eventDate: "Saturday, June 6",
+    venueName: "The Walnut Room",
+    reason: "The venue had a plumbing emergency. We're working on a new date.",
+    hostName: "Jordan",
+  },
+  eventRestored: {
+    userName: "Jamie",
+    eventTitle: "Summer Songwriter Showcase",
+    eventDate: "Saturday, June 6",
+    eventTime: "6:00 PM",
+    venueName: "The Walnut Room",
+    eventUrl: `${SITE_URL}/events/summer-songwriter-showcase`,
+    previousSignupType: "timeslot",
+    slotNumber: 2,
+  },
+  suggestionResponse: {
+    submitterName: "Pat",
+    status: "approved",
+    isNewEvent: false,
+    eventTitle: "Monday Night Open Mic",
+    eventSlug: "monday-night-open-mic",
+    eventId: SAMPLE_EVENT_ID,
+    adminMessage: "Thanks — we've updated the start time to 7:00 PM.",
+  },
+  eventClaimSubmitted: {
+    userName: "Jordan",
+    eventTitle: "Monday Night Open Mic",
+  },
+  eventClaimApproved: {
+    userName: "Jordan",
+    eventTitle: "Monday Night Open Mic",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+  },
+  eventClaimRejected: {
+    userName: "Jordan",
+    eventTitle: "Monday Night Open Mic",
+    reason: "The venue confirmed a different host runs this night.",
+  },
+  adminEventClaimNotification: {
+    requesterName: "Jordan Lee",
+    eventTitle: "Monday Night Open Mic",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+  },
+  adminSuggestionNotification: {
+    submitterName: "Pat",
+    submitterEmail: "pat@example.com",
+    eventTitle: "Monday Night Open Mic",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+    field: "start_time",
+    oldValue: "19:30:00",
+    newValue: "19:00:00",
+    notes: "Sign-up starts at 6:30 now.",
+  },
+  occurrenceCancelledHost: {
+    userName: "Casey",
+    eventTitle: "Monday Night Open Mic",
+    occurrenceDate: "Monday, June 1",
+    venueName: "The Walnut Room",
+    reason: "Private event at the venue that night.",
+    hostName: "Jordan",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+  },
+  occurrenceModifiedHost: {
+    userName: "Casey",
+    eventTitle: "Monday Night Open Mic",
+    occurrenceDate: "Monday, June 1",
+    eventId: SAMPLE_EVENT_ID,
+    eventSlug: "monday-night-open-mic",
+    dateKey: "2026-06-01",
+    changes: { time: { old: "7:00 PM", new: "8:00 PM" } },
+    newTime: "8:00 PM",
+    venueName: "The Walnut Room",
+    notes: "Starting an hour later for this week only.",
+  },
+  feedbackNotification: {
+    category: "bug",
+    subject: "Map pins overlap on mobile",
+    description: "On my phone the venue pins on the happenings map stack on top of each other.",
+    pageUrl: `${SITE_URL}/happenings?view=map`,
+    name: "Riley Parker",
+    email: "riley@example.com",
+    submittedAt: "2026-06-01T17:30:00.000Z",
+    attachments: [],
+  },
+  weeklyOpenMicsDigest: {
+    firstName: "Sam",
+    userId: SAMPLE_USER_ID,
+    byDate: new Map(openMicOccurrences),
+    totalCount: 2,
+    venueCount: 2,
+  },
+  weeklyHappeningsDigest: {
+    firstName: "Sam",
+    userId: SAMPLE_USER_ID,
+    byDate: new Map(happeningOccurrences),
+    totalCount: 3,
+    venueCount: 2,
+    editorial: {
+      introNote: "Summer's here — three great nights of original music this week.",
+      memberSpotlight: {
+        name: "Pony Lee",
+        url: `${SITE_URL}/songwriters/pony-lee`,
+        bio: "Folk songwriter and Monday night regular.",
+      },
+    },
+  },
+  collaboratorAdded: {
+    collaboratorName: "Alex",
+    albumName: "Summer Showcase 2026",
+    albumSlug: "summer-showcase-2026",
+  },
+  collaboratorInvited: {
+    inviteeName: "Alex",
+    actorName: "Jordan",
+    albumName: "Summer Showcase 2026",
+    albumSlug: "summer-showcase-2026",
+    albumId: SAMPLE_ALBUM_ID,
+  },
+  attendeeInvitation: {
+    inviteeName: "Alex",
+    inviterName: "Jordan",
+    eventTitle: "Songwriter Round (Invite Only)",
+    eventSlug: "songwriter-round-invite-only",
+    eventId: SAMPLE_EVENT_ID,
+    inviteId: "invite-sample",
+    isPrivateEvent: true,
+    venueName: "Mercury Cafe",
+    startTime: "7:30 PM",
+  },
+  hostEventBriefing: {
+    recipientName: "Jordan",
+    eventTitle: "Monday Night Open Mic",
+    eventDate: "Monday, June 1",
+    eventTime: "7:00 PM",
+    venueName: "The Walnut Room",
+    eventUrl: `${SITE_URL}/events/monday-night-open-mic?date=2026-06-01`,
+    manageUrl: `${SITE_URL}/dashboard/my-events/${SAMPLE_EVENT_ID}`,
+    timing: "today",
+    lineup: [
+      { slotNumber: 1, slotTime: "7:00 PM", performerName: "Casey", isGuest: false },
+      { slotNumber: 2, slotTime: "7:15 PM", performerName: "Sam (guest)", isGuest: true, guestContactVerified: true },
+      { slotNumber: 3, slotTime: "7:30 PM", performerName: "Morgan", isGuest: true, guestContactVerified: false },
+    ],
+    openSlots: 5,
+    waitlist: [{ position: 1, name: "Riley", isGuest: false }],
+    rsvpCount: 12,
+    rsvpWaitlistCount: 0,
+  },
+  reverificationRequest: {
+    recipientName: "Jordan",
+    recipientRole: "host",
+    eventTitle: "Monday Night Open Mic",
+    scheduleLabel: "Every Monday at 7:00 PM",
+    venueName: "The Walnut Room",
+    eventUrl: `${SITE_URL}/events/monday-night-open-mic`,
+    stillHappeningUrl: `${SITE_URL}/reverify?token=sample&answer=still_happening`,
+    changedUrl: `${SITE_URL}/reverify?token=sample&answer=changed`,
+    endedUrl: `${SITE_URL}/reverify?token=sample&answer=ended`,
+    respondByDate: "Monday, June 15",
+  },
+};
+
+/**
+ * Fixture params as editable JSON (Maps become plain objects)
+ */
+export function serializeTemplateParams(params: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(params, (_key, value) =>
+      value instanceof Map ? Object.fromEntries(value) : value
+    )
+  );
+}
+
+export function getTemplateFixtureJson(key: EmailTemplateKey): unknown {
+  return serializeTemplateParams(TEMPLATE_FIXTURES[key]);
+}
+
+/**
+ * Turn edited JSON back into template params. Only the shape the templates
+ * can't read from plain JSON is restored (digest `byDate`); field values are
+ * otherwise passed through as the admin typed them.
+ */
+export function hydrateTemplateParams<K extends EmailTemplateKey>(
+  key: K,
+  value: unknown
+): EmailTemplateParams[K] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Params must be a JSON object");
+  }
+
+  const params = { ...(value as Record<string, unknown>) };
+  if (BY_DATE_TEMPLATES.has(key)) {
+    const byDate = params.byDate;
+    if (!byDate || typeof byDate !== "object" || Array.isArray(byDate)) {
+      throw new Error("byDate must be an object keyed by date (YYYY-MM-DD)");
+    }
+    params.byDate = new Map(Object.entries(byDate));
+  }
+
+  return params as unknown as EmailTemplateParams[K];
+}
+
+/**
+ * Render a template from edited JSON params
+ */
+export function renderTemplateFromJson(key: EmailTemplateKey, value: unknown): EmailOutput {
+  return getTemplate(key, hydrateTemplateParams(key, value));
+}
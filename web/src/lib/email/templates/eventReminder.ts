@@ -1,8 +1,8 @@
 /**
  * Event Reminder Email Template
  *
- * Sent before an event (e.g., "tonight" or "tomorrow").
- * Template only - sending trigger not yet implemented.
+ * Sent before an event (e.g., "tonight" or "tomorrow") to RSVP'd attendees
+ * and slot claimants by /api/cron/event-reminders (eventRemindersServer.ts).
  */
 
 import { escapeHtml } from "@/lib/highlight";
@@ -17,6 +17,9 @@ import {
   EMAIL_COLORS,
 } from "../render";
 
+/** "today" is for daytime occurrences; evening ones read "tonight" */
+export type ReminderTiming = "tonight" | "today" | "tomorrow";
+
 export interface EventReminderEmailParams {
   userName?: string | null;
   eventTitle: string;
@@ -29,7 +32,7 @@ export interface EventReminderEmailParams {
   eventSlug?: string | null;
   /** Phase ABC6: date_key for per-occurrence RSVP scoping */
   dateKey?: string;
-  reminderType: "tonight" | "tomorrow";
+  reminderType: ReminderTiming;
   slotNumber?: number; // For performers with assigned slots
 }
 
@@ -65,7 +68,7 @@ export function getEventReminderEmail(params: EventReminderEmailParams): {
   const eventUrl = `${SITE_URL}/events/${eventIdentifier}${dateParam}`;
   const cancelUrl = `${SITE_URL}/events/${eventIdentifier}${dateParam ? dateParam + "&" : "?"}cancel=true`;
 
-  const timeWord = reminderType === "tonight" ? "tonight" : "tomorrow";
+  const timeWord = reminderType;
   const subject = `Reminder: ${eventTitle} is ${timeWord}! — The Colorado Songwriters Collective`;
 
   const slotInfo = slotNumber !== undefined
@@ -0,0 +1,169 @@
+/**
+ * Host Event Briefing Email Template
+ *
+ * "Tonight's briefing" sent to the host and accepted co-hosts a few hours
+ * before each occurrence by /api/cron/event-reminders: current lineup,
+ * open slots, waitlist, RSVP counts and which guests can be reached.
+ * Part of the host_activity notification category.
+ */
+
+import { escapeHtml } from "@/lib/highlight";
+import {
+  wrapEmailHtml,
+  wrapEmailText,
+  getGreeting,
+  paragraph,
+  createButton,
+  SITE_URL,
+  EMAIL_COLORS,
+} from "../render";
+import type { ReminderTiming } from "./eventReminder";
+
+export interface HostBriefingLineupEntry {
+  slotNumber: number;
+  /** e.g. "7:30 PM" */
+  slotTime?: string | null;
+  performerName: string;
+  isGuest: boolean;
+  /** Guests only: whether a verified email is on file */
+  guestContactVerified?: boolean;
+}
+
+export interface HostBriefingWaitlistEntry {
+  position: number;
+  name: string;
+  isGuest: boolean;
+  guestContactVerified?: boolean;
+}
+
+export interface HostEventBriefingEmailParams {
+  recipientName?: string | null;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  venueName: string;
+  /** Public event page for this occurrence */
+  eventUrl: string;
+  /** Host dashboard for the event */
+  manageUrl: string;
+  timing: Exclude<ReminderTiming, "tomorrow">;
+  lineup: HostBriefingLineupEntry[];
+  /** Slots with no confirmed performer */
+  openSlots: number;
+  waitlist: HostBriefingWaitlistEntry[];
+  rsvpCount: number;
+  rsvpWaitlistCount: number;
+}
+
+function guestLabel(isGuest: boolean, verified?: boolean): string {
+  if (!isGuest) return "";
+  return verified ? " (guest · email on file)" : " (guest · no verified email)";
+}
+
+export function getHostEventBriefingEmail(params: HostEventBriefingEmailParams): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const {
+    recipientName,
+    eventTitle,
+    eventDate,
+    eventTime,
+    venueName,
+    eventUrl,
+    manageUrl,
+    timing,
+    lineup,
+    openSlots,
+    waitlist,
+    rsvpCount,
+    rsvpWaitlistCount,
+  } = params;
+
+  const safeTitle = escapeHtml(eventTitle);
+  const heading = timing === "tonight" ? "Tonight's briefing" : "Today's briefing";
+  const subject = `${heading}: ${eventTitle} — The Colorado Songwriters Collective`;
+
+  const unreachableGuests =
+    lineup.filter((e) => e.isGuest && !e.guestContactVerified).length +
+    waitlist.filter((e) => e.isGuest && !e.guestContactVerified).length;
+
+  const summaryParts = [`${rsvpCount} RSVP${rsvpCount === 1 ? "" : "s"}`];
+  if (rsvpWaitlistCount > 0) summaryParts.push(`${rsvpWaitlistCount} on the RSVP waitlist`);
+  if (lineup.length > 0 || openSlots > 0) {
+    summaryParts.push(`${lineup.length} performer${lineup.length === 1 ? "" : "s"} signed up`);
+    summaryParts.push(`${openSlots} open slot${openSlots === 1 ? "" : "s"}`);
+  }
+  const summary = summaryParts.join(" · ");
+
+  const lineupRows = lineup
+    .map((entry) => {
+      const time = entry.slotTime ? ` <span style="color: ${EMAIL_COLORS.textMuted};">${escapeHtml(entry.slotTime)}</span>` : "";
+      const label = guestLabel(entry.isGuest, entry.guestContactVerified);
+      return `<tr><td style="padding: 4px 0; color: ${EMAIL_COLORS.textPrimary}; font-size: 14px;">#${entry.slotNumber}${time} — ${escapeHtml(entry.performerName)}<span style="color: ${EMAIL_COLORS.textSecondary};">${escapeHtml(label)}</span></td></tr>`;
+    })
+    .join("");
+
+  const waitlistRows = waitlist
+    .map((entry) => {
+      const label = guestLabel(entry.isGuest, entry.guestContactVerified);
+      return `<tr><td style="padding: 4px 0; color: ${EMAIL_COLORS.textPrimary}; font-size: 14px;">${entry.position}. ${escapeHtml(entry.name)}<span style="color: ${EMAIL_COLORS.textSecondary};">${escapeHtml(label)}</span></td></tr>`;
+    })
+    .join("");
+
+  const sectionLabel = (label: string) =>
+    `<p style="margin: 16px 0 8px 0; color: ${EMAIL_COLORS.textMuted}; font-size: 12px; text-transform: uppercase; letter-spacing: 1px;">${label}</p>`;
+
+  const htmlContent = `
+${paragraph(getGreeting(recipientName))}
+
+${paragraph(`Here's where <strong>${safeTitle}</strong> stands ahead of ${escapeHtml(eventTime)} at ${escapeHtml(venueName)} (${escapeHtml(eventDate)}).`)}
+
+${paragraph(`<strong>${escapeHtml(summary)}</strong>`)}
+
+${lineup.length > 0 ? `${sectionLabel("Lineup")}<table width="100%" cellpadding="0" cellspacing="0">${lineupRows}</table>` : ""}
+
+${waitlist.length > 0 ? `${sectionLabel("Slot waitlist")}<table width="100%" cellpadding="0" cellspacing="0">${waitlistRows}</table>` : ""}
+
+${unreachableGuests > 0 ? paragraph(`${unreachableGuests} guest${unreachableGuests === 1 ? " has" : "s have"} no verified email, so they won't get updates if the lineup changes.`, { muted: true }) : ""}
+
+${createButton("Open Lineup Manager", manageUrl)}
+
+<p style="margin: 16px 0 0 0; font-size: 14px;"><a href="${eventUrl}" style="color: ${EMAIL_COLORS.accent}; text-decoration: none;">View public page →</a></p>
+
+${paragraph(
+  `<span style="color: ${EMAIL_COLORS.textMuted}; font-size: 13px;">
+    You're receiving this because you host this happening.
+    You can adjust your notification preferences in your <a href="${SITE_URL}/dashboard/settings" style="color: ${EMAIL_COLORS.accent};">account settings</a>.
+  </span>`
+)}
+`;
+
+  const html = wrapEmailHtml(htmlContent);
+
+  const lineupText = lineup
+    .map((e) => `#${e.slotNumber}${e.slotTime ? ` ${e.slotTime}` : ""} — ${e.performerName}${guestLabel(e.isGuest, e.guestContactVerified)}`)
+    .join("\n");
+  const waitlistText = waitlist
+    .map((e) => `${e.position}. ${e.name}${guestLabel(e.isGuest, e.guestContactVerified)}`)
+    .join("\n");
+
+  const textContent = `${recipientName?.trim() ? `Hi ${recipientName.trim()},` : "Hi there,"}
+
+${heading.toUpperCase()}: ${eventTitle}
+${eventDate} at ${eventTime} — ${venueName}
+
+${summary}
+${lineupText ? `\nLINEUP\n${lineupText}\n` : ""}${waitlistText ? `\nSLOT WAITLIST\n${waitlistText}\n` : ""}${unreachableGuests > 0 ? `\n${unreachableGuests} guest${unreachableGuests === 1 ? " has" : "s have"} no verified email, so they won't get updates if the lineup changes.\n` : ""}
+Open lineup manager: ${manageUrl}
+View public page: ${eventUrl}
+
+---
+You're receiving this because you host this happening.
+Manage notifications: ${SITE_URL}/dashboard/settings`;
+
+  const text = wrapEmailText(textContent);
+
+  return { subject, html, text };
+}
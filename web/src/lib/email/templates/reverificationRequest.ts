@@ -0,0 +1,107 @@
+/**
+ * Reverification Request Email Template
+ *
+ * Sent by /api/cron/reverification to the host (or a venue manager) of a
+ * listing whose confirmation has gone stale. Three one-click links answer
+ * "still happening", "something changed" or "it ended".
+ * Part of the host_activity notification category.
+ */
+
+import { escapeHtml } from "@/lib/highlight";
+import {
+  wrapEmailHtml,
+  wrapEmailText,
+  getGreeting,
+  paragraph,
+  createButton,
+  createSecondaryLink,
+  eventCard,
+  SITE_URL,
+  EMAIL_COLORS,
+} from "../render";
+
+export interface ReverificationRequestEmailParams {
+  recipientName?: string | null;
+  recipientRole: "host" | "venue_manager";
+  eventTitle: string;
+  /** e.g. "Every Tuesday at 7:00 PM" */
+  scheduleLabel?: string | null;
+  venueName?: string | null;
+  /** Public event page */
+  eventUrl: string;
+  stillHappeningUrl: string;
+  changedUrl: string;
+  endedUrl: string;
+  /** e.g. "Friday, March 6" */
+  respondByDate: string;
+}
+
+export function getReverificationRequestEmail(params: ReverificationRequestEmailParams): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const {
+    recipientName,
+    recipientRole,
+    eventTitle,
+    scheduleLabel,
+    venueName,
+    eventUrl,
+    stillHappeningUrl,
+    changedUrl,
+    endedUrl,
+    respondByDate,
+  } = params;
+
+  const safeTitle = escapeHtml(eventTitle);
+  const subject = `Is ${eventTitle} still happening? — The Colorado Songwriters Collective`;
+  const relation = recipientRole === "host" ? "you host" : "happens at a venue you manage";
+  const details = [scheduleLabel, venueName].filter(Boolean).join(" · ");
+
+  const htmlContent = `
+${paragraph(getGreeting(recipientName))}
+
+${paragraph(`We list <strong>${safeTitle}</strong>, which ${relation}, on the Collective's happenings calendar. It's been a while since anyone confirmed it — is it still going?`)}
+
+${eventCard(eventTitle, eventUrl)}
+${details ? paragraph(escapeHtml(details), { muted: true }) : ""}
+
+${createButton("Yes, still happening", stillHappeningUrl, "green")}
+
+${createSecondaryLink("Something changed (time, day, venue, signup…)", changedUrl)}
+<div style="height: 8px;"></div>
+${createSecondaryLink("It has ended", endedUrl)}
+
+${paragraph(`One click is all it takes. These links work until ${escapeHtml(respondByDate)}.`, { muted: true })}
+
+${paragraph(
+  `<span style="color: ${EMAIL_COLORS.textMuted}; font-size: 13px;">
+    You're receiving this because ${recipientRole === "host" ? "you host this happening" : "you manage this venue"}.
+    You can adjust your notification preferences in your <a href="${SITE_URL}/dashboard/settings" style="color: ${EMAIL_COLORS.accent};">account settings</a>.
+  </span>`
+)}
+`;
+
+  const html = wrapEmailHtml(htmlContent);
+
+  const textContent = `${recipientName?.trim() ? `Hi ${recipientName.trim()},` : "Hi there,"}
+
+We list ${eventTitle}, which ${relation}, on the Collective's happenings calendar. It's been a while since anyone confirmed it — is it still going?
+${details ? `\n${details}\n` : ""}
+View listing: ${eventUrl}
+
+Yes, still happening: ${stillHappeningUrl}
+Something changed: ${changedUrl}
+It has ended: ${endedUrl}
+
+These links work until ${respondByDate}.
+
+---
+You're receiving this because ${recipientRole === "host" ? "you host this happening" : "you manage this venue"}.
+Manage notifications: ${SITE_URL}/dashboard/settings`;
+
+  const text = wrapEmailText(textContent);
+
+  return { subject, html, text };
+}
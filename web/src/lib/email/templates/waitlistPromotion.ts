@@ -31,6 +31,8 @@ export interface WaitlistPromotionEmailParams {
   offerExpiresAt?: string; // ISO timestamp
   /** Phase ABC6: Occurrence date key (YYYY-MM-DD) for per-occurrence waitlists */
   dateKey?: string;
+  /** Lottery signup mode: the offer is a performer slot, not an RSVP */
+  performerSlot?: boolean;
 }
 
 export function getWaitlistPromotionEmail(params: WaitlistPromotionEmailParams): {
@@ -38,7 +40,7 @@ export function getWaitlistPromotionEmail(params: WaitlistPromotionEmailParams):
   html: string;
   text: string;
 } {
-  const { userName, eventTitle, eventDate, eventTime, venueName, eventId, eventSlug, offerExpiresAt, dateKey } = params;
+  const { userName, eventTitle, eventDate, eventTime, venueName, eventId, eventSlug, offerExpiresAt, dateKey, performerSlot } = params;
 
   const safeTitle = escapeHtml(eventTitle);
   const safeVenue = escapeHtml(venueName);
@@ -49,7 +51,7 @@ export function getWaitlistPromotionEmail(params: WaitlistPromotionEmailParams):
   const eventIdentifier = eventSlug || eventId;
   // Phase ABC6: Include date_key in URLs for per-occurrence waitlists
   const dateParam = dateKey ? `date=${dateKey}&` : "";
-  const confirmUrl = `${SITE_URL}/events/${eventIdentifier}?${dateParam}confirm=true`;
+  const confirmUrl = `${SITE_URL}/events/${eventIdentifier}?${dateParam}confirm=true${performerSlot ? "#lineup" : ""}`;
   const cancelUrl = `${SITE_URL}/events/${eventIdentifier}?${dateParam}cancel=true`;
 
   // Format expiry time for display
@@ -71,13 +73,17 @@ export function getWaitlistPromotionEmail(params: WaitlistPromotionEmailParams):
 
   const subject = `A spot just opened up at ${eventTitle} — The Colorado Songwriters Collective`;
 
+  const spotNote = performerSlot
+    ? "This is a performer slot from the lineup draw."
+    : "RSVP means you plan to attend. It is not a performer sign-up.";
+
   const htmlContent = `
 ${paragraph(getGreeting(userName))}
 
 ${paragraph(`Good news! A spot just opened up at <strong>${safeTitle}</strong>, and you're next in line.`)}
 
 <p style="margin: 12px 0; color: ${EMAIL_COLORS.textMuted}; font-size: 13px; font-style: italic;">
-  RSVP means you plan to attend. It is not a performer sign-up.
+  ${spotNote}
 </p>
 
 <div style="background-color: ${EMAIL_COLORS.warningBg}; border: 1px solid ${EMAIL_COLORS.warningBorder}; border-radius: 8px; padding: 16px; margin: 20px 0;">
@@ -121,7 +127,7 @@ ${createSecondaryLink("I can't make it", cancelUrl)}
 
 Good news! A spot just opened up at ${eventTitle}, and you're next in line.
 
-(RSVP means you plan to attend. It is not a performer sign-up.)
+(${spotNote})
 
 CONFIRM BY ${formattedExpiry} to lock in your spot.
 ${expiryMessage}
@@ -17,6 +17,19 @@
  * - Optional editorial sections (intro note, featured happenings, spotlights)
  * - Subject line override
  * - All editorial sections are optional — email renders normally without them
+ *
+ * For You:
+ * - Optional "Picked for you" section with the reason behind each pick
+ *
+ * Follows:
+ * - Optional "From people you follow" section (unmuted follows only)
+ *
+ * Cadence:
+ * - Subject and copy follow the recipient's cadence (tonight / next few days / week)
+ * - Optional "New members" section
+ *
+ * Regions:
+ * - Subject names the recipient's region (defaults to Colorado)
  */
 
 import { escapeHtml } from "@/lib/highlight";
@@ -28,11 +41,17 @@ import {
   SITE_URL,
   renderEmailBaseballCard,
 } from "../render";
-import type { HappeningOccurrence } from "@/lib/digest/weeklyHappenings";
+import type {
+  DigestForYouPick,
+  DigestNewMember,
+  HappeningOccurrence,
+} from "@/lib/digest/weeklyHappenings";
+import type { DigestCadence } from "@/lib/digest/digestCadence";
 import { formatTimeDisplay } from "@/lib/digest/weeklyHappenings";
 import { EVENT_TYPE_CONFIG } from "@/types/events";
 import { buildUnsubscribeUrl } from "@/lib/digest/unsubscribeToken";
 import type { ResolvedEditorial } from "@/lib/digest/digestEditorial";
+import type { DigestFollowActivity } from "@/lib/follows/followContract";
 import {
   INVITE_CTA_BODY,
   INVITE_CTA_HEADLINE,
@@ -56,8 +75,42 @@ export interface WeeklyHappeningsDigestParams {
   venueCount: number;
   /** Optional editorial content (GTM-3) */
   editorial?: ResolvedEditorial;
+  /** Optional personalized picks with reasons (For You) */
+  forYou?: DigestForYouPick[];
+  /** Optional recent activity from the recipient's follows */
+  followActivity?: DigestFollowActivity[];
+  /** Optional members who joined since the recipient's last digest */
+  newMembers?: DigestNewMember[];
+  /** Recipient's digest cadence (defaults to weekly) */
+  cadence?: DigestCadence;
+  /** Region named in the subject (defaults to Colorado) */
+  regionName?: string;
 }
 
+const CADENCE_COPY: Record<
+  DigestCadence,
+  { subject: (place: string) => string; period: string; digestName: string; emptyState: string }
+> = {
+  daily_tonight: {
+    subject: (place) => `Tonight's Songwriter Happenings in ${place}`,
+    period: "tonight",
+    digestName: "daily digest",
+    emptyState: "No happenings scheduled tonight.",
+  },
+  twice_weekly: {
+    subject: (place) => `Songwriter Happenings in ${place}: The Next Few Days`,
+    period: "over the next few days",
+    digestName: "twice-weekly digest",
+    emptyState: "No happenings scheduled for the next few days.",
+  },
+  weekly: {
+    subject: (place) => `Songwriter Happenings This Week in ${place}`,
+    period: "this week",
+    digestName: "weekly digest",
+    emptyState: "No happenings scheduled this week.",
+  },
+};
+
 // ============================================================
 // HTML Helpers
 // ============================================================
@@ -91,7 +144,7 @@ function formatDayHeaderHtml(dateKey: string): string {
   `;
 }
 
-function formatHappeningHtml(occurrence: HappeningOccurrence): string {
+function formatHappeningHtml(occurrence: HappeningOccurrence, reasons?: string[]): string {
   const { event } = occurrence;
   const eventUrl = `${SITE_URL}/events/${event.slug || event.id}?date=${occurrence.dateKey}`;
   const time = formatTimeDisplay(event.start_time);
@@ -116,6 +169,12 @@ function formatHappeningHtml(occurrence: HappeningOccurrence): string {
   if (cost) metaParts.push(escapeHtml(cost));
   if (signupTime) metaParts.push(escapeHtml(signupTime));
   const metaLineHtml = metaParts.join(" · ");
+  const reasonsHtml = reasons && reasons.length > 0
+    ? `
+              <p style="margin: 4px 0 0 0; color: ${EMAIL_COLORS.textMuted}; font-size: 13px; font-style: italic;">
+                ${escapeHtml(reasons.join(" · "))}
+              </p>`
+    : "";
 
   return `
     <tr>
@@ -131,7 +190,7 @@ function formatHappeningHtml(occurrence: HappeningOccurrence): string {
               </a>
               <p style="margin: 4px 0 0 0; color: ${EMAIL_COLORS.textSecondary}; font-size: 14px;">
                 ${metaLineHtml}
-              </p>
+              </p>${reasonsHtml}
             </td>
           </tr>
         </table>
@@ -140,12 +199,12 @@ function formatHappeningHtml(occurrence: HappeningOccurrence): string {
   `;
 }
 
-function formatEmptyStateHtml(): string {
+function formatEmptyStateHtml(message: string): string {
   return `
     <tr>
       <td style="padding: 32px 0; text-align: center;">
         <p style="margin: 0 0 8px 0; color: ${EMAIL_COLORS.textSecondary}; font-size: 15px;">
-          No happenings scheduled this week.
+          ${escapeHtml(message)}
         </p>
         <p style="margin: 0; color: ${EMAIL_COLORS.textMuted}; font-size: 14px;">
           Check back soon — new happenings are added regularly!
@@ -309,6 +368,72 @@ function formatFeaturedHappeningsHtml(
   `;
 }
 
+function formatForYouHtml(picks: DigestForYouPick[]): string {
+  const rows = picks
+    .map((pick) => formatHappeningHtml(pick.occurrence, pick.reasons))
+    .join("");
+
+  return `
+    <tr>
+      <td style="padding: 16px 0 0 0;">
+        <p style="margin: 0; color: ${EMAIL_COLORS.accent}; font-size: 14px; font-weight: 700; letter-spacing: 0.5px;">
+          ✨ PICKED FOR YOU
+        </p>
+      </td>
+    </tr>
+    ${rows}
+  `;
+}
+
+function formatFollowActivityHtml(activity: DigestFollowActivity[]): string {
+  const items = activity
+    .map((item) => {
+      const title = escapeHtml(item.title);
+      const body = item.link
+        ? `<a href="${SITE_URL}${escapeHtml(item.link)}" style="color: ${EMAIL_COLORS.textPrimary}; text-decoration: none;">${title}</a>`
+        : title;
+      return `<p style="margin: 0 0 6px 0; color: ${EMAIL_COLORS.textPrimary}; font-size: 14px;">• ${body}</p>`;
+    })
+    .join("");
+
+  return `
+    <tr>
+      <td style="padding: 16px 0 0 0;">
+        <p style="margin: 0 0 8px 0; color: ${EMAIL_COLORS.accent}; font-size: 14px; font-weight: 700; letter-spacing: 0.5px;">
+          👥 FROM PEOPLE YOU FOLLOW
+        </p>
+        ${items}
+        <p style="margin: 8px 0 0 0; font-size: 13px;">
+          <a href="${SITE_URL}/dashboard/following" style="color: ${EMAIL_COLORS.accent}; text-decoration: underline;">See all activity</a>
+        </p>
+      </td>
+    </tr>
+  `;
+}
+
+function formatNewMembersHtml(members: DigestNewMember[]): string {
+  const items = members
+    .map(
+      (member) =>
+        `<p style="margin: 0 0 6px 0; color: ${EMAIL_COLORS.textPrimary}; font-size: 14px;">• <a href="${SITE_URL}${escapeHtml(member.link)}" style="color: ${EMAIL_COLORS.textPrimary}; text-decoration: none;">${escapeHtml(member.name)}</a></p>`
+    )
+    .join("");
+
+  return `
+    <tr>
+      <td style="padding: 16px 0 0 0;">
+        <p style="margin: 0 0 8px 0; color: ${EMAIL_COLORS.accent}; font-size: 14px; font-weight: 700; letter-spacing: 0.5px;">
+          👋 NEW MEMBERS
+        </p>
+        ${items}
+        <p style="margin: 8px 0 0 0; font-size: 13px;">
+          <a href="${SITE_URL}/members" style="color: ${EMAIL_COLORS.accent}; text-decoration: underline;">Say hello</a>
+        </p>
+      </td>
+    </tr>
+  `;
+}
+
 function formatMemberSpotlightHtml(
   spotlight: NonNullable<ResolvedEditorial["memberSpotlight"]>
 ): string {
@@ -434,6 +559,37 @@ function formatFeaturedHappeningsText(
   return lines.join("\n");
 }
 
+function formatForYouText(picks: DigestForYouPick[]): string {
+  const lines = ["✨ PICKED FOR YOU", ""];
+  for (const pick of picks) {
+    lines.push(formatHappeningText(pick.occurrence, pick.reasons));
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+function formatFollowActivityText(activity: DigestFollowActivity[]): string {
+  const lines = ["👥 FROM PEOPLE YOU FOLLOW", ""];
+  for (const item of activity) {
+    lines.push(item.link ? `• ${item.title} — ${SITE_URL}${item.link}` : `• ${item.title}`);
+  }
+  lines.push("");
+  lines.push(`See all activity: ${SITE_URL}/dashboard/following`);
+  lines.push("");
+  return lines.join("\n");
+}
+
+function formatNewMembersText(members: DigestNewMember[]): string {
+  const lines = ["👋 NEW MEMBERS", ""];
+  for (const member of members) {
+    lines.push(`• ${member.name} — ${SITE_URL}${member.link}`);
+  }
+  lines.push("");
+  lines.push(`Say hello: ${SITE_URL}/members`);
+  lines.push("");
+  return lines.join("\n");
+}
+
 function formatMemberSpotlightText(
   spotlight: NonNullable<ResolvedEditorial["memberSpotlight"]>
 ): string {
@@ -489,7 +645,7 @@ function formatDayHeaderText(dateKey: string): string {
   return `\n────────────────────────────────\n${formatted}\n────────────────────────────────`;
 }
 
-function formatHappeningText(occurrence: HappeningOccurrence): string {
+function formatHappeningText(occurrence: HappeningOccurrence, reasons?: string[]): string {
   const { event } = occurrence;
   const eventUrl = `${SITE_URL}/events/${event.slug || event.id}?date=${occurrence.dateKey}`;
   const time = formatTimeDisplay(event.start_time);
@@ -510,8 +666,11 @@ function formatHappeningText(occurrence: HappeningOccurrence): string {
   const lines = [
     `${emoji} ${event.title}`,
     `   ${metaLine}`,
-    `   ${eventUrl}`,
   ];
+  if (reasons && reasons.length > 0) {
+    lines.push(`   Why: ${reasons.join(" · ")}`);
+  }
+  lines.push(`   ${eventUrl}`);
 
   return lines.join("\n");
 }
@@ -523,13 +682,26 @@ function formatHappeningText(occurrence: HappeningOccurrence): string {
 export function getWeeklyHappeningsDigestEmail(
   params: WeeklyHappeningsDigestParams
 ): { subject: string; html: string; text: string } {
-  const { firstName, userId, byDate, totalCount, venueCount, editorial } = params;
+  const {
+    firstName,
+    userId,
+    byDate,
+    totalCount,
+    venueCount,
+    editorial,
+    forYou,
+    followActivity,
+    newMembers,
+    cadence = "weekly",
+    regionName = "Colorado",
+  } = params;
+  const copy = CADENCE_COPY[cadence];
 
   // Build one-click unsubscribe URL (HMAC-signed, no login required)
   const unsubscribeUrl = buildUnsubscribeUrl(userId) || `${SITE_URL}/dashboard/settings`;
 
   // GTM-3: Editorial subject override takes precedence
-  const subject = editorial?.subjectOverride || "Songwriter Happenings This Week in Colorado";
+  const subject = editorial?.subjectOverride || copy.subject(regionName);
 
   // ============================================================
   // HTML Version
@@ -538,7 +710,7 @@ export function getWeeklyHappeningsDigestEmail(
   let eventsHtml = "";
 
   if (totalCount === 0) {
-    eventsHtml = formatEmptyStateHtml();
+    eventsHtml = formatEmptyStateHtml(copy.emptyState);
   } else {
     // Sort date keys chronologically
     const sortedDates = Array.from(byDate.keys()).sort();
@@ -556,7 +728,7 @@ export function getWeeklyHappeningsDigestEmail(
   // Summary line
   const summaryLine = totalCount === 0
     ? ""
-    : `That's ${totalCount} happening${totalCount === 1 ? "" : "s"} across ${venueCount} venue${venueCount === 1 ? "" : "s"} this week.`;
+    : `That's ${totalCount} happening${totalCount === 1 ? "" : "s"} across ${venueCount} venue${venueCount === 1 ? "" : "s"} ${copy.period}.`;
 
   // GTM-3: Build editorial HTML sections
   const introNoteHtml = editorial?.introNote
@@ -585,6 +757,12 @@ export function getWeeklyHappeningsDigestEmail(
     ? formatFeaturedHappeningsHtml(remainingFeatured)
     : "";
 
+  const forYouHtml = forYou && forYou.length > 0 ? formatForYouHtml(forYou) : "";
+  const followActivityHtml =
+    followActivity && followActivity.length > 0 ? formatFollowActivityHtml(followActivity) : "";
+  const newMembersHtml =
+    newMembers && newMembers.length > 0 ? formatNewMembersHtml(newMembers) : "";
+
   // Spotlights after the CTA (venue only; other featured items are at top)
   let spotlightsHtml = "";
   if (editorial?.venueSpotlight) {
@@ -615,6 +793,12 @@ export function getWeeklyHappeningsDigestEmail(
 
     ${remainingFeaturedHtml ? `<table cellpadding="0" cellspacing="0" style="width: 100%;">${remainingFeaturedHtml}</table>` : ""}
 
+    ${forYouHtml ? `<table cellpadding="0" cellspacing="0" style="width: 100%;">${forYouHtml}</table>` : ""}
+
+    ${followActivityHtml ? `<table cellpadding="0" cellspacing="0" style="width: 100%;">${followActivityHtml}</table>` : ""}
+
+    ${newMembersHtml ? `<table cellpadding="0" cellspacing="0" style="width: 100%;">${newMembersHtml}</table>` : ""}
+
     ${happeningsNudgeHtml}
 
     <table cellpadding="0" cellspacing="0" style="width: 100%;">
@@ -663,7 +847,9 @@ export function getWeeklyHappeningsDigestEmail(
     </p>
 
     <p style="margin: 0 0 8px 0; color: ${EMAIL_COLORS.textMuted}; font-size: 13px;">
-      You're receiving this weekly digest because you're part of The Colorado Songwriters Collective community.
+      You're receiving this ${copy.digestName} because you're part of The Colorado Songwriters Collective community.
+      You can change how often it arrives and what's in it in your
+      <a href="${SITE_URL}/dashboard/settings" style="color: ${EMAIL_COLORS.accent}; text-decoration: none;">settings</a>.
       If you'd rather not receive these, you can
       <a href="${unsubscribeUrl}" style="color: ${EMAIL_COLORS.accent}; text-decoration: none;">unsubscribe with one click</a>
       — you can always re-subscribe from your
@@ -683,7 +869,7 @@ export function getWeeklyHappeningsDigestEmail(
   let eventsText = "";
 
   if (totalCount === 0) {
-    eventsText = "\nNo happenings scheduled this week.\nCheck back soon — new happenings are added regularly!";
+    eventsText = `\n${copy.emptyState}\nCheck back soon — new happenings are added regularly!`;
   } else {
     const sortedDates = Array.from(byDate.keys()).sort();
 
@@ -728,6 +914,17 @@ export function getWeeklyHappeningsDigestEmail(
     featuredTextParts.push(formatFeaturedHappeningsText(remainingFeatured));
   }
 
+  const forYouTextParts: string[] = [];
+  if (forYou && forYou.length > 0) {
+    forYouTextParts.push(formatForYouText(forYou));
+  }
+  if (followActivity && followActivity.length > 0) {
+    forYouTextParts.push(formatFollowActivityText(followActivity));
+  }
+  if (newMembers && newMembers.length > 0) {
+    forYouTextParts.push(formatNewMembersText(newMembers));
+  }
+
   const spotlightsTextParts: string[] = [];
   if (editorial?.venueSpotlight) {
     spotlightsTextParts.push(formatVenueSpotlightText(editorial.venueSpotlight));
@@ -742,6 +939,7 @@ export function getWeeklyHappeningsDigestEmail(
     "",
     ...editorialTextParts,
     ...featuredTextParts,
+    ...forYouTextParts,
     happeningsNudgeText,
     inviteNudgeText,
     eventsText,
@@ -757,7 +955,8 @@ export function getWeeklyHappeningsDigestEmail(
     "---",
     "Enjoying the digest? Support the Collective — buy us a coffee: https://buymeacoffee.com/sami_serrag_music",
     "",
-    "You're receiving this weekly digest because you're part of The Colorado Songwriters Collective community.",
+    `You're receiving this ${copy.digestName} because you're part of The Colorado Songwriters Collective community.`,
+    `Change how often it arrives and what's in it: ${SITE_URL}/dashboard/settings`,
     `If you'd rather not receive these, unsubscribe here: ${unsubscribeUrl}`,
     `You can always re-subscribe from your settings: ${SITE_URL}/dashboard/settings`,
     "",
@@ -0,0 +1,277 @@
+/**
+ * Event interpreter LLM providers — wire formats for the OpenAI and
+ * OpenAI-compatible adapters, cassette record/replay, and env selection.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { LlmProvider, LlmRequest } from "@/lib/events/llm/llmProvider";
+import {
+  OPENAI_RESPONSES_URL,
+  buildOpenAiResponsesBody,
+  createOpenAiProvider,
+  toOpenAiLlmResponse,
+} from "@/lib/events/llm/openAiProvider";
+import {
+  buildChatCompletionsBody,
+  createOpenAiCompatibleProvider,
+  toChatCompletionsLlmResponse,
+} from "@/lib/events/llm/openAiCompatibleProvider";
+import { createCassetteProvider, getCassetteKey } from "@/lib/events/llm/cassetteProvider";
+import { getInterpreterLlmProvider } from "@/lib/events/llm/interpreterLlm";
+
+const SEARCH_REQUEST: LlmRequest = {
+  model: "gpt-5.4-nano",
+  instructions: "Return strict JSON only.",
+  reasoningEffort: "low",
+  input: "Find the venue",
+  webSearch: {
+    userLocation: { country: "US", city: "Denver", region: "Colorado", timezone: "America/Denver" },
+    required: true,
+  },
+  maxOutputTokens: 450,
+  jsonSchema: { name: "fast_venue_search_result", schema: { type: "object" } },
+};
+
+const VISION_REQUEST: LlmRequest = {
+  model: "gpt-4.1-mini",
+  input: [
+    { type: "text", text: "Read the flyer" },
+    { type: "image", mimeType: "image/png", data: "aGVsbG8=" },
+  ],
+};
+
+const OPENAI_BODY = JSON.stringify({ output: [{ content: [{ type: "output_text", text: '{"ok":true}' }] }] });
+
+describe("OpenAI provider", () => {
+  it("builds Responses API bodies for structured web search", () => {
+    expect(buildOpenAiResponsesBody(SEARCH_REQUEST)).toEqual({
+      model: "gpt-5.4-nano",
+      instructions: "Return strict JSON only.",
+      reasoning: { effort: "low" },
+      input: "Find the venue",
+      tools: [
+        {
+          type: "web_search",
+          user_location: {
+            type: "approximate",
+            country: "US",
+            city: "Denver",
+            region: "Colorado",
+            timezone: "America/Denver",
+          },
+        },
+      ],
+      tool_choice: "required",
+      include: ["web_search_call.action.sources"],
+      max_output_tokens: 450,
+      text: {
+        format: {
+          type: "json_schema",
+          name: "fast_venue_search_result",
+          strict: true,
+          schema: { type: "object" },
+        },
+      },
+    });
+  });
+
+  it("sends images as data URLs and skips reasoning effort for non-reasoning models", () => {
+    expect(buildOpenAiResponsesBody({ ...VISION_REQUEST, reasoningEffort: "high" })).toEqual({
+      model: "gpt-4.1-mini",
+      input: [
+        {
+          role: "user",
+          content: [
+            { type: "input_text", text: "Read the flyer" },
+            { type: "input_image", image_url: "data:image/png;base64,aGVsbG8=" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reads output_text or the first text part", () => {
+    expect(toOpenAiLlmResponse(200, JSON.stringify({ output_text: "hi" })).text).toBe("hi");
+    expect(toOpenAiLlmResponse(200, OPENAI_BODY).text).toBe('{"ok":true}');
+    expect(toOpenAiLlmResponse(502, "<html>Bad gateway</html>")).toMatchObject({
+      ok: false,
+      status: 502,
+      text: null,
+      data: null,
+    });
+  });
+
+  describe("respond", () => {
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+    beforeEach(() => {
+      fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(new Response(OPENAI_BODY, { status: 200 }));
+    });
+    afterEach(() => fetchSpy.mockRestore());
+
+    it("posts to the Responses API with the key", async () => {
+      const response = await createOpenAiProvider({ apiKey: "sk-test" }).respond(SEARCH_REQUEST);
+
+      const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe(OPENAI_RESPONSES_URL);
+      expect((init.headers as Record<string, string>).Authorization).toBe("Bearer sk-test");
+      expect(JSON.parse(init.body as string)).toEqual(buildOpenAiResponsesBody(SEARCH_REQUEST));
+      expect(response).toMatchObject({ ok: true, status: 200, text: '{"ok":true}', body: OPENAI_BODY });
+    });
+  });
+});
+
+describe("OpenAI-compatible provider", () => {
+  it("builds Chat Completions bodies", () => {
+    expect(
+      buildChatCompletionsBody({
+        ...VISION_REQUEST,
+        instructions: "Be brief.",
+        maxOutputTokens: 900,
+        jsonSchema: { name: "draft_verification", schema: { type: "object" } },
+      })
+    ).toEqual({
+      model: "gpt-4.1-mini",
+      messages: [
+        { role: "system", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Read the flyer" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,aGVsbG8=" } },
+          ],
+        },
+      ],
+      max_tokens: 900,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "draft_verification", strict: true, schema: { type: "object" } },
+      },
+    });
+  });
+
+  it("reads the first choice's message content", () => {
+    const body = JSON.stringify({ choices: [{ message: { role: "assistant", content: '{"a":1}' } }] });
+    expect(toChatCompletionsLlmResponse(200, body).text).toBe('{"a":1}');
+    expect(toChatCompletionsLlmResponse(200, JSON.stringify({ choices: [] })).text).toBeNull();
+  });
+
+  it("posts to the base URL without auth when there's no key, and refuses web search", async () => {
+    const fetchSpy = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: "ok" } }] })));
+    const provider = createOpenAiCompatibleProvider({ baseUrl: "http://localhost:11434/v1/" });
+
+    await expect(provider.respond({ model: "llama3.2", input: "hi" })).resolves.toMatchObject({ text: "ok" });
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+
+    expect(provider.supportsWebSearch).toBe(false);
+    await expect(provider.respond(SEARCH_REQUEST)).rejects.toThrow("does not support web search");
+    fetchSpy.mockRestore();
+  });
+});
+
+describe("cassette provider", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-cassette-"));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function fakeUpstream(status: number, body: string): LlmProvider {
+    return {
+      name: "openai",
+      supportsWebSearch: true,
+      respond: vi.fn(async () => toOpenAiLlmResponse(status, body)),
+    };
+  }
+
+  it("records responses and replays them byte-for-byte", async () => {
+    const upstream = fakeUpstream(200, OPENAI_BODY);
+    const recorder = createCassetteProvider({ dir, mode: "record", upstream });
+    const recorded = await recorder.respond(SEARCH_REQUEST);
+
+    const replayer = createCassetteProvider({ dir, mode: "replay" });
+    const replayed = await replayer.respond(SEARCH_REQUEST);
+
+    expect(upstream.respond).toHaveBeenCalledTimes(1);
+    expect(replayed).toEqual(recorded);
+    expect(replayed.body).toBe(OPENAI_BODY);
+  });
+
+  it("records upstream errors too", async () => {
+    const recorder = createCassetteProvider({ dir, mode: "record", upstream: fakeUpstream(429, '{"error":"rate"}') });
+    await recorder.respond(SEARCH_REQUEST);
+
+    const replayed = await createCassetteProvider({ dir, mode: "replay" }).respond(SEARCH_REQUEST);
+    expect(replayed).toMatchObject({ ok: false, status: 429, data: { error: "rate" } });
+  });
+
+  it("throws on a request with no recording", async () => {
+    const replayer = createCassetteProvider({ dir, mode: "replay" });
+    await expect(replayer.respond({ ...SEARCH_REQUEST, input: "Something new" })).rejects.toThrow(
+      "No cassette recording"
+    );
+  });
+
+  it("keys on the request, ignoring key order, and stores image hashes instead of data", async () => {
+    const reordered = Object.fromEntries(Object.entries(VISION_REQUEST).reverse()) as unknown as LlmRequest;
+    expect(getCassetteKey(reordered)).toBe(getCassetteKey(VISION_REQUEST));
+    expect(getCassetteKey({ ...VISION_REQUEST, model: "other" })).not.toBe(getCassetteKey(VISION_REQUEST));
+
+    await createCassetteProvider({ dir, mode: "record", upstream: fakeUpstream(200, OPENAI_BODY) }).respond(
+      VISION_REQUEST
+    );
+    const file = fs.readFileSync(path.join(dir, `${getCassetteKey(VISION_REQUEST)}.json`), "utf-8");
+    expect(file).not.toContain("aGVsbG8=");
+    expect(JSON.parse(file).request.input[1].data).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+});
+
+describe("getInterpreterLlmProvider", () => {
+  it("defaults to OpenAI and needs its key", () => {
+    expect(getInterpreterLlmProvider({})).toEqual({ error: "Missing OPENAI_API_KEY." });
+    const selected = getInterpreterLlmProvider({ OPENAI_API_KEY: "sk-test" });
+    expect("provider" in selected && selected.provider.name).toBe("openai");
+  });
+
+  it("selects an OpenAI-compatible endpoint by base URL", () => {
+    expect(getInterpreterLlmProvider({ EVENT_INTERPRETER_LLM_PROVIDER: "openai-compatible" })).toEqual({
+      error: "Missing EVENT_INTERPRETER_LLM_BASE_URL.",
+    });
+    const selected = getInterpreterLlmProvider({
+      EVENT_INTERPRETER_LLM_PROVIDER: "openai-compatible",
+      EVENT_INTERPRETER_LLM_BASE_URL: "http://localhost:8000/v1",
+    });
+    expect("provider" in selected && selected.provider.name).toBe("openai-compatible");
+  });
+
+  it("replays cassettes without any API key, and records through an upstream", () => {
+    const replay = getInterpreterLlmProvider({
+      EVENT_INTERPRETER_LLM_PROVIDER: "cassette",
+      EVENT_INTERPRETER_LLM_CASSETTE_DIR: "/tmp/cassettes",
+    });
+    expect("provider" in replay && replay.provider.name).toBe("cassette");
+
+    expect(
+      getInterpreterLlmProvider({
+        EVENT_INTERPRETER_LLM_PROVIDER: "cassette",
+        EVENT_INTERPRETER_LLM_CASSETTE_DIR: "/tmp/cassettes",
+        EVENT_INTERPRETER_LLM_CASSETTE_MODE: "record",
+      })
+    ).toEqual({ error: "Missing OPENAI_API_KEY." });
+  });
+
+  it("rejects unknown providers and a cassette without a directory", () => {
+    expect(getInterpreterLlmProvider({ EVENT_INTERPRETER_LLM_PROVIDER: "bard" })).toEqual({
+      error: 'Unknown EVENT_INTERPRETER_LLM_PROVIDER "bard".',
+    });
+    expect(getInterpreterLlmProvider({ EVENT_INTERPRETER_LLM_PROVIDER: "cassette" })).toEqual({
+      error: "Missing EVENT_INTERPRETER_LLM_CASSETTE_DIR.",
+    });
+  });
+});
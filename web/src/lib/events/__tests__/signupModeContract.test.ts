@@ -20,6 +20,12 @@ describe("signupModeContract", () => {
     expect(normalizeSignupMode("signup at venue")).toBe("in_person");
   });
 
+  it("maps hat draw aliases to lottery", () => {
+    expect(normalizeSignupMode("lottery")).toBe("lottery");
+    expect(normalizeSignupMode("hat draw")).toBe("lottery");
+    expect(normalizeSignupMode("random draw")).toBe("lottery");
+  });
+
   it("rejects unknown values to null instead of passing invalid enum values", () => {
     expect(normalizeSignupMode("foobar")).toBeNull();
     expect(normalizeSignupMode("")).toBeNull();
@@ -0,0 +1,186 @@
+/**
+ * Event Audit Suspicion Scorer (Lane 5 PR B)
+ *
+ * Pure scoring for event_audit_log rows. The audit helper
+ * (lib/audit/eventAudit.ts) gathers the context (actor account age,
+ * the actor's recent audit rows), calls scoreEventEdit() and stores the
+ * result on the row as suspicion_score / suspicion_signals. Rows at or
+ * above ALERT_SCORE_THRESHOLD email admins when EVENT_AUDIT_ALERTS_ENABLED.
+ *
+ * Flagging signals (each alerts on its own):
+ *   - mass_date_change: the same actor reschedules DATE_CHANGE_EVENT_THRESHOLD+
+ *     distinct events within DATE_CHANGE_WINDOW_MS, or drops
+ *     CUSTOM_DATES_REMOVAL_THRESHOLD+ dates from one series in one write.
+ *   - venue_swap_published: venue_id changed on a published event.
+ *   - new_account_published_edit: account younger than NEW_ACCOUNT_MAX_AGE_DAYS
+ *     edits a published event.
+ *   - cohost_cancellation: a co-host (not the owner) cancels the event.
+ *
+ * Contributing signal (never alerts alone):
+ *   - bot_user_agent: the write came from a scripted client.
+ *
+ * Admin writes are never scored.
+ */
+
+import type { FieldChange } from "./computePatchDiff";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ALERT_SCORE_THRESHOLD = 40;
+
+export const DATE_CHANGE_WINDOW_MS = 60 * 60 * 1000;
+export const DATE_CHANGE_EVENT_THRESHOLD = 3;
+export const CUSTOM_DATES_REMOVAL_THRESHOLD = 5;
+export const NEW_ACCOUNT_MAX_AGE_DAYS = 7;
+
+/** Fields that move when an event is rescheduled */
+export const DATE_FIELDS: readonly string[] = [
+  "event_date",
+  "custom_dates",
+  "day_of_week",
+  "recurrence_rule",
+  "recurrence_end_date",
+  "max_occurrences",
+];
+
+export type SuspicionSignal =
+  | "mass_date_change"
+  | "venue_swap_published"
+  | "new_account_published_edit"
+  | "cohost_cancellation"
+  | "bot_user_agent";
+
+export const SUSPICION_SIGNAL_WEIGHTS: Record<SuspicionSignal, number> = {
+  mass_date_change: 60,
+  cohost_cancellation: 60,
+  venue_swap_published: 50,
+  new_account_published_edit: 40,
+  bot_user_agent: 20,
+};
+
+export const SUSPICION_SIGNAL_LABELS: Record<SuspicionSignal, string> = {
+  mass_date_change: "Mass date change",
+  venue_swap_published: "Venue swapped on a published event",
+  new_account_published_edit: "Brand-new account edited a published event",
+  cohost_cancellation: "Cancelled by a co-host",
+  bot_user_agent: "Scripted client",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Subset of an event_audit_log row used for the velocity window */
+export interface RecentAuditWrite {
+  event_id_at_observation: string;
+  changed_fields: unknown;
+  created_at: string;
+}
+
+export interface ScoreEventEditInput {
+  eventId: string;
+  action: string;
+  actorRole: string;
+  userAgentClass?: string | null;
+  changedFields: FieldChange[];
+  /** Published state after the write (before it, for cancel/delete) */
+  eventIsPublished: boolean;
+  /** profiles.created_at of the actor; null when unknown */
+  actorCreatedAt?: string | null;
+  /** The actor's other audit rows, newest first; window filtering happens here */
+  recentActorWrites?: RecentAuditWrite[];
+  now: Date;
+}
+
+export interface EventEditScore {
+  /** 0..100 */
+  score: number;
+  signals: SuspicionSignal[];
+  shouldAlertImmediately: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * True when a changed_fields payload (computePatchDiff output, possibly
+ * read back from jsonb) touches any DATE_FIELDS entry.
+ */
+export function touchesDateFields(changedFields: unknown): boolean {
+  if (!Array.isArray(changedFields)) return false;
+  return changedFields.some(
+    (change) =>
+      change !== null &&
+      typeof change === "object" &&
+      DATE_FIELDS.includes(String((change as { field?: unknown }).field))
+  );
+}
+
+function isMassDateChange(input: ScoreEventEditInput): boolean {
+  const customDates = input.changedFields.find((c) => c.field === "custom_dates");
+  if (customDates?.kind === "array" && customDates.removed.length >= CUSTOM_DATES_REMOVAL_THRESHOLD) {
+    return true;
+  }
+
+  if (!touchesDateFields(input.changedFields)) return false;
+
+  const windowStart = input.now.getTime() - DATE_CHANGE_WINDOW_MS;
+  const eventIds = new Set([input.eventId]);
+  for (const write of input.recentActorWrites ?? []) {
+    if (new Date(write.created_at).getTime() < windowStart) continue;
+    if (touchesDateFields(write.changed_fields)) eventIds.add(write.event_id_at_observation);
+  }
+  return eventIds.size >= DATE_CHANGE_EVENT_THRESHOLD;
+}
+
+function isVenueSwap(changedFields: FieldChange[]): boolean {
+  const venue = changedFields.find((c) => c.field === "venue_id");
+  return venue?.kind === "scalar" && venue.before !== null && venue.after !== venue.before;
+}
+
+function isNewAccount(createdAt: string | null | undefined, now: Date): boolean {
+  if (!createdAt) return false;
+  const created = new Date(createdAt).getTime();
+  if (Number.isNaN(created)) return false;
+  return now.getTime() - created < NEW_ACCOUNT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function isCancellation(input: ScoreEventEditInput): boolean {
+  if (input.action === "cancel") return true;
+  const status = input.changedFields.find((c) => c.field === "status");
+  return status?.kind === "scalar" && status.after === "cancelled";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scorer
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function scoreEventEdit(input: ScoreEventEditInput): EventEditScore {
+  if (input.actorRole === "admin") {
+    return { score: 0, signals: [], shouldAlertImmediately: false };
+  }
+
+  const signals: SuspicionSignal[] = [];
+
+  if (isMassDateChange(input)) signals.push("mass_date_change");
+  if (input.eventIsPublished && isVenueSwap(input.changedFields)) signals.push("venue_swap_published");
+  if (input.eventIsPublished && input.action !== "create" && isNewAccount(input.actorCreatedAt, input.now)) {
+    signals.push("new_account_published_edit");
+  }
+  if (input.actorRole === "cohost" && isCancellation(input)) signals.push("cohost_cancellation");
+  if (input.userAgentClass === "bot") signals.push("bot_user_agent");
+
+  const score = Math.min(
+    100,
+    signals.reduce((sum, signal) => sum + SUSPICION_SIGNAL_WEIGHTS[signal], 0)
+  );
+
+  return {
+    score,
+    signals,
+    shouldAlertImmediately: score >= ALERT_SCORE_THRESHOLD,
+  };
+}
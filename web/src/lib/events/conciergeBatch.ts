@@ -0,0 +1,377 @@
+/**
+ * Concierge batch create — turns a parsed schedule (`ConciergeIR`) into a
+ * reviewable set of rows and the write plan for POST /api/my-events/batch.
+ *
+ * Shapes:
+ *   one_offs       one event row per occurrence
+ *   custom_series  one event row (recurrence_rule="custom", custom_dates);
+ *                  dates whose time or notes differ become occurrence overrides
+ *   overrides      per-date overrides on an existing series
+ *
+ * Per-date lineups become performer timeslots with guest claims, in lineup
+ * order. Each row is run through the concierge validator on its own, so a
+ * bad date or time blocks that row instead of the whole schedule.
+ *
+ * Pure — no I/O. The client builds the review and the request; the route
+ * parses it again and commits everything through create_event_batch().
+ */
+
+import type { ConciergeIR } from "@/lib/events/conciergeIR";
+import { validate, type LedgerQuestion } from "@/lib/events/conciergeValidator";
+
+export type ConciergeBatchShape = "one_offs" | "custom_series" | "overrides";
+
+export const CONCIERGE_BATCH_SHAPES: readonly ConciergeBatchShape[] = [
+  "one_offs",
+  "custom_series",
+  "overrides",
+] as const;
+
+// Same cap as the custom-dates mode of POST /api/my-events
+export const CONCIERGE_BATCH_MAX_CUSTOM_DATES = 12;
+export const CONCIERGE_BATCH_MAX_ROWS = 31;
+export const CONCIERGE_BATCH_MAX_LINEUP = 40;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/;
+const DEFAULT_SLOT_DURATION_MINUTES = 15;
+
+export type ConciergeBatchRow = {
+  date_key: string;
+  /** HH:MM; null falls back to the event's start time */
+  start_time: string | null;
+  end_time: string | null;
+  lineup: string[];
+  notes: string | null;
+};
+
+export type ConciergeBatchRowReview = ConciergeBatchRow & {
+  /** Blocking problems — the row cannot be sent until it is fixed or left out */
+  issues: string[];
+  /** Open questions the validator kept for this date (not blocking) */
+  questions: LedgerQuestion[];
+};
+
+export type ConciergeBatchRequest = {
+  shape: ConciergeBatchShape;
+  /** overrides: the series to write to */
+  event_id: string | null;
+  /** one_offs / custom_series: the create body shared by every row (same fields as POST /api/my-events) */
+  event: Record<string, unknown> | null;
+  rows: ConciergeBatchRow[];
+  /** Publish every created event in the same transaction; drafts otherwise */
+  publish: boolean;
+};
+
+export type ConciergeBatchParseResult =
+  | { ok: true; value: ConciergeBatchRequest }
+  | { ok: false; error: string };
+
+export type ConciergeBatchOverride = {
+  date_key: string;
+  override_start_time: string | null;
+  override_notes: string | null;
+};
+
+export type ConciergeBatchTimeslot = {
+  date_key: string;
+  slot_index: number;
+  start_offset_minutes: number | null;
+  duration_minutes: number;
+};
+
+export type ConciergeBatchClaim = {
+  date_key: string;
+  slot_index: number;
+  guest_name: string;
+};
+
+/** One element of create_event_batch(p_entries) */
+export type ConciergeBatchEntry = {
+  event?: Record<string, unknown>;
+  event_id?: string;
+  overrides: ConciergeBatchOverride[];
+  timeslots: ConciergeBatchTimeslot[];
+  claims: ConciergeBatchClaim[];
+};
+
+/**
+ * Fill IR gaps from the interpreted draft before validation. The parser only
+ * sees the pasted text; the interpreter may already have resolved the venue
+ * or title, and the validator should not halt on facts the draft carries.
+ */
+export function fillConciergeIrFromDraft(ir: ConciergeIR, draft: Record<string, unknown> | null): ConciergeIR {
+  if (!draft) return ir;
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const draftStart = text(draft.start_time)?.slice(0, 5) ?? null;
+
+  return {
+    ...ir,
+    title: ir.title ?? text(draft.title),
+    shared_facts: {
+      ...ir.shared_facts,
+      venue: ir.shared_facts.venue ?? text(draft.venue_name) ?? text(draft.custom_location_name),
+      time:
+        ir.shared_facts.time ??
+        (draftStart ? { start: draftStart, end: text(draft.end_time)?.slice(0, 5) ?? null } : null),
+    },
+  };
+}
+
+/** Rows for review, in date order, each validated against the source text on its own */
+export function buildConciergeBatchReview(input: {
+  ir: ConciergeIR;
+  rawSource: string;
+  todayIso: string;
+}): ConciergeBatchRowReview[] {
+  const { ir, rawSource, todayIso } = input;
+  const seen = new Set<string>();
+
+  return [...ir.occurrences]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((occurrence) => {
+      const result = validate({
+        ir: { ...ir, occurrences: [occurrence] },
+        rawSource,
+        todayIso,
+      });
+      const issues = result.halt
+        ? result.reasons.filter((reason) => reason.gate <= 2).map((reason) => reason.detail)
+        : [];
+
+      const startTime = occurrence.start_time ?? ir.shared_facts.time?.start ?? null;
+      if (!startTime) issues.push("no start time");
+      if (occurrence.date < todayIso) issues.push("date is in the past");
+      if (seen.has(occurrence.date)) issues.push("date listed twice");
+      seen.add(occurrence.date);
+
+      return {
+        date_key: occurrence.date,
+        start_time: startTime,
+        end_time: occurrence.end_time ?? (occurrence.start_time ? null : ir.shared_facts.time?.end ?? null),
+        lineup: occurrence.lineup.map((name) => name.trim()).filter(Boolean),
+        notes: occurrence.per_date_notes,
+        issues,
+        questions: result.questionLedger,
+      };
+    });
+}
+
+/** Existing series → overrides; otherwise one custom series while it fits, one-offs beyond that */
+export function suggestConciergeBatchShape(rowCount: number, existingEventId: string | null): ConciergeBatchShape {
+  if (existingEventId) return "overrides";
+  return rowCount <= CONCIERGE_BATCH_MAX_CUSTOM_DATES ? "custom_series" : "one_offs";
+}
+
+export function parseConciergeBatchRequest(body: unknown, options: { todayKey: string }): ConciergeBatchParseResult {
+  if (!isRecord(body)) return { ok: false, error: "Invalid request body" };
+
+  const shape = body.shape as ConciergeBatchShape;
+  if (!CONCIERGE_BATCH_SHAPES.includes(shape)) {
+    return { ok: false, error: `shape must be one of: ${CONCIERGE_BATCH_SHAPES.join(", ")}` };
+  }
+
+  if (!Array.isArray(body.rows) || body.rows.length === 0) {
+    return { ok: false, error: "rows must be a non-empty array" };
+  }
+  const maxRows = shape === "custom_series" ? CONCIERGE_BATCH_MAX_CUSTOM_DATES : CONCIERGE_BATCH_MAX_ROWS;
+  if (body.rows.length > maxRows) {
+    return {
+      ok: false,
+      error:
+        shape === "custom_series"
+          ? `A custom series holds up to ${maxRows} dates; create one-offs or split the schedule`
+          : `A batch holds up to ${maxRows} dates`,
+    };
+  }
+
+  const rows: ConciergeBatchRow[] = [];
+  const seen = new Set<string>();
+  for (const raw of body.rows) {
+    if (!isRecord(raw) || typeof raw.date_key !== "string" || !ISO_DATE_PATTERN.test(raw.date_key)) {
+      return { ok: false, error: "Each row needs a date_key (YYYY-MM-DD)" };
+    }
+    const dateKey = raw.date_key;
+    if (dateKey < options.todayKey) return { ok: false, error: `${dateKey} is in the past` };
+    if (seen.has(dateKey)) return { ok: false, error: `${dateKey} is listed twice` };
+    seen.add(dateKey);
+
+    const startTime = parseOptionalTime(raw.start_time);
+    const endTime = parseOptionalTime(raw.end_time);
+    if (startTime === undefined || endTime === undefined) {
+      return { ok: false, error: `${dateKey}: times must be HH:MM` };
+    }
+
+    const lineup = Array.isArray(raw.lineup)
+      ? raw.lineup.filter((name): name is string => typeof name === "string").map((name) => name.trim()).filter(Boolean)
+      : [];
+    if (lineup.length > CONCIERGE_BATCH_MAX_LINEUP) {
+      return { ok: false, error: `${dateKey}: lineup holds up to ${CONCIERGE_BATCH_MAX_LINEUP} performers` };
+    }
+
+    rows.push({
+      date_key: dateKey,
+      start_time: startTime,
+      end_time: endTime,
+      lineup: lineup.map((name) => name.slice(0, 120)),
+      notes: typeof raw.notes === "string" && raw.notes.trim() ? raw.notes.trim() : null,
+    });
+  }
+  rows.sort((a, b) => a.date_key.localeCompare(b.date_key));
+
+  if (shape === "overrides") {
+    if (typeof body.event_id !== "string" || !body.event_id.trim()) {
+      return { ok: false, error: "event_id is required for overrides" };
+    }
+    return {
+      ok: true,
+      value: { shape, event_id: body.event_id.trim(), event: null, rows, publish: false },
+    };
+  }
+
+  if (!isRecord(body.event)) return { ok: false, error: "event is required" };
+  const fallbackStart = parseOptionalTime(body.event.start_time);
+  const missingTime = rows.find((row) => !row.start_time && !fallbackStart);
+  if (missingTime) return { ok: false, error: `${missingTime.date_key} has no start time` };
+
+  return {
+    ok: true,
+    value: { shape, event_id: null, event: body.event, rows, publish: body.publish === true },
+  };
+}
+
+/** The most common start/end across rows (first wins a tie) — the series template */
+export function pickConciergeSeriesTiming(
+  rows: ConciergeBatchRow[],
+  fallback: { start_time: string | null; end_time: string | null }
+): { start_time: string | null; end_time: string | null } {
+  const start = mostCommon(rows.map((row) => row.start_time ?? fallback.start_time));
+  const startRows = rows.filter((row) => (row.start_time ?? fallback.start_time) === start);
+  return {
+    start_time: start,
+    end_time: mostCommon(startRows.map((row) => row.end_time ?? fallback.end_time)),
+  };
+}
+
+/** Override rows for dates that differ from the series start time or carry notes */
+export function buildConciergeOverrides(rows: ConciergeBatchRow[], seriesStartTime: string | null): ConciergeBatchOverride[] {
+  return rows.flatMap((row) => {
+    const differs = !!row.start_time && toMinutes(row.start_time) !== toMinutes(seriesStartTime);
+    if (!differs && !row.notes) return [];
+    return [
+      {
+        date_key: row.date_key,
+        override_start_time: differs ? row.start_time : null,
+        override_notes: row.notes,
+      },
+    ];
+  });
+}
+
+/**
+ * Performer slots for each date and guest claims for its lineup, in order.
+ * Dates that already have slots (an existing series) only get claims on the
+ * open ones; dates without slots get `totalSlots` new ones.
+ */
+export function planConciergeLineupSlots(input: {
+  dateKeys: string[];
+  lineups: Record<string, string[]>;
+  totalSlots: number;
+  slotDurationMinutes: number | null;
+  hasStartTime: boolean;
+  existingSlots?: Array<{ date_key: string; slot_index: number; claimed: boolean }>;
+}): { ok: true; timeslots: ConciergeBatchTimeslot[]; claims: ConciergeBatchClaim[] } | { ok: false; error: string } {
+  const duration = input.slotDurationMinutes ?? DEFAULT_SLOT_DURATION_MINUTES;
+  const timeslots: ConciergeBatchTimeslot[] = [];
+  const claims: ConciergeBatchClaim[] = [];
+
+  for (const dateKey of input.dateKeys) {
+    const existing = (input.existingSlots ?? []).filter((slot) => slot.date_key === dateKey);
+    let openIndexes: number[];
+
+    if (existing.length > 0) {
+      openIndexes = existing
+        .filter((slot) => !slot.claimed)
+        .map((slot) => slot.slot_index)
+        .sort((a, b) => a - b);
+    } else {
+      openIndexes = [];
+      for (let slotIndex = 0; slotIndex < input.totalSlots; slotIndex++) {
+        timeslots.push({
+          date_key: dateKey,
+          slot_index: slotIndex,
+          start_offset_minutes: input.hasStartTime ? slotIndex * duration : null,
+          duration_minutes: duration,
+        });
+        openIndexes.push(slotIndex);
+      }
+    }
+
+    const lineup = input.lineups[dateKey] ?? [];
+    if (lineup.length > openIndexes.length) {
+      return {
+        ok: false,
+        error: `${dateKey}: ${lineup.length} performers but only ${openIndexes.length} open slots`,
+      };
+    }
+    lineup.forEach((guestName, position) => {
+      claims.push({ date_key: dateKey, slot_index: openIndexes[position], guest_name: guestName });
+    });
+  }
+
+  return { ok: true, timeslots, claims };
+}
+
+/** Request body for POST /api/my-events/batch from the reviewed rows the host kept */
+export function buildConciergeBatchRequest(input: {
+  shape: ConciergeBatchShape;
+  rows: ConciergeBatchRowReview[];
+  event: Record<string, unknown> | null;
+  eventId: string | null;
+  publish: boolean;
+}): ConciergeBatchRequest {
+  return {
+    shape: input.shape,
+    event_id: input.shape === "overrides" ? input.eventId : null,
+    event: input.shape === "overrides" ? null : input.event,
+    rows: input.rows.map(({ date_key, start_time, end_time, lineup, notes }) => ({
+      date_key,
+      start_time,
+      end_time,
+      lineup,
+      notes,
+    })),
+    publish: input.shape === "overrides" ? false : input.publish,
+  };
+}
+
+function parseOptionalTime(value: unknown): string | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value !== "string") return undefined;
+  const match = TIME_PATTERN.exec(value.trim());
+  return match ? `${match[1]}:${match[2]}` : undefined;
+}
+
+function toMinutes(time: string | null): number | null {
+  if (!time) return null;
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function mostCommon(values: Array<string | null>): string | null {
+  const counts = new Map<string | null, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
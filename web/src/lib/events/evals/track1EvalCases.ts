@@ -1,8 +1,33 @@
+import type { OrderedImageReference } from "../aiPromptContract";
+import type { InterpretMode } from "../interpretEventContract";
+
 export type Track1ExpectedScope = "series" | "occurrence" | "ambiguous";
 
+/**
+ * Everything the interpret route would know for this turn besides the
+ * prompt. The runner builds the user envelope from it, so keep it to what
+ * the route really sends (e.g. the venue catalog is only sent in edit
+ * modes when the message mentions a location).
+ */
+export type Track1EvalCaseInput = {
+  mode: InterpretMode;
+  dateKey?: string;
+  currentEvent?: Record<string, unknown> | null;
+  /** Create mode: fields the host already confirmed on earlier turns */
+  lockedDraft?: Record<string, unknown> | null;
+  conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>;
+  venueCatalog?: Array<{ id: string; name: string }>;
+  imageReferences?: OrderedImageReference[];
+  extractedImageText?: string;
+  /** Pinned "today" (America/Denver) so recorded turns replay on any day */
+  currentDate: string;
+};
+
 export type Track1EvalCase = {
   id: string;
   prompt: string;
+  /** Turn context for the end-to-end runner (track1EvalRunner.ts) */
+  input: Track1EvalCaseInput;
   expected: {
     scope?: Track1ExpectedScope;
     expectedFollowUpQuestion?: boolean;
@@ -14,10 +39,49 @@ export type Track1EvalCase = {
   notes: string;
 };
 
+export const TRACK1_EVAL_CURRENT_DATE = "2026-05-06";
+
+const LOST_LAKE = { id: "venue-lost-lake", name: "Lost Lake Lounge" };
+const MERCURY_CAFE = { id: "venue-mercury-cafe", name: "Mercury Cafe" };
+
+/** A weekly Thursday open mic, as projected into the prompt's current_event */
+const WEEKLY_OPEN_MIC = {
+  id: "event-weekly-open-mic",
+  title: "Mercury Cafe - Open Mic",
+  event_type: ["open_mic"],
+  event_date: "2026-04-30",
+  day_of_week: "Thursday",
+  start_time: "19:30:00",
+  end_time: "22:00:00",
+  signup_time: "19:00:00",
+  recurrence_rule: "weekly",
+  is_recurring: true,
+  location_mode: "venue",
+  venue_id: MERCURY_CAFE.id,
+  venue_name: MERCURY_CAFE.name,
+  is_free: true,
+  signup_mode: "in_person",
+  has_timeslots: false,
+  is_published: true,
+  status: "active",
+  description: "Weekly open mic for songwriters, poets and comics. Sign-up at 7, music at 7:30.",
+  timezone: "America/Denver",
+};
+
+function seriesEdit(overrides: Partial<Track1EvalCaseInput> = {}): Track1EvalCaseInput {
+  return {
+    mode: "edit_series",
+    currentEvent: WEEKLY_OPEN_MIC,
+    currentDate: TRACK1_EVAL_CURRENT_DATE,
+    ...overrides,
+  };
+}
+
 export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "scope-ambiguous-next-thursday",
     prompt: "move next Thursday to 7",
+    input: seriesEdit(),
     expected: {
       scope: "ambiguous",
       expectedFollowUpQuestion: true,
@@ -28,6 +92,7 @@ export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "scope-series-whole-series",
     prompt: "change the whole series to 6:30",
+    input: seriesEdit(),
     expected: {
       scope: "series",
       expectedFollowUpQuestion: false,
@@ -37,6 +102,12 @@ export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "image-switch-other-image",
     prompt: "use the other image",
+    input: seriesEdit({
+      imageReferences: [
+        { index: 0, clientId: "img-flyer", eventImageId: "event-image-flyer", fileName: "flyer.png", isCurrentCover: true },
+        { index: 1, clientId: "img-stage", eventImageId: "event-image-stage", fileName: "stage.jpg", isCurrentCover: false },
+      ],
+    }),
     expected: {
       expectedImageSelectionIndex: 1,
       expectedFollowUpQuestion: false,
@@ -47,6 +118,7 @@ export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "event-type-inferred-from-source",
     prompt: "Flyer says this is a songwriting workshop and open mic showcase.",
+    input: seriesEdit({ currentEvent: { ...WEEKLY_OPEN_MIC, event_type: [] } }),
     expected: {
       expectedEventTypeHint: "workshop|open mic|showcase",
       expectedFollowUpQuestion: false,
@@ -56,6 +128,7 @@ export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "venue-change-resolves-existing",
     prompt: "change the venue to Lost Lake",
+    input: seriesEdit({ venueCatalog: [LOST_LAKE, MERCURY_CAFE] }),
     expected: {
       expectedVenueResolverHint: "Lost Lake",
       expectedFollowUpQuestion: false,
@@ -65,6 +138,7 @@ export const TRACK1_EVAL_CASES: Track1EvalCase[] = [
   {
     id: "missing-event-type-no-hard-block",
     prompt: "update details but keep the style similar",
+    input: seriesEdit({ currentEvent: { ...WEEKLY_OPEN_MIC, event_type: [] } }),
     expected: {
       forbiddenPhrases: ["please provide event_type"],
     },
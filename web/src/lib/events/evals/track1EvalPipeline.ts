@@ -0,0 +1,350 @@
+/**
+ * Track 1 eval pipeline — one case, end to end
+ *
+ * Sends a Track1EvalCase through the same steps as /api/events/interpret:
+ *
+ *   1. prompt: base system prompt + aiPromptContract additions, the user
+ *      envelope built from the case input, the event_interpretation schema
+ *   2. one provider call (live, or a cassette replay)
+ *   3. the lib-owned postprocess: sanitize, scope ambiguity, venue
+ *      resolution, locked-draft merge, event-type hints and the future-date
+ *      guard (create), series-mode normalization, blocking-field pruning,
+ *      required-field check, single-question reduction
+ *   4. the concierge validator over the follow-up question and external_url
+ *
+ * Route-private steps (location hints, web search, the draft verifier,
+ * title fallbacks) are not replayed, so a score tracks the prompt contract
+ * rather than the whole route.
+ */
+
+import {
+  appendAiPromptContractAdditions,
+  buildAiPromptResponseSchema,
+  buildAiPromptUserEnvelope,
+  decideScopeAmbiguity,
+  isAiInterpretScope,
+  projectCurrentEventForPrompt,
+  resolveNaturalLanguageImageReference,
+} from "../aiPromptContract";
+import { parse } from "../conciergeScheduleParser";
+import { validate, type LedgerQuestion, type ValidatorReason } from "../conciergeValidator";
+import {
+  sanitizeInterpretDraftPayload,
+  validateNextAction,
+  validateSanitizedDraftPayload,
+  type NextAction,
+} from "../interpretEventContract";
+import { buildInterpretSystemPrompt } from "../interpretSystemPrompt";
+import {
+  applyEventTypeHint,
+  applyFutureDateGuard,
+  applyVenueTypeTitleDefault,
+  mergeLockedCreateDraft,
+  normalizeInterpreterLocationMode,
+  normalizeSeriesModeConsistency,
+  pruneOptionalBlockingFields,
+  pruneSatisfiedBlockingFields,
+  reduceClarificationToSingle,
+} from "../interpreterPostprocess";
+import { asRecord, parseJsonBody, type LlmProvider, type LlmRequest } from "../llm/llmProvider";
+import { resolveVenue, shouldResolveVenue, type VenueResolutionOutcome } from "../venueResolver";
+import type { Track1EvalScenarioOutput } from "./runTrack1EvalHarness";
+import type { Track1EvalCase } from "./track1EvalCases";
+
+export type Track1PipelineResult = {
+  /** What the harness scores (evaluateTrack1Case) */
+  output: Track1EvalScenarioOutput;
+  nextAction: NextAction;
+  blockingFields: string[];
+  draft: Record<string, unknown>;
+  /** Concierge validator findings that count as failures */
+  validatorFailures: string[];
+  validatorReasons: ValidatorReason[];
+};
+
+/** Blocking fields → concierge question-ledger fields */
+const LEDGER_FIELD_BY_BLOCKING_FIELD: Record<string, string> = {
+  venue_id: "venue",
+  venue_name: "venue",
+  custom_location_name: "venue",
+  custom_address: "address",
+  custom_city: "city",
+  custom_state: "state",
+  start_date: "date",
+  event_date: "date",
+  date_key: "date",
+  start_time: "time",
+  end_time: "time",
+  signup_time: "time",
+  cost_label: "cost",
+  is_free: "cost",
+  signup_mode: "signup",
+  signup_url: "signup",
+};
+
+/** The exact request the route sends for the main interpretation call */
+export function buildTrack1InterpretRequest(testCase: Track1EvalCase, model: string): LlmRequest {
+  const { input } = testCase;
+  const eventId = input.currentEvent?.id;
+
+  return {
+    model,
+    instructions: appendAiPromptContractAdditions(buildInterpretSystemPrompt()),
+    input: buildAiPromptUserEnvelope({
+      mode: input.mode,
+      message: testCase.prompt,
+      dateKey: input.dateKey,
+      eventId: typeof eventId === "string" ? eventId : undefined,
+      conversationHistory: input.conversationHistory ?? [],
+      venueCatalog: input.venueCatalog ?? [],
+      currentEvent: input.currentEvent ? projectCurrentEventForPrompt(input.currentEvent) : null,
+      lockedDraft: input.lockedDraft,
+      extractedImageText: input.extractedImageText,
+      imageReferences: input.imageReferences ?? [],
+      currentDate: input.currentDate,
+    }),
+    maxOutputTokens: 2500,
+    jsonSchema: {
+      name: "event_interpretation",
+      schema: buildAiPromptResponseSchema(),
+    },
+  };
+}
+
+/** Throws on upstream errors and unusable model output (the route's 502s) */
+export async function runTrack1EvalPipeline(
+  testCase: Track1EvalCase,
+  options: { provider: LlmProvider; model: string; signal?: AbortSignal }
+): Promise<Track1PipelineResult> {
+  const response = await options.provider.respond(buildTrack1InterpretRequest(testCase, options.model), {
+    signal: options.signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Interpreter upstream error (${response.status})`);
+  }
+
+  const payload = asRecord(response.text ? parseJsonBody(response.text) : null);
+  if (!payload) {
+    throw new Error("Interpreter returned non-JSON output");
+  }
+
+  return postprocessInterpretation(testCase, payload);
+}
+
+function postprocessInterpretation(
+  testCase: Track1EvalCase,
+  payload: Record<string, unknown>
+): Track1PipelineResult {
+  const { input } = testCase;
+  const { mode } = input;
+  const message = testCase.prompt;
+  const history = input.conversationHistory ?? [];
+  const venueCatalog = input.venueCatalog ?? [];
+
+  if (!validateNextAction(payload.next_action)) {
+    throw new Error("Interpreter output missing valid next_action");
+  }
+  if (!isAiInterpretScope(payload.scope)) {
+    throw new Error("Interpreter output missing valid scope");
+  }
+
+  let nextAction: NextAction = payload.next_action;
+  let blockingFields = Array.isArray(payload.blocking_fields)
+    ? payload.blocking_fields
+        .filter((field): field is string => typeof field === "string")
+        .map((field) => field.trim())
+        .filter(Boolean)
+    : [];
+  let question =
+    typeof payload.clarification_question === "string" ? payload.clarification_question.trim() || null : null;
+  const humanSummary = typeof payload.human_summary === "string" ? payload.human_summary.trim() : "";
+  const draft = sanitizeInterpretDraftPayload(mode, payload.draft_payload, input.dateKey);
+
+  const scopeDecision = decideScopeAmbiguity({
+    mode,
+    scope: payload.scope,
+    modelNextAction: nextAction,
+    modelClarificationQuestion: question,
+    modelBlockingFields: blockingFields,
+  });
+  if (scopeDecision.forced) {
+    nextAction = scopeDecision.nextAction;
+    question = scopeDecision.clarificationQuestion;
+    blockingFields = scopeDecision.blockingFields;
+  }
+
+  // The case's venue catalog is what the route would have sent, and the
+  // route only sends one in edit modes when the message has location intent.
+  let venueResolution: VenueResolutionOutcome | null = null;
+  if (shouldResolveVenue({ mode, hasLocationIntent: venueCatalog.length > 0, draftPayload: draft })) {
+    venueResolution = resolveVenue({
+      draftVenueId: draft.venue_id as string | null | undefined,
+      draftVenueName:
+        (draft.venue_name as string | null | undefined) ?? (draft.custom_location_name as string | null | undefined),
+      userMessage: message,
+      venueCatalog,
+      draftLocationMode: draft.location_mode as string | null | undefined,
+      draftOnlineUrl: draft.online_url as string | null | undefined,
+      isCustomLocation: hasText(draft.custom_location_name) && !draft.venue_id,
+    });
+
+    if (venueResolution.status === "resolved") {
+      draft.venue_id = venueResolution.venueId;
+      draft.venue_name = venueResolution.venueName;
+      if (!draft.location_mode || draft.location_mode === "online") {
+        draft.location_mode = "venue";
+      }
+    } else if (venueResolution.status === "ambiguous" || venueResolution.status === "unresolved") {
+      const blockingField =
+        draft.location_mode === "online" && !hasText(draft.online_url) ? "online_url" : "venue_id";
+      if (nextAction !== "ask_clarification") {
+        nextAction = "ask_clarification";
+        question =
+          venueResolution.status === "ambiguous"
+            ? `I found multiple possible venues matching "${venueResolution.inputName}". Which one did you mean?`
+            : "I couldn't find a known venue. Could you provide the venue name, or specify if this is an online event?";
+      }
+      if (!blockingFields.includes(blockingField)) {
+        blockingFields.push(blockingField);
+      }
+    }
+  }
+
+  if (mode === "create") {
+    mergeLockedCreateDraft({ draft, lockedDraft: input.lockedDraft ?? null, message, conversationHistory: history });
+    applyEventTypeHint({ draft, message, history, extractedImageText: input.extractedImageText });
+    draft.location_mode = normalizeInterpreterLocationMode(
+      draft.location_mode,
+      hasText(draft.online_url) ? "online" : "venue"
+    );
+    applyVenueTypeTitleDefault(draft);
+    applyFutureDateGuard({
+      draft,
+      message,
+      history,
+      extractedImageText: input.extractedImageText,
+      todayIso: input.currentDate,
+    });
+  }
+
+  normalizeSeriesModeConsistency(draft);
+  blockingFields = pruneSatisfiedBlockingFields(draft, blockingFields);
+  ({ blockingFields, clarificationQuestion: question } = pruneOptionalBlockingFields(
+    mode,
+    blockingFields,
+    question
+  ));
+
+  if (nextAction !== "ask_clarification") {
+    const draftValidation = validateSanitizedDraftPayload(mode, draft);
+    if (!draftValidation.ok) {
+      nextAction = "ask_clarification";
+      const missingField = draftValidation.blockingField || "required field";
+      if (!blockingFields.includes(missingField)) blockingFields.push(missingField);
+      question = `What should the ${missingField.replace(/_/g, " ")} be?`;
+    }
+  }
+
+  if (nextAction === "ask_clarification") {
+    ({ blockingFields, clarificationQuestion: question } = reduceClarificationToSingle(blockingFields, question));
+  }
+  if (nextAction === "ask_clarification" && blockingFields.length === 0) {
+    question = null;
+    nextAction = "show_preview";
+  }
+
+  const followUpQuestion = nextAction === "ask_clarification" ? question : null;
+  const validation = validateFollowUp(testCase, draft, blockingFields, followUpQuestion);
+
+  return {
+    output: {
+      scope: payload.scope,
+      followUpQuestion,
+      selectedImageIndex: getSelectedImageIndex(testCase, draft),
+      venueResolutionHint: describeVenueResolution(venueResolution, draft),
+      inferredEventTypes: Array.isArray(draft.event_type)
+        ? draft.event_type.filter((type): type is string => typeof type === "string")
+        : [],
+      assistantText: [humanSummary, followUpQuestion].filter(Boolean).join("\n"),
+    },
+    nextAction,
+    blockingFields,
+    draft,
+    ...validation,
+  };
+}
+
+/**
+ * Run the concierge validator over the turn's source. Only the model's
+ * question is judged (the parser's own suggestions are dropped), so a gate
+ * firing means the interpreter asked something the source already answers
+ * or kept a maps/search link as external_url.
+ */
+function validateFollowUp(
+  testCase: Track1EvalCase,
+  draft: Record<string, unknown>,
+  blockingFields: string[],
+  followUpQuestion: string | null
+): Pick<Track1PipelineResult, "validatorFailures" | "validatorReasons"> {
+  const { input } = testCase;
+  const rawSource = [
+    testCase.prompt,
+    ...(input.conversationHistory ?? []).filter((entry) => entry.role === "user").map((entry) => entry.content),
+    input.extractedImageText ?? "",
+  ].join("\n");
+  const ir = parse({
+    source_kind: input.mode === "create" ? "conversation" : "existing_event_edit",
+    raw_text: rawSource,
+    today_iso: input.currentDate,
+  });
+
+  const candidateQuestions: LedgerQuestion[] = followUpQuestion
+    ? blockingFields.map((field) => ({
+        field: LEDGER_FIELD_BY_BLOCKING_FIELD[field] ?? field,
+        reason: followUpQuestion,
+      }))
+    : [];
+  const result = validate({
+    ir: { ...ir, suggested_questions: [] },
+    rawSource,
+    candidateQuestions,
+    candidateExternalUrl: hasText(draft.external_url) ? draft.external_url : undefined,
+    todayIso: input.currentDate,
+  });
+
+  const failures = result.reasons
+    .filter((reason) => [3, 4, 5, 7].includes(reason.gate) || (reason.gate === 9 && reason.detail.startsWith("dropped")))
+    .map((reason) => `concierge validator gate ${reason.gate} (${reason.field}): ${reason.detail}`);
+
+  return { validatorFailures: failures, validatorReasons: result.reasons };
+}
+
+/** Deterministic reference resolution first, then the cover the model picked */
+function getSelectedImageIndex(testCase: Track1EvalCase, draft: Record<string, unknown>): number | null {
+  const imageReferences = testCase.input.imageReferences ?? [];
+  if (imageReferences.length === 0) return null;
+
+  const decision = resolveNaturalLanguageImageReference({ message: testCase.prompt, imageReferences });
+  if (decision.status === "selected") return decision.reference.index;
+
+  const cover = draft.cover_image_url;
+  if (!hasText(cover)) return null;
+  const match = imageReferences.find((ref) => ref.eventImageId && cover.includes(ref.eventImageId));
+  return match ? match.index : null;
+}
+
+function describeVenueResolution(
+  venueResolution: VenueResolutionOutcome | null,
+  draft: Record<string, unknown>
+): string | null {
+  if (venueResolution?.status === "resolved") return `Matched venue: ${venueResolution.venueName}`;
+  if (venueResolution?.status === "ambiguous") {
+    return `Ambiguous venue: ${venueResolution.candidates.map((candidate) => candidate.name).join(", ")}`;
+  }
+  if (venueResolution?.status === "unresolved") return `Unresolved venue: ${venueResolution.inputName ?? "none"}`;
+  return hasText(draft.venue_name) ? `Draft venue: ${draft.venue_name}` : null;
+}
+
+function hasText(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import type { CassetteRecording } from "../llm/cassetteProvider";
+import type { LlmProvider, LlmRequest } from "../llm/llmProvider";
+import { toOpenAiLlmResponse } from "../llm/openAiProvider";
+import { TRACK1_EVAL_CASES, TRACK1_EVAL_CURRENT_DATE } from "./track1EvalCases";
+import { buildTrack1InterpretRequest } from "./track1EvalPipeline";
+import {
+  diffTrack1EvalRuns,
+  formatTrack1EvalDashboard,
+  runTrack1Evals,
+  type Track1EvalRun,
+} from "./track1EvalRunner";
+import {
+  buildTrack1CaseFromRecording,
+  loadTrack1EvalCaseFiles,
+  loadTrack1EvalRuns,
+  saveTrack1EvalRun,
+} from "./track1EvalStore";
+
+function interpretation(overrides: Record<string, unknown> = {}) {
+  return {
+    next_action: "show_preview",
+    scope: "series",
+    confidence: 0.9,
+    human_summary: "Updated the draft.",
+    clarification_question: null,
+    blocking_fields: [],
+    draft_payload: {},
+    ...overrides,
+  };
+}
+
+/** Answers from a table keyed by the user message in the prompt envelope */
+function fakeProvider(answers: Record<string, Record<string, unknown>>): LlmProvider & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+  return {
+    name: "openai",
+    supportsWebSearch: true,
+    requests,
+    async respond(request) {
+      requests.push(request);
+      const message = JSON.parse(request.input as string).message as string;
+      const answer = answers[message];
+      if (!answer) throw new Error(`No cassette recording for ${request.model}`);
+      return toOpenAiLlmResponse(200, JSON.stringify({ output_text: JSON.stringify(answer) }));
+    },
+  };
+}
+
+const GOOD_ANSWERS: Record<string, Record<string, unknown>> = {
+  "move next Thursday to 7": interpretation({ scope: "ambiguous", draft_payload: { start_time: "19:00:00" } }),
+  "change the whole series to 6:30": interpretation({ draft_payload: { start_time: "18:30:00" } }),
+  "use the other image": interpretation({ draft_payload: { cover_image_url: "event-image-stage" } }),
+  "Flyer says this is a songwriting workshop and open mic showcase.": interpretation({
+    draft_payload: { event_type: ["workshop", "open_mic", "showcase"] },
+  }),
+  "change the venue to Lost Lake": interpretation({ draft_payload: { venue_name: "Lost Lake Lounge" } }),
+  "update details but keep the style similar": interpretation({
+    human_summary: "Kept the open mic style and refreshed the description.",
+  }),
+};
+
+function caseRun(id: string, passed: boolean) {
+  return {
+    id,
+    passed,
+    failures: passed ? [] : ["expected scope ambiguous, got series"],
+    output: null,
+    nextAction: null,
+    validatorReasons: [],
+    durationMs: 1,
+    error: null,
+  };
+}
+
+function run(runId: string, startedAt: string, hash: string, cases: ReturnType<typeof caseRun>[]): Track1EvalRun {
+  return {
+    runId,
+    startedAt,
+    provider: "cassette",
+    model: "gpt-5.4-nano",
+    promptContractHash: hash,
+    passed: cases.filter((entry) => entry.passed).length,
+    total: cases.length,
+    cases,
+  };
+}
+
+describe("track1 eval runner", () => {
+  it("sends the route's interpretation request with the case's pinned context", () => {
+    const venueCase = TRACK1_EVAL_CASES.find((testCase) => testCase.id === "venue-change-resolves-existing")!;
+    const request = buildTrack1InterpretRequest(venueCase, "gpt-5.4-nano");
+    const envelope = JSON.parse(request.input as string);
+
+    expect(request.instructions).toContain("Work like a strong event-ops assistant");
+    expect(request.instructions).toContain("Scope contract (REQUIRED)");
+    expect(request.jsonSchema?.name).toBe("event_interpretation");
+    expect(request.maxOutputTokens).toBe(2500);
+    expect(envelope).toMatchObject({
+      mode: "edit_series",
+      message: "change the venue to Lost Lake",
+      current_date: TRACK1_EVAL_CURRENT_DATE,
+      event_id: "event-weekly-open-mic",
+      venue_catalog: [
+        { id: "venue-lost-lake", name: "Lost Lake Lounge" },
+        { id: "venue-mercury-cafe", name: "Mercury Cafe" },
+      ],
+    });
+  });
+
+  it("scores every built-in case end to end", async () => {
+    const provider = fakeProvider(GOOD_ANSWERS);
+    const result = await runTrack1Evals({
+      cases: TRACK1_EVAL_CASES,
+      provider,
+      model: "gpt-5.4-nano",
+      now: () => new Date("2026-05-06T18:00:00.000Z"),
+    });
+
+    expect(result.cases.filter((entry) => !entry.passed)).toEqual([]);
+    expect(result).toMatchObject({ passed: 6, total: 6, provider: "openai", model: "gpt-5.4-nano" });
+    expect(result.promptContractHash).toMatch(/^[0-9a-f]{12}$/);
+    expect(result.runId).toBe(`2026-05-06T18-00-00-000Z-${result.promptContractHash}`);
+    expect(provider.requests).toHaveLength(6);
+
+    const byId = Object.fromEntries(result.cases.map((entry) => [entry.id, entry]));
+    // Server forces the clarification even though the model returned a preview
+    expect(byId["scope-ambiguous-next-thursday"].nextAction).toBe("ask_clarification");
+    expect(byId["image-switch-other-image"].output?.selectedImageIndex).toBe(1);
+    expect(byId["venue-change-resolves-existing"].output?.venueResolutionHint).toBe("Matched venue: Lost Lake Lounge");
+  });
+
+  it("fails cases on expectation misses, validator gates and provider errors", async () => {
+    const [ambiguous, series] = TRACK1_EVAL_CASES;
+    const provider = fakeProvider({
+      "move next Thursday to 7": interpretation({ draft_payload: { start_time: "19:00:00" } }),
+      "change the whole series to 6:30": interpretation({
+        draft_payload: { start_time: "18:30:00", external_url: "https://maps.google.com/?q=Mercury+Cafe" },
+      }),
+    });
+    const missing = { ...series, id: "not-recorded", prompt: "something nobody recorded" };
+
+    const result = await runTrack1Evals({ cases: [ambiguous, series, missing], provider, model: "gpt-5.4-nano" });
+
+    expect(result.passed).toBe(0);
+    expect(result.cases[0].failures).toContain("expected scope ambiguous, got series");
+    expect(result.cases[1].failures).toEqual([
+      expect.stringContaining("concierge validator gate 9 (external_url): dropped maps/search URL"),
+    ]);
+    expect(result.cases[2]).toMatchObject({ output: null, error: "No cassette recording for gpt-5.4-nano" });
+  });
+
+  it("diffs runs into regressions, fixes and case-set changes", () => {
+    const baseline = run("run-1", "2026-05-01T00:00:00.000Z", "aaaaaaaaaaaa", [
+      caseRun("a", true),
+      caseRun("b", false),
+      caseRun("c", false),
+      caseRun("gone", true),
+    ]);
+    const current = run("run-2", "2026-05-02T00:00:00.000Z", "bbbbbbbbbbbb", [
+      caseRun("a", false),
+      caseRun("b", true),
+      caseRun("c", false),
+      caseRun("new", true),
+    ]);
+
+    expect(diffTrack1EvalRuns(baseline, current)).toEqual({
+      baselineRunId: "run-1",
+      currentRunId: "run-2",
+      promptContractChanged: true,
+      regressed: [{ id: "a", failures: ["expected scope ambiguous, got series"] }],
+      fixed: ["b"],
+      stillFailing: ["c"],
+      added: ["new"],
+      removed: ["gone"],
+    });
+
+    const dashboard = formatTrack1EvalDashboard([current, baseline]);
+    expect(dashboard).toContain("| run-1 | cassette | gpt-5.4-nano | aaaaaaaaaaaa | 2/4 (50%) |");
+    expect(dashboard).toContain("| a | ✅ | ❌ |");
+    expect(dashboard).toContain("Prompt contract changed between these runs.");
+    expect(dashboard).toContain("### Regressed (1)");
+  });
+});
+
+describe("track1 eval store", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "track1-evals-"));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("keeps run history oldest first and treats a missing directory as empty", async () => {
+    await expect(loadTrack1EvalRuns(path.join(dir, "runs"))).resolves.toEqual([]);
+
+    const later = run("run-2", "2026-05-02T00:00:00.000Z", "aaaaaaaaaaaa", [caseRun("a", true)]);
+    const earlier = run("run-1", "2026-05-01T00:00:00.000Z", "aaaaaaaaaaaa", [caseRun("a", true)]);
+    await saveTrack1EvalRun(path.join(dir, "runs"), later);
+    await saveTrack1EvalRun(path.join(dir, "runs"), earlier);
+
+    const runs = await loadTrack1EvalRuns(path.join(dir, "runs"));
+    expect(runs.map((entry) => entry.runId)).toEqual(["run-1", "run-2"]);
+  });
+
+  it("turns a recorded interpretation into an anonymized case", () => {
+    const recorded = buildTrack1InterpretRequest(
+      {
+        ...TRACK1_EVAL_CASES[0],
+        prompt: "move it to 7, call me at 303-555-0142 or jo@example.com, details at https://example.com/jo/events?id=9",
+        input: {
+          ...TRACK1_EVAL_CASES[0].input,
+          imageReferences: [
+            { index: 0, clientId: "tmp-abc", eventImageId: "5f3c", fileName: "jo-flyer.png", isCurrentCover: true },
+          ],
+        },
+      },
+      "gpt-5.4-nano"
+    );
+    const recording: CassetteRecording = {
+      version: 1,
+      key: "f".repeat(64),
+      provider: "openai",
+      request: recorded,
+      response: { status: 200, body: "{}" },
+      recordedAt: "2026-05-06T18:00:00.000Z",
+    };
+
+    const testCase = buildTrack1CaseFromRecording(recording, {
+      id: "recorded-move-to-7",
+      expected: { scope: "ambiguous" },
+      notes: "Real edit turn.",
+    });
+
+    expect(testCase.prompt).toBe("move it to 7, call me at [phone] or [email], details at https://example.com/…");
+    expect(testCase.input).toMatchObject({
+      mode: "edit_series",
+      currentDate: TRACK1_EVAL_CURRENT_DATE,
+      currentEvent: { id: "event-recorded", title: "Mercury Cafe - Open Mic" },
+      imageReferences: [
+        { index: 0, clientId: "image-0", eventImageId: "event-image-0", fileName: null, isCurrentCover: true },
+      ],
+    });
+
+    expect(() =>
+      buildTrack1CaseFromRecording(
+        { ...recording, request: { ...recorded, jsonSchema: { name: "draft_verification", schema: {} } } },
+        { id: "x", expected: {}, notes: "" }
+      )
+    ).toThrow("is not an event interpretation call");
+  });
+
+  it("loads case files and rejects ones without an input fixture", async () => {
+    fs.writeFileSync(path.join(dir, "good.json"), JSON.stringify(TRACK1_EVAL_CASES[1]));
+    await expect(loadTrack1EvalCaseFiles(dir)).resolves.toEqual([TRACK1_EVAL_CASES[1]]);
+
+    fs.writeFileSync(path.join(dir, "bad.json"), JSON.stringify({ id: "bad", prompt: "hi", expected: {} }));
+    await expect(loadTrack1EvalCaseFiles(dir)).rejects.toThrow("bad.json is not a Track 1 eval case");
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Track 1 eval runner — scored runs, regression diffs, dashboard
+ *
+ * runTrack1Evals() sends every case through track1EvalPipeline.ts and scores
+ * it with evaluateTrack1Case() plus the concierge-validator findings. Each
+ * run carries a hash of the prompt contract (system prompt, contract
+ * additions, response schema), so diffTrack1EvalRuns() can tell a prompt
+ * change apart from model drift when cases flip.
+ *
+ * Persisting runs and growing the case set live in track1EvalStore.ts; the
+ * CLI is web/scripts/run-track1-evals.ts.
+ */
+
+import { createHash } from "node:crypto";
+import { appendAiPromptContractAdditions, buildAiPromptResponseSchema } from "../aiPromptContract";
+import type { ValidatorReason } from "../conciergeValidator";
+import type { NextAction } from "../interpretEventContract";
+import { buildInterpretSystemPrompt } from "../interpretSystemPrompt";
+import type { LlmProvider, LlmProviderName } from "../llm/llmProvider";
+import { evaluateTrack1Case, type Track1EvalScenarioOutput } from "./runTrack1EvalHarness";
+import type { Track1EvalCase } from "./track1EvalCases";
+import { runTrack1EvalPipeline } from "./track1EvalPipeline";
+
+export type Track1EvalCaseRun = {
+  id: string;
+  passed: boolean;
+  failures: string[];
+  output: Track1EvalScenarioOutput | null;
+  nextAction: NextAction | null;
+  validatorReasons: ValidatorReason[];
+  durationMs: number;
+  /** Set when the case never produced an interpretation (upstream error, bad JSON, missing cassette) */
+  error: string | null;
+};
+
+export type Track1EvalRun = {
+  runId: string;
+  startedAt: string;
+  provider: LlmProviderName;
+  model: string;
+  promptContractHash: string;
+  passed: number;
+  total: number;
+  cases: Track1EvalCaseRun[];
+};
+
+export type Track1EvalRunDiff = {
+  baselineRunId: string;
+  currentRunId: string;
+  promptContractChanged: boolean;
+  /** Passed in the baseline, failing now */
+  regressed: Array<{ id: string; failures: string[] }>;
+  fixed: string[];
+  stillFailing: string[];
+  /** Cases only in the current run / only in the baseline */
+  added: string[];
+  removed: string[];
+};
+
+/** Short sha256 of everything the model is told, independent of the case */
+export function getTrack1PromptContractHash(): string {
+  return createHash("sha256")
+    .update(appendAiPromptContractAdditions(buildInterpretSystemPrompt()))
+    .update(JSON.stringify(buildAiPromptResponseSchema()))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/** Cases run one at a time, in order (rate limits, readable logs) */
+export async function runTrack1Evals(options: {
+  cases: Track1EvalCase[];
+  provider: LlmProvider;
+  model: string;
+  now?: () => Date;
+  onCase?: (result: Track1EvalCaseRun) => void;
+}): Promise<Track1EvalRun> {
+  const now = options.now ?? (() => new Date());
+  const startedAt = now().toISOString();
+  const promptContractHash = getTrack1PromptContractHash();
+  const cases: Track1EvalCaseRun[] = [];
+
+  for (const testCase of options.cases) {
+    const caseStartedAt = now().getTime();
+    let result: Omit<Track1EvalCaseRun, "durationMs">;
+
+    try {
+      const pipeline = await runTrack1EvalPipeline(testCase, {
+        provider: options.provider,
+        model: options.model,
+      });
+      const score = evaluateTrack1Case(testCase, pipeline.output);
+      const failures = [...score.failures, ...pipeline.validatorFailures];
+      result = {
+        id: testCase.id,
+        passed: failures.length === 0,
+        failures,
+        output: pipeline.output,
+        nextAction: pipeline.nextAction,
+        validatorReasons: pipeline.validatorReasons,
+        error: null,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = {
+        id: testCase.id,
+        passed: false,
+        failures: [`error: ${message}`],
+        output: null,
+        nextAction: null,
+        validatorReasons: [],
+        error: message,
+      };
+    }
+
+    const caseRun = { ...result, durationMs: now().getTime() - caseStartedAt };
+    cases.push(caseRun);
+    options.onCase?.(caseRun);
+  }
+
+  return {
+    runId: `${startedAt.replace(/[:.]/g, "-")}-${promptContractHash}`,
+    startedAt,
+    provider: options.provider.name,
+    model: options.model,
+    promptContractHash,
+    passed: cases.filter((caseRun) => caseRun.passed).length,
+    total: cases.length,
+    cases,
+  };
+}
+
+export function diffTrack1EvalRuns(baseline: Track1EvalRun, current: Track1EvalRun): Track1EvalRunDiff {
+  const baselineById = new Map(baseline.cases.map((caseRun) => [caseRun.id, caseRun]));
+  const currentIds = new Set(current.cases.map((caseRun) => caseRun.id));
+  const diff: Track1EvalRunDiff = {
+    baselineRunId: baseline.runId,
+    currentRunId: current.runId,
+    promptContractChanged: baseline.promptContractHash !== current.promptContractHash,
+    regressed: [],
+    fixed: [],
+    stillFailing: [],
+    added: [],
+    removed: baseline.cases.filter((caseRun) => !currentIds.has(caseRun.id)).map((caseRun) => caseRun.id),
+  };
+
+  for (const caseRun of current.cases) {
+    const before = baselineById.get(caseRun.id);
+    if (!before) {
+      diff.added.push(caseRun.id);
+    } else if (before.passed && !caseRun.passed) {
+      diff.regressed.push({ id: caseRun.id, failures: caseRun.failures });
+    } else if (!before.passed && caseRun.passed) {
+      diff.fixed.push(caseRun.id);
+    } else if (!caseRun.passed) {
+      diff.stillFailing.push(caseRun.id);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Markdown regression dashboard: pass rate per run, a case × run grid for
+ * the most recent runs, and the diff between the last two runs.
+ */
+export function formatTrack1EvalDashboard(runs: Track1EvalRun[], options: { gridRuns?: number } = {}): string {
+  if (runs.length === 0) return "# Track 1 Eval Dashboard\n\nNo runs yet.\n";
+
+  const ordered = [...runs].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const recent = ordered.slice(-(options.gridRuns ?? 8));
+  const lines = [
+    "# Track 1 Eval Dashboard",
+    "",
+    "## Runs",
+    "",
+    "| Run | Provider | Model | Prompt contract | Passed |",
+    "| --- | --- | --- | --- | --- |",
+    ...ordered.map(
+      (run) =>
+        `| ${run.runId} | ${run.provider} | ${run.model} | ${run.promptContractHash} | ${run.passed}/${run.total} (${formatPercent(run.passed, run.total)}) |`
+    ),
+    "",
+    "## Cases",
+    "",
+    `| Case | ${recent.map((_, index) => `#${ordered.length - recent.length + index + 1}`).join(" | ")} |`,
+    `| --- | ${recent.map(() => "---").join(" | ")} |`,
+  ];
+
+  const caseIds = [...new Set(recent.flatMap((run) => run.cases.map((caseRun) => caseRun.id)))];
+  for (const id of caseIds) {
+    const cells = recent.map((run) => {
+      const caseRun = run.cases.find((entry) => entry.id === id);
+      if (!caseRun) return " ";
+      if (caseRun.error) return "⚠️";
+      return caseRun.passed ? "✅" : "❌";
+    });
+    lines.push(`| ${id} | ${cells.join(" | ")} |`);
+  }
+
+  if (ordered.length >= 2) {
+    const diff = diffTrack1EvalRuns(ordered[ordered.length - 2], ordered[ordered.length - 1]);
+    lines.push("", formatTrack1EvalDiff(diff).trimEnd());
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatTrack1EvalDiff(diff: Track1EvalRunDiff): string {
+  const lines = [
+    "## Latest Change",
+    "",
+    `${diff.baselineRunId} → ${diff.currentRunId}`,
+    "",
+    diff.promptContractChanged
+      ? "Prompt contract changed between these runs."
+      : "Prompt contract unchanged (differences are model or fixture drift).",
+    "",
+  ];
+
+  if (diff.regressed.length === 0) {
+    lines.push("No regressions.");
+  } else {
+    lines.push(`### Regressed (${diff.regressed.length})`, "");
+    for (const regression of diff.regressed) {
+      lines.push(`- ${regression.id}`);
+      for (const failure of regression.failures) lines.push(`  - ${failure}`);
+    }
+  }
+
+  for (const [label, ids] of [
+    ["Fixed", diff.fixed],
+    ["Still failing", diff.stillFailing],
+    ["Added", diff.added],
+    ["Removed", diff.removed],
+  ] as const) {
+    if (ids.length > 0) lines.push("", `${label}: ${ids.join(", ")}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function formatPercent(passed: number, total: number): string {
+  return total === 0 ? "0%" : `${Math.round((passed / total) * 100)}%`;
+}
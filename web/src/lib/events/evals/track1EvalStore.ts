@@ -0,0 +1,165 @@
+/**
+ * Track 1 eval storage — run history and recorded cases on disk
+ *
+ *   runs/   one `<runId>.json` per scored run (track1EvalRunner.ts)
+ *   cases/  extra Track1EvalCase files, one per JSON file, run after the
+ *           built-in TRACK1_EVAL_CASES
+ *
+ * Cases can be grown from real edit turns: record the interpret route with
+ * the cassette provider, then turn a recording into a case with
+ * buildTrack1CaseFromRecording(). Emails, phone numbers, URL paths, event
+ * ids and image file names are scrubbed; venue catalog entries are public
+ * and kept. Web search and Google Maps hints are not carried over, so a
+ * recorded case reruns against the prompt contract alone.
+ *
+ * Server-only (reads and writes the filesystem).
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import { buildOrderedImageReferences } from "../aiPromptContract";
+import { validateInterpretMode } from "../interpretEventContract";
+import type { CassetteRecording } from "../llm/cassetteProvider";
+import { asRecord, parseJsonBody } from "../llm/llmProvider";
+import type { Track1EvalCase } from "./track1EvalCases";
+import type { Track1EvalRun } from "./track1EvalRunner";
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const URL_PATTERN = /\bhttps?:\/\/([^\s/?#]+)[^\s]*/gi;
+
+export async function saveTrack1EvalRun(dir: string, run: Track1EvalRun): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `${run.runId}.json`);
+  await writeFile(filePath, `${JSON.stringify(run, null, 2)}\n`, "utf-8");
+  return filePath;
+}
+
+/** Oldest first; a missing directory is an empty history */
+export async function loadTrack1EvalRuns(dir: string): Promise<Track1EvalRun[]> {
+  const runs = (await readJsonFiles(dir)).map(({ value }) => value as Track1EvalRun);
+  return runs.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+export async function loadTrack1EvalCaseFiles(dir: string): Promise<Track1EvalCase[]> {
+  return (await readJsonFiles(dir)).map(({ file, value }) => {
+    const testCase = asRecord(value);
+    const input = asRecord(testCase?.input);
+    if (
+      !testCase ||
+      typeof testCase.id !== "string" ||
+      typeof testCase.prompt !== "string" ||
+      !asRecord(testCase.expected) ||
+      !input ||
+      !validateInterpretMode(input.mode) ||
+      typeof input.currentDate !== "string"
+    ) {
+      throw new Error(`${file} is not a Track 1 eval case (needs id, prompt, expected, input.mode, input.currentDate)`);
+    }
+    return testCase as unknown as Track1EvalCase;
+  });
+}
+
+export async function saveTrack1EvalCase(dir: string, testCase: Track1EvalCase): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `${testCase.id}.json`);
+  await writeFile(filePath, `${JSON.stringify(testCase, null, 2)}\n`, "utf-8");
+  return filePath;
+}
+
+/**
+ * Turn a recorded interpretation call into an anonymized case. The
+ * expectations come from the maintainer — a recording only says what the
+ * model did, not what it should have done.
+ */
+export function buildTrack1CaseFromRecording(
+  recording: CassetteRecording,
+  details: Pick<Track1EvalCase, "id" | "expected" | "notes">
+): Track1EvalCase {
+  if (recording.request.jsonSchema?.name !== "event_interpretation") {
+    throw new Error(`Recording ${recording.key} is not an event interpretation call`);
+  }
+
+  const envelope = asRecord(
+    typeof recording.request.input === "string" ? parseJsonBody(recording.request.input) : null
+  );
+  if (
+    !envelope ||
+    !validateInterpretMode(envelope.mode) ||
+    typeof envelope.message !== "string" ||
+    typeof envelope.current_date !== "string"
+  ) {
+    throw new Error(`Recording ${recording.key} has no interpret user envelope`);
+  }
+
+  const currentEvent = asRecord(envelope.current_event);
+  const lockedDraft = asRecord(envelope.locked_draft);
+  const history = Array.isArray(envelope.conversation_history) ? envelope.conversation_history : [];
+  const venueCatalog = Array.isArray(envelope.venue_catalog) ? envelope.venue_catalog : [];
+
+  return {
+    id: details.id,
+    prompt: scrubText(envelope.message),
+    input: {
+      mode: envelope.mode,
+      ...(typeof envelope.date_key === "string" ? { dateKey: envelope.date_key } : {}),
+      currentEvent: currentEvent ? { ...scrubValues(currentEvent), id: "event-recorded" } : null,
+      ...(lockedDraft ? { lockedDraft: scrubValues(lockedDraft) } : {}),
+      conversationHistory: history.flatMap((entry) => {
+        const record = asRecord(entry);
+        return record && (record.role === "user" || record.role === "assistant") && typeof record.content === "string"
+          ? [{ role: record.role, content: scrubText(record.content) }]
+          : [];
+      }),
+      venueCatalog: venueCatalog.flatMap((entry) => {
+        const record = asRecord(entry);
+        return record && typeof record.id === "string" && typeof record.name === "string"
+          ? [{ id: record.id, name: record.name }]
+          : [];
+      }),
+      imageReferences: buildOrderedImageReferences(envelope.image_references).map((ref) => ({
+        ...ref,
+        clientId: `image-${ref.index}`,
+        eventImageId: ref.eventImageId ? `event-image-${ref.index}` : ref.eventImageId,
+        fileName: null,
+      })),
+      ...(typeof envelope.extracted_image_text === "string"
+        ? { extractedImageText: scrubText(envelope.extracted_image_text) }
+        : {}),
+      currentDate: envelope.current_date,
+    },
+    expected: details.expected,
+    notes: details.notes,
+  };
+}
+
+/** Emails and phone numbers out; URLs keep their host (maps/search checks need it) */
+export function scrubText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, "[email]")
+    .replace(URL_PATTERN, (_match, host: string) => `https://${host}/…`)
+    .replace(PHONE_PATTERN, "[phone]");
+}
+
+function scrubValues(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, typeof value === "string" ? scrubText(value) : value])
+  );
+}
+
+async function readJsonFiles(dir: string): Promise<Array<{ file: string; value: unknown }>> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return Promise.all(
+    files.map(async (file) => ({
+      file,
+      value: JSON.parse(await readFile(path.join(dir, file), "utf-8")) as unknown,
+    }))
+  );
+}
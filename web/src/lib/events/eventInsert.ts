@@ -0,0 +1,142 @@
+/**
+ * Event insert payloads shared by the create routes (POST /api/my-events and
+ * POST /api/my-events/batch), so both write the same columns and defaults.
+ */
+
+import { canonicalizeDayOfWeek } from "@/lib/events/recurrenceCanonicalization";
+import { normalizeIncomingEventTypes } from "@/lib/events/eventTypeContract";
+
+export function normalizeLocationMode(value: unknown): "venue" | "online" | "hybrid" {
+  if (typeof value !== "string") return "venue";
+  const mode = value.trim().toLowerCase();
+  if (mode === "venue" || mode === "in_person" || mode === "in-person" || mode === "custom") {
+    return "venue";
+  }
+  if (mode === "online" || mode === "virtual") return "online";
+  if (mode === "hybrid") return "hybrid";
+  return "venue";
+}
+
+/**
+ * Phase 4.42d: Unified event insert builder.
+ *
+ * This function builds the base insert payload for events, ensuring all
+ * RLS-required fields are consistently set for both single events and series.
+ *
+ * RLS Policy: host_manage_own_events requires (auth.uid() = host_id)
+ * Therefore host_id MUST be set to the session user's ID.
+ */
+export interface EventInsertParams {
+  userId: string;
+  body: Record<string, unknown>;
+  isCSCEvent: boolean;
+  eventStatus: string;
+  publishedAt: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  finalVenueId: string | null;
+  customLocationFields: {
+    custom_location_name: string | null;
+    custom_address: string | null;
+    custom_city: string | null;
+    custom_state: string | null;
+    custom_latitude: number | null;
+    custom_longitude: number | null;
+    location_notes: string | null;
+  };
+  eventDate: string;
+  seriesId: string | null;
+  seriesIndex: number | null;
+}
+
+export function buildEventInsert(params: EventInsertParams) {
+  const {
+    userId,
+    body,
+    isCSCEvent,
+    eventStatus,
+    publishedAt,
+    venueName,
+    venueAddress,
+    finalVenueId,
+    customLocationFields,
+    eventDate,
+    seriesId,
+    seriesIndex,
+  } = params;
+
+  return {
+    // CRITICAL: host_id is required by RLS policy host_manage_own_events
+    // WITH CHECK: (auth.uid() = host_id) OR is_admin()
+    host_id: userId,
+    title: body.title as string,
+    description: (body.description as string) || null,
+    event_type: normalizeIncomingEventTypes(body.event_type),
+    is_dsc_event: isCSCEvent,
+    // Phase 4.43: capacity is independent of timeslots (RSVP always available)
+    // capacity=null means unlimited RSVP, not "RSVP disabled"
+    capacity: (body.capacity as number) || null,
+    host_notes: (body.host_notes as string) || null,
+    // Venue fields (mutually exclusive with custom location)
+    venue_id: finalVenueId,
+    venue_name: venueName,
+    venue_address: venueAddress,
+    // Custom location fields (mutually exclusive with venue)
+    custom_location_name: customLocationFields.custom_location_name,
+    custom_address: customLocationFields.custom_address,
+    custom_city: customLocationFields.custom_city,
+    custom_state: customLocationFields.custom_state,
+    custom_latitude: customLocationFields.custom_latitude,
+    custom_longitude: customLocationFields.custom_longitude,
+    location_notes: customLocationFields.location_notes,
+    // Phase 4.83: Canonicalize day_of_week for ordinal monthly rules
+    // If recurrence_rule is ordinal monthly and day_of_week is missing, derive from anchor date
+    day_of_week: canonicalizeDayOfWeek(
+      body.recurrence_rule as string | null,
+      body.day_of_week as string | null,
+      eventDate
+    ),
+    start_time: body.start_time as string,
+    end_time: (body.end_time as string) || null,
+    recurrence_rule: (body.recurrence_rule as string) || null,
+    cover_image_url: (body.cover_image_url as string) || null,
+    status: eventStatus,
+    // Events start as drafts by default; host must explicitly publish
+    is_published: (body.is_published as boolean) ?? false,
+    published_at: publishedAt,
+    has_timeslots: (body.has_timeslots as boolean) ?? false,
+    total_slots: body.has_timeslots ? (body.total_slots as number) : null,
+    slot_duration_minutes: body.has_timeslots ? (body.slot_duration_minutes as number) : null,
+    allow_guest_slots: body.has_timeslots ? ((body.allow_guests as boolean) ?? false) : false,
+    // Series fields
+    event_date: eventDate,
+    series_id: seriesId,
+    series_index: seriesIndex,
+    // Max occurrences: null = infinite, N = stops after N occurrences
+    max_occurrences: (body.occurrence_count as number) > 0 ? (body.occurrence_count as number) : null,
+    // Additional fields
+    timezone: (body.timezone as string) || "America/Denver",
+    location_mode: (body.location_mode as string) || "venue",
+    online_url: (body.online_url as string) || null,
+    is_free: (body.is_free as boolean) ?? null,
+    cost_label: (body.cost_label as string) || null,
+    signup_mode: (body.signup_mode as string) || null,
+    lottery_cutoff_offset_minutes: (body.lottery_cutoff_offset_minutes as number) ?? 0,
+    signup_url: (body.signup_url as string) || null,
+    signup_deadline: (body.signup_deadline as string) || null,
+    signup_time: (body.signup_time as string) || null,
+    age_policy: (body.age_policy as string) || (isCSCEvent ? "18+ only" : null),
+    external_url: (body.external_url as string) || null,
+    youtube_url: (body.youtube_url as string) || null,
+    spotify_url: (body.spotify_url as string) || null,
+    // Categories (multi-select array)
+    categories: (body.categories as string[])?.length > 0 ? body.categories : null,
+    // Custom dates (for recurrence_rule="custom" events)
+    custom_dates: Array.isArray(body.custom_dates) && body.custom_dates.length > 0 ? body.custom_dates : null,
+    source: "community",
+    // Phase 4.42k A1b: Auto-confirm community events when published
+    // Set last_verified_at to mark as confirmed, but leave verified_by null
+    // (verified_by null means auto-confirmed, not admin-verified)
+    last_verified_at: publishedAt, // null for drafts, timestamp for published
+  };
+}
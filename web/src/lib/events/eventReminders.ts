@@ -0,0 +1,196 @@
+/**
+ * Event Reminders
+ *
+ * Client-safe timing and recipient rules for the reminder scheduler
+ * (/api/cron/event-reminders → eventRemindersServer.ts).
+ *
+ * - Attendee reminder: eventReminder email to confirmed RSVPs and confirmed
+ *   slot claimants, events.reminder_hours_before ahead of the occurrence
+ *   (NULL disables). One email per person even if they RSVP'd AND claimed.
+ * - Host briefing: hostEventBriefing email to the owner and accepted
+ *   co-hosts HOST_BRIEFING_HOURS_BEFORE ahead of the occurrence.
+ *
+ * Start times are computed per date_key with occurrence overrides applied
+ * (override_start_time / override_patch.start_time / override_patch.event_date).
+ */
+
+import type { ReminderTiming } from "@/lib/email/templates/eventReminder";
+import { denverWallTimeToDate } from "./lottery";
+import {
+  applyOccurrenceOverride,
+  denverDateKeyFromDate,
+  type OccurrenceOverride,
+} from "./nextOccurrence";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_REMINDER_HOURS_BEFORE = 24;
+/** Capped so the email always reads today/tonight/tomorrow */
+export const MAX_REMINDER_HOURS_BEFORE = 24;
+export const REMINDER_HOURS_OPTIONS = [2, 4, 8, 12, 24] as const;
+
+export const HOST_BRIEFING_HOURS_BEFORE = 3;
+
+/** Occurrences starting at or after this Denver hour are "tonight" */
+const EVENING_START_HOUR = 17;
+
+export type ReminderType = "attendee" | "host_briefing";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function validateReminderHours(
+  value: unknown
+): { hours: number | null } | { error: string } {
+  if (value === null) return { hours: null };
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return { error: "reminder_hours_before must be a whole number of hours or null" };
+  }
+  if (value < 1 || value > MAX_REMINDER_HOURS_BEFORE) {
+    return { error: `reminder_hours_before must be between 1 and ${MAX_REMINDER_HOURS_BEFORE}` };
+  }
+  return { hours: value };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ReminderOccurrence {
+  /** Identity date_key (never changes on reschedule) */
+  dateKey: string;
+  /** Date the occurrence actually happens (override_patch.event_date) */
+  occurrenceDate: string;
+  /** Effective HH:MM[:SS] start time */
+  startTime: string;
+  startsAt: Date;
+}
+
+/**
+ * Resolves when an occurrence starts with its override applied. Returns
+ * null for cancelled occurrences, occurrences unpublished via override and
+ * events without a start time.
+ */
+export function resolveReminderOccurrence(
+  event: { start_time: string | null },
+  dateKey: string,
+  override: OccurrenceOverride | null | undefined
+): ReminderOccurrence | null {
+  if (override?.status === "cancelled") return null;
+
+  const effective = applyOccurrenceOverride(
+    { start_time: event.start_time, event_date: dateKey, is_published: true } as Record<string, unknown>,
+    override
+  );
+  if (effective.is_published === false) return null;
+
+  const startTime = typeof effective.start_time === "string" ? effective.start_time : null;
+  if (!startTime) return null;
+
+  const occurrenceDate =
+    typeof effective.event_date === "string" && effective.event_date ? effective.event_date : dateKey;
+
+  return {
+    dateKey,
+    occurrenceDate,
+    startTime,
+    startsAt: denverWallTimeToDate(occurrenceDate, startTime),
+  };
+}
+
+/**
+ * True from `hoursBefore` ahead of the start until the occurrence starts.
+ * Cron runs that miss the exact moment still send late rather than never.
+ */
+export function isReminderDue(startsAt: Date, hoursBefore: number, now: Date): boolean {
+  const opensAt = startsAt.getTime() - hoursBefore * 60 * 60 * 1000;
+  return now.getTime() >= opensAt && now.getTime() < startsAt.getTime();
+}
+
+export function getReminderTiming(occurrence: ReminderOccurrence, now: Date): ReminderTiming {
+  if (occurrence.occurrenceDate !== denverDateKeyFromDate(now)) return "tomorrow";
+  const hour = Number(occurrence.startTime.split(":")[0]);
+  return hour >= EVENING_START_HOUR ? "tonight" : "today";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recipients
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ReminderRsvpRow {
+  user_id: string | null;
+  guest_name: string | null;
+  guest_email: string | null;
+  guest_verified: boolean | null;
+}
+
+export interface ReminderClaimRow {
+  member_id: string | null;
+  guest_name: string | null;
+  guest_email: string | null;
+  guest_verified: boolean | null;
+  slot_index: number;
+}
+
+export interface ReminderRecipient {
+  /** "user:<id>" or "guest:<email>" — the event_reminder_sends recipient_key */
+  key: string;
+  userId: string | null;
+  /** Guests only; members are emailed at their profile address */
+  guestEmail: string | null;
+  guestName: string | null;
+  /** 1-based slot number when the recipient is on the lineup */
+  slotNumber?: number;
+}
+
+export function reminderRecipientKey(person: { userId: string | null; guestEmail: string | null }): string | null {
+  if (person.userId) return `user:${person.userId}`;
+  if (person.guestEmail) return `guest:${person.guestEmail.trim().toLowerCase()}`;
+  return null;
+}
+
+/**
+ * Confirmed RSVPs + confirmed claimants, deduplicated per person. Guests
+ * are only reminded at a verified email. Claimants keep their slot number
+ * (earliest slot if they somehow hold two).
+ */
+export function buildReminderRecipients(
+  rsvps: ReminderRsvpRow[],
+  claims: ReminderClaimRow[]
+): ReminderRecipient[] {
+  const byKey = new Map<string, ReminderRecipient>();
+
+  const add = (
+    userId: string | null,
+    guestEmail: string | null,
+    guestVerified: boolean | null,
+    guestName: string | null,
+    slotNumber?: number
+  ) => {
+    const email = userId ? null : guestEmail?.trim() || null;
+    if (!userId && (!email || guestVerified !== true)) return;
+    const key = reminderRecipientKey({ userId, guestEmail: email });
+    if (!key) return;
+
+    const existing = byKey.get(key);
+    if (existing) {
+      if (slotNumber !== undefined && (existing.slotNumber === undefined || slotNumber < existing.slotNumber)) {
+        existing.slotNumber = slotNumber;
+      }
+      return;
+    }
+    byKey.set(key, { key, userId, guestEmail: email, guestName, slotNumber });
+  };
+
+  for (const claim of claims) {
+    add(claim.member_id, claim.guest_email, claim.guest_verified, claim.guest_name, claim.slot_index + 1);
+  }
+  for (const rsvp of rsvps) {
+    add(rsvp.user_id, rsvp.guest_email, rsvp.guest_verified, rsvp.guest_name);
+  }
+
+  return [...byKey.values()];
+}
@@ -0,0 +1,372 @@
+/**
+ * Event Reminder Scheduler (server-only)
+ *
+ * Sends attendee reminders and host briefings for occurrences starting
+ * soon. Pass a service-role client: event_reminder_sends has no policies
+ * and recipients' emails come from profiles / guest claims.
+ *
+ * At most once per person per occurrence: the event_reminder_sends row is
+ * inserted BEFORE the email goes out, so overlapping cron runs lose on the
+ * unique constraint (same fail-closed pattern as digestSendLog.ts).
+ * Members go through sendEmailWithPreferences (attendee_activity /
+ * host_activity); verified guests have no preferences and use sendEmail.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { sendEmail } from "@/lib/email/mailer";
+import { sendEmailWithPreferences } from "@/lib/email/sendWithPreferences";
+import { SITE_URL } from "@/lib/email/render";
+import { getEventReminderEmail } from "@/lib/email/templates/eventReminder";
+import {
+  getHostEventBriefingEmail,
+  type HostBriefingLineupEntry,
+  type HostBriefingWaitlistEntry,
+} from "@/lib/email/templates/hostEventBriefing";
+import { formatDateKeyForEmail } from "./dateKeyContract";
+import {
+  addDaysDenver,
+  buildOverrideKey,
+  buildOverrideMap,
+  expandOccurrencesForEvent,
+  getTodayDenver,
+  type OccurrenceOverride,
+} from "./nextOccurrence";
+import { formatTimeToAMPM } from "@/lib/recurrenceHumanizer";
+import {
+  buildReminderRecipients,
+  getReminderTiming,
+  HOST_BRIEFING_HOURS_BEFORE,
+  isReminderDue,
+  resolveReminderOccurrence,
+  type ReminderClaimRow,
+  type ReminderOccurrence,
+  type ReminderType,
+} from "./eventReminders";
+
+const REMINDER_EVENT_COLUMNS =
+  "id, title, slug, host_id, start_time, event_date, day_of_week, recurrence_rule, custom_dates, max_occurrences, reminder_hours_before, venue_name, venue_address";
+
+interface ReminderEvent {
+  id: string;
+  title: string;
+  slug: string | null;
+  host_id: string | null;
+  start_time: string | null;
+  event_date: string | null;
+  day_of_week: string | null;
+  recurrence_rule: string | null;
+  custom_dates: string[] | null;
+  max_occurrences: number | null;
+  reminder_hours_before: number | null;
+  venue_name: string | null;
+  venue_address: string | null;
+}
+
+type ServiceClient = SupabaseClient<Database>;
+
+export interface EventReminderRunResult {
+  occurrences: number;
+  remindersSent: number;
+  briefingsSent: number;
+}
+
+function formatSlotTime(startTime: string, offsetMinutes: number | null): string | null {
+  if (offsetMinutes === null) return null;
+  const [hours, minutes] = startTime.split(":").map(Number);
+  const total = hours * 60 + minutes + offsetMinutes;
+  return formatTimeToAMPM(`${Math.floor(total / 60) % 24}:${String(total % 60).padStart(2, "0")}`);
+}
+
+/**
+ * Claims the (occurrence, type, recipient) send slot. False when it was
+ * already claimed or the insert failed for any other reason (fail closed).
+ */
+async function claimReminderSend(
+  supabase: ServiceClient,
+  eventId: string,
+  dateKey: string,
+  reminderType: ReminderType,
+  recipientKey: string
+): Promise<boolean> {
+  const { error } = await supabase.from("event_reminder_sends").insert({
+    event_id: eventId,
+    date_key: dateKey,
+    reminder_type: reminderType,
+    recipient_key: recipientKey,
+  });
+  if (!error) return true;
+  if (error.code !== "23505") {
+    console.error("[EventReminders] Failed to record send:", eventId, dateKey, reminderType, error.message);
+  }
+  return false;
+}
+
+async function fetchProfiles(
+  supabase: ServiceClient,
+  userIds: string[]
+): Promise<Map<string, { email: string | null; full_name: string | null }>> {
+  if (userIds.length === 0) return new Map();
+  const { data } = await supabase.from("profiles").select("id, email, full_name").in("id", userIds);
+  return new Map((data || []).map((p) => [p.id, { email: p.email, full_name: p.full_name }]));
+}
+
+async function sendAttendeeReminders(
+  supabase: ServiceClient,
+  event: ReminderEvent,
+  occurrence: ReminderOccurrence,
+  now: Date
+): Promise<number> {
+  const { dateKey } = occurrence;
+  const [{ data: rsvps }, { data: claims }] = await Promise.all([
+    supabase
+      .from("event_rsvps")
+      .select("user_id, guest_name, guest_email, guest_verified")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .eq("status", "confirmed"),
+    supabase
+      .from("timeslot_claims")
+      .select("member_id, guest_name, guest_email, guest_verified, event_timeslots!inner(event_id, date_key, slot_index)")
+      .eq("event_timeslots.event_id", event.id)
+      .eq("event_timeslots.date_key", dateKey)
+      .eq("status", "confirmed"),
+  ]);
+
+  const claimRows: ReminderClaimRow[] = ((claims || []) as unknown as Array<
+    Omit<ReminderClaimRow, "slot_index"> & { event_timeslots: { slot_index: number } }
+  >).map((c) => ({ ...c, slot_index: c.event_timeslots.slot_index }));
+
+  const recipients = buildReminderRecipients(rsvps || [], claimRows);
+  if (recipients.length === 0) return 0;
+
+  const profiles = await fetchProfiles(
+    supabase,
+    recipients.map((r) => r.userId).filter((id): id is string => !!id)
+  );
+
+  const reminderType = getReminderTiming(occurrence, now);
+  const eventIdentifier = event.slug || event.id;
+  let sent = 0;
+
+  for (const recipient of recipients) {
+    const profile = recipient.userId ? profiles.get(recipient.userId) : undefined;
+    const to = recipient.userId ? profile?.email : recipient.guestEmail;
+    if (!to) continue;
+
+    if (!(await claimReminderSend(supabase, event.id, dateKey, "attendee", recipient.key))) continue;
+
+    const email = getEventReminderEmail({
+      userName: recipient.userId ? profile?.full_name : recipient.guestName,
+      eventTitle: event.title,
+      eventDate: formatDateKeyForEmail(occurrence.occurrenceDate),
+      eventTime: formatTimeToAMPM(occurrence.startTime),
+      venueName: event.venue_name || "TBD",
+      venueAddress: event.venue_address || undefined,
+      eventId: event.id,
+      eventSlug: event.slug,
+      dateKey,
+      reminderType,
+      slotNumber: recipient.slotNumber,
+    });
+    const payload = { to, subject: email.subject, html: email.html, text: email.text, templateName: "eventReminder" };
+
+    if (recipient.userId) {
+      const result = await sendEmailWithPreferences({
+        supabase,
+        userId: recipient.userId,
+        templateKey: "eventReminder",
+        payload,
+        notification: {
+          type: "event_reminder",
+          title: `${event.title} is ${reminderType}`,
+          message: `${formatTimeToAMPM(occurrence.startTime)} at ${event.venue_name || "the venue"}`,
+          link: `/events/${eventIdentifier}?date=${dateKey}`,
+        },
+      });
+      if (result.emailSent) sent++;
+    } else if (await sendEmail(payload)) {
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+async function sendHostBriefings(
+  supabase: ServiceClient,
+  event: ReminderEvent,
+  occurrence: ReminderOccurrence,
+  now: Date
+): Promise<number> {
+  const { dateKey } = occurrence;
+  const [{ data: cohosts }, { data: slots }, { data: rsvps }] = await Promise.all([
+    supabase
+      .from("event_hosts")
+      .select("user_id")
+      .eq("event_id", event.id)
+      .eq("invitation_status", "accepted"),
+    supabase
+      .from("event_timeslots")
+      .select("id, slot_index, start_offset_minutes")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .order("slot_index", { ascending: true }),
+    supabase
+      .from("event_rsvps")
+      .select("status")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .in("status", ["confirmed", "waitlist", "offered"]),
+  ]);
+
+  const hostIds = [...new Set([event.host_id, ...(cohosts || []).map((h) => h.user_id)].filter((id): id is string => !!id))];
+  const slotRows = slots || [];
+  const rsvpRows = rsvps || [];
+  // Nothing to brief for a night with no slots and no RSVPs
+  if (hostIds.length === 0 || (slotRows.length === 0 && rsvpRows.length === 0)) return 0;
+
+  const { data: claims } = slotRows.length
+    ? await supabase
+        .from("timeslot_claims")
+        .select("timeslot_id, status, member_id, guest_name, guest_email, guest_verified, waitlist_position")
+        .in("timeslot_id", slotRows.map((s) => s.id))
+        .in("status", ["confirmed", "waitlist", "offered"])
+    : { data: [] };
+  const claimRows = claims || [];
+
+  const profiles = await fetchProfiles(supabase, [
+    ...new Set([...hostIds, ...claimRows.map((c) => c.member_id).filter((id): id is string => !!id)]),
+  ]);
+  const nameOf = (claim: (typeof claimRows)[number]) =>
+    claim.member_id
+      ? profiles.get(claim.member_id)?.full_name || "Member"
+      : claim.guest_name || "Guest";
+  const guestVerified = (claim: (typeof claimRows)[number]) =>
+    claim.member_id ? undefined : claim.guest_verified === true && !!claim.guest_email;
+
+  const lineup: HostBriefingLineupEntry[] = [];
+  for (const slot of slotRows) {
+    const claim = claimRows.find((c) => c.timeslot_id === slot.id && c.status === "confirmed");
+    if (!claim) continue;
+    lineup.push({
+      slotNumber: slot.slot_index + 1,
+      slotTime: formatSlotTime(occurrence.startTime, slot.start_offset_minutes),
+      performerName: nameOf(claim),
+      isGuest: !claim.member_id,
+      guestContactVerified: guestVerified(claim),
+    });
+  }
+
+  const waitlist: HostBriefingWaitlistEntry[] = claimRows
+    .filter((c) => c.status === "waitlist" || c.status === "offered")
+    .sort((a, b) => (a.waitlist_position ?? Number.MAX_SAFE_INTEGER) - (b.waitlist_position ?? Number.MAX_SAFE_INTEGER))
+    .map((claim, idx) => ({
+      position: idx + 1,
+      name: nameOf(claim),
+      isGuest: !claim.member_id,
+      guestContactVerified: guestVerified(claim),
+    }));
+
+  const timing = getReminderTiming(occurrence, now);
+  const eventUrl = `${SITE_URL}/events/${event.slug || event.id}?date=${dateKey}`;
+  const manageUrl = `${SITE_URL}/dashboard/my-events/${event.id}`;
+  let sent = 0;
+
+  for (const hostId of hostIds) {
+    const profile = profiles.get(hostId);
+    if (!profile?.email) continue;
+    if (!(await claimReminderSend(supabase, event.id, dateKey, "host_briefing", `user:${hostId}`))) continue;
+
+    const email = getHostEventBriefingEmail({
+      recipientName: profile.full_name,
+      eventTitle: event.title,
+      eventDate: formatDateKeyForEmail(occurrence.occurrenceDate),
+      eventTime: formatTimeToAMPM(occurrence.startTime),
+      venueName: event.venue_name || "TBD",
+      eventUrl,
+      manageUrl,
+      timing: timing === "tomorrow" ? "today" : timing,
+      lineup,
+      openSlots: slotRows.length - lineup.length,
+      waitlist,
+      rsvpCount: rsvpRows.filter((r) => r.status === "confirmed").length,
+      rsvpWaitlistCount: rsvpRows.filter((r) => r.status !== "confirmed").length,
+    });
+
+    const result = await sendEmailWithPreferences({
+      supabase,
+      userId: hostId,
+      templateKey: "hostEventBriefing",
+      payload: { to: profile.email, subject: email.subject, html: email.html, text: email.text, templateName: "hostEventBriefing" },
+    });
+    if (result.emailSent) sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Cron sweep: every published, active event with a start time is expanded
+ * from yesterday through two days out (Denver), overrides are applied per
+ * date_key, and occurrences inside a reminder or briefing window are sent.
+ */
+export async function runDueEventReminders(
+  supabase: ServiceClient,
+  now: Date = new Date()
+): Promise<EventReminderRunResult> {
+  const result: EventReminderRunResult = { occurrences: 0, remindersSent: 0, briefingsSent: 0 };
+
+  const { data: events, error } = await supabase
+    .from("events")
+    .select(REMINDER_EVENT_COLUMNS)
+    .eq("is_published", true)
+    .eq("status", "active")
+    .not("start_time", "is", null);
+
+  if (error) {
+    console.error("[EventReminders] Failed to fetch events:", error.message);
+    return result;
+  }
+
+  const eventRows = (events || []) as ReminderEvent[];
+  if (eventRows.length === 0) return result;
+
+  const today = getTodayDenver();
+  const startKey = addDaysDenver(today, -1);
+  const endKey = addDaysDenver(today, 2);
+
+  const { data: overrides } = await supabase
+    .from("occurrence_overrides")
+    .select("event_id, date_key, status, override_start_time, override_patch")
+    .in("event_id", eventRows.map((e) => e.id))
+    .gte("date_key", startKey)
+    .lte("date_key", endKey);
+  const overrideMap = buildOverrideMap((overrides || []) as OccurrenceOverride[]);
+
+  for (const event of eventRows) {
+    for (const { dateKey } of expandOccurrencesForEvent(event, { startKey, endKey })) {
+      const occurrence = resolveReminderOccurrence(
+        event,
+        dateKey,
+        overrideMap.get(buildOverrideKey(event.id, dateKey))
+      );
+      if (!occurrence) continue;
+
+      const attendeeDue =
+        event.reminder_hours_before !== null && isReminderDue(occurrence.startsAt, event.reminder_hours_before, now);
+      const briefingDue = isReminderDue(occurrence.startsAt, HOST_BRIEFING_HOURS_BEFORE, now);
+      if (!attendeeDue && !briefingDue) continue;
+
+      result.occurrences++;
+      try {
+        if (attendeeDue) result.remindersSent += await sendAttendeeReminders(supabase, event, occurrence, now);
+        if (briefingDue) result.briefingsSent += await sendHostBriefings(supabase, event, occurrence, now);
+      } catch (err) {
+        console.error("[EventReminders] Failed to process occurrence:", event.id, dateKey, err);
+      }
+    }
+  }
+
+  return result;
+}
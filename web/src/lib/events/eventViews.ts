@@ -0,0 +1,96 @@
+/**
+ * Event view tracking (server-only)
+ *
+ * Records one anonymous event_views row per event page view or embed
+ * render for host analytics. Page views arrive from the EventViewBeacon
+ * client component via POST /api/events/[id]/view; the embed route calls
+ * this from after(). Either way tracking never delays or fails the page.
+ * Crawlers and link unfurlers are skipped, and a viewer (client IP + user
+ * agent) counts once per event, surface and UTC day.
+ */
+
+import { createHash } from "crypto";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { sanitizeReferralParams } from "@/lib/referrals";
+import { getSiteUrl } from "@/lib/siteUrl";
+
+export type EventViewSurface = "page" | "embed";
+
+const BOT_USER_AGENT_RE =
+  /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|lighthouse|curl|wget/i;
+
+export function isLikelyBot(userAgent: string | null): boolean {
+  return !userAgent || BOT_USER_AGENT_RE.test(userAgent);
+}
+
+/**
+ * Host of an external Referer, or null for direct traffic and navigation
+ * within the site.
+ */
+export function externalReferrerHost(referer: string | null, siteUrl = getSiteUrl()): string | null {
+  if (!referer) return null;
+  try {
+    const host = new URL(referer).hostname.toLowerCase().replace(/^www\./, "");
+    const siteHost = new URL(siteUrl).hostname.toLowerCase().replace(/^www\./, "");
+    return host && host !== siteHost ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Client IP from proxy headers, or null when there is none (local dev)
+ */
+export function clientIpFromHeaders(headers: Headers): string | null {
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim() || null;
+  return headers.get("x-real-ip");
+}
+
+/**
+ * Dedupe key for a viewer on a given day. Salted with the UTC date so it
+ * can't be linked across days; null without an IP (never deduped).
+ */
+export function eventViewerHash(clientIp: string | null, userAgent: string | null, now = new Date()): string | null {
+  if (!clientIp) return null;
+  const dailySalt = now.toISOString().slice(0, 10);
+  return createHash("sha256").update(`${clientIp}|${userAgent ?? ""}|${dailySalt}`).digest("hex");
+}
+
+export async function recordEventView(input: {
+  eventId: string;
+  dateKey: string | null;
+  surface: EventViewSurface;
+  searchParams: URLSearchParams | Record<string, string | string[] | undefined>;
+  referer: string | null;
+  userAgent: string | null;
+  clientIp: string | null;
+}): Promise<void> {
+  if (isLikelyBot(input.userAgent)) return;
+
+  const params =
+    input.searchParams instanceof URLSearchParams
+      ? input.searchParams
+      : new URLSearchParams(
+          Object.entries(input.searchParams).flatMap(([key, value]) =>
+            typeof value === "string" ? [[key, value]] : []
+          )
+        );
+  const referral = sanitizeReferralParams(params);
+
+  const serviceClient = createServiceRoleClient();
+  const { error } = await serviceClient.from("event_views").insert({
+    event_id: input.eventId,
+    date_key: input.dateKey,
+    surface: input.surface,
+    referral_via: referral.via ?? null,
+    referral_src: referral.src ?? null,
+    referrer_host: externalReferrerHost(input.referer),
+    viewer_hash: eventViewerHash(input.clientIp, input.userAgent),
+  });
+
+  // Unique violation: this viewer was already counted today
+  if (error && error.code !== "23505") {
+    console.error("[EventViews] Failed to record view:", input.eventId, error.message);
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Host Event Analytics
+ *
+ * Client-safe aggregation for the "Analytics" tab in
+ * dashboard/my-events/[id]. Everything is computed per occurrence (date_key)
+ * so hosts can show a venue owner how a night is trending.
+ *
+ * Loading lives in hostAnalyticsServer.ts; this module only counts.
+ *
+ * Definitions:
+ * - Slot fill rate: slots with a confirmed, performed or no-show claim / slots
+ * - No-show rate: no-show claims / (confirmed + performed + no-show claims)
+ * - Fill speed: minutes from signup_time (Denver) to each claim; claims made
+ *   before signup opened count as 0. Null when the event has no signup_time.
+ * - Returning performer: had a confirmed/performed/no-show claim at this event
+ *   on an earlier date_key (members by id, guests by email)
+ */
+
+import { denverWallTimeToDate } from "./lottery";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AnalyticsRsvpRow {
+  date_key: string;
+  status: string;
+}
+
+export interface AnalyticsTimeslotRow {
+  id: string;
+  date_key: string;
+}
+
+export interface AnalyticsClaimRow {
+  timeslot_id: string;
+  status: string;
+  member_id: string | null;
+  guest_email: string | null;
+  claimed_at: string | null;
+}
+
+export interface AnalyticsViewRow {
+  date_key: string | null;
+  surface: string;
+  referral_via: string | null;
+  referral_src: string | null;
+  referrer_host: string | null;
+}
+
+export interface EventAnalyticsInput {
+  signupTime: string | null;
+  rsvps: AnalyticsRsvpRow[];
+  timeslots: AnalyticsTimeslotRow[];
+  /** All claims for the event's timeslots (any date) */
+  claims: AnalyticsClaimRow[];
+  views: AnalyticsViewRow[];
+  /** Only occurrences inside [fromKey, toKey] are reported */
+  fromKey: string;
+  toKey: string;
+}
+
+export interface OccurrenceAnalytics {
+  dateKey: string;
+  rsvps: number;
+  waitlist: number;
+  slots: number;
+  slotsFilled: number;
+  /** 0..1, null without slots */
+  fillRate: number | null;
+  noShows: number;
+  /** 0..1, null without claims */
+  noShowRate: number | null;
+  medianMinutesToClaim: number | null;
+  /** Minutes from signup_time to the last slot filling; null unless full */
+  minutesToFull: number | null;
+  newPerformers: number;
+  returningPerformers: number;
+  pageViews: number;
+  embedViews: number;
+  /** Views by referral source label */
+  referrals: Record<string, number>;
+}
+
+export interface ReferralSourceTotal {
+  source: string;
+  pageViews: number;
+  embedViews: number;
+  total: number;
+}
+
+export interface EventAnalytics {
+  occurrences: OccurrenceAnalytics[];
+  totals: Omit<OccurrenceAnalytics, "dateKey" | "referrals" | "minutesToFull">;
+  referralSources: ReferralSourceTotal[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Default reporting window around today */
+export const ANALYTICS_DAYS_BACK = 180;
+export const ANALYTICS_DAYS_FORWARD = 60;
+
+export const DIRECT_REFERRAL_SOURCE = "Direct";
+
+const FILLED_CLAIM_STATUSES = new Set(["confirmed", "performed", "no_show"]);
+const WAITLIST_STATUSES = new Set(["waitlist", "offered"]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * "qr / flyer" for tagged links (lib/referrals.ts via/src), the external
+ * site for untagged links, otherwise "Direct".
+ */
+export function referralSourceLabel(view: Pick<AnalyticsViewRow, "referral_via" | "referral_src" | "referrer_host">): string {
+  const tagged = [view.referral_via, view.referral_src].filter(Boolean).join(" / ");
+  return tagged || view.referrer_host || DIRECT_REFERRAL_SOURCE;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+    : sorted[mid];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function performerKey(claim: AnalyticsClaimRow): string | null {
+  if (claim.member_id) return `m:${claim.member_id}`;
+  if (claim.guest_email) return `g:${claim.guest_email.trim().toLowerCase()}`;
+  return null;
+}
+
+function emptyOccurrence(dateKey: string): OccurrenceAnalytics {
+  return {
+    dateKey,
+    rsvps: 0,
+    waitlist: 0,
+    slots: 0,
+    slotsFilled: 0,
+    fillRate: null,
+    noShows: 0,
+    noShowRate: null,
+    medianMinutesToClaim: null,
+    minutesToFull: null,
+    newPerformers: 0,
+    returningPerformers: 0,
+    pageViews: 0,
+    embedViews: 0,
+    referrals: {},
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Aggregation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildEventAnalytics(input: EventAnalyticsInput): EventAnalytics {
+  const inWindow = (dateKey: string | null): dateKey is string =>
+    !!dateKey && dateKey >= input.fromKey && dateKey <= input.toKey;
+
+  const byDate = new Map<string, OccurrenceAnalytics>();
+  const occurrence = (dateKey: string) => {
+    let row = byDate.get(dateKey);
+    if (!row) {
+      row = emptyOccurrence(dateKey);
+      byDate.set(dateKey, row);
+    }
+    return row;
+  };
+
+  for (const rsvp of input.rsvps) {
+    if (!inWindow(rsvp.date_key)) continue;
+    const row = occurrence(rsvp.date_key);
+    if (rsvp.status === "confirmed") row.rsvps++;
+    else if (WAITLIST_STATUSES.has(rsvp.status)) row.waitlist++;
+  }
+
+  const slotDateKeys = new Map<string, string>();
+  for (const slot of input.timeslots) {
+    slotDateKeys.set(slot.id, slot.date_key);
+    if (inWindow(slot.date_key)) occurrence(slot.date_key).slots++;
+  }
+
+  // Claims grouped by occurrence, walked in date order for new vs returning
+  const claimsByDate = new Map<string, AnalyticsClaimRow[]>();
+  for (const claim of input.claims) {
+    const dateKey = slotDateKeys.get(claim.timeslot_id);
+    if (!dateKey) continue;
+    const list = claimsByDate.get(dateKey) ?? [];
+    list.push(claim);
+    claimsByDate.set(dateKey, list);
+  }
+
+  const seenPerformers = new Set<string>();
+  for (const dateKey of [...claimsByDate.keys()].sort()) {
+    const claims = claimsByDate.get(dateKey)!;
+    const filled = claims.filter((c) => FILLED_CLAIM_STATUSES.has(c.status));
+    const performersHere = new Set<string>();
+
+    if (inWindow(dateKey)) {
+      const row = occurrence(dateKey);
+      row.slotsFilled = new Set(filled.map((c) => c.timeslot_id)).size;
+      row.noShows = filled.filter((c) => c.status === "no_show").length;
+      row.noShowRate = ratio(row.noShows, filled.length);
+      row.waitlist += claims.filter((c) => WAITLIST_STATUSES.has(c.status)).length;
+
+      if (input.signupTime) {
+        const opensAt = denverWallTimeToDate(dateKey, input.signupTime).getTime();
+        const delays = filled
+          .filter((c) => c.claimed_at)
+          .map((c) => Math.max(0, Math.round((new Date(c.claimed_at!).getTime() - opensAt) / 60000)));
+        row.medianMinutesToClaim = median(delays);
+        if (row.slots > 0 && row.slotsFilled >= row.slots && delays.length > 0) {
+          row.minutesToFull = Math.max(...delays);
+        }
+      }
+
+      for (const claim of filled) {
+        const key = performerKey(claim);
+        if (!key || performersHere.has(key)) continue;
+        performersHere.add(key);
+        if (seenPerformers.has(key)) row.returningPerformers++;
+        else row.newPerformers++;
+      }
+    } else {
+      for (const claim of filled) {
+        const key = performerKey(claim);
+        if (key) performersHere.add(key);
+      }
+    }
+
+    for (const key of performersHere) seenPerformers.add(key);
+  }
+
+  const referralTotals = new Map<string, ReferralSourceTotal>();
+  for (const view of input.views) {
+    const source = referralSourceLabel(view);
+    const total = referralTotals.get(source) ?? { source, pageViews: 0, embedViews: 0, total: 0 };
+    if (view.surface === "embed") total.embedViews++;
+    else total.pageViews++;
+    total.total++;
+    referralTotals.set(source, total);
+
+    if (!inWindow(view.date_key)) continue;
+    const row = occurrence(view.date_key);
+    if (view.surface === "embed") row.embedViews++;
+    else row.pageViews++;
+    row.referrals[source] = (row.referrals[source] ?? 0) + 1;
+  }
+
+  const occurrences = [...byDate.values()].sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+  for (const row of occurrences) {
+    row.fillRate = ratio(row.slotsFilled, row.slots);
+  }
+
+  const sum = (pick: (row: OccurrenceAnalytics) => number) =>
+    occurrences.reduce((total, row) => total + pick(row), 0);
+  const slots = sum((r) => r.slots);
+  const slotsFilled = sum((r) => r.slotsFilled);
+  const noShows = sum((r) => r.noShows);
+  const claimDelays = occurrences
+    .map((r) => r.medianMinutesToClaim)
+    .filter((v): v is number => v !== null);
+
+  let filledClaims = 0;
+  for (const [dateKey, claims] of claimsByDate) {
+    if (inWindow(dateKey)) filledClaims += claims.filter((c) => FILLED_CLAIM_STATUSES.has(c.status)).length;
+  }
+
+  return {
+    occurrences,
+    totals: {
+      rsvps: sum((r) => r.rsvps),
+      waitlist: sum((r) => r.waitlist),
+      slots,
+      slotsFilled,
+      fillRate: ratio(slotsFilled, slots),
+      noShows,
+      noShowRate: ratio(noShows, filledClaims),
+      medianMinutesToClaim: median(claimDelays),
+      newPerformers: sum((r) => r.newPerformers),
+      returningPerformers: sum((r) => r.returningPerformers),
+      pageViews: sum((r) => r.pageViews),
+      embedViews: sum((r) => r.embedViews),
+    },
+    referralSources: [...referralTotals.values()].sort(
+      (a, b) => b.total - a.total || a.source.localeCompare(b.source)
+    ),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV
+// ─────────────────────────────────────────────────────────────────────────────
+
+function escapeCsvValue(value: string): string {
+  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "" : (value * 100).toFixed(1);
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+/**
+ * One row per occurrence plus a view-count column per referral source.
+ */
+export function serializeEventAnalyticsCsv(analytics: EventAnalytics): string {
+  const sources = analytics.referralSources.map((s) => s.source);
+  const headers = [
+    "date_key",
+    "rsvps",
+    "waitlist",
+    "slots",
+    "slots_filled",
+    "fill_rate_pct",
+    "no_shows",
+    "no_show_rate_pct",
+    "median_minutes_to_claim",
+    "minutes_to_full",
+    "new_performers",
+    "returning_performers",
+    "page_views",
+    "embed_views",
+    ...sources.map((source) => `views_from_${source}`),
+  ];
+
+  const lines = [headers.map(escapeCsvValue).join(",")];
+  for (const row of analytics.occurrences) {
+    const values = [
+      row.dateKey,
+      String(row.rsvps),
+      String(row.waitlist),
+      String(row.slots),
+      String(row.slotsFilled),
+      formatRate(row.fillRate),
+      String(row.noShows),
+      formatRate(row.noShowRate),
+      formatNumber(row.medianMinutesToClaim),
+      formatNumber(row.minutesToFull),
+      String(row.newPerformers),
+      String(row.returningPerformers),
+      String(row.pageViews),
+      String(row.embedViews),
+      ...sources.map((source) => String(row.referrals[source] ?? 0)),
+    ];
+    lines.push(values.map(escapeCsvValue).join(","));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,103 @@
+/**
+ * Host Event Analytics — loading (server-only)
+ *
+ * Reads RSVPs, timeslots, claims and event_views for one event and hands
+ * them to buildEventAnalytics(). Callers must authorize the actor with
+ * canManageEvent() first: event_views has no RLS policies, so this runs on
+ * the service-role client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { addDaysDenver, getTodayDenver } from "./nextOccurrence";
+import {
+  ANALYTICS_DAYS_BACK,
+  ANALYTICS_DAYS_FORWARD,
+  buildEventAnalytics,
+  type AnalyticsClaimRow,
+  type EventAnalytics,
+} from "./hostAnalytics";
+
+export interface EventAnalyticsResult {
+  fromKey: string;
+  toKey: string;
+  signupTime: string | null;
+  analytics: EventAnalytics;
+}
+
+export async function loadEventAnalytics(
+  serviceClient: SupabaseClient<Database>,
+  eventId: string,
+  options: { todayKey?: string } = {}
+): Promise<EventAnalyticsResult | { error: string }> {
+  const todayKey = options.todayKey ?? getTodayDenver();
+  const fromKey = addDaysDenver(todayKey, -ANALYTICS_DAYS_BACK);
+  const toKey = addDaysDenver(todayKey, ANALYTICS_DAYS_FORWARD);
+
+  const { data: event, error: eventError } = await serviceClient
+    .from("events")
+    .select("id, signup_time")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (eventError || !event) {
+    return { error: "Event not found" };
+  }
+
+  const [rsvpsRes, timeslotsRes, viewsRes] = await Promise.all([
+    serviceClient
+      .from("event_rsvps")
+      .select("date_key, status")
+      .eq("event_id", eventId)
+      .gte("date_key", fromKey)
+      .lte("date_key", toKey),
+    // All dates: earlier claims decide new vs returning performers
+    serviceClient.from("event_timeslots").select("id, date_key").eq("event_id", eventId),
+    serviceClient
+      .from("event_views")
+      .select("date_key, surface, referral_via, referral_src, referrer_host")
+      .eq("event_id", eventId)
+      .gte("created_at", `${fromKey}T00:00:00Z`),
+  ]);
+
+  for (const [label, res] of [
+    ["RSVPs", rsvpsRes],
+    ["timeslots", timeslotsRes],
+    ["views", viewsRes],
+  ] as const) {
+    if (res.error) {
+      console.error(`[HostAnalytics] Failed to load ${label}:`, eventId, res.error.message);
+      return { error: `Failed to load ${label}` };
+    }
+  }
+
+  const timeslots = timeslotsRes.data ?? [];
+  let claims: AnalyticsClaimRow[] = [];
+  if (timeslots.length > 0) {
+    const { data, error } = await serviceClient
+      .from("timeslot_claims")
+      .select("timeslot_id, status, member_id, guest_email, claimed_at, event_timeslots!inner(event_id)")
+      .eq("event_timeslots.event_id", eventId);
+
+    if (error) {
+      console.error("[HostAnalytics] Failed to load claims:", eventId, error.message);
+      return { error: "Failed to load claims" };
+    }
+    claims = (data ?? []) as unknown as AnalyticsClaimRow[];
+  }
+
+  return {
+    fromKey,
+    toKey,
+    signupTime: event.signup_time,
+    analytics: buildEventAnalytics({
+      signupTime: event.signup_time,
+      rsvps: rsvpsRes.data ?? [],
+      timeslots,
+      claims,
+      views: viewsRes.data ?? [],
+      fromKey,
+      toKey,
+    }),
+  };
+}
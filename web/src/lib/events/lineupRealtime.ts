@@ -0,0 +1,88 @@
+/**
+ * Lineup Realtime Contract
+ *
+ * Pure helpers shared by the realtime lineup hook (hooks/useLineupRealtime.ts),
+ * the TV display, the lineup control page and the dashboard Lineup Control
+ * section. Everything that joins a lineup channel must agree on the channel
+ * name and presence payload shape, so they live here.
+ *
+ * Channel model: one Supabase Realtime channel per (event_id, date_key).
+ * - postgres_changes on event_lineup_state, event_timeslots, timeslot_claims
+ *   trigger a refetch (payloads are treated as "something changed" signals;
+ *   the refetch is the source of truth, so missed events can't desync us)
+ * - Presence tracks who is connected; displays track { role: "display" }
+ */
+
+export type LineupPresenceRole = "display" | "control";
+
+export interface LineupPresencePayload {
+  role: LineupPresenceRole;
+  online_at: string;
+}
+
+/** "connecting" until first SUBSCRIBED; "offline" after a channel error/close. */
+export type LineupRealtimeStatus = "connecting" | "live" | "offline";
+
+/**
+ * Safety poll while the realtime channel is live. Catches anything
+ * realtime can't deliver (e.g. claims on slots beyond the filter limit).
+ */
+export const LINEUP_SAFETY_POLL_MS = 60_000;
+
+/** Realtime `in` filters accept at most 100 values. */
+export const MAX_REALTIME_FILTER_VALUES = 100;
+
+/** Coalesce bursts (e.g. slot regeneration) into a single refetch. */
+export const LINEUP_REFETCH_DEBOUNCE_MS = 150;
+
+export function getLineupChannelName(eventId: string, dateKey: string): string {
+  return `lineup:${eventId}:${dateKey}`;
+}
+
+/**
+ * Realtime filter for claims on this occurrence's timeslots.
+ * Returns null when there is nothing to filter on or too many slots, in
+ * which case claim changes are picked up by the safety poll.
+ */
+export function buildTimeslotClaimsFilter(timeslotIds: string[]): string | null {
+  if (timeslotIds.length === 0 || timeslotIds.length > MAX_REALTIME_FILTER_VALUES) {
+    return null;
+  }
+  return `timeslot_id=in.(${timeslotIds.join(",")})`;
+}
+
+/**
+ * Count connected displays from a presence state snapshot.
+ * Each presence key is one browser tab; a key may carry several metas if
+ * the same tab re-tracked, so count keys, not metas.
+ */
+export function countConnectedDisplays(
+  presenceState: Record<string, Array<Partial<LineupPresencePayload>>>
+): number {
+  return Object.values(presenceState).filter((metas) =>
+    metas.some((meta) => meta.role === "display")
+  ).length;
+}
+
+/**
+ * Poll interval for a page given realtime status: slow safety poll while
+ * live, the page's original polling cadence otherwise.
+ */
+export function getLineupPollIntervalMs(
+  status: LineupRealtimeStatus,
+  fallbackMs: number
+): number {
+  return status === "live" ? LINEUP_SAFETY_POLL_MS : fallbackMs;
+}
+
+/**
+ * True when a postgres_changes row belongs to another occurrence of the
+ * same event (filters can only target one column, so date_key is checked
+ * client-side).
+ */
+export function isOtherOccurrence(
+  row: { date_key?: unknown } | null | undefined,
+  dateKey: string
+): boolean {
+  return typeof row?.date_key === "string" && row.date_key !== dateKey;
+}
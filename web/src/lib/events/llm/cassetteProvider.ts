@@ -0,0 +1,123 @@
+/**
+ * Cassette adapter — record/replay
+ *
+ * record: forwards to a real provider and writes each response to
+ *         `<dir>/<key>.json`, errors included.
+ * replay: answers from those files without touching the network, with the
+ *         recorded status and body byte-for-byte. A request with no
+ *         recording throws, so a changed prompt can't silently pass.
+ *
+ * The key is a hash of the whole provider-neutral request (model, prompt,
+ * schema, images, …), so a recording made against OpenAI replays the same
+ * no matter which provider is configured later. Prompts include the
+ * current date — freeze the clock when replaying outside the day they were
+ * recorded.
+ *
+ * Server-only (reads and writes the filesystem). Meant for tests, evals
+ * and local development, not production.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import * as path from "node:path";
+import { toChatCompletionsLlmResponse } from "./openAiCompatibleProvider";
+import { toOpenAiLlmResponse } from "./openAiProvider";
+import type { LlmProvider, LlmProviderName, LlmRequest, LlmResponse } from "./llmProvider";
+
+export type CassetteMode = "record" | "replay";
+
+/** One recorded request/response pair (one file) */
+export interface CassetteRecording {
+  version: 1;
+  key: string;
+  /** Provider that produced the response (decides how the body is read) */
+  provider: Exclude<LlmProviderName, "cassette">;
+  /** The request, with image data replaced by its hash to keep files small */
+  request: LlmRequest;
+  response: { status: number; body: string };
+  recordedAt: string;
+}
+
+const RESPONSE_READERS: Record<CassetteRecording["provider"], (status: number, body: string) => LlmResponse> = {
+  openai: toOpenAiLlmResponse,
+  "openai-compatible": toChatCompletionsLlmResponse,
+};
+
+export function createCassetteProvider(options: {
+  /** Directory holding one JSON file per recording */
+  dir: string;
+  mode: CassetteMode;
+  /** The real provider to record from (record mode only) */
+  upstream?: LlmProvider;
+}): LlmProvider {
+  const { dir, mode, upstream } = options;
+  if (mode === "record" && (!upstream || upstream.name === "cassette")) {
+    throw new Error("Recording a cassette needs a real upstream provider");
+  }
+
+  return {
+    name: "cassette",
+    // Replays whatever was recorded, web search included
+    supportsWebSearch: mode === "replay" || Boolean(upstream?.supportsWebSearch),
+    async respond(request, respondOptions) {
+      const key = getCassetteKey(request);
+      const filePath = path.join(dir, `${key}.json`);
+
+      if (mode === "replay") {
+        let recording: CassetteRecording;
+        try {
+          recording = JSON.parse(await readFile(filePath, "utf-8")) as CassetteRecording;
+        } catch {
+          throw new Error(`No cassette recording for ${request.model} request ${key} in ${dir}`);
+        }
+        return RESPONSE_READERS[recording.provider](recording.response.status, recording.response.body);
+      }
+
+      const response = await upstream!.respond(request, respondOptions);
+      const recording: CassetteRecording = {
+        version: 1,
+        key,
+        provider: upstream!.name as CassetteRecording["provider"],
+        request: redactImageData(request),
+        response: { status: response.status, body: response.body },
+        recordedAt: new Date().toISOString(),
+      };
+      await mkdir(dir, { recursive: true });
+      await writeFile(filePath, `${JSON.stringify(recording, null, 2)}\n`, "utf-8");
+      return response;
+    },
+  };
+}
+
+/** sha256 of the request with object keys sorted */
+export function getCassetteKey(request: LlmRequest): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+function redactImageData(request: LlmRequest): LlmRequest {
+  if (typeof request.input === "string") return request;
+  return {
+    ...request,
+    input: request.input.map((part) =>
+      part.type === "image"
+        ? { ...part, data: `sha256:${createHash("sha256").update(part.data).digest("hex")}` }
+        : part
+    ),
+  };
+}
+
+/** JSON.stringify with sorted object keys (undefined values skipped) */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => stableStringify(entry)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    const parts = Object.keys(obj)
+      .sort()
+      .filter((key) => typeof obj[key] !== "undefined")
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(obj[key])}`);
+    return `{${parts.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
@@ -0,0 +1,77 @@
+/**
+ * Event interpreter provider selection (env)
+ *
+ *   EVENT_INTERPRETER_LLM_PROVIDER          openai (default) | openai-compatible | cassette
+ *   OPENAI_API_KEY                          openai
+ *   EVENT_INTERPRETER_LLM_BASE_URL          openai-compatible, e.g. http://localhost:11434/v1
+ *   EVENT_INTERPRETER_LLM_API_KEY           openai-compatible (optional)
+ *   EVENT_INTERPRETER_LLM_CASSETTE_DIR      cassette: where recordings live
+ *   EVENT_INTERPRETER_LLM_CASSETTE_MODE     cassette: replay (default) | record
+ *   EVENT_INTERPRETER_LLM_CASSETTE_UPSTREAM cassette record: openai (default) | openai-compatible
+ *
+ * Models still come from the OPENAI_EVENT_*_MODEL variables in the route.
+ */
+
+import { createCassetteProvider } from "./cassetteProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import type { LlmProvider } from "./llmProvider";
+
+type ProviderEnv = Record<string, string | undefined>;
+
+/** The configured provider, or the configuration error to surface (503) */
+export function getInterpreterLlmProvider(
+  env: ProviderEnv = process.env
+): { provider: LlmProvider } | { error: string } {
+  const name = env.EVENT_INTERPRETER_LLM_PROVIDER?.trim().toLowerCase() || "openai";
+
+  if (name !== "cassette") {
+    return getUpstreamProvider(name, env);
+  }
+
+  const dir = env.EVENT_INTERPRETER_LLM_CASSETTE_DIR?.trim();
+  if (!dir) {
+    return { error: "Missing EVENT_INTERPRETER_LLM_CASSETTE_DIR." };
+  }
+
+  const mode = env.EVENT_INTERPRETER_LLM_CASSETTE_MODE?.trim().toLowerCase() || "replay";
+  if (mode === "replay") {
+    return { provider: createCassetteProvider({ dir, mode }) };
+  }
+  if (mode !== "record") {
+    return { error: `Unknown EVENT_INTERPRETER_LLM_CASSETTE_MODE "${mode}".` };
+  }
+
+  const upstreamName = env.EVENT_INTERPRETER_LLM_CASSETTE_UPSTREAM?.trim().toLowerCase() || "openai";
+  if (upstreamName === "cassette") {
+    return { error: "EVENT_INTERPRETER_LLM_CASSETTE_UPSTREAM can't be cassette." };
+  }
+  const upstream = getUpstreamProvider(upstreamName, env);
+  if ("error" in upstream) return upstream;
+
+  return { provider: createCassetteProvider({ dir, mode, upstream: upstream.provider }) };
+}
+
+function getUpstreamProvider(
+  name: string,
+  env: ProviderEnv
+): { provider: LlmProvider } | { error: string } {
+  if (name === "openai") {
+    const apiKey = env.OPENAI_API_KEY;
+    if (!apiKey) return { error: "Missing OPENAI_API_KEY." };
+    return { provider: createOpenAiProvider({ apiKey }) };
+  }
+
+  if (name === "openai-compatible") {
+    const baseUrl = env.EVENT_INTERPRETER_LLM_BASE_URL?.trim();
+    if (!baseUrl) return { error: "Missing EVENT_INTERPRETER_LLM_BASE_URL." };
+    return {
+      provider: createOpenAiCompatibleProvider({
+        baseUrl,
+        apiKey: env.EVENT_INTERPRETER_LLM_API_KEY?.trim() || undefined,
+      }),
+    };
+  }
+
+  return { error: `Unknown EVENT_INTERPRETER_LLM_PROVIDER "${name}".` };
+}
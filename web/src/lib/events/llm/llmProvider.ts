@@ -0,0 +1,87 @@
+/**
+ * Event Interpreter LLM Provider
+ *
+ * Provider-neutral request/response shapes for the interpreter's model
+ * calls (/api/events/interpret): structured extraction (strict JSON
+ * schema output), vision input (base64 images) and hosted web search.
+ * The route builds `LlmRequest`s; adapters own the wire format:
+ *
+ *   openai             OpenAI Responses API (openAiProvider.ts)
+ *   openai-compatible  any /v1/chat/completions server, e.g. a local
+ *                      Ollama, vLLM or llama.cpp (openAiCompatibleProvider.ts)
+ *   cassette           records another provider's responses to disk and
+ *                      replays them offline (cassetteProvider.ts)
+ *
+ * Pick one with getInterpreterLlmProvider() (interpreterLlm.ts).
+ */
+
+export type LlmProviderName = "openai" | "openai-compatible" | "cassette";
+
+export type LlmReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export type LlmInputPart =
+  | { type: "text"; text: string }
+  /** Base64 image data (no data: prefix) */
+  | { type: "image"; mimeType: string; data: string };
+
+export interface LlmWebSearchOptions {
+  /** Approximate searcher location, used to bias results */
+  userLocation?: {
+    country: string;
+    city: string;
+    region: string;
+    timezone: string;
+  };
+  /** Search before answering, even when the model thinks it doesn't need to */
+  required?: boolean;
+}
+
+export interface LlmRequest {
+  model: string;
+  instructions?: string;
+  /** A plain prompt, or text and image parts sent as one user turn */
+  input: string | LlmInputPart[];
+  /** Structured extraction: the output must match this schema (strict) */
+  jsonSchema?: { name: string; schema: object };
+  webSearch?: LlmWebSearchOptions;
+  /** Ignored by models and providers that don't support it */
+  reasoningEffort?: LlmReasoningEffort;
+  maxOutputTokens?: number;
+}
+
+export interface LlmResponse {
+  ok: boolean;
+  status: number;
+  /** The model's output text, or null when there was none */
+  text: string | null;
+  /** Parsed body in the provider's wire format (logging, citation scraping) */
+  data: unknown;
+  /** Body exactly as received — what cassettes record */
+  body: string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** Whether requests may set `webSearch` */
+  supportsWebSearch: boolean;
+  /** Resolves for upstream errors (ok: false); throws on network errors and aborts */
+  respond(request: LlmRequest, options?: { signal?: AbortSignal }): Promise<LlmResponse>;
+}
+
+/** Parsed JSON body, or null when the body isn't JSON (e.g. a proxy error page) */
+export function parseJsonBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export function toImageDataUrl(part: { mimeType: string; data: string }): string {
+  return `data:${part.mimeType};base64,${part.data}`;
+}
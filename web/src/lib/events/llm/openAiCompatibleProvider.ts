@@ -0,0 +1,118 @@
+/**
+ * OpenAI-compatible adapter — Chat Completions (POST {baseUrl}/chat/completions)
+ *
+ * For self-hosted servers that speak the OpenAI Chat Completions API
+ * (Ollama, vLLM, llama.cpp, LM Studio, …):
+ *
+ *   instructions     → system message
+ *   image parts      → image_url data URLs in the user message
+ *   jsonSchema       → response_format json_schema (strict)
+ *   maxOutputTokens  → max_tokens
+ *
+ * There is no hosted web search here, and reasoning effort isn't sent
+ * (servers disagree on whether they accept it).
+ */
+
+import {
+  asRecord,
+  parseJsonBody,
+  toImageDataUrl,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+} from "./llmProvider";
+
+export function createOpenAiCompatibleProvider(options: {
+  /** e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Most local servers don't need one */
+  apiKey?: string;
+}): LlmProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai-compatible",
+    supportsWebSearch: false,
+    async respond(request, { signal } = {}) {
+      if (request.webSearch) {
+        throw new Error("The OpenAI-compatible provider does not support web search");
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        signal,
+        body: JSON.stringify(buildChatCompletionsBody(request)),
+      });
+
+      return toChatCompletionsLlmResponse(response.status, await response.text());
+    },
+  };
+}
+
+export function buildChatCompletionsBody(request: LlmRequest): Record<string, unknown> {
+  const userContent =
+    typeof request.input === "string"
+      ? request.input
+      : request.input.map((part) =>
+          part.type === "text"
+            ? { type: "text", text: part.text }
+            : { type: "image_url", image_url: { url: toImageDataUrl(part) } }
+        );
+
+  return {
+    model: request.model,
+    messages: [
+      ...(request.instructions ? [{ role: "system", content: request.instructions }] : []),
+      { role: "user", content: userContent },
+    ],
+    ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    ...(request.jsonSchema
+      ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: request.jsonSchema.name,
+              strict: true,
+              schema: request.jsonSchema.schema,
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+export function toChatCompletionsLlmResponse(status: number, body: string): LlmResponse {
+  const data = parseJsonBody(body);
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: extractMessageText(data),
+    data,
+    body,
+  };
+}
+
+/** First choice's message content (string, or the joined text parts) */
+function extractMessageText(data: unknown): string | null {
+  const choices = asRecord(data)?.choices;
+  const message = asRecord(Array.isArray(choices) ? asRecord(choices[0])?.message : null);
+  if (!message) return null;
+
+  const content = message.content;
+  const text =
+    typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content
+            .map((part) => asRecord(part)?.text)
+            .filter((part): part is string => typeof part === "string")
+            .join("")
+        : "";
+
+  return text.trim().length > 0 ? text : null;
+}
@@ -0,0 +1,131 @@
+/**
+ * OpenAI adapter — Responses API (POST /v1/responses)
+ *
+ *   jsonSchema       → text.format json_schema (strict)
+ *   image parts      → input_image data URLs in one user turn
+ *   webSearch        → web_search tool, sources included in the output
+ *   reasoningEffort  → reasoning.effort (reasoning models only)
+ */
+
+import {
+  asRecord,
+  parseJsonBody,
+  toImageDataUrl,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+} from "./llmProvider";
+
+export const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+
+export function createOpenAiProvider(options: { apiKey: string }): LlmProvider {
+  return {
+    name: "openai",
+    supportsWebSearch: true,
+    async respond(request, { signal } = {}) {
+      const response = await fetch(OPENAI_RESPONSES_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        signal,
+        body: JSON.stringify(buildOpenAiResponsesBody(request)),
+      });
+
+      return toOpenAiLlmResponse(response.status, await response.text());
+    },
+  };
+}
+
+function supportsReasoningEffort(modelName: string): boolean {
+  return /^(?:gpt-5|o[134])\b/i.test(modelName.trim());
+}
+
+export function buildOpenAiResponsesBody(request: LlmRequest): Record<string, unknown> {
+  const { webSearch, jsonSchema } = request;
+
+  return {
+    model: request.model,
+    ...(request.instructions ? { instructions: request.instructions } : {}),
+    ...(request.reasoningEffort && supportsReasoningEffort(request.model)
+      ? { reasoning: { effort: request.reasoningEffort } }
+      : {}),
+    input:
+      typeof request.input === "string"
+        ? request.input
+        : [
+            {
+              role: "user",
+              content: request.input.map((part) =>
+                part.type === "text"
+                  ? { type: "input_text", text: part.text }
+                  : { type: "input_image", image_url: toImageDataUrl(part) }
+              ),
+            },
+          ],
+    ...(webSearch
+      ? {
+          tools: [
+            {
+              type: "web_search",
+              ...(webSearch.userLocation
+                ? { user_location: { type: "approximate", ...webSearch.userLocation } }
+                : {}),
+            },
+          ],
+          ...(webSearch.required ? { tool_choice: "required" } : {}),
+          include: ["web_search_call.action.sources"],
+        }
+      : {}),
+    ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+    ...(jsonSchema
+      ? {
+          text: {
+            format: {
+              type: "json_schema",
+              name: jsonSchema.name,
+              strict: true,
+              schema: jsonSchema.schema,
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+export function toOpenAiLlmResponse(status: number, body: string): LlmResponse {
+  const data = parseJsonBody(body);
+  const dataObj = asRecord(data);
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: dataObj ? extractResponseText(dataObj) : null,
+    data,
+    body,
+  };
+}
+
+/** output_text when present, otherwise the first non-empty text part */
+function extractResponseText(data: Record<string, unknown>): string | null {
+  if (typeof data.output_text === "string" && data.output_text.trim().length > 0) {
+    return data.output_text;
+  }
+
+  const output = Array.isArray(data.output) ? data.output : [];
+  for (const chunk of output) {
+    const chunkObj = asRecord(chunk);
+    if (!chunkObj) continue;
+    const content = Array.isArray(chunkObj.content) ? chunkObj.content : [];
+    for (const part of content) {
+      const partObj = asRecord(part);
+      if (!partObj) continue;
+      if (typeof partObj.text === "string" && partObj.text.trim().length > 0) {
+        return partObj.text;
+      }
+    }
+  }
+
+  return null;
+}
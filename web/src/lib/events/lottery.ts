@@ -0,0 +1,118 @@
+/**
+ * Lottery Signup Contract
+ *
+ * Client-safe helpers for signup_mode = "lottery" (hat draw). Entries close
+ * at the cutoff: the occurrence's signup_time (or start_time) plus
+ * events.lottery_cutoff_offset_minutes, Denver wall time.
+ *
+ * The seeded draw lives in lotteryDraw.ts (uses node crypto) and the
+ * database orchestration in lotteryServer.ts.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LotteryEntryStatus = "entered" | "won" | "waitlist" | "offered" | "withdrawn" | "expired";
+
+export interface LotteryDrawOutcome {
+  /** Entry ids in draw order */
+  order: string[];
+  /** First slotCount entries of order */
+  winners: string[];
+  /** Remaining entries, waitlist position = index + 1 */
+  waitlist: string[];
+}
+
+/** Shape of timeslot_lottery_draws.result */
+export interface LotteryDrawResult {
+  algorithm: string;
+  /** Sorted by entry_id: the input to the shuffle */
+  entrants: { entry_id: string; name: string }[];
+  order: string[];
+  assignments: { entry_id: string; timeslot_id: string; slot_index: number }[];
+}
+
+/** GET /api/events/[id]/lottery response */
+export interface LotteryStatus {
+  cutoff_at: string | null;
+  open: boolean;
+  entrant_count: number;
+  my_entry: {
+    status: LotteryEntryStatus;
+    waitlist_position: number | null;
+    offer_expires_at: string | null;
+  } | null;
+  draw: {
+    seed: string;
+    drawn_at: string;
+    result: LotteryDrawResult;
+    /** Server re-ran the draw from the seed and got the published order */
+    verified: boolean;
+  } | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LOTTERY_SIGNUP_MODE = "lottery";
+export const LOTTERY_ALGORITHM = "sha256-fisher-yates-v1";
+
+/** Draw time choices offered in the event form (minutes after signup time). */
+export const LOTTERY_CUTOFF_OFFSET_OPTIONS = [-30, -15, 0, 15, 30] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cutoff
+// ─────────────────────────────────────────────────────────────────────────────
+
+function denverOffsetMinutes(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  // Noon UTC is safely inside the Denver calendar day on both sides of DST
+  const noon = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+  const tzName = new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/Denver",
+    timeZoneName: "shortOffset",
+  })
+    .formatToParts(noon)
+    .find((p) => p.type === "timeZoneName")?.value ?? "";
+  const match = tzName.match(/GMT([+-]\d+)/);
+  return (match ? parseInt(match[1], 10) : -7) * 60;
+}
+
+/**
+ * Converts a Denver wall time ("HH:MM[:SS]") on dateKey to an instant.
+ */
+export function denverWallTimeToDate(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const utcMs = Date.UTC(year, month - 1, day, hours, minutes) - denverOffsetMinutes(dateKey) * 60000;
+  return new Date(utcMs);
+}
+
+/**
+ * When entries close and the draw runs. Null when the event has neither a
+ * signup time nor a start time to anchor the cutoff.
+ */
+export function getLotteryCutoff(input: {
+  dateKey: string;
+  signupTime: string | null;
+  startTime: string | null;
+  offsetMinutes: number;
+}): Date | null {
+  const anchor = input.signupTime || input.startTime;
+  if (!anchor) return null;
+  const base = denverWallTimeToDate(input.dateKey, anchor);
+  return new Date(base.getTime() + input.offsetMinutes * 60000);
+}
+
+export function isLotteryOpen(cutoff: Date | null, now: Date): boolean {
+  return cutoff !== null && now.getTime() < cutoff.getTime();
+}
+
+/** "At signup time" / "15 min after signup time" / "30 min before signup time" */
+export function formatLotteryCutoffOffset(offsetMinutes: number): string {
+  if (offsetMinutes === 0) return "At signup time";
+  const direction = offsetMinutes > 0 ? "after" : "before";
+  return `${Math.abs(offsetMinutes)} min ${direction} signup time`;
+}
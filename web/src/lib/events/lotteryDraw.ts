@@ -0,0 +1,76 @@
+/**
+ * Lottery Draw
+ *
+ * Seeded, reproducible draw for signup_mode = "lottery". Entry ids are
+ * sorted, then shuffled with a Fisher-Yates shuffle driven by SHA-256 of
+ * the seed. The first N entrants (N = open slot count) win slots in slot
+ * order; the rest are waitlisted in draw order.
+ *
+ * The seed, sorted entrant list and resulting order are stored in
+ * timeslot_lottery_draws and published on the lineup page, so anyone can
+ * re-run drawLottery() and get the same result.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { LOTTERY_ALGORITHM, type LotteryDrawOutcome, type LotteryDrawResult } from "./lottery";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Draw
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function generateLotterySeed(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Deterministic index in [0, bound) for shuffle step i. Uses the first
+ * 48 bits of SHA-256(seed:i); modulo bias is negligible for lineup sizes.
+ */
+function seededIndex(seed: string, step: number, bound: number): number {
+  const digest = createHash("sha256").update(`${seed}:${step}`).digest();
+  return digest.readUIntBE(0, 6) % bound;
+}
+
+/**
+ * Seeded Fisher-Yates shuffle. Does not mutate the input.
+ */
+export function seededShuffle<T>(items: readonly T[], seed: string): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = seededIndex(seed, i, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Runs the draw. Entry ids are sorted first so the outcome depends only on
+ * the entrant set and the seed, never on query order.
+ */
+export function drawLottery(input: {
+  entryIds: readonly string[];
+  seed: string;
+  slotCount: number;
+}): LotteryDrawOutcome {
+  const sorted = [...input.entryIds].sort();
+  const order = seededShuffle(sorted, input.seed);
+  const winnerCount = Math.max(0, Math.min(input.slotCount, order.length));
+  return {
+    order,
+    winners: order.slice(0, winnerCount),
+    waitlist: order.slice(winnerCount),
+  };
+}
+
+/**
+ * Re-runs a stored draw and checks it matches the published order.
+ */
+export function verifyLotteryDraw(seed: string, result: LotteryDrawResult): boolean {
+  if (result.algorithm !== LOTTERY_ALGORITHM) return false;
+  const { order } = drawLottery({
+    entryIds: result.entrants.map((e) => e.entry_id),
+    seed,
+    slotCount: result.assignments.length,
+  });
+  return order.length === result.order.length && order.every((id, idx) => id === result.order[idx]);
+}
@@ -0,0 +1,393 @@
+/**
+ * Lottery Server Utilities
+ *
+ * Database orchestration for signup_mode = "lottery". Pass a service-role
+ * client: timeslot_lottery_entries and timeslot_lottery_draws have no write
+ * policies. Dropouts after the draw are handled in waitlistOffer.ts
+ * (promoteNextLotteryEntrant / processExpiredLotteryOffers).
+ */
+import { SupabaseClient } from "@supabase/supabase-js";
+import { sendEmail } from "@/lib/email";
+import { SITE_URL } from "@/lib/email/render";
+import { getTimeslotClaimConfirmationEmail } from "@/lib/email/templates/timeslotClaimConfirmation";
+import { formatDateKeyForEmail, formatDateKeyShort } from "@/lib/events/dateKeyContract";
+import { addDaysDenver, getTodayDenver } from "@/lib/events/nextOccurrence";
+import { formatTimeToAMPM } from "@/lib/recurrenceHumanizer";
+import { promoteNextLotteryEntrant } from "@/lib/waitlistOffer";
+import {
+  getLotteryCutoff,
+  isLotteryOpen,
+  LOTTERY_ALGORITHM,
+  LOTTERY_SIGNUP_MODE,
+  type LotteryDrawResult,
+  type LotteryEntryStatus,
+  type LotteryStatus,
+} from "./lottery";
+import { drawLottery, generateLotterySeed, verifyLotteryDraw } from "./lotteryDraw";
+
+export const LOTTERY_EVENT_COLUMNS =
+  "id, title, slug, signup_mode, signup_time, start_time, lottery_cutoff_offset_minutes, venue_name, venue_address";
+
+export interface LotteryEvent {
+  id: string;
+  title: string | null;
+  slug: string | null;
+  signup_mode: string | null;
+  signup_time: string | null;
+  start_time: string | null;
+  lottery_cutoff_offset_minutes: number;
+  venue_name: string | null;
+  venue_address: string | null;
+}
+
+export function getEventLotteryCutoff(event: LotteryEvent, dateKey: string): Date | null {
+  return getLotteryCutoff({
+    dateKey,
+    signupTime: event.signup_time,
+    startTime: event.start_time,
+    offsetMinutes: event.lottery_cutoff_offset_minutes,
+  });
+}
+
+function formatSlotTime(eventStartTime: string | null, offsetMinutes: number | null): string | null {
+  if (!eventStartTime || offsetMinutes === null) return null;
+  const [hours, minutes] = eventStartTime.split(":").map(Number);
+  const total = hours * 60 + minutes + offsetMinutes;
+  return formatTimeToAMPM(`${Math.floor(total / 60) % 24}:${String(total % 60).padStart(2, "0")}`);
+}
+
+/**
+ * Runs the draw for one occurrence. The draw row is inserted before any
+ * claims so concurrent callers (cron + page load) draw at most once: the
+ * loser hits the unique constraint and returns drawn: false.
+ */
+export async function runLotteryDraw(
+  supabase: SupabaseClient,
+  event: LotteryEvent,
+  dateKey: string
+): Promise<{ drawn: boolean; winners: number; waitlisted: number }> {
+  const [{ data: entries }, { data: slots }] = await Promise.all([
+    supabase
+      .from("timeslot_lottery_entries")
+      .select("id, member_id")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .eq("status", "entered"),
+    supabase
+      .from("event_timeslots")
+      .select("id, slot_index, start_offset_minutes")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .order("slot_index", { ascending: true }),
+  ]);
+
+  const entryRows = (entries || []) as { id: string; member_id: string }[];
+  const slotRows = (slots || []) as { id: string; slot_index: number; start_offset_minutes: number | null }[];
+
+  // Slots the host already filled (e.g. a featured act) are not drawn
+  const { data: heldClaims } = slotRows.length
+    ? await supabase
+        .from("timeslot_claims")
+        .select("timeslot_id")
+        .in("timeslot_id", slotRows.map((s) => s.id))
+        .in("status", ["confirmed", "offered", "performed"])
+    : { data: [] };
+  const heldSlotIds = new Set(((heldClaims || []) as { timeslot_id: string }[]).map((c) => c.timeslot_id));
+  const openSlots = slotRows.filter((s) => !heldSlotIds.has(s.id));
+
+  const memberIds = entryRows.map((e) => e.member_id);
+  const { data: profiles } = memberIds.length
+    ? await supabase.from("profiles").select("id, full_name").in("id", memberIds)
+    : { data: [] };
+  const nameById = new Map(
+    ((profiles || []) as { id: string; full_name: string | null }[]).map((p) => [p.id, p.full_name])
+  );
+  const entryById = new Map(entryRows.map((e) => [e.id, e]));
+
+  const seed = generateLotterySeed();
+  const outcome = drawLottery({
+    entryIds: entryRows.map((e) => e.id),
+    seed,
+    slotCount: openSlots.length,
+  });
+
+  const result: LotteryDrawResult = {
+    algorithm: LOTTERY_ALGORITHM,
+    entrants: [...entryRows]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map((e) => ({ entry_id: e.id, name: nameById.get(e.member_id) || "Member" })),
+    order: outcome.order,
+    assignments: outcome.winners.map((entryId, idx) => ({
+      entry_id: entryId,
+      timeslot_id: openSlots[idx].id,
+      slot_index: openSlots[idx].slot_index,
+    })),
+  };
+
+  const { error: drawError } = await supabase.from("timeslot_lottery_draws").insert({
+    event_id: event.id,
+    date_key: dateKey,
+    seed,
+    algorithm: LOTTERY_ALGORITHM,
+    entrant_count: entryRows.length,
+    slot_count: openSlots.length,
+    result,
+  });
+
+  if (drawError) {
+    if (drawError.code !== "23505") {
+      console.error("Failed to record lottery draw:", event.id, dateKey, drawError);
+    }
+    return { drawn: false, winners: 0, waitlisted: 0 };
+  }
+
+  const now = new Date().toISOString();
+  const eventUrl = `${SITE_URL}/events/${event.slug || event.id}?date=${dateKey}#lineup`;
+
+  for (const assignment of result.assignments) {
+    const entry = entryById.get(assignment.entry_id)!;
+    const { data: claim, error: claimError } = await supabase
+      .from("timeslot_claims")
+      .insert({ timeslot_id: assignment.timeslot_id, member_id: entry.member_id, status: "confirmed" })
+      .select("id, status")
+      .single();
+
+    if (claimError || !claim) {
+      console.error("Failed to create lottery claim:", assignment.entry_id, claimError);
+      continue;
+    }
+
+    await supabase
+      .from("timeslot_lottery_entries")
+      .update({ status: "won", claim_id: claim.id, updated_at: now })
+      .eq("id", entry.id);
+
+    const slot = openSlots.find((s) => s.id === assignment.timeslot_id);
+    const { data: userData } = await supabase.auth.admin.getUserById(entry.member_id);
+    const email = userData?.user?.email;
+    if (email) {
+      const slotNumber = assignment.slot_index + 1;
+      const emailData = getTimeslotClaimConfirmationEmail({
+        performerName: nameById.get(entry.member_id) || "there",
+        eventTitle: event.title || "Event",
+        eventDate: formatDateKeyForEmail(dateKey),
+        eventTime: event.start_time ? formatTimeToAMPM(event.start_time) : "TBD",
+        venueName: event.venue_name || "TBD",
+        venueAddress: event.venue_address || undefined,
+        slotTime: formatSlotTime(event.start_time, slot?.start_offset_minutes ?? null) || `Slot ${slotNumber}`,
+        slotNumber,
+        eventUrl,
+      });
+      sendEmail({ to: email, subject: emailData.subject, html: emailData.html, text: emailData.text })
+        .catch((err) => console.error("Failed to send lottery win email:", err));
+    }
+  }
+
+  for (const [idx, entryId] of outcome.waitlist.entries()) {
+    const entry = entryById.get(entryId)!;
+    await supabase
+      .from("timeslot_lottery_entries")
+      .update({ status: "waitlist", waitlist_position: idx + 1, updated_at: now })
+      .eq("id", entryId);
+
+    const { error: notifyError } = await supabase.rpc("create_user_notification", {
+      p_user_id: entry.member_id,
+      p_type: "lottery_waitlist",
+      p_title: "Lottery Results Are In",
+      p_message: `You're #${idx + 1} on the waitlist for "${event.title}" on ${formatDateKeyShort(dateKey)}. We'll email you if a slot opens up.`,
+      p_link: `/events/${event.slug || event.id}?date=${dateKey}#lineup`,
+    });
+    if (notifyError) {
+      console.error("Failed to send lottery waitlist notification:", notifyError);
+    }
+  }
+
+  return { drawn: true, winners: result.assignments.length, waitlisted: outcome.waitlist.length };
+}
+
+/**
+ * Draws the occurrence if its cutoff has passed and it has not been drawn.
+ * Called by the lottery cron and opportunistically on status reads.
+ */
+export async function runLotteryDrawIfDue(
+  supabase: SupabaseClient,
+  event: LotteryEvent,
+  dateKey: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (event.signup_mode !== LOTTERY_SIGNUP_MODE) return false;
+  const cutoff = getEventLotteryCutoff(event, dateKey);
+  if (!cutoff || isLotteryOpen(cutoff, now)) return false;
+
+  const { data: existing } = await supabase
+    .from("timeslot_lottery_draws")
+    .select("id")
+    .eq("event_id", event.id)
+    .eq("date_key", dateKey)
+    .maybeSingle();
+  if (existing) return false;
+
+  const { drawn } = await runLotteryDraw(supabase, event, dateKey);
+  return drawn;
+}
+
+/**
+ * Cron sweep: draws every lottery occurrence from yesterday through
+ * tomorrow (Denver) whose cutoff has passed. Occurrences are the date_keys
+ * with generated timeslots, so empty pools still get a (zero-entrant) draw
+ * and their slots open up first come, first served.
+ */
+export async function runDueLotteryDraws(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ checked: number; drawn: number }> {
+  const { data: events } = await supabase
+    .from("events")
+    .select(LOTTERY_EVENT_COLUMNS)
+    .eq("signup_mode", LOTTERY_SIGNUP_MODE)
+    .eq("is_published", true)
+    .neq("status", "cancelled");
+
+  const eventRows = (events || []) as LotteryEvent[];
+  if (eventRows.length === 0) return { checked: 0, drawn: 0 };
+
+  const today = getTodayDenver();
+  const { data: slots } = await supabase
+    .from("event_timeslots")
+    .select("event_id, date_key")
+    .in("event_id", eventRows.map((e) => e.id))
+    .gte("date_key", addDaysDenver(today, -1))
+    .lte("date_key", addDaysDenver(today, 1));
+
+  const occurrences = new Set(
+    ((slots || []) as { event_id: string; date_key: string }[]).map((s) => `${s.event_id}:${s.date_key}`)
+  );
+
+  let drawn = 0;
+  for (const key of occurrences) {
+    const [eventId, dateKey] = key.split(":");
+    const event = eventRows.find((e) => e.id === eventId)!;
+    if (await runLotteryDrawIfDue(supabase, event, dateKey, now)) {
+      drawn++;
+    }
+  }
+
+  return { checked: occurrences.size, drawn };
+}
+
+/**
+ * Status for the lottery panel: cutoff, pool size, the caller's entry and
+ * the published draw with a server-side verification of the seed.
+ */
+export async function getLotteryStatus(
+  supabase: SupabaseClient,
+  event: LotteryEvent,
+  dateKey: string,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<LotteryStatus> {
+  const cutoff = getEventLotteryCutoff(event, dateKey);
+
+  const [{ count }, { data: draw }, { data: myEntry }] = await Promise.all([
+    supabase
+      .from("timeslot_lottery_entries")
+      .select("id", { count: "exact", head: true })
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .neq("status", "withdrawn"),
+    supabase
+      .from("timeslot_lottery_draws")
+      .select("seed, drawn_at, result")
+      .eq("event_id", event.id)
+      .eq("date_key", dateKey)
+      .maybeSingle(),
+    userId
+      ? supabase
+          .from("timeslot_lottery_entries")
+          .select("status, waitlist_position, offer_expires_at")
+          .eq("event_id", event.id)
+          .eq("date_key", dateKey)
+          .eq("member_id", userId)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const result = draw?.result as LotteryDrawResult | undefined;
+
+  return {
+    cutoff_at: cutoff ? cutoff.toISOString() : null,
+    open: !draw && isLotteryOpen(cutoff, now),
+    entrant_count: count ?? 0,
+    my_entry: myEntry
+      ? {
+          status: myEntry.status as LotteryEntryStatus,
+          waitlist_position: myEntry.waitlist_position,
+          offer_expires_at: myEntry.offer_expires_at,
+        }
+      : null,
+    draw: draw && result
+      ? {
+          seed: draw.seed,
+          drawn_at: draw.drawn_at,
+          result,
+          verified: verifyLotteryDraw(draw.seed, result),
+        }
+      : null,
+  };
+}
+
+/**
+ * Withdraws a member from the lottery. Before the draw the entry is simply
+ * marked withdrawn; a winner (or offered entrant) dropping out releases the
+ * claim and the slot is offered to the next waitlisted entrant.
+ */
+export async function withdrawLotteryEntry(
+  supabase: SupabaseClient,
+  eventId: string,
+  dateKey: string,
+  memberId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data: entry } = await supabase
+    .from("timeslot_lottery_entries")
+    .select("id, status, claim_id")
+    .eq("event_id", eventId)
+    .eq("date_key", dateKey)
+    .eq("member_id", memberId)
+    .maybeSingle();
+
+  if (!entry || entry.status === "withdrawn" || entry.status === "expired") {
+    return { success: false, error: "You're not entered in this draw" };
+  }
+
+  let freedTimeslotId: string | null = null;
+  if (entry.claim_id) {
+    const { data: claim } = await supabase
+      .from("timeslot_claims")
+      .update({ status: "cancelled", updated_at: new Date().toISOString() })
+      .eq("id", entry.claim_id)
+      .in("status", ["confirmed", "offered"])
+      .select("timeslot_id")
+      .maybeSingle();
+    freedTimeslotId = claim?.timeslot_id ?? null;
+  }
+
+  const { error: updateError } = await supabase
+    .from("timeslot_lottery_entries")
+    .update({
+      status: "withdrawn",
+      waitlist_position: null,
+      offer_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", entry.id);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  if (freedTimeslotId) {
+    await promoteNextLotteryEntrant(supabase, eventId, dateKey, freedTimeslotId);
+  }
+
+  return { success: true };
+}
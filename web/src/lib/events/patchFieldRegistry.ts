@@ -93,6 +93,7 @@ export const EVENTS_COLUMN_NAMES = [
   "last_verified_at",
   "location_mode",
   "location_notes",
+  "lottery_cutoff_offset_minutes",
   "max_occurrences",
   "notes",
   "online_url",
@@ -102,10 +103,12 @@ export const EVENTS_COLUMN_NAMES = [
   "recurrence_pattern",
   "recurrence_rule",
   "region_id",
+  "reminder_hours_before",
   "series_id",
   "series_index",
   "signup_deadline",
   "signup_mode",
+  "signup_policy",
   "signup_time",
   "signup_url",
   "slot_duration_minutes",
@@ -302,6 +305,7 @@ export const PATCH_FIELD_REGISTRY = {
   slot_duration_minutes: MEDIUM_SHADOW("both"),
   slot_offer_window_minutes: MEDIUM_SHADOW("both"),
   signup_mode: MEDIUM_SHADOW("both"),
+  lottery_cutoff_offset_minutes: MEDIUM_SHADOW("series"),
   signup_url: MEDIUM_SHADOW("both"),
 
   // ------- audience / cost (medium, shadow) -------
@@ -346,11 +350,15 @@ export const UNCLASSIFIED_BY_DESIGN = {
   host_id:
     "Ownership transfer is a separate explicit flow with its own approval gate.",
   region_id: "Server-derived from the resolved venue; not patched directly.",
+  reminder_hours_before:
+    "Host reminder lead time, edited only through /api/my-events/[id]/reminders with its own validation.",
   series_id: "System-managed series identity assigned at creation time.",
   series_index: "System-managed occurrence index within a series.",
   parent_event_id: "System-managed series link; mutated by series operations only.",
   source:
     "Origin telemetry tag (manual / ai_chat / ai_edit / url_import). Set by the write path, never user-editable.",
+  signup_policy:
+    "Host no-show / guest signup rules, edited only through /api/my-events/[id]/signup-policy with its own validation.",
   spotify_url:
     "Admin-only media embed field (see 10-web-product-invariants.md §API Route Known Footguns); not on the host AI edit surface.",
   youtube_url:
@@ -0,0 +1,213 @@
+/**
+ * Run-of-Show Contract
+ *
+ * Pure helpers for the host run-of-show console (lineup page), the TV display
+ * timer mirror, the run-of-show API route and the schedule drift report.
+ *
+ * Timing model:
+ * - event_lineup_state.now_playing_started_at is stamped by a DB trigger
+ *   whenever the now-playing slot changes; timers count down from it using
+ *   the slot's duration_minutes (seeded from events.slot_duration_minutes).
+ * - timeslot_claims.performance_started_at / performance_ended_at hold the
+ *   night's actual times per performer (also trigger-maintained).
+ */
+
+import { addDaysDenver, denverDateKeyFromDate } from "./nextOccurrence";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RunOfShowAction = "performed" | "no_show" | "skip" | "bump_to_end";
+
+export const RUN_OF_SHOW_ACTIONS: readonly RunOfShowAction[] = [
+  "performed",
+  "no_show",
+  "skip",
+  "bump_to_end",
+];
+
+/** "warning" inside the last warning_seconds of a slot, "overtime" past its end. */
+export type SlotTimerPhase = "on_time" | "warning" | "overtime";
+
+export interface SlotTimer {
+  elapsedSeconds: number;
+  /** Negative once the performer is over time. */
+  remainingSeconds: number;
+  phase: SlotTimerPhase;
+}
+
+export interface RunOfShowSlot {
+  id: string;
+  slot_index: number;
+  claim: { id: string; status: string } | null;
+}
+
+export interface DriftInput {
+  dateKey: string;
+  /** Event start time "HH:MM[:SS]" (Denver wall time) */
+  eventStartTime: string | null;
+  startOffsetMinutes: number;
+  performanceStartedAt: string | null;
+  performanceEndedAt: string | null;
+}
+
+export interface PerformerDrift {
+  /** Minutes after midnight of dateKey (may exceed 1440 past midnight). */
+  scheduledStartMinutes: number;
+  actualStartMinutes: number;
+  /** Positive = running late, negative = running early. */
+  driftMinutes: number;
+  actualDurationMinutes: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_WARNING_SECONDS = 120;
+export const MAX_WARNING_SECONDS = 1800;
+
+/** Warning lead-time choices offered in the host console. */
+export const WARNING_SECONDS_OPTIONS = [0, 60, 120, 180, 300] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getSlotTimer(input: {
+  startedAt: string;
+  durationMinutes: number;
+  warningSeconds: number;
+  now: Date;
+}): SlotTimer {
+  const startedMs = new Date(input.startedAt).getTime();
+  const elapsedSeconds = Math.max(0, Math.floor((input.now.getTime() - startedMs) / 1000));
+  const remainingSeconds = input.durationMinutes * 60 - elapsedSeconds;
+
+  let phase: SlotTimerPhase = "on_time";
+  if (remainingSeconds < 0) {
+    phase = "overtime";
+  } else if (remainingSeconds <= input.warningSeconds) {
+    phase = "warning";
+  }
+
+  return { elapsedSeconds, remainingSeconds, phase };
+}
+
+/**
+ * Formats a countdown as "m:ss"; overtime is shown as "+m:ss".
+ */
+export function formatTimerSeconds(remainingSeconds: number): string {
+  const overtime = remainingSeconds < 0;
+  const total = Math.abs(remainingSeconds);
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${overtime ? "+" : ""}${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Advancing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isUpNextClaim(slot: RunOfShowSlot): boolean {
+  return slot.claim?.status === "confirmed";
+}
+
+/**
+ * Next slot after the current one that still has a performer waiting to go
+ * on. Empty slots and already performed slots are skipped. Returns null at
+ * the end of the lineup.
+ */
+export function findNextClaimedSlot<T extends RunOfShowSlot>(
+  slots: T[],
+  currentSlotId: string | null
+): T | null {
+  const sorted = [...slots].sort((a, b) => a.slot_index - b.slot_index);
+  const currentIdx = currentSlotId ? sorted.findIndex((s) => s.id === currentSlotId) : -1;
+  return sorted.slice(currentIdx + 1).find(isUpNextClaim) ?? null;
+}
+
+/**
+ * Where "bump to end" moves the current performer: the first open slot
+ * after the last claimed slot. Returns null when the lineup has no open slot
+ * at the end.
+ */
+export function findBumpTargetSlot<T extends RunOfShowSlot>(
+  slots: T[],
+  currentSlotId: string
+): T | null {
+  const sorted = [...slots].sort((a, b) => a.slot_index - b.slot_index);
+  let lastClaimedIdx = -1;
+  sorted.forEach((slot, idx) => {
+    if (slot.claim && slot.id !== currentSlotId) lastClaimedIdx = idx;
+  });
+  const currentIdx = sorted.findIndex((s) => s.id === currentSlotId);
+  const searchFrom = Math.max(lastClaimedIdx, currentIdx) + 1;
+  return sorted.slice(searchFrom).find((slot) => !slot.claim) ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schedule drift
+// ─────────────────────────────────────────────────────────────────────────────
+
+const denverTimeFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/Denver",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Minutes after midnight (Denver) of dateKey for an instant. Late-night sets
+ * that run past midnight continue counting (e.g. 12:30 AM next day = 1470).
+ */
+export function denverMinutesIntoDate(instant: Date, dateKey: string): number {
+  const parts = denverTimeFormatter.formatToParts(instant);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+
+  const instantKey = denverDateKeyFromDate(instant);
+  let dayOffset = 0;
+  if (instantKey < dateKey) {
+    dayOffset = -1;
+  } else if (instantKey > dateKey) {
+    dayOffset = instantKey === addDaysDenver(dateKey, 1) ? 1 : 2;
+  }
+
+  return dayOffset * 1440 + hour * 60 + minute;
+}
+
+/**
+ * Actual vs scheduled start for one performer. Null until they have gone on
+ * (or when the event has no start time to schedule against).
+ */
+export function computePerformerDrift(input: DriftInput): PerformerDrift | null {
+  if (!input.eventStartTime || !input.performanceStartedAt) return null;
+
+  const [hours, minutes] = input.eventStartTime.split(":").map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+
+  const scheduledStartMinutes = hours * 60 + minutes + input.startOffsetMinutes;
+  const startedAt = new Date(input.performanceStartedAt);
+  const actualStartMinutes = denverMinutesIntoDate(startedAt, input.dateKey);
+
+  const actualDurationMinutes = input.performanceEndedAt
+    ? Math.round((new Date(input.performanceEndedAt).getTime() - startedAt.getTime()) / 60000)
+    : null;
+
+  return {
+    scheduledStartMinutes,
+    actualStartMinutes,
+    driftMinutes: actualStartMinutes - scheduledStartMinutes,
+    actualDurationMinutes,
+  };
+}
+
+/**
+ * "+12 min" / "-3 min" / "on time"
+ */
+export function formatDriftMinutes(driftMinutes: number): string {
+  if (driftMinutes === 0) return "on time";
+  return `${driftMinutes > 0 ? "+" : "-"}${Math.abs(driftMinutes)} min`;
+}
@@ -3,6 +3,7 @@ export const SIGNUP_MODE_VALUES = [
   "in_person",
   "online",
   "both",
+  "lottery",
 ] as const;
 
 export type SignupMode = (typeof SIGNUP_MODE_VALUES)[number];
@@ -21,7 +22,7 @@ export function isValidSignupMode(value: unknown): value is SignupMode {
 /**
  * Normalizes free-form/signup-ish values into DB-valid enum values.
  *
- * DB constraint accepts only: walk_in | in_person | online | both | null
+ * DB constraint accepts only: walk_in | in_person | online | both | lottery | null
  */
 export function normalizeSignupMode(value: unknown): SignupMode | null {
   const raw = normalizedText(value);
@@ -63,6 +64,10 @@ export function normalizeSignupMode(value: unknown): SignupMode | null {
     return "online";
   }
 
+  if (raw === "hat draw" || raw === "hat_draw" || raw === "draw" || raw === "random draw") {
+    return "lottery";
+  }
+
   if (
     raw === "hybrid" ||
     raw === "in person + online" ||
@@ -0,0 +1,239 @@
+/**
+ * Signup Policy Contract
+ *
+ * Per-event performer signup policies stored in events.signup_policy (jsonb,
+ * NULL = no policy). Enforced in the database by the timeslot_claims
+ * signup-policy trigger and rpc_claim_open_mic_slot; the guest claim routes
+ * pre-check with checkGuestSignupPolicy so guests get a clear error before a
+ * verification code is emailed. TimeslotSection shows describeSignupPolicy()
+ * so performers see the rules before claiming.
+ *
+ * "Recent" no-shows are timeslot_claims with status = 'no_show' updated
+ * inside the decay window, so old no-shows expire on their own.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SignupPolicy {
+  /** Members with at least this many recent no-shows go to the waitlist for host approval. */
+  waitlist_after_no_shows: number | null;
+  /** Guest claims allowed per email per calendar month at this event. */
+  guest_slots_per_month: number | null;
+  /** Anyone with a recent no-show must sign in with a verified-email account. */
+  require_verified_after_no_show: boolean;
+  /** Window for counting no-shows as "recent". */
+  no_show_decay_days: number;
+}
+
+export type GuestPolicyCheck = { allowed: true } | { allowed: false; reason: string };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_NO_SHOW_DECAY_DAYS = 90;
+export const MAX_NO_SHOW_DECAY_DAYS = 365;
+export const MAX_NO_SHOW_THRESHOLD = 10;
+export const MAX_GUEST_SLOTS_PER_MONTH = 10;
+
+/** Prefix on trigger/RPC exceptions; the message after it is user-facing. */
+export const SIGNUP_POLICY_ERROR_PREFIX = "Signup policy: ";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function optionalInt(value: unknown, min: number, max: number): number | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) return undefined;
+  return n;
+}
+
+/**
+ * Validates a policy from a request body. Returns null for "no policy"
+ * (null body or every rule off) and an error string for invalid input.
+ */
+export function validateSignupPolicy(
+  input: unknown
+): { policy: SignupPolicy | null } | { error: string } {
+  if (input === null || input === undefined) return { policy: null };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "signup_policy must be an object or null" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  const threshold = optionalInt(raw.waitlist_after_no_shows, 1, MAX_NO_SHOW_THRESHOLD);
+  if (threshold === undefined) {
+    return { error: `waitlist_after_no_shows must be 1-${MAX_NO_SHOW_THRESHOLD} or null` };
+  }
+
+  const guestLimit = optionalInt(raw.guest_slots_per_month, 1, MAX_GUEST_SLOTS_PER_MONTH);
+  if (guestLimit === undefined) {
+    return { error: `guest_slots_per_month must be 1-${MAX_GUEST_SLOTS_PER_MONTH} or null` };
+  }
+
+  const decayDays = optionalInt(raw.no_show_decay_days, 1, MAX_NO_SHOW_DECAY_DAYS);
+  if (decayDays === undefined) {
+    return { error: `no_show_decay_days must be 1-${MAX_NO_SHOW_DECAY_DAYS}` };
+  }
+
+  if (
+    raw.require_verified_after_no_show !== undefined &&
+    typeof raw.require_verified_after_no_show !== "boolean"
+  ) {
+    return { error: "require_verified_after_no_show must be a boolean" };
+  }
+
+  const policy: SignupPolicy = {
+    waitlist_after_no_shows: threshold,
+    guest_slots_per_month: guestLimit,
+    require_verified_after_no_show: raw.require_verified_after_no_show === true,
+    no_show_decay_days: decayDays ?? DEFAULT_NO_SHOW_DECAY_DAYS,
+  };
+
+  return { policy: hasActiveRules(policy) ? policy : null };
+}
+
+/**
+ * Lenient read of the stored column: invalid values are treated as no policy.
+ */
+export function parseSignupPolicy(value: unknown): SignupPolicy | null {
+  const result = validateSignupPolicy(value);
+  return "policy" in result ? result.policy : null;
+}
+
+export function hasActiveRules(policy: SignupPolicy): boolean {
+  return (
+    policy.waitlist_after_no_shows !== null ||
+    policy.guest_slots_per_month !== null ||
+    policy.require_verified_after_no_show
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Display
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plain-language rules for performers (TimeslotSection) and hosts.
+ */
+export function describeSignupPolicy(policy: SignupPolicy | null): string[] {
+  if (!policy) return [];
+
+  const lines: string[] = [];
+  const window = `the last ${policy.no_show_decay_days} days`;
+
+  if (policy.waitlist_after_no_shows !== null) {
+    const n = policy.waitlist_after_no_shows;
+    lines.push(
+      `Performers with ${n} or more no-show${n === 1 ? "" : "s"} in ${window} are waitlisted until the host confirms them.`
+    );
+  }
+
+  if (policy.guest_slots_per_month !== null) {
+    const n = policy.guest_slots_per_month;
+    lines.push(`Guests (no account) can claim ${n} slot${n === 1 ? "" : "s"} per month here.`);
+  }
+
+  if (policy.require_verified_after_no_show) {
+    lines.push(`After a no-show in ${window}, you'll need a verified account to sign up.`);
+  }
+
+  return lines;
+}
+
+/**
+ * Strips the DB prefix from a policy exception. Returns null for other errors.
+ */
+export function getSignupPolicyErrorMessage(message: string | null | undefined): string | null {
+  if (!message) return null;
+  const idx = message.indexOf(SIGNUP_POLICY_ERROR_PREFIX);
+  if (idx === -1) return null;
+  return message.slice(idx + SIGNUP_POLICY_ERROR_PREFIX.length);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Guest evaluation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pure guest rule check. Mirrors enforce_timeslot_signup_policy() for claims
+ * without a member_id.
+ */
+export function evaluateGuestSignupPolicy(
+  policy: SignupPolicy | null,
+  input: { recentNoShows: number; claimsThisMonth: number }
+): GuestPolicyCheck {
+  if (!policy) return { allowed: true };
+
+  if (policy.require_verified_after_no_show && input.recentNoShows > 0) {
+    return {
+      allowed: false,
+      reason: "After a recent no-show, please sign in with a verified account to claim a slot",
+    };
+  }
+
+  if (
+    policy.guest_slots_per_month !== null &&
+    input.claimsThisMonth >= policy.guest_slots_per_month
+  ) {
+    return {
+      allowed: false,
+      reason: `Guests can claim ${policy.guest_slots_per_month} slot(s) per month at this event`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/** "2026-05-14" -> ["2026-05-01", "2026-05-31"] */
+export function monthDateKeyRange(dateKey: string): [string, string] {
+  const [year, month] = dateKey.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = dateKey.slice(0, 7);
+  return [`${prefix}-01`, `${prefix}-${String(lastDay).padStart(2, "0")}`];
+}
+
+/**
+ * Loads the guest's recent no-shows and this month's claims at the event,
+ * then evaluates the policy. Requires a service role client; guest emails
+ * are stored lowercased by the verification flow.
+ */
+export async function checkGuestSignupPolicy(
+  supabase: SupabaseClient,
+  input: { policy: SignupPolicy | null; eventId: string; dateKey: string; guestEmail: string }
+): Promise<GuestPolicyCheck> {
+  const { policy } = input;
+  if (!policy) return { allowed: true };
+
+  const { data: recentNoShows } = await supabase.rpc("count_recent_no_shows", {
+    p_member_id: null,
+    p_guest_email: input.guestEmail,
+    p_decay_days: policy.no_show_decay_days,
+  });
+
+  let claimsThisMonth = 0;
+  if (policy.guest_slots_per_month !== null) {
+    const [monthStart, monthEnd] = monthDateKeyRange(input.dateKey);
+    const { count } = await supabase
+      .from("timeslot_claims")
+      .select("id, event_timeslots!inner(event_id, date_key)", { count: "exact", head: true })
+      .eq("guest_email", input.guestEmail.toLowerCase())
+      .neq("status", "cancelled")
+      .eq("event_timeslots.event_id", input.eventId)
+      .gte("event_timeslots.date_key", monthStart)
+      .lte("event_timeslots.date_key", monthEnd);
+    claimsThisMonth = count ?? 0;
+  }
+
+  return evaluateGuestSignupPolicy(policy, {
+    recentNoShows: typeof recentNoShows === "number" ? recentNoShows : 0,
+    claimsThisMonth,
+  });
+}
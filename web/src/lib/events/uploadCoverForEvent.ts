@@ -1,10 +1,12 @@
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { processUploadedImage } from "@/lib/images/client";
 
 /**
  * Upload a cover image to the event-images bucket and create an event_images row.
  *
  * Storage path: `{eventId}/{uuid}.{ext}`
  * On insert failure, the storage object is removed (compensating transaction).
+ * On success the image is post-processed (metadata stripped, variants built).
  *
  * Extracted from EventForm.tsx to share between EventForm and interpreter lab flows.
  */
@@ -48,6 +50,9 @@ export async function uploadCoverForEvent({
     throw insertError;
   }
 
+  // Strip location metadata and build responsive variants
+  await processUploadedImage("event-images", storagePath);
+
   return publicUrl;
 }
 
@@ -15,8 +15,17 @@
  *
  * This replaces the previous source-based logic. Now verification is purely
  * based on whether an admin has explicitly verified the event.
+ *
+ * A confirmation goes stale after VERIFICATION_STALE_AFTER_WEEKS and the
+ * reverification campaign (lib/reverification) asks the host or venue manager
+ * to re-confirm. A stale event keeps displaying as confirmed while that
+ * request is open; if it expires unanswered the campaign clears
+ * last_verified_at, so the event shows as unconfirmed until re-verified.
  */
 
+/** Weeks after last_verified_at before an event is due for reverification */
+export const VERIFICATION_STALE_AFTER_WEEKS = 12;
+
 export type VerificationState = "confirmed" | "unconfirmed" | "cancelled";
 
 export interface VerificationResult {
@@ -85,6 +94,19 @@ export function isConfirmed(event: VerificationInput): boolean {
   return getPublicVerificationState(event).state === "confirmed";
 }
 
+/**
+ * Check if a confirmed event's verification is older than the stale window
+ */
+export function isVerificationStale(
+  event: VerificationInput,
+  now: Date = new Date()
+): boolean {
+  if (getPublicVerificationState(event).state !== "confirmed") return false;
+  const verifiedAt = new Date(event.last_verified_at as string).getTime();
+  if (isNaN(verifiedAt)) return true;
+  return now.getTime() - verifiedAt > VERIFICATION_STALE_AFTER_WEEKS * 7 * 24 * 60 * 60 * 1000;
+}
+
 /**
  * Format last verified date for display
  */
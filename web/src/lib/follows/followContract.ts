@@ -0,0 +1,87 @@
+/**
+ * Follows — shared types and labels (client-safe)
+ *
+ * Members follow a member (songwriter or host), a venue or an organization.
+ * Activity rows are written by database triggers
+ * (supabase/migrations/20260509010000_follows_activity_feed.sql) and fan out
+ * to followers as 'follow_activity' notifications unless the follow is muted.
+ */
+
+export const FOLLOW_TARGET_TYPES = ["member", "venue", "organization"] as const;
+export type FollowTargetType = (typeof FOLLOW_TARGET_TYPES)[number];
+
+export const FOLLOW_ACTIVITY_VERBS = [
+  "slot_signup",
+  "hosted_happening",
+  "gallery_album",
+  "blog_post",
+  "venue_series",
+  "organization_link",
+] as const;
+export type FollowActivityVerb = (typeof FOLLOW_ACTIVITY_VERBS)[number];
+
+/** Notification type used for follow fan-out rows */
+export const FOLLOW_NOTIFICATION_TYPE = "follow_activity";
+
+export const FOLLOW_TARGET_LABELS: Record<FollowTargetType, string> = {
+  member: "Members",
+  venue: "Venues",
+  organization: "Organizations",
+};
+
+export const FOLLOW_ACTIVITY_ICONS: Record<FollowActivityVerb, string> = {
+  slot_signup: "🎤",
+  hosted_happening: "📅",
+  gallery_album: "📸",
+  blog_post: "📝",
+  venue_series: "📍",
+  organization_link: "🤝",
+};
+
+export interface FollowState {
+  following: boolean;
+  muted: boolean;
+  followerCount: number;
+}
+
+export interface FollowedTarget {
+  id: string;
+  targetType: FollowTargetType;
+  targetId: string;
+  muted: boolean;
+  name: string;
+  href: string;
+  createdAt: string;
+}
+
+export interface FollowActivityItem {
+  id: string;
+  actorType: FollowTargetType;
+  actorId: string;
+  verb: FollowActivityVerb;
+  title: string;
+  link: string | null;
+  createdAt: string;
+}
+
+/** One "From people you follow" line in the weekly digest */
+export interface DigestFollowActivity {
+  title: string;
+  /** Site-relative path */
+  link: string | null;
+}
+
+export function isFollowTargetType(value: unknown): value is FollowTargetType {
+  return typeof value === "string" && (FOLLOW_TARGET_TYPES as readonly string[]).includes(value);
+}
+
+export function followTargetHref(targetType: FollowTargetType, slugOrId: string): string {
+  switch (targetType) {
+    case "member":
+      return `/songwriters/${slugOrId}`;
+    case "venue":
+      return `/venues/${slugOrId}`;
+    case "organization":
+      return `/friends-of-the-collective/${slugOrId}`;
+  }
+}
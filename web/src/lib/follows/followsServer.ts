@@ -0,0 +1,334 @@
+/**
+ * Follows — server-side reads
+ *
+ * Session-client helpers for the follow button, the Following dashboard and
+ * the "For You" followed-going signal, plus a service-role batch read for the
+ * weekly digest's "From people you follow" section.
+ *
+ * follow_activity rows are only visible to followers (RLS), so the feed
+ * helpers work with either client; the digest helper needs service role
+ * because it reads for many recipients at once.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { occurrenceKey } from "@/lib/happenings/recommendations";
+import {
+  followTargetHref,
+  type DigestFollowActivity,
+  isFollowTargetType,
+  type FollowActivityItem,
+  type FollowActivityVerb,
+  type FollowState,
+  type FollowTargetType,
+  type FollowedTarget,
+} from "./followContract";
+
+/** Feed page size on the Following dashboard */
+export const FOLLOW_FEED_LIMIT = 30;
+
+/** Cap on digest entries per recipient */
+export const DIGEST_FOLLOW_ACTIVITY_LIMIT = 8;
+
+interface FollowActivityRow {
+  id: string;
+  actor_type: string;
+  actor_id: string;
+  verb: string;
+  title: string;
+  link: string | null;
+  created_at: string;
+}
+
+function toFollowActivityItem(row: FollowActivityRow): FollowActivityItem | null {
+  if (!isFollowTargetType(row.actor_type)) return null;
+  return {
+    id: row.id,
+    actorType: row.actor_type,
+    actorId: row.actor_id,
+    verb: row.verb as FollowActivityVerb,
+    title: row.title,
+    link: row.link,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Follow state for one target. Anonymous viewers get the public count only.
+ */
+export async function getFollowState(
+  supabase: SupabaseClient<Database>,
+  userId: string | null,
+  targetType: FollowTargetType,
+  targetId: string
+): Promise<FollowState> {
+  const [countRes, followRes] = await Promise.all([
+    supabase.rpc("get_follower_count", { p_target_type: targetType, p_target_id: targetId }),
+    userId
+      ? supabase
+          .from("follows")
+          .select("muted")
+          .eq("follower_id", userId)
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (countRes.error) {
+    console.error("[Follows] Failed to load follower count:", countRes.error);
+  }
+  if (followRes.error) {
+    console.error("[Follows] Failed to load follow:", followRes.error);
+  }
+
+  return {
+    following: !!followRes.data,
+    muted: followRes.data?.muted ?? false,
+    followerCount: countRes.data ?? 0,
+  };
+}
+
+/**
+ * Everything a user follows, with display names and links resolved.
+ * Targets that no longer resolve (deleted or hidden) are listed as
+ * "Unavailable" so they can still be unfollowed.
+ */
+export async function getUserFollows(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<FollowedTarget[]> {
+  const { data, error } = await supabase
+    .from("follows")
+    .select("id, target_type, target_id, muted, created_at")
+    .eq("follower_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[Follows] Failed to load follows:", error);
+    return [];
+  }
+
+  const rows = (data || []).filter((row) => isFollowTargetType(row.target_type));
+  const idsByType: Record<FollowTargetType, string[]> = { member: [], venue: [], organization: [] };
+  for (const row of rows) {
+    idsByType[row.target_type as FollowTargetType].push(row.target_id);
+  }
+
+  const [profilesRes, venuesRes, organizationsRes] = await Promise.all([
+    idsByType.member.length > 0
+      ? supabase.from("profiles").select("id, slug, full_name").in("id", idsByType.member)
+      : Promise.resolve({ data: [], error: null }),
+    idsByType.venue.length > 0
+      ? supabase.from("venues").select("id, slug, name").in("id", idsByType.venue)
+      : Promise.resolve({ data: [], error: null }),
+    idsByType.organization.length > 0
+      ? // organizations is not in the generated types yet
+        (supabase as any).from("organizations").select("id, slug, name").in("id", idsByType.organization)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const resolved = new Map<string, { name: string; slug: string | null }>();
+  for (const p of (profilesRes.data || []) as Array<{ id: string; slug: string | null; full_name: string | null }>) {
+    resolved.set(`member:${p.id}`, { name: p.full_name || "Member", slug: p.slug });
+  }
+  for (const v of (venuesRes.data || []) as Array<{ id: string; slug: string | null; name: string }>) {
+    resolved.set(`venue:${v.id}`, { name: v.name, slug: v.slug });
+  }
+  for (const o of (organizationsRes.data || []) as Array<{ id: string; slug: string | null; name: string }>) {
+    resolved.set(`organization:${o.id}`, { name: o.name, slug: o.slug });
+  }
+
+  return rows.map((row) => {
+    const targetType = row.target_type as FollowTargetType;
+    const target = resolved.get(`${targetType}:${row.target_id}`);
+    return {
+      id: row.id,
+      targetType,
+      targetId: row.target_id,
+      muted: row.muted,
+      name: target?.name ?? "Unavailable",
+      href: followTargetHref(targetType, target?.slug || row.target_id),
+      createdAt: row.created_at,
+    };
+  });
+}
+
+/**
+ * Activity feed for the signed-in user (RLS limits rows to followed actors).
+ * Muted follows are included; muting only silences notifications.
+ */
+export async function getFollowActivityFeed(
+  supabase: SupabaseClient<Database>,
+  options: { limit?: number; before?: string | null } = {}
+): Promise<FollowActivityItem[]> {
+  let query = supabase
+    .from("follow_activity")
+    .select("id, actor_type, actor_id, verb, title, link, created_at")
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? FOLLOW_FEED_LIMIT);
+
+  if (options.before) {
+    query = query.lt("created_at", options.before);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[Follows] Failed to load activity feed:", error);
+    return [];
+  }
+
+  return ((data || []) as FollowActivityRow[])
+    .map(toFollowActivityItem)
+    .filter((item): item is FollowActivityItem => item !== null);
+}
+
+/**
+ * Recent activity for each digest recipient from their unmuted follows,
+ * newest first. Requires a service-role client. Recipients with nothing
+ * new get no entry.
+ */
+export async function getFollowActivityForUsers(
+  serviceClient: SupabaseClient<Database>,
+  userIds: string[],
+  options: { since: string; limit?: number }
+): Promise<Map<string, DigestFollowActivity[]>> {
+  const activityByUserId = new Map<string, DigestFollowActivity[]>();
+  if (userIds.length === 0) return activityByUserId;
+
+  const { data: follows, error: followsError } = await serviceClient
+    .from("follows")
+    .select("follower_id, target_type, target_id")
+    .in("follower_id", userIds)
+    .eq("muted", false);
+
+  if (followsError) {
+    console.error("[Follows] Failed to load follows for digest:", followsError);
+    return activityByUserId;
+  }
+  if (!follows || follows.length === 0) return activityByUserId;
+
+  const followersByActor = new Map<string, string[]>();
+  for (const row of follows) {
+    const key = `${row.target_type}:${row.target_id}`;
+    const followers = followersByActor.get(key) ?? [];
+    followers.push(row.follower_id);
+    followersByActor.set(key, followers);
+  }
+
+  const actorIds = [...new Set(follows.map((row) => row.target_id))];
+  const { data: activity, error: activityError } = await serviceClient
+    .from("follow_activity")
+    .select("actor_type, actor_id, title, link, created_at")
+    .in("actor_id", actorIds)
+    .gte("created_at", options.since)
+    .order("created_at", { ascending: false });
+
+  if (activityError) {
+    console.error("[Follows] Failed to load activity for digest:", activityError);
+    return activityByUserId;
+  }
+
+  const limit = options.limit ?? DIGEST_FOLLOW_ACTIVITY_LIMIT;
+  for (const row of activity || []) {
+    for (const followerId of followersByActor.get(`${row.actor_type}:${row.actor_id}`) ?? []) {
+      const items = activityByUserId.get(followerId) ?? [];
+      if (items.length >= limit) continue;
+      items.push({ title: row.title, link: row.link });
+      activityByUserId.set(followerId, items);
+    }
+  }
+
+  return activityByUserId;
+}
+
+/**
+ * For each user, how many distinct followed members are going to each
+ * upcoming occurrence (confirmed RSVP or slot). Keyed by occurrenceKey().
+ */
+export async function getFollowedGoingCounts(
+  supabase: SupabaseClient<Database>,
+  userIds: string[],
+  options: { todayKey: string }
+): Promise<Map<string, Map<string, number>>> {
+  const countsByUserId = new Map<string, Map<string, number>>();
+  if (userIds.length === 0) return countsByUserId;
+
+  const { data: follows, error: followsError } = await supabase
+    .from("follows")
+    .select("follower_id, target_id")
+    .in("follower_id", userIds)
+    .eq("target_type", "member");
+
+  if (followsError) {
+    console.error("[Follows] Failed to load followed members:", followsError);
+    return countsByUserId;
+  }
+  if (!follows || follows.length === 0) return countsByUserId;
+
+  const memberIds = [...new Set(follows.map((row) => row.target_id))];
+  const [rsvpsRes, claimsRes] = await Promise.all([
+    supabase
+      .from("event_rsvps")
+      .select("user_id, event_id, date_key")
+      .in("user_id", memberIds)
+      .eq("status", "confirmed")
+      .gte("date_key", options.todayKey),
+    supabase
+      .from("timeslot_claims")
+      .select("member_id, event_timeslots!inner(event_id, date_key)")
+      .in("member_id", memberIds)
+      .eq("status", "confirmed")
+      .gte("event_timeslots.date_key", options.todayKey),
+  ]);
+
+  if (rsvpsRes.error) {
+    console.error("[Follows] Failed to load followed RSVPs:", rsvpsRes.error);
+  }
+  if (claimsRes.error) {
+    console.error("[Follows] Failed to load followed slots:", claimsRes.error);
+  }
+
+  // occurrence key -> members going
+  const goingByOccurrence = new Map<string, Set<string>>();
+  const addGoing = (memberId: string | null, eventId: string, dateKey: string | null) => {
+    if (!memberId || !dateKey || dateKey < options.todayKey) return;
+    const key = occurrenceKey(eventId, dateKey);
+    const members = goingByOccurrence.get(key) ?? new Set<string>();
+    members.add(memberId);
+    goingByOccurrence.set(key, members);
+  };
+
+  for (const row of rsvpsRes.data || []) {
+    addGoing(row.user_id, row.event_id, row.date_key);
+  }
+  for (const row of (claimsRes.data || []) as unknown as Array<{
+    member_id: string | null;
+    event_timeslots: { event_id: string; date_key: string | null } | null;
+  }>) {
+    if (row.event_timeslots) {
+      addGoing(row.member_id, row.event_timeslots.event_id, row.event_timeslots.date_key);
+    }
+  }
+
+  const followedByUserId = new Map<string, Set<string>>();
+  for (const row of follows) {
+    const followed = followedByUserId.get(row.follower_id) ?? new Set<string>();
+    followed.add(row.target_id);
+    followedByUserId.set(row.follower_id, followed);
+  }
+
+  for (const [userId, followed] of followedByUserId) {
+    const counts = new Map<string, number>();
+    for (const [key, members] of goingByOccurrence) {
+      let count = 0;
+      for (const memberId of members) {
+        if (followed.has(memberId)) count++;
+      }
+      if (count > 0) counts.set(key, count);
+    }
+    if (counts.size > 0) countsByUserId.set(userId, counts);
+  }
+
+  return countsByUserId;
+}
@@ -52,8 +52,9 @@ export function verifyCodeHash(
 
 /**
  * Get the JWT secret for action tokens
+ * (shared with reverification tokens, which use their own audience)
  */
-function getTokenSecret(): Uint8Array {
+export function getTokenSecret(): Uint8Array {
   const secret = process.env.GUEST_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
   if (!secret) {
     throw new Error("GUEST_TOKEN_SECRET or SUPABASE_SERVICE_ROLE_KEY must be set");
@@ -0,0 +1,400 @@
+/**
+ * "For You" Recommendations
+ *
+ * Scores upcoming occurrences (entries from expandAndGroupEvents, or digest
+ * occurrences) for one member and explains every pick. Pure functions only:
+ * signals are loaded by recommendationsServer.ts.
+ *
+ * Signals and their reasons:
+ * - people you follow going        "2 people you follow are going"
+ * - favorites / watching            "In your favorites" / "You're watching this"
+ * - performed here (timeslot claims) "You've played here 3 times"
+ * - attended (past RSVPs)           "You've been to this 2 times"
+ * - saved happenings filters        "Matches your Tuesday filter"
+ * - profile genres / instruments    "Matches your genre: Blues"
+ * - profile city                    "In Denver"
+ *
+ * An occurrence needs at least one personal reason to be picked; the small
+ * soon-ness boost only breaks ties.
+ */
+
+import type { DigestApplicableSavedFilters, SavedDayFilter } from "./savedFilters";
+import { normalizeCity } from "./locationFilter";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RecommendableEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  event_type?: string[] | null;
+  is_free?: boolean | null;
+  venue_id?: string | null;
+  custom_city?: string | null;
+  venue?: { id?: string | null; name?: string | null; city?: string | null } | null;
+}
+
+export interface RecommendationCandidate<E extends RecommendableEvent = RecommendableEvent> {
+  event: E;
+  /** Occurrence date (YYYY-MM-DD, Denver) */
+  dateKey: string;
+}
+
+export interface RecommendationSignals {
+  favoriteEventIds: Set<string>;
+  watchedEventIds: Set<string>;
+  /** Past confirmed RSVPs per event */
+  attendedEventCounts: Map<string, number>;
+  /** Past confirmed RSVPs per venue */
+  attendedVenueCounts: Map<string, number>;
+  /** Past performed/confirmed slots per event */
+  performedEventCounts: Map<string, number>;
+  /** Past performed/confirmed slots per venue */
+  performedVenueCounts: Map<string, number>;
+  /** Occurrences the member already RSVP'd to or claimed ("eventId:dateKey") */
+  goingOccurrenceKeys: Set<string>;
+  /** Followed members going, keyed by "eventId:dateKey" */
+  followedGoingCounts: Map<string, number>;
+  savedFilters: DigestApplicableSavedFilters | null;
+  genres: string[];
+  instruments: string[];
+  city: string | null;
+}
+
+export type RecommendationReasonKind =
+  | "following_going"
+  | "favorite"
+  | "watching"
+  | "performed_event"
+  | "performed_venue"
+  | "attended_event"
+  | "attended_venue"
+  | "saved_filter_day"
+  | "saved_filter_type"
+  | "saved_filter_cost"
+  | "saved_filter_location"
+  | "genre"
+  | "instrument"
+  | "city";
+
+export interface RecommendationReason {
+  kind: RecommendationReasonKind;
+  label: string;
+  weight: number;
+}
+
+export interface Recommendation<C extends RecommendationCandidate = RecommendationCandidate> {
+  candidate: C;
+  score: number;
+  /** Strongest first */
+  reasons: RecommendationReason[];
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const FOR_YOU_WINDOW_DAYS = 30;
+export const FOR_YOU_LIMIT = 24;
+export const DIGEST_FOR_YOU_LIMIT = 5;
+
+const DAY_KEYS: SavedDayFilter[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_NAMES: Record<SavedDayFilter, string> = {
+  sun: "Sunday",
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+};
+
+const TYPE_FILTER_LABELS: Record<string, string> = {
+  open_mic: "Open Mics",
+  shows: "Shows",
+  showcase: "Showcases",
+  workshop: "Workshops",
+  song_circle: "Song Circles",
+  gig: "Gigs",
+  jam_session: "Jam Sessions",
+  poetry: "Poetry",
+  irish: "Irish Sessions",
+  blues: "Blues",
+  bluegrass: "Bluegrass",
+  comedy: "Comedy",
+  other: "Other",
+};
+
+/** Profile genre/instrument keyword → event types it implies */
+const KEYWORD_EVENT_TYPES: Record<string, string[]> = {
+  blues: ["blues"],
+  bluegrass: ["bluegrass"],
+  banjo: ["bluegrass"],
+  mandolin: ["bluegrass"],
+  fiddle: ["bluegrass", "irish"],
+  poet: ["poetry"],
+  "spoken word": ["poetry"],
+  "singer-songwriter": ["song_circle", "open_mic"],
+};
+
+const SHOW_TYPES = ["showcase", "gig", "other"];
+const SOON_DAYS = 7;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+export function occurrenceKey(eventId: string, dateKey: string): string {
+  return `${eventId}:${dateKey}`;
+}
+
+function dayKeyFor(dateKey: string): SavedDayFilter {
+  return DAY_KEYS[new Date(`${dateKey}T12:00:00Z`).getUTCDay()];
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const from = Date.parse(`${fromKey}T12:00:00Z`);
+  const to = Date.parse(`${toKey}T12:00:00Z`);
+  return Math.round((to - from) / 86400000);
+}
+
+function plural(count: number, one: string, many: string): string {
+  return count === 1 ? one : many;
+}
+
+function timesLabel(count: number): string {
+  if (count === 1) return "once";
+  if (count === 2) return "twice";
+  return `${count} times`;
+}
+
+/**
+ * "Vocals / Singing" → ["vocals", "singing"], "R&B / Soul" → ["r&b", "soul"]
+ */
+export function profileKeywords(values: string[]): string[] {
+  const keywords = new Set<string>();
+  for (const value of values) {
+    for (const part of value.split("/")) {
+      const keyword = part.trim().toLowerCase();
+      if (keyword.length >= 3) keywords.add(keyword);
+    }
+  }
+  return [...keywords];
+}
+
+function textMentions(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z])${escaped}([^a-z]|$)`, "i").test(text);
+}
+
+function matchKeyword(event: RecommendableEvent, keyword: string): boolean {
+  const types = event.event_type ?? [];
+  const impliedTypes = KEYWORD_EVENT_TYPES[keyword] ?? [];
+  if (impliedTypes.some((t) => types.includes(t))) return true;
+  if (types.includes(keyword)) return true;
+  return textMentions(`${event.title} ${event.description ?? ""}`, keyword);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function eventCity(event: RecommendableEvent): string | null {
+  return event.venue?.city || event.custom_city || null;
+}
+
+function eventVenueId(event: RecommendableEvent): string | null {
+  return event.venue_id || event.venue?.id || null;
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * Score one occurrence. Returns score 0 and no reasons when nothing about
+ * the member points at it.
+ */
+export function scoreRecommendation(
+  candidate: RecommendationCandidate,
+  signals: RecommendationSignals,
+  options: { todayKey: string }
+): { score: number; reasons: RecommendationReason[] } {
+  const { event, dateKey } = candidate;
+  const reasons: RecommendationReason[] = [];
+  const venueId = eventVenueId(event);
+  const types = event.event_type ?? [];
+
+  const followedGoing = signals.followedGoingCounts.get(occurrenceKey(event.id, dateKey)) ?? 0;
+  if (followedGoing > 0) {
+    reasons.push({
+      kind: "following_going",
+      label: `${followedGoing} ${plural(followedGoing, "person", "people")} you follow ${plural(followedGoing, "is", "are")} going`,
+      weight: 3 * Math.min(followedGoing, 4),
+    });
+  }
+
+  if (signals.favoriteEventIds.has(event.id)) {
+    reasons.push({ kind: "favorite", label: "In your favorites", weight: 5 });
+  }
+  if (signals.watchedEventIds.has(event.id)) {
+    reasons.push({ kind: "watching", label: "You're watching this", weight: 4 });
+  }
+
+  const performedEvent = signals.performedEventCounts.get(event.id) ?? 0;
+  const performedVenue = venueId ? signals.performedVenueCounts.get(venueId) ?? 0 : 0;
+  if (performedEvent > 0) {
+    reasons.push({
+      kind: "performed_event",
+      label: `You've played this ${timesLabel(performedEvent)}`,
+      weight: 3 + 0.5 * Math.min(performedEvent, 6),
+    });
+  } else if (performedVenue > 0) {
+    reasons.push({
+      kind: "performed_venue",
+      label: `You've played here ${timesLabel(performedVenue)}`,
+      weight: 2 + 0.5 * Math.min(performedVenue, 6),
+    });
+  }
+
+  const attendedEvent = signals.attendedEventCounts.get(event.id) ?? 0;
+  const attendedVenue = venueId ? signals.attendedVenueCounts.get(venueId) ?? 0 : 0;
+  if (attendedEvent > 0) {
+    reasons.push({
+      kind: "attended_event",
+      label: `You've been to this ${timesLabel(attendedEvent)}`,
+      weight: 2 + 0.25 * Math.min(attendedEvent, 6),
+    });
+  } else if (attendedVenue > 0 && performedVenue === 0) {
+    reasons.push({
+      kind: "attended_venue",
+      label: event.venue?.name ? `You've been to ${event.venue.name} before` : "You've been here before",
+      weight: 1,
+    });
+  }
+
+  const saved = signals.savedFilters;
+  if (saved) {
+    const dayKey = dayKeyFor(dateKey);
+    if (saved.days?.includes(dayKey)) {
+      reasons.push({
+        kind: "saved_filter_day",
+        label: `Matches your ${DAY_NAMES[dayKey]} filter`,
+        weight: 2,
+      });
+    }
+    if (saved.type) {
+      const matchesType = saved.type === "shows"
+        ? types.some((t) => SHOW_TYPES.includes(t))
+        : types.includes(saved.type);
+      if (matchesType) {
+        reasons.push({
+          kind: "saved_filter_type",
+          label: `Matches your ${TYPE_FILTER_LABELS[saved.type] ?? saved.type} filter`,
+          weight: 1.5,
+        });
+      }
+    }
+    if (saved.cost === "free" && event.is_free === true) {
+      reasons.push({ kind: "saved_filter_cost", label: "Free, like your filter", weight: 0.5 });
+    }
+    const savedCity = normalizeCity(saved.city)?.toLowerCase();
+    const city = normalizeCity(eventCity(event) ?? undefined);
+    if (savedCity && city && city.toLowerCase() === savedCity) {
+      reasons.push({
+        kind: "saved_filter_location",
+        label: `Matches your ${city} filter`,
+        weight: 1,
+      });
+    }
+  }
+
+  const genre = profileKeywords(signals.genres).find((keyword) => matchKeyword(event, keyword));
+  if (genre) {
+    reasons.push({ kind: "genre", label: `Matches your genre: ${capitalize(genre)}`, weight: 1.5 });
+  }
+  const instrument = profileKeywords(signals.instruments).find((keyword) => matchKeyword(event, keyword));
+  if (instrument) {
+    reasons.push({ kind: "instrument", label: `Good fit for ${instrument}`, weight: 1 });
+  }
+
+  const profileCity = normalizeCity(signals.city ?? undefined)?.toLowerCase();
+  const city = normalizeCity(eventCity(event) ?? undefined);
+  if (
+    profileCity &&
+    city &&
+    city.toLowerCase() === profileCity &&
+    !reasons.some((r) => r.kind === "saved_filter_location")
+  ) {
+    reasons.push({ kind: "city", label: `In ${city}`, weight: 0.75 });
+  }
+
+  if (reasons.length === 0) {
+    return { score: 0, reasons };
+  }
+
+  reasons.sort((a, b) => b.weight - a.weight);
+  const base = reasons.reduce((sum, r) => sum + r.weight, 0);
+  const daysOut = daysBetween(options.todayKey, dateKey);
+  const soonBoost = daysOut >= 0 && daysOut < SOON_DAYS ? (SOON_DAYS - daysOut) * 0.05 : 0;
+
+  return { score: Math.round((base + soonBoost) * 100) / 100, reasons };
+}
+
+/**
+ * Rank candidates for a member. Occurrences they already RSVP'd to or
+ * claimed are left out, and each event appears once (its best-scoring
+ * occurrence, earliest on ties) so one weekly series can't fill the list.
+ */
+export function recommendOccurrences<C extends RecommendationCandidate>(
+  candidates: C[],
+  signals: RecommendationSignals,
+  options: { todayKey: string; limit?: number }
+): Recommendation<C>[] {
+  const bestByEvent = new Map<string, Recommendation<C>>();
+
+  for (const candidate of candidates) {
+    if (candidate.dateKey < options.todayKey) continue;
+    if (signals.goingOccurrenceKeys.has(occurrenceKey(candidate.event.id, candidate.dateKey))) continue;
+
+    const { score, reasons } = scoreRecommendation(candidate, signals, options);
+    if (score <= 0) continue;
+
+    const existing = bestByEvent.get(candidate.event.id);
+    if (
+      !existing ||
+      score > existing.score ||
+      (score === existing.score && candidate.dateKey < existing.candidate.dateKey)
+    ) {
+      bestByEvent.set(candidate.event.id, { candidate, score, reasons });
+    }
+  }
+
+  return [...bestByEvent.values()]
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.candidate.dateKey.localeCompare(b.candidate.dateKey) ||
+        a.candidate.event.title.localeCompare(b.candidate.event.title)
+    )
+    .slice(0, options.limit ?? FOR_YOU_LIMIT);
+}
+
+export function emptyRecommendationSignals(): RecommendationSignals {
+  return {
+    favoriteEventIds: new Set(),
+    watchedEventIds: new Set(),
+    attendedEventCounts: new Map(),
+    attendedVenueCounts: new Map(),
+    performedEventCounts: new Map(),
+    performedVenueCounts: new Map(),
+    goingOccurrenceKeys: new Set(),
+    followedGoingCounts: new Map(),
+    savedFilters: null,
+    genres: [],
+    instruments: [],
+    city: null,
+  };
+}
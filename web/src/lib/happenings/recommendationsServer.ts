@@ -0,0 +1,158 @@
+/**
+ * "For You" signal loading (server-only)
+ *
+ * Batch-loads the per-member signals that recommendations.ts scores against.
+ * Every loader takes a list of user ids so the weekly digest can load a whole
+ * recipient list in a handful of queries; the happenings page passes one id.
+ *
+ * A failed query logs and contributes no signal rather than failing the page
+ * or the digest send.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  getSavedHappeningsFiltersForUsers,
+  toDigestApplicableFilters,
+} from "./savedFilters";
+import { getFollowedGoingCounts } from "@/lib/follows/followsServer";
+import {
+  emptyRecommendationSignals,
+  occurrenceKey,
+  type RecommendationSignals,
+} from "./recommendations";
+
+interface RsvpSignalRow {
+  user_id: string | null;
+  event_id: string;
+  date_key: string;
+  status: string;
+  event: { venue_id: string | null } | null;
+}
+
+interface ClaimSignalRow {
+  member_id: string | null;
+  status: string;
+  event_timeslots: {
+    event_id: string;
+    date_key: string | null;
+    event: { venue_id: string | null } | null;
+  } | null;
+}
+
+function increment(map: Map<string, number>, key: string | null | undefined) {
+  if (!key) return;
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+/**
+ * Load recommendation signals for each user. Users with no activity still
+ * get an (empty) entry.
+ */
+export async function loadRecommendationSignals(
+  supabase: SupabaseClient<Database>,
+  userIds: string[],
+  options: { todayKey: string }
+): Promise<Map<string, RecommendationSignals>> {
+  const signalsByUserId = new Map<string, RecommendationSignals>();
+  if (userIds.length === 0) return signalsByUserId;
+
+  for (const userId of userIds) {
+    signalsByUserId.set(userId, emptyRecommendationSignals());
+  }
+
+  const [
+    favoritesRes,
+    watchersRes,
+    rsvpsRes,
+    claimsRes,
+    profilesRes,
+    savedByUserId,
+    followedGoingByUserId,
+  ] = await Promise.all([
+    supabase.from("favorites").select("user_id, event_id").in("user_id", userIds),
+    supabase.from("event_watchers").select("user_id, event_id").in("user_id", userIds),
+    supabase
+      .from("event_rsvps")
+      .select("user_id, event_id, date_key, status, event:events(venue_id)")
+      .in("user_id", userIds)
+      .in("status", ["confirmed", "waitlist", "offered"]),
+    supabase
+      .from("timeslot_claims")
+      .select("member_id, status, event_timeslots!inner(event_id, date_key, event:events(venue_id))")
+      .in("member_id", userIds)
+      .in("status", ["confirmed", "performed"]),
+    supabase.from("profiles").select("id, genres, instruments, city").in("id", userIds),
+    getSavedHappeningsFiltersForUsers(supabase, userIds),
+    getFollowedGoingCounts(supabase, userIds, options),
+  ]);
+
+  if (favoritesRes.error) {
+    console.error("[Recommendations] Failed to load favorites:", favoritesRes.error);
+  }
+  for (const row of favoritesRes.data || []) {
+    signalsByUserId.get(row.user_id)?.favoriteEventIds.add(row.event_id);
+  }
+
+  if (watchersRes.error) {
+    console.error("[Recommendations] Failed to load watched events:", watchersRes.error);
+  }
+  for (const row of watchersRes.data || []) {
+    signalsByUserId.get(row.user_id)?.watchedEventIds.add(row.event_id);
+  }
+
+  if (rsvpsRes.error) {
+    console.error("[Recommendations] Failed to load RSVPs:", rsvpsRes.error);
+  }
+  for (const row of (rsvpsRes.data || []) as unknown as RsvpSignalRow[]) {
+    const signals = row.user_id ? signalsByUserId.get(row.user_id) : undefined;
+    if (!signals) continue;
+
+    if (row.date_key >= options.todayKey) {
+      signals.goingOccurrenceKeys.add(occurrenceKey(row.event_id, row.date_key));
+    } else if (row.status === "confirmed") {
+      increment(signals.attendedEventCounts, row.event_id);
+      increment(signals.attendedVenueCounts, row.event?.venue_id);
+    }
+  }
+
+  if (claimsRes.error) {
+    console.error("[Recommendations] Failed to load timeslot claims:", claimsRes.error);
+  }
+  for (const row of (claimsRes.data || []) as unknown as ClaimSignalRow[]) {
+    const signals = row.member_id ? signalsByUserId.get(row.member_id) : undefined;
+    const slot = row.event_timeslots;
+    if (!signals || !slot) continue;
+
+    const isPast = !!slot.date_key && slot.date_key < options.todayKey;
+    if (row.status === "performed" || isPast) {
+      increment(signals.performedEventCounts, slot.event_id);
+      increment(signals.performedVenueCounts, slot.event?.venue_id);
+    } else if (slot.date_key) {
+      signals.goingOccurrenceKeys.add(occurrenceKey(slot.event_id, slot.date_key));
+    }
+  }
+
+  if (profilesRes.error) {
+    console.error("[Recommendations] Failed to load profiles:", profilesRes.error);
+  }
+  for (const row of profilesRes.data || []) {
+    const signals = signalsByUserId.get(row.id);
+    if (!signals) continue;
+    signals.genres = row.genres ?? [];
+    signals.instruments = row.instruments ?? [];
+    signals.city = row.city ?? null;
+  }
+
+  for (const [userId, saved] of savedByUserId) {
+    const signals = signalsByUserId.get(userId);
+    if (signals) signals.savedFilters = toDigestApplicableFilters(saved.filters);
+  }
+
+  for (const [userId, counts] of followedGoingByUserId) {
+    const signals = signalsByUserId.get(userId);
+    if (signals) signals.followedGoingCounts = counts;
+  }
+
+  return signalsByUserId;
+}
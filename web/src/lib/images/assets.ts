@@ -0,0 +1,76 @@
+/**
+ * Image assets — lookup
+ *
+ * getImageAssets() maps original image URLs to their processed variants
+ * through the get_image_assets() RPC. image_assets itself has no read
+ * policies (so nobody can list every processed image, including covers of
+ * invite-only events); the RPC only answers for keys the caller already
+ * knows. Works with any client and in the edge runtime (OG routes).
+ *
+ * A failed lookup returns no assets: renderers then use the originals.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { IMAGE_PIPELINE_CONFIG } from "./config";
+import {
+  fallbackImageUrl,
+  storageKeyFromUrl,
+  type ImageAsset,
+  type ImageAssetMap,
+  type ImageVariant,
+} from "./variants";
+
+export async function getImageAssets(
+  supabase: SupabaseClient,
+  urls: Array<string | null | undefined>
+): Promise<ImageAssetMap> {
+  const keys = [...new Set(urls.map(storageKeyFromUrl).filter((key): key is string => !!key))];
+  const assets: ImageAssetMap = {};
+
+  try {
+    for (let i = 0; i < keys.length; i += IMAGE_PIPELINE_CONFIG.MAX_LOOKUP_KEYS) {
+      const { data, error } = await supabase.rpc("get_image_assets", {
+        p_source_keys: keys.slice(i, i + IMAGE_PIPELINE_CONFIG.MAX_LOOKUP_KEYS),
+      });
+      if (error) {
+        console.error("[ImageAssets] Lookup failed:", error.message);
+        return assets;
+      }
+
+      for (const row of (data ?? []) as Array<Omit<ImageAsset, "variants"> & { variants: unknown }>) {
+        assets[row.source_key] = {
+          source_key: row.source_key,
+          width: row.width,
+          height: row.height,
+          blurhash: row.blurhash,
+          variants: Array.isArray(row.variants) ? (row.variants as ImageVariant[]) : [],
+        };
+      }
+    }
+  } catch (error) {
+    console.error("[ImageAssets] Lookup failed:", error);
+  }
+  return assets;
+}
+
+export async function getImageAsset(
+  supabase: SupabaseClient,
+  url: string | null | undefined
+): Promise<ImageAsset | null> {
+  const key = storageKeyFromUrl(url);
+  if (!key) return null;
+  const assets = await getImageAssets(supabase, [url]);
+  return assets[key] ?? null;
+}
+
+/**
+ * URL for renderers limited to JPEG/PNG (OG cards, email): the JPEG
+ * fallback variant of a processed image, otherwise the URL unchanged.
+ */
+export async function getFallbackImageUrl(
+  supabase: SupabaseClient,
+  url: string | null | undefined
+): Promise<string | null> {
+  if (!url) return null;
+  return fallbackImageUrl(await getImageAsset(supabase, url), url);
+}
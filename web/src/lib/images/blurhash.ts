@@ -0,0 +1,213 @@
+/**
+ * Blurhash encode/decode
+ *
+ * A blurhash is a ~30 character string describing a blurred version of an
+ * image (https://blurha.sh). The pipeline encodes one per processed image
+ * and renderers decode it into a tiny data URL to show while the real
+ * variant loads. Pure and browser-safe: no Node APIs.
+ */
+
+const BASE83 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+type Color = [number, number, number];
+
+function encode83(value: number, length: number): string {
+  let result = "";
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83[digit];
+  }
+  return result;
+}
+
+function decode83(value: string): number {
+  let result = 0;
+  for (const char of value) {
+    const digit = BASE83.indexOf(char);
+    if (digit === -1) return NaN;
+    result = result * 83 + digit;
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encode RGBA pixels (row-major, 4 bytes per pixel) as a blurhash.
+ * Keep the input small — a 32px thumbnail is plenty.
+ */
+export function encodeBlurhash(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number
+): string {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error("Blurhash components must be between 1 and 9");
+  }
+  if (pixels.length !== width * height * 4) {
+    throw new Error("Blurhash pixels must be RGBA for the given size");
+  }
+
+  const factors: Color[] = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < height; j++) {
+        const basisY = Math.cos((Math.PI * y * j) / height);
+        for (let i = 0; i < width; i++) {
+          const basis = normalisation * Math.cos((Math.PI * x * i) / width) * basisY;
+          const offset = (j * width + i) * 4;
+          r += basis * sRGBToLinear(pixels[offset]);
+          g += basis * sRGBToLinear(pixels[offset + 1]);
+          b += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMax = Math.max(...ac.map((color) => Math.max(...color.map(Math.abs))));
+    const quantisedMax = Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5)));
+    maximumValue = (quantisedMax + 1) / 166;
+    hash += encode83(quantisedMax, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+  for (const color of ac) {
+    const quantise = (value: number) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)));
+    hash += encode83(quantise(color[0]) * 19 * 19 + quantise(color[1]) * 19 + quantise(color[2]), 2);
+  }
+
+  return hash;
+}
+
+/** True when the string has a valid size flag and matching length */
+export function isValidBlurhash(hash: string | null | undefined): hash is string {
+  if (!hash || hash.length < 6) return false;
+  const sizeFlag = decode83(hash[0]);
+  if (Number.isNaN(sizeFlag)) return false;
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  return hash.length === 4 + 2 * componentsX * componentsY && !Number.isNaN(decode83(hash));
+}
+
+/** Decode a blurhash into RGBA pixels of the requested size */
+export function decodeBlurhash(hash: string, width: number, height: number, punch = 1): Uint8ClampedArray {
+  if (!isValidBlurhash(hash)) {
+    throw new Error("Invalid blurhash");
+  }
+
+  const sizeFlag = decode83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  const maximumValue = ((decode83(hash[1]) + 1) / 166) * punch;
+
+  const colors: Color[] = [];
+  const dc = decode83(hash.substring(2, 6));
+  colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)]);
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const value = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+    const quantR = Math.floor(value / (19 * 19));
+    const quantG = Math.floor(value / 19) % 19;
+    const quantB = value % 19;
+    colors.push([
+      signPow((quantR - 9) / 9, 2) * maximumValue,
+      signPow((quantG - 9) / 9, 2) * maximumValue,
+      signPow((quantB - 9) / 9, 2) * maximumValue,
+    ]);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        const basisY = Math.cos((Math.PI * y * j) / height);
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * basisY;
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = (y * width + x) * 4;
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Decode a blurhash into a tiny uncompressed BMP data URL, usable as a
+ * next/image blurDataURL or a CSS background. Returns null for bad hashes.
+ */
+export function blurhashToDataUrl(hash: string | null | undefined, width = 8, height = 6): string | null {
+  if (!isValidBlurhash(hash)) return null;
+  const pixels = decodeBlurhash(hash, width, height);
+
+  // 24-bit BMP: rows stored bottom-up, BGR, padded to 4 bytes
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const imageSize = rowSize * height;
+  const bytes = new Uint8Array(54 + imageSize);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = 0x42;
+  bytes[1] = 0x4d;
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 24, true);
+  view.setUint32(34, imageSize, true);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = 54 + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = rowStart + x * 3;
+      bytes[target] = pixels[source + 2];
+      bytes[target + 1] = pixels[source + 1];
+      bytes[target + 2] = pixels[source];
+    }
+  }
+
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return `data:image/bmp;base64,${btoa(binary)}`;
+}
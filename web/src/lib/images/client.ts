@@ -0,0 +1,49 @@
+/**
+ * Client-safe helpers for the image pipeline
+ * Call these from "use client" uploaders right after a storage upload or
+ * removal. Failures never block the upload: the original stays usable and
+ * renderers fall back to it.
+ */
+
+import type { ProcessableImageBucket } from "./config";
+import type { ImageAsset } from "./variants";
+
+async function callVariantsApi(method: "POST" | "DELETE", bucket: ProcessableImageBucket, path: string) {
+  return fetch("/api/images/variants", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bucket, path }),
+  });
+}
+
+/**
+ * Strip metadata from a just-uploaded image and generate its variants.
+ * Resolves to the asset, or null if processing failed.
+ */
+export async function processUploadedImage(
+  bucket: ProcessableImageBucket,
+  path: string
+): Promise<ImageAsset | null> {
+  try {
+    const response = await callVariantsApi("POST", bucket, path);
+    if (!response.ok) {
+      console.warn("[ImagePipeline] Processing skipped:", response.status);
+      return null;
+    }
+    const data = (await response.json()) as { asset?: ImageAsset };
+    return data.asset ?? null;
+  } catch (error) {
+    console.warn("[ImagePipeline] Processing skipped:", error);
+    return null;
+  }
+}
+
+/** Remove the variants of an image whose original was just deleted */
+export async function removeUploadedImageVariants(bucket: ProcessableImageBucket, path: string): Promise<void> {
+  try {
+    const response = await callVariantsApi("DELETE", bucket, path);
+    if (!response.ok) console.warn("[ImagePipeline] Variant removal failed:", response.status);
+  } catch (error) {
+    console.warn("[ImagePipeline] Variant removal failed:", error);
+  }
+}
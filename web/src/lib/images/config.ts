@@ -0,0 +1,54 @@
+/**
+ * Image Pipeline Configuration
+ *
+ * Constants for the upload post-processor (./process.ts, ./server.ts) and
+ * the renderers that pick a variant (./variants.ts). Changing WIDTHS or
+ * FORMATS only affects images processed afterwards; existing assets keep
+ * the variant list recorded on their image_assets row.
+ */
+
+export const IMAGE_VARIANT_FORMATS = ["avif", "webp", "jpeg"] as const;
+
+export type ImageVariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number];
+
+/** Buckets the uploaders write to; anything else is never processed */
+export const PROCESSABLE_IMAGE_BUCKETS = ["avatars", "event-images", "gallery-images", "blog-images"] as const;
+
+export type ProcessableImageBucket = (typeof PROCESSABLE_IMAGE_BUCKETS)[number];
+
+export function isProcessableImageBucket(value: unknown): value is ProcessableImageBucket {
+  return typeof value === "string" && (PROCESSABLE_IMAGE_BUCKETS as readonly string[]).includes(value);
+}
+
+export const IMAGE_PIPELINE_CONFIG = {
+  // Responsive widths generated in every modern format (never upscaled)
+  WIDTHS: [320, 640, 1024, 1600],
+
+  // Formats generated at every width, best first
+  RESPONSIVE_FORMATS: ["avif", "webp"] as ImageVariantFormat[],
+
+  // One JPEG for renderers that can't decode AVIF/WebP (email clients, OG cards)
+  FALLBACK_WIDTH: 1200,
+
+  QUALITY: { avif: 50, webp: 75, jpeg: 80 },
+
+  // Quality used when the original itself is re-encoded to drop metadata
+  ORIGINAL_QUALITY: 90,
+
+  // AVIF encode effort (0-9); higher is smaller but much slower
+  AVIF_EFFORT: 3,
+
+  // Larger than any uploader allows (BulkUploadGrid caps at 10MB)
+  MAX_INPUT_BYTES: 12 * 1024 * 1024,
+
+  // Refuse decompression bombs before decoding
+  MAX_INPUT_PIXELS: 60_000_000,
+
+  // Blurhash components and the thumbnail it is computed from
+  BLURHASH_COMPONENTS_X: 4,
+  BLURHASH_COMPONENTS_Y: 3,
+  BLURHASH_SAMPLE_SIZE: 32,
+
+  // Source keys per get_image_assets() call (the RPC refuses more)
+  MAX_LOOKUP_KEYS: 200,
+} as const;
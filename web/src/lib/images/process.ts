@@ -0,0 +1,156 @@
+/**
+ * Image pipeline — processing
+ *
+ * processImageBuffer() takes the bytes of an uploaded image and returns:
+ * - the original re-encoded without EXIF/XMP/IPTC (GPS location, camera
+ *   serials) and with its orientation applied, or null when there was no
+ *   metadata to strip and nothing to rotate
+ * - AVIF and WebP variants at the configured widths (never upscaled) and a
+ *   JPEG fallback, all auto-oriented and metadata-free
+ * - the oriented size and a blurhash placeholder
+ *
+ * No storage or database I/O here; see ./server.ts. Node only (sharp).
+ */
+
+import sharp from "sharp";
+import { encodeBlurhash } from "./blurhash";
+import { IMAGE_PIPELINE_CONFIG, type ImageVariantFormat } from "./config";
+
+export type ImageProcessingFailure = "too_large" | "unsupported_format" | "decode_failed";
+
+export interface ProcessedImageVariant {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  contentType: string;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  blurhash: string;
+  /** Cleaned original to write back over the upload; null if already clean */
+  original: { buffer: Buffer; contentType: string } | null;
+  variants: ProcessedImageVariant[];
+}
+
+export type ProcessImageResult =
+  | { ok: true; image: ProcessedImage }
+  | { ok: false; reason: ImageProcessingFailure };
+
+const INPUT_FORMATS = new Set(["jpeg", "png", "webp", "gif"]);
+
+// Formats that can carry EXIF/XMP and are rewritten in their own format
+const REWRITABLE_FORMATS = new Set(["jpeg", "png", "webp"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+  png: "image/png",
+};
+
+/** Widths to generate for an image this wide (oriented) */
+export function variantWidthsFor(width: number): number[] {
+  const configured = IMAGE_PIPELINE_CONFIG.WIDTHS;
+  const widths: number[] = configured.filter((candidate) => candidate < width);
+  if (width <= configured[configured.length - 1]) widths.push(width);
+  return widths;
+}
+
+function encode(pipeline: sharp.Sharp, format: ImageVariantFormat | "png", quality: number): sharp.Sharp {
+  switch (format) {
+    case "avif":
+      return pipeline.avif({ quality, effort: IMAGE_PIPELINE_CONFIG.AVIF_EFFORT });
+    case "webp":
+      return pipeline.webp({ quality });
+    case "png":
+      return pipeline.png();
+    default:
+      return pipeline.jpeg({ quality, mozjpeg: true });
+  }
+}
+
+async function renderVariant(
+  base: sharp.Sharp,
+  format: ImageVariantFormat,
+  width: number
+): Promise<ProcessedImageVariant> {
+  const resized = base.clone().resize({ width, withoutEnlargement: true });
+  const { data, info } = await encode(resized, format, IMAGE_PIPELINE_CONFIG.QUALITY[format]).toBuffer({
+    resolveWithObject: true,
+  });
+  return { format, width: info.width, height: info.height, contentType: CONTENT_TYPES[format], buffer: data };
+}
+
+export async function processImageBuffer(input: Buffer): Promise<ProcessImageResult> {
+  if (input.byteLength > IMAGE_PIPELINE_CONFIG.MAX_INPUT_BYTES) {
+    return { ok: false, reason: "too_large" };
+  }
+
+  const options: sharp.SharpOptions = {
+    failOn: "error",
+    limitInputPixels: IMAGE_PIPELINE_CONFIG.MAX_INPUT_PIXELS,
+    animated: false,
+  };
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, options).metadata();
+  } catch {
+    return { ok: false, reason: "decode_failed" };
+  }
+  if (!metadata.format || !INPUT_FORMATS.has(metadata.format) || !metadata.width || !metadata.height) {
+    return { ok: false, reason: "unsupported_format" };
+  }
+
+  // EXIF orientations 5-8 are rotated a quarter turn
+  const orientation = metadata.orientation ?? 1;
+  const swapsAxes = orientation >= 5;
+  const width = swapsAxes ? metadata.height : metadata.width;
+  const height = swapsAxes ? metadata.width : metadata.height;
+
+  try {
+    // rotate() with no angle applies the EXIF orientation; sharp drops all
+    // metadata from its output unless asked to keep it
+    const base = sharp(input, options).rotate();
+
+    let original: ProcessedImage["original"] = null;
+    const hasMetadata = !!(metadata.exif || metadata.xmp || metadata.iptc) || orientation !== 1;
+    const isAnimated = (metadata.pages ?? 1) > 1;
+    if (hasMetadata && !isAnimated && REWRITABLE_FORMATS.has(metadata.format)) {
+      const format = metadata.format as "jpeg" | "png" | "webp";
+      const buffer = await encode(base.clone(), format, IMAGE_PIPELINE_CONFIG.ORIGINAL_QUALITY).toBuffer();
+      original = { buffer, contentType: CONTENT_TYPES[format] };
+    }
+
+    const variants: ProcessedImageVariant[] = [];
+    // Sequential on purpose: each encode holds a decoded copy in memory
+    for (const variantWidth of variantWidthsFor(width)) {
+      for (const format of IMAGE_PIPELINE_CONFIG.RESPONSIVE_FORMATS) {
+        variants.push(await renderVariant(base, format, variantWidth));
+      }
+    }
+    variants.push(await renderVariant(base, "jpeg", Math.min(IMAGE_PIPELINE_CONFIG.FALLBACK_WIDTH, width)));
+
+    const sampleSize = IMAGE_PIPELINE_CONFIG.BLURHASH_SAMPLE_SIZE;
+    const { data: pixels, info } = await base
+      .clone()
+      .resize(sampleSize, sampleSize, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const blurhash = encodeBlurhash(
+      new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.byteLength),
+      info.width,
+      info.height,
+      IMAGE_PIPELINE_CONFIG.BLURHASH_COMPONENTS_X,
+      IMAGE_PIPELINE_CONFIG.BLURHASH_COMPONENTS_Y
+    );
+
+    return { ok: true, image: { width, height, blurhash, original, variants } };
+  } catch {
+    return { ok: false, reason: "decode_failed" };
+  }
+}
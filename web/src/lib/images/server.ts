@@ -0,0 +1,248 @@
+/**
+ * Image pipeline — storage and records
+ *
+ * processStoredImage() runs right after an upload (POST /api/images/variants):
+ * it downloads the original, writes the metadata-free version back over it
+ * (same path, so every stored URL now serves the clean file), uploads the
+ * variants next to it under "<path>.variants/", and records the result in
+ * image_assets. removeImageVariants() undoes the variants when an upload is
+ * deleted. Both take the service-role client: variants are written outside
+ * the uploader's own storage policies.
+ *
+ * canProcessImage() mirrors the storage folder conventions of the uploaders
+ * so a user can only process images they could have uploaded.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { checkAdminRole } from "@/lib/auth/adminAuth";
+import { canManageEvent } from "@/lib/events/eventManageAuth";
+import { canEditVenue } from "@/lib/venue/managerAuth";
+import type { ImageVariantFormat, ProcessableImageBucket } from "./config";
+import { processImageBuffer, type ImageProcessingFailure } from "./process";
+import { imageStorageKey, type ImageAsset, type ImageVariant } from "./variants";
+
+type ServiceClient = SupabaseClient<Database>;
+
+export type ImageAssetRow = Database["public"]["Tables"]["image_assets"]["Row"];
+
+export type ProcessStoredImageResult =
+  | { ok: true; asset: ImageAsset }
+  | { ok: false; reason: ImageProcessingFailure | "not_found" | "storage_failed" };
+
+const VARIANT_CACHE_CONTROL = "31536000";
+
+const FILE_EXTENSIONS: Record<ImageVariantFormat, string> = { avif: "avif", webp: "webp", jpeg: "jpg" };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** "<id>/photo.jpg" → "<id>/photo.jpg.variants/w640.webp" */
+export function variantStoragePath(path: string, width: number, format: ImageVariantFormat): string {
+  return `${path}.variants/w${width}.${FILE_EXTENSIONS[format]}`;
+}
+
+/** Rejects traversal, empty segments and paths that are themselves variants */
+export function isValidUploadPath(path: unknown): path is string {
+  if (typeof path !== "string" || path.length === 0 || path.length > 512) return false;
+  const segments = path.split("/");
+  return (
+    segments.length >= 2 &&
+    segments.every((segment) => segment.length > 0 && segment !== "." && segment !== "..") &&
+    !segments.some((segment) => segment.endsWith(".variants"))
+  );
+}
+
+/**
+ * Storage layout written by the uploaders:
+ * - avatars/<userId>/…, gallery-images/<userId>/…   (profile, gallery)
+ * - blog-images/<userId>/…                          (blog covers and galleries)
+ * - event-images/<eventId>/…                        (event photos, covers)
+ * - avatars/venues/<venueId>/…, gallery-images/venue-covers/<venueId>/…
+ * - avatars/organizations/<organizationId>/…        (organization photos)
+ * Admins may process anything in a processable bucket.
+ */
+export async function canProcessImage(
+  supabase: SupabaseClient,
+  userId: string,
+  bucket: ProcessableImageBucket,
+  path: string
+): Promise<boolean> {
+  const [first, second] = path.split("/");
+
+  if ((bucket === "avatars" || bucket === "gallery-images" || bucket === "blog-images") && first === userId) {
+    return true;
+  }
+
+  if (bucket === "event-images" && UUID_PATTERN.test(first)) {
+    return canManageEvent(supabase, userId, first);
+  }
+
+  const isVenueFolder =
+    (bucket === "avatars" && first === "venues") || (bucket === "gallery-images" && first === "venue-covers");
+  if (isVenueFolder && UUID_PATTERN.test(second ?? "")) {
+    if (await canEditVenue(supabase as SupabaseClient<Database>, second, userId)) return true;
+  }
+
+  // Same rule as the storage upload policy: an active organization manager
+  if (bucket === "avatars" && first === "organizations" && UUID_PATTERN.test(second ?? "")) {
+    const { data: grant } = await supabase
+      .from("organization_managers")
+      .select("id")
+      .eq("organization_id", second)
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .maybeSingle();
+    if (grant) return true;
+  }
+
+  return checkAdminRole(supabase, userId);
+}
+
+export function assetFromRow(row: Pick<ImageAssetRow, "source_key" | "width" | "height" | "blurhash" | "variants">): ImageAsset {
+  return {
+    source_key: row.source_key,
+    width: row.width ?? 0,
+    height: row.height ?? 0,
+    blurhash: row.blurhash,
+    variants: Array.isArray(row.variants) ? (row.variants as unknown as ImageVariant[]) : [],
+  };
+}
+
+async function recordFailure(
+  client: ServiceClient,
+  input: { bucket: string; path: string; userId: string | null },
+  reason: string
+): Promise<void> {
+  const { error } = await client.from("image_assets").upsert(
+    {
+      source_key: imageStorageKey(input.bucket, input.path),
+      bucket: input.bucket,
+      storage_path: input.path,
+      status: "failed",
+      error: reason,
+      processed_by: input.userId,
+      processed_at: new Date().toISOString(),
+    },
+    { onConflict: "source_key" }
+  );
+  if (error) console.error("[ImagePipeline] Failed to record failure:", error.message);
+}
+
+export async function processStoredImage(
+  client: ServiceClient,
+  input: { bucket: ProcessableImageBucket; path: string; userId: string | null }
+): Promise<ProcessStoredImageResult> {
+  const sourceKey = imageStorageKey(input.bucket, input.path);
+
+  // Uploaders may retry; a processed image is never re-encoded twice
+  const { data: existing } = await client
+    .from("image_assets")
+    .select("source_key, width, height, blurhash, variants, status")
+    .eq("source_key", sourceKey)
+    .maybeSingle();
+  if (existing?.status === "processed") {
+    return { ok: true, asset: assetFromRow(existing) };
+  }
+
+  const storage = client.storage.from(input.bucket);
+  const { data: blob, error: downloadError } = await storage.download(input.path);
+  if (downloadError || !blob) {
+    return { ok: false, reason: "not_found" };
+  }
+
+  const result = await processImageBuffer(Buffer.from(await blob.arrayBuffer()));
+  if (!result.ok) {
+    await recordFailure(client, input, result.reason);
+    return { ok: false, reason: result.reason };
+  }
+  const { image } = result;
+
+  if (image.original) {
+    const { error } = await storage.upload(input.path, image.original.buffer, {
+      upsert: true,
+      contentType: image.original.contentType,
+    });
+    if (error) {
+      // Never record variants for an original that still carries metadata
+      console.error("[ImagePipeline] Failed to rewrite original:", error.message);
+      await recordFailure(client, input, "storage_failed");
+      return { ok: false, reason: "storage_failed" };
+    }
+  }
+
+  const variants: ImageVariant[] = [];
+  for (const variant of image.variants) {
+    const variantPath = variantStoragePath(input.path, variant.width, variant.format);
+    const { error } = await storage.upload(variantPath, variant.buffer, {
+      upsert: true,
+      contentType: variant.contentType,
+      cacheControl: VARIANT_CACHE_CONTROL,
+    });
+    if (error) {
+      console.error("[ImagePipeline] Failed to upload variant:", error.message);
+      await recordFailure(client, input, "storage_failed");
+      return { ok: false, reason: "storage_failed" };
+    }
+    variants.push({
+      format: variant.format,
+      width: variant.width,
+      height: variant.height,
+      url: storage.getPublicUrl(variantPath).data.publicUrl,
+    });
+  }
+
+  const { data: row, error: upsertError } = await client
+    .from("image_assets")
+    .upsert(
+      {
+        source_key: sourceKey,
+        bucket: input.bucket,
+        storage_path: input.path,
+        status: "processed",
+        width: image.width,
+        height: image.height,
+        blurhash: image.blurhash,
+        variants: variants as unknown as Database["public"]["Tables"]["image_assets"]["Insert"]["variants"],
+        metadata_stripped: !!image.original,
+        error: null,
+        processed_by: input.userId,
+        processed_at: new Date().toISOString(),
+      },
+      { onConflict: "source_key" }
+    )
+    .select("source_key, width, height, blurhash, variants")
+    .single();
+  if (upsertError || !row) {
+    console.error("[ImagePipeline] Failed to record asset:", upsertError?.message);
+    return { ok: false, reason: "storage_failed" };
+  }
+
+  return { ok: true, asset: assetFromRow(row) };
+}
+
+/** Delete the variants and the asset row of a removed upload */
+export async function removeImageVariants(
+  client: ServiceClient,
+  input: { bucket: ProcessableImageBucket; path: string }
+): Promise<{ removed: number }> {
+  const sourceKey = imageStorageKey(input.bucket, input.path);
+  const { data: row } = await client
+    .from("image_assets")
+    .select("source_key, width, height, blurhash, variants")
+    .eq("source_key", sourceKey)
+    .maybeSingle();
+  if (!row) return { removed: 0 };
+
+  const paths = assetFromRow(row).variants.map((variant) =>
+    variantStoragePath(input.path, variant.width, variant.format)
+  );
+  if (paths.length > 0) {
+    const { error } = await client.storage.from(input.bucket).remove(paths);
+    if (error) throw error;
+  }
+
+  const { error: deleteError } = await client.from("image_assets").delete().eq("source_key", sourceKey);
+  if (deleteError) throw deleteError;
+
+  return { removed: paths.length };
+}
@@ -0,0 +1,100 @@
+/**
+ * Image variants — selection
+ *
+ * Processed uploads (see ./server.ts) have an image_assets row listing
+ * their variants: AVIF and WebP at fixed widths plus one JPEG fallback.
+ * Renderers look assets up by the original public URL (./assets.ts) and
+ * use these helpers to choose what to serve:
+ * - gallery and cards: <picture> with AVIF/WebP srcsets (VariantImage)
+ * - emails and OG cards: the JPEG fallback
+ * Every helper falls back to the original URL when the image was never
+ * processed. Pure and browser-safe.
+ */
+
+import type { ImageVariantFormat } from "./config";
+
+export interface ImageVariant {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  url: string;
+}
+
+export interface ImageAsset {
+  /** "<bucket>/<storage path>" of the original */
+  source_key: string;
+  width: number;
+  height: number;
+  blurhash: string | null;
+  variants: ImageVariant[];
+}
+
+/** Assets keyed by source_key, as returned by getImageAssets() */
+export type ImageAssetMap = Record<string, ImageAsset>;
+
+const PUBLIC_OBJECT_PREFIX = "/storage/v1/object/public/";
+
+export function imageStorageKey(bucket: string, path: string): string {
+  return `${bucket}/${path}`;
+}
+
+/**
+ * "https://x.supabase.co/storage/v1/object/public/avatars/u/1.jpg?t=1"
+ * → "avatars/u/1.jpg". Null for anything that isn't a public storage URL.
+ */
+export function storageKeyFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!parsed.pathname.startsWith(PUBLIC_OBJECT_PREFIX)) return null;
+  const key = parsed.pathname.slice(PUBLIC_OBJECT_PREFIX.length);
+  try {
+    return key.includes("/") ? decodeURIComponent(key) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function findImageAsset(assets: ImageAssetMap | null | undefined, url: string | null | undefined): ImageAsset | null {
+  const key = storageKeyFromUrl(url);
+  return (key && assets?.[key]) || null;
+}
+
+/** Smallest variant of the format at least `width` wide, else the largest */
+export function pickImageVariant(
+  asset: ImageAsset | null | undefined,
+  options: { width: number; format: ImageVariantFormat }
+): ImageVariant | null {
+  const candidates = (asset?.variants ?? [])
+    .filter((variant) => variant.format === options.format)
+    .sort((a, b) => a.width - b.width);
+  if (candidates.length === 0) return null;
+  return candidates.find((variant) => variant.width >= options.width) ?? candidates[candidates.length - 1];
+}
+
+/** "url 320w, url 640w" for one format; empty when there are none */
+export function imageSrcSet(asset: ImageAsset | null | undefined, format: ImageVariantFormat): string {
+  return (asset?.variants ?? [])
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(", ");
+}
+
+/** next/image-compatible loader that maps each requested width to a variant */
+export function imageVariantLoader(asset: ImageAsset, format: ImageVariantFormat) {
+  return ({ src, width }: { src: string; width: number }): string =>
+    pickImageVariant(asset, { width, format })?.url ?? src;
+}
+
+/**
+ * URL for renderers limited to JPEG/PNG (email clients, the OG renderer):
+ * the JPEG fallback variant when there is one, otherwise the original.
+ */
+export function fallbackImageUrl(asset: ImageAsset | null | undefined, originalUrl: string): string {
+  return pickImageVariant(asset, { width: 0, format: "jpeg" })?.url ?? originalUrl;
+}
@@ -18,6 +18,11 @@ export interface NotificationPreferences {
   email_attendee_activity: boolean;
   email_digests: boolean;
   email_invitations: boolean;
+  /** Digest shape — see lib/digest/digestCadence.ts */
+  digest_cadence: string;
+  digest_day: number;
+  digest_sections: string[];
+  digest_max_distance_miles: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +39,10 @@ export const DEFAULT_PREFERENCES: Omit<NotificationPreferences, "user_id" | "cre
   email_attendee_activity: true,
   email_digests: true,
   email_invitations: true,
+  digest_cadence: "weekly",
+  digest_day: 0,
+  digest_sections: ["open_mics", "showcases", "blog", "gallery", "new_members"],
+  digest_max_distance_miles: null,
 };
 
 /**
@@ -80,6 +89,12 @@ export async function upsertPreferences(
     p_email_attendee_activity: patch.email_attendee_activity,
     p_email_digests: patch.email_digests,
     p_email_invitations: patch.email_invitations,
+    p_digest_cadence: patch.digest_cadence,
+    p_digest_day: patch.digest_day,
+    p_digest_sections: patch.digest_sections,
+    // null clears the limit; the RPC treats 0 as "any distance" and NULL as "unchanged"
+    p_digest_max_distance_miles:
+      patch.digest_max_distance_miles === null ? 0 : patch.digest_max_distance_miles,
   });
 
   if (error) {
@@ -102,6 +117,31 @@ export type EmailCategory =
   | "digests"
   | "invitations";
 
+export const EMAIL_CATEGORIES: readonly EmailCategory[] = [
+  "claim_updates",
+  "event_updates",
+  "admin_notifications",
+  "host_activity",
+  "attendee_activity",
+  "digests",
+  "invitations",
+];
+
+/** Human-readable category names (unsubscribe confirmation) */
+export const EMAIL_CATEGORY_LABELS: Record<EmailCategory, string> = {
+  claim_updates: "claim updates",
+  event_updates: "event updates",
+  admin_notifications: "admin notifications",
+  host_activity: "host activity",
+  attendee_activity: "attendee activity",
+  digests: "happenings digest",
+  invitations: "invitation",
+};
+
+export function isEmailCategory(value: unknown): value is EmailCategory {
+  return typeof value === "string" && (EMAIL_CATEGORIES as readonly string[]).includes(value);
+}
+
 export async function shouldSendEmail(
   supabase: SupabaseClient<Database>,
   userId: string,
@@ -171,6 +211,8 @@ export const EMAIL_CATEGORY_MAP: Record<string, EmailCategory> = {
   occurrenceCancelledHost: "host_activity",
   occurrenceModifiedHost: "host_activity",
   suggestionResponse: "host_activity",
+  hostEventBriefing: "host_activity",
+  reverificationRequest: "host_activity",
 
   // Attendee activity — reminders and changes for events the user is attending
   rsvpConfirmation: "attendee_activity",
@@ -194,6 +236,7 @@ export const EMAIL_CATEGORY_MAP: Record<string, EmailCategory> = {
 
   // Admin-related templates
   adminEventClaimNotification: "admin_notifications",
+  adminEventAuditAlert: "admin_notifications",
   adminEventLifecycleAlert: "admin_notifications",
   adminSuggestionNotification: "admin_notifications",
   contactNotification: "admin_notifications",
@@ -0,0 +1,329 @@
+/**
+ * Data Health Checks
+ *
+ * Check definitions for the scheduled data health run (successor to
+ * scripts/data-health.ts). Each check flags individual rows so the admin
+ * page can link straight to the fix; counts per check are persisted per run
+ * for the trend view.
+ *
+ * Pure module except checkBrokenLinks(), which calls the injected fetcher.
+ */
+
+import { addDaysDenver, expandOccurrencesForEvent } from "@/lib/events/nextOccurrence";
+import { interpretRecurrence } from "@/lib/events/recurrenceContract";
+import { computeMissingDetails } from "@/lib/events/missingDetails";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type DataHealthCheckKey =
+  | "venue_missing_geocode"
+  | "orphan_venue_name"
+  | "stale_verification"
+  | "recurring_no_future"
+  | "broken_link"
+  | "missing_details"
+  | "override_invalid_date";
+
+export type DataHealthEntityType = "event" | "venue" | "override";
+
+export interface DataHealthIssue {
+  checkKey: DataHealthCheckKey;
+  entityType: DataHealthEntityType;
+  entityId: string;
+  /** Parent event for override issues */
+  eventId: string | null;
+  label: string;
+  detail: string | null;
+}
+
+export interface HealthVenueRow {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface HealthEventRow {
+  id: string;
+  title: string;
+  venue_id: string | null;
+  venue_name: string | null;
+  custom_location_name: string | null;
+  location_mode: string | null;
+  online_url: string | null;
+  age_policy: string | null;
+  is_dsc_event: boolean | null;
+  event_type: string[] | null;
+  last_verified_at: string | null;
+  event_date: string | null;
+  day_of_week: string | null;
+  recurrence_rule: string | null;
+  recurrence_end_date: string | null;
+  start_time: string | null;
+  max_occurrences: number | null;
+  custom_dates: string[] | null;
+  external_url: string | null;
+  signup_url: string | null;
+}
+
+export interface HealthOverrideRow {
+  id: string;
+  event_id: string;
+  date_key: string;
+}
+
+export interface LinkCheckResult {
+  /** HTTP status, or null when the request itself failed */
+  status: number | null;
+  error?: string;
+}
+
+/**
+ * Pluggable link fetcher. The server default does a HEAD/GET with a
+ * timeout; tests and local runs inject a stub.
+ */
+export type LinkFetcher = (url: string) => Promise<LinkCheckResult>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Check catalog
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Events unverified for longer than this are flagged as stale */
+export const STALE_VERIFICATION_DAYS = 90;
+
+/** How far ahead "has an upcoming occurrence" looks */
+export const UPCOMING_WINDOW_DAYS = 90;
+
+/** Cap on distinct URLs fetched per run */
+export const MAX_LINKS_PER_RUN = 150;
+
+/** Parallel link requests */
+export const LINK_CHECK_CONCURRENCY = 5;
+
+export const DATA_HEALTH_CHECKS: Record<DataHealthCheckKey, { label: string; description: string }> = {
+  venue_missing_geocode: {
+    label: "Venues missing geocodes",
+    description: "No latitude/longitude, so the venue is invisible to distance search and maps.",
+  },
+  orphan_venue_name: {
+    label: "Orphan venue names",
+    description: "Happening has a venue_name but no linked venue or custom location.",
+  },
+  stale_verification: {
+    label: "Stale verification",
+    description: `Upcoming happening not verified in the last ${STALE_VERIFICATION_DAYS} days.`,
+  },
+  recurring_no_future: {
+    label: "Recurring with no future dates",
+    description: `Recurring happening with no occurrence in the next ${UPCOMING_WINDOW_DAYS} days.`,
+  },
+  broken_link: {
+    label: "Broken links",
+    description: "External or signup URL returned not-found, a server error, or did not respond.",
+  },
+  missing_details: {
+    label: "Missing details",
+    description: "Happening shows the \"missing details\" chip to the public.",
+  },
+  override_invalid_date: {
+    label: "Overrides on non-existent dates",
+    description: "Upcoming occurrence override whose date is not part of the series schedule.",
+  },
+};
+
+export const DATA_HEALTH_CHECK_KEYS = Object.keys(DATA_HEALTH_CHECKS) as DataHealthCheckKey[];
+
+/**
+ * Where an admin fixes the flagged row.
+ */
+export function dataHealthFixHref(issue: Pick<DataHealthIssue, "entityType" | "entityId" | "eventId">): string {
+  if (issue.entityType === "venue") return `/dashboard/admin/venues/${issue.entityId}`;
+  if (issue.entityType === "override") return `/dashboard/admin/events/${issue.eventId}/overrides`;
+  return `/dashboard/admin/events/${issue.entityId}/edit`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Row checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+function eventIssue(
+  checkKey: DataHealthCheckKey,
+  event: HealthEventRow,
+  detail: string | null
+): DataHealthIssue {
+  return { checkKey, entityType: "event", entityId: event.id, eventId: event.id, label: event.title, detail };
+}
+
+/**
+ * Run every check that works on loaded rows alone. `events` should be the
+ * published, non-cancelled happenings; `overrides` those events' overrides.
+ */
+export function runDataHealthChecks(input: {
+  venues: HealthVenueRow[];
+  events: HealthEventRow[];
+  overrides: HealthOverrideRow[];
+  today: string;
+  now?: Date;
+}): DataHealthIssue[] {
+  const { venues, events, overrides, today } = input;
+  const now = input.now ?? new Date();
+  const windowEnd = addDaysDenver(today, UPCOMING_WINDOW_DAYS);
+  const staleBefore = now.getTime() - STALE_VERIFICATION_DAYS * 24 * 60 * 60 * 1000;
+  const issues: DataHealthIssue[] = [];
+
+  for (const venue of venues) {
+    if (venue.latitude === null || venue.longitude === null) {
+      issues.push({
+        checkKey: "venue_missing_geocode",
+        entityType: "venue",
+        entityId: venue.id,
+        eventId: null,
+        label: venue.name,
+        detail: null,
+      });
+    }
+  }
+
+  const eventsById = new Map(events.map((event) => [event.id, event]));
+
+  for (const event of events) {
+    const hasVenueNameOnly = !!event.venue_name && !event.venue_id && !event.custom_location_name;
+    if (hasVenueNameOnly) {
+      issues.push(eventIssue("orphan_venue_name", event, event.venue_name));
+    }
+
+    // The orphan case has its own check; don't count it twice.
+    const missing = computeMissingDetails(event).reasons.filter(
+      (reason) => reason !== "Venue not linked to database"
+    );
+    if (missing.length > 0) {
+      issues.push(eventIssue("missing_details", event, missing.join("; ")));
+    }
+
+    const upcoming = expandOccurrencesForEvent(event, { startKey: today, endKey: windowEnd, maxOccurrences: 1 });
+    const isRecurring = interpretRecurrence(event).isRecurring;
+
+    if (isRecurring && upcoming.length === 0) {
+      issues.push(eventIssue("recurring_no_future", event, event.recurrence_rule ?? event.day_of_week));
+    }
+
+    if (upcoming.length > 0) {
+      const verifiedAt = event.last_verified_at ? new Date(event.last_verified_at).getTime() : null;
+      if (verifiedAt === null || verifiedAt < staleBefore) {
+        issues.push(
+          eventIssue(
+            "stale_verification",
+            event,
+            event.last_verified_at ? `Last verified ${event.last_verified_at.slice(0, 10)}` : "Never verified"
+          )
+        );
+      }
+    }
+  }
+
+  for (const override of overrides) {
+    if (override.date_key < today) continue;
+    const event = eventsById.get(override.event_id);
+    if (!event) continue;
+    const onSchedule = expandOccurrencesForEvent(event, {
+      startKey: override.date_key,
+      endKey: override.date_key,
+      maxOccurrences: 1,
+    });
+    if (onSchedule.length === 0) {
+      issues.push({
+        checkKey: "override_invalid_date",
+        entityType: "override",
+        entityId: override.id,
+        eventId: event.id,
+        label: event.title,
+        detail: `Override for ${override.date_key}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Link checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Only not-found, gone, server errors and failed requests count as broken.
+ * 401/403/429 are usually bot blocking, not a dead page.
+ */
+export function isBrokenLinkResult(result: LinkCheckResult): boolean {
+  if (result.status === null) return true;
+  return result.status === 404 || result.status === 410 || result.status >= 500;
+}
+
+/**
+ * Check external_url and signup_url on each event with the given fetcher.
+ * Each distinct URL is fetched once; at most `limit` URLs per run.
+ */
+export async function checkBrokenLinks(
+  events: HealthEventRow[],
+  fetcher: LinkFetcher,
+  options: { limit?: number; concurrency?: number } = {}
+): Promise<DataHealthIssue[]> {
+  const limit = options.limit ?? MAX_LINKS_PER_RUN;
+  const concurrency = options.concurrency ?? LINK_CHECK_CONCURRENCY;
+
+  const usages = new Map<string, Array<{ event: HealthEventRow; field: "external_url" | "signup_url" }>>();
+  for (const event of events) {
+    for (const field of ["external_url", "signup_url"] as const) {
+      const url = event[field]?.trim();
+      if (!url || !/^https?:\/\//i.test(url)) continue;
+      if (!usages.has(url) && usages.size >= limit) continue;
+      const list = usages.get(url) ?? [];
+      list.push({ event, field });
+      usages.set(url, list);
+    }
+  }
+
+  const urls = [...usages.keys()];
+  const results = new Map<string, LinkCheckResult>();
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        results.set(url, await fetcher(url));
+      } catch (error) {
+        results.set(url, { status: null, error: error instanceof Error ? error.message : "Request failed" });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+
+  const issues: DataHealthIssue[] = [];
+  for (const url of urls) {
+    const result = results.get(url)!;
+    if (!isBrokenLinkResult(result)) continue;
+    const outcome = result.status === null ? result.error ?? "No response" : `HTTP ${result.status}`;
+    for (const { event, field } of usages.get(url)!) {
+      issues.push(eventIssue("broken_link", event, `${field}: ${url} (${outcome})`));
+    }
+  }
+  return issues;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Aggregation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Per-check counts for data_health_runs.counts. Every check is present so
+ * trend charts can tell "zero" from "not run".
+ */
+export function countIssuesByCheck(issues: DataHealthIssue[]): Record<DataHealthCheckKey, number> {
+  const counts = Object.fromEntries(DATA_HEALTH_CHECK_KEYS.map((key) => [key, 0])) as Record<
+    DataHealthCheckKey,
+    number
+  >;
+  for (const issue of issues) counts[issue.checkKey]++;
+  return counts;
+}
@@ -0,0 +1,164 @@
+/**
+ * Data health — server-side run and reads
+ *
+ * runDataHealth() loads venues, published happenings and their upcoming
+ * overrides, runs every check from ./dataHealth, and persists one
+ * data_health_runs row plus its issues. Called by the daily cron and the
+ * admin "Run now" route with the service-role client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { getTodayDenver } from "@/lib/events/nextOccurrence";
+import { safeFetch } from "@/lib/url/safeFetch";
+import {
+  checkBrokenLinks,
+  countIssuesByCheck,
+  runDataHealthChecks,
+  type DataHealthCheckKey,
+  type DataHealthIssue,
+  type HealthEventRow,
+  type HealthOverrideRow,
+  type HealthVenueRow,
+  type LinkCheckResult,
+  type LinkFetcher,
+} from "./dataHealth";
+
+type ServiceClient = SupabaseClient<Database>;
+
+/** Runs whose issue rows are kept; older runs keep only their counts */
+export const DATA_HEALTH_ISSUE_RUNS_KEPT = 14;
+
+/** Runs shown in the trend view */
+export const DATA_HEALTH_TREND_RUNS = 30;
+
+const LINK_TIMEOUT_MS = 8000;
+const LINK_MAX_BYTES = 256 * 1024;
+const INSERT_CHUNK_SIZE = 500;
+
+const EVENT_COLUMNS =
+  "id, title, venue_id, venue_name, custom_location_name, location_mode, online_url, age_policy, is_dsc_event, event_type, last_verified_at, event_date, day_of_week, recurrence_rule, recurrence_end_date, start_time, max_occurrences, custom_dates, external_url, signup_url";
+
+/**
+ * Default link fetcher. Event links are host-supplied, so every request goes
+ * through safeFetch(): resolved addresses are checked at connect time and
+ * each redirect hop is revalidated. Only the final status is used.
+ */
+export const fetchLinkStatus: LinkFetcher = async (url: string): Promise<LinkCheckResult> => {
+  const result = await safeFetch(url, {
+    timeoutMs: LINK_TIMEOUT_MS,
+    maxBytes: LINK_MAX_BYTES,
+    // One request per listed link, not a crawl; a robots refusal would
+    // otherwise read as a broken link
+    respectRobots: false,
+  });
+  if (result.ok) return { status: result.status };
+  // Non-2xx answers and refused content types still carry the status
+  if (result.status !== undefined) return { status: result.status };
+  return { status: null, error: result.reason };
+};
+
+async function pruneOldIssues(client: ServiceClient): Promise<void> {
+  const { data: oldRuns } = await client
+    .from("data_health_runs")
+    .select("id")
+    .order("started_at", { ascending: false })
+    .range(DATA_HEALTH_ISSUE_RUNS_KEPT, DATA_HEALTH_ISSUE_RUNS_KEPT + 100);
+
+  const ids = (oldRuns ?? []).map((run) => run.id);
+  if (ids.length > 0) {
+    await client.from("data_health_issues").delete().in("run_id", ids);
+  }
+}
+
+/**
+ * Run all checks and persist the results. The run row is inserted first so
+ * a failure part-way is visible on the dashboard with its error.
+ */
+export async function runDataHealth(
+  client: ServiceClient,
+  options: {
+    trigger: "cron" | "manual";
+    triggeredBy?: string | null;
+    fetcher?: LinkFetcher;
+    now?: Date;
+  }
+): Promise<{ runId: string; counts: Record<DataHealthCheckKey, number> }> {
+  const now = options.now ?? new Date();
+  const today = getTodayDenver();
+
+  const { data: run, error: runError } = await client
+    .from("data_health_runs")
+    .insert({ trigger: options.trigger, triggered_by: options.triggeredBy ?? null, started_at: now.toISOString() })
+    .select("id")
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to start data health run: ${runError?.message ?? "no row"}`);
+  }
+
+  try {
+    const [venuesResult, eventsResult] = await Promise.all([
+      client.from("venues").select("id, name, latitude, longitude"),
+      client.from("events").select(EVENT_COLUMNS).eq("is_published", true).neq("status", "cancelled"),
+    ]);
+    if (venuesResult.error) throw venuesResult.error;
+    if (eventsResult.error) throw eventsResult.error;
+
+    const events = (eventsResult.data ?? []) as HealthEventRow[];
+    const eventIds = events.map((event) => event.id);
+
+    const overrides: HealthOverrideRow[] = [];
+    for (let i = 0; i < eventIds.length; i += INSERT_CHUNK_SIZE) {
+      const { data, error } = await client
+        .from("occurrence_overrides")
+        .select("id, event_id, date_key")
+        .in("event_id", eventIds.slice(i, i + INSERT_CHUNK_SIZE))
+        .gte("date_key", today);
+      if (error) throw error;
+      overrides.push(...(data ?? []));
+    }
+
+    const issues: DataHealthIssue[] = [
+      ...runDataHealthChecks({
+        venues: (venuesResult.data ?? []) as HealthVenueRow[],
+        events,
+        overrides,
+        today,
+        now,
+      }),
+      ...(await checkBrokenLinks(events, options.fetcher ?? fetchLinkStatus)),
+    ];
+    const counts = countIssuesByCheck(issues);
+
+    const rows = issues.map((issue) => ({
+      run_id: run.id,
+      check_key: issue.checkKey,
+      entity_type: issue.entityType,
+      entity_id: issue.entityId,
+      event_id: issue.eventId,
+      label: issue.label,
+      detail: issue.detail,
+    }));
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await client.from("data_health_issues").insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+      if (error) throw error;
+    }
+
+    await client
+      .from("data_health_runs")
+      .update({ counts, finished_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    await pruneOldIssues(client);
+
+    return { runId: run.id, counts };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    await client
+      .from("data_health_runs")
+      .update({ error: message.slice(0, 500), finished_at: new Date().toISOString() })
+      .eq("id", run.id);
+    throw error;
+  }
+}
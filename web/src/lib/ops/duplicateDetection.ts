@@ -0,0 +1,507 @@
+/**
+ * Duplicate Detection
+ *
+ * Scores candidate duplicate pairs for the Ops Console review queue:
+ * - Events: same venue, same day, start times close together, similar title
+ * - Venues: similar name, similar address, nearby coordinates
+ *
+ * Also defines the field groups an admin picks between when merging a pair.
+ * Pure module — the queue loader and merge routes do the I/O.
+ */
+
+import { normalizeForMatch, tokenize, tokenJaccardScore } from "@/lib/events/venueResolver";
+import { haversineDistanceMiles } from "@/lib/happenings/locationFilter";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type DuplicateEntityType = "event" | "venue";
+
+export interface DuplicateEventCandidate {
+  id: string;
+  title: string;
+  slug: string | null;
+  venue_id: string | null;
+  venue_name: string | null;
+  custom_location_name: string | null;
+  day_of_week: string | null;
+  event_date: string | null;
+  start_time: string | null;
+  series_id: string | null;
+  status: string | null;
+  is_published: boolean | null;
+  created_at: string | null;
+}
+
+export interface DuplicateVenueCandidate {
+  id: string;
+  name: string;
+  slug: string | null;
+  address: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  created_at: string | null;
+}
+
+export interface DuplicatePairScore {
+  /** 0..1 */
+  score: number;
+  /** Human-readable reasons shown in the queue */
+  reasons: string[];
+}
+
+export interface DuplicatePair<T> extends DuplicatePairScore {
+  /** Lower id of the pair (matches duplicate_dismissals.left_id) */
+  left: T;
+  right: T;
+}
+
+export interface MergeFieldGroup {
+  key: string;
+  label: string;
+  columns: readonly string[];
+}
+
+export type MergeFieldChoice = "survivor" | "loser";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Thresholds and weights
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Minimum score for an event pair to enter the queue */
+export const EVENT_DUPLICATE_THRESHOLD = 0.7;
+
+/** Minimum score for a venue pair to enter the queue */
+export const VENUE_DUPLICATE_THRESHOLD = 0.6;
+
+/** Start times further apart than this do not count as "same time" */
+export const START_TIME_WINDOW_MINUTES = 30;
+
+/** Venue coordinates closer than this count as the same spot */
+export const VENUE_SAME_SPOT_MILES = 0.1;
+
+/** Venue coordinates closer than this count as nearby */
+export const VENUE_NEARBY_MILES = 0.25;
+
+const EVENT_WEIGHTS = { venue: 0.3, day: 0.25, time: 0.2, title: 0.25 } as const;
+const VENUE_WEIGHTS = { name: 0.45, address: 0.3, geo: 0.25 } as const;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Street-suffix spellings collapsed before comparing addresses */
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  av: "ave",
+  boulevard: "blvd",
+  road: "rd",
+  drive: "dr",
+  place: "pl",
+  lane: "ln",
+  court: "ct",
+  parkway: "pkwy",
+  highway: "hwy",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pair helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Order two ids the way duplicate_dismissals stores them (left < right).
+ */
+export function orderPairIds(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/**
+ * Stable key for a pair regardless of argument order.
+ */
+export function duplicatePairKey(a: string, b: string): string {
+  const [left, right] = orderPairIds(a, b);
+  return `${left}:${right}`;
+}
+
+function roundScore(score: number): number {
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+/** normalizeForMatch with accents folded first ("Café" matches "Cafe") */
+function foldForMatch(value: string): string {
+  return normalizeForMatch(value.normalize("NFD").replace(/[\u0300-\u036f]/g, ""));
+}
+
+function titleSimilarity(a: string, b: string): number {
+  const normalizedA = foldForMatch(a);
+  const normalizedB = foldForMatch(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+  return tokenJaccardScore(tokenize(normalizedA), tokenize(normalizedB));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Events
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Venue blocking key: venue_id when set, otherwise the normalized venue or
+ * custom location name. Events without either are never paired.
+ */
+export function eventVenueKey(event: DuplicateEventCandidate): string | null {
+  if (event.venue_id) return `id:${event.venue_id}`;
+  const name = foldForMatch(event.venue_name || event.custom_location_name || "");
+  return name ? `name:${name}` : null;
+}
+
+function eventWeekday(event: DuplicateEventCandidate): string | null {
+  const day = event.day_of_week?.trim().toLowerCase();
+  if (day && WEEKDAYS.includes(day)) return day;
+  if (event.event_date && /^\d{4}-\d{2}-\d{2}$/.test(event.event_date)) {
+    return WEEKDAYS[new Date(`${event.event_date}T12:00:00Z`).getUTCDay()];
+  }
+  return null;
+}
+
+function minutesOfDay(time: string | null): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Score a pair of events assumed to share a venue key.
+ *
+ * Same day means the same event_date for one-time events, or the same
+ * weekday otherwise (one-time dates are mapped to their weekday so a stray
+ * one-off can match its recurring twin).
+ */
+export function scoreEventPair(
+  a: DuplicateEventCandidate,
+  b: DuplicateEventCandidate
+): DuplicatePairScore {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const venueA = eventVenueKey(a);
+  if (venueA && venueA === eventVenueKey(b)) {
+    score += EVENT_WEIGHTS.venue;
+    reasons.push("Same venue");
+  }
+
+  if (a.event_date && b.event_date) {
+    if (a.event_date === b.event_date) {
+      score += EVENT_WEIGHTS.day;
+      reasons.push("Same date");
+    }
+  } else {
+    const dayA = eventWeekday(a);
+    if (dayA && dayA === eventWeekday(b)) {
+      score += EVENT_WEIGHTS.day;
+      reasons.push("Same day of week");
+    }
+  }
+
+  const minutesA = minutesOfDay(a.start_time);
+  const minutesB = minutesOfDay(b.start_time);
+  if (minutesA !== null && minutesB !== null) {
+    const gap = Math.abs(minutesA - minutesB);
+    if (gap === 0) {
+      score += EVENT_WEIGHTS.time;
+      reasons.push("Same start time");
+    } else if (gap <= START_TIME_WINDOW_MINUTES) {
+      score += EVENT_WEIGHTS.time / 2;
+      reasons.push(`Start times ${gap} min apart`);
+    }
+  }
+
+  const title = titleSimilarity(a.title, b.title);
+  if (title > 0) {
+    score += EVENT_WEIGHTS.title * title;
+    reasons.push(title === 1 ? "Same title" : `Title ${Math.round(title * 100)}% similar`);
+  }
+
+  return { score: roundScore(score), reasons };
+}
+
+/**
+ * Find likely duplicate event pairs, highest score first.
+ *
+ * Events are only compared within the same venue key, and occurrences of the
+ * same series are never paired with each other.
+ */
+export function findDuplicateEventPairs(
+  events: DuplicateEventCandidate[],
+  options: { dismissed?: ReadonlySet<string>; threshold?: number } = {}
+): DuplicatePair<DuplicateEventCandidate>[] {
+  const threshold = options.threshold ?? EVENT_DUPLICATE_THRESHOLD;
+  const blocks = new Map<string, DuplicateEventCandidate[]>();
+
+  for (const event of events) {
+    if (event.status === "cancelled") continue;
+    const key = eventVenueKey(event);
+    if (!key) continue;
+    const block = blocks.get(key) ?? [];
+    block.push(event);
+    blocks.set(key, block);
+  }
+
+  const pairs: DuplicatePair<DuplicateEventCandidate>[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i];
+        const b = block[j];
+        if (a.series_id && a.series_id === b.series_id) continue;
+        if (options.dismissed?.has(duplicatePairKey(a.id, b.id))) continue;
+
+        const result = scoreEventPair(a, b);
+        if (result.score < threshold) continue;
+
+        const [left, right] = a.id < b.id ? [a, b] : [b, a];
+        pairs.push({ left, right, ...result });
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Venues
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tokenize an address with common street-suffix spellings collapsed.
+ */
+export function normalizeAddressTokens(address: string | null): Set<string> {
+  if (!address) return new Set();
+  const tokens = [...tokenize(address)].map((t) => ADDRESS_ABBREVIATIONS[t] ?? t);
+  return new Set(tokens);
+}
+
+function hasCoordinates(venue: DuplicateVenueCandidate): boolean {
+  return typeof venue.latitude === "number" && typeof venue.longitude === "number";
+}
+
+/**
+ * Score a pair of venues. When either venue lacks coordinates the geo
+ * weight moves to the address comparison.
+ */
+export function scoreVenuePair(
+  a: DuplicateVenueCandidate,
+  b: DuplicateVenueCandidate
+): DuplicatePairScore {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const name = titleSimilarity(a.name, b.name);
+  if (name > 0) {
+    score += VENUE_WEIGHTS.name * name;
+    reasons.push(name === 1 ? "Same name" : `Name ${Math.round(name * 100)}% similar`);
+  }
+
+  const geoAvailable = hasCoordinates(a) && hasCoordinates(b);
+  const addressWeight = geoAvailable ? VENUE_WEIGHTS.address : VENUE_WEIGHTS.address + VENUE_WEIGHTS.geo;
+  const address = tokenJaccardScore(normalizeAddressTokens(a.address), normalizeAddressTokens(b.address));
+  if (address > 0) {
+    score += addressWeight * address;
+    reasons.push(address === 1 ? "Same address" : `Address ${Math.round(address * 100)}% similar`);
+  }
+
+  if (geoAvailable) {
+    const miles = haversineDistanceMiles(a.latitude!, a.longitude!, b.latitude!, b.longitude!);
+    if (miles < VENUE_SAME_SPOT_MILES) {
+      score += VENUE_WEIGHTS.geo;
+      reasons.push(`${Math.round(miles * 5280)} ft apart`);
+    } else if (miles < VENUE_NEARBY_MILES) {
+      score += VENUE_WEIGHTS.geo / 2;
+      reasons.push(`${miles.toFixed(2)} mi apart`);
+    }
+  }
+
+  return { score: roundScore(score), reasons };
+}
+
+/**
+ * Find likely duplicate venue pairs, highest score first.
+ */
+export function findDuplicateVenuePairs(
+  venues: DuplicateVenueCandidate[],
+  options: { dismissed?: ReadonlySet<string>; threshold?: number } = {}
+): DuplicatePair<DuplicateVenueCandidate>[] {
+  const threshold = options.threshold ?? VENUE_DUPLICATE_THRESHOLD;
+  const pairs: DuplicatePair<DuplicateVenueCandidate>[] = [];
+
+  for (let i = 0; i < venues.length; i++) {
+    for (let j = i + 1; j < venues.length; j++) {
+      const a = venues[i];
+      const b = venues[j];
+      if (options.dismissed?.has(duplicatePairKey(a.id, b.id))) continue;
+
+      const result = scoreVenuePair(a, b);
+      if (result.score < threshold) continue;
+
+      const [left, right] = a.id < b.id ? [a, b] : [b, a];
+      pairs.push({ left, right, ...result });
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merge field groups
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Event columns the admin can take from the duplicate being merged away.
+ * Grouped so that related columns (e.g. venue id + denormalized name) move
+ * together.
+ */
+export const EVENT_MERGE_FIELD_GROUPS: readonly MergeFieldGroup[] = [
+  { key: "title", label: "Title", columns: ["title"] },
+  { key: "description", label: "Description", columns: ["description"] },
+  { key: "event_type", label: "Type", columns: ["event_type", "categories"] },
+  {
+    key: "location",
+    label: "Location",
+    columns: [
+      "location_mode",
+      "venue_id",
+      "venue_name",
+      "venue_address",
+      "custom_location_name",
+      "custom_address",
+      "custom_city",
+      "custom_state",
+      "custom_latitude",
+      "custom_longitude",
+      "location_notes",
+      "online_url",
+    ],
+  },
+  {
+    key: "schedule",
+    label: "Schedule",
+    columns: [
+      "event_date",
+      "day_of_week",
+      "is_recurring",
+      "recurrence_rule",
+      "recurrence_pattern",
+      "recurrence_end_date",
+      "custom_dates",
+      "max_occurrences",
+    ],
+  },
+  { key: "times", label: "Times", columns: ["start_time", "end_time", "signup_time"] },
+  {
+    key: "signup",
+    label: "Signup",
+    columns: ["signup_mode", "signup_url", "signup_policy", "capacity", "has_timeslots", "total_slots", "slot_duration_minutes"],
+  },
+  { key: "cost", label: "Cost", columns: ["is_free", "cost_label"] },
+  { key: "age_policy", label: "Age policy", columns: ["age_policy"] },
+  { key: "links", label: "Links", columns: ["external_url", "youtube_url", "spotify_url"] },
+  { key: "cover_image", label: "Cover image", columns: ["cover_image_url"] },
+];
+
+export const VENUE_MERGE_FIELD_GROUPS: readonly MergeFieldGroup[] = [
+  { key: "name", label: "Name", columns: ["name"] },
+  { key: "address", label: "Address", columns: ["address", "city", "state", "zip", "neighborhood"] },
+  {
+    key: "coordinates",
+    label: "Coordinates",
+    columns: ["latitude", "longitude", "geocode_source", "geocoded_at", "google_maps_url", "map_link"],
+  },
+  { key: "contact", label: "Contact", columns: ["website_url", "phone", "contact_link"] },
+  { key: "notes", label: "Notes", columns: ["accessibility_notes", "parking_notes", "notes"] },
+  { key: "cover_image", label: "Cover image", columns: ["cover_image_url"] },
+];
+
+export function getMergeFieldGroups(entityType: DuplicateEntityType): readonly MergeFieldGroup[] {
+  return entityType === "event" ? EVENT_MERGE_FIELD_GROUPS : VENUE_MERGE_FIELD_GROUPS;
+}
+
+/**
+ * Build the p_fields payload for merge_events()/merge_venues(): the loser's
+ * values for every group the admin picked from the loser. Unknown group
+ * keys are ignored so a tampered request cannot name arbitrary columns.
+ */
+export function buildMergeFieldPatch(
+  entityType: DuplicateEntityType,
+  choices: Record<string, MergeFieldChoice>,
+  loser: Record<string, unknown>
+): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const group of getMergeFieldGroups(entityType)) {
+    if (choices[group.key] !== "loser") continue;
+    for (const column of group.columns) {
+      if (column in loser) patch[column] = loser[column] ?? null;
+    }
+  }
+  return patch;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface DuplicatePairRequest {
+  type: DuplicateEntityType;
+  /** Merge: the row that survives. Dismiss: either side. */
+  survivorId: string;
+  loserId: string;
+  choices: Record<string, MergeFieldChoice>;
+}
+
+/**
+ * Validate a merge/dismiss request body. Returns an error message for 400
+ * responses, or the normalized request.
+ */
+export function parseDuplicatePairRequest(
+  body: unknown
+): { ok: true; value: DuplicatePairRequest } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Invalid JSON body" };
+  }
+  const input = body as Record<string, unknown>;
+
+  if (input.type !== "event" && input.type !== "venue") {
+    return { ok: false, error: "type must be 'event' or 'venue'" };
+  }
+  if (typeof input.survivorId !== "string" || !UUID_REGEX.test(input.survivorId)) {
+    return { ok: false, error: "survivorId must be a UUID" };
+  }
+  if (typeof input.loserId !== "string" || !UUID_REGEX.test(input.loserId)) {
+    return { ok: false, error: "loserId must be a UUID" };
+  }
+  if (input.survivorId === input.loserId) {
+    return { ok: false, error: "survivorId and loserId must differ" };
+  }
+
+  const choices: Record<string, MergeFieldChoice> = {};
+  if (input.choices && typeof input.choices === "object") {
+    const groupKeys = new Set(getMergeFieldGroups(input.type).map((group) => group.key));
+    for (const [key, value] of Object.entries(input.choices as Record<string, unknown>)) {
+      if (groupKeys.has(key) && (value === "survivor" || value === "loser")) {
+        choices[key] = value;
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    value: { type: input.type, survivorId: input.survivorId, loserId: input.loserId, choices },
+  };
+}
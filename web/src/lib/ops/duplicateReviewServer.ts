@@ -0,0 +1,189 @@
+/**
+ * Duplicate review — server-side reads
+ *
+ * Loads the candidate rows and dismissed pairs for the Ops Console
+ * duplicate queue, and the full rows plus child-row counts for the merge
+ * screen. Callers pass a service-role client after checking admin role:
+ * duplicate_dismissals has no RLS policies, and the queue must see drafts.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import {
+  duplicatePairKey,
+  findDuplicateEventPairs,
+  findDuplicateVenuePairs,
+  type DuplicateEntityType,
+  type DuplicateEventCandidate,
+  type DuplicatePair,
+  type DuplicateVenueCandidate,
+} from "./duplicateDetection";
+
+type ServiceClient = SupabaseClient<Database>;
+
+/** Max pairs rendered in the queue at once */
+export const DUPLICATE_QUEUE_LIMIT = 100;
+
+export type DuplicateQueue =
+  | { type: "event"; pairs: DuplicatePair<DuplicateEventCandidate>[]; total: number }
+  | { type: "venue"; pairs: DuplicatePair<DuplicateVenueCandidate>[]; total: number };
+
+export interface MergeSide {
+  row: Record<string, unknown>;
+  /** Child rows that move with a merge, keyed by label */
+  counts: Record<string, number>;
+}
+
+async function loadDismissedKeys(
+  client: ServiceClient,
+  entityType: DuplicateEntityType
+): Promise<Set<string>> {
+  const { data, error } = await client
+    .from("duplicate_dismissals")
+    .select("left_id, right_id")
+    .eq("entity_type", entityType);
+
+  if (error) {
+    console.error("[duplicateReview] Failed to load dismissals:", error);
+    return new Set();
+  }
+  return new Set((data ?? []).map((row) => duplicatePairKey(row.left_id, row.right_id)));
+}
+
+/**
+ * Score every candidate pair of the given type, skipping dismissed pairs.
+ */
+export async function loadDuplicateQueue(
+  client: ServiceClient,
+  entityType: DuplicateEntityType
+): Promise<DuplicateQueue> {
+  const dismissed = await loadDismissedKeys(client, entityType);
+
+  if (entityType === "event") {
+    const { data, error } = await client
+      .from("events")
+      .select(
+        "id, title, slug, venue_id, venue_name, custom_location_name, day_of_week, event_date, start_time, series_id, status, is_published, created_at"
+      )
+      .neq("status", "cancelled")
+      .is("parent_event_id", null);
+
+    if (error) {
+      console.error("[duplicateReview] Failed to load events:", error);
+    }
+    const pairs = findDuplicateEventPairs((data ?? []) as DuplicateEventCandidate[], { dismissed });
+    return { type: "event", pairs: pairs.slice(0, DUPLICATE_QUEUE_LIMIT), total: pairs.length };
+  }
+
+  const { data, error } = await client
+    .from("venues")
+    .select("id, name, slug, address, city, latitude, longitude, created_at");
+
+  if (error) {
+    console.error("[duplicateReview] Failed to load venues:", error);
+  }
+  const pairs = findDuplicateVenuePairs((data ?? []) as DuplicateVenueCandidate[], { dismissed });
+  return { type: "venue", pairs: pairs.slice(0, DUPLICATE_QUEUE_LIMIT), total: pairs.length };
+}
+
+async function countRows(
+  client: ServiceClient,
+  table:
+    | "event_rsvps"
+    | "event_comments"
+    | "event_watchers"
+    | "occurrence_overrides"
+    | "event_images"
+    | "event_claims"
+    | "event_hosts",
+  eventId: string
+): Promise<number> {
+  const { count } = await client
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", eventId);
+  return count ?? 0;
+}
+
+async function loadEventMergeSide(client: ServiceClient, eventId: string): Promise<MergeSide | null> {
+  const { data: row } = await client.from("events").select("*").eq("id", eventId).maybeSingle();
+  if (!row) return null;
+
+  const [rsvps, comments, watchers, overrides, images, claims, slotClaims, hosts] = await Promise.all([
+    countRows(client, "event_rsvps", eventId),
+    countRows(client, "event_comments", eventId),
+    client
+      .from("event_watchers")
+      .select("user_id", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .then(({ count }) => count ?? 0),
+    countRows(client, "occurrence_overrides", eventId),
+    countRows(client, "event_images", eventId),
+    countRows(client, "event_claims", eventId),
+    client
+      .from("timeslot_claims")
+      .select("id, event_timeslots!inner(event_id)", { count: "exact", head: true })
+      .eq("event_timeslots.event_id", eventId)
+      .then(({ count }) => count ?? 0),
+    countRows(client, "event_hosts", eventId),
+  ]);
+
+  return {
+    row: row as Record<string, unknown>,
+    counts: {
+      RSVPs: rsvps,
+      "Slot claims": slotClaims,
+      "Ownership claims": claims,
+      Hosts: hosts,
+      Comments: comments,
+      Watchers: watchers,
+      Overrides: overrides,
+      Images: images,
+    },
+  };
+}
+
+async function loadVenueMergeSide(client: ServiceClient, venueId: string): Promise<MergeSide | null> {
+  const { data: row } = await client.from("venues").select("*").eq("id", venueId).maybeSingle();
+  if (!row) return null;
+
+  const [events, managers, claims, images, followers] = await Promise.all(
+    [
+      client.from("events").select("id", { count: "exact", head: true }).eq("venue_id", venueId),
+      client.from("venue_managers").select("id", { count: "exact", head: true }).eq("venue_id", venueId),
+      client.from("venue_claims").select("id", { count: "exact", head: true }).eq("venue_id", venueId),
+      client.from("venue_images").select("id", { count: "exact", head: true }).eq("venue_id", venueId),
+      client
+        .from("follows")
+        .select("id", { count: "exact", head: true })
+        .eq("target_type", "venue")
+        .eq("target_id", venueId),
+    ].map((query) => query.then(({ count }) => count ?? 0))
+  );
+
+  return {
+    row: row as Record<string, unknown>,
+    counts: {
+      Happenings: events,
+      Managers: managers,
+      Claims: claims,
+      Images: images,
+      Followers: followers,
+    },
+  };
+}
+
+/**
+ * Load both sides of a pair for the merge screen. Returns null when either
+ * row no longer exists (already merged or deleted).
+ */
+export async function loadMergePair(
+  client: ServiceClient,
+  entityType: DuplicateEntityType,
+  aId: string,
+  bId: string
+): Promise<[MergeSide, MergeSide] | null> {
+  const load = entityType === "event" ? loadEventMergeSide : loadVenueMergeSide;
+  const [a, b] = await Promise.all([load(client, aId), load(client, bId)]);
+  return a && b ? [a, b] : null;
+}
@@ -0,0 +1,848 @@
+/**
+ * Event Import iCalendar Parser
+ *
+ * Parses .ics exports (Google Calendar, Eventbrite, Outlook) into the same
+ * ImportRow shape the CSV import uses, so the rest of the pipeline —
+ * validation, venue resolution, dedupe, insert — is shared.
+ *
+ * Recurrence mapping (RFC 5545 → events model):
+ * - Simple RRULEs our model can express (weekly, every-other-week, monthly
+ *   nth-weekday) become recurrence_rule + day_of_week via
+ *   interpretRecurrence(). COUNT maps to max_occurrences. Future EXDATEs
+ *   become cancelled_dates (inserted as cancelled occurrence_overrides).
+ * - Everything else (UNTIL, DAILY, multi-day weekly, BYMONTHDAY, RDATE,
+ *   events whose Denver date differs from their source-timezone date) is
+ *   expanded into custom_dates over IMPORT_HORIZON_DAYS, minus EXDATEs.
+ *
+ * Past events, cancelled events and modified instances (RECURRENCE-ID)
+ * never become rows; each is reported as a warning instead.
+ */
+
+import {
+  addDaysDenver,
+  getTodayDenver,
+} from "@/lib/events/nextOccurrence";
+import {
+  buildRecurrenceRuleFromOrdinals,
+  interpretRecurrence,
+} from "@/lib/events/recurrenceContract";
+import { deriveDayOfWeekFromDate } from "@/lib/events/recurrenceCanonicalization";
+import { ImportParseResult, ImportRow, MAX_IMPORT_ROWS } from "./eventImportParser";
+import { VALID_EVENT_TYPES } from "./eventImportValidation";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface IcsImportParseResult extends ImportParseResult {
+  /** Non-fatal notes: skipped past/cancelled events, expanded series, etc. */
+  warnings: string[];
+}
+
+export interface IcsImportOptions {
+  /** Today's Denver date key (injectable for tests). */
+  todayKey?: string;
+  /** event_type for VEVENTs whose type can't be inferred. */
+  defaultEventType?: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateValue {
+  /** Date in the value's own timezone (YYYY-MM-DD). */
+  localDateKey: string;
+  /** Denver date key. */
+  dateKey: string;
+  /** Denver wall time (HH:MM), null for all-day values. */
+  time: string | null;
+  allDay: boolean;
+}
+
+interface ParsedRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  byDay: Array<{ ordinal: number | null; day: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  count: number | null;
+  untilKey: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How far ahead non-representable series are expanded into custom_dates. */
+export const IMPORT_HORIZON_DAYS = 365;
+
+const DENVER_TZ = "America/Denver";
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** Outlook exports often carry Windows zone names instead of IANA ids. */
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  "mountain standard time": "America/Denver",
+  "us mountain standard time": "America/Phoenix",
+  "pacific standard time": "America/Los_Angeles",
+  "central standard time": "America/Chicago",
+  "eastern standard time": "America/New_York",
+};
+
+const SUPPORTED_RRULE_PARTS = new Set([
+  "FREQ",
+  "INTERVAL",
+  "BYDAY",
+  "BYMONTHDAY",
+  "BYMONTH",
+  "BYSETPOS",
+  "COUNT",
+  "UNTIL",
+  "WKST",
+]);
+
+/** Title keywords → event_type, checked in order. */
+const EVENT_TYPE_KEYWORDS: Array<[RegExp, string]> = [
+  [/\bopen[\s-]?mic\b/i, "open_mic"],
+  [/\bsong\s*circle\b/i, "song_circle"],
+  [/\bworkshop\b/i, "workshop"],
+  [/\bshowcase\b/i, "showcase"],
+  [/\bjam\b/i, "jam_session"],
+  [/\bpoetry\b/i, "poetry"],
+  [/\bcomedy\b/i, "comedy"],
+  [/\bbluegrass\b/i, "bluegrass"],
+  [/\bblues\b/i, "blues"],
+  [/\birish\b/i, "irish"],
+  [/\bmeet[\s-]?up\b/i, "meetup"],
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parses an iCalendar string into import rows.
+ */
+export function parseImportIcs(
+  ics: string,
+  options: IcsImportOptions = {}
+): IcsImportParseResult {
+  const todayKey = options.todayKey ?? getTodayDenver();
+  const defaultEventType = (options.defaultEventType || "other").toLowerCase();
+  const warnings: string[] = [];
+
+  const lines = unfoldLines(ics);
+  if (lines.length === 0) {
+    return { success: false, rows: [], errors: ["Calendar file is empty"], warnings };
+  }
+  if (lines[0].toUpperCase() !== "BEGIN:VCALENDAR") {
+    return {
+      success: false,
+      rows: [],
+      errors: ["Not an iCalendar file: expected BEGIN:VCALENDAR on the first line"],
+      warnings,
+    };
+  }
+
+  const vevents = extractVEvents(lines);
+  if (vevents.length === 0) {
+    return { success: false, rows: [], errors: ["Calendar contains no events"], warnings };
+  }
+
+  // Modified/cancelled instances reference their master by UID
+  const instanceOverrides = new Map<string, IcsProperty[][]>();
+  const masters: IcsProperty[][] = [];
+  for (const props of vevents) {
+    const uid = getProp(props, "UID")?.value;
+    if (getProp(props, "RECURRENCE-ID") && uid) {
+      const list = instanceOverrides.get(uid) ?? [];
+      list.push(props);
+      instanceOverrides.set(uid, list);
+    } else {
+      masters.push(props);
+    }
+  }
+
+  const rows: ImportRow[] = [];
+  masters.forEach((props, index) => {
+    const eventNumber = index + 1;
+    const title = unescapeText(getProp(props, "SUMMARY")?.value ?? "").trim();
+    const label = title ? `"${title}"` : `Event ${eventNumber}`;
+
+    if (getProp(props, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+      warnings.push(`${label}: skipped (cancelled in source calendar)`);
+      return;
+    }
+
+    const dtstartProp = getProp(props, "DTSTART");
+    const dtstart = dtstartProp ? parseDateValue(dtstartProp, warnings, label) : null;
+    if (!dtstart) {
+      warnings.push(`${label}: skipped (missing or unreadable DTSTART)`);
+      return;
+    }
+
+    const exdates = new Set<string>();
+    for (const prop of getAllProps(props, "EXDATE")) {
+      for (const value of splitDateList(prop)) {
+        const parsed = parseDateValue(value, warnings, label);
+        if (parsed) exdates.add(parsed.localDateKey);
+      }
+    }
+
+    const uid = getProp(props, "UID")?.value;
+    for (const instance of (uid && instanceOverrides.get(uid)) || []) {
+      const recurrenceId = parseDateValue(getProp(instance, "RECURRENCE-ID")!, warnings, label);
+      if (!recurrenceId) continue;
+      if (getProp(instance, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+        exdates.add(recurrenceId.localDateKey);
+      } else if (recurrenceId.dateKey >= todayKey) {
+        warnings.push(
+          `${label}: changed occurrence on ${recurrenceId.dateKey} imported at its original time — adjust it after import`
+        );
+      }
+    }
+
+    const rdates: string[] = [];
+    for (const prop of getAllProps(props, "RDATE")) {
+      for (const value of splitDateList(prop)) {
+        const parsed = parseDateValue(value, warnings, label);
+        if (parsed) rdates.push(parsed.dateKey);
+      }
+    }
+
+    const schedule = mapSchedule({
+      dtstart,
+      rruleValue: getProp(props, "RRULE")?.value ?? null,
+      exdates,
+      rdates,
+      todayKey,
+      label,
+      warnings,
+    });
+    if (!schedule) return;
+
+    const dtend = getProp(props, "DTEND");
+    const endValue = dtend ? parseDateValue(dtend, warnings, label) : null;
+    const duration = getProp(props, "DURATION")?.value ?? null;
+
+    const location = unescapeText(getProp(props, "LOCATION")?.value ?? "").trim();
+    const description = unescapeText(getProp(props, "DESCRIPTION")?.value ?? "").trim();
+    const url = getProp(props, "URL")?.value.trim() ?? "";
+    const categories = getAllProps(props, "CATEGORIES").flatMap((prop) =>
+      splitTextList(prop.value)
+    );
+
+    rows.push({
+      rowNumber: eventNumber,
+      title,
+      event_type: inferEventType(title, categories) ?? defaultEventType,
+      event_date: schedule.eventDate,
+      start_time: dtstart.time,
+      end_time: dtstart.allDay ? null : resolveEndTime(dtstart, endValue, duration),
+      venue_id: null,
+      venue_name: location || null,
+      day_of_week: schedule.dayOfWeek,
+      recurrence_rule: schedule.recurrenceRule,
+      description: description || null,
+      external_url: url || null,
+      categories: null,
+      is_free: null,
+      cost_label: null,
+      age_policy: null,
+      pre_verified: false,
+      custom_dates: schedule.customDates,
+      max_occurrences: schedule.maxOccurrences,
+      cancelled_dates: schedule.cancelledDates,
+    });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      rows: [],
+      errors: [
+        `Calendar exceeds maximum event limit: ${rows.length} upcoming events, maximum is ${MAX_IMPORT_ROWS}. Please split into multiple files.`,
+      ],
+      warnings,
+    };
+  }
+
+  if (rows.length === 0) {
+    return {
+      success: false,
+      rows: [],
+      errors: ["Calendar contains no upcoming events to import"],
+      warnings,
+    };
+  }
+
+  return { success: true, rows, errors: [], warnings };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schedule mapping
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface MappedSchedule {
+  eventDate: string;
+  dayOfWeek: string | null;
+  recurrenceRule: string | null;
+  customDates: string[] | null;
+  maxOccurrences: number | null;
+  cancelledDates: string[];
+}
+
+function mapSchedule(input: {
+  dtstart: IcsDateValue;
+  rruleValue: string | null;
+  exdates: Set<string>;
+  rdates: string[];
+  todayKey: string;
+  label: string;
+  warnings: string[];
+}): MappedSchedule | null {
+  const { dtstart, rruleValue, exdates, rdates, todayKey, label, warnings } = input;
+  const horizonKey = addDaysDenver(todayKey, IMPORT_HORIZON_DAYS);
+  const dayShift = diffDays(dtstart.localDateKey, dtstart.dateKey);
+
+  // One-time event
+  if (!rruleValue && rdates.length === 0) {
+    if (dtstart.dateKey < todayKey) {
+      warnings.push(`${label}: skipped (already happened on ${dtstart.dateKey})`);
+      return null;
+    }
+    return {
+      eventDate: dtstart.dateKey,
+      dayOfWeek: null,
+      recurrenceRule: null,
+      customDates: null,
+      maxOccurrences: null,
+      cancelledDates: [],
+    };
+  }
+
+  const rule = rruleValue ? parseRule(rruleValue) : null;
+  if (rruleValue && !rule) {
+    warnings.push(`${label}: skipped (unsupported RRULE "${rruleValue}")`);
+    return null;
+  }
+
+  const generated = rule
+    ? expandRule(rule, dtstart.localDateKey, addDaysDenver(horizonKey, -dayShift))
+    : { dates: [dtstart.localDateKey], truncated: false };
+
+  // Representable in recurrence_rule + day_of_week?
+  if (rule && rdates.length === 0 && dayShift === 0) {
+    const canonical = toCanonicalRule(rule, rruleValue!, dtstart.dateKey);
+    if (canonical) {
+      const upcoming = generated.dates.filter((d) => d >= todayKey);
+      if (upcoming.length === 0) {
+        warnings.push(`${label}: skipped (series has no upcoming dates)`);
+        return null;
+      }
+      // COUNT is relative to the original anchor; otherwise re-anchor on the
+      // next occurrence so biweekly parity and dedupe keys stay current.
+      return {
+        eventDate: rule.count ? dtstart.dateKey : upcoming[0],
+        dayOfWeek: canonical.dayOfWeek,
+        recurrenceRule: canonical.recurrenceRule,
+        customDates: null,
+        maxOccurrences: rule.count,
+        cancelledDates: upcoming.filter((d) => exdates.has(d)),
+      };
+    }
+  }
+
+  const customDates = [
+    ...generated.dates
+      .filter((d) => !exdates.has(d))
+      .map((d) => addDaysDenver(d, dayShift)),
+    ...rdates,
+  ]
+    .filter((d) => d >= todayKey && d <= horizonKey)
+    .sort();
+  const uniqueDates = [...new Set(customDates)];
+
+  if (uniqueDates.length === 0) {
+    warnings.push(`${label}: skipped (series has no upcoming dates)`);
+    return null;
+  }
+  if (generated.truncated) {
+    warnings.push(
+      `${label}: imported as ${uniqueDates.length} custom dates through ${horizonKey}; the source rule can't be stored as a repeating series`
+    );
+  }
+
+  return {
+    eventDate: uniqueDates[0],
+    dayOfWeek: null,
+    recurrenceRule: "custom",
+    customDates: uniqueDates,
+    maxOccurrences: null,
+    cancelledDates: [],
+  };
+}
+
+/**
+ * Returns recurrence_rule/day_of_week when the RRULE fits our model, using
+ * interpretRecurrence() as the source of truth for frequency and ordinals.
+ */
+function toCanonicalRule(
+  rule: ParsedRule,
+  rruleValue: string,
+  anchorDateKey: string
+): { recurrenceRule: string; dayOfWeek: string } | null {
+  if (rule.untilKey || rule.byMonth.length > 0 || rule.byMonthDay.length > 0) return null;
+  if (new Set(rule.byDay.map((d) => d.day)).size > 1) return null;
+
+  // BYDAY wins inside interpretRecurrence; DTSTART's weekday is the fallback
+  const recurrence = interpretRecurrence({
+    event_date: anchorDateKey,
+    day_of_week: deriveDayOfWeekFromDate(anchorDateKey),
+    recurrence_rule: rruleValue,
+  });
+  if (!recurrence.isConfident || !recurrence.dayName) return null;
+
+  if (rule.freq === "WEEKLY" && rule.bySetPos.length === 0) {
+    if (rule.interval === 1 && recurrence.frequency === "weekly") {
+      return { recurrenceRule: "weekly", dayOfWeek: recurrence.dayName };
+    }
+    if (rule.interval === 2 && recurrence.frequency === "biweekly") {
+      return { recurrenceRule: "biweekly", dayOfWeek: recurrence.dayName };
+    }
+    return null;
+  }
+
+  if (
+    rule.freq === "MONTHLY" &&
+    rule.interval === 1 &&
+    recurrence.frequency === "monthly" &&
+    recurrence.ordinals.length > 0 &&
+    recurrence.ordinals.every((o) => o === -1 || (o >= 1 && o <= 5))
+  ) {
+    return {
+      recurrenceRule: buildRecurrenceRuleFromOrdinals(recurrence.ordinals),
+      dayOfWeek: recurrence.dayName,
+    };
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RRULE expansion
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseRule(value: string): ParsedRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, "").split(";")) {
+    const [key, val] = part.split("=");
+    if (!key || val === undefined) continue;
+    parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  for (const key of parts.keys()) {
+    if (!SUPPORTED_RRULE_PARTS.has(key)) return null;
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+
+  const byDay: ParsedRule["byDay"] = [];
+  for (const entry of (parts.get("BYDAY") ?? "").split(",").filter(Boolean)) {
+    const match = entry.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+    const day = match ? DAY_CODES.indexOf(match[2]) : -1;
+    if (!match || day === -1) return null;
+    byDay.push({ ordinal: match[1] ? parseInt(match[1], 10) : null, day });
+  }
+
+  const numberList = (key: string) =>
+    (parts.get(key) ?? "")
+      .split(",")
+      .filter(Boolean)
+      .map((n) => parseInt(n, 10))
+      .filter((n) => !isNaN(n) && n !== 0);
+
+  const until = parts.get("UNTIL");
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.get("INTERVAL") ?? "1", 10) || 1),
+    byDay,
+    byMonthDay: numberList("BYMONTHDAY"),
+    byMonth: numberList("BYMONTH"),
+    bySetPos: numberList("BYSETPOS"),
+    count: parts.has("COUNT") ? parseInt(parts.get("COUNT")!, 10) || null : null,
+    untilKey: until && /^\d{8}/.test(until) ? compactToDateKey(until.slice(0, 8)) : null,
+  };
+}
+
+/**
+ * Enumerates rule dates from the DTSTART date through `endKey` (inclusive),
+ * honoring COUNT and UNTIL. Dates are in the DTSTART's own timezone.
+ */
+function expandRule(
+  rule: ParsedRule,
+  startKey: string,
+  endKey: string
+): { dates: string[]; truncated: boolean } {
+  const dates: string[] = [];
+  const start = parseDateKey(startKey);
+  const lastKey = rule.untilKey && rule.untilKey < endKey ? rule.untilKey : endKey;
+  let generatedCount = 0;
+
+  for (let key = startKey; key <= lastKey; key = addDays(key, 1)) {
+    if (!matchesRule(rule, start, parseDateKey(key))) continue;
+    generatedCount++;
+    dates.push(key);
+    if (rule.count && generatedCount >= rule.count) {
+      return { dates, truncated: false };
+    }
+  }
+
+  const boundedByUntil = rule.untilKey !== null && rule.untilKey <= endKey;
+  return { dates, truncated: !boundedByUntil };
+}
+
+function matchesRule(rule: ParsedRule, start: Date, date: Date): boolean {
+  const plainDays = rule.byDay.filter((d) => d.ordinal === null).map((d) => d.day);
+  const month = date.getUTCMonth() + 1;
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      if (daysBetween(start, date) % rule.interval !== 0) return false;
+      if (plainDays.length > 0 && !plainDays.includes(date.getUTCDay())) return false;
+      if (rule.byMonthDay.length > 0) return matchesMonthDay(rule.byMonthDay, date);
+      return true;
+    }
+
+    case "WEEKLY": {
+      const weekIndex = Math.floor(daysBetween(mondayOf(start), date) / 7);
+      if (weekIndex % rule.interval !== 0) return false;
+      const days = plainDays.length > 0 ? plainDays : [start.getUTCDay()];
+      return days.includes(date.getUTCDay());
+    }
+
+    case "MONTHLY": {
+      const monthIndex =
+        (date.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (date.getUTCMonth() - start.getUTCMonth());
+      if (monthIndex % rule.interval !== 0) return false;
+      return matchesWithinMonth(rule, start, date);
+    }
+
+    case "YEARLY": {
+      const yearIndex = date.getUTCFullYear() - start.getUTCFullYear();
+      if (yearIndex % rule.interval !== 0) return false;
+      if (rule.byMonth.length === 0 && month !== start.getUTCMonth() + 1) return false;
+      return matchesWithinMonth(rule, start, date);
+    }
+  }
+}
+
+/** Day-in-month match shared by MONTHLY and YEARLY rules. */
+function matchesWithinMonth(rule: ParsedRule, start: Date, date: Date): boolean {
+  if (rule.byDay.length > 0) {
+    const weekday = date.getUTCDay();
+    const nth = Math.ceil(date.getUTCDate() / 7);
+    const nthFromEnd = -Math.ceil((daysInMonth(date) - date.getUTCDate() + 1) / 7);
+
+    const dayMatches = rule.byDay.some(
+      (entry) =>
+        entry.day === weekday &&
+        (entry.ordinal === null || entry.ordinal === nth || entry.ordinal === nthFromEnd)
+    );
+    if (!dayMatches) return false;
+
+    // BYSETPOS picks positions among the matching weekdays of the month
+    if (rule.bySetPos.length > 0) {
+      return rule.bySetPos.includes(nth) || rule.bySetPos.includes(nthFromEnd);
+    }
+    return true;
+  }
+
+  if (rule.byMonthDay.length > 0) return matchesMonthDay(rule.byMonthDay, date);
+  return date.getUTCDate() === start.getUTCDate();
+}
+
+function matchesMonthDay(monthDays: number[], date: Date): boolean {
+  const day = date.getUTCDate();
+  const fromEnd = day - daysInMonth(date) - 1;
+  return monthDays.includes(day) || monthDays.includes(fromEnd);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Date/time values
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parses DATE / DATE-TIME values (floating, UTC "Z", or TZID-qualified)
+ * and converts them to Denver wall-clock date/time.
+ */
+function parseDateValue(
+  prop: IcsProperty,
+  warnings: string[],
+  label: string
+): IcsDateValue | null {
+  const value = prop.value.trim();
+
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || prop.params.VALUE === "DATE") {
+    if (!dateOnly) return null;
+    const key = `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`;
+    return { localDateKey: key, dateKey: key, time: null, allDay: true };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, , utc] = match;
+  const localDateKey = `${y}-${mo}-${d}`;
+  const wall = [Number(y), Number(mo), Number(d), Number(h), Number(mi)] as const;
+
+  // UTC values keep their UTC date as the local frame (BYDAY is evaluated
+  // in UTC); mapSchedule shifts those dates onto Denver.
+  let instant: number;
+  if (utc) {
+    instant = Date.UTC(wall[0], wall[1] - 1, wall[2], wall[3], wall[4]);
+  } else {
+    const tzid = prop.params.TZID ? resolveTimezone(prop.params.TZID) : DENVER_TZ;
+    if (!tzid) {
+      warnings.push(`${label}: unknown timezone "${prop.params.TZID}", assumed America/Denver`);
+    }
+    instant = wallTimeToInstant(wall, tzid ?? DENVER_TZ);
+  }
+
+  const denver = toDenverWallTime(instant);
+  return { localDateKey, dateKey: denver.dateKey, time: denver.time, allDay: false };
+}
+
+function resolveEndTime(
+  start: IcsDateValue,
+  end: IcsDateValue | null,
+  duration: string | null
+): string | null {
+  if (end && end.time) return end.time;
+  if (!duration || !start.time) return null;
+
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/i);
+  if (!match) return null;
+  const minutes =
+    Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  if (minutes === 0) return null;
+
+  const [h, m] = start.time.split(":").map(Number);
+  const total = (h * 60 + m + minutes) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function resolveTimezone(tzid: string): string | null {
+  const cleaned = tzid.replace(/^"|"$/g, "").replace(/^\/[^/]+\/[^/]+\//, "");
+  const windows = WINDOWS_TIMEZONES[cleaned.toLowerCase()];
+  if (windows) return windows;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: cleaned });
+    return cleaned;
+  } catch {
+    return null;
+  }
+}
+
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - instant;
+}
+
+function wallTimeToInstant(
+  wall: readonly [number, number, number, number, number],
+  timeZone: string
+): number {
+  const guess = Date.UTC(wall[0], wall[1] - 1, wall[2], wall[3], wall[4]);
+  const first = guess - zoneOffsetMs(guess, timeZone);
+  return guess - zoneOffsetMs(first, timeZone);
+}
+
+function toDenverWallTime(instant: number): { dateKey: string; time: string } {
+  const offset = zoneOffsetMs(instant, DENVER_TZ);
+  const wall = new Date(instant + offset);
+  return {
+    dateKey: wall.toISOString().slice(0, 10),
+    time: wall.toISOString().slice(11, 16),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Event type inference
+// ─────────────────────────────────────────────────────────────────────────────
+
+function inferEventType(title: string, categories: string[]): string | null {
+  for (const category of categories) {
+    const normalized = category.toLowerCase().trim().replace(/[\s-]+/g, "_");
+    if (VALID_EVENT_TYPES.has(normalized)) return normalized;
+  }
+  for (const [pattern, eventType] of EVENT_TYPE_KEYWORDS) {
+    if (pattern.test(title)) return eventType;
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Content-line helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalizes line endings and unfolds RFC 5545 continuation lines.
+ */
+function unfoldLines(ics: string): string[] {
+  return ics
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "");
+}
+
+/**
+ * Collects top-level VEVENT properties, ignoring nested VALARMs.
+ */
+function extractVEvents(lines: string[]): IcsProperty[][] {
+  const events: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      if (prop.value.toUpperCase() === "VEVENT" && !current) {
+        current = [];
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (prop.name === "END") {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && prop.value.toUpperCase() === "VEVENT") {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && nestedDepth === 0) current.push(prop);
+  }
+
+  return events;
+}
+
+function parseContentLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function getProp(props: IcsProperty[], name: string): IcsProperty | undefined {
+  return props.find((p) => p.name === name);
+}
+
+function getAllProps(props: IcsProperty[], name: string): IcsProperty[] {
+  return props.filter((p) => p.name === name);
+}
+
+/** EXDATE/RDATE may carry comma-separated values sharing one TZID. */
+function splitDateList(prop: IcsProperty): IcsProperty[] {
+  return prop.value
+    .split(",")
+    .filter(Boolean)
+    .map((value) => ({ ...prop, value }));
+}
+
+function splitTextList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((part) => unescapeText(part).trim())
+    .filter(Boolean);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Date-key arithmetic (UTC noon, timezone-free)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function compactToDateKey(compact: string): string {
+  return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+}
+
+function parseDateKey(key: string): Date {
+  return new Date(`${key}T12:00:00Z`);
+}
+
+function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function diffDays(fromKey: string, toKey: string): number {
+  return daysBetween(parseDateKey(fromKey), parseDateKey(toKey));
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 86_400_000);
+}
+
+function mondayOf(date: Date): Date {
+  const monday = new Date(date);
+  monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return monday;
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
@@ -26,7 +26,7 @@ export interface EventInsertPayload {
   status: string;
   is_dsc_event: boolean;
 
-  // From CSV
+  // From CSV / iCalendar
   title: string;
   event_type: string[];
   event_date: string;
@@ -36,6 +36,8 @@ export interface EventInsertPayload {
   day_of_week: string | null;
   recurrence_rule: string | null;
   is_recurring: boolean;
+  custom_dates: string[] | null;
+  max_occurrences: number | null;
   description: string | null;
   external_url: string | null;
   categories: string[] | null;
@@ -101,6 +103,8 @@ export function buildInsertPayloads(
       day_of_week: row.derived_day_of_week,
       recurrence_rule: recurrenceRule,
       is_recurring: row.is_recurring,
+      custom_dates: row.custom_dates ?? null,
+      max_occurrences: row.max_occurrences ?? null,
       description: row.description,
       external_url: row.external_url,
       categories: row.parsed_categories,
@@ -10,6 +10,10 @@
 
 import { ValidatedRow } from "./eventImportValidation";
 import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  resolveVenue,
+  type VenueCatalogEntry,
+} from "@/lib/events/venueResolver";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -217,6 +221,63 @@ export async function checkDuplicates(
   return { duplicates, venueWarnings, venueResolutions };
 }
 
+/**
+ * Resolves free-text locations (iCalendar LOCATION) with the interpreter's
+ * venueResolver before dedupe. Resolved rows get venue_id set in place so
+ * checkDuplicates() keys on the real venue; rows left unresolved keep
+ * venue_name and fall through to the exact-name lookup and its warnings.
+ *
+ * Never auto-picks ambiguous matches — those get a warning listing the
+ * candidates instead.
+ */
+export async function resolveImportVenueNames(
+  rows: ValidatedRow[],
+  supabase: SupabaseClient
+): Promise<VenueWarning[]> {
+  const pending = rows.filter((r) => !r.venue_id && r.venue_name);
+  if (pending.length === 0) return [];
+
+  const { data: venues } = await supabase.from("venues").select("id, name, slug");
+  const venueCatalog: VenueCatalogEntry[] = (venues || []).map((v) => ({
+    id: v.id,
+    name: v.name,
+    slug: v.slug ?? null,
+  }));
+
+  const warnings: VenueWarning[] = [];
+  for (const row of pending) {
+    const location = row.venue_name!;
+    // LOCATION is usually "Venue Name, street, city" — try the name segment
+    // first, then the whole string.
+    const resolveName = (name: string) =>
+      resolveVenue({
+        draftVenueId: null,
+        draftVenueName: name,
+        userMessage: location,
+        venueCatalog,
+        draftLocationMode: null,
+        draftOnlineUrl: null,
+      });
+    let outcome = resolveName(location.split(",")[0]);
+    if (outcome.status === "unresolved" && location.includes(",")) {
+      outcome = resolveName(location);
+    }
+
+    if (outcome.status === "resolved") {
+      row.venue_id = outcome.venueId;
+    } else if (outcome.status === "ambiguous") {
+      warnings.push({
+        row: row.rowNumber,
+        warning: `Location "${location}" could match: ${outcome.candidates
+          .map((c) => c.name)
+          .join(", ")}`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
 /**
  * Validates that all venue_id references exist.
  * Returns list of invalid venue_ids with row numbers.
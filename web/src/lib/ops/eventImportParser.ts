@@ -29,6 +29,11 @@ export interface ImportRow {
   cost_label: string | null;
   age_policy: string | null;
   pre_verified: boolean;
+  // iCalendar import only (see eventIcsImportParser.ts)
+  custom_dates?: string[] | null;
+  max_occurrences?: number | null;
+  /** Upcoming EXDATEs of a repeating series → cancelled occurrence_overrides */
+  cancelled_dates?: string[];
 }
 
 export interface ImportParseResult {
@@ -0,0 +1,175 @@
+/**
+ * Regions
+ *
+ * Each region (Front Range, Boulder, Colorado Springs, …) has its own
+ * timezone, default map center, digest send hour and editorial. Events get
+ * their region from their venue (DB trigger); members pick a home region.
+ * Members with no home region and events with no region belong to the
+ * default region.
+ *
+ * Pure — safe for client components. Queries live in regionsServer.ts.
+ */
+
+import { MAP_DEFAULTS } from "@/lib/map";
+
+export interface Region {
+  id: number;
+  slug: string;
+  name: string;
+  /** IANA timezone, e.g. "America/Denver" */
+  timezone: string;
+  mapCenter: { lat: number; lng: number };
+  mapZoom: number;
+  /** Local hour the happenings digest goes out (at :20) */
+  digestSendHour: number;
+  isDefault: boolean;
+}
+
+export interface RegionRow {
+  id: number;
+  slug: string;
+  name: string;
+  timezone: string;
+  map_center_lat: number;
+  map_center_lng: number;
+  map_zoom: number;
+  digest_send_hour: number;
+  is_default: boolean;
+}
+
+export const REGION_SELECT =
+  "id, slug, name, timezone, map_center_lat, map_center_lng, map_zoom, digest_send_hour, is_default";
+
+/** Digest send window: the region's send hour, minutes 20–29 */
+export const REGION_DIGEST_SEND_MINUTE = 20;
+
+/**
+ * Used when the regions table is empty or unreachable, so Denver-era
+ * behavior (statewide map, 4:20 PM Denver digest) keeps working.
+ */
+export const FALLBACK_REGION: Region = {
+  id: 0,
+  slug: "colorado",
+  name: "Colorado",
+  timezone: "America/Denver",
+  mapCenter: { lat: MAP_DEFAULTS.CENTER.lat, lng: MAP_DEFAULTS.CENTER.lng },
+  mapZoom: MAP_DEFAULTS.ZOOM,
+  digestSendHour: 16,
+  isDefault: true,
+};
+
+export function toRegion(row: RegionRow): Region {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    timezone: row.timezone,
+    mapCenter: { lat: row.map_center_lat, lng: row.map_center_lng },
+    mapZoom: row.map_zoom,
+    digestSendHour: row.digest_send_hour,
+    isDefault: row.is_default,
+  };
+}
+
+export function getDefaultRegion(regions: readonly Region[]): Region {
+  return regions.find((region) => region.isDefault) ?? regions[0] ?? FALLBACK_REGION;
+}
+
+export function findRegionBySlug(
+  regions: readonly Region[],
+  slug: string | null | undefined
+): Region | null {
+  if (!slug) return null;
+  const normalized = slug.trim().toLowerCase();
+  return regions.find((region) => region.slug === normalized) ?? null;
+}
+
+/** A member's home region, falling back to the default region */
+export function resolveHomeRegion(
+  regions: readonly Region[],
+  homeRegionId: number | null | undefined
+): Region {
+  return regions.find((region) => region.id === homeRegionId) ?? getDefaultRegion(regions);
+}
+
+// ============================================================
+// Local time
+// ============================================================
+
+const dateKeyFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** YYYY-MM-DD for an instant in a timezone (en-CA formats as ISO date) */
+export function dateKeyInTimeZone(date: Date, timeZone: string): string {
+  let formatter = dateKeyFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dateKeyFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(date);
+}
+
+export function getRegionToday(region: Pick<Region, "timezone">, now: Date = new Date()): string {
+  return dateKeyInTimeZone(now, region.timezone);
+}
+
+export function getRegionLocalTime(
+  region: Pick<Region, "timezone">,
+  now: Date = new Date()
+): { hour24: number; minute: number; label: string } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: region.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).formatToParts(now);
+
+  // hour12: false renders midnight as "24" in some engines
+  const hour24 = Number(parts.find((part) => part.type === "hour")?.value ?? "0") % 24;
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? "0");
+  const label = new Intl.DateTimeFormat("en-US", {
+    timeZone: region.timezone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  }).format(now);
+
+  return { hour24, minute, label };
+}
+
+/** True during the region's digest send window (send hour, :20–:29 local) */
+export function isInRegionDigestWindow(
+  region: Pick<Region, "timezone" | "digestSendHour">,
+  now: Date = new Date()
+): boolean {
+  const { hour24, minute } = getRegionLocalTime(region, now);
+  return (
+    hour24 === region.digestSendHour &&
+    minute >= REGION_DIGEST_SEND_MINUTE &&
+    minute < REGION_DIGEST_SEND_MINUTE + 10
+  );
+}
+
+// ============================================================
+// Digest editorial
+// ============================================================
+
+/**
+ * digest_editorial.digest_type for a region's editorial. The default region
+ * uses the plain type, which also serves as every region's fallback.
+ */
+export function getRegionalDigestType(
+  digestType: string,
+  region: Pick<Region, "slug" | "isDefault"> | null | undefined
+): string {
+  if (!region || region.isDefault) return digestType;
+  return `${digestType}:${region.slug}`;
+}
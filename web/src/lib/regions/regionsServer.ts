@@ -0,0 +1,32 @@
+/**
+ * Regions — server-side reads
+ *
+ * Active regions are public (RLS), so these work with the session client,
+ * the browser client or service role.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { REGION_SELECT, toRegion, type Region } from "./regions";
+
+/**
+ * All active regions in display order. Returns [] on error so callers fall
+ * back to the default region (FALLBACK_REGION when the table is empty).
+ */
+export async function getActiveRegions(
+  supabase: SupabaseClient<Database>
+): Promise<Region[]> {
+  const { data, error } = await supabase
+    .from("regions")
+    .select(REGION_SELECT)
+    .eq("is_active", true)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("[Regions] Failed to fetch regions:", error);
+    return [];
+  }
+
+  return (data || []).map(toRegion);
+}
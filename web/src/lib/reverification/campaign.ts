@@ -0,0 +1,120 @@
+/**
+ * Reverification campaign rules
+ *
+ * Pure selection logic for the stale-listing campaign: which confirmed
+ * events are due for a reverification email, and where an event stands in
+ * the admin non-responder queue. No I/O — see ./server.ts for the cron run
+ * and answer handling.
+ */
+
+import {
+  addDaysDenver,
+  expandOccurrencesForEvent,
+  type EventForOccurrence,
+} from "@/lib/events/nextOccurrence";
+import { isVerificationStale } from "@/lib/events/verification";
+import { REVERIFICATION_CONFIG, type ReverificationStatus } from "./config";
+
+export interface ReverificationEventRow extends EventForOccurrence {
+  id: string;
+  title: string;
+  status: string | null;
+  is_published: boolean | null;
+  last_verified_at: string | null;
+}
+
+export interface ReverificationRequestRow {
+  id: string;
+  event_id: string;
+  status: ReverificationStatus | string;
+  verified_at_send: string | null;
+  sent_at: string;
+  expires_at: string;
+}
+
+/**
+ * Where an event stands in the admin queue:
+ * - pending: asked, waiting on an answer
+ * - no_response: the request expired unanswered (the event is unconfirmed
+ *   again until someone re-verifies it)
+ * - unreachable: nobody with an email to ask
+ */
+export type ReverificationQueueState = "pending" | "no_response" | "unreachable";
+
+function sameInstant(a: string | null, b: string | null): boolean {
+  if (!a || !b) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * A request covers the event's current confirmation when it was sent for
+ * that same last_verified_at. Any newer verification supersedes it.
+ */
+export function requestCoversCurrentVerification(
+  event: Pick<ReverificationEventRow, "last_verified_at">,
+  request: Pick<ReverificationRequestRow, "verified_at_send">
+): boolean {
+  return sameInstant(event.last_verified_at, request.verified_at_send);
+}
+
+/**
+ * Events due for a reverification email: published, not cancelled,
+ * confirmed longer ago than the stale window, still producing dates in the
+ * upcoming window, and not already asked about this confirmation.
+ *
+ * `latestRequests` maps event id to that event's most recent request.
+ */
+export function selectEventsDueForReverification<T extends ReverificationEventRow>(
+  events: T[],
+  latestRequests: Map<string, ReverificationRequestRow>,
+  options: { today: string; now: Date }
+): T[] {
+  const windowEnd = addDaysDenver(options.today, REVERIFICATION_CONFIG.UPCOMING_WINDOW_DAYS);
+
+  return events.filter((event) => {
+    if (!event.is_published || event.status === "cancelled" || event.status === "draft") return false;
+    if (!isVerificationStale(event, options.now)) return false;
+
+    const latest = latestRequests.get(event.id);
+    if (latest && (latest.status === "pending" || requestCoversCurrentVerification(event, latest))) {
+      return false;
+    }
+
+    const upcoming = expandOccurrencesForEvent(event, {
+      startKey: options.today,
+      endKey: windowEnd,
+      maxOccurrences: 1,
+    });
+    return upcoming.length > 0;
+  });
+}
+
+/**
+ * Queue state for an event given its most recent request, or null when the
+ * event isn't waiting on reverification (never asked, answered, or
+ * re-verified since).
+ */
+export function getReverificationQueueState(
+  event: Pick<ReverificationEventRow, "status" | "last_verified_at">,
+  latest: ReverificationRequestRow | null | undefined,
+  now: Date = new Date()
+): ReverificationQueueState | null {
+  if (!latest || event.status === "cancelled") return null;
+  // The cron un-confirms an event when its request expires unanswered
+  if (latest.status === "expired" && !event.last_verified_at) return "no_response";
+  if (!requestCoversCurrentVerification(event, latest)) return null;
+
+  if (latest.status === "unreachable") return "unreachable";
+  if (latest.status === "expired") return "no_response";
+  if (latest.status === "pending") {
+    return new Date(latest.expires_at).getTime() < now.getTime() ? "no_response" : "pending";
+  }
+  return null;
+}
+
+/**
+ * When a request sent at `now` stops accepting answers
+ */
+export function reverificationExpiresAt(now: Date): Date {
+  return new Date(now.getTime() + REVERIFICATION_CONFIG.RESPONSE_DAYS * 24 * 60 * 60 * 1000);
+}
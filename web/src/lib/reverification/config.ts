@@ -0,0 +1,33 @@
+/**
+ * Reverification Configuration
+ *
+ * Constants and answer types for the stale-listing reverification
+ * campaign. The stale window itself lives in lib/events/verification.ts
+ * (VERIFICATION_STALE_AFTER_WEEKS).
+ */
+
+export const REVERIFICATION_ANSWERS = ["still_happening", "changed", "ended"] as const;
+
+export type ReverificationAnswer = (typeof REVERIFICATION_ANSWERS)[number];
+
+export type ReverificationStatus = "pending" | "responded" | "expired" | "unreachable";
+
+export type ReverificationRecipientRole = "host" | "venue_manager";
+
+export function isReverificationAnswer(value: unknown): value is ReverificationAnswer {
+  return typeof value === "string" && (REVERIFICATION_ANSWERS as readonly string[]).includes(value);
+}
+
+export const REVERIFICATION_CONFIG = {
+  // Days a request (and its links) stays open before it counts as no response
+  RESPONSE_DAYS: 21,
+
+  // Emails sent per cron run; the rest go out on the next run
+  MAX_REQUESTS_PER_RUN: 40,
+
+  // Only ask about events that still have a date in this window
+  UPCOMING_WINDOW_DAYS: 90,
+
+  // "Changed" answers are free text for admin review
+  MAX_NOTES_LENGTH: 1000,
+} as const;
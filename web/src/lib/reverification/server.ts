@@ -0,0 +1,482 @@
+/**
+ * Reverification campaign — server-side run
+ *
+ * runReverificationCampaign() expires unanswered requests — an event whose
+ * request lapses drops back to unconfirmed — picks stale confirmed events
+ * (see ./campaign.ts), and emails each one's host — or an active venue
+ * manager when the event has no host — three signed answer links. Called
+ * by /api/cron/reverification with the service-role client.
+ *
+ * lookupReverificationRequest() / applyReverificationAnswer() back the
+ * /reverify page and /api/reverify route that receive the answers.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { sendEmail, ADMIN_EMAIL } from "@/lib/email/mailer";
+import { sendEmailWithPreferences } from "@/lib/email/sendWithPreferences";
+import { getAdminSuggestionNotificationEmail } from "@/lib/email/templates/adminSuggestionNotification";
+import { logEventAudit, snapshotFromEventRow } from "@/lib/audit/eventAudit";
+import { getReverificationRequestEmail } from "@/lib/email/templates/reverificationRequest";
+import { getTodayDenver } from "@/lib/events/nextOccurrence";
+import { interpretRecurrence, labelFromRecurrence } from "@/lib/events/recurrenceContract";
+import { VERIFICATION_STALE_AFTER_WEEKS } from "@/lib/events/verification";
+import { formatTimeToAMPM } from "@/lib/recurrenceHumanizer";
+import { getSiteUrl } from "@/lib/siteUrl";
+import {
+  reverificationExpiresAt,
+  selectEventsDueForReverification,
+  type ReverificationEventRow,
+  type ReverificationRequestRow,
+} from "./campaign";
+import {
+  REVERIFICATION_ANSWERS,
+  REVERIFICATION_CONFIG,
+  type ReverificationAnswer,
+  type ReverificationRecipientRole,
+} from "./config";
+import {
+  createReverificationToken,
+  verifyReverificationToken,
+  type ReverificationTokenPayload,
+} from "./tokens";
+
+type ServiceClient = SupabaseClient<Database>;
+
+const EVENT_COLUMNS =
+  "id, title, slug, status, is_published, host_id, venue_id, venue_name, last_verified_at, event_date, day_of_week, recurrence_rule, start_time, max_occurrences, custom_dates";
+
+const QUERY_CHUNK_SIZE = 500;
+
+type CampaignEvent = ReverificationEventRow & {
+  slug: string | null;
+  host_id: string | null;
+  venue_id: string | null;
+  venue_name: string | null;
+};
+
+interface Recipient {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: ReverificationRecipientRole;
+}
+
+export interface ReverificationRunResult {
+  expired: number;
+  /** Events un-confirmed because their expired request went unanswered */
+  lapsed: number;
+  sent: number;
+  unreachable: number;
+  /** Due but left for the next run (per-run cap) */
+  deferred: number;
+}
+
+/**
+ * Most recent request per event id
+ */
+export async function loadLatestReverificationRequests(
+  client: ServiceClient,
+  eventIds: string[]
+): Promise<Map<string, ReverificationRequestRow>> {
+  const latest = new Map<string, ReverificationRequestRow>();
+  for (let i = 0; i < eventIds.length; i += QUERY_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from("reverification_requests")
+      .select("id, event_id, status, verified_at_send, sent_at, expires_at")
+      .in("event_id", eventIds.slice(i, i + QUERY_CHUNK_SIZE))
+      .order("sent_at", { ascending: false });
+    if (error) throw error;
+    for (const row of data ?? []) {
+      if (!latest.has(row.event_id)) latest.set(row.event_id, row);
+    }
+  }
+  return latest;
+}
+
+/**
+ * The host, else the venue's longest-standing active manager.
+ */
+async function resolveRecipient(client: ServiceClient, event: CampaignEvent): Promise<Recipient | null> {
+  let userId: string | null = null;
+  let role: ReverificationRecipientRole = "host";
+
+  if (event.host_id) {
+    userId = event.host_id;
+  } else if (event.venue_id) {
+    const { data: managers } = await client
+      .from("venue_managers")
+      .select("user_id")
+      .eq("venue_id", event.venue_id)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: true })
+      .limit(1);
+    userId = managers?.[0]?.user_id ?? null;
+    role = "venue_manager";
+  }
+  if (!userId) return null;
+
+  const { data: profile } = await client
+    .from("profiles")
+    .select("email, full_name")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!profile?.email) return null;
+
+  return { userId, email: profile.email, name: profile.full_name, role };
+}
+
+function scheduleLabel(event: CampaignEvent): string | null {
+  const recurrence = interpretRecurrence(event);
+  const base = recurrence.isRecurring ? labelFromRecurrence(recurrence) : null;
+  const time = event.start_time ? formatTimeToAMPM(event.start_time) : null;
+  if (base && time) return `${base} at ${time}`;
+  return base ?? time;
+}
+
+async function sendRequest(
+  client: ServiceClient,
+  event: CampaignEvent,
+  recipient: Recipient,
+  now: Date
+): Promise<"sent" | "unreachable" | "skipped"> {
+  const expiresAt = reverificationExpiresAt(now);
+
+  const { data: request, error } = await client
+    .from("reverification_requests")
+    .insert({
+      event_id: event.id,
+      recipient_user_id: recipient.userId,
+      recipient_email: recipient.email,
+      recipient_role: recipient.role,
+      status: "pending",
+      verified_at_send: event.last_verified_at,
+      sent_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    })
+    .select("id")
+    .single();
+
+  // Unique pending index: an overlapping run already asked
+  if (error || !request) return "skipped";
+
+  const baseUrl = getSiteUrl();
+  const urls = {} as Record<ReverificationAnswer, string>;
+  for (const answer of REVERIFICATION_ANSWERS) {
+    const token = await createReverificationToken(
+      { request_id: request.id, event_id: event.id, email: recipient.email, answer },
+      expiresAt
+    );
+    urls[answer] = `${baseUrl}/reverify?token=${token}&answer=${answer}`;
+  }
+
+  const email = getReverificationRequestEmail({
+    recipientName: recipient.name,
+    recipientRole: recipient.role,
+    eventTitle: event.title,
+    scheduleLabel: scheduleLabel(event),
+    venueName: event.venue_name,
+    eventUrl: `${baseUrl}/events/${event.slug || event.id}`,
+    stillHappeningUrl: urls.still_happening,
+    changedUrl: urls.changed,
+    endedUrl: urls.ended,
+    respondByDate: expiresAt.toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      timeZone: "America/Denver",
+    }),
+  });
+
+  const result = await sendEmailWithPreferences({
+    supabase: client,
+    userId: recipient.userId,
+    templateKey: "reverificationRequest",
+    payload: {
+      to: recipient.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      templateName: "reverificationRequest",
+    },
+  });
+
+  if (!result.emailSent) {
+    // Opted out or send failed: nobody will answer this one
+    await client
+      .from("reverification_requests")
+      .update({ status: "unreachable" })
+      .eq("id", request.id);
+    return "unreachable";
+  }
+  return "sent";
+}
+
+/**
+ * Cron run: expire overdue requests, then ask about up to
+ * MAX_REQUESTS_PER_RUN stale events.
+ */
+export async function runReverificationCampaign(
+  client: ServiceClient,
+  now: Date = new Date()
+): Promise<ReverificationRunResult> {
+  const result: ReverificationRunResult = { expired: 0, lapsed: 0, sent: 0, unreachable: 0, deferred: 0 };
+
+  const { data: expired, error: expireError } = await client
+    .from("reverification_requests")
+    .update({ status: "expired" })
+    .eq("status", "pending")
+    .lt("expires_at", now.toISOString())
+    .select("id, event_id, verified_at_send");
+  if (expireError) throw expireError;
+  result.expired = expired?.length ?? 0;
+
+  // Nobody vouched for the listing: stop showing it as confirmed. Only
+  // clears the confirmation the request asked about, never a newer one.
+  for (const request of expired ?? []) {
+    if (!request.verified_at_send) continue;
+    const { data: lapsed } = await client
+      .from("events")
+      .update({ last_verified_at: null, verified_by: null })
+      .eq("id", request.event_id)
+      .eq("last_verified_at", request.verified_at_send)
+      .select("id");
+    result.lapsed += lapsed?.length ?? 0;
+  }
+
+  const staleBefore = new Date(now.getTime() - VERIFICATION_STALE_AFTER_WEEKS * 7 * 24 * 60 * 60 * 1000);
+  const { data: events, error: eventsError } = await client
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("is_published", true)
+    .neq("status", "cancelled")
+    .not("last_verified_at", "is", null)
+    .lt("last_verified_at", staleBefore.toISOString())
+    .order("last_verified_at", { ascending: true });
+  if (eventsError) throw eventsError;
+
+  const candidates = (events ?? []) as CampaignEvent[];
+  const latest = await loadLatestReverificationRequests(
+    client,
+    candidates.map((event) => event.id)
+  );
+  const due = selectEventsDueForReverification(candidates, latest, { today: getTodayDenver(), now });
+
+  const batch = due.slice(0, REVERIFICATION_CONFIG.MAX_REQUESTS_PER_RUN);
+  result.deferred = due.length - batch.length;
+
+  for (const event of batch) {
+    const recipient = await resolveRecipient(client, event);
+
+    if (!recipient) {
+      await client.from("reverification_requests").insert({
+        event_id: event.id,
+        status: "unreachable",
+        verified_at_send: event.last_verified_at,
+        sent_at: now.toISOString(),
+        expires_at: now.toISOString(),
+      });
+      result.unreachable++;
+      continue;
+    }
+
+    const outcome = await sendRequest(client, event, recipient, now);
+    if (outcome === "sent") result.sent++;
+    else if (outcome === "unreachable") result.unreachable++;
+  }
+
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Answers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ANSWER_EVENT_COLUMNS = "id, title, slug, status, last_verified_at, verified_by, event_date, venue_name";
+
+export interface ReverificationContext {
+  payload: ReverificationTokenPayload;
+  request: {
+    id: string;
+    event_id: string;
+    recipient_user_id: string | null;
+    recipient_email: string | null;
+    recipient_role: string | null;
+  };
+  event: {
+    id: string;
+    title: string;
+    slug: string | null;
+    status: string | null;
+    last_verified_at: string | null;
+    verified_by: string | null;
+    event_date: string | null;
+    venue_name: string | null;
+  };
+}
+
+export type ReverificationLookup =
+  | { ok: true; context: ReverificationContext }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Resolve a link token to its open request and event. The token must be
+ * valid, match the request's event and recipient, and the request must
+ * still be pending.
+ */
+export async function lookupReverificationRequest(
+  client: ServiceClient,
+  token: string,
+  now: Date = new Date()
+): Promise<ReverificationLookup> {
+  const payload = await verifyReverificationToken(token);
+  if (!payload) {
+    return { ok: false, error: "This link is invalid or has expired.", status: 400 };
+  }
+
+  const { data: request } = await client
+    .from("reverification_requests")
+    .select("id, event_id, recipient_user_id, recipient_email, recipient_role, status, expires_at, response")
+    .eq("id", payload.request_id)
+    .maybeSingle();
+
+  if (!request) {
+    return { ok: false, error: "Request not found.", status: 404 };
+  }
+  if (request.event_id !== payload.event_id || request.recipient_email !== payload.email) {
+    return { ok: false, error: "This link does not match the request.", status: 403 };
+  }
+  if (request.status === "responded") {
+    return { ok: false, error: "Thanks — this listing has already been answered.", status: 409 };
+  }
+  if (request.status !== "pending" || new Date(request.expires_at).getTime() < now.getTime()) {
+    return { ok: false, error: "This link has expired.", status: 400 };
+  }
+
+  const { data: event } = await client
+    .from("events")
+    .select(ANSWER_EVENT_COLUMNS)
+    .eq("id", request.event_id)
+    .maybeSingle();
+
+  if (!event) {
+    return { ok: false, error: "Happening not found.", status: 404 };
+  }
+
+  return { ok: true, context: { payload, request, event } };
+}
+
+/**
+ * Record the answer and apply it:
+ * - still_happening: refresh last_verified_at
+ * - changed: open an event_update_suggestions row for admin review
+ * - ended: cancel the series
+ *
+ * The request is claimed (pending → responded) first so a link can only
+ * be used once even if clicked twice.
+ */
+export async function applyReverificationAnswer(
+  client: ServiceClient,
+  context: ReverificationContext,
+  options: { notes?: string | null; now?: Date } = {}
+): Promise<{ ok: true } | { ok: false; error: string; status: number }> {
+  const { payload, request, event } = context;
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const notes = options.notes?.trim().slice(0, REVERIFICATION_CONFIG.MAX_NOTES_LENGTH) || null;
+
+  const { data: claimed } = await client
+    .from("reverification_requests")
+    .update({ status: "responded", responded_at: nowIso, response: payload.answer, response_notes: notes })
+    .eq("id", request.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, error: "Thanks — this listing has already been answered.", status: 409 };
+  }
+
+  const actorRole = request.recipient_role === "host" ? "host" : "unknown";
+
+  if (payload.answer === "still_happening") {
+    const { error } = await client
+      .from("events")
+      .update({ last_verified_at: nowIso, verified_by: request.recipient_user_id })
+      .eq("id", event.id);
+    if (error) throw error;
+
+    void logEventAudit({
+      eventId: event.id,
+      eventSnapshot: snapshotFromEventRow(event.id, event),
+      actorId: request.recipient_user_id,
+      actorRole,
+      action: "update",
+      source: "api",
+      prevEvent: event,
+      nextEvent: { ...event, last_verified_at: nowIso, verified_by: request.recipient_user_id },
+      summary: "Re-confirmed via reverification email",
+    }).catch(() => {});
+    return { ok: true };
+  }
+
+  if (payload.answer === "changed") {
+    const newValue = notes ?? "No details given";
+    const { error } = await client.from("event_update_suggestions").insert({
+      event_id: event.id,
+      field: "_reverification",
+      old_value: null,
+      new_value: newValue,
+      notes: `[REVERIFICATION: ${request.recipient_role ?? "recipient"} reports a change]`,
+      submitter_email: request.recipient_email,
+      status: "pending",
+    });
+    if (error) throw error;
+
+    try {
+      const emailContent = getAdminSuggestionNotificationEmail({
+        submitterName: null,
+        submitterEmail: request.recipient_email,
+        eventTitle: event.title,
+        eventId: event.id,
+        eventSlug: event.slug,
+        field: "_reverification",
+        oldValue: null,
+        newValue,
+        notes: "Reverification answer: something changed",
+      });
+      await sendEmail({
+        to: ADMIN_EMAIL,
+        subject: emailContent.subject,
+        html: emailContent.html,
+        text: emailContent.text,
+        templateName: "adminSuggestionNotification",
+      });
+    } catch (emailError) {
+      console.error("Failed to send admin reverification notification:", emailError);
+    }
+    return { ok: true };
+  }
+
+  // ended
+  if (event.status !== "cancelled") {
+    const cancelReason = notes ? `Ended (reverification): ${notes}` : "Ended (reverification)";
+    const { error } = await client
+      .from("events")
+      .update({ status: "cancelled", cancelled_at: nowIso, cancel_reason: cancelReason.slice(0, 500) })
+      .eq("id", event.id);
+    if (error) throw error;
+
+    void logEventAudit({
+      eventId: event.id,
+      eventSnapshot: snapshotFromEventRow(event.id, event),
+      actorId: request.recipient_user_id,
+      actorRole,
+      action: "cancel",
+      source: "api",
+      prevEvent: event,
+      nextEvent: { ...event, status: "cancelled" },
+      summary: "Reported ended via reverification email",
+    }).catch(() => {});
+  }
+  return { ok: true };
+}
@@ -0,0 +1,67 @@
+/**
+ * Reverification action tokens
+ *
+ * Signed JWTs for the one-click links in reverification emails. Same secret
+ * as guest action tokens, with a separate audience so neither kind of token
+ * is accepted by the other route. Single use is enforced by the request
+ * row's status, not the token.
+ */
+
+import { SignJWT, jwtVerify } from "jose";
+import { getTokenSecret } from "@/lib/guest-verification/crypto";
+import { isReverificationAnswer, type ReverificationAnswer } from "./config";
+
+const TOKEN_AUDIENCE = "reverification";
+
+export interface ReverificationTokenPayload {
+  request_id: string;
+  event_id: string;
+  email: string;
+  answer: ReverificationAnswer;
+  [key: string]: unknown; // Index signature for JWTPayload compatibility
+}
+
+/**
+ * Create a signed token for one answer on one request
+ */
+export async function createReverificationToken(
+  payload: ReverificationTokenPayload,
+  expiresAt: Date
+): Promise<string> {
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: "HS256" })
+    .setAudience(TOKEN_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getTokenSecret());
+}
+
+/**
+ * Verify and decode a reverification token
+ * Returns null if invalid, expired, or not a reverification token
+ */
+export async function verifyReverificationToken(
+  token: string
+): Promise<ReverificationTokenPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getTokenSecret(), { audience: TOKEN_AUDIENCE });
+
+    if (
+      typeof payload.request_id !== "string" ||
+      typeof payload.event_id !== "string" ||
+      typeof payload.email !== "string" ||
+      !isReverificationAnswer(payload.answer)
+    ) {
+      return null;
+    }
+
+    return {
+      request_id: payload.request_id,
+      event_id: payload.event_id,
+      email: payload.email,
+      answer: payload.answer,
+    };
+  } catch {
+    return null;
+  }
+}
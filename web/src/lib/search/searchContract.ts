@@ -0,0 +1,205 @@
+/**
+ * Site Search Contract
+ *
+ * Client-safe types, labels and URL parsing shared by /api/search, the
+ * /search results page and the header dropdown (GlobalSearch).
+ *
+ * The index itself is public.search_documents (see migration
+ * 20260508010000_search_index.sql); queries go through runSearch in
+ * searchServer.ts.
+ */
+
+import {
+  FILTER_COST_VALUES,
+  FILTER_DAY_VALUES,
+  type SavedCostFilter,
+  type SavedDayFilter,
+} from "@/lib/happenings/savedFilters";
+import { normalizeCity, normalizeRadiusMiles, normalizeZip } from "@/lib/happenings/locationFilter";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Order here is the order of the type facet. */
+export const SEARCH_RESULT_TYPES = [
+  "open_mic",
+  "event",
+  "venue",
+  "member",
+  "organization",
+  "blog",
+  "gallery",
+] as const;
+
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  image?: string;
+  /** Next occurrence (YYYY-MM-DD, Denver) for events with a confident schedule */
+  nextDate?: string;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  type: SearchFacetValue[];
+  day: SearchFacetValue[];
+  city: SearchFacetValue[];
+  cost: SearchFacetValue[];
+}
+
+export interface SearchFilters {
+  q: string;
+  types: SearchResultType[];
+  days: SavedDayFilter[];
+  city?: string;
+  cost?: SavedCostFilter;
+  /** Distance filter: venues within radius miles of this ZIP */
+  zip?: string;
+  radius: number;
+  page: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  facets: SearchFacets | null;
+  /** Set when the distance filter matched no venues */
+  locationEmptyReason: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SEARCH_MIN_QUERY_LENGTH = 2;
+export const SEARCH_MAX_QUERY_LENGTH = 100;
+export const SEARCH_PAGE_SIZE = 20;
+export const SEARCH_DROPDOWN_LIMIT = 15;
+
+export const SEARCH_TYPE_LABELS: Record<SearchResultType, string> = {
+  open_mic: "Open Mic",
+  event: "Event",
+  venue: "Venue",
+  member: "Member",
+  organization: "Organization",
+  blog: "Blog",
+  gallery: "Gallery",
+};
+
+export const SEARCH_DAY_LABELS: Record<SavedDayFilter, string> = {
+  mon: "Monday",
+  tue: "Tuesday",
+  wed: "Wednesday",
+  thu: "Thursday",
+  fri: "Friday",
+  sat: "Saturday",
+  sun: "Sunday",
+};
+
+export const SEARCH_COST_LABELS: Record<SavedCostFilter, string> = {
+  free: "Free",
+  paid: "Paid",
+  unknown: "Cost not listed",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// URL params
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ParamSource = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(params: ParamSource, key: string): string | undefined {
+  if (params instanceof URLSearchParams) {
+    return params.get(key) ?? undefined;
+  }
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readList(params: ParamSource, key: string): string[] {
+  const raw = readParam(params, key);
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parse search filters from a URL. Unknown values are dropped rather than
+ * rejected so hand-edited or stale links still return results.
+ *
+ * - q: query text (trimmed, max 100 chars)
+ * - type: comma-separated result types (open_mic,venue,...)
+ * - days: comma-separated day keys (mon..sun)
+ * - city: exact city facet
+ * - cost: free|paid|unknown
+ * - zip + radius: distance filter (radius 5|10|15|25|50, default 10)
+ * - page: 1-based
+ */
+export function parseSearchParams(params: ParamSource): SearchFilters {
+  const q = (readParam(params, "q") ?? "").trim().slice(0, SEARCH_MAX_QUERY_LENGTH);
+
+  const types = readList(params, "type").filter((t): t is SearchResultType =>
+    (SEARCH_RESULT_TYPES as readonly string[]).includes(t)
+  );
+  const days = readList(params, "days").filter((d): d is SavedDayFilter =>
+    (FILTER_DAY_VALUES as readonly string[]).includes(d)
+  );
+  const costRaw = readParam(params, "cost");
+  const cost = (FILTER_COST_VALUES as readonly string[]).includes(costRaw ?? "")
+    ? (costRaw as SavedCostFilter)
+    : undefined;
+
+  const pageRaw = parseInt(readParam(params, "page") ?? "1", 10);
+
+  return {
+    q,
+    types: Array.from(new Set(types)),
+    days: Array.from(new Set(days)),
+    city: normalizeCity(readParam(params, "city")),
+    cost,
+    zip: normalizeZip(readParam(params, "zip")),
+    radius: normalizeRadiusMiles(readParam(params, "radius")),
+    page: Number.isFinite(pageRaw) && pageRaw > 0 ? pageRaw : 1,
+  };
+}
+
+/**
+ * Build a /search URL from filters. Overrides replace individual fields;
+ * changing any filter resets to page 1 unless a page is given.
+ */
+export function buildSearchHref(
+  filters: SearchFilters,
+  overrides: Partial<SearchFilters> = {}
+): string {
+  const next: SearchFilters = { ...filters, page: 1, ...overrides };
+  const params = new URLSearchParams();
+  if (next.q) params.set("q", next.q);
+  if (next.types.length > 0) params.set("type", next.types.join(","));
+  if (next.days.length > 0) params.set("days", next.days.join(","));
+  if (next.city) params.set("city", next.city);
+  if (next.cost) params.set("cost", next.cost);
+  if (next.zip) {
+    params.set("zip", next.zip);
+    params.set("radius", String(next.radius));
+  }
+  if (next.page > 1) params.set("page", String(next.page));
+  const query = params.toString();
+  return query ? `/search?${query}` : "/search";
+}
+
+/** Add or remove a value from a multi-select facet. */
+export function toggleFacetValue<T extends string>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
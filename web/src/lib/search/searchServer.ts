@@ -0,0 +1,165 @@
+/**
+ * Site Search (server)
+ *
+ * Runs a query against public.search_documents through the
+ * search_documents_query / search_documents_facets RPCs and shapes the rows
+ * for the API and the results page.
+ *
+ * The distance filter reuses the happenings location filter: the ZIP and
+ * radius resolve to venue ids, and only venue-bound results (events, venues,
+ * gallery albums) can match.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { getLocationFilteredVenues } from "@/lib/happenings/locationFilter";
+import { FILTER_COST_VALUES, FILTER_DAY_VALUES } from "@/lib/happenings/savedFilters";
+import {
+  computeNextOccurrence,
+  formatDateGroupHeader,
+  getTodayDenver,
+  type EventForOccurrence,
+} from "@/lib/events/nextOccurrence";
+import { formatTimeToAMPM } from "@/lib/recurrenceHumanizer";
+import {
+  SEARCH_MIN_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  type SearchFacetValue,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchResponse,
+  type SearchResult,
+  type SearchResultType,
+} from "./searchContract";
+
+type SearchRow = Database["public"]["Functions"]["search_documents_query"]["Returns"][number];
+type FacetRow = Database["public"]["Functions"]["search_documents_facets"]["Returns"][number];
+
+const EMPTY_RESPONSE: SearchResponse = {
+  results: [],
+  total: 0,
+  facets: null,
+  locationEmptyReason: null,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Shape one index row as a SearchResult. Events get their next occurrence
+ * ("Thu, Oct 23 • 7 PM") in front of the venue subtitle; the index only
+ * stores timing fields because the next date changes daily.
+ */
+export function formatSearchRow(row: SearchRow, todayKey: string): SearchResult {
+  const result: SearchResult = {
+    type: row.result_type as SearchResultType,
+    id: row.entity_id,
+    title: row.title,
+    subtitle: row.subtitle ?? undefined,
+    url: row.url,
+    image: row.image_url ?? undefined,
+  };
+
+  if (row.entity_type !== "event" || !row.occurrence) {
+    return result;
+  }
+
+  const timing = row.occurrence as EventForOccurrence;
+  const next = computeNextOccurrence(timing, { todayKey });
+  if (!next.isConfident || next.date < todayKey) {
+    return result;
+  }
+
+  const when = [formatDateGroupHeader(next.date, todayKey), timing.start_time ? formatTimeToAMPM(timing.start_time) : null]
+    .filter(Boolean)
+    .join(" • ");
+
+  return {
+    ...result,
+    nextDate: next.date,
+    subtitle: row.subtitle ? `${when} • ${row.subtitle}` : when,
+  };
+}
+
+function sortFacet(values: SearchFacetValue[], order: readonly string[]): SearchFacetValue[] {
+  return [...values].sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value));
+}
+
+export function groupFacetRows(rows: FacetRow[]): SearchFacets {
+  const facets: SearchFacets = { type: [], day: [], city: [], cost: [] };
+  for (const row of rows) {
+    const bucket = facets[row.facet as keyof SearchFacets];
+    if (bucket && row.value) {
+      bucket.push({ value: row.value, count: Number(row.count) });
+    }
+  }
+  return {
+    type: sortFacet(facets.type, SEARCH_RESULT_TYPES),
+    day: sortFacet(facets.day, FILTER_DAY_VALUES),
+    city: [...facets.city].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    cost: sortFacet(facets.cost, FILTER_COST_VALUES),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Query
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function runSearch(
+  supabase: SupabaseClient<Database>,
+  filters: SearchFilters,
+  options: { limit: number; offset: number; withFacets?: boolean; todayKey?: string }
+): Promise<SearchResponse> {
+  if (filters.q.length < SEARCH_MIN_QUERY_LENGTH) {
+    return EMPTY_RESPONSE;
+  }
+
+  let venueIds: string[] | undefined;
+  if (filters.zip) {
+    const location = await getLocationFilteredVenues(supabase as SupabaseClient, {
+      zip: filters.zip,
+      radiusMiles: filters.radius,
+    });
+    if (location.includedVenueIds.length === 0) {
+      return { ...EMPTY_RESPONSE, locationEmptyReason: location.emptyReason ?? "no_venues" };
+    }
+    venueIds = location.includedVenueIds;
+  }
+
+  const args = {
+    p_query: filters.q,
+    p_types: filters.types.length > 0 ? filters.types : undefined,
+    p_days: filters.days.length > 0 ? filters.days : undefined,
+    p_city: filters.city,
+    p_cost: filters.cost,
+    p_venue_ids: venueIds,
+  };
+
+  const [queryRes, facetRes] = await Promise.all([
+    supabase.rpc("search_documents_query", {
+      ...args,
+      p_limit: options.limit,
+      p_offset: options.offset,
+    }),
+    options.withFacets ? supabase.rpc("search_documents_facets", args) : Promise.resolve(null),
+  ]);
+
+  if (queryRes.error) {
+    console.error("Search query failed:", queryRes.error);
+    return EMPTY_RESPONSE;
+  }
+  if (facetRes?.error) {
+    console.error("Search facets failed:", facetRes.error);
+  }
+
+  const rows = queryRes.data ?? [];
+  const todayKey = options.todayKey ?? getTodayDenver();
+
+  return {
+    results: rows.map((row) => formatSearchRow(row, todayKey)),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    facets: facetRes?.data ? groupFacetRows(facetRes.data) : null,
+    locationEmptyReason: null,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Source Watch Configuration
+ *
+ * Constants and status types for watching an event's source page (usually
+ * its external_url) for schedule changes. See ./server.ts for the run and
+ * ./diff.ts for how page changes become proposals.
+ */
+
+export const SOURCE_WATCH_STATUSES = ["ok", "no_schedule", "fetch_failed", "event_inactive", "paused"] as const;
+
+export type SourceWatchStatus = (typeof SOURCE_WATCH_STATUSES)[number];
+
+/**
+ * Lifecycle of a detected change:
+ * - suggested: shadow-tier field, handed to the event_update_suggestions queue
+ * - pending: enforced (high-risk) field, waiting for a host or admin
+ * - confirmed / dismissed: resolved by a host or admin
+ * - superseded: the page changed again before anyone answered
+ */
+export const SOURCE_WATCH_CHANGE_STATUSES = ["suggested", "pending", "confirmed", "dismissed", "superseded"] as const;
+
+export type SourceWatchChangeStatus = (typeof SOURCE_WATCH_CHANGE_STATUSES)[number];
+
+export const SOURCE_WATCH_CHANGE_ACTIONS = ["confirm", "dismiss"] as const;
+
+export type SourceWatchChangeAction = (typeof SOURCE_WATCH_CHANGE_ACTIONS)[number];
+
+export function isSourceWatchChangeAction(value: unknown): value is SourceWatchChangeAction {
+  return typeof value === "string" && (SOURCE_WATCH_CHANGE_ACTIONS as readonly string[]).includes(value);
+}
+
+export const SOURCE_WATCH_CONFIG = {
+  // Watches checked per cron run; the rest wait for the next run
+  MAX_WATCHES_PER_RUN: 25,
+
+  // Default gap between checks of one watch
+  DEFAULT_INTERVAL_HOURS: 24,
+
+  // Failed checks back off (interval × 2^failures) up to this many hours
+  MAX_BACKOFF_HOURS: 7 * 24,
+
+  // Consecutive failures before the watch pauses itself
+  MAX_CONSECUTIVE_FAILURES: 5,
+
+  // Only compare dates from today through this many days out
+  WINDOW_DAYS: 90,
+
+  // Page text handed to the schedule parser
+  MAX_PAGE_TEXT_LENGTH: 50_000,
+
+  // Identifies the watcher in server logs and robots.txt groups
+  USER_AGENT: "CSC-SourceWatch/1.0 (+https://coloradosongwriterscollective.org)",
+
+  // Shown as the submitter on suggestions the watcher opens
+  SUGGESTION_SUBMITTER_NAME: "Source watch",
+} as const;
@@ -0,0 +1,235 @@
+/**
+ * Source watch — schedule diff
+ *
+ * diffSourceSchedule() compares what the schedule parser read off a source
+ * page (a ConciergeIR) with our event, its expanded occurrences, and their
+ * overrides, and returns one proposal per changed field. Pure: no I/O.
+ *
+ * Every proposal is classified through computePatchDiff() so risk tier and
+ * enforcement come from PATCH_FIELD_REGISTRY, never from this module:
+ * - enforced fields (times, dates, cancellations) need confirmation
+ * - shadow fields (cost, age policy) are proposed as update suggestions
+ *
+ * What is compared:
+ * - series: shared start/end time, cost_label, age_policy
+ * - per date (recurring events): explicit start/end times, cancellations
+ *   in both directions
+ * - dates the page lists that we don't have: added to custom_dates for
+ *   custom series, moved via event_date for one-time events, otherwise
+ *   reported as unmatched
+ *
+ * Fields the page doesn't mention are never proposed as cleared.
+ */
+
+import type { ConciergeIR, ConciergeOccurrence } from "@/lib/events/conciergeIR";
+import { computePatchDiff, type EventPatch, type EventState, type FieldChange } from "@/lib/events/computePatchDiff";
+import {
+  addDaysDenver,
+  applyOccurrenceOverride,
+  expandOccurrencesForEvent,
+  type OccurrenceOverride,
+} from "@/lib/events/nextOccurrence";
+import type { EnforcementMode, PatchFieldName, RiskTier } from "@/lib/events/patchFieldRegistry";
+import { interpretRecurrence } from "@/lib/events/recurrenceContract";
+import { SOURCE_WATCH_CONFIG } from "./config";
+
+export interface SourceWatchEventRow {
+  id: string;
+  event_date: string | null;
+  day_of_week: string | null;
+  recurrence_rule: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  max_occurrences: number | null;
+  custom_dates: string[] | null;
+  cost_label: string | null;
+  age_policy: string | null;
+}
+
+export interface SourceWatchProposal {
+  /** null for series-level changes */
+  date_key: string | null;
+  field: PatchFieldName;
+  old_value: string | null;
+  new_value: string;
+  risk_tier: RiskTier;
+  enforcement_mode: EnforcementMode;
+  /** Stable identity of this exact change, so reruns don't re-propose it */
+  change_key: string;
+}
+
+export interface SourceScheduleDiff {
+  /** False when the page had no dates, times, or shared facts to compare */
+  hasSchedule: boolean;
+  proposals: SourceWatchProposal[];
+  /** Listed on the page within the window but not an occurrence of ours */
+  unmatchedDates: string[];
+}
+
+/** "19:00:00" / "19:00" → "19:00"; anything else → null */
+export function normalizeTime(value: string | null | undefined): string | null {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+  return `${match[1].padStart(2, "0")}:${match[2]}`;
+}
+
+export function sourceWatchChangeKey(dateKey: string | null, field: string, newValue: string): string {
+  return `${dateKey ?? "series"}:${field}:${newValue}`;
+}
+
+function valueToText(change: FieldChange, side: "before" | "after"): string | null {
+  const value = change[side];
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort().join(",") : null;
+  return value === null ? null : String(value);
+}
+
+function toProposals(changes: FieldChange[], dateKey: string | null): SourceWatchProposal[] {
+  const proposals: SourceWatchProposal[] = [];
+  for (const change of changes) {
+    const newValue = valueToText(change, "after");
+    if (newValue === null) continue;
+    proposals.push({
+      date_key: dateKey,
+      field: change.field,
+      old_value: valueToText(change, "before"),
+      new_value: newValue,
+      risk_tier: change.risk_tier,
+      enforcement_mode: change.enforcement_mode,
+      change_key: sourceWatchChangeKey(dateKey, change.field, newValue),
+    });
+  }
+  return proposals;
+}
+
+function seriesProposals(ir: ConciergeIR, event: SourceWatchEventRow): SourceWatchProposal[] {
+  const facts = ir.shared_facts;
+  const patch: EventPatch = {};
+  const sharedStart = normalizeTime(facts.time?.start);
+  const sharedEnd = normalizeTime(facts.time?.end);
+  if (sharedStart) patch.start_time = sharedStart;
+  if (sharedEnd) patch.end_time = sharedEnd;
+  if (facts.cost) patch.cost_label = facts.cost;
+  if (facts.age_policy) patch.age_policy = facts.age_policy;
+
+  const current: EventState = {
+    start_time: normalizeTime(event.start_time),
+    end_time: normalizeTime(event.end_time),
+    cost_label: event.cost_label,
+    age_policy: event.age_policy,
+  };
+  return toProposals(computePatchDiff(current, patch, { target: "series" }).changedFields, null);
+}
+
+function occurrenceProposals(
+  source: ConciergeOccurrence,
+  event: SourceWatchEventRow,
+  override: OccurrenceOverride | undefined,
+  sharedStart: string | null
+): SourceWatchProposal[] {
+  const effective = applyOccurrenceOverride(
+    { start_time: event.start_time, end_time: event.end_time } as Record<string, unknown>,
+    override
+  );
+  const currentStart = normalizeTime(effective.start_time as string | null);
+  const currentEnd = normalizeTime(effective.end_time as string | null);
+
+  // A date the page shows at the shared time only differs from ours when an
+  // override moved it; plain series drift is already a series proposal.
+  const overridesTime = !!override?.override_start_time || typeof override?.override_patch?.start_time === "string";
+  const pageStart = normalizeTime(source.start_time) ?? (overridesTime ? sharedStart : null);
+  const pageEnd = normalizeTime(source.end_time);
+
+  const patch: EventPatch = {};
+  if (pageStart) patch.start_time = pageStart;
+  if (pageEnd) patch.end_time = pageEnd;
+
+  const current: EventState = { start_time: currentStart, end_time: currentEnd };
+  if (override?.status === "cancelled") {
+    current.status = "cancelled";
+    patch.status = "normal";
+  }
+  return toProposals(computePatchDiff(current, patch, { target: "occurrence" }).changedFields, source.date);
+}
+
+export function diffSourceSchedule(input: {
+  ir: ConciergeIR;
+  event: SourceWatchEventRow;
+  overrides: OccurrenceOverride[];
+  todayKey: string;
+  windowDays?: number;
+}): SourceScheduleDiff {
+  const { ir, event, todayKey } = input;
+  const endKey = addDaysDenver(todayKey, input.windowDays ?? SOURCE_WATCH_CONFIG.WINDOW_DAYS);
+
+  const sourceByDate = new Map<string, ConciergeOccurrence>();
+  for (const occurrence of ir.occurrences) {
+    if (occurrence.date < todayKey || occurrence.date > endKey) continue;
+    if (!sourceByDate.has(occurrence.date)) sourceByDate.set(occurrence.date, occurrence);
+  }
+  const sourceDates = [...sourceByDate.keys()].sort();
+  const facts = ir.shared_facts;
+  const hasSchedule = sourceDates.length > 0 || !!facts.time || !!facts.cost || !!facts.age_policy;
+  if (!hasSchedule) return { hasSchedule, proposals: [], unmatchedDates: [] };
+
+  const proposals = seriesProposals(ir, event);
+  const unmatchedDates: string[] = [];
+  const recurrence = interpretRecurrence(event);
+
+  if (!recurrence.isRecurring) {
+    // One-time event: a page listing exactly one other date means it moved
+    if (sourceDates.length === 1 && event.event_date && sourceDates[0] !== event.event_date) {
+      const changes = computePatchDiff(
+        { event_date: event.event_date },
+        { event_date: sourceDates[0] },
+        { target: "series" }
+      ).changedFields;
+      proposals.push(...toProposals(changes, null));
+    }
+    return { hasSchedule, proposals, unmatchedDates };
+  }
+
+  const ours = expandOccurrencesForEvent(event, { startKey: todayKey, endKey });
+  const ourDates = new Set(ours.map((occurrence) => occurrence.dateKey));
+  const overrideByDate = new Map(input.overrides.map((override) => [override.date_key, override]));
+  const sharedStart = normalizeTime(facts.time?.start);
+
+  for (const occurrence of ours) {
+    const source = sourceByDate.get(occurrence.dateKey);
+    const override = overrideByDate.get(occurrence.dateKey);
+    if (source) {
+      proposals.push(...occurrenceProposals(source, event, override, sharedStart));
+      continue;
+    }
+    // Gaps inside the span the page covers read as cancellations; dates
+    // outside it are just beyond what the page shows.
+    if (
+      sourceDates.length >= 2 &&
+      override?.status !== "cancelled" &&
+      occurrence.dateKey > sourceDates[0] &&
+      occurrence.dateKey < sourceDates[sourceDates.length - 1]
+    ) {
+      const changes = computePatchDiff(
+        { status: "normal" },
+        { status: "cancelled" },
+        { target: "occurrence" }
+      ).changedFields;
+      proposals.push(...toProposals(changes, occurrence.dateKey));
+    }
+  }
+
+  const added = sourceDates.filter((dateKey) => !ourDates.has(dateKey));
+  if (added.length > 0) {
+    if (recurrence.frequency === "custom") {
+      const changes = computePatchDiff(
+        { custom_dates: event.custom_dates ?? [] },
+        { custom_dates: [...(event.custom_dates ?? []), ...added] },
+        { target: "series" }
+      ).changedFields;
+      proposals.push(...toProposals(changes, null));
+    } else {
+      unmatchedDates.push(...added);
+    }
+  }
+
+  return { hasSchedule, proposals, unmatchedDates };
+}
@@ -0,0 +1,144 @@
+/**
+ * Source watch page fetchers
+ *
+ * A fetcher turns a watched URL into page text for the schedule parser.
+ * Pick one with getSourceWatchFetcher():
+ *
+ *   SOURCE_WATCH_FETCHER          direct (default) | fixture
+ *   SOURCE_WATCH_FIXTURE_DIR      fixture: where saved pages live
+ *
+ *   direct   GET through safeFetch() (lib/url/safeFetch.ts) — SSRF guard,
+ *            robots.txt, size and type caps — then HTML to text
+ *   fixture  reads `<dir>/<key>.html` or `<key>.txt`, keyed by a hash of the
+ *            URL, without touching the network (tests, local development)
+ *
+ * Fetchers never throw; a page that can't be read comes back with a short
+ * reason code that is safe to store and log.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import * as path from "node:path";
+import { safeFetch, type SafeFetchOptions } from "@/lib/url/safeFetch";
+import { SOURCE_WATCH_CONFIG } from "./config";
+
+export type SourceFetcherName = "direct" | "fixture";
+
+export type SourcePage =
+  | { ok: true; url: string; text: string }
+  | { ok: false; reason: string };
+
+export interface SourceFetcher {
+  name: SourceFetcherName;
+  fetchPage(url: string): Promise<SourcePage>;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  bull: "•",
+  middot: "·",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Visible text of an HTML page, one block per line. Table cells are
+ * tab-separated so the parser's slot-table shape still applies.
+ */
+export function pageTextFromHtml(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(td|th)\s*>/gi, "\t")
+    .replace(/<\/?(p|div|li|ul|ol|tr|table|thead|tbody|section|article|header|footer|main|aside|h[1-6]|dt|dd|blockquote|pre)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) =>
+      line
+        .split("\t")
+        .map((cell) => cell.replace(/[^\S\n\t]+/g, " ").trim())
+        .filter((cell) => cell.length > 0)
+        .join("\t")
+    )
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+export function createDirectFetcher(options: Pick<SafeFetchOptions, "timeoutMs" | "resolve"> = {}): SourceFetcher {
+  return {
+    name: "direct",
+    async fetchPage(url) {
+      const result = await safeFetch(url, { ...options, userAgent: SOURCE_WATCH_CONFIG.USER_AGENT });
+      if (!result.ok) {
+        return { ok: false, reason: result.status ? `${result.reason} (${result.status})` : result.reason };
+      }
+      const text = result.contentType === "text/plain" ? result.text : pageTextFromHtml(result.text);
+      return { ok: true, url: result.url, text };
+    },
+  };
+}
+
+/** Fixture file name (without extension) for a URL */
+export function sourceFixtureKey(url: string): string {
+  return createHash("sha256").update(url).digest("hex").slice(0, 24);
+}
+
+export function createFixtureFetcher(options: { dir: string }): SourceFetcher {
+  return {
+    name: "fixture",
+    async fetchPage(url) {
+      const key = sourceFixtureKey(url);
+      for (const extension of [".html", ".txt"]) {
+        try {
+          const body = await readFile(path.join(options.dir, `${key}${extension}`), "utf-8");
+          return { ok: true, url, text: extension === ".html" ? pageTextFromHtml(body) : body };
+        } catch {
+          // try the next extension
+        }
+      }
+      return { ok: false, reason: "fixture_missing" };
+    },
+  };
+}
+
+type FetcherEnv = Record<string, string | undefined>;
+
+/** The configured fetcher, or the configuration error to surface */
+export function getSourceWatchFetcher(
+  env: FetcherEnv = process.env
+): { fetcher: SourceFetcher } | { error: string } {
+  const name = env.SOURCE_WATCH_FETCHER?.trim().toLowerCase() || "direct";
+
+  if (name === "direct") {
+    return { fetcher: createDirectFetcher() };
+  }
+  if (name === "fixture") {
+    const dir = env.SOURCE_WATCH_FIXTURE_DIR?.trim();
+    if (!dir) return { error: "Missing SOURCE_WATCH_FIXTURE_DIR." };
+    return { fetcher: createFixtureFetcher({ dir }) };
+  }
+  return { error: `Unknown SOURCE_WATCH_FETCHER "${name}".` };
+}
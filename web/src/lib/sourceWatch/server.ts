@@ -0,0 +1,574 @@
+/**
+ * Source watch — server-side run
+ *
+ * runSourceWatch() fetches the pages of due watches through a pluggable
+ * fetcher (./fetchers.ts), parses them with the deterministic schedule
+ * parser, diffs them against each event (./diff.ts), and records every new
+ * proposal in event_source_watch_changes:
+ * - shadow fields become event_update_suggestions rows for admin review
+ * - enforced fields wait as "pending" for a host or admin
+ * Called by /api/cron/source-watch with the service-role client.
+ *
+ * getSourceWatch() / saveSourceWatch() / resolveSourceWatchChange() back
+ * the host route /api/my-events/[id]/source-watch and the admin queue.
+ */
+
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/supabase/database.types";
+import { logEventAudit, snapshotFromEventRow, type EventAuditActorRole } from "@/lib/audit/eventAudit";
+import { parse } from "@/lib/events/conciergeScheduleParser";
+import { getTodayDenver, type OccurrenceOverride } from "@/lib/events/nextOccurrence";
+import {
+  SOURCE_WATCH_CONFIG,
+  type SourceWatchChangeAction,
+  type SourceWatchChangeStatus,
+  type SourceWatchStatus,
+} from "./config";
+import { diffSourceSchedule, type SourceWatchEventRow, type SourceWatchProposal } from "./diff";
+import type { SourceFetcher, SourcePage } from "./fetchers";
+
+type ServiceClient = SupabaseClient<Database>;
+
+export type SourceWatchRow = Database["public"]["Tables"]["event_source_watches"]["Row"];
+export type SourceWatchChangeRow = Database["public"]["Tables"]["event_source_watch_changes"]["Row"];
+
+const EVENT_COLUMNS =
+  "id, title, slug, status, venue_name, event_date, day_of_week, recurrence_rule, start_time, end_time, max_occurrences, custom_dates, cost_label, age_policy";
+
+const OVERRIDE_COLUMNS = "event_id, date_key, status, override_start_time, override_notes, override_patch";
+
+const QUERY_CHUNK_SIZE = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type WatchedEvent = SourceWatchEventRow & {
+  title: string;
+  slug: string | null;
+  status: string | null;
+  venue_name: string | null;
+};
+
+export interface SourceWatchRunResult {
+  checked: number;
+  /** Pages whose text changed since the last check */
+  changed: number;
+  /** New enforced changes waiting for confirmation */
+  pending: number;
+  /** New update suggestions opened for shadow fields */
+  suggested: number;
+  failed: number;
+  /** Watches that hit the failure limit this run and turned themselves off */
+  paused: number;
+  /** Due but left for the next run (per-run cap) */
+  deferred: number;
+}
+
+/**
+ * When a watch is next due: its interval after a good check, doubling per
+ * consecutive failure up to MAX_BACKOFF_HOURS.
+ */
+export function sourceWatchNextCheckAt(now: Date, intervalHours: number, consecutiveFailures: number): Date {
+  const hours = Math.min(
+    intervalHours * 2 ** Math.max(0, consecutiveFailures),
+    SOURCE_WATCH_CONFIG.MAX_BACKOFF_HOURS
+  );
+  return new Date(now.getTime() + hours * HOUR_MS);
+}
+
+function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+async function loadEvents(client: ServiceClient, eventIds: string[]): Promise<Map<string, WatchedEvent>> {
+  const events = new Map<string, WatchedEvent>();
+  for (let i = 0; i < eventIds.length; i += QUERY_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from("events")
+      .select(EVENT_COLUMNS)
+      .in("id", eventIds.slice(i, i + QUERY_CHUNK_SIZE));
+    if (error) throw error;
+    for (const row of (data ?? []) as WatchedEvent[]) events.set(row.id, row);
+  }
+  return events;
+}
+
+async function loadOverrides(
+  client: ServiceClient,
+  eventIds: string[],
+  todayKey: string
+): Promise<Map<string, OccurrenceOverride[]>> {
+  const byEvent = new Map<string, OccurrenceOverride[]>();
+  for (let i = 0; i < eventIds.length; i += QUERY_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from("occurrence_overrides")
+      .select(OVERRIDE_COLUMNS)
+      .in("event_id", eventIds.slice(i, i + QUERY_CHUNK_SIZE))
+      .gte("date_key", todayKey);
+    if (error) throw error;
+    for (const row of (data ?? []) as OccurrenceOverride[]) {
+      const list = byEvent.get(row.event_id) ?? [];
+      list.push(row);
+      byEvent.set(row.event_id, list);
+    }
+  }
+  return byEvent;
+}
+
+function suggestionNotes(proposal: SourceWatchProposal, sourceUrl: string): string {
+  const scope = proposal.date_key ? `[UPDATE SCOPE: This date only (${proposal.date_key})] ` : "";
+  return `${scope}[SOURCE WATCH: ${sourceUrl}]`;
+}
+
+/**
+ * Insert proposals not seen before for this event. A new proposal for a
+ * field (and date) supersedes an older one still waiting on someone.
+ */
+async function recordProposals(
+  client: ServiceClient,
+  watch: SourceWatchRow,
+  proposals: SourceWatchProposal[],
+  now: Date
+): Promise<{ pending: number; suggested: number }> {
+  const counts = { pending: 0, suggested: 0 };
+
+  for (const proposal of proposals) {
+    const status: SourceWatchChangeStatus = proposal.enforcement_mode === "enforced" ? "pending" : "suggested";
+    const { data: inserted, error } = await client
+      .from("event_source_watch_changes")
+      .upsert(
+        {
+          watch_id: watch.id,
+          event_id: watch.event_id,
+          date_key: proposal.date_key,
+          field: proposal.field,
+          old_value: proposal.old_value,
+          new_value: proposal.new_value,
+          risk_tier: proposal.risk_tier,
+          change_key: proposal.change_key,
+          status,
+          source_url: watch.source_url,
+          detected_at: now.toISOString(),
+        },
+        { onConflict: "event_id,change_key", ignoreDuplicates: true }
+      )
+      .select("id");
+    if (error) throw error;
+
+    // Already proposed (and maybe dismissed) on an earlier run
+    const changeId = inserted?.[0]?.id;
+    if (!changeId) continue;
+
+    let supersede = client
+      .from("event_source_watch_changes")
+      .update({ status: "superseded", resolved_at: now.toISOString() })
+      .eq("event_id", watch.event_id)
+      .eq("field", proposal.field)
+      .eq("status", "pending")
+      .neq("id", changeId);
+    supersede = proposal.date_key ? supersede.eq("date_key", proposal.date_key) : supersede.is("date_key", null);
+    await supersede;
+
+    if (status === "pending") {
+      counts.pending++;
+      continue;
+    }
+
+    const { data: suggestion, error: suggestionError } = await client
+      .from("event_update_suggestions")
+      .insert({
+        event_id: watch.event_id,
+        field: proposal.field,
+        old_value: proposal.old_value,
+        new_value: proposal.new_value,
+        notes: suggestionNotes(proposal, watch.source_url),
+        submitter_name: SOURCE_WATCH_CONFIG.SUGGESTION_SUBMITTER_NAME,
+        status: "pending",
+      })
+      .select("id")
+      .single();
+    if (suggestionError || !suggestion) {
+      console.error("[SourceWatch] Failed to open suggestion:", suggestionError);
+      continue;
+    }
+
+    await client
+      .from("event_source_watch_changes")
+      .update({ suggestion_id: suggestion.id })
+      .eq("id", changeId);
+    counts.suggested++;
+  }
+
+  return counts;
+}
+
+async function finishCheck(
+  client: ServiceClient,
+  watch: SourceWatchRow,
+  update: Database["public"]["Tables"]["event_source_watches"]["Update"] & { last_status: SourceWatchStatus },
+  now: Date
+): Promise<void> {
+  const failures = update.consecutive_failures ?? 0;
+  const { error } = await client
+    .from("event_source_watches")
+    .update({
+      last_checked_at: now.toISOString(),
+      next_check_at: sourceWatchNextCheckAt(now, watch.check_interval_hours, failures).toISOString(),
+      consecutive_failures: failures,
+      last_error: null,
+      ...update,
+    })
+    .eq("id", watch.id);
+  if (error) throw error;
+}
+
+/**
+ * Cron run: check up to MAX_WATCHES_PER_RUN due watches. Each distinct
+ * URL is fetched once per run; pages whose text hasn't changed since the
+ * last check are not re-diffed.
+ */
+export async function runSourceWatch(
+  client: ServiceClient,
+  options: { fetcher: SourceFetcher; now?: Date }
+): Promise<SourceWatchRunResult> {
+  const now = options.now ?? new Date();
+  const todayKey = getTodayDenver();
+  const result: SourceWatchRunResult = {
+    checked: 0,
+    changed: 0,
+    pending: 0,
+    suggested: 0,
+    failed: 0,
+    paused: 0,
+    deferred: 0,
+  };
+
+  const { data: due, error } = await client
+    .from("event_source_watches")
+    .select("*")
+    .eq("enabled", true)
+    .lte("next_check_at", now.toISOString())
+    .order("next_check_at", { ascending: true });
+  if (error) throw error;
+
+  const watches = (due ?? []).slice(0, SOURCE_WATCH_CONFIG.MAX_WATCHES_PER_RUN);
+  result.deferred = (due ?? []).length - watches.length;
+  if (watches.length === 0) return result;
+
+  const eventIds = watches.map((watch) => watch.event_id);
+  const events = await loadEvents(client, eventIds);
+  const overrides = await loadOverrides(client, eventIds, todayKey);
+  const pages = new Map<string, Promise<SourcePage>>();
+
+  for (const watch of watches) {
+    result.checked++;
+    const event = events.get(watch.event_id);
+
+    if (!event || event.status === "cancelled") {
+      await finishCheck(client, watch, { last_status: "event_inactive" }, now);
+      continue;
+    }
+
+    let pagePromise = pages.get(watch.source_url);
+    if (!pagePromise) {
+      pagePromise = options.fetcher.fetchPage(watch.source_url);
+      pages.set(watch.source_url, pagePromise);
+    }
+    const page = await pagePromise;
+
+    if (!page.ok) {
+      const failures = watch.consecutive_failures + 1;
+      const paused = failures >= SOURCE_WATCH_CONFIG.MAX_CONSECUTIVE_FAILURES;
+      await finishCheck(
+        client,
+        watch,
+        {
+          last_status: paused ? "paused" : "fetch_failed",
+          last_error: page.reason,
+          consecutive_failures: failures,
+          enabled: !paused,
+        },
+        now
+      );
+      result.failed++;
+      if (paused) result.paused++;
+      console.warn(`[SourceWatch] Fetch failed for watch ${watch.id}: ${page.reason}`);
+      continue;
+    }
+
+    const text = page.text.slice(0, SOURCE_WATCH_CONFIG.MAX_PAGE_TEXT_LENGTH);
+    const hash = contentHash(text);
+    if (hash === watch.last_content_hash) {
+      await finishCheck(client, watch, { last_status: watch.last_status === "no_schedule" ? "no_schedule" : "ok" }, now);
+      continue;
+    }
+    result.changed++;
+
+    const ir = parse({ source_kind: "webpage", source_url: watch.source_url, raw_text: text, today_iso: todayKey });
+    const diff = diffSourceSchedule({
+      ir,
+      event,
+      overrides: overrides.get(event.id) ?? [],
+      todayKey,
+    });
+
+    const counts = await recordProposals(client, watch, diff.proposals, now);
+    result.pending += counts.pending;
+    result.suggested += counts.suggested;
+
+    await finishCheck(
+      client,
+      watch,
+      {
+        last_status: diff.hasSchedule ? "ok" : "no_schedule",
+        last_content_hash: hash,
+        last_content_changed_at: now.toISOString(),
+      },
+      now
+    );
+  }
+
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Host / admin
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RECENT_CHANGES_LIMIT = 50;
+
+export async function getSourceWatch(
+  client: ServiceClient,
+  eventId: string
+): Promise<{ watch: SourceWatchRow | null; changes: SourceWatchChangeRow[] }> {
+  const { data: watch, error } = await client
+    .from("event_source_watches")
+    .select("*")
+    .eq("event_id", eventId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!watch) return { watch: null, changes: [] };
+
+  const { data: changes, error: changesError } = await client
+    .from("event_source_watch_changes")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("detected_at", { ascending: false })
+    .limit(RECENT_CHANGES_LIMIT);
+  if (changesError) throw changesError;
+
+  return { watch, changes: changes ?? [] };
+}
+
+/**
+ * Turn a watch on or off. Turning it on (or pointing it at a new URL)
+ * clears the failure count and makes it due on the next run.
+ */
+export async function saveSourceWatch(
+  client: ServiceClient,
+  input: { eventId: string; sourceUrl: string; enabled: boolean; userId: string; now?: Date }
+): Promise<SourceWatchRow> {
+  const nowIso = (input.now ?? new Date()).toISOString();
+  const { data: existing } = await client
+    .from("event_source_watches")
+    .select("id, source_url, enabled")
+    .eq("event_id", input.eventId)
+    .maybeSingle();
+
+  const restart = input.enabled && (!existing || !existing.enabled || existing.source_url !== input.sourceUrl);
+  const { data, error } = await client
+    .from("event_source_watches")
+    .upsert(
+      {
+        event_id: input.eventId,
+        source_url: input.sourceUrl,
+        enabled: input.enabled,
+        updated_at: nowIso,
+        ...(existing ? {} : { created_by: input.userId }),
+        ...(restart
+          ? {
+              next_check_at: nowIso,
+              consecutive_failures: 0,
+              last_error: null,
+              last_status: null,
+              last_content_hash: null,
+            }
+          : {}),
+      },
+      { onConflict: "event_id" }
+    )
+    .select("*")
+    .single();
+  if (error || !data) throw error ?? new Error("Failed to save source watch");
+  return data;
+}
+
+export interface SourceWatchQueue {
+  pending: Array<SourceWatchChangeRow & { event: { id: string; title: string; slug: string | null } | null }>;
+  /** Watches whose last check failed, including ones that paused themselves */
+  failing: Array<SourceWatchRow & { event: { id: string; title: string; slug: string | null } | null }>;
+}
+
+/**
+ * Admin queue: every pending change, oldest first, and watches in trouble.
+ */
+export async function listSourceWatchQueue(client: ServiceClient): Promise<SourceWatchQueue> {
+  const { data: pending, error } = await client
+    .from("event_source_watch_changes")
+    .select("*")
+    .eq("status", "pending")
+    .order("detected_at", { ascending: true })
+    .limit(200);
+  if (error) throw error;
+
+  const { data: failing, error: failingError } = await client
+    .from("event_source_watches")
+    .select("*")
+    .in("last_status", ["fetch_failed", "paused"])
+    .order("last_checked_at", { ascending: false })
+    .limit(200);
+  if (failingError) throw failingError;
+
+  const eventIds = [...new Set([...(pending ?? []), ...(failing ?? [])].map((row) => row.event_id))];
+  const titles = new Map<string, { id: string; title: string; slug: string | null }>();
+  for (let i = 0; i < eventIds.length; i += QUERY_CHUNK_SIZE) {
+    const { data } = await client
+      .from("events")
+      .select("id, title, slug")
+      .in("id", eventIds.slice(i, i + QUERY_CHUNK_SIZE));
+    for (const row of data ?? []) titles.set(row.id, row);
+  }
+
+  return {
+    pending: (pending ?? []).map((row) => ({ ...row, event: titles.get(row.event_id) ?? null })),
+    failing: (failing ?? []).map((row) => ({ ...row, event: titles.get(row.event_id) ?? null })),
+  };
+}
+
+async function applySourceWatchChange(
+  client: ServiceClient,
+  change: SourceWatchChangeRow,
+  event: WatchedEvent & Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  if (!change.date_key) {
+    const value = change.field === "custom_dates" ? change.new_value.split(",").filter(Boolean) : change.new_value;
+    const { error } = await client
+      .from("events")
+      .update({ [change.field]: value, updated_at: new Date().toISOString() })
+      .eq("id", change.event_id);
+    if (error) throw error;
+    return { ...event, [change.field]: value };
+  }
+
+  const { data: existing } = await client
+    .from("occurrence_overrides")
+    .select(OVERRIDE_COLUMNS)
+    .eq("event_id", change.event_id)
+    .eq("date_key", change.date_key)
+    .maybeSingle();
+
+  const payload: Database["public"]["Tables"]["occurrence_overrides"]["Insert"] = {
+    event_id: change.event_id,
+    date_key: change.date_key,
+    updated_at: new Date().toISOString(),
+  };
+  if (change.field === "start_time") {
+    payload.override_start_time = change.new_value;
+  } else if (change.field === "end_time") {
+    const patch = (existing?.override_patch as Record<string, unknown> | null) ?? {};
+    payload.override_patch = { ...patch, end_time: change.new_value };
+  } else if (change.field === "status") {
+    payload.status = change.new_value;
+  } else {
+    throw new Error(`Unsupported per-date field: ${change.field}`);
+  }
+
+  const { error } = await client
+    .from("occurrence_overrides")
+    .upsert(payload, { onConflict: "event_id,date_key" });
+  if (error) throw error;
+  return event;
+}
+
+export type ResolveSourceWatchChangeResult =
+  | { ok: true; change: SourceWatchChangeRow }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Confirm (apply) or dismiss a pending change. The change is claimed
+ * (pending → confirmed/dismissed) first so it can only be applied once;
+ * a failed apply puts it back to pending.
+ */
+export async function resolveSourceWatchChange(
+  client: ServiceClient,
+  input: {
+    changeId: string;
+    eventId: string;
+    action: SourceWatchChangeAction;
+    actorId: string;
+    actorRole: EventAuditActorRole;
+    now?: Date;
+  }
+): Promise<ResolveSourceWatchChangeResult> {
+  const nowIso = (input.now ?? new Date()).toISOString();
+
+  const { data: change } = await client
+    .from("event_source_watch_changes")
+    .select("*")
+    .eq("id", input.changeId)
+    .maybeSingle();
+  if (!change || change.event_id !== input.eventId) {
+    return { ok: false, error: "Change not found.", status: 404 };
+  }
+
+  const { data: claimed } = await client
+    .from("event_source_watch_changes")
+    .update({
+      status: input.action === "confirm" ? "confirmed" : "dismissed",
+      resolved_at: nowIso,
+      resolved_by: input.actorId,
+    })
+    .eq("id", change.id)
+    .eq("status", "pending")
+    .select("*");
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, error: "This change has already been resolved.", status: 409 };
+  }
+  if (input.action === "dismiss") {
+    return { ok: true, change: claimed[0] };
+  }
+
+  const { data: event } = await client
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("id", change.event_id)
+    .maybeSingle();
+
+  let nextEvent: Record<string, unknown>;
+  try {
+    if (!event) throw new Error("Event not found");
+    nextEvent = await applySourceWatchChange(client, change, event as WatchedEvent & Record<string, unknown>);
+  } catch (error) {
+    await client
+      .from("event_source_watch_changes")
+      .update({ status: "pending", resolved_at: null, resolved_by: null })
+      .eq("id", change.id);
+    throw error;
+  }
+
+  void logEventAudit({
+    eventId: change.event_id,
+    eventSnapshot: snapshotFromEventRow(change.event_id, event as Record<string, unknown>),
+    actorId: input.actorId,
+    actorRole: input.actorRole,
+    action: change.field === "status" && change.new_value === "cancelled" ? "cancel" : "update",
+    source: "api",
+    prevEvent: event as Record<string, unknown>,
+    nextEvent,
+    summary: change.date_key
+      ? `Source watch change confirmed for ${change.date_key}: ${change.field} → ${change.new_value}`
+      : `Source watch change confirmed: ${change.field} → ${change.new_value}`,
+  }).catch(() => {});
+
+  return { ok: true, change: claimed[0] };
+}
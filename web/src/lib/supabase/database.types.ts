@@ -433,6 +433,305 @@ export type Database = {
           },
         ]
       }
+      data_health_issues: {
+        Row: {
+          check_key: string
+          detail: string | null
+          entity_id: string
+          entity_type: string
+          event_id: string | null
+          id: string
+          label: string
+          run_id: string
+        }
+        Insert: {
+          check_key: string
+          detail?: string | null
+          entity_id: string
+          entity_type: string
+          event_id?: string | null
+          id?: string
+          label: string
+          run_id: string
+        }
+        Update: {
+          check_key?: string
+          detail?: string | null
+          entity_id?: string
+          entity_type?: string
+          event_id?: string | null
+          id?: string
+          label?: string
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_health_issues_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "data_health_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_health_runs: {
+        Row: {
+          counts: Json
+          error: string | null
+          finished_at: string | null
+          id: string
+          started_at: string
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          counts?: Json
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          trigger: string
+          triggered_by?: string | null
+        }
+        Update: {
+          counts?: Json
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      duplicate_dismissals: {
+        Row: {
+          created_at: string
+          dismissed_by: string | null
+          entity_type: string
+          id: string
+          left_id: string
+          right_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_by?: string | null
+          entity_type: string
+          id?: string
+          left_id: string
+          right_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_by?: string | null
+          entity_type?: string
+          id?: string
+          left_id?: string
+          right_id?: string
+        }
+        Relationships: []
+      }
+      email_delivery_events: {
+        Row: {
+          diagnostic: string | null
+          email: string
+          id: string
+          kind: string
+          received_at: string
+          status_code: string | null
+        }
+        Insert: {
+          diagnostic?: string | null
+          email: string
+          id?: string
+          kind: string
+          received_at?: string
+          status_code?: string | null
+        }
+        Update: {
+          diagnostic?: string | null
+          email?: string
+          id?: string
+          kind?: string
+          received_at?: string
+          status_code?: string | null
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          batch_key: string | null
+          created_at: string
+          html: string
+          id: string
+          last_error: string | null
+          list_unsubscribe_url: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          reply_to: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template_name: string | null
+          text: string
+          to_email: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          batch_key?: string | null
+          created_at?: string
+          html: string
+          id?: string
+          last_error?: string | null
+          list_unsubscribe_url?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          reply_to?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template_name?: string | null
+          text: string
+          to_email: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          batch_key?: string | null
+          created_at?: string
+          html?: string
+          id?: string
+          last_error?: string | null
+          list_unsubscribe_url?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          reply_to?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template_name?: string | null
+          text?: string
+          to_email?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_suppressions: {
+        Row: {
+          created_at: string
+          detail: string | null
+          email: string
+          id: string
+          last_event_at: string
+          reason: string
+          status_code: string | null
+        }
+        Insert: {
+          created_at?: string
+          detail?: string | null
+          email: string
+          id?: string
+          last_event_at?: string
+          reason: string
+          status_code?: string | null
+        }
+        Update: {
+          created_at?: string
+          detail?: string | null
+          email?: string
+          id?: string
+          last_event_at?: string
+          reason?: string
+          status_code?: string | null
+        }
+        Relationships: []
+      }
+      event_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string
+          changed_fields: Json
+          created_at: string
+          event_id: string | null
+          event_id_at_observation: string
+          event_slug_at_observation: string | null
+          event_start_date_at_observation: string | null
+          event_title_at_observation: string | null
+          event_venue_name_at_observation: string | null
+          id: string
+          ip_hash: string | null
+          prior_hash: string | null
+          request_id: string | null
+          source: string
+          summary: string | null
+          suspicion_score: number | null
+          suspicion_signals: string[]
+          user_agent_class: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role: string
+          changed_fields?: Json
+          created_at?: string
+          event_id?: string | null
+          event_id_at_observation: string
+          event_slug_at_observation?: string | null
+          event_start_date_at_observation?: string | null
+          event_title_at_observation?: string | null
+          event_venue_name_at_observation?: string | null
+          id?: string
+          ip_hash?: string | null
+          prior_hash?: string | null
+          request_id?: string | null
+          source: string
+          summary?: string | null
+          suspicion_score?: number | null
+          suspicion_signals?: string[]
+          user_agent_class?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string
+          changed_fields?: Json
+          created_at?: string
+          event_id?: string | null
+          event_id_at_observation?: string
+          event_slug_at_observation?: string | null
+          event_start_date_at_observation?: string | null
+          event_title_at_observation?: string | null
+          event_venue_name_at_observation?: string | null
+          id?: string
+          ip_hash?: string | null
+          prior_hash?: string | null
+          request_id?: string | null
+          source?: string
+          summary?: string | null
+          suspicion_score?: number | null
+          suspicion_signals?: string[]
+          user_agent_class?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_audit_log_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_audit_log_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_claims: {
         Row: {
           created_at: string | null
@@ -827,23 +1126,29 @@ export type Database = {
         Row: {
           date_key: string
           event_id: string
+          now_playing_started_at: string | null
           now_playing_timeslot_id: string | null
           updated_at: string | null
           updated_by: string | null
+          warning_seconds: number
         }
         Insert: {
           date_key: string
           event_id: string
+          now_playing_started_at?: string | null
           now_playing_timeslot_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
+          warning_seconds?: number
         }
         Update: {
           date_key?: string
           event_id?: string
+          now_playing_started_at?: string | null
           now_playing_timeslot_id?: string | null
           updated_at?: string | null
           updated_by?: string | null
+          warning_seconds?: number
         }
         Relationships: [
           {
@@ -876,6 +1181,48 @@ export type Database = {
           },
         ]
       }
+      event_reminder_sends: {
+        Row: {
+          date_key: string
+          event_id: string
+          id: string
+          recipient_key: string
+          reminder_type: string
+          sent_at: string
+        }
+        Insert: {
+          date_key: string
+          event_id: string
+          id?: string
+          recipient_key: string
+          reminder_type: string
+          sent_at?: string
+        }
+        Update: {
+          date_key?: string
+          event_id?: string
+          id?: string
+          recipient_key?: string
+          reminder_type?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_reminder_sends_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_reminder_sends_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_rsvps: {
         Row: {
           created_at: string | null
@@ -1011,6 +1358,158 @@ export type Database = {
           },
         ]
       }
+      event_source_watch_changes: {
+        Row: {
+          change_key: string
+          date_key: string | null
+          detected_at: string
+          event_id: string
+          field: string
+          id: string
+          new_value: string
+          old_value: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          risk_tier: string
+          source_url: string
+          status: string
+          suggestion_id: number | null
+          watch_id: string
+        }
+        Insert: {
+          change_key: string
+          date_key?: string | null
+          detected_at?: string
+          event_id: string
+          field: string
+          id?: string
+          new_value: string
+          old_value?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          risk_tier: string
+          source_url: string
+          status: string
+          suggestion_id?: number | null
+          watch_id: string
+        }
+        Update: {
+          change_key?: string
+          date_key?: string | null
+          detected_at?: string
+          event_id?: string
+          field?: string
+          id?: string
+          new_value?: string
+          old_value?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          risk_tier?: string
+          source_url?: string
+          status?: string
+          suggestion_id?: number | null
+          watch_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_source_watch_changes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_source_watch_changes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_source_watch_changes_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "event_update_suggestions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_source_watch_changes_watch_id_fkey"
+            columns: ["watch_id"]
+            isOneToOne: false
+            referencedRelation: "event_source_watches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_source_watches: {
+        Row: {
+          check_interval_hours: number
+          consecutive_failures: number
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          event_id: string
+          id: string
+          last_checked_at: string | null
+          last_content_changed_at: string | null
+          last_content_hash: string | null
+          last_error: string | null
+          last_status: string | null
+          next_check_at: string
+          source_url: string
+          updated_at: string
+        }
+        Insert: {
+          check_interval_hours?: number
+          consecutive_failures?: number
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          event_id: string
+          id?: string
+          last_checked_at?: string | null
+          last_content_changed_at?: string | null
+          last_content_hash?: string | null
+          last_error?: string | null
+          last_status?: string | null
+          next_check_at?: string
+          source_url: string
+          updated_at?: string
+        }
+        Update: {
+          check_interval_hours?: number
+          consecutive_failures?: number
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          event_id?: string
+          id?: string
+          last_checked_at?: string | null
+          last_content_changed_at?: string | null
+          last_content_hash?: string | null
+          last_error?: string | null
+          last_status?: string | null
+          next_check_at?: string
+          source_url?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_source_watches_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_source_watches_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_timeslots: {
         Row: {
           created_at: string | null
@@ -1122,6 +1621,57 @@ export type Database = {
           },
         ]
       }
+      event_views: {
+        Row: {
+          created_at: string
+          date_key: string | null
+          event_id: string
+          id: string
+          referral_src: string | null
+          referral_via: string | null
+          referrer_host: string | null
+          surface: string
+          viewer_hash: string | null
+        }
+        Insert: {
+          created_at?: string
+          date_key?: string | null
+          event_id: string
+          id?: string
+          referral_src?: string | null
+          referral_via?: string | null
+          referrer_host?: string | null
+          surface: string
+          viewer_hash?: string | null
+        }
+        Update: {
+          created_at?: string
+          date_key?: string | null
+          event_id?: string
+          id?: string
+          referral_src?: string | null
+          referral_via?: string | null
+          referrer_host?: string | null
+          surface?: string
+          viewer_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_views_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "event_views_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_watchers: {
         Row: {
           created_at: string | null
@@ -1201,6 +1751,7 @@ export type Database = {
           last_verified_at: string | null
           location_mode: string | null
           location_notes: string | null
+          lottery_cutoff_offset_minutes: number
           max_occurrences: number | null
           notes: string | null
           online_url: string | null
@@ -1210,10 +1761,12 @@ export type Database = {
           recurrence_pattern: string | null
           recurrence_rule: string | null
           region_id: number | null
+          reminder_hours_before: number | null
           series_id: string | null
           series_index: number | null
           signup_deadline: string | null
           signup_mode: string | null
+          signup_policy: Json | null
           signup_time: string | null
           signup_url: string | null
           slot_duration_minutes: number | null
@@ -1273,6 +1826,7 @@ export type Database = {
           last_verified_at?: string | null
           location_mode?: string | null
           location_notes?: string | null
+          lottery_cutoff_offset_minutes?: number
           max_occurrences?: number | null
           notes?: string | null
           online_url?: string | null
@@ -1282,10 +1836,12 @@ export type Database = {
           recurrence_pattern?: string | null
           recurrence_rule?: string | null
           region_id?: number | null
+          reminder_hours_before?: number | null
           series_id?: string | null
           series_index?: number | null
           signup_deadline?: string | null
           signup_mode?: string | null
+          signup_policy?: Json | null
           signup_time?: string | null
           signup_url?: string | null
           slot_duration_minutes?: number | null
@@ -1345,6 +1901,7 @@ export type Database = {
           last_verified_at?: string | null
           location_mode?: string | null
           location_notes?: string | null
+          lottery_cutoff_offset_minutes?: number
           max_occurrences?: number | null
           notes?: string | null
           online_url?: string | null
@@ -1354,10 +1911,12 @@ export type Database = {
           recurrence_pattern?: string | null
           recurrence_rule?: string | null
           region_id?: number | null
+          reminder_hours_before?: number | null
           series_id?: string | null
           series_index?: number | null
           signup_deadline?: string | null
           signup_mode?: string | null
+          signup_policy?: Json | null
           signup_time?: string | null
           signup_url?: string | null
           slot_duration_minutes?: number | null
@@ -1401,6 +1960,13 @@ export type Database = {
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "events_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "events_venue_id_fkey"
             columns: ["venue_id"]
@@ -1511,6 +2077,74 @@ export type Database = {
         }
         Relationships: []
       }
+      follow_activity: {
+        Row: {
+          actor_id: string
+          actor_type: string
+          created_at: string
+          id: string
+          link: string | null
+          subject_key: string
+          title: string
+          verb: string
+        }
+        Insert: {
+          actor_id: string
+          actor_type: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          subject_key: string
+          title: string
+          verb: string
+        }
+        Update: {
+          actor_id?: string
+          actor_type?: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          subject_key?: string
+          title?: string
+          verb?: string
+        }
+        Relationships: []
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          id: string
+          muted: boolean
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          id?: string
+          muted?: boolean
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          id?: string
+          muted?: boolean
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gallery_album_comments: {
         Row: {
           album_id: string
@@ -2080,6 +2714,57 @@ export type Database = {
           },
         ]
       }
+      image_assets: {
+        Row: {
+          blurhash: string | null
+          bucket: string
+          created_at: string
+          error: string | null
+          height: number | null
+          id: string
+          metadata_stripped: boolean
+          processed_at: string
+          processed_by: string | null
+          source_key: string
+          status: string
+          storage_path: string
+          variants: Json
+          width: number | null
+        }
+        Insert: {
+          blurhash?: string | null
+          bucket: string
+          created_at?: string
+          error?: string | null
+          height?: number | null
+          id?: string
+          metadata_stripped?: boolean
+          processed_at?: string
+          processed_by?: string | null
+          source_key: string
+          status: string
+          storage_path: string
+          variants?: Json
+          width?: number | null
+        }
+        Update: {
+          blurhash?: string | null
+          bucket?: string
+          created_at?: string
+          error?: string | null
+          height?: number | null
+          id?: string
+          metadata_stripped?: boolean
+          processed_at?: string
+          processed_by?: string | null
+          source_key?: string
+          status?: string
+          storage_path?: string
+          variants?: Json
+          width?: number | null
+        }
+        Relationships: []
+      }
       host_requests: {
         Row: {
           created_at: string | null
@@ -2243,6 +2928,10 @@ export type Database = {
       notification_preferences: {
         Row: {
           created_at: string
+          digest_cadence: string
+          digest_day: number
+          digest_max_distance_miles: number | null
+          digest_sections: string[]
           email_admin_notifications: boolean
           email_attendee_activity: boolean
           email_claim_updates: boolean
@@ -2256,6 +2945,10 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          digest_cadence?: string
+          digest_day?: number
+          digest_max_distance_miles?: number | null
+          digest_sections?: string[]
           email_admin_notifications?: boolean
           email_attendee_activity?: boolean
           email_claim_updates?: boolean
@@ -2269,6 +2962,10 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          digest_cadence?: string
+          digest_day?: number
+          digest_max_distance_miles?: number | null
+          digest_sections?: string[]
           email_admin_notifications?: boolean
           email_attendee_activity?: boolean
           email_claim_updates?: boolean
@@ -2644,6 +3341,7 @@ export type Database = {
           featured_song_url: string | null
           full_name: string | null
           genres: string[] | null
+          home_region_id: number | null
           id: string
           instagram_url: string | null
           instruments: string[] | null
@@ -2696,6 +3394,7 @@ export type Database = {
           featured_song_url?: string | null
           full_name?: string | null
           genres?: string[] | null
+          home_region_id?: number | null
           id?: string
           instagram_url?: string | null
           instruments?: string[] | null
@@ -2748,6 +3447,7 @@ export type Database = {
           featured_song_url?: string | null
           full_name?: string | null
           genres?: string[] | null
+          home_region_id?: number | null
           id?: string
           instagram_url?: string | null
           instruments?: string[] | null
@@ -2784,6 +3484,13 @@ export type Database = {
           zip_code?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "profiles_home_region_id_fkey"
+            columns: ["home_region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "profiles_referred_by_profile_id_fkey"
             columns: ["referred_by_profile_id"]
@@ -2793,6 +3500,171 @@ export type Database = {
           },
         ]
       }
+      regions: {
+        Row: {
+          cities: string[]
+          created_at: string
+          digest_send_hour: number
+          id: number
+          is_active: boolean
+          is_default: boolean
+          map_center_lat: number
+          map_center_lng: number
+          map_zoom: number
+          name: string
+          slug: string
+          sort_order: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          cities?: string[]
+          created_at?: string
+          digest_send_hour?: number
+          id?: number
+          is_active?: boolean
+          is_default?: boolean
+          map_center_lat: number
+          map_center_lng: number
+          map_zoom?: number
+          name: string
+          slug: string
+          sort_order?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          cities?: string[]
+          created_at?: string
+          digest_send_hour?: number
+          id?: number
+          is_active?: boolean
+          is_default?: boolean
+          map_center_lat?: number
+          map_center_lng?: number
+          map_zoom?: number
+          name?: string
+          slug?: string
+          sort_order?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reverification_requests: {
+        Row: {
+          event_id: string
+          expires_at: string
+          id: string
+          recipient_email: string | null
+          recipient_role: string | null
+          recipient_user_id: string | null
+          responded_at: string | null
+          response: string | null
+          response_notes: string | null
+          sent_at: string
+          status: string
+          verified_at_send: string | null
+        }
+        Insert: {
+          event_id: string
+          expires_at: string
+          id?: string
+          recipient_email?: string | null
+          recipient_role?: string | null
+          recipient_user_id?: string | null
+          responded_at?: string | null
+          response?: string | null
+          response_notes?: string | null
+          sent_at?: string
+          status?: string
+          verified_at_send?: string | null
+        }
+        Update: {
+          event_id?: string
+          expires_at?: string
+          id?: string
+          recipient_email?: string | null
+          recipient_role?: string | null
+          recipient_user_id?: string | null
+          responded_at?: string | null
+          response?: string | null
+          response_notes?: string | null
+          sent_at?: string
+          status?: string
+          verified_at_send?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reverification_requests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["event_id"]
+          },
+          {
+            foreignKeyName: "reverification_requests_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_documents: {
+        Row: {
+          city: string | null
+          cost: string | null
+          days: string[]
+          entity_id: string
+          entity_type: string
+          image_url: string | null
+          occurrence: Json | null
+          result_type: string
+          search_text: string
+          search_vector: unknown
+          subtitle: string | null
+          title: string
+          updated_at: string
+          url: string
+          venue_id: string | null
+        }
+        Insert: {
+          city?: string | null
+          cost?: string | null
+          days?: string[]
+          entity_id: string
+          entity_type: string
+          image_url?: string | null
+          occurrence?: Json | null
+          result_type: string
+          search_text: string
+          search_vector: unknown
+          subtitle?: string | null
+          title: string
+          updated_at?: string
+          url: string
+          venue_id?: string | null
+        }
+        Update: {
+          city?: string | null
+          cost?: string | null
+          days?: string[]
+          entity_id?: string
+          entity_type?: string
+          image_url?: string | null
+          occurrence?: Json | null
+          result_type?: string
+          search_text?: string
+          search_vector?: unknown
+          subtitle?: string | null
+          title?: string
+          updated_at?: string
+          url?: string
+          venue_id?: string | null
+        }
+        Relationships: []
+      }
       site_settings: {
         Row: {
           font_preset: string
@@ -2954,6 +3826,8 @@ export type Database = {
           id: string
           member_id: string | null
           offer_expires_at: string | null
+          performance_ended_at: string | null
+          performance_started_at: string | null
           status: string
           timeslot_id: string
           updated_at: string | null
@@ -2969,6 +3843,8 @@ export type Database = {
           id?: string
           member_id?: string | null
           offer_expires_at?: string | null
+          performance_ended_at?: string | null
+          performance_started_at?: string | null
           status?: string
           timeslot_id: string
           updated_at?: string | null
@@ -2984,6 +3860,8 @@ export type Database = {
           id?: string
           member_id?: string | null
           offer_expires_at?: string | null
+          performance_ended_at?: string | null
+          performance_started_at?: string | null
           status?: string
           timeslot_id?: string
           updated_at?: string | null
@@ -3021,6 +3899,111 @@ export type Database = {
           },
         ]
       }
+      timeslot_lottery_draws: {
+        Row: {
+          algorithm: string
+          date_key: string
+          drawn_at: string
+          entrant_count: number
+          event_id: string
+          id: string
+          result: Json
+          seed: string
+          slot_count: number
+        }
+        Insert: {
+          algorithm: string
+          date_key: string
+          drawn_at?: string
+          entrant_count: number
+          event_id: string
+          id?: string
+          result: Json
+          seed: string
+          slot_count: number
+        }
+        Update: {
+          algorithm?: string
+          date_key?: string
+          drawn_at?: string
+          entrant_count?: number
+          event_id?: string
+          id?: string
+          result?: Json
+          seed?: string
+          slot_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timeslot_lottery_draws_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timeslot_lottery_entries: {
+        Row: {
+          claim_id: string | null
+          created_at: string
+          date_key: string
+          event_id: string
+          id: string
+          member_id: string
+          offer_expires_at: string | null
+          status: string
+          updated_at: string
+          waitlist_position: number | null
+        }
+        Insert: {
+          claim_id?: string | null
+          created_at?: string
+          date_key: string
+          event_id: string
+          id?: string
+          member_id: string
+          offer_expires_at?: string | null
+          status?: string
+          updated_at?: string
+          waitlist_position?: number | null
+        }
+        Update: {
+          claim_id?: string | null
+          created_at?: string
+          date_key?: string
+          event_id?: string
+          id?: string
+          member_id?: string
+          offer_expires_at?: string | null
+          status?: string
+          updated_at?: string
+          waitlist_position?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timeslot_lottery_entries_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "timeslot_claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeslot_lottery_entries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timeslot_lottery_entries_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_deletion_log: {
         Row: {
           actor_is_admin: boolean
@@ -3315,6 +4298,39 @@ export type Database = {
           },
         ]
       }
+      venue_slug_redirects: {
+        Row: {
+          created_at: string
+          old_slug: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          old_slug: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          old_slug?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_slug_redirects_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "event_venue_match"
+            referencedColumns: ["matched_venue_id"]
+          },
+          {
+            foreignKeyName: "venue_slug_redirects_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       venues: {
         Row: {
           accessibility_notes: string | null
@@ -3335,6 +4351,7 @@ export type Database = {
           notes: string | null
           parking_notes: string | null
           phone: string | null
+          region_id: number | null
           slug: string | null
           state: string
           updated_at: string | null
@@ -3360,6 +4377,7 @@ export type Database = {
           notes?: string | null
           parking_notes?: string | null
           phone?: string | null
+          region_id?: number | null
           slug?: string | null
           state: string
           updated_at?: string | null
@@ -3385,13 +4403,22 @@ export type Database = {
           notes?: string | null
           parking_notes?: string | null
           phone?: string | null
+          region_id?: number | null
           slug?: string | null
           state?: string
           updated_at?: string | null
           website_url?: string | null
           zip?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "venues_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       volunteer_signups: {
         Row: {
@@ -3446,7 +4473,44 @@ export type Database = {
       }
     }
     Functions: {
+      claim_email_outbox: {
+        Args: { p_batch_key?: string; p_limit: number }
+        Returns: {
+          attempts: number
+          batch_key: string | null
+          created_at: string
+          html: string
+          id: string
+          last_error: string | null
+          list_unsubscribe_url: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          reply_to: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          template_name: string | null
+          text: string
+          to_email: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "email_outbox"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      cleanup_event_audit_log: { Args: never; Returns: number }
       cleanup_old_logs: { Args: never; Returns: number }
+      count_my_recent_no_shows: {
+        Args: { p_decay_days: number }
+        Returns: number
+      }
+      count_recent_no_shows: {
+        Args: { p_decay_days: number; p_guest_email: string; p_member_id: string }
+        Returns: number
+      }
       create_admin_notification: {
         Args: {
           p_message: string
@@ -3472,6 +4536,10 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      create_event_batch: {
+        Args: { p_entries: Json; p_user_id: string }
+        Returns: Json
+      }
       create_user_notification: {
         Args: {
           p_link?: string
@@ -3531,7 +4599,22 @@ export type Database = {
         Args: { venue_id: string; venue_name: string }
         Returns: string
       }
+      get_follower_count: {
+        Args: { p_target_id: string; p_target_type: string }
+        Returns: number
+      }
+      get_image_assets: {
+        Args: { p_source_keys: string[] }
+        Returns: {
+          blurhash: string
+          height: number
+          source_key: string
+          variants: Json
+          width: number
+        }[]
+      }
       is_admin: { Args: never; Returns: boolean }
+      region_id_for_city: { Args: { p_city: string }; Returns: number }
       mark_timeslot_no_show: {
         Args: { p_claim_id: string; p_updated_by: string }
         Returns: {
@@ -3580,6 +4663,14 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      merge_events: {
+        Args: { p_fields?: Json; p_loser_id: string; p_survivor_id: string }
+        Returns: Json
+      }
+      merge_venues: {
+        Args: { p_fields?: Json; p_loser_id: string; p_survivor_id: string }
+        Returns: Json
+      }
       promote_timeslot_waitlist: {
         Args: { p_offer_window_minutes?: number; p_timeslot_id: string }
         Returns: string
@@ -3681,8 +4772,54 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      search_documents_facets: {
+        Args: {
+          p_city?: string
+          p_cost?: string
+          p_days?: string[]
+          p_query: string
+          p_types?: string[]
+          p_venue_ids?: string[]
+        }
+        Returns: {
+          count: number
+          facet: string
+          value: string
+        }[]
+      }
+      search_documents_query: {
+        Args: {
+          p_city?: string
+          p_cost?: string
+          p_days?: string[]
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+          p_types?: string[]
+          p_venue_ids?: string[]
+        }
+        Returns: {
+          city: string | null
+          cost: string | null
+          days: string[]
+          entity_id: string
+          entity_type: string
+          image_url: string | null
+          occurrence: Json | null
+          result_type: string
+          score: number
+          subtitle: string | null
+          title: string
+          total_count: number
+          url: string
+        }[]
+      }
       upsert_notification_preferences: {
         Args: {
+          p_digest_cadence?: string
+          p_digest_day?: number
+          p_digest_max_distance_miles?: number
+          p_digest_sections?: string[]
           p_email_admin_notifications?: boolean
           p_email_attendee_activity?: boolean
           p_email_claim_updates?: boolean
@@ -3695,6 +4832,10 @@ export type Database = {
         }
         Returns: {
           created_at: string
+          digest_cadence: string
+          digest_day: number
+          digest_max_distance_miles: number | null
+          digest_sections: string[]
           email_admin_notifications: boolean
           email_attendee_activity: boolean
           email_claim_updates: boolean
@@ -0,0 +1,599 @@
+/**
+ * safeFetch — the single server-side URL fetch boundary
+ *
+ * Every fetch of a URL that came from a host, a listing or a paste goes
+ * through here (Track 2 matrix row T2-BOLA-SAFE-FETCH). The helper does not
+ * authorize anything: callers decide whose URL it is and why it may be
+ * fetched. What it does guarantee:
+ *
+ *   - http(s) on the default port only, no userinfo in the URL
+ *   - every DNS answer is checked against private/reserved ranges inside
+ *     the socket's own lookup, so the address that was checked is the one
+ *     dialed (no DNS rebinding window between check and connect)
+ *   - redirects are followed by hand and revalidated; capped, loops refused
+ *   - one overall timeout, a response-size cap (after decompression) and a
+ *     content-type allowlist
+ *   - fixed request headers: no cookies, authorization or client IP
+ *   - robots.txt is honoured and requests to one origin are spaced out
+ *   - plain HTTP only — nothing is rendered or executed
+ *
+ * Failures come back as a reason code rather than a thrown error, and never
+ * carry response bodies, so callers can log them as they are (with
+ * describeUrlForLog() for the URL).
+ */
+
+import * as dns from "node:dns";
+import * as http from "node:http";
+import * as https from "node:https";
+import * as net from "node:net";
+import * as zlib from "node:zlib";
+import type { Readable } from "node:stream";
+
+export type SafeFetchFailure =
+  | "invalid_url"
+  | "unsupported_scheme"
+  | "credentials_in_url"
+  | "unsupported_port"
+  | "blocked_address"
+  | "dns_failed"
+  | "redirect_loop"
+  | "too_many_redirects"
+  | "robots_disallowed"
+  | "timeout"
+  | "too_large"
+  | "unsupported_content_type"
+  | "http_error"
+  | "network_error";
+
+export type SafeFetchResult =
+  | { ok: true; url: string; status: number; contentType: string; text: string }
+  | { ok: false; reason: SafeFetchFailure; url: string; status?: number };
+
+export type SafeFetchResolver = (hostname: string) => Promise<Array<{ address: string; family: number }>>;
+
+export interface SafeFetchOptions {
+  /** Whole fetch including redirects and robots.txt (default 10s) */
+  timeoutMs?: number;
+  /** Decoded body cap (default 1 MB) */
+  maxBytes?: number;
+  maxRedirects?: number;
+  /** Media types accepted for the final response (default HTML and plain text) */
+  allowedContentTypes?: readonly string[];
+  /** Sent as User-Agent; its product token is what robots.txt groups match */
+  userAgent?: string;
+  /** Default true */
+  respectRobots?: boolean;
+  /** Minimum gap between requests to one origin from this process (default 1s) */
+  minIntervalMs?: number;
+  signal?: AbortSignal;
+  /** DNS override for tests; answers still go through the address guard */
+  resolve?: SafeFetchResolver;
+}
+
+export const SAFE_FETCH_DEFAULTS = {
+  TIMEOUT_MS: 10_000,
+  MAX_BYTES: 1_000_000,
+  MAX_REDIRECTS: 3,
+  MIN_INTERVAL_MS: 1_000,
+  ROBOTS_MAX_BYTES: 100_000,
+  ROBOTS_CACHE_MS: 60 * 60 * 1000,
+  CONTENT_TYPES: ["text/html", "application/xhtml+xml", "text/plain"],
+  USER_AGENT: "CSC-Fetch/1.0 (+https://coloradosongwriterscollective.org)",
+} as const;
+
+class SafeFetchError extends Error {
+  constructor(readonly reason: SafeFetchFailure, readonly status?: number) {
+    super(reason);
+    this.name = "SafeFetchError";
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Address and URL checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function isBlockedIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+/** Eight 16-bit groups, or null when the text isn't IPv6 */
+function expandIPv6(ip: string): number[] | null {
+  let text = ip.toLowerCase().split("%")[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!net.isIPv4(dotted[1])) return null;
+    const n = ipv4ToNumber(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const fill = halves.length === 2 ? 8 - head.length - tail.length : 0;
+  if (fill < 0) return null;
+  const groups = [...head, ...Array(fill).fill("0"), ...tail];
+  if (groups.length !== 8) return null;
+  const parsed = groups.map((group) => parseInt(group, 16));
+  return parsed.some((group) => Number.isNaN(group) || group < 0 || group > 0xffff) ? null : parsed;
+}
+
+/**
+ * True for loopback, private, link-local, CGNAT, documentation, multicast
+ * and other reserved addresses (IPv4, IPv6, and IPv4 embedded in IPv6).
+ * Anything that isn't an IP literal is blocked too.
+ */
+export function isBlockedAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isBlockedIPv4(address);
+  if (!net.isIPv6(address)) return true;
+
+  const groups = expandIPv6(address);
+  if (!groups) return true;
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const embeddedV4 = `${g6 >> 8}.${g6 & 0xff}.${g7 >> 8}.${g7 & 0xff}`;
+
+  // :: and ::1
+  if (groups.slice(0, 7).every((g) => g === 0) && (g7 === 0 || g7 === 1)) return true;
+  // ::ffff:a.b.c.d (mapped) and ::a.b.c.d (compatible)
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && (g5 === 0xffff || g5 === 0)) {
+    return isBlockedIPv4(embeddedV4);
+  }
+  // 64:ff9b::/96 NAT64
+  if (g0 === 0x64 && g1 === 0xff9b) return true;
+  // 2001:db8::/32 documentation, 2002::/16 6to4
+  if ((g0 === 0x2001 && g1 === 0xdb8) || g0 === 0x2002) return true;
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+  if ((g0 & 0xfe00) === 0xfc00 || (g0 & 0xffc0) === 0xfe80 || (g0 & 0xff00) === 0xff00) return true;
+  return false;
+}
+
+const BLOCKED_HOSTNAME_PATTERN = /(^|\.)(localhost|local|internal|home\.arpa)$/i;
+
+/**
+ * Check a URL before anything is dialed. Resolves relative URLs against
+ * `base` (used for redirect Location headers).
+ */
+export function checkFetchUrl(
+  raw: string,
+  base?: string
+): { ok: true; url: URL } | { ok: false; reason: SafeFetchFailure } {
+  let url: URL;
+  try {
+    url = base ? new URL(raw, base) : new URL(raw);
+  } catch {
+    return { ok: false, reason: "invalid_url" };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { ok: false, reason: "unsupported_scheme" };
+  }
+  if (url.username || url.password) {
+    return { ok: false, reason: "credentials_in_url" };
+  }
+  // URL drops default ports, so anything left is non-standard
+  if (url.port) {
+    return { ok: false, reason: "unsupported_port" };
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (!hostname || BLOCKED_HOSTNAME_PATTERN.test(hostname)) {
+    return { ok: false, reason: "blocked_address" };
+  }
+  // IP literals never reach the lookup hook
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    return { ok: false, reason: "blocked_address" };
+  }
+  url.hash = "";
+  return { ok: true, url };
+}
+
+/** Next hop for a redirect, or why it is refused */
+export function checkRedirect(
+  current: string,
+  location: string | undefined,
+  seen: ReadonlySet<string>,
+  maxRedirects: number
+): { ok: true; url: URL } | { ok: false; reason: SafeFetchFailure } {
+  if (!location) return { ok: false, reason: "network_error" };
+  if (seen.size > maxRedirects) return { ok: false, reason: "too_many_redirects" };
+  const next = checkFetchUrl(location, current);
+  if (!next.ok) return next;
+  if (seen.has(next.url.href)) return { ok: false, reason: "redirect_loop" };
+  return next;
+}
+
+/** Origin and path only — no userinfo, query string or fragment */
+export function describeUrlForLog(raw: string): string {
+  try {
+    const url = new URL(raw);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return "(invalid url)";
+  }
+}
+
+const defaultResolver: SafeFetchResolver = (hostname) =>
+  dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Socket lookup that refuses the connection when any DNS answer is a
+ * blocked address. Used for every hop, so a rebinding answer on the second
+ * resolution is caught the same way as on the first.
+ */
+export function createGuardedLookup(resolve: SafeFetchResolver): net.LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(
+      (answers) => {
+        if (answers.length === 0) {
+          callback(new SafeFetchError("dns_failed"), "", 4);
+          return;
+        }
+        if (answers.some((answer) => isBlockedAddress(answer.address))) {
+          callback(new SafeFetchError("blocked_address"), "", 4);
+          return;
+        }
+        if (options.all) {
+          callback(null, answers);
+          return;
+        }
+        const wanted = options.family === 6 || options.family === "IPv6" ? 6 : options.family === 4 || options.family === "IPv4" ? 4 : 0;
+        const answer = answers.find((a) => !wanted || a.family === wanted) ?? answers[0];
+        callback(null, answer.address, answer.family);
+      },
+      () => callback(new SafeFetchError("dns_failed"), "", 4)
+    );
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request plumbing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The only headers ever sent */
+export function buildRequestHeaders(userAgent: string): Record<string, string> {
+  return {
+    "user-agent": userAgent,
+    accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1",
+    "accept-encoding": "gzip, deflate, br",
+  };
+}
+
+/** Media type without parameters, lowercased */
+export function mediaType(contentType: string | undefined): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+/** Decide on a response from its status line and headers alone */
+export function checkResponseHead(
+  head: { status: number; contentType: string | undefined; contentLength: string | undefined },
+  options: { maxBytes: number; allowedContentTypes: readonly string[] }
+): SafeFetchFailure | null {
+  if (head.status < 200 || head.status >= 300) return "http_error";
+  if (!options.allowedContentTypes.includes(mediaType(head.contentType))) return "unsupported_content_type";
+  const length = Number(head.contentLength);
+  if (head.contentLength && Number.isFinite(length) && length > options.maxBytes) return "too_large";
+  return null;
+}
+
+type Hop =
+  | { kind: "redirect"; location: string | undefined }
+  | { kind: "response"; status: number; contentType: string; text: string };
+
+interface HopOptions {
+  userAgent: string;
+  maxBytes: number;
+  allowedContentTypes: readonly string[];
+  lookup: net.LookupFunction;
+  signal: AbortSignal;
+}
+
+function decodeBody(stream: Readable, encoding: string | undefined): Readable {
+  switch ((encoding ?? "").trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return stream.pipe(zlib.createGunzip());
+    case "deflate":
+      return stream.pipe(zlib.createInflate());
+    case "br":
+      return stream.pipe(zlib.createBrotliDecompress());
+    default:
+      return stream;
+  }
+}
+
+function decodeText(buffer: Buffer, contentType: string | undefined): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType ?? "")?.[1];
+  try {
+    return new TextDecoder(charset || "utf-8").decode(buffer);
+  } catch {
+    return new TextDecoder("utf-8").decode(buffer);
+  }
+}
+
+function requestHop(url: URL, options: HopOptions): Promise<Hop> {
+  const transport = url.protocol === "https:" ? https : http;
+
+  return new Promise<Hop>((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: "GET",
+        headers: buildRequestHeaders(options.userAgent),
+        lookup: options.lookup,
+        signal: options.signal,
+        agent: false,
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        if (status >= 300 && status < 400) {
+          response.resume();
+          resolve({ kind: "redirect", location: response.headers.location });
+          return;
+        }
+
+        const contentType = response.headers["content-type"];
+        const refusal = checkResponseHead(
+          { status, contentType, contentLength: response.headers["content-length"] },
+          options
+        );
+        if (refusal) {
+          response.destroy();
+          reject(new SafeFetchError(refusal, status));
+          return;
+        }
+
+        const body = decodeBody(response, response.headers["content-encoding"]);
+        const chunks: Buffer[] = [];
+        let size = 0;
+        body.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > options.maxBytes) {
+            response.destroy();
+            body.destroy();
+            reject(new SafeFetchError("too_large", status));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        body.on("end", () => {
+          resolve({
+            kind: "response",
+            status,
+            contentType: mediaType(contentType),
+            text: decodeText(Buffer.concat(chunks), contentType),
+          });
+        });
+        body.on("error", (error) => reject(error));
+        response.on("error", (error) => reject(error));
+      }
+    );
+    request.on("error", (error) => reject(error));
+    request.end();
+  });
+}
+
+function toFailure(error: unknown, signal: AbortSignal): { reason: SafeFetchFailure; status?: number } {
+  if (error instanceof SafeFetchError) return { reason: error.reason, status: error.status };
+  if (signal.aborted) return { reason: "timeout" };
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") return { reason: "dns_failed" };
+  return { reason: "network_error" };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Politeness: robots.txt and per-origin spacing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: Array<{ allow: boolean; path: string }>;
+}
+
+/** Groups of a robots.txt file (RFC 9309); unknown lines are ignored */
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.split("#")[0].trim();
+    const match = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current || (key !== "allow" && key !== "disallow")) continue;
+    // An empty Disallow allows everything; it adds no rule
+    if (!value) continue;
+    current.rules.push({ allow: key === "allow", path: value });
+  }
+  return groups;
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/** Longest matching rule wins; Allow wins a tie; no matching group allows */
+export function isAllowedByRobots(groups: RobotsGroup[], userAgent: string, path: string): boolean {
+  const token = userAgent.split("/")[0].trim().toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((agent) => agent !== "*" && token.includes(agent))) ??
+    groups.find((g) => g.agents.includes("*"));
+  if (!group) return true;
+
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of group.rules) {
+    if (!robotsPatternMatches(rule.path, path)) continue;
+    const length = rule.path.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length };
+    }
+  }
+  return best ? best.allow : true;
+}
+
+const robotsCache = new Map<string, { groups: RobotsGroup[] | "disallow_all"; expiresAt: number }>();
+const lastRequestAt = new Map<string, number>();
+
+async function waitForOrigin(origin: string, minIntervalMs: number, signal: AbortSignal): Promise<void> {
+  const last = lastRequestAt.get(origin);
+  const wait = last === undefined ? 0 : last + minIntervalMs - Date.now();
+  if (wait > 0) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, wait);
+      signal.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          reject(new SafeFetchError("timeout"));
+        },
+        { once: true }
+      );
+    });
+  }
+  lastRequestAt.set(origin, Date.now());
+}
+
+/**
+ * No rules when robots.txt is missing (4xx) or isn't text; stay out when it
+ * is unreachable (RFC 9309 §2.3.1.4). Address and DNS failures are rethrown
+ * so the caller sees the real reason.
+ */
+function robotsOnFailure(error: unknown): RobotsGroup[] | "disallow_all" {
+  if (error instanceof SafeFetchError) {
+    if (error.reason === "blocked_address" || error.reason === "dns_failed") throw error;
+    if (error.reason === "unsupported_content_type") return [];
+    if (error.status !== undefined && error.status >= 400 && error.status < 500) return [];
+  }
+  return "disallow_all";
+}
+
+async function loadRobots(
+  origin: string,
+  options: Omit<HopOptions, "allowedContentTypes" | "maxBytes"> & { minIntervalMs: number }
+): Promise<RobotsGroup[] | "disallow_all"> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.groups;
+
+  let groups: RobotsGroup[] | "disallow_all";
+  try {
+    await waitForOrigin(origin, options.minIntervalMs, options.signal);
+    const hop = await requestHop(new URL("/robots.txt", origin), {
+      ...options,
+      maxBytes: SAFE_FETCH_DEFAULTS.ROBOTS_MAX_BYTES,
+      allowedContentTypes: ["text/plain"],
+    });
+    // A redirected or odd robots.txt is treated as absent
+    groups = hop.kind === "response" ? parseRobotsTxt(hop.text) : [];
+  } catch (error) {
+    if (options.signal.aborted) throw error;
+    groups = robotsOnFailure(error);
+  }
+  robotsCache.set(origin, { groups, expiresAt: Date.now() + SAFE_FETCH_DEFAULTS.ROBOTS_CACHE_MS });
+  return groups;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * GET a text page. Never throws; see SafeFetchResult.
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const first = checkFetchUrl(rawUrl);
+  if (!first.ok) return { ok: false, reason: first.reason, url: rawUrl };
+
+  const timeoutMs = options.timeoutMs ?? SAFE_FETCH_DEFAULTS.TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const userAgent = options.userAgent ?? SAFE_FETCH_DEFAULTS.USER_AGENT;
+  const minIntervalMs = options.minIntervalMs ?? SAFE_FETCH_DEFAULTS.MIN_INTERVAL_MS;
+  const maxRedirects = options.maxRedirects ?? SAFE_FETCH_DEFAULTS.MAX_REDIRECTS;
+  const hopOptions: HopOptions = {
+    userAgent,
+    maxBytes: options.maxBytes ?? SAFE_FETCH_DEFAULTS.MAX_BYTES,
+    allowedContentTypes: options.allowedContentTypes ?? SAFE_FETCH_DEFAULTS.CONTENT_TYPES,
+    lookup: createGuardedLookup(options.resolve ?? defaultResolver),
+    signal: controller.signal,
+  };
+
+  let url = first.url;
+  const seen = new Set<string>([url.href]);
+
+  try {
+    for (;;) {
+      if (controller.signal.aborted) throw new SafeFetchError("timeout");
+
+      if (options.respectRobots !== false) {
+        const groups = await loadRobots(url.origin, { ...hopOptions, minIntervalMs });
+        if (groups === "disallow_all" || !isAllowedByRobots(groups, userAgent, `${url.pathname}${url.search}`)) {
+          return { ok: false, reason: "robots_disallowed", url: url.href };
+        }
+      }
+
+      await waitForOrigin(url.origin, minIntervalMs, controller.signal);
+      const hop = await requestHop(url, hopOptions);
+
+      if (hop.kind === "response") {
+        return { ok: true, url: url.href, status: hop.status, contentType: hop.contentType, text: hop.text };
+      }
+
+      const next = checkRedirect(url.href, hop.location, seen, maxRedirects);
+      if (!next.ok) return { ok: false, reason: next.reason, url: url.href };
+      url = next.url;
+      seen.add(url.href);
+    }
+  } catch (error) {
+    const failure = toFailure(error, controller.signal);
+    return { ok: false, ...failure, url: url.href };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -143,13 +143,15 @@ export async function promoteNextWaitlistPerson(
 /**
  * Send offer notification email and in-app notification
  * Phase ABC6: Now includes date_key for per-occurrence offers
+ * performerSlot: lottery slot offers link to the lineup instead of the RSVP card
  */
 export async function sendOfferNotifications(
   supabase: SupabaseClient,
   eventId: string,
   userId: string,
   offerExpiresAt: string,
-  dateKey?: string
+  dateKey?: string,
+  options: { performerSlot?: boolean } = {}
 ): Promise<void> {
   // Get event details
   const { data: eventData } = await supabase
@@ -171,9 +173,10 @@ export async function sendOfferNotifications(
   const eventIdentifier = eventData.slug || eventId;
 
   // Phase ABC6: Build URL with date_key
+  const anchor = options.performerSlot ? "#lineup" : "#rsvp";
   const eventUrl = dateKey
-    ? `/events/${eventIdentifier}?date=${dateKey}&confirm=true#rsvp`
-    : `/events/${eventIdentifier}?confirm=true#rsvp`;
+    ? `/events/${eventIdentifier}?date=${dateKey}&confirm=true${anchor}`
+    : `/events/${eventIdentifier}?confirm=true${anchor}`;
 
   // Phase ABC6: Format date for display
   const occurrenceDate = dateKey || eventData.event_date || "TBA";
@@ -189,9 +192,11 @@ export async function sendOfferNotifications(
   // Send in-app notification
   const { error: notifyError } = await supabase.rpc("create_user_notification", {
     p_user_id: userId,
-    p_type: "waitlist_offer",
-    p_title: "A Spot Opened Up!",
-    p_message: `A spot is available for "${eventData.title}" on ${formattedDate}. Confirm within 24 hours to secure it!`,
+    p_type: options.performerSlot ? "lottery_slot_offer" : "waitlist_offer",
+    p_title: options.performerSlot ? "A Performer Slot Opened Up!" : "A Spot Opened Up!",
+    p_message: options.performerSlot
+      ? `A performer slot opened up for "${eventData.title}" on ${formattedDate}. Accept it before the offer expires!`
+      : `A spot is available for "${eventData.title}" on ${formattedDate}. Confirm within 24 hours to secure it!`,
     p_link: eventUrl,
   });
 
@@ -211,6 +216,7 @@ export async function sendOfferNotifications(
         eventSlug: eventData.slug,
         offerExpiresAt,
         dateKey, // Phase ABC6: Pass date_key for URL
+        performerSlot: options.performerSlot,
       });
 
       await sendEmail({
@@ -286,3 +292,181 @@ export async function confirmOffer(
 
   return { success: true };
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lottery signup mode: dropouts after the draw
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Offer a freed performer slot to the next waitlisted lottery entrant (draw
+ * order). Creates an "offered" claim that expires after the event's
+ * slot_offer_window_minutes, the same window guest slot offers use.
+ * Returns the promoted entry ID if successful, null otherwise
+ */
+export async function promoteNextLotteryEntrant(
+  supabase: SupabaseClient,
+  eventId: string,
+  dateKey: string,
+  timeslotId: string
+): Promise<string | null> {
+  const { data: nextInLine } = await supabase
+    .from("timeslot_lottery_entries")
+    .select("id, member_id")
+    .eq("event_id", eventId)
+    .eq("date_key", dateKey)
+    .eq("status", "waitlist")
+    .order("waitlist_position", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (!nextInLine) {
+    return null;
+  }
+
+  const { data: eventData } = await supabase
+    .from("events")
+    .select("slot_offer_window_minutes")
+    .eq("id", eventId)
+    .single();
+
+  const windowMinutes = eventData?.slot_offer_window_minutes ?? 120;
+  const offerExpiresAt = new Date(Date.now() + windowMinutes * 60 * 1000).toISOString();
+
+  const { data: claim, error: claimError } = await supabase
+    .from("timeslot_claims")
+    .insert({
+      timeslot_id: timeslotId,
+      member_id: nextInLine.member_id,
+      status: "offered",
+      offer_expires_at: offerExpiresAt,
+    })
+    .select("id")
+    .single();
+
+  if (claimError || !claim) {
+    console.error("Failed to offer lottery slot:", claimError);
+    return null;
+  }
+
+  await supabase
+    .from("timeslot_lottery_entries")
+    .update({
+      status: "offered",
+      claim_id: claim.id,
+      offer_expires_at: offerExpiresAt,
+      waitlist_position: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", nextInLine.id);
+
+  await sendOfferNotifications(supabase, eventId, nextInLine.member_id, offerExpiresAt, dateKey, {
+    performerSlot: true,
+  });
+
+  return nextInLine.id;
+}
+
+/**
+ * Expire lapsed lottery slot offers and pass each slot to the next entrant.
+ * Unlike RSVP offers, an expired entrant is not re-queued: the draw order
+ * already gave them their turn.
+ */
+export async function processExpiredLotteryOffers(
+  supabase: SupabaseClient,
+  eventId: string,
+  dateKey?: string
+): Promise<{ processed: number }> {
+  let query = supabase
+    .from("timeslot_lottery_entries")
+    .select("id, date_key, claim_id")
+    .eq("event_id", eventId)
+    .eq("status", "offered")
+    .lt("offer_expires_at", new Date().toISOString());
+
+  if (dateKey) {
+    query = query.eq("date_key", dateKey);
+  }
+
+  const { data: expiredOffers, error: fetchError } = await query;
+
+  if (fetchError || !expiredOffers || expiredOffers.length === 0) {
+    return { processed: 0 };
+  }
+
+  for (const expiredOffer of expiredOffers) {
+    let timeslotId: string | null = null;
+    if (expiredOffer.claim_id) {
+      const { data: claim } = await supabase
+        .from("timeslot_claims")
+        .update({ status: "cancelled", offer_expires_at: null, updated_at: new Date().toISOString() })
+        .eq("id", expiredOffer.claim_id)
+        .eq("status", "offered")
+        .select("timeslot_id")
+        .maybeSingle();
+      timeslotId = claim?.timeslot_id ?? null;
+    }
+
+    await supabase
+      .from("timeslot_lottery_entries")
+      .update({ status: "expired", offer_expires_at: null, updated_at: new Date().toISOString() })
+      .eq("id", expiredOffer.id);
+
+    if (timeslotId) {
+      await promoteNextLotteryEntrant(supabase, eventId, expiredOffer.date_key, timeslotId);
+    }
+  }
+
+  return { processed: expiredOffers.length };
+}
+
+/**
+ * Accept an offered lottery slot
+ * Returns { success: true } or { error: string }
+ */
+export async function confirmLotteryOffer(
+  supabase: SupabaseClient,
+  eventId: string,
+  userId: string,
+  dateKey: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data: entry } = await supabase
+    .from("timeslot_lottery_entries")
+    .select("id, status, claim_id, offer_expires_at")
+    .eq("event_id", eventId)
+    .eq("date_key", dateKey)
+    .eq("member_id", userId)
+    .maybeSingle();
+
+  if (!entry) {
+    return { success: false, error: "You're not entered in this draw" };
+  }
+
+  if (entry.status === "won") {
+    return { success: true };
+  }
+
+  if (entry.status !== "offered" || !entry.claim_id) {
+    return { success: false, error: "No pending slot offer to accept" };
+  }
+
+  if (isOfferExpired(entry.offer_expires_at)) {
+    await processExpiredLotteryOffers(supabase, eventId, dateKey);
+    return { success: false, error: "Your offer has expired. The slot has been offered to the next person." };
+  }
+
+  const { error: claimError } = await supabase
+    .from("timeslot_claims")
+    .update({ status: "confirmed", offer_expires_at: null, updated_at: new Date().toISOString() })
+    .eq("id", entry.claim_id);
+
+  if (claimError) {
+    return { success: false, error: claimError.message };
+  }
+
+  await supabase
+    .from("timeslot_lottery_entries")
+    .update({ status: "won", offer_expires_at: null, updated_at: new Date().toISOString() })
+    .eq("id", entry.id);
+
+  return { success: true };
+}